@@ -0,0 +1,40 @@
+"""add workspace_invites table
+
+Revision ID: a4b5c6d7e8f9
+Revises: f3a4b5c6d7e8
+Create Date: 2026-10-18
+
+"""
+from __future__ import annotations
+from alembic import op
+import sqlalchemy as sa
+from sqlalchemy.dialects import postgresql
+
+revision: str = 'a4b5c6d7e8f9'
+down_revision: str = 'f3a4b5c6d7e8'
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    # The workspacerole enum already exists (workspace_members.role)
+    role = postgresql.ENUM('OWNER', 'ADMIN', 'MEMBER', 'VIEWER', name='workspacerole', create_type=False)
+    op.create_table(
+        "workspace_invites",
+        sa.Column("id", sa.String(), nullable=False),
+        sa.Column("workspace_id", sa.String(), sa.ForeignKey("workspaces.id", ondelete="CASCADE"), nullable=False),
+        sa.Column("email", sa.String(255), nullable=False),
+        sa.Column("role", role, nullable=True),
+        sa.Column("invited_by", sa.String(), sa.ForeignKey("users.id"), nullable=True),
+        sa.Column("created_at", sa.DateTime(), nullable=True),
+        sa.PrimaryKeyConstraint("id"),
+        sa.UniqueConstraint("workspace_id", "email"),
+    )
+    op.create_index("ix_workspace_invites_workspace_id", "workspace_invites", ["workspace_id"])
+    op.create_index("ix_workspace_invites_email", "workspace_invites", ["email"])
+
+
+def downgrade() -> None:
+    op.drop_index("ix_workspace_invites_email", table_name="workspace_invites")
+    op.drop_index("ix_workspace_invites_workspace_id", table_name="workspace_invites")
+    op.drop_table("workspace_invites")
@@ -0,0 +1,47 @@
+"""add batch_schedules table
+
+Revision ID: a8b9c0d1e2f3
+Revises: f7a8b9c0d1e2
+Create Date: 2026-10-18
+
+"""
+from __future__ import annotations
+from alembic import op
+import sqlalchemy as sa
+
+revision: str = 'a8b9c0d1e2f3'
+down_revision: str = 'f7a8b9c0d1e2'
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    op.create_table(
+        "batch_schedules",
+        sa.Column("id", sa.String(), nullable=False),
+        sa.Column("application_id", sa.String(), sa.ForeignKey("applications.id", ondelete="CASCADE"), nullable=False),
+        sa.Column("environment_id", sa.String(), sa.ForeignKey("environments.id", ondelete="CASCADE"), nullable=False),
+        sa.Column("name", sa.String(255), nullable=False),
+        sa.Column("cron_expression", sa.String(120), nullable=False),
+        sa.Column("timezone", sa.String(64), nullable=True),
+        sa.Column("scenario_ids", sa.JSON(), nullable=False),
+        sa.Column("execution_mode", sa.String(50), nullable=True),
+        sa.Column("is_paused", sa.Boolean(), nullable=True),
+        sa.Column("next_run_at", sa.DateTime(), nullable=True),
+        sa.Column("last_run_at", sa.DateTime(), nullable=True),
+        sa.Column("last_batch_id", sa.String(), nullable=True),
+        sa.Column("last_status", sa.String(50), nullable=True),
+        sa.Column("last_error", sa.Text(), nullable=True),
+        sa.Column("created_by", sa.String(), sa.ForeignKey("users.id"), nullable=True),
+        sa.Column("created_at", sa.DateTime(), nullable=True),
+        sa.Column("updated_at", sa.DateTime(), nullable=True),
+        sa.PrimaryKeyConstraint("id"),
+    )
+    op.create_index("ix_batch_schedules_application_id", "batch_schedules", ["application_id"])
+    op.create_index("ix_batch_schedules_next_run_at", "batch_schedules", ["next_run_at"])
+
+
+def downgrade() -> None:
+    op.drop_index("ix_batch_schedules_next_run_at", table_name="batch_schedules")
+    op.drop_index("ix_batch_schedules_application_id", table_name="batch_schedules")
+    op.drop_table("batch_schedules")
@@ -0,0 +1,57 @@
+"""add append-only audit_events table
+
+Revision ID: b5c6d7e8f9a0
+Revises: a4b5c6d7e8f9
+Create Date: 2026-10-18
+
+"""
+from __future__ import annotations
+from alembic import op
+import sqlalchemy as sa
+
+revision: str = 'b5c6d7e8f9a0'
+down_revision: str = 'a4b5c6d7e8f9'
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    op.create_table(
+        "audit_events",
+        sa.Column("id", sa.String(), nullable=False),
+        sa.Column("workspace_id", sa.String(), nullable=False),
+        sa.Column("application_id", sa.String(), nullable=True),
+        sa.Column("actor_id", sa.String(), nullable=True),
+        sa.Column("actor_email", sa.String(255), nullable=True),
+        sa.Column("actor_name", sa.String(255), nullable=True),
+        sa.Column("via_api_token", sa.Boolean(), nullable=True),
+        sa.Column("action", sa.String(64), nullable=False),
+        sa.Column("target_type", sa.String(50), nullable=True),
+        sa.Column("target_id", sa.String(), nullable=True),
+        sa.Column("target_name", sa.String(500), nullable=True),
+        sa.Column("details", sa.JSON(), nullable=False),
+        sa.Column("created_at", sa.DateTime(), nullable=False),
+        sa.PrimaryKeyConstraint("id"),
+    )
+    op.create_index("ix_audit_events_workspace_created", "audit_events", ["workspace_id", "created_at"])
+
+    # Append-only: the application never rewrites history, and neither can anyone else
+    op.execute("""
+        CREATE FUNCTION audit_events_immutable() RETURNS trigger AS $$
+        BEGIN
+            RAISE EXCEPTION 'audit_events is append-only';
+        END;
+        $$ LANGUAGE plpgsql
+    """)
+    op.execute("""
+        CREATE TRIGGER audit_events_no_rewrite
+        BEFORE UPDATE OR DELETE ON audit_events
+        FOR EACH ROW EXECUTE FUNCTION audit_events_immutable()
+    """)
+
+
+def downgrade() -> None:
+    op.execute("DROP TRIGGER IF EXISTS audit_events_no_rewrite ON audit_events")
+    op.execute("DROP FUNCTION IF EXISTS audit_events_immutable()")
+    op.drop_index("ix_audit_events_workspace_created", table_name="audit_events")
+    op.drop_table("audit_events")
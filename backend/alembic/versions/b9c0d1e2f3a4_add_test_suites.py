@@ -0,0 +1,62 @@
+"""add test_suites, test_suite_versions and batch_schedules.suite_id
+
+Revision ID: b9c0d1e2f3a4
+Revises: a8b9c0d1e2f3
+Create Date: 2026-10-18
+
+"""
+from __future__ import annotations
+from alembic import op
+import sqlalchemy as sa
+
+revision: str = 'b9c0d1e2f3a4'
+down_revision: str = 'a8b9c0d1e2f3'
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    op.create_table(
+        "test_suites",
+        sa.Column("id", sa.String(), nullable=False),
+        sa.Column("application_id", sa.String(), sa.ForeignKey("applications.id", ondelete="CASCADE"), nullable=False),
+        sa.Column("name", sa.String(255), nullable=False),
+        sa.Column("description", sa.Text(), nullable=True),
+        sa.Column("kind", sa.String(20), nullable=False),
+        sa.Column("scenario_ids", sa.JSON(), nullable=False),
+        sa.Column("query", sa.JSON(), nullable=True),
+        sa.Column("version", sa.Integer(), nullable=False),
+        sa.Column("created_by", sa.String(), sa.ForeignKey("users.id"), nullable=True),
+        sa.Column("created_at", sa.DateTime(), nullable=True),
+        sa.Column("updated_at", sa.DateTime(), nullable=True),
+        sa.PrimaryKeyConstraint("id"),
+    )
+    op.create_index("ix_test_suites_application_id", "test_suites", ["application_id"])
+
+    op.create_table(
+        "test_suite_versions",
+        sa.Column("id", sa.String(), nullable=False),
+        sa.Column("suite_id", sa.String(), sa.ForeignKey("test_suites.id", ondelete="CASCADE"), nullable=False),
+        sa.Column("version", sa.Integer(), nullable=False),
+        sa.Column("kind", sa.String(20), nullable=False),
+        sa.Column("scenario_ids", sa.JSON(), nullable=False),
+        sa.Column("query", sa.JSON(), nullable=True),
+        sa.Column("created_by", sa.String(), sa.ForeignKey("users.id"), nullable=True),
+        sa.Column("created_at", sa.DateTime(), nullable=True),
+        sa.PrimaryKeyConstraint("id"),
+        sa.UniqueConstraint("suite_id", "version"),
+    )
+    op.create_index("ix_test_suite_versions_suite_id", "test_suite_versions", ["suite_id"])
+
+    op.add_column(
+        "batch_schedules",
+        sa.Column("suite_id", sa.String(), sa.ForeignKey("test_suites.id", ondelete="CASCADE"), nullable=True),
+    )
+
+
+def downgrade() -> None:
+    op.drop_column("batch_schedules", "suite_id")
+    op.drop_index("ix_test_suite_versions_suite_id", table_name="test_suite_versions")
+    op.drop_table("test_suite_versions")
+    op.drop_index("ix_test_suites_application_id", table_name="test_suites")
+    op.drop_table("test_suites")
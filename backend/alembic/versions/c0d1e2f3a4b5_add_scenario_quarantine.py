@@ -0,0 +1,29 @@
+"""add scenario quarantine columns
+
+Revision ID: c0d1e2f3a4b5
+Revises: b9c0d1e2f3a4
+Create Date: 2026-10-18
+
+"""
+from __future__ import annotations
+from alembic import op
+import sqlalchemy as sa
+
+revision: str = 'c0d1e2f3a4b5'
+down_revision: str = 'b9c0d1e2f3a4'
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    op.add_column("scenarios", sa.Column("is_quarantined", sa.Boolean(), nullable=True, server_default=sa.false()))
+    op.add_column("scenarios", sa.Column("quarantined_at", sa.DateTime(), nullable=True))
+    op.add_column("scenarios", sa.Column("quarantine_reason", sa.Text(), nullable=True))
+    op.add_column("scenarios", sa.Column("quarantine_pass_streak", sa.Integer(), nullable=True, server_default="0"))
+
+
+def downgrade() -> None:
+    op.drop_column("scenarios", "quarantine_pass_streak")
+    op.drop_column("scenarios", "quarantine_reason")
+    op.drop_column("scenarios", "quarantined_at")
+    op.drop_column("scenarios", "is_quarantined")
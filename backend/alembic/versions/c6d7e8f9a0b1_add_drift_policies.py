@@ -0,0 +1,58 @@
+"""add drift_policies and drift_policy_events tables
+
+Revision ID: c6d7e8f9a0b1
+Revises: b5c6d7e8f9a0
+Create Date: 2026-10-18
+
+"""
+from __future__ import annotations
+from alembic import op
+import sqlalchemy as sa
+
+revision: str = 'c6d7e8f9a0b1'
+down_revision: str = 'b5c6d7e8f9a0'
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    op.create_table(
+        "drift_policies",
+        sa.Column("id", sa.String(), nullable=False),
+        sa.Column("application_id", sa.String(), sa.ForeignKey("applications.id", ondelete="CASCADE"), nullable=False),
+        sa.Column("is_enabled", sa.Boolean(), nullable=True),
+        sa.Column("min_severity", sa.String(20), nullable=True),
+        sa.Column("min_runs", sa.Integer(), nullable=True),
+        sa.Column("replan_scenarios", sa.Boolean(), nullable=True),
+        sa.Column("cooldown_hours", sa.Integer(), nullable=True),
+        sa.Column("updated_by", sa.String(), sa.ForeignKey("users.id"), nullable=True),
+        sa.Column("created_at", sa.DateTime(), nullable=True),
+        sa.Column("updated_at", sa.DateTime(), nullable=True),
+        sa.PrimaryKeyConstraint("id"),
+        sa.UniqueConstraint("application_id"),
+    )
+    op.create_table(
+        "drift_policy_events",
+        sa.Column("id", sa.String(), nullable=False),
+        sa.Column("application_id", sa.String(), sa.ForeignKey("applications.id", ondelete="CASCADE"), nullable=False),
+        sa.Column("module_id", sa.String(), nullable=True),
+        sa.Column("module_name", sa.String(255), nullable=True),
+        sa.Column("action", sa.String(50), nullable=False),
+        sa.Column("severity", sa.String(20), nullable=True),
+        sa.Column("fail_rate_pct", sa.Integer(), nullable=True),
+        sa.Column("runs_checked", sa.Integer(), nullable=True),
+        sa.Column("explore_session_id", sa.String(), nullable=True),
+        sa.Column("scenarios_replanned", sa.Integer(), nullable=True),
+        sa.Column("detail", sa.Text(), nullable=True),
+        sa.Column("created_at", sa.DateTime(), nullable=False),
+        sa.PrimaryKeyConstraint("id"),
+    )
+    op.create_index(
+        "ix_drift_policy_events_app_created", "drift_policy_events", ["application_id", "created_at"],
+    )
+
+
+def downgrade() -> None:
+    op.drop_index("ix_drift_policy_events_app_created", table_name="drift_policy_events")
+    op.drop_table("drift_policy_events")
+    op.drop_table("drift_policies")
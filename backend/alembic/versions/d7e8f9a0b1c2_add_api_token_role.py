@@ -0,0 +1,27 @@
+"""add role to api_tokens
+
+Revision ID: d7e8f9a0b1c2
+Revises: c6d7e8f9a0b1
+Create Date: 2026-10-18
+
+"""
+from __future__ import annotations
+from alembic import op
+import sqlalchemy as sa
+from sqlalchemy.dialects import postgresql
+
+revision: str = 'd7e8f9a0b1c2'
+down_revision: str = 'c6d7e8f9a0b1'
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    # The workspacerole enum already exists (workspace_members.role).
+    # Existing tokens become MEMBER tokens: they keep triggering runs but lose admin rights.
+    role = postgresql.ENUM('OWNER', 'ADMIN', 'MEMBER', 'VIEWER', name='workspacerole', create_type=False)
+    op.add_column('api_tokens', sa.Column('role', role, nullable=False, server_default='MEMBER'))
+
+
+def downgrade() -> None:
+    op.drop_column('api_tokens', 'role')
@@ -0,0 +1,73 @@
+"""add defect_trackers, defect_links and defect_occurrences tables
+
+Revision ID: f3a4b5c6d7e8
+Revises: e2f3a4b5c6d7
+Create Date: 2026-10-18
+
+"""
+from __future__ import annotations
+from alembic import op
+import sqlalchemy as sa
+
+revision: str = 'f3a4b5c6d7e8'
+down_revision: str = 'e2f3a4b5c6d7'
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    op.create_table(
+        "defect_trackers",
+        sa.Column("id", sa.String(), nullable=False),
+        sa.Column("workspace_id", sa.String(), sa.ForeignKey("workspaces.id", ondelete="CASCADE"), nullable=False),
+        sa.Column("kind", sa.String(50), nullable=False),
+        sa.Column("name", sa.String(255), nullable=False),
+        sa.Column("config", sa.JSON(), nullable=False),
+        sa.Column("encrypted_secret", sa.Text(), nullable=True),
+        sa.Column("auto_file", sa.Boolean(), nullable=True),
+        sa.Column("is_active", sa.Boolean(), nullable=True),
+        sa.Column("created_by", sa.String(), sa.ForeignKey("users.id"), nullable=True),
+        sa.Column("created_at", sa.DateTime(), nullable=True),
+        sa.Column("updated_at", sa.DateTime(), nullable=True),
+        sa.PrimaryKeyConstraint("id"),
+        sa.UniqueConstraint("workspace_id"),
+    )
+
+    op.create_table(
+        "defect_links",
+        sa.Column("id", sa.String(), nullable=False),
+        sa.Column("scenario_id", sa.String(), sa.ForeignKey("scenarios.id", ondelete="CASCADE"), nullable=False),
+        sa.Column("tracker_id", sa.String(), sa.ForeignKey("defect_trackers.id", ondelete="SET NULL"), nullable=True),
+        sa.Column("defect_key", sa.String(255), nullable=False),
+        sa.Column("defect_url", sa.String(2048), nullable=True),
+        sa.Column("title", sa.String(500), nullable=False),
+        sa.Column("status", sa.String(20), nullable=False),
+        sa.Column("occurrences", sa.Integer(), nullable=True),
+        sa.Column("first_run_id", sa.String(), nullable=False),
+        sa.Column("last_run_id", sa.String(), nullable=False),
+        sa.Column("created_by", sa.String(), sa.ForeignKey("users.id"), nullable=True),
+        sa.Column("created_at", sa.DateTime(), nullable=True),
+        sa.Column("updated_at", sa.DateTime(), nullable=True),
+        sa.Column("resolved_at", sa.DateTime(), nullable=True),
+        sa.PrimaryKeyConstraint("id"),
+    )
+    op.create_index("ix_defect_links_scenario_id", "defect_links", ["scenario_id"])
+
+    op.create_table(
+        "defect_occurrences",
+        sa.Column("id", sa.String(), nullable=False),
+        sa.Column("defect_id", sa.String(), sa.ForeignKey("defect_links.id", ondelete="CASCADE"), nullable=False),
+        sa.Column("run_id", sa.String(), sa.ForeignKey("execution_runs.id", ondelete="CASCADE"), nullable=False),
+        sa.Column("created_at", sa.DateTime(), nullable=True),
+        sa.PrimaryKeyConstraint("id"),
+        sa.UniqueConstraint("run_id"),
+    )
+    op.create_index("ix_defect_occurrences_defect_id", "defect_occurrences", ["defect_id"])
+
+
+def downgrade() -> None:
+    op.drop_index("ix_defect_occurrences_defect_id", table_name="defect_occurrences")
+    op.drop_table("defect_occurrences")
+    op.drop_index("ix_defect_links_scenario_id", table_name="defect_links")
+    op.drop_table("defect_links")
+    op.drop_table("defect_trackers")
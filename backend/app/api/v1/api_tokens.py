@@ -0,0 +1,93 @@
+"""
+API Tokens — workspace-scoped credentials for CI pipelines and the CLI.
+
+Tokens are created and revoked by workspace admins from an interactive session;
+a request authenticated with an API token can't mint or list tokens itself. Each
+token has its own role, VIEWER or MEMBER, which caps what it can do however senior
+its creator is.
+"""
+from __future__ import annotations
+
+from fastapi import APIRouter, Depends, HTTPException
+from sqlalchemy.ext.asyncio import AsyncSession
+from sqlalchemy import select
+
+from app.db.session import get_db
+from app.db.models import ApiToken, User, WorkspaceRole
+from app.core.dependencies import api_token_workspace, get_current_user, get_workspace_access
+from app.core.security import generate_api_token
+from app.schemas.ci import ApiTokenCreate, ApiTokenCreated, ApiTokenResponse
+from app.services import audit_service
+
+router = APIRouter()
+
+
+async def _require_admin_session(workspace_id: str, current_user: User, db: AsyncSession) -> None:
+    if api_token_workspace(current_user):
+        raise HTTPException(status_code=403, detail="API tokens can't manage API tokens")
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.ADMIN)
+
+
+@router.get("/{workspace_id}/api-tokens", response_model=list[ApiTokenResponse])
+async def list_api_tokens(
+    workspace_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await _require_admin_session(workspace_id, current_user, db)
+    result = await db.execute(
+        select(ApiToken)
+        .where(ApiToken.workspace_id == workspace_id)
+        .order_by(ApiToken.created_at.desc())
+    )
+    return [ApiTokenResponse.model_validate(t) for t in result.scalars().all()]
+
+
+@router.post("/{workspace_id}/api-tokens", response_model=ApiTokenCreated, status_code=201)
+async def create_api_token(
+    workspace_id: str,
+    payload: ApiTokenCreate,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """Mint a token. The plaintext is in this response only."""
+    await _require_admin_session(workspace_id, current_user, db)
+    token, token_hash, prefix = generate_api_token()
+    api_token = ApiToken(
+        workspace_id=workspace_id,
+        name=payload.name.strip(),
+        token_hash=token_hash,
+        token_prefix=prefix,
+        role=WorkspaceRole(payload.role),
+        created_by=current_user.id,
+    )
+    db.add(api_token)
+    await db.flush()
+    audit_service.record(
+        db, current_user, "api_token.create", workspace_id=workspace_id,
+        target_type="api_token", target_id=api_token.id, target_name=api_token.name,
+        details={"prefix": prefix, "role": payload.role},
+    )
+    await db.commit()
+    await db.refresh(api_token)
+    return ApiTokenCreated(**ApiTokenResponse.model_validate(api_token).model_dump(), token=token)
+
+
+@router.delete("/{workspace_id}/api-tokens/{token_id}", status_code=204)
+async def revoke_api_token(
+    workspace_id: str,
+    token_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await _require_admin_session(workspace_id, current_user, db)
+    api_token = await db.get(ApiToken, token_id)
+    if not api_token or api_token.workspace_id != workspace_id:
+        raise HTTPException(status_code=404, detail="API token not found")
+    audit_service.record(
+        db, current_user, "api_token.revoke", workspace_id=workspace_id,
+        target_type="api_token", target_id=api_token.id, target_name=api_token.name,
+        details={"prefix": api_token.token_prefix},
+    )
+    await db.delete(api_token)
+    await db.commit()
@@ -8,16 +8,19 @@ import json
 import re
 
 from sqlalchemy.ext.asyncio import AsyncSession
-from sqlalchemy import select, delete, func
+from sqlalchemy import select, delete, func, update
 
 from app.db.session import get_db
 from app.db.models import (
     User, Application, Environment, Credential, ApplicationModule, RBACScan,
-    ExploreSession, ExploreStatus,
+    ExploreSession, ExploreStatus, ExecutionRun, BatchSchedule, WorkspaceRole,
 )
-from app.core.dependencies import get_current_user
+from app.core.dependencies import get_current_user, require_app_access
 from app.core.security import encrypt_credential, decrypt_credential
-from app.schemas.workspace import ApplicationResponse, EnvironmentResponse
+from app.services import audit_service
+from app.schemas.workspace import (
+    ApplicationResponse, EnvironmentCreate, EnvironmentResponse, EnvironmentUpdate,
+)
 
 router = APIRouter()
 
@@ -68,6 +71,153 @@ async def list_environments(
     return [EnvironmentResponse.model_validate(e) for e in result.scalars().all()]
 
 
+async def _get_environment(application_id: str, environment_id: str, db: AsyncSession) -> Environment:
+    result = await db.execute(
+        select(Environment).where(
+            Environment.id == environment_id,
+            Environment.application_id == application_id,
+        )
+    )
+    env = result.scalar_one_or_none()
+    if not env:
+        raise HTTPException(status_code=404, detail="Environment not found")
+    return env
+
+
+async def _clear_default_environment(application_id: str, db: AsyncSession) -> None:
+    await db.execute(
+        update(Environment)
+        .where(Environment.application_id == application_id, Environment.is_default == True)
+        .values(is_default=False)
+    )
+
+
+@router.post("/{application_id}/environments", response_model=EnvironmentResponse, status_code=201)
+async def create_environment(
+    application_id: str,
+    payload: EnvironmentCreate,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    app = await require_app_access(application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+    existing = (await db.execute(
+        select(func.count(Environment.id)).where(Environment.application_id == application_id)
+    )).scalar() or 0
+    # The first environment is always the default — runs need somewhere to go
+    is_default = payload.is_default or existing == 0
+    if is_default:
+        await _clear_default_environment(application_id, db)
+    env = Environment(
+        application_id=application_id,
+        name=payload.name.strip(),
+        env_type=payload.env_type,
+        base_url=payload.base_url.strip().rstrip("/"),
+        is_default=is_default,
+    )
+    db.add(env)
+    await db.flush()
+    audit_service.record_for_app(
+        db, current_user, app, "environment.create",
+        target_type="environment", target_id=env.id, target_name=env.name,
+        details={"base_url": env.base_url, "is_default": env.is_default},
+    )
+    await db.commit()
+    await db.refresh(env)
+    return EnvironmentResponse.model_validate(env)
+
+
+@router.patch("/{application_id}/environments/{environment_id}", response_model=EnvironmentResponse)
+async def update_environment(
+    application_id: str,
+    environment_id: str,
+    payload: EnvironmentUpdate,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    app = await require_app_access(application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+    env = await _get_environment(application_id, environment_id, db)
+    before = {"name": env.name, "env_type": env.env_type, "base_url": env.base_url, "is_default": env.is_default}
+
+    if payload.is_default is False and env.is_default:
+        raise HTTPException(
+            status_code=400,
+            detail="An application needs a default environment — mark another one as default instead",
+        )
+    if payload.is_default and not env.is_default:
+        await _clear_default_environment(application_id, db)
+        env.is_default = True
+    if payload.name is not None:
+        env.name = payload.name.strip()
+    if payload.env_type is not None:
+        env.env_type = payload.env_type
+    if payload.base_url is not None:
+        env.base_url = payload.base_url.strip().rstrip("/")
+
+    after = {"name": env.name, "env_type": env.env_type, "base_url": env.base_url, "is_default": env.is_default}
+    changes = {k: {"from": before[k], "to": v} for k, v in after.items() if v != before[k]}
+    if changes:
+        audit_service.record_for_app(
+            db, current_user, app, "environment.update",
+            target_type="environment", target_id=env.id, target_name=env.name, details=changes,
+        )
+    await db.commit()
+    await db.refresh(env)
+    return EnvironmentResponse.model_validate(env)
+
+
+@router.delete("/{application_id}/environments/{environment_id}", status_code=204)
+async def delete_environment(
+    application_id: str,
+    environment_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """
+    Delete an environment. Environments with execution history are kept so past
+    runs and reports stay attributable; the default moves to the oldest remaining one.
+    """
+    app = await require_app_access(application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+    env = await _get_environment(application_id, environment_id, db)
+
+    remaining = (await db.execute(
+        select(Environment)
+        .where(Environment.application_id == application_id, Environment.id != environment_id)
+        .order_by(Environment.created_at)
+    )).scalars().all()
+    if not remaining:
+        raise HTTPException(status_code=409, detail="An application must keep at least one environment")
+
+    run_count = (await db.execute(
+        select(func.count(ExecutionRun.id)).where(ExecutionRun.environment_id == environment_id)
+    )).scalar() or 0
+    if run_count:
+        raise HTTPException(
+            status_code=409,
+            detail=f"Environment has {run_count} execution run(s) and cannot be deleted",
+        )
+
+    schedule_count = (await db.execute(
+        select(func.count(BatchSchedule.id)).where(BatchSchedule.environment_id == environment_id)
+    )).scalar() or 0
+    if schedule_count:
+        raise HTTPException(
+            status_code=409,
+            detail=f"Environment is targeted by {schedule_count} schedule(s) — retarget or delete them first",
+        )
+
+    await db.execute(
+        update(Credential).where(Credential.environment_id == environment_id).values(environment_id=None)
+    )
+    if env.is_default:
+        remaining[0].is_default = True
+    audit_service.record_for_app(
+        db, current_user, app, "environment.delete",
+        target_type="environment", target_id=env.id, target_name=env.name, details={"base_url": env.base_url},
+    )
+    await db.delete(env)
+    await db.commit()
+
+
 @router.get("/{application_id}/modules")
 async def list_modules(
     application_id: str,
@@ -131,10 +281,8 @@ async def update_application_settings(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
-    result = await db.execute(select(Application).where(Application.id == application_id))
-    app = result.scalar_one_or_none()
-    if not app:
-        raise HTTPException(status_code=404, detail="Application not found")
+    # Also edits the login credential, so viewers are kept out
+    app = await require_app_access(application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
 
     if payload.description is not None:
         app.description = payload.description
@@ -144,11 +292,15 @@ async def update_application_settings(
             select(Credential).where(Credential.application_id == application_id).limit(1)
         )
         cred = cred_result.scalar_one_or_none()
+        # The settings form always resends the username; audit only real changes
+        changed: dict[str, bool] = {}
         if cred:
-            if payload.username:
+            if payload.username and payload.username != cred.username:
                 cred.username = payload.username
+                changed["username_changed"] = True
             if payload.password:
                 cred.password_encrypted = encrypt_credential(payload.password)
+                changed["password_changed"] = True
         else:
             if payload.username and payload.password:
                 cred = Credential(
@@ -157,6 +309,13 @@ async def update_application_settings(
                     password_encrypted=encrypt_credential(payload.password),
                 )
                 db.add(cred)
+                changed = {"username_changed": True, "password_changed": True}
+        if changed:
+            # Never the values themselves — only which ones changed
+            audit_service.record_for_app(
+                db, current_user, app, "application.credentials_update",
+                target_type="application", target_id=app.id, target_name=app.name, details=changed,
+            )
 
     await db.commit()
     return {"status": "ok"}
@@ -176,6 +335,7 @@ async def list_role_credentials(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
+    await require_app_access(application_id, current_user, db)
     result = await db.execute(
         select(Credential)
         .where(Credential.application_id == application_id)
@@ -201,6 +361,7 @@ async def add_role_credential(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
+    app = await require_app_access(application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
     cred = Credential(
         application_id=application_id,
         label=payload.role_name.strip(),
@@ -208,6 +369,11 @@ async def add_role_credential(
         password_encrypted=encrypt_credential(payload.password),
     )
     db.add(cred)
+    await db.flush()
+    audit_service.record_for_app(
+        db, current_user, app, "role_credential.create",
+        target_type="role_credential", target_id=cred.id, target_name=cred.label, details={"username": cred.username},
+    )
     await db.commit()
     await db.refresh(cred)
     return {"id": cred.id, "role_name": cred.label, "username": cred.username}
@@ -220,6 +386,7 @@ async def delete_role_credential(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
+    app = await require_app_access(application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
     result = await db.execute(
         select(Credential).where(
             Credential.id == credential_id,
@@ -229,6 +396,10 @@ async def delete_role_credential(
     cred = result.scalar_one_or_none()
     if not cred:
         raise HTTPException(status_code=404, detail="Credential not found")
+    audit_service.record_for_app(
+        db, current_user, app, "role_credential.delete",
+        target_type="role_credential", target_id=cred.id, target_name=cred.label, details={"username": cred.username},
+    )
     await db.delete(cred)
     await db.commit()
 
@@ -416,9 +587,7 @@ async def bulk_import_role_credentials(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
-    result = await db.execute(select(Application).where(Application.id == application_id))
-    if not result.scalar_one_or_none():
-        raise HTTPException(status_code=404, detail="Application not found")
+    app = await require_app_access(application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
 
     content = await file.read()
     try:
@@ -450,6 +619,12 @@ async def bulk_import_role_credentials(
         ))
         imported += 1
 
+    if imported:
+        audit_service.record_for_app(
+            db, current_user, app, "role_credential.import",
+            target_type="role_credential", target_name=file.filename,
+            details={"imported": imported, "skipped": skipped},
+        )
     await db.commit()
     return {
         "imported": imported,
@@ -468,9 +643,7 @@ async def start_rbac_scan(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
-    result = await db.execute(select(Application).where(Application.id == application_id))
-    if not result.scalar_one_or_none():
-        raise HTTPException(status_code=404, detail="Application not found")
+    await require_app_access(application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
 
     # Check there are role credentials to scan
     cred_res = await db.execute(
@@ -0,0 +1,100 @@
+"""
+Audit API — read and export a workspace's append-only audit trail.
+
+Events are written by the routers that perform the actions (see
+app/services/audit_service.py); this router only reads them. Admins and owners only.
+"""
+from __future__ import annotations
+from datetime import datetime
+
+from fastapi import APIRouter, Depends, Query, Response
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from app.db.session import get_db
+from app.db.models import AuditEvent, User, WorkspaceRole
+from app.core.dependencies import get_current_user, get_workspace_access
+from app.schemas.audit import AuditAction, AuditActor, AuditEventPage, AuditEventResponse, AuditFacets
+from app.services import audit_service
+
+router = APIRouter()
+
+# Exports are for compliance handoff, not bulk storage; page through dates beyond this
+_EXPORT_LIMIT = 50_000
+
+
+def _event_response(event: AuditEvent) -> AuditEventResponse:
+    return AuditEventResponse(
+        id=event.id,
+        workspace_id=event.workspace_id,
+        application_id=event.application_id,
+        actor_id=event.actor_id,
+        actor_email=event.actor_email,
+        actor_name=event.actor_name,
+        via_api_token=event.via_api_token,
+        action=event.action,
+        action_label=audit_service.AUDIT_ACTIONS.get(event.action, event.action),
+        target_type=event.target_type,
+        target_id=event.target_id,
+        target_name=event.target_name,
+        details=event.details or {},
+        created_at=event.created_at,
+    )
+
+
+@router.get("/{workspace_id}", response_model=AuditEventPage)
+async def list_audit_events(
+    workspace_id: str,
+    actor_id: str | None = None,
+    action: str | None = None,
+    since: datetime | None = None,
+    until: datetime | None = None,
+    limit: int = Query(50, ge=1, le=200),
+    offset: int = Query(0, ge=0),
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """Newest first. `action` is an exact action or a group such as `scenario`; `until` is exclusive."""
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.ADMIN)
+    query = audit_service.filtered_query(workspace_id, actor_id=actor_id, action=action, since=since, until=until)
+    total = await audit_service.count(db, query)
+    events = (await db.execute(
+        query.order_by(AuditEvent.created_at.desc(), AuditEvent.id.desc()).limit(limit).offset(offset)
+    )).scalars().all()
+    return AuditEventPage(items=[_event_response(e) for e in events], total=total)
+
+
+@router.get("/{workspace_id}/facets", response_model=AuditFacets)
+async def get_audit_facets(
+    workspace_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.ADMIN)
+    return AuditFacets(
+        actors=[AuditActor(**a) for a in await audit_service.actors(db, workspace_id)],
+        actions=[AuditAction(action=k, label=v) for k, v in audit_service.AUDIT_ACTIONS.items()],
+    )
+
+
+@router.get("/{workspace_id}/export")
+async def export_audit_events(
+    workspace_id: str,
+    actor_id: str | None = None,
+    action: str | None = None,
+    since: datetime | None = None,
+    until: datetime | None = None,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """The filtered trail as CSV, oldest first, with the same filters as the list."""
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.ADMIN)
+    query = audit_service.filtered_query(workspace_id, actor_id=actor_id, action=action, since=since, until=until)
+    events = (await db.execute(
+        query.order_by(AuditEvent.created_at.asc(), AuditEvent.id.asc()).limit(_EXPORT_LIMIT)
+    )).scalars().all()
+    stamp = datetime.utcnow().strftime("%Y%m%d-%H%M%S")
+    return Response(
+        content=audit_service.to_csv(events),
+        media_type="text/csv; charset=utf-8",
+        headers={"Content-Disposition": f'attachment; filename="audit-{workspace_id[:8]}-{stamp}.csv"'},
+    )
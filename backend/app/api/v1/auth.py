@@ -1,23 +1,50 @@
 from __future__ import annotations
-from fastapi import APIRouter, Depends, HTTPException, status
+from datetime import datetime
+
+from fastapi import APIRouter, Depends, HTTPException, Response, status
 from sqlalchemy.ext.asyncio import AsyncSession
-from sqlalchemy import select
+from sqlalchemy import select, update
 from slugify import slugify
 
 from app.db.session import get_db
-from app.db.models import User, Workspace, WorkspaceMember, WorkspaceRole
-from app.core.security import hash_password, verify_password, create_access_token
+from app.db.models import RefreshToken, User, Workspace, WorkspaceMember, WorkspaceRole
+from app.core.security import (
+    hash_password, verify_password, create_access_token, create_refresh_token, decode_refresh_token,
+)
 from app.core.dependencies import get_current_user
-from app.schemas.auth import SignUpRequest, LoginRequest, TokenResponse, UserResponse
+from app.schemas.auth import SignUpRequest, LoginRequest, RefreshRequest, TokenResponse, UserResponse
+from app.services.member_service import accept_invite, find_invite
+from config import settings
 
 router = APIRouter()
 
 
+async def _issue_tokens(user: User, db: AsyncSession) -> tuple[TokenResponse, str]:
+    """Mint an access/refresh pair and persist the refresh token. Returns (response, refresh jti)."""
+    refresh_token, jti, expires_at = create_refresh_token(user.id)
+    db.add(RefreshToken(id=jti, user_id=user.id, expires_at=expires_at))
+    response = TokenResponse(
+        access_token=create_access_token(user.id),
+        refresh_token=refresh_token,
+        expires_in=settings.ACCESS_TOKEN_EXPIRE_MINUTES * 60,
+        user=UserResponse.model_validate(user),
+    )
+    return response, jti
+
+
 @router.post("/signup", response_model=TokenResponse, status_code=status.HTTP_201_CREATED)
 async def signup(payload: SignUpRequest, db: AsyncSession = Depends(get_db)):
     existing = await db.execute(select(User).where(User.email == payload.email))
     if existing.scalar_one_or_none():
         raise HTTPException(status_code=409, detail="Email already registered")
+    invite = None
+    if payload.invite_token:
+        invite = await find_invite(db, payload.invite_token, payload.email)
+        if not invite:
+            raise HTTPException(
+                status_code=400,
+                detail="This invite link is invalid, expired or for another email address — ask for a new one",
+            )
 
     user = User(
         email=payload.email,
@@ -43,13 +70,12 @@ async def signup(payload: SignUpRequest, db: AsyncSession = Depends(get_db)):
         role=WorkspaceRole.OWNER,
     )
     db.add(member)
+    # Only the invite link proves the address is the invitee's — there is no email verification
+    if invite:
+        await accept_invite(db, user, invite)
+    tokens, _ = await _issue_tokens(user, db)
     await db.commit()
-
-    token = create_access_token(user.id)
-    return TokenResponse(
-        access_token=token,
-        user=UserResponse.model_validate(user),
-    )
+    return tokens
 
 
 @router.post("/login", response_model=TokenResponse)
@@ -61,11 +87,55 @@ async def login(payload: LoginRequest, db: AsyncSession = Depends(get_db)):
     if not user.is_active:
         raise HTTPException(status_code=status.HTTP_401_UNAUTHORIZED, detail="Account inactive")
 
-    token = create_access_token(user.id)
-    return TokenResponse(
-        access_token=token,
-        user=UserResponse.model_validate(user),
-    )
+    tokens, _ = await _issue_tokens(user, db)
+    await db.commit()
+    return tokens
+
+
+@router.post("/refresh", response_model=TokenResponse)
+async def refresh(payload: RefreshRequest, db: AsyncSession = Depends(get_db)):
+    """
+    Exchange a refresh token for a new access/refresh pair. The presented token is
+    revoked; replaying a revoked token revokes every refresh token the user holds.
+    """
+    decoded = decode_refresh_token(payload.refresh_token)
+    if not decoded:
+        raise HTTPException(status_code=status.HTTP_401_UNAUTHORIZED, detail="Invalid refresh token")
+    user_id, jti = decoded
+
+    stored = await db.get(RefreshToken, jti)
+    if not stored or stored.user_id != user_id or stored.expires_at < datetime.utcnow():
+        raise HTTPException(status_code=status.HTTP_401_UNAUTHORIZED, detail="Invalid refresh token")
+    if stored.revoked_at is not None:
+        await db.execute(
+            update(RefreshToken)
+            .where(RefreshToken.user_id == user_id, RefreshToken.revoked_at.is_(None))
+            .values(revoked_at=datetime.utcnow())
+        )
+        await db.commit()
+        raise HTTPException(status_code=status.HTTP_401_UNAUTHORIZED, detail="Refresh token reuse detected")
+
+    user = await db.get(User, user_id)
+    if not user or not user.is_active:
+        raise HTTPException(status_code=status.HTTP_401_UNAUTHORIZED, detail="User not found")
+
+    tokens, new_jti = await _issue_tokens(user, db)
+    stored.revoked_at = datetime.utcnow()
+    stored.replaced_by = new_jti
+    await db.commit()
+    return tokens
+
+
+@router.post("/logout", status_code=status.HTTP_204_NO_CONTENT)
+async def logout(payload: RefreshRequest, db: AsyncSession = Depends(get_db)):
+    """Revoke a refresh token. Unknown or already-revoked tokens are ignored."""
+    decoded = decode_refresh_token(payload.refresh_token)
+    if decoded:
+        stored = await db.get(RefreshToken, decoded[1])
+        if stored and stored.revoked_at is None:
+            stored.revoked_at = datetime.utcnow()
+            await db.commit()
+    return Response(status_code=status.HTTP_204_NO_CONTENT)
 
 
 @router.get("/me", response_model=UserResponse)
@@ -0,0 +1,138 @@
+"""
+CI API — start a batch from a pipeline and poll it to a verdict.
+
+Meant to be called with a workspace API token (see api_tokens.py) by the
+`qaptain` CLI or plain curl. Runs started here are ordinary batches tagged
+`trigger: "ci"`, so they show up in batch history, exports and trends.
+"""
+from __future__ import annotations
+
+from fastapi import APIRouter, Depends, HTTPException
+from sqlalchemy.ext.asyncio import AsyncSession
+from sqlalchemy import func, or_, select
+
+from app.db.session import get_db
+from app.db.models import Environment, ExecutionStatus, TestSuite, User, WorkspaceRole
+from app.core.dependencies import get_current_user, require_app_access
+from app.schemas.ci import CiTriggerRequest
+from app.services import batch_report_service
+from app.services.batch_service import BatchLaunchError, launch_batch
+from app.services.quarantine_service import is_quarantined_run
+from app.services.suite_service import load_active_scenarios, resolve_suite
+
+router = APIRouter()
+
+_FINISHED = {ExecutionStatus.COMPLETED, ExecutionStatus.FAILED, ExecutionStatus.PARTIAL, ExecutionStatus.CANCELLED}
+
+
+async def _resolve_environment(db: AsyncSession, application_id: str, ref: str | None) -> Environment:
+    query = select(Environment).where(Environment.application_id == application_id)
+    if ref:
+        query = query.where(or_(Environment.id == ref, func.lower(Environment.name) == ref.lower()))
+    else:
+        query = query.order_by(Environment.is_default.desc(), Environment.created_at)
+    env = (await db.execute(query.limit(1))).scalar_one_or_none()
+    if not env:
+        raise HTTPException(
+            status_code=400,
+            detail=f"Environment '{ref}' not found for this application" if ref else "Application has no environments",
+        )
+    return env
+
+
+async def _resolve_suite(db: AsyncSession, application_id: str, ref: str) -> TestSuite:
+    suite = (await db.execute(
+        select(TestSuite)
+        .where(
+            TestSuite.application_id == application_id,
+            or_(TestSuite.id == ref, func.lower(TestSuite.name) == ref.lower()),
+        )
+        .limit(1)
+    )).scalar_one_or_none()
+    if not suite:
+        raise HTTPException(status_code=400, detail=f"Suite '{ref}' not found for this application")
+    return suite
+
+
+@router.post("/trigger")
+async def trigger_batch(
+    payload: CiTriggerRequest,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """
+    Launch a suite, an explicit scenario list or every active scenario as one batch.
+    Same response as run-batch plus the resolved environment and suite.
+    """
+    await require_app_access(payload.application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+    env = await _resolve_environment(db, payload.application_id, payload.environment)
+
+    batch_meta: dict = {"trigger": "ci"}
+    suite: TestSuite | None = None
+    if payload.suite:
+        suite = await _resolve_suite(db, payload.application_id, payload.suite)
+        scenario_ids = await resolve_suite(db, suite)
+        batch_meta.update({"suite_id": suite.id, "suite_version": suite.version})
+    else:
+        active = await load_active_scenarios(db, payload.application_id)
+        if payload.scenario_ids:
+            present = {s.id for s in active}
+            unknown = [sid for sid in payload.scenario_ids if sid not in present]
+            if unknown:
+                raise HTTPException(status_code=400, detail=f"Unknown or inactive scenario ids: {', '.join(unknown[:10])}")
+            scenario_ids = payload.scenario_ids
+        else:
+            scenario_ids = [s.id for s in active]
+    if not scenario_ids:
+        raise HTTPException(status_code=400, detail="Nothing to run — no matching active scenarios")
+
+    try:
+        result = await launch_batch(
+            db,
+            scenario_ids=scenario_ids,
+            execution_mode=payload.execution_mode,
+            environment_id=env.id,
+            triggered_by=current_user.id,
+            smoke_only=payload.smoke_only,
+            batch_meta=batch_meta,
+        )
+    except BatchLaunchError as e:
+        raise HTTPException(status_code=500, detail=str(e))
+    return {
+        **result,
+        "environment": {"id": env.id, "name": env.name},
+        "suite": {"id": suite.id, "name": suite.name, "version": suite.version} if suite else None,
+    }
+
+
+@router.get("/batches/{batch_id}")
+async def get_batch_status(
+    batch_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """Per-run status plus the batch summary; `finished` once every run reached a final status."""
+    rows = await batch_report_service.load_batch(db, batch_id)
+    if not rows:
+        raise HTTPException(status_code=404, detail="Batch not found")
+    await require_app_access(rows[0][3], current_user, db)
+    summary = await batch_report_service.summarize_batch(db, batch_id, rows)
+    return {
+        "batch_id": batch_id,
+        "finished": all(run.status in _FINISHED for run, _, _, _ in rows),
+        "runs": [
+            {
+                "run_id": run.id,
+                "scenario_id": run.scenario_id,
+                "title": title,
+                "status": run.status.value if hasattr(run.status, "value") else str(run.status),
+                "total_steps": run.total_steps or 0,
+                "passed_steps": run.passed_steps or 0,
+                "failed_steps": run.failed_steps or 0,
+                "healed_steps": run.healed_steps or 0,
+                "quarantined": is_quarantined_run(run),
+            }
+            for run, title, _, _ in rows
+        ],
+        **{k: summary[k] for k in ("summary", "scenarios_needing_attention")},
+    }
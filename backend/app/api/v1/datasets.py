@@ -22,8 +22,9 @@ from sqlalchemy.ext.asyncio import AsyncSession
 from sqlalchemy import select
 
 from app.db.session import get_db
-from app.db.models import User, TestDataset
+from app.db.models import User, TestDataset, WorkspaceRole
 from app.core.dependencies import get_current_user, require_app_access
+from app.services import audit_service
 from config import settings
 
 router = APIRouter()
@@ -103,7 +104,7 @@ async def create_dataset_item(
     db: AsyncSession = Depends(get_db),
 ):
     """Create a text/number/date/email/url dataset item."""
-    await require_app_access(application_id, current_user, db)
+    await require_app_access(application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
     item = TestDataset(
         application_id=application_id,
         category=payload.category,
@@ -129,7 +130,7 @@ async def upload_dataset_file(
     db: AsyncSession = Depends(get_db),
 ):
     """Upload a file (e.g. 10 MB invalid file) as a dataset item."""
-    await require_app_access(application_id, current_user, db)
+    await require_app_access(application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
 
     mime = (file.content_type or "").split(";")[0].strip().lower()
     if mime and mime not in ALLOWED_UPLOAD_MIMES:
@@ -178,7 +179,7 @@ async def update_dataset_item(
     db: AsyncSession = Depends(get_db),
 ):
     """Update label, value, or description of a text/number/date dataset item."""
-    await require_app_access(application_id, current_user, db)
+    await require_app_access(application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
     result = await db.execute(
         select(TestDataset).where(
             TestDataset.id == item_id,
@@ -209,7 +210,7 @@ async def delete_dataset_item(
     db: AsyncSession = Depends(get_db),
 ):
     """Delete a dataset item (and its file if applicable)."""
-    await require_app_access(application_id, current_user, db)
+    app = await require_app_access(application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
     result = await db.execute(
         select(TestDataset).where(
             TestDataset.id == item_id,
@@ -227,5 +228,10 @@ async def delete_dataset_item(
         except OSError:
             pass
 
+    audit_service.record_for_app(
+        db, current_user, app, "dataset.delete",
+        target_type="dataset_item", target_id=item.id, target_name=item.label,
+        details={"category": item.category, "data_type": item.data_type},
+    )
     await db.delete(item)
     await db.commit()
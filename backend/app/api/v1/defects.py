@@ -0,0 +1,223 @@
+"""
+Defects API — file failing runs with the workspace's issue tracker.
+
+Admins configure one tracker per workspace; any member can preview a run's defect
+draft and file it. Filing is idempotent per run and attaches repeat failures of a
+scenario to its open defect (see app/services/defect_service.py).
+"""
+from __future__ import annotations
+
+from fastapi import APIRouter, Depends, HTTPException
+from sqlalchemy import select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from app.db.session import get_db
+from app.db.models import Application, DefectLink, DefectTracker, Scenario, User, WorkspaceRole
+from app.core.dependencies import (
+    get_current_user, get_workspace_access, require_app_access, require_run_access,
+)
+from app.core.security import encrypt_credential
+from app.defects import TrackerError, adapter_class, available_trackers
+from app.schemas.defect import (
+    DefectDraft, DefectFileRequest, DefectFileResult, DefectLinkResponse, DefectLinkUpdate,
+    DefectTrackerConfig, DefectTrackerKind, DefectTrackerResponse, RunDefectResponse,
+)
+from app.services import audit_service
+from app.services.defect_service import (
+    DefectError, build_draft, defect_for_run, file_defect, get_tracker, open_defect_for_scenario,
+    set_defect_status,
+)
+
+router = APIRouter()
+
+
+def _tracker_response(tracker: DefectTracker) -> DefectTrackerResponse:
+    return DefectTrackerResponse(
+        id=tracker.id,
+        workspace_id=tracker.workspace_id,
+        kind=tracker.kind,
+        name=tracker.name,
+        config=tracker.config or {},
+        has_secret=bool(tracker.encrypted_secret),
+        auto_file=bool(tracker.auto_file),
+        is_active=bool(tracker.is_active),
+        created_at=tracker.created_at,
+        updated_at=tracker.updated_at,
+    )
+
+
+async def _get_scenario(
+    scenario_id: str, current_user: User, db: AsyncSession, min_role: WorkspaceRole = WorkspaceRole.VIEWER,
+) -> Scenario:
+    scenario = await db.get(Scenario, scenario_id)
+    if not scenario:
+        raise HTTPException(status_code=404, detail="Scenario not found")
+    await require_app_access(scenario.application_id, current_user, db, min_role=min_role)
+    return scenario
+
+
+# ─── Tracker configuration ───────────────────────────────────────────────────
+
+@router.get("/trackers/kinds", response_model=list[DefectTrackerKind])
+async def list_tracker_kinds(current_user: User = Depends(get_current_user)):
+    return available_trackers()
+
+
+@router.get("/trackers/{workspace_id}", response_model=DefectTrackerResponse | None)
+async def get_defect_tracker(
+    workspace_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.ADMIN)
+    tracker = await get_tracker(db, workspace_id)
+    return _tracker_response(tracker) if tracker else None
+
+
+@router.put("/trackers/{workspace_id}", response_model=DefectTrackerResponse)
+async def save_defect_tracker(
+    workspace_id: str,
+    payload: DefectTrackerConfig,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.ADMIN)
+    try:
+        tracker_cls = adapter_class(payload.kind)
+        config = tracker_cls.validate_config(payload.config)
+        await tracker_cls.verify_config(config)
+    except ValueError as e:
+        raise HTTPException(status_code=422, detail=str(e))
+
+    tracker = await get_tracker(db, workspace_id)
+    if not tracker:
+        tracker = DefectTracker(workspace_id=workspace_id, created_by=current_user.id)
+        db.add(tracker)
+    tracker.kind = payload.kind
+    tracker.name = payload.name.strip()
+    tracker.config = config
+    tracker.auto_file = payload.auto_file
+    tracker.is_active = payload.is_active
+    if payload.secret is not None:
+        tracker.encrypted_secret = encrypt_credential(payload.secret) if payload.secret else None
+    await db.flush()
+    audit_service.record(
+        db, current_user, "defect_tracker.update", workspace_id=workspace_id,
+        target_type="defect_tracker", target_id=tracker.id, target_name=tracker.name,
+        details={
+            "kind": tracker.kind,
+            "config": config,
+            "auto_file": tracker.auto_file,
+            "is_active": tracker.is_active,
+            "secret_changed": payload.secret is not None,
+        },
+    )
+    await db.commit()
+    await db.refresh(tracker)
+    return _tracker_response(tracker)
+
+
+@router.delete("/trackers/{workspace_id}", status_code=204)
+async def delete_defect_tracker(
+    workspace_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.ADMIN)
+    tracker = await get_tracker(db, workspace_id)
+    if not tracker:
+        raise HTTPException(status_code=404, detail="No defect tracker configured")
+    # Filed defects keep their keys and links; only the integration goes away
+    audit_service.record(
+        db, current_user, "defect_tracker.delete", workspace_id=workspace_id,
+        target_type="defect_tracker", target_id=tracker.id, target_name=tracker.name,
+    )
+    await db.delete(tracker)
+    await db.commit()
+
+
+# ─── Runs ────────────────────────────────────────────────────────────────────
+
+@router.get("/runs/{run_id}", response_model=RunDefectResponse)
+async def get_run_defect(
+    run_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    run = await require_run_access(run_id, current_user, db)
+    scenario = await db.get(Scenario, run.scenario_id)
+    app = await db.get(Application, scenario.application_id)
+    tracker = await get_tracker(db, app.workspace_id)
+    defect = await defect_for_run(db, run.id)
+    scenario_defect = None if defect else await open_defect_for_scenario(db, scenario.id)
+    return RunDefectResponse(
+        defect=DefectLinkResponse.model_validate(defect) if defect else None,
+        scenario_defect=DefectLinkResponse.model_validate(scenario_defect) if scenario_defect else None,
+        tracker_configured=bool(tracker and tracker.is_active),
+        auto_file=bool(tracker and tracker.auto_file),
+    )
+
+
+@router.get("/runs/{run_id}/draft", response_model=DefectDraft)
+async def get_run_defect_draft(
+    run_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    run = await require_run_access(run_id, current_user, db)
+    try:
+        return await build_draft(db, run)
+    except DefectError as e:
+        raise HTTPException(status_code=404, detail=str(e))
+
+
+@router.post("/runs/{run_id}", response_model=DefectFileResult)
+async def file_run_defect(
+    run_id: str,
+    payload: DefectFileRequest,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    run = await require_run_access(run_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+    try:
+        defect, created = await file_defect(
+            db, run, user_id=current_user.id, title=payload.title, description=payload.description,
+        )
+    except DefectError as e:
+        raise HTTPException(status_code=409, detail=str(e))
+    except TrackerError as e:
+        raise HTTPException(status_code=502, detail=str(e))
+    return DefectFileResult(defect=DefectLinkResponse.model_validate(defect), created=created)
+
+
+# ─── Defects ─────────────────────────────────────────────────────────────────
+
+@router.get("/scenarios/{scenario_id}", response_model=list[DefectLinkResponse])
+async def list_scenario_defects(
+    scenario_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await _get_scenario(scenario_id, current_user, db)
+    defects = (await db.execute(
+        select(DefectLink).where(DefectLink.scenario_id == scenario_id).order_by(DefectLink.created_at.desc())
+    )).scalars().all()
+    return [DefectLinkResponse.model_validate(d) for d in defects]
+
+
+@router.patch("/{defect_id}", response_model=DefectLinkResponse)
+async def update_defect(
+    defect_id: str,
+    payload: DefectLinkUpdate,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    defect = await db.get(DefectLink, defect_id)
+    if not defect:
+        raise HTTPException(status_code=404, detail="Defect not found")
+    await _get_scenario(defect.scenario_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+    if payload.status == "open" and defect.status != "open":
+        other = await open_defect_for_scenario(db, defect.scenario_id)
+        if other and other.id != defect.id:
+            raise HTTPException(status_code=409, detail=f"{other.defect_key} is already open for this scenario")
+    return DefectLinkResponse.model_validate(await set_defect_status(db, defect, payload.status))
@@ -1,6 +1,6 @@
 from __future__ import annotations
-from typing import Optional
-from fastapi import APIRouter, Depends, HTTPException
+from typing import Literal, Optional
+from fastapi import APIRouter, Depends, HTTPException, Response
 from sqlalchemy.ext.asyncio import AsyncSession
 from sqlalchemy import select, func
 
@@ -8,9 +8,16 @@ from app.db.session import get_db
 from app.db.models import (
     User, ExecutionRun, ExecutionStep, ExecutionLog, ExecutionReport,
     ExecutionStatus, Scenario, ApplicationModule, Application,
+    ApplicationPage, SemanticElement, SelectorMemory, AIMemoryChunk, MemoryKind,
+    BatchSchedule, TestSuite, WorkspaceRole,
 )
 from app.core.dependencies import get_current_user, require_app_access, require_run_access
-from app.schemas.scenario import ExecutionRunResponse, ExecutionStepResponse, ReportResponse
+from app.services import batch_report_service
+from app.services.quarantine_service import is_quarantined_run
+from app.schemas.batch_export import BatchExport
+from app.schemas.scenario import (
+    ExecutionRunResponse, ExecutionStepResponse, ReportResponse, AcceptHealedLocatorRequest,
+)
 
 router = APIRouter()
 
@@ -19,19 +26,30 @@ router = APIRouter()
 async def get_batch_history(
     application_id: str,
     limit: int = 30,
+    environment_id: Optional[str] = None,
+    suite_id: Optional[str] = None,
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
     """
     Return batch execution history grouped by batch_id.
     Each entry represents one 'Run All' press, with all its scenario runs.
+    A batch targets a single environment and comes from at most one suite, so
+    `environment_id` and `suite_id` filter whole batches.
     """
     await require_app_access(application_id, current_user, db)
     # Get all runs for the application (via Scenario join)
-    result = await db.execute(
+    query = (
         select(ExecutionRun, Scenario.title.label("scenario_title"))
         .join(Scenario, ExecutionRun.scenario_id == Scenario.id)
         .where(Scenario.application_id == application_id)
+    )
+    if environment_id:
+        query = query.where(ExecutionRun.environment_id == environment_id)
+    if suite_id:
+        query = query.where(ExecutionRun.browser_metadata["suite_id"].as_string() == suite_id)
+    result = await db.execute(
+        query
         .order_by(ExecutionRun.created_at.desc())
         .limit(limit * 60)  # fetch enough to fill limit batches
     )
@@ -49,6 +67,9 @@ async def get_batch_history(
                 "batch_id": batch_id,
                 "started_at": run.created_at,
                 "environment_id": run.environment_id,
+                "schedule_id": meta.get("schedule_id"),
+                "suite_id": meta.get("suite_id"),
+                "suite_version": meta.get("suite_version"),
                 "runs": [],
             }
         batches[batch_id]["runs"].append({
@@ -59,6 +80,7 @@ async def get_batch_history(
             "failed_steps": run.failed_steps or 0,
             "total_steps": run.total_steps or 0,
             "completed_at": run.completed_at,
+            "quarantined": is_quarantined_run(run),
         })
 
     # Sort batches newest-first, cap at limit
@@ -68,14 +90,37 @@ async def get_batch_history(
         reverse=True,
     )[:limit]
 
+    # Batches fired by a schedule or suite carry its id; resolve names in one query each
+    schedule_ids = {b["schedule_id"] for b in sorted_batches if b["schedule_id"]}
+    schedule_names: dict[str, str] = {}
+    if schedule_ids:
+        name_rows = await db.execute(
+            select(BatchSchedule.id, BatchSchedule.name).where(BatchSchedule.id.in_(schedule_ids))
+        )
+        schedule_names = dict(name_rows.all())
+    suite_ids = {b["suite_id"] for b in sorted_batches if b["suite_id"]}
+    suite_names: dict[str, str] = {}
+    if suite_ids:
+        name_rows = await db.execute(
+            select(TestSuite.id, TestSuite.name).where(TestSuite.id.in_(suite_ids))
+        )
+        suite_names = dict(name_rows.all())
+
     return [
         {
             "batch_id": b["batch_id"],
             "started_at": b["started_at"],
             "environment_id": b["environment_id"],
+            "schedule_id": b["schedule_id"],
+            "schedule_name": schedule_names.get(b["schedule_id"]) if b["schedule_id"] else None,
+            "suite_id": b["suite_id"],
+            "suite_name": suite_names.get(b["suite_id"]) if b["suite_id"] else None,
+            "suite_version": b["suite_version"],
             "total": len(b["runs"]),
-            "passed": sum(1 for r in b["runs"] if r["status"] == "COMPLETED"),
-            "failed": sum(1 for r in b["runs"] if r["status"] == "FAILED"),
+            # Quarantined runs are counted separately so they can't move the pass rate
+            "passed": sum(1 for r in b["runs"] if r["status"] == "COMPLETED" and not r["quarantined"]),
+            "failed": sum(1 for r in b["runs"] if r["status"] == "FAILED" and not r["quarantined"]),
+            "quarantined": sum(1 for r in b["runs"] if r["quarantined"]),
             "running": sum(1 for r in b["runs"] if r["status"] in ("RUNNING", "QUEUED")),
             "runs": b["runs"],
         }
@@ -83,6 +128,12 @@ async def get_batch_history(
     ]
 
 
+@router.get("/batch-export/schema")
+async def get_batch_export_schema(current_user: User = Depends(get_current_user)):
+    """JSON Schema of the batch JSON export (`schema_version` tracks breaking changes)."""
+    return BatchExport.model_json_schema()
+
+
 @router.get("/batch/{batch_id}")
 async def get_batch_runs(
     batch_id: str,
@@ -93,14 +144,10 @@ async def get_batch_runs(
     result = await db.execute(
         select(ExecutionRun, Scenario.title.label("scenario_title"), Scenario.application_id)
         .join(Scenario, ExecutionRun.scenario_id == Scenario.id)
+        .where(ExecutionRun.browser_metadata["batch_id"].as_string() == batch_id)
         .order_by(ExecutionRun.created_at.asc())
     )
-    rows = result.all()
-    batch_rows = [
-        (run, scenario_title, app_id)
-        for run, scenario_title, app_id in rows
-        if (run.browser_metadata or {}).get("batch_id") == batch_id
-    ]
+    batch_rows = result.all()
     if not batch_rows:
         raise HTTPException(status_code=404, detail="Batch not found")
     # Verify access using the first run's application
@@ -134,6 +181,116 @@ async def get_steps(
     return [ExecutionStepResponse.model_validate(s) for s in result.scalars().all()]
 
 
+@router.post("/{run_id}/steps/{step_id}/accept-healing", response_model=ExecutionStepResponse)
+async def accept_healed_locator(
+    run_id: str,
+    step_id: str,
+    body: AcceptHealedLocatorRequest,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """
+    Promote the locator that self-healing found for a step into selector memory,
+    so future runs try it first instead of healing against the changed UI again.
+    """
+    run = await require_run_access(run_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+    step = (await db.execute(
+        select(ExecutionStep).where(ExecutionStep.id == step_id, ExecutionStep.run_id == run_id)
+    )).scalar_one_or_none()
+    if not step:
+        raise HTTPException(status_code=404, detail="Execution step not found")
+
+    attempts: list[dict] = list(step.healing_attempts or [])
+    if body.attempt_index is not None:
+        if not 0 <= body.attempt_index < len(attempts):
+            raise HTTPException(status_code=422, detail="attempt_index out of range")
+        index = body.attempt_index
+    else:
+        successful = [i for i, a in enumerate(attempts) if a.get("success")]
+        if not successful:
+            raise HTTPException(status_code=409, detail="Step has no successful healing attempt")
+        index = successful[-1]
+    winner = attempts[index]
+    if not winner.get("success"):
+        raise HTTPException(status_code=409, detail="Only a matching locator can be accepted")
+
+    selector = winner.get("selector_value") or winner.get("selector") or ""
+    selector_type = winner.get("selector_type") or "css"
+    if not selector:
+        raise HTTPException(status_code=409, detail="Healing attempt has no locator to accept")
+
+    scenario = (await db.execute(select(Scenario).where(Scenario.id == run.scenario_id))).scalar_one()
+    label = str((step.plan_step or {}).get("target") or step.description or step.action_type)
+
+    # Attach to the explored semantic element when one matches the step target
+    element = (await db.execute(
+        select(SemanticElement)
+        .join(ApplicationPage, SemanticElement.page_id == ApplicationPage.id)
+        .join(ApplicationModule, ApplicationPage.module_id == ApplicationModule.id)
+        .where(
+            ApplicationModule.application_id == scenario.application_id,
+            func.lower(SemanticElement.semantic_label) == label.strip().lower(),
+        )
+        .limit(1)
+    )).scalar_one_or_none()
+
+    history_entry = {
+        "run_id": run_id,
+        "step_id": step_id,
+        "strategy": winner.get("strategy"),
+        "selector": selector,
+        "accepted_by": current_user.id,
+    }
+    if element:
+        memory = (await db.execute(
+            select(SelectorMemory).where(SelectorMemory.element_id == element.id)
+        )).scalar_one_or_none()
+        if not memory:
+            memory = SelectorMemory(element_id=element.id, strategies=[])
+            db.add(memory)
+        strategies = [s for s in (memory.strategies or []) if s.get("value") != selector]
+        strategies.insert(0, {
+            "type": selector_type, "value": selector, "score": 1.0,
+            "attempt_count": 1, "success_count": 1,
+        })
+        memory.strategies = strategies
+        memory.best_strategy_index = 0
+        memory.overall_confidence = 1.0
+        memory.healing_history = ([history_entry] + list(memory.healing_history or []))[:50]
+        element.selectors = [{"type": selector_type, "value": selector, "confidence": 1.0}] + [
+            s for s in (element.selectors or []) if s.get("value") != selector
+        ]
+        element_key = element.id
+    else:
+        db.add(AIMemoryChunk(
+            application_id=scenario.application_id,
+            kind=MemoryKind.SELECTOR,
+            content=f"Element: {label}\nSuccessful selector ({selector_type}): {selector}",
+            extra={"semantic_label": label, "selector": selector, "selector_type": selector_type,
+                   "source": "accepted_healing", **history_entry},
+            confidence=1.0,
+        ))
+        element_key = f"step_{step_id}"
+
+    from app.memory.chroma_store import get_memory_store
+    get_memory_store().store_selector_memory(
+        application_id=scenario.application_id,
+        element_id=element_key,
+        semantic_label=label,
+        successful_selector=selector,
+        selector_type=selector_type,
+        confidence=1.0,
+    )
+
+    # Mark the accepted attempt so the inspector can show it; reassign so the JSON column is flagged dirty
+    step.healing_attempts = [
+        {**a, "accepted": i == index} for i, a in enumerate(attempts)
+    ]
+    await db.commit()
+    await db.refresh(step)
+    return ExecutionStepResponse.model_validate(step)
+
+
 @router.get("/{run_id}/logs")
 async def get_logs(
     run_id: str,
@@ -181,115 +338,50 @@ async def get_batch_summary(
     executing a full suite: pass/fail counts, root-cause breakdown, module health,
     and the specific scenarios that need attention.
     """
-    # Load all runs in this batch
-    result = await db.execute(
-        select(ExecutionRun, Scenario.title.label("scenario_title"), Scenario.module_id, Scenario.application_id)
-        .join(Scenario, ExecutionRun.scenario_id == Scenario.id)
-        .order_by(ExecutionRun.created_at.asc())
-    )
-    rows = result.all()
-    batch_rows_full = [
-        (run, title, mid, app_id)
-        for run, title, mid, app_id in rows
-        if (run.browser_metadata or {}).get("batch_id") == batch_id
-    ]
-    if not batch_rows_full:
+    rows = await batch_report_service.load_batch(db, batch_id)
+    if not rows:
         raise HTTPException(status_code=404, detail="Batch not found")
-    await require_app_access(batch_rows_full[0][3], current_user, db)
-    batch_runs = [(run, title, mid) for run, title, mid, _ in batch_rows_full]
+    await require_app_access(rows[0][3], current_user, db)
+    return await batch_report_service.summarize_batch(db, batch_id, rows)
 
-    # Load all failed steps with error_type for root-cause breakdown
-    run_ids = [r.id for r, _, _ in batch_runs]
-    steps_result = await db.execute(
-        select(ExecutionStep.run_id, ExecutionStep.error_type, ExecutionStep.action_type)
-        .where(
-            ExecutionStep.run_id.in_(run_ids),
-            ExecutionStep.status.in_(["FAILED", "failed"]),
-        )
+
+_EXPORT_FORMATS = {
+    "json": ("application/json", "json"),
+    "junit": ("application/xml", "xml"),
+    "html": ("text/html; charset=utf-8", "html"),
+}
+
+
+@router.get("/batch/{batch_id}/export")
+async def export_batch(
+    batch_id: str,
+    format: Literal["json", "junit", "html"] = "json",
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """
+    Download a batch's results as JUnit XML (one testcase per scenario), a
+    standalone HTML report with embedded screenshots, or the `BatchExport` JSON.
+    """
+    rows = await batch_report_service.load_batch(db, batch_id)
+    if not rows:
+        raise HTTPException(status_code=404, detail="Batch not found")
+    await require_app_access(rows[0][3], current_user, db)
+    summary = await batch_report_service.summarize_batch(db, batch_id, rows)
+    doc = await batch_report_service.build_export(db, batch_id, rows, summary)
+
+    if format == "junit":
+        body = batch_report_service.render_junit(doc)
+    elif format == "html":
+        body = batch_report_service.render_html(doc)
+    else:
+        body = doc.model_dump_json(indent=2)
+    media_type, ext = _EXPORT_FORMATS[format]
+    return Response(
+        content=body,
+        media_type=media_type,
+        headers={"Content-Disposition": f'attachment; filename="batch-{batch_id[:8]}.{ext}"'},
     )
-    failed_steps = steps_result.all()
-
-    # Root-cause breakdown
-    error_type_counts: dict[str, int] = {}
-    for _, error_type, _ in failed_steps:
-        key = error_type or "unknown"
-        error_type_counts[key] = error_type_counts.get(key, 0) + 1
-
-    # Load module names for module health table
-    module_ids = list({mid for _, _, mid in batch_runs if mid})
-    module_names: dict[str, str] = {}
-    if module_ids:
-        mods_result = await db.execute(
-            select(ApplicationModule.id, ApplicationModule.name)
-            .where(ApplicationModule.id.in_(module_ids))
-        )
-        module_names = {mid: name for mid, name in mods_result.all()}
-
-    # Per-module health
-    module_health: dict[str, dict] = {}
-    for run, title, mid in batch_runs:
-        key = mid or "__unlinked__"
-        if key not in module_health:
-            module_health[key] = {
-                "module_id": mid,
-                "module_name": module_names.get(mid, "Unlinked") if mid else "Unlinked",
-                "total": 0, "passed": 0, "failed": 0, "skipped": 0,
-            }
-        module_health[key]["total"] += 1
-        if run.status == ExecutionStatus.COMPLETED:
-            module_health[key]["passed"] += 1
-        elif run.status == ExecutionStatus.FAILED:
-            module_health[key]["failed"] += 1
-        else:
-            module_health[key]["skipped"] += 1
-
-    # Scenarios needing attention — failed ones with their error counts
-    attention_runs = []
-    failed_step_by_run: dict[str, list] = {}
-    for run_id, error_type, action_type in failed_steps:
-        failed_step_by_run.setdefault(run_id, []).append(error_type or "unknown")
-
-    for run, title, mid in batch_runs:
-        if run.status == ExecutionStatus.FAILED:
-            errors = failed_step_by_run.get(run.id, [])
-            top_cause = max(set(errors), key=errors.count) if errors else "unknown"
-            attention_runs.append({
-                "run_id": run.id,
-                "scenario_title": title or "",
-                "module_name": module_names.get(mid, "Unlinked") if mid else "Unlinked",
-                "failed_steps": run.failed_steps or 0,
-                "total_steps": run.total_steps or 0,
-                "top_error_type": top_cause,
-                "error_message": run.error_message or "",
-            })
-
-    total = len(batch_runs)
-    passed = sum(1 for r, _, _ in batch_runs if r.status == ExecutionStatus.COMPLETED)
-    failed = sum(1 for r, _, _ in batch_runs if r.status == ExecutionStatus.FAILED)
-    skipped = total - passed - failed
-
-    # Overall quality score: 0-100
-    quality_score = round((passed / total) * 100) if total else 0
-
-    return {
-        "batch_id": batch_id,
-        "summary": {
-            "total": total,
-            "passed": passed,
-            "failed": failed,
-            "skipped": skipped,
-            "quality_score": quality_score,
-            "pass_rate_pct": quality_score,
-        },
-        "root_cause_breakdown": [
-            {"error_type": k, "count": v, "pct": round(v / max(len(failed_steps), 1) * 100)}
-            for k, v in sorted(error_type_counts.items(), key=lambda x: -x[1])
-        ],
-        "module_health": sorted(module_health.values(), key=lambda m: -m["failed"]),
-        "scenarios_needing_attention": sorted(
-            attention_runs, key=lambda r: -r["failed_steps"]
-        ),
-    }
 
 
 @router.post("/{run_id}/cancel")
@@ -298,7 +390,7 @@ async def cancel_run(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
-    run = await require_run_access(run_id, current_user, db)
+    run = await require_run_access(run_id, current_user, db, min_role=WorkspaceRole.MEMBER)
     if run.status not in (ExecutionStatus.PENDING, ExecutionStatus.QUEUED, ExecutionStatus.RUNNING):
         raise HTTPException(status_code=409, detail="Run is not cancellable")
 
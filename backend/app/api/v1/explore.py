@@ -1,21 +1,23 @@
 from __future__ import annotations
 from typing import Optional
-from fastapi import APIRouter, Depends, HTTPException, BackgroundTasks
+from fastapi import APIRouter, Depends, HTTPException, BackgroundTasks, Query
 from sqlalchemy.ext.asyncio import AsyncSession
 from sqlalchemy import select
 
 from app.db.session import get_db
 from app.db.models import (
     User, Application, ExploreSession, ExploreLog, HumanDecision,
-    KnowledgeGraph, ExploreStatus, ExploreMode, ApplicationModule,
+    KnowledgeGraph, ExploreStatus, ExploreMode, ApplicationModule, WorkspaceRole, Scenario,
 )
-from app.core.dependencies import get_current_user
+from app.core.dependencies import get_current_user, require_app_access
 from app.schemas.explore import (
     ExploreStart, ExploreSessionResponse, ExploreLogResponse,
-    HumanDecisionRequest, HumanDecisionResponse, KnowledgeGraphResponse, ExploreDiscover, ExploreContinue
+    HumanDecisionRequest, HumanDecisionResponse, KnowledgeGraphResponse, ExploreDiscover, ExploreContinue,
+    KnowledgeGraphVersionResponse,
 )
 from app.explore.explore_engine import ExploreEngine
 from app.realtime.manager import connection_manager
+from app.services import audit_service, kg_diff_service
 
 router = APIRouter()
 
@@ -29,10 +31,7 @@ async def discover_modules(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
-    result = await db.execute(select(Application).where(Application.id == payload.application_id))
-    app = result.scalar_one_or_none()
-    if not app:
-        raise HTTPException(status_code=404, detail="Application not found")
+    app = await require_app_access(payload.application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
 
     # Check for running session
     running = await db.execute(
@@ -66,10 +65,7 @@ async def start_explore(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
-    result = await db.execute(select(Application).where(Application.id == payload.application_id))
-    app = result.scalar_one_or_none()
-    if not app:
-        raise HTTPException(status_code=404, detail="Application not found")
+    app = await require_app_access(payload.application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
 
     # Check for running session
     running = await db.execute(
@@ -180,7 +176,13 @@ async def resolve_decision(
     db: AsyncSession = Depends(get_db),
 ):
     from datetime import datetime
-    result = await db.execute(select(HumanDecision).where(HumanDecision.id == payload.decision_id))
+    session = await db.get(ExploreSession, session_id)
+    if not session:
+        raise HTTPException(status_code=404, detail="Session not found")
+    app = await require_app_access(session.application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+    result = await db.execute(select(HumanDecision).where(
+        HumanDecision.id == payload.decision_id, HumanDecision.session_id == session_id,
+    ))
     decision = result.scalar_one_or_none()
     if not decision:
         raise HTTPException(status_code=404, detail="Decision not found")
@@ -207,6 +209,15 @@ async def resolve_decision(
         except Exception:
             pass  # preference save is non-critical
 
+    audit_service.record_for_app(
+        db, current_user, app, "decision.resolve",
+        target_type="explore_decision", target_id=decision.id, target_name=decision.question,
+        details={
+            "session_id": session_id,
+            "selected_option": payload.selected_option,
+            "saved_as_preference": payload.save_as_preference,
+        },
+    )
     await db.commit()
     await db.refresh(decision)
     return HumanDecisionResponse.model_validate(decision)
@@ -272,10 +283,13 @@ async def get_knowledge_graph(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
+    await require_app_access(application_id, current_user, db)
+    # Every exploration adds a version; the newest is the current graph
     result = await db.execute(
         select(KnowledgeGraph)
         .where(KnowledgeGraph.application_id == application_id)
         .order_by(KnowledgeGraph.version.desc())
+        .limit(1)
     )
     kg = result.scalar_one_or_none()
     if not kg:
@@ -283,6 +297,88 @@ async def get_knowledge_graph(
     return KnowledgeGraphResponse.model_validate(kg)
 
 
+@router.get("/application/{application_id}/knowledge/versions", response_model=list[KnowledgeGraphVersionResponse])
+async def list_knowledge_graph_versions(
+    application_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """Every KG version of the application, newest first."""
+    await require_app_access(application_id, current_user, db)
+    result = await db.execute(
+        select(KnowledgeGraph)
+        .where(KnowledgeGraph.application_id == application_id)
+        .order_by(KnowledgeGraph.version.desc())
+    )
+    return [KnowledgeGraphVersionResponse.model_validate(kg) for kg in result.scalars().all()]
+
+
+@router.get("/application/{application_id}/knowledge/diff")
+async def diff_knowledge_graph_versions(
+    application_id: str,
+    base: Optional[int] = Query(None, description="Older version; defaults to the one before `target`"),
+    target: Optional[int] = Query(None, description="Newer version; defaults to the latest"),
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """
+    What changed between two KG versions — modules, pages, forms and workflow stages —
+    with the active scenarios in each changed module, so stale plans can be reviewed.
+    """
+    await require_app_access(application_id, current_user, db)
+
+    async def load(version: Optional[int], below: Optional[int] = None) -> Optional[KnowledgeGraph]:
+        q = select(KnowledgeGraph).where(KnowledgeGraph.application_id == application_id)
+        if version is not None:
+            q = q.where(KnowledgeGraph.version == version)
+        elif below is not None:
+            q = q.where(KnowledgeGraph.version < below)
+        result = await db.execute(q.order_by(KnowledgeGraph.version.desc()).limit(1))
+        return result.scalar_one_or_none()
+
+    new_kg = await load(target)
+    if not new_kg:
+        raise HTTPException(status_code=404, detail="Knowledge graph version not found")
+    old_kg = await load(base, below=new_kg.version)
+    if not old_kg and base is not None:
+        raise HTTPException(status_code=404, detail="Knowledge graph version not found")
+    if not old_kg:
+        raise HTTPException(status_code=400, detail="No earlier version to compare against")
+    if old_kg.version == new_kg.version:
+        raise HTTPException(status_code=400, detail="Pick two different versions")
+
+    changes = kg_diff_service.diff_graphs(old_kg.graph_data, new_kg.graph_data)
+
+    scenarios_result = await db.execute(
+        select(Scenario).where(
+            Scenario.application_id == application_id,
+            Scenario.is_active == True,
+            Scenario.module_id.isnot(None),
+        ).order_by(Scenario.title)
+    )
+    scenarios = scenarios_result.scalars().all()
+    by_module: dict[str, list[str]] = {}
+    for s in scenarios:
+        by_module.setdefault(s.module_id, []).append(s.id)
+    affected = kg_diff_service.attach_scenarios(changes, by_module)
+
+    return {
+        "base": KnowledgeGraphVersionResponse.model_validate(old_kg).model_dump(mode="json"),
+        "target": KnowledgeGraphVersionResponse.model_validate(new_kg).model_dump(mode="json"),
+        "changes": changes,
+        "total_changes": sum(len(entries) for entries in changes.values()),
+        "affected_scenarios": [
+            {
+                "id": s.id,
+                "title": s.title,
+                "priority": s.priority.value if s.priority else "MEDIUM",
+                "module_id": s.module_id,
+            }
+            for s in scenarios if s.id in affected
+        ],
+    }
+
+
 async def _run_explore(session_id: str, application_id: str, discover_only: bool = False, module_ids: list[str] = None):
     """Background task that runs the explore engine."""
     from app.db.session import AsyncSessionFactory
@@ -334,10 +430,7 @@ async def refresh_module(
     Useful after change detection identifies a module whose selectors have drifted.
     Creates a new ExploreSession scoped to that module only.
     """
-    app_result = await db.execute(select(Application).where(Application.id == application_id))
-    app = app_result.scalar_one_or_none()
-    if not app:
-        raise HTTPException(status_code=404, detail="Application not found")
+    app = await require_app_access(application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
 
     module_result = await db.execute(
         select(ApplicationModule).where(
@@ -1,24 +1,35 @@
 from __future__ import annotations
-from fastapi import APIRouter, Depends
+from fastapi import APIRouter, Depends, HTTPException, Query
 from sqlalchemy.ext.asyncio import AsyncSession
 from sqlalchemy import select, func
 
 from app.db.session import get_db
 from app.db.models import (
     User, ApplicationModule, ApplicationPage, ApplicationWorkflow,
-    SemanticElement, Scenario, ExecutionStep, ExecutionRun, ExecutionPlan,
+    SemanticElement, Scenario, DriftPolicy, DriftPolicyEvent, WorkspaceRole,
 )
-from app.core.dependencies import get_current_user
+from app.core.dependencies import get_current_user, require_app_access
+from app.schemas.drift_policy import DriftPolicyConfig, DriftPolicyEventResponse, DriftPolicyResponse
+from app.services import audit_service, drift_service
 
 router = APIRouter()
 
 
+async def _require_module_access(module_id: str, current_user: User, db: AsyncSession) -> ApplicationModule:
+    module = await db.get(ApplicationModule, module_id)
+    if not module:
+        raise HTTPException(status_code=404, detail="Module not found")
+    await require_app_access(module.application_id, current_user, db)
+    return module
+
+
 @router.get("/applications/{application_id}/modules")
 async def get_modules(
     application_id: str,
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
+    await require_app_access(application_id, current_user, db)
     result = await db.execute(
         select(ApplicationModule)
         .where(ApplicationModule.application_id == application_id)
@@ -32,6 +43,8 @@ async def get_modules(
             "description": m.description,
             "url_pattern": m.url_pattern,
             "icon": m.icon,
+            "is_accordion": bool(m.is_accordion),
+            "parent_id": m.parent_id,
             "semantic_tags": m.semantic_tags,
         }
         for m in modules
@@ -44,6 +57,7 @@ async def get_pages(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
+    await _require_module_access(module_id, current_user, db)
     result = await db.execute(
         select(ApplicationPage).where(ApplicationPage.module_id == module_id)
     )
@@ -69,6 +83,7 @@ async def get_workflows(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
+    await _require_module_access(module_id, current_user, db)
     result = await db.execute(
         select(ApplicationWorkflow).where(ApplicationWorkflow.module_id == module_id)
     )
@@ -98,6 +113,7 @@ async def get_coverage(
     Returns per-module explored/KG status and overall summary — used by the
     coverage dashboard to answer: "which modules have been tested, which haven't?"
     """
+    await require_app_access(application_id, current_user, db)
     # Load all modules
     mods_result = await db.execute(
         select(ApplicationModule)
@@ -221,111 +237,84 @@ async def get_selector_drift(
     Returns a list of drifted modules + specific failing step targets so the user
     knows exactly which element needs re-recording.
     """
-    # Load modules for this application
-    mods_result = await db.execute(
-        select(ApplicationModule)
-        .where(ApplicationModule.application_id == application_id)
-        .order_by(ApplicationModule.order_index)
+    await require_app_access(application_id, current_user, db)
+    return await drift_service.compute_selector_drift(db, application_id, lookback_runs)
+
+
+# ─── Drift policy ────────────────────────────────────────────────────────────
+
+def _policy_response(application_id: str, policy: DriftPolicy | None) -> DriftPolicyResponse:
+    if not policy:
+        return DriftPolicyResponse(application_id=application_id)
+    return DriftPolicyResponse(
+        application_id=application_id,
+        is_enabled=bool(policy.is_enabled),
+        min_severity=policy.min_severity or "high",
+        min_runs=policy.min_runs or 5,
+        replan_scenarios=bool(policy.replan_scenarios),
+        cooldown_hours=policy.cooldown_hours or 24,
+        updated_at=policy.updated_at,
     )
-    modules = list(mods_result.scalars().all())
-    module_ids = [m.id for m in modules]
-    module_map = {m.id: m.name for m in modules}
 
-    if not module_ids:
-        return {"drifted_modules": [], "healthy_modules": [], "total_checked": 0}
 
-    # Load recent runs for scenarios in this application, ordered newest-first
-    runs_result = await db.execute(
-        select(ExecutionRun, Scenario.module_id, ExecutionPlan.created_by_model)
-        .join(Scenario, ExecutionRun.scenario_id == Scenario.id)
-        .join(ExecutionPlan, ExecutionRun.plan_id == ExecutionPlan.id)
-        .where(
-            Scenario.application_id == application_id,
-            Scenario.module_id.in_(module_ids),
-            # Only runs using KG-recorded plans — AI plans may legitimately fail for other reasons
-            ExecutionPlan.created_by_model == "kg_recorded",
-        )
-        .order_by(ExecutionRun.created_at.desc())
-        .limit(lookback_runs * len(module_ids))
+async def _get_policy(db: AsyncSession, application_id: str) -> DriftPolicy | None:
+    result = await db.execute(select(DriftPolicy).where(DriftPolicy.application_id == application_id))
+    return result.scalar_one_or_none()
+
+
+@router.get("/applications/{application_id}/drift-policy", response_model=DriftPolicyResponse)
+async def get_drift_policy(
+    application_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """The application's drift policy; defaults (disabled) until an admin saves one."""
+    await require_app_access(application_id, current_user, db)
+    return _policy_response(application_id, await _get_policy(db, application_id))
+
+
+@router.put("/applications/{application_id}/drift-policy", response_model=DriftPolicyResponse)
+async def save_drift_policy(
+    application_id: str,
+    payload: DriftPolicyConfig,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    app = await require_app_access(application_id, current_user, db, min_role=WorkspaceRole.ADMIN)
+    policy = await _get_policy(db, application_id)
+    if not policy:
+        policy = DriftPolicy(application_id=application_id)
+        db.add(policy)
+    policy.is_enabled = payload.is_enabled
+    policy.min_severity = payload.min_severity
+    policy.min_runs = payload.min_runs
+    policy.replan_scenarios = payload.replan_scenarios
+    policy.cooldown_hours = payload.cooldown_hours
+    policy.updated_by = current_user.id
+    await db.flush()
+    audit_service.record_for_app(
+        db, current_user, app, "drift_policy.update",
+        target_type="drift_policy", target_id=policy.id, target_name=app.name,
+        details=payload.model_dump(),
     )
-    runs_rows = runs_result.all()
-
-    if not runs_rows:
-        return {"drifted_modules": [], "healthy_modules": list(module_map.values()), "total_checked": 0}
-
-    # Group runs by module, keeping only the last N per module
-    runs_by_module: dict[str, list] = {}
-    for run, mid, plan_model in runs_rows:
-        if mid not in runs_by_module:
-            runs_by_module[mid] = []
-        if len(runs_by_module[mid]) < lookback_runs:
-            runs_by_module[mid].append(run)
-
-    # For each module, load failed steps with selector-related error types
-    SELECTOR_ERRORS = ("selector_timeout", "element_not_found", "element_stale")
-    drift_threshold = 0.6  # >60% of recent runs failing on a selector = drift
-
-    drifted: list[dict] = []
-    healthy: list[dict] = []
-
-    for mid, mod_runs in runs_by_module.items():
-        if not mod_runs:
-            continue
-        run_ids = [r.id for r in mod_runs]
-
-        # Count selector failures per step target
-        steps_result = await db.execute(
-            select(ExecutionStep.description, ExecutionStep.error_type, func.count(ExecutionStep.id))
-            .where(
-                ExecutionStep.run_id.in_(run_ids),
-                ExecutionStep.error_type.in_(list(SELECTOR_ERRORS)),
-            )
-            .group_by(ExecutionStep.description, ExecutionStep.error_type)
-        )
-        failing_steps = steps_result.all()
-
-        # Total runs for this module in our window
-        total_runs = len(mod_runs)
-        failed_runs = sum(1 for r in mod_runs if r.status and r.status.value == "FAILED")
-        fail_rate = failed_runs / total_runs if total_runs else 0.0
-
-        if failing_steps and fail_rate >= drift_threshold:
-            # Surface the top failing selectors
-            top_failures = sorted(
-                [
-                    {"target": desc or "", "error_type": etype, "occurrences": cnt}
-                    for desc, etype, cnt in failing_steps
-                ],
-                key=lambda x: -x["occurrences"],
-            )[:5]
-            drifted.append({
-                "module_id": mid,
-                "module_name": module_map.get(mid, mid),
-                "runs_checked": total_runs,
-                "failed_runs": failed_runs,
-                "fail_rate_pct": round(fail_rate * 100),
-                "severity": "high" if fail_rate >= 0.8 else "medium",
-                "top_failing_selectors": top_failures,
-                "recommendation": (
-                    f"Re-explore the '{module_map.get(mid, mid)}' module — "
-                    f"{round(fail_rate*100)}% of recent KG-based runs are failing on "
-                    f"selector errors, suggesting the UI has changed."
-                ),
-            })
-        else:
-            healthy.append({
-                "module_id": mid,
-                "module_name": module_map.get(mid, mid),
-                "runs_checked": total_runs,
-                "fail_rate_pct": round(fail_rate * 100),
-            })
-
-    # Sort drifted by severity
-    drifted.sort(key=lambda x: -x["fail_rate_pct"])
+    await db.commit()
+    await db.refresh(policy)
+    return _policy_response(application_id, policy)
 
-    return {
-        "drifted_modules": drifted,
-        "healthy_modules": healthy,
-        "total_checked": len(runs_by_module),
-        "drift_detected": len(drifted) > 0,
-    }
+
+@router.get("/applications/{application_id}/drift-policy/events", response_model=list[DriftPolicyEventResponse])
+async def list_drift_policy_events(
+    application_id: str,
+    limit: int = Query(50, ge=1, le=200),
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """Activity feed of what the drift policy did, newest first."""
+    await require_app_access(application_id, current_user, db)
+    result = await db.execute(
+        select(DriftPolicyEvent)
+        .where(DriftPolicyEvent.application_id == application_id)
+        .order_by(DriftPolicyEvent.created_at.desc())
+        .limit(limit)
+    )
+    return [DriftPolicyEventResponse.model_validate(e) for e in result.scalars().all()]
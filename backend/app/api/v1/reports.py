@@ -1,12 +1,21 @@
 from __future__ import annotations
-from fastapi import APIRouter, Depends, HTTPException
+from collections import defaultdict
+from datetime import datetime, timedelta
+from typing import Optional
+from fastapi import APIRouter, Depends, HTTPException, Query
 from sqlalchemy.ext.asyncio import AsyncSession
 from sqlalchemy import select
 
 from app.db.session import get_db
-from app.db.models import User, ExecutionReport, ExecutionRun, Scenario
+from app.db.models import (
+    User, ExecutionReport, ExecutionRun, ExecutionStatus, Scenario, ApplicationModule,
+)
 from app.core.dependencies import get_current_user, require_app_access, require_run_access
 from app.schemas.scenario import ReportResponse
+from app.services.quarantine_service import is_quarantined_run
+from app.services.trend_service import (
+    RunOutcome, daily_series, flakiness, pass_rate, slope, split_halves,
+)
 
 router = APIRouter()
 
@@ -15,18 +24,20 @@ router = APIRouter()
 async def list_reports(
     application_id: str,
     limit: int = 20,
+    environment_id: Optional[str] = None,
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
     await require_app_access(application_id, current_user, db)
-    result = await db.execute(
+    query = (
         select(ExecutionReport, ExecutionRun, Scenario)
         .join(ExecutionRun, ExecutionReport.run_id == ExecutionRun.id)
         .join(Scenario, ExecutionRun.scenario_id == Scenario.id)
         .where(Scenario.application_id == application_id)
-        .order_by(ExecutionReport.created_at.desc())
-        .limit(limit)
     )
+    if environment_id:
+        query = query.where(ExecutionRun.environment_id == environment_id)
+    result = await db.execute(query.order_by(ExecutionReport.created_at.desc()).limit(limit))
     rows = result.all()
     return [
         {
@@ -39,11 +50,130 @@ async def list_reports(
             "summary": report.summary,
             "created_at": report.created_at,
             "run_status": run.status.value if run.status else None,
+            "environment_id": run.environment_id,
+            "quarantined": is_quarantined_run(run),
         }
         for report, run, scenario in rows
     ]
 
 
+# Runs that reached a verdict; cancelled and in-flight runs say nothing about stability
+_FINISHED = (ExecutionStatus.COMPLETED, ExecutionStatus.FAILED, ExecutionStatus.PARTIAL)
+
+
+@router.get("/applications/{application_id}/trends")
+async def get_trends(
+    application_id: str,
+    days: int = Query(30, ge=1, le=180),
+    environment_id: Optional[str] = None,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """
+    Pass rate over time for the application, each module and each scenario, plus
+    per-scenario flakiness and healed-step trend. Module and scenario `delta` is the
+    pass-rate change from the first to the second half of the window.
+    """
+    await require_app_access(application_id, current_user, db)
+    until = datetime.utcnow()
+    since = until - timedelta(days=days)
+
+    query = (
+        select(ExecutionRun, Scenario, ApplicationModule.name)
+        .join(Scenario, ExecutionRun.scenario_id == Scenario.id)
+        .outerjoin(ApplicationModule, Scenario.module_id == ApplicationModule.id)
+        .where(
+            Scenario.application_id == application_id,
+            ExecutionRun.status.in_(_FINISHED),
+            ExecutionRun.created_at >= since,
+        )
+    )
+    if environment_id:
+        query = query.where(ExecutionRun.environment_id == environment_id)
+    rows = (await db.execute(query.order_by(ExecutionRun.created_at))).all()
+
+    # Quarantined runs stay in their scenario's own trend but not in app/module rollups
+    outcomes: list[RunOutcome] = []
+    by_scenario: dict[str, list[RunOutcome]] = defaultdict(list)
+    by_module: dict[str | None, list[RunOutcome]] = defaultdict(list)
+    scenario_info: dict[str, Scenario] = {}
+    module_names: dict[str | None, str] = {None: "Ungrouped"}
+    for run, scenario, module_name in rows:
+        outcome = RunOutcome(
+            scenario_id=scenario.id,
+            plan_id=run.plan_id,
+            passed=run.status == ExecutionStatus.COMPLETED,
+            healed_steps=run.healed_steps or 0,
+            at=run.created_at,
+        )
+        by_scenario[scenario.id].append(outcome)
+        if not is_quarantined_run(run):
+            outcomes.append(outcome)
+            by_module[scenario.module_id].append(outcome)
+        scenario_info[scenario.id] = scenario
+        if scenario.module_id:
+            module_names[scenario.module_id] = module_name or "Unnamed module"
+
+    def _delta(items: list[RunOutcome]) -> float | None:
+        earlier, recent = split_halves(items, since, until)
+        before, after = pass_rate(earlier), pass_rate(recent)
+        return round(after - before, 1) if before is not None and after is not None else None
+
+    modules = [
+        {
+            "module_id": module_id,
+            "module_name": module_names.get(module_id, "Unnamed module"),
+            "runs": len(items),
+            "pass_rate": pass_rate(items),
+            "delta": _delta(items),
+            "series": daily_series(items),
+        }
+        for module_id, items in by_module.items()
+    ]
+
+    scenarios = []
+    for scenario_id, items in by_scenario.items():
+        scenario = scenario_info[scenario_id]
+        score, flips, pairs = flakiness(items)
+        healed = [o.healed_steps for o in items]
+        scenarios.append({
+            "scenario_id": scenario_id,
+            "title": scenario.title,
+            "module_id": scenario.module_id,
+            "module_name": module_names.get(scenario.module_id, "Unnamed module"),
+            "is_quarantined": bool(scenario.is_quarantined),
+            "runs": len(items),
+            "passed": sum(o.passed for o in items),
+            "pass_rate": pass_rate(items),
+            "delta": _delta(items),
+            "flakiness": score,
+            "flips": flips,
+            "comparable_pairs": pairs,
+            "plan_versions": len({o.plan_id for o in items}),
+            "healed_slope": slope(healed),
+            "healed_recent": healed[-1] if healed else 0,
+            "series": daily_series(items),
+            "runs_detail": [
+                {"at": o.at, "passed": o.passed, "healed_steps": o.healed_steps, "plan_id": o.plan_id}
+                for o in items[-30:]
+            ],
+        })
+
+    return {
+        "days": days,
+        "since": since,
+        "until": until,
+        "application": {
+            "runs": len(outcomes),
+            "pass_rate": pass_rate(outcomes),
+            "delta": _delta(outcomes),
+            "series": daily_series(outcomes),
+        },
+        "modules": sorted(modules, key=lambda m: (m["delta"] is None, m["delta"] or 0)),
+        "scenarios": sorted(scenarios, key=lambda s: (-s["flakiness"], s["pass_rate"] or 0)),
+    }
+
+
 @router.get("/{report_id}", response_model=ReportResponse)
 async def get_report(
     report_id: str,
@@ -14,7 +14,7 @@ from app.db.session import get_db
 from app.db.models import (
     User, Scenario, ScenarioPriority, ExecutionPlan, ExecutionRun,
     Environment, Credential, ApplicationModule, ApplicationWorkflow,
-    Application,
+    Application, WorkspaceRole,
 )
 from sqlalchemy import func
 from app.core.dependencies import get_current_user, require_app_access
@@ -28,7 +28,10 @@ from app.intelligence.ai_client import get_ai_client
 from app.intelligence.exploratory_engine import ExploratoryTestEngine
 from app.intelligence.business_rule_engine import BusinessRuleEngine
 from app.intelligence.smart_scenario_generator import SmartScenarioGenerator
-from app.jobs.execution_job import enqueue_execution, enqueue_batch_execution
+from app.jobs.execution_job import enqueue_execution
+from app.services.batch_service import BatchLaunchError, launch_batch
+from app.services import audit_service, quarantine_service
+from config import settings
 
 router = APIRouter()
 
@@ -77,6 +80,12 @@ def _enrich_scenario(
         # Last execution outcome — drives pass/fail badge on scenario cards
         "last_run_status": last_run.get("status") if last_run else None,
         "last_run_at": last_run.get("completed_at") if last_run else None,
+        # Quarantine — runs still happen but are left out of quality rollups
+        "is_quarantined": bool(s.is_quarantined),
+        "quarantined_at": s.quarantined_at.isoformat() if s.quarantined_at else None,
+        "quarantine_reason": s.quarantine_reason,
+        "quarantine_pass_streak": s.quarantine_pass_streak or 0,
+        "quarantine_exit_passes": settings.QUARANTINE_EXIT_PASSES,
     }
 
 
@@ -468,13 +477,15 @@ async def delete_scenarios_by_module(
     db: AsyncSession = Depends(get_db),
 ):
     """Soft-delete all scenarios for a module (or all unassigned if module_id=none)."""
-    await require_app_access(application_id, current_user, db)
+    app = await require_app_access(application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
     query = select(Scenario).where(
         Scenario.application_id == application_id,
         Scenario.is_active == True,
     )
+    module = None
     if module_id and module_id != "__none__":
         query = query.where(Scenario.module_id == module_id)
+        module = await db.get(ApplicationModule, module_id)
     else:
         query = query.where(Scenario.module_id == None)  # noqa: E711
 
@@ -482,6 +493,14 @@ async def delete_scenarios_by_module(
     scenarios = result.scalars().all()
     for s in scenarios:
         s.is_active = False
+    if scenarios:
+        audit_service.record_for_app(
+            db, current_user, app, "scenario.delete_module",
+            target_type="module",
+            target_id=module.id if module else None,
+            target_name=module.name if module else "General / Unassigned",
+            details={"deleted": len(scenarios), "scenario_ids": [s.id for s in scenarios]},
+        )
     await db.commit()
     return {"deleted": len(scenarios)}
 
@@ -518,6 +537,51 @@ async def update_scenario(
     return _enrich_scenario(scenario, modules_by_id)
 
 
+# ─── Quarantine ───────────────────────────────────────────────────────────────
+
+class QuarantineRequest(BaseModel):
+    reason: str | None = None
+
+
+async def _get_scenario_for_write(scenario_id: str, current_user: User, db: AsyncSession) -> Scenario:
+    scenario = await db.get(Scenario, scenario_id)
+    if not scenario or not scenario.is_active:
+        raise HTTPException(status_code=404, detail="Scenario not found")
+    await require_app_access(scenario.application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+    return scenario
+
+
+@router.post("/{scenario_id}/quarantine")
+async def quarantine_scenario(
+    scenario_id: str,
+    payload: QuarantineRequest,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """Keep running the scenario but drop its runs from quality score and pass-rate rollups."""
+    scenario = await _get_scenario_for_write(scenario_id, current_user, db)
+    quarantine_service.quarantine(scenario, (payload.reason or "").strip()[:1000] or None)
+    await db.commit()
+    await db.refresh(scenario)
+    modules_by_id = await _load_modules_by_id(db, [scenario])
+    return _enrich_scenario(scenario, modules_by_id)
+
+
+@router.delete("/{scenario_id}/quarantine")
+async def release_scenario(
+    scenario_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """Release a scenario from quarantine before it earns its consecutive passes."""
+    scenario = await _get_scenario_for_write(scenario_id, current_user, db)
+    quarantine_service.release(scenario)
+    await db.commit()
+    await db.refresh(scenario)
+    modules_by_id = await _load_modules_by_id(db, [scenario])
+    return _enrich_scenario(scenario, modules_by_id)
+
+
 # ─── Delete (soft) ────────────────────────────────────────────────────────────
 
 @router.delete("/{scenario_id}", status_code=204)
@@ -526,11 +590,13 @@ async def delete_scenario(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
-    result = await db.execute(select(Scenario).where(Scenario.id == scenario_id))
-    scenario = result.scalar_one_or_none()
-    if not scenario:
-        raise HTTPException(status_code=404, detail="Scenario not found")
+    scenario = await _get_scenario_for_write(scenario_id, current_user, db)
     scenario.is_active = False
+    app = await db.get(Application, scenario.application_id)
+    audit_service.record_for_app(
+        db, current_user, app, "scenario.delete",
+        target_type="scenario", target_id=scenario.id, target_name=scenario.title,
+    )
     await db.commit()
 
 
@@ -768,158 +834,25 @@ async def run_batch(
     Optimized: bulk-fetches all scenarios, builds all plans in one DB commit,
     then enqueues execution — returns run IDs in ~100ms regardless of batch size.
     """
-    import uuid as _uuid
-    import traceback as _tb
-    import structlog as _sl
-    _log = _sl.get_logger()
-
     if not payload.scenario_ids:
         raise HTTPException(status_code=400, detail="No scenario IDs provided")
+    app_ids = (await db.execute(
+        select(Scenario.application_id).where(Scenario.id.in_(payload.scenario_ids)).distinct()
+    )).scalars().all()
+    for app_id in app_ids:
+        await require_app_access(app_id, current_user, db, min_role=WorkspaceRole.MEMBER)
 
-    cap = 50
-    requested_ids = list(dict.fromkeys(payload.scenario_ids[:cap]))  # dedup, preserve order
-
-    # ── 1. Bulk-fetch all scenarios in ONE query ──────────────────────────────
-    result = await db.execute(
-        select(Scenario).where(Scenario.id.in_(requested_ids))
-    )
-    scenario_lookup: dict[str, Scenario] = {s.id: s for s in result.scalars().all()}
-
-    errors: list[dict] = [
-        {"scenario_id": sid, "error": "Scenario not found"}
-        for sid in requested_ids if sid not in scenario_lookup
-    ]
-
-    # ── 1b. Smoke-only filter ─────────────────────────────────────────────────
-    # When smoke_only=True, skip all scenarios not flagged as smoke tests.
-    # This is the "sanity check before a release" mode — fast, focused pass.
-    if payload.smoke_only:
-        smoke_ids = {sid for sid, s in scenario_lookup.items() if getattr(s, "is_smoke", False)}
-        if not smoke_ids:
-            return {"runs": [], "total": 0, "batch_mode": True,
-                    "message": "No smoke tests found — tag scenarios with is_smoke=true first"}
-        requested_ids = [sid for sid in requested_ids if sid in smoke_ids]
-        scenario_lookup = {sid: s for sid, s in scenario_lookup.items() if sid in smoke_ids}
-
-    # ── Smart test ordering ───────────────────────────────────────────────────
-    # A human QA never runs tests randomly. Order: smoke → create → update → delete
-    # → validation → integration → everything else. Within each tier, CRITICAL first.
-    _PRIORITY_RANK = {"CRITICAL": 0, "HIGH": 1, "MEDIUM": 2, "LOW": 3}
-
-    def _order_key(scenario: Scenario) -> tuple:
-        title_lc = (scenario.title or "").lower()
-        desc_lc  = (scenario.description or "").lower()
-        tags     = [str(t).lower() for t in (scenario.tags or [])]
-        all_text = title_lc + " " + desc_lc + " " + " ".join(tags)
-
-        # Tier 0 — smoke tests (explicitly tagged or login/health-check by title)
-        if getattr(scenario, "is_smoke", False) or "smoke" in all_text or any(
-            k in title_lc for k in ("login", "sign in", "access", "health")
-        ):
-            tier = 0
-        # Tier 1 — create / add (must run before update/delete can work)
-        elif any(k in title_lc for k in ("create", "add", "new", "insert", "register")):
-            tier = 1
-        # Tier 2 — update / edit (depends on create)
-        elif any(k in title_lc for k in ("update", "edit", "modify", "change", "amend")):
-            tier = 2
-        # Tier 3 — delete / remove (depends on create)
-        elif any(k in title_lc for k in ("delete", "remove", "archive", "deactivate")):
-            tier = 3
-        # Tier 4 — validation / edge cases
-        elif any(k in title_lc for k in ("validation", "invalid", "edge", "error", "required", "boundary")):
-            tier = 4
-        # Tier 5 — integration / cross-module / e2e
-        elif any(k in title_lc for k in ("integration", "cross", "end-to-end", "e2e", "flow", "workflow")):
-            tier = 5
-        # Tier 6 — regression / everything else
-        else:
-            tier = 6
-
-        priority_val = _PRIORITY_RANK.get(
-            (scenario.priority.value if scenario.priority else "MEDIUM").upper(), 2
-        )
-        return (tier, priority_val)
-
-    # Re-order the valid requested_ids by smart ordering
-    valid_ordered = sorted(
-        [sid for sid in requested_ids if sid in scenario_lookup],
-        key=lambda sid: _order_key(scenario_lookup[sid]),
-    )
-
-    # ── 2. Build ALL plan objects — KG first, fallback for the rest ───────────
-    planner = ScenarioPlanner(db)
-    plan_entries: list[tuple] = []  # (plan_obj, scenario_title)
-    for sid in valid_ordered:
-        scenario = scenario_lookup[sid]
-
-        # Try KG plan first (no AI, no rate-limit cost) for scenarios with a linked module
-        kg_plan: ExecutionPlan | None = None
-        if scenario.module_id:
-            try:
-                kg_plan = await planner._build_plan_from_kg(scenario, payload.execution_mode)
-            except Exception:
-                kg_plan = None
-
-        if kg_plan:
-            plan_entries.append((kg_plan, scenario.title))
-            continue
-
-        # Fall back to a placeholder plan — batch executor will upgrade it with AI/capability
-        plan_data = planner._fallback_plan(scenario)
-        plan = ExecutionPlan(
-            scenario_id=scenario.id,
-            execution_mode=payload.execution_mode,
-            plan_data=plan_data,
-            ai_reasoning="Fallback — AI reasoning deferred to execution time",
-            semantic_intent={},
-            workflow_stages=[],
-            risk_score=5,
-            estimated_duration_seconds=len(plan_data.get("steps", [])) * 5,
-            created_by_model="fallback",
-        )
-        db.add(plan)
-        plan_entries.append((plan, scenario.title))
-
-    if not plan_entries:
-        return {"runs": errors, "total": 0, "batch_mode": True}
-
-    # ── 3. ONE commit for all plans ───────────────────────────────────────────
-    await db.commit()
-
-    plans = [p for p, _ in plan_entries]
-    plan_title_map: dict[str, str] = {p.id: title for p, title in plan_entries}
-
-    # ── 4. Enqueue batch — creates runs + submits thread job ──────────────────
-    batch_id = str(_uuid.uuid4())
     try:
-        runs = await enqueue_batch_execution(
-            db=db,
-            plans=plans,
+        return await launch_batch(
+            db,
+            scenario_ids=payload.scenario_ids,
+            execution_mode=payload.execution_mode,
             environment_id=payload.environment_id,
-            credential_id=None,
             triggered_by=current_user.id,
-            batch_id=batch_id,
+            smoke_only=payload.smoke_only,
         )
-        run_summaries = [
-            {
-                "scenario_id": run.scenario_id,
-                "run_id": run.id,
-                "title": plan_title_map.get(run.plan_id, ""),
-            }
-            for run in runs
-        ]
-        _log.info("Batch enqueued", count=len(runs), batch_id=batch_id)
-        return {
-            "runs": run_summaries + errors,
-            "total": len(run_summaries),
-            "batch_id": batch_id,
-            "batch_mode": True,
-        }
-    except Exception as e:
-        err_detail = f"Batch enqueue failed: {e}\n{_tb.format_exc()[-300:]}"
-        _log.error("Batch enqueue error", error=err_detail)
-        raise HTTPException(status_code=500, detail=err_detail)
+    except BatchLaunchError as e:
+        raise HTTPException(status_code=500, detail=str(e))
 
 
 # ─── Generate plan ────────────────────────────────────────────────────────────
@@ -971,9 +904,10 @@ async def trigger_execution(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
+    scenario = await _get_scenario_for_write(scenario_id, current_user, db)
     result = await db.execute(select(ExecutionPlan).where(ExecutionPlan.id == payload.plan_id))
     plan = result.scalar_one_or_none()
-    if not plan:
+    if not plan or plan.scenario_id != scenario.id:
         raise HTTPException(status_code=404, detail="Execution plan not found")
 
     run = await enqueue_execution(
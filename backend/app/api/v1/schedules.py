@@ -0,0 +1,189 @@
+"""
+Schedules API — cron-style recurring batch runs.
+
+A schedule pins a set of scenario ids (or a saved suite, resolved at each firing),
+an execution mode and an environment. The
+scheduler loop (app/jobs/schedule_job.py) fires it; every firing is an ordinary
+batch tagged with `schedule_id`, so it appears in batch history next to manual runs.
+"""
+from __future__ import annotations
+from datetime import datetime
+
+from fastapi import APIRouter, Depends, HTTPException
+from sqlalchemy.ext.asyncio import AsyncSession
+from sqlalchemy import select
+
+from app.db.session import get_db
+from app.db.models import User, Application, BatchSchedule, Environment, Scenario, TestSuite, WorkspaceRole
+from app.core.dependencies import get_current_user, require_app_access
+from app.jobs.schedule_job import fire_schedule, next_fire_time, validate_schedule_spec
+from app.schemas.schedule import ScheduleCreate, ScheduleResponse, ScheduleUpdate
+from app.services import audit_service
+
+router = APIRouter()
+
+EXECUTION_MODES = {"smoke", "functional", "regression"}
+
+
+async def _get_schedule(
+    schedule_id: str, current_user: User, db: AsyncSession, min_role: WorkspaceRole = WorkspaceRole.VIEWER,
+) -> BatchSchedule:
+    schedule = await db.get(BatchSchedule, schedule_id)
+    if not schedule:
+        raise HTTPException(status_code=404, detail="Schedule not found")
+    await require_app_access(schedule.application_id, current_user, db, min_role=min_role)
+    return schedule
+
+
+async def _validate_targets(
+    application_id: str,
+    environment_id: str | None,
+    scenario_ids: list[str] | None,
+    suite_id: str | None,
+    db: AsyncSession,
+) -> None:
+    if suite_id:
+        suite = await db.get(TestSuite, suite_id)
+        if not suite or suite.application_id != application_id:
+            raise HTTPException(status_code=400, detail="Suite does not belong to this application")
+    if environment_id is not None:
+        env = await db.get(Environment, environment_id)
+        if not env or env.application_id != application_id:
+            raise HTTPException(status_code=400, detail="Environment does not belong to this application")
+    if scenario_ids is not None:
+        found = (await db.execute(
+            select(Scenario.id).where(Scenario.id.in_(scenario_ids), Scenario.application_id == application_id)
+        )).scalars().all()
+        missing = set(scenario_ids) - set(found)
+        if missing:
+            raise HTTPException(status_code=400, detail=f"{len(missing)} scenario(s) not found in this application")
+
+
+def _check_spec(cron_expression: str, tz_name: str, execution_mode: str) -> None:
+    problem = validate_schedule_spec(cron_expression, tz_name)
+    if problem:
+        raise HTTPException(status_code=400, detail=problem)
+    if execution_mode not in EXECUTION_MODES:
+        raise HTTPException(status_code=400, detail=f"execution_mode must be one of {sorted(EXECUTION_MODES)}")
+
+
+@router.get("", response_model=list[ScheduleResponse])
+async def list_schedules(
+    application_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await require_app_access(application_id, current_user, db)
+    result = await db.execute(
+        select(BatchSchedule)
+        .where(BatchSchedule.application_id == application_id)
+        .order_by(BatchSchedule.created_at)
+    )
+    return [ScheduleResponse.model_validate(s) for s in result.scalars().all()]
+
+
+@router.post("", response_model=ScheduleResponse, status_code=201)
+async def create_schedule(
+    payload: ScheduleCreate,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await require_app_access(payload.application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+    cron_expression = " ".join(payload.cron_expression.split())
+    _check_spec(cron_expression, payload.timezone, payload.execution_mode)
+    scenario_ids = [] if payload.suite_id else list(dict.fromkeys(payload.scenario_ids))
+    if not payload.suite_id and not scenario_ids:
+        raise HTTPException(status_code=400, detail="Pick a suite or at least one scenario")
+    await _validate_targets(payload.application_id, payload.environment_id, scenario_ids, payload.suite_id, db)
+
+    schedule = BatchSchedule(
+        application_id=payload.application_id,
+        environment_id=payload.environment_id,
+        name=payload.name.strip(),
+        cron_expression=cron_expression,
+        timezone=payload.timezone,
+        scenario_ids=scenario_ids,
+        suite_id=payload.suite_id,
+        execution_mode=payload.execution_mode,
+        is_paused=False,
+        next_run_at=next_fire_time(cron_expression, payload.timezone, datetime.utcnow()),
+        created_by=current_user.id,
+    )
+    db.add(schedule)
+    await db.commit()
+    await db.refresh(schedule)
+    return ScheduleResponse.model_validate(schedule)
+
+
+@router.patch("/{schedule_id}", response_model=ScheduleResponse)
+async def update_schedule(
+    schedule_id: str,
+    payload: ScheduleUpdate,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """Edit a schedule. Pausing clears `next_run_at`; resuming or re-timing recomputes it from now."""
+    schedule = await _get_schedule(schedule_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+
+    cron_expression = " ".join(payload.cron_expression.split()) if payload.cron_expression else schedule.cron_expression
+    tz_name = payload.timezone or schedule.timezone or "UTC"
+    execution_mode = payload.execution_mode or schedule.execution_mode
+    _check_spec(cron_expression, tz_name, execution_mode)
+    scenario_ids = list(dict.fromkeys(payload.scenario_ids)) if payload.scenario_ids is not None else None
+    await _validate_targets(schedule.application_id, payload.environment_id, scenario_ids, payload.suite_id, db)
+
+    retimed = cron_expression != schedule.cron_expression or tz_name != schedule.timezone
+    schedule.cron_expression = cron_expression
+    schedule.timezone = tz_name
+    schedule.execution_mode = execution_mode
+    if payload.name is not None:
+        schedule.name = payload.name.strip()
+    if payload.environment_id is not None:
+        schedule.environment_id = payload.environment_id
+    if scenario_ids is not None:
+        schedule.scenario_ids = scenario_ids
+    if payload.suite_id is not None:
+        schedule.suite_id = payload.suite_id or None
+    if schedule.suite_id:
+        schedule.scenario_ids = []
+    elif not schedule.scenario_ids:
+        raise HTTPException(status_code=400, detail="Pick a suite or at least one scenario")
+
+    if payload.is_paused is not None and payload.is_paused != schedule.is_paused:
+        schedule.is_paused = payload.is_paused
+        retimed = True
+    if schedule.is_paused:
+        schedule.next_run_at = None
+    elif retimed or schedule.next_run_at is None:
+        schedule.next_run_at = next_fire_time(cron_expression, tz_name, datetime.utcnow())
+
+    await db.commit()
+    await db.refresh(schedule)
+    return ScheduleResponse.model_validate(schedule)
+
+
+@router.post("/{schedule_id}/run", response_model=ScheduleResponse)
+async def run_schedule_now(
+    schedule_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """Fire a schedule immediately (works while paused); the regular cadence is unchanged."""
+    schedule = await _get_schedule(schedule_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+    schedule = await fire_schedule(db, schedule)
+    return ScheduleResponse.model_validate(schedule)
+
+
+@router.delete("/{schedule_id}", status_code=204)
+async def delete_schedule(
+    schedule_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    schedule = await _get_schedule(schedule_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+    audit_service.record_for_app(
+        db, current_user, await db.get(Application, schedule.application_id), "schedule.delete",
+        target_type="schedule", target_id=schedule.id, target_name=schedule.name,
+    )
+    await db.delete(schedule)
+    await db.commit()
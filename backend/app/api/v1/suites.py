@@ -0,0 +1,254 @@
+"""
+Suites API — named, versioned sets of scenarios.
+
+A suite is either an explicit list of scenario ids or a query (priorities, tags,
+modules, smoke flag) resolved at run time. Changing the definition bumps `version`
+and snapshots it; runs launched from a suite carry `suite_id` and `suite_version`
+in `browser_metadata`, so batch history can be grouped and trended per suite.
+"""
+from __future__ import annotations
+
+from fastapi import APIRouter, Depends, HTTPException
+from sqlalchemy.ext.asyncio import AsyncSession
+from sqlalchemy import func, select
+
+from app.db.session import get_db
+from app.db.models import (
+    User, Application, BatchSchedule, Environment, TestSuite, TestSuiteVersion, WorkspaceRole,
+)
+from app.core.dependencies import get_current_user, require_app_access
+from app.schemas.suite import (
+    SuiteCreate, SuiteResponse, SuiteRunRequest, SuiteUpdate, SuiteVersionResponse,
+)
+from app.services import audit_service
+from app.services.batch_service import BatchLaunchError, launch_batch
+from app.services.suite_service import (
+    load_active_scenarios, normalize_query, resolve_suite, select_scenarios,
+)
+
+router = APIRouter()
+
+EXECUTION_MODES = {"smoke", "functional", "regression"}
+
+
+async def _get_suite(
+    suite_id: str, current_user: User, db: AsyncSession, min_role: WorkspaceRole = WorkspaceRole.VIEWER,
+) -> TestSuite:
+    suite = await db.get(TestSuite, suite_id)
+    if not suite:
+        raise HTTPException(status_code=404, detail="Suite not found")
+    await require_app_access(suite.application_id, current_user, db, min_role=min_role)
+    return suite
+
+
+def _response(suite: TestSuite, scenario_count: int) -> SuiteResponse:
+    response = SuiteResponse.model_validate(suite)
+    response.scenario_count = scenario_count
+    return response
+
+
+async def _checked_definition(
+    application_id: str,
+    kind: str,
+    scenario_ids: list[str] | None,
+    query: dict | None,
+    db: AsyncSession,
+) -> tuple[list[str], dict | None]:
+    """Validate a definition against the application; returns the values to store."""
+    if kind == "query":
+        return [], normalize_query(query)
+    scenario_ids = list(dict.fromkeys(scenario_ids or []))
+    if not scenario_ids:
+        raise HTTPException(status_code=400, detail="An explicit suite needs at least one scenario")
+    scenarios = await load_active_scenarios(db, application_id)
+    missing = set(scenario_ids) - {s.id for s in scenarios}
+    if missing:
+        raise HTTPException(status_code=400, detail=f"{len(missing)} scenario(s) not found in this application")
+    return scenario_ids, None
+
+
+def _snapshot(suite: TestSuite, user_id: str) -> TestSuiteVersion:
+    return TestSuiteVersion(
+        suite_id=suite.id,
+        version=suite.version,
+        kind=suite.kind,
+        scenario_ids=suite.scenario_ids,
+        query=suite.query,
+        created_by=user_id,
+    )
+
+
+@router.get("", response_model=list[SuiteResponse])
+async def list_suites(
+    application_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await require_app_access(application_id, current_user, db)
+    result = await db.execute(
+        select(TestSuite)
+        .where(TestSuite.application_id == application_id)
+        .order_by(TestSuite.name)
+    )
+    suites = result.scalars().all()
+    # One scenario load covers every suite's count
+    scenarios = await load_active_scenarios(db, application_id) if suites else []
+    return [
+        _response(s, len(select_scenarios(scenarios, s.kind, s.scenario_ids, s.query)))
+        for s in suites
+    ]
+
+
+@router.post("", response_model=SuiteResponse, status_code=201)
+async def create_suite(
+    payload: SuiteCreate,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await require_app_access(payload.application_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+    scenario_ids, query = await _checked_definition(
+        payload.application_id, payload.kind, payload.scenario_ids,
+        payload.query.model_dump(mode="json") if payload.query else None, db,
+    )
+    suite = TestSuite(
+        application_id=payload.application_id,
+        name=payload.name.strip(),
+        description=(payload.description or "").strip() or None,
+        kind=payload.kind,
+        scenario_ids=scenario_ids,
+        query=query,
+        version=1,
+        created_by=current_user.id,
+    )
+    db.add(suite)
+    await db.flush()
+    db.add(_snapshot(suite, current_user.id))
+    await db.commit()
+    await db.refresh(suite)
+    return _response(suite, len(await resolve_suite(db, suite)))
+
+
+@router.get("/{suite_id}", response_model=SuiteResponse)
+async def get_suite(
+    suite_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    suite = await _get_suite(suite_id, current_user, db)
+    return _response(suite, len(await resolve_suite(db, suite)))
+
+
+@router.patch("/{suite_id}", response_model=SuiteResponse)
+async def update_suite(
+    suite_id: str,
+    payload: SuiteUpdate,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """Rename or redefine a suite. Only definition changes create a new version."""
+    suite = await _get_suite(suite_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+
+    if payload.name is not None:
+        suite.name = payload.name.strip()
+    if payload.description is not None:
+        suite.description = payload.description.strip() or None
+
+    if payload.kind is not None or payload.scenario_ids is not None or payload.query is not None:
+        kind = payload.kind or suite.kind
+        scenario_ids, query = await _checked_definition(
+            suite.application_id,
+            kind,
+            payload.scenario_ids if payload.scenario_ids is not None else suite.scenario_ids,
+            payload.query.model_dump(mode="json") if payload.query else suite.query,
+            db,
+        )
+        if (kind, scenario_ids, query) != (suite.kind, suite.scenario_ids or [], suite.query):
+            suite.kind = kind
+            suite.scenario_ids = scenario_ids
+            suite.query = query
+            suite.version = (suite.version or 1) + 1
+            db.add(_snapshot(suite, current_user.id))
+
+    await db.commit()
+    await db.refresh(suite)
+    return _response(suite, len(await resolve_suite(db, suite)))
+
+
+@router.get("/{suite_id}/versions", response_model=list[SuiteVersionResponse])
+async def list_suite_versions(
+    suite_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await _get_suite(suite_id, current_user, db)
+    result = await db.execute(
+        select(TestSuiteVersion)
+        .where(TestSuiteVersion.suite_id == suite_id)
+        .order_by(TestSuiteVersion.version.desc())
+    )
+    return [SuiteVersionResponse.model_validate(v) for v in result.scalars().all()]
+
+
+@router.get("/{suite_id}/scenarios", response_model=list[str])
+async def resolve_suite_scenarios(
+    suite_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """The scenario ids the suite would run right now."""
+    suite = await _get_suite(suite_id, current_user, db)
+    return await resolve_suite(db, suite)
+
+
+@router.post("/{suite_id}/run")
+async def run_suite(
+    suite_id: str,
+    payload: SuiteRunRequest,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """Resolve the suite and launch it as one batch; same response shape as run-batch."""
+    suite = await _get_suite(suite_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+    if payload.execution_mode not in EXECUTION_MODES:
+        raise HTTPException(status_code=400, detail=f"execution_mode must be one of {sorted(EXECUTION_MODES)}")
+    env = await db.get(Environment, payload.environment_id)
+    if not env or env.application_id != suite.application_id:
+        raise HTTPException(status_code=400, detail="Environment does not belong to this application")
+
+    scenario_ids = await resolve_suite(db, suite)
+    if not scenario_ids:
+        raise HTTPException(status_code=400, detail="Suite matches no active scenarios")
+    try:
+        return await launch_batch(
+            db,
+            scenario_ids=scenario_ids,
+            execution_mode=payload.execution_mode,
+            environment_id=payload.environment_id,
+            triggered_by=current_user.id,
+            batch_meta={"suite_id": suite.id, "suite_version": suite.version},
+        )
+    except BatchLaunchError as e:
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.delete("/{suite_id}", status_code=204)
+async def delete_suite(
+    suite_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    suite = await _get_suite(suite_id, current_user, db, min_role=WorkspaceRole.MEMBER)
+    scheduled = (await db.execute(
+        select(func.count(BatchSchedule.id)).where(BatchSchedule.suite_id == suite_id)
+    )).scalar_one()
+    if scheduled:
+        raise HTTPException(
+            status_code=409,
+            detail=f"Suite is used by {scheduled} schedule(s) — delete or retarget them first",
+        )
+    audit_service.record_for_app(
+        db, current_user, await db.get(Application, suite.application_id), "suite.delete",
+        target_type="suite", target_id=suite.id, target_name=suite.name,
+    )
+    await db.delete(suite)
+    await db.commit()
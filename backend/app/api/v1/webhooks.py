@@ -0,0 +1,232 @@
+"""
+Webhooks API — per-workspace outbound notifications of lifecycle events.
+
+Workspace admins manage webhooks and can inspect and redeliver their deliveries.
+The signing secret is returned only on create and rotate. Delivery itself happens
+in the background (app/jobs/webhook_job.py); see app/services/webhook_service.py
+for the payload and signature format.
+"""
+from __future__ import annotations
+
+from fastapi import APIRouter, Depends, HTTPException, Query
+from sqlalchemy.ext.asyncio import AsyncSession
+from sqlalchemy import func, select
+
+from app.db.session import get_db
+from app.db.models import User, Webhook, WebhookDelivery, Workspace, WorkspaceRole
+from app.core.dependencies import get_current_user, get_workspace_access
+from app.core.outbound import UnsafeUrlError, assert_public_url
+from app.core.security import encrypt_credential
+from app.jobs.webhook_job import wake_dispatcher
+from app.schemas.webhook import (
+    WebhookCreate, WebhookDeliveryResponse, WebhookResponse, WebhookUpdate, WebhookWithSecret,
+)
+from app.services import audit_service
+from app.services.webhook_service import PING_EVENT, build_payload, generate_webhook_secret, queue_delivery
+
+router = APIRouter()
+
+
+async def _get_webhook(workspace_id: str, webhook_id: str, current_user: User, db: AsyncSession) -> Webhook:
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.ADMIN)
+    webhook = await db.get(Webhook, webhook_id)
+    if not webhook or webhook.workspace_id != workspace_id:
+        raise HTTPException(status_code=404, detail="Webhook not found")
+    return webhook
+
+
+async def _check_resolves_public(url: str) -> None:
+    try:
+        await assert_public_url(url, "Webhook URL")
+    except UnsafeUrlError as e:
+        raise HTTPException(status_code=422, detail=str(e))
+
+
+@router.get("/{workspace_id}/webhooks", response_model=list[WebhookResponse])
+async def list_webhooks(
+    workspace_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.ADMIN)
+    webhooks = (await db.execute(
+        select(Webhook).where(Webhook.workspace_id == workspace_id).order_by(Webhook.created_at.asc())
+    )).scalars().all()
+
+    # Latest delivery per webhook, for the health dot in the list
+    latest = (
+        select(WebhookDelivery.webhook_id, func.max(WebhookDelivery.created_at).label("created_at"))
+        .where(WebhookDelivery.webhook_id.in_([w.id for w in webhooks]))
+        .group_by(WebhookDelivery.webhook_id)
+        .subquery()
+    )
+    rows = (await db.execute(
+        select(WebhookDelivery.webhook_id, WebhookDelivery.created_at, WebhookDelivery.status)
+        .join(latest, (WebhookDelivery.webhook_id == latest.c.webhook_id)
+              & (WebhookDelivery.created_at == latest.c.created_at))
+    )).all()
+    last = {webhook_id: (created_at, status) for webhook_id, created_at, status in rows}
+
+    out = []
+    for w in webhooks:
+        item = WebhookResponse.model_validate(w)
+        if w.id in last:
+            item.last_delivery_at, item.last_delivery_status = last[w.id]
+        out.append(item)
+    return out
+
+
+@router.post("/{workspace_id}/webhooks", response_model=WebhookWithSecret, status_code=201)
+async def create_webhook(
+    workspace_id: str,
+    payload: WebhookCreate,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.ADMIN)
+    await _check_resolves_public(payload.url)
+    secret = generate_webhook_secret()
+    webhook = Webhook(
+        workspace_id=workspace_id,
+        name=payload.name.strip(),
+        url=payload.url,
+        encrypted_secret=encrypt_credential(secret),
+        events=list(dict.fromkeys(payload.events)),
+        failures_only=payload.failures_only,
+        created_by=current_user.id,
+    )
+    db.add(webhook)
+    await db.flush()
+    audit_service.record(
+        db, current_user, "webhook.create", workspace_id=workspace_id,
+        target_type="webhook", target_id=webhook.id, target_name=webhook.name,
+        details={"url": webhook.url, "events": webhook.events},
+    )
+    await db.commit()
+    await db.refresh(webhook)
+    return WebhookWithSecret(**WebhookResponse.model_validate(webhook).model_dump(), secret=secret)
+
+
+@router.patch("/{workspace_id}/webhooks/{webhook_id}", response_model=WebhookResponse)
+async def update_webhook(
+    workspace_id: str,
+    webhook_id: str,
+    payload: WebhookUpdate,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    webhook = await _get_webhook(workspace_id, webhook_id, current_user, db)
+    updates = payload.model_dump(exclude_unset=True)
+    if "name" in updates:
+        updates["name"] = updates["name"].strip()
+    if updates.get("url"):
+        await _check_resolves_public(updates["url"])
+    if "events" in updates:
+        updates["events"] = list(dict.fromkeys(updates["events"]))
+    for field, value in updates.items():
+        setattr(webhook, field, value)
+    if updates:
+        audit_service.record(
+            db, current_user, "webhook.update", workspace_id=workspace_id,
+            target_type="webhook", target_id=webhook.id, target_name=webhook.name, details=updates,
+        )
+    await db.commit()
+    await db.refresh(webhook)
+    if webhook.is_active:
+        # A re-enabled webhook drains the queue it built up while paused
+        wake_dispatcher()
+    return WebhookResponse.model_validate(webhook)
+
+
+@router.delete("/{workspace_id}/webhooks/{webhook_id}", status_code=204)
+async def delete_webhook(
+    workspace_id: str,
+    webhook_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    webhook = await _get_webhook(workspace_id, webhook_id, current_user, db)
+    audit_service.record(
+        db, current_user, "webhook.delete", workspace_id=workspace_id,
+        target_type="webhook", target_id=webhook.id, target_name=webhook.name, details={"url": webhook.url},
+    )
+    await db.delete(webhook)
+    await db.commit()
+
+
+@router.post("/{workspace_id}/webhooks/{webhook_id}/rotate-secret", response_model=WebhookWithSecret)
+async def rotate_webhook_secret(
+    workspace_id: str,
+    webhook_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """Replace the signing secret. Pending retries are signed with the new one."""
+    webhook = await _get_webhook(workspace_id, webhook_id, current_user, db)
+    secret = generate_webhook_secret()
+    webhook.encrypted_secret = encrypt_credential(secret)
+    audit_service.record(
+        db, current_user, "webhook.rotate_secret", workspace_id=workspace_id,
+        target_type="webhook", target_id=webhook.id, target_name=webhook.name,
+    )
+    await db.commit()
+    await db.refresh(webhook)
+    return WebhookWithSecret(**WebhookResponse.model_validate(webhook).model_dump(), secret=secret)
+
+
+@router.post("/{workspace_id}/webhooks/{webhook_id}/test", response_model=WebhookDeliveryResponse, status_code=201)
+async def test_webhook(
+    workspace_id: str,
+    webhook_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """Queue a `ping` delivery so the receiver can check the signature end to end."""
+    webhook = await _get_webhook(workspace_id, webhook_id, current_user, db)
+    workspace = await db.get(Workspace, workspace_id)
+    payload = build_payload(PING_EVENT, workspace, None, {"message": f"Test delivery for webhook '{webhook.name}'"}, None)
+    delivery = queue_delivery(db, webhook, payload)
+    await db.commit()
+    await db.refresh(delivery)
+    wake_dispatcher()
+    return WebhookDeliveryResponse.model_validate(delivery)
+
+
+@router.get("/{workspace_id}/webhooks/{webhook_id}/deliveries", response_model=list[WebhookDeliveryResponse])
+async def list_webhook_deliveries(
+    workspace_id: str,
+    webhook_id: str,
+    status: str | None = Query(None, pattern="^(pending|delivered|failed)$"),
+    limit: int = Query(50, ge=1, le=200),
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await _get_webhook(workspace_id, webhook_id, current_user, db)
+    q = select(WebhookDelivery).where(WebhookDelivery.webhook_id == webhook_id)
+    if status:
+        q = q.where(WebhookDelivery.status == status)
+    result = await db.execute(q.order_by(WebhookDelivery.created_at.desc()).limit(limit))
+    return [WebhookDeliveryResponse.model_validate(d) for d in result.scalars().all()]
+
+
+@router.post(
+    "/{workspace_id}/webhooks/{webhook_id}/deliveries/{delivery_id}/redeliver",
+    response_model=WebhookDeliveryResponse, status_code=201,
+)
+async def redeliver_webhook_delivery(
+    workspace_id: str,
+    webhook_id: str,
+    delivery_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """Send a past payload again as a new delivery with the same event `id`."""
+    webhook = await _get_webhook(workspace_id, webhook_id, current_user, db)
+    original = await db.get(WebhookDelivery, delivery_id)
+    if not original or original.webhook_id != webhook.id:
+        raise HTTPException(status_code=404, detail="Delivery not found")
+    delivery = queue_delivery(db, webhook, original.payload, redelivery_of=original.id)
+    await db.commit()
+    await db.refresh(delivery)
+    wake_dispatcher()
+    return WebhookDeliveryResponse.model_validate(delivery)
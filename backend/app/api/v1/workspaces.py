@@ -7,35 +7,51 @@ import uuid
 
 from app.db.session import get_db
 from app.db.models import (
-    User, Workspace, WorkspaceMember, WorkspaceRole, Application,
+    User, Workspace, WorkspaceMember, WorkspaceInvite, WorkspaceRole, Application,
     Environment, Credential, EnvironmentType,
     Scenario, ExecutionRun, ApplicationModule, ExploreSession, ExploreStatus,
 )
-from app.core.dependencies import get_current_user, get_workspace_access
+from app.core.dependencies import (
+    ROLE_RANK, api_token_workspace, effective_role, get_current_user, get_workspace_access,
+)
 from app.schemas.workspace import (
     WorkspaceCreate, WorkspaceUpdate, WorkspaceResponse,
     ApplicationCreate, ApplicationResponse,
     EnvironmentCreate, EnvironmentResponse,
-    MemberInvite,
+    MemberInvite, MemberRoleUpdate, MemberResponse, InviteResponse, MemberInviteResult,
 )
 from app.core.security import encrypt_credential
+from app.services import audit_service
+from app.services.member_service import (
+    find_user_by_email, invite_url, member_counts, normalize_email, owner_count,
+)
 
 router = APIRouter()
 
 
+def _workspace_response(ws: Workspace, role: WorkspaceRole | None, member_count: int) -> WorkspaceResponse:
+    response = WorkspaceResponse.model_validate(ws)
+    response.role = role
+    response.member_count = member_count
+    return response
+
+
 @router.get("", response_model=list[WorkspaceResponse])
 async def list_workspaces(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
-    result = await db.execute(
-        select(Workspace)
+    query = (
+        select(Workspace, WorkspaceMember)
         .join(WorkspaceMember, Workspace.id == WorkspaceMember.workspace_id)
         .where(WorkspaceMember.user_id == current_user.id)
         .order_by(Workspace.created_at.desc())
     )
-    workspaces = result.scalars().all()
-    return [WorkspaceResponse.model_validate(w) for w in workspaces]
+    if scoped_to := api_token_workspace(current_user):
+        query = query.where(Workspace.id == scoped_to)
+    rows = (await db.execute(query)).all()
+    counts = await member_counts(db, [w.id for w, _ in rows])
+    return [_workspace_response(w, effective_role(m, current_user), counts.get(w.id, 0)) for w, m in rows]
 
 
 @router.post("", response_model=WorkspaceResponse, status_code=status.HTTP_201_CREATED)
@@ -51,7 +67,7 @@ async def create_workspace(
     member = WorkspaceMember(workspace_id=workspace.id, user_id=current_user.id, role=WorkspaceRole.OWNER)
     db.add(member)
     await db.commit()
-    return WorkspaceResponse.model_validate(workspace)
+    return _workspace_response(workspace, WorkspaceRole.OWNER, 1)
 
 
 @router.get("/{workspace_id}", response_model=WorkspaceResponse)
@@ -60,12 +76,13 @@ async def get_workspace(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
-    await get_workspace_access(workspace_id, current_user, db)
+    member = await get_workspace_access(workspace_id, current_user, db)
     result = await db.execute(select(Workspace).where(Workspace.id == workspace_id))
     ws = result.scalar_one_or_none()
     if not ws:
         raise HTTPException(status_code=404, detail="Workspace not found")
-    return WorkspaceResponse.model_validate(ws)
+    counts = await member_counts(db, [ws.id])
+    return _workspace_response(ws, effective_role(member, current_user), counts.get(ws.id, 0))
 
 
 # â”€â”€â”€ Applications within a Workspace â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
@@ -82,15 +99,7 @@ async def update_workspace(
     ws = ws_result.scalar_one_or_none()
     if not ws:
         raise HTTPException(status_code=404, detail="Workspace not found")
-    member_result = await db.execute(
-        select(WorkspaceMember).where(
-            WorkspaceMember.workspace_id == workspace_id,
-            WorkspaceMember.user_id == current_user.id,
-            WorkspaceMember.role == WorkspaceRole.OWNER,
-        )
-    )
-    if not member_result.scalar_one_or_none():
-        raise HTTPException(status_code=403, detail="Only workspace owners can edit a workspace")
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.OWNER)
     if payload.name is not None:
         ws.name = payload.name.strip()
         ws.slug = slugify(ws.name) or ws.slug
@@ -98,7 +107,8 @@ async def update_workspace(
         ws.description = payload.description
     await db.commit()
     await db.refresh(ws)
-    return WorkspaceResponse.model_validate(ws)
+    counts = await member_counts(db, [ws.id])
+    return _workspace_response(ws, WorkspaceRole.OWNER, counts.get(ws.id, 0))
 
 
 @router.delete("/{workspace_id}", status_code=204)
@@ -108,18 +118,11 @@ async def delete_workspace(
     db: AsyncSession = Depends(get_db),
 ):
     """Permanently delete a workspace and all its data (owner only)."""
-    member_result = await db.execute(
-        select(WorkspaceMember).where(
-            WorkspaceMember.workspace_id == workspace_id,
-            WorkspaceMember.user_id == current_user.id,
-            WorkspaceMember.role == WorkspaceRole.OWNER,
-        )
-    )
-    if not member_result.scalar_one_or_none():
-        raise HTTPException(status_code=403, detail="Only workspace owners can delete a workspace")
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.OWNER)
 
     ws_result = await db.execute(select(Workspace).where(Workspace.id == workspace_id))
-    if not ws_result.scalar_one_or_none():
+    workspace = ws_result.scalar_one_or_none()
+    if not workspace:
         raise HTTPException(status_code=404, detail="Workspace not found")
 
     # Several FKs lack ondelete=CASCADE so PostgreSQL blocks the cascade chain.
@@ -129,6 +132,14 @@ async def delete_workspace(
     )
     app_ids = [row[0] for row in app_ids_result.all()]
 
+    # The trail has no FK to the workspace, so this event survives the delete below
+    audit_service.record(
+        db, current_user, "workspace.delete",
+        workspace_id=workspace_id, target_type="workspace", target_id=workspace_id, target_name=workspace.name,
+        details={"applications": len(app_ids)},
+    )
+    await db.commit()
+
     if app_ids:
         # 1. Break circular FK: applications.knowledge_graph_id → knowledge_graphs
         await db.execute(
@@ -162,6 +173,197 @@ async def delete_workspace(
     await db.execute(sql_delete(Workspace).where(Workspace.id == workspace_id))
     await db.commit()
 
+# ─── Members ──────────────────────────────────────────────────────────────────
+
+def _invite_response(invite: WorkspaceInvite) -> InviteResponse:
+    return InviteResponse.model_validate(invite).model_copy(update={"invite_url": invite_url(invite)})
+
+
+def _member_response(member: WorkspaceMember, user: User, current_user: User) -> MemberResponse:
+    return MemberResponse(
+        id=member.id,
+        user_id=user.id,
+        email=user.email,
+        name=user.name,
+        role=member.role,
+        joined_at=member.joined_at,
+        is_self=user.id == current_user.id,
+    )
+
+
+async def _get_member(workspace_id: str, member_id: str, db: AsyncSession) -> tuple[WorkspaceMember, User]:
+    row = (await db.execute(
+        select(WorkspaceMember, User)
+        .join(User, WorkspaceMember.user_id == User.id)
+        .where(WorkspaceMember.id == member_id, WorkspaceMember.workspace_id == workspace_id)
+    )).first()
+    if not row:
+        raise HTTPException(status_code=404, detail="Member not found")
+    return row[0], row[1]
+
+
+def _check_can_assign(actor: WorkspaceMember, role: WorkspaceRole) -> None:
+    if ROLE_RANK[role] > ROLE_RANK[actor.role]:
+        raise HTTPException(status_code=403, detail=f"Only owners can grant the {role.value} role")
+
+
+@router.get("/{workspace_id}/members", response_model=list[MemberResponse])
+async def list_members(
+    workspace_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await get_workspace_access(workspace_id, current_user, db)
+    rows = (await db.execute(
+        select(WorkspaceMember, User)
+        .join(User, WorkspaceMember.user_id == User.id)
+        .where(WorkspaceMember.workspace_id == workspace_id)
+        .order_by(WorkspaceMember.joined_at.asc())
+    )).all()
+    return [_member_response(m, u, current_user) for m, u in rows]
+
+
+@router.post("/{workspace_id}/members", response_model=MemberInviteResult, status_code=201)
+async def invite_member(
+    workspace_id: str,
+    payload: MemberInvite,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """
+    Add a member by email (admins and owners). Someone who already has an account joins
+    immediately; any other address gets a pending invite, accepted by signing up through
+    its `invite_url`.
+    """
+    actor = await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.ADMIN)
+    _check_can_assign(actor, payload.role)
+    email = normalize_email(payload.email)
+    if "@" not in email:
+        raise HTTPException(status_code=422, detail="Enter a valid email address")
+
+    user = await find_user_by_email(db, email)
+    if user:
+        existing = (await db.execute(
+            select(WorkspaceMember).where(
+                WorkspaceMember.workspace_id == workspace_id, WorkspaceMember.user_id == user.id,
+            )
+        )).scalar_one_or_none()
+        if existing:
+            raise HTTPException(status_code=409, detail=f"{user.email} is already a member")
+        member = WorkspaceMember(workspace_id=workspace_id, user_id=user.id, role=payload.role)
+        db.add(member)
+        audit_service.record(
+            db, current_user, "member.add", workspace_id=workspace_id,
+            target_type="user", target_id=user.id, target_name=user.email, details={"role": payload.role.value},
+        )
+        await db.commit()
+        await db.refresh(member)
+        return MemberInviteResult(member=_member_response(member, user, current_user))
+
+    invite = (await db.execute(
+        select(WorkspaceInvite).where(WorkspaceInvite.workspace_id == workspace_id, WorkspaceInvite.email == email)
+    )).scalar_one_or_none()
+    if invite:
+        # Re-inviting updates the pending role
+        invite.role = payload.role
+    else:
+        invite = WorkspaceInvite(workspace_id=workspace_id, email=email, role=payload.role, invited_by=current_user.id)
+        db.add(invite)
+    audit_service.record(
+        db, current_user, "member.invite", workspace_id=workspace_id,
+        target_type="invite", target_name=email, details={"role": payload.role.value},
+    )
+    await db.commit()
+    await db.refresh(invite)
+    return MemberInviteResult(invite=_invite_response(invite))
+
+
+@router.patch("/{workspace_id}/members/{member_id}", response_model=MemberResponse)
+async def update_member_role(
+    workspace_id: str,
+    member_id: str,
+    payload: MemberRoleUpdate,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    actor = await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.ADMIN)
+    member, user = await _get_member(workspace_id, member_id, db)
+    _check_can_assign(actor, member.role)
+    _check_can_assign(actor, payload.role)
+    if (member.role == WorkspaceRole.OWNER and payload.role != WorkspaceRole.OWNER
+            and await owner_count(db, workspace_id) <= 1):
+        raise HTTPException(status_code=409, detail="A workspace needs at least one owner — promote someone else first")
+    if member.role != payload.role:
+        audit_service.record(
+            db, current_user, "member.role_change", workspace_id=workspace_id,
+            target_type="user", target_id=user.id, target_name=user.email,
+            details={"from": member.role.value, "to": payload.role.value},
+        )
+    member.role = payload.role
+    await db.commit()
+    return _member_response(member, user, current_user)
+
+
+@router.delete("/{workspace_id}/members/{member_id}", status_code=204)
+async def remove_member(
+    workspace_id: str,
+    member_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    """Remove a member (admins and owners), or leave the workspace (anyone, for themselves)."""
+    if api_token_workspace(current_user):
+        raise HTTPException(status_code=403, detail="API tokens can't remove members")
+    actor = await get_workspace_access(workspace_id, current_user, db)
+    member, user = await _get_member(workspace_id, member_id, db)
+    if member.id != actor.id:
+        if ROLE_RANK[actor.role] < ROLE_RANK[WorkspaceRole.ADMIN]:
+            raise HTTPException(status_code=403, detail="Insufficient permissions")
+        _check_can_assign(actor, member.role)
+    if member.role == WorkspaceRole.OWNER and await owner_count(db, workspace_id) <= 1:
+        raise HTTPException(status_code=409, detail="A workspace needs at least one owner — promote someone else first")
+    audit_service.record(
+        db, current_user, "member.remove", workspace_id=workspace_id,
+        target_type="user", target_id=user.id, target_name=user.email,
+        details={"role": member.role.value, "left": member.id == actor.id},
+    )
+    await db.delete(member)
+    await db.commit()
+
+
+@router.get("/{workspace_id}/invites", response_model=list[InviteResponse])
+async def list_invites(
+    workspace_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.ADMIN)
+    invites = (await db.execute(
+        select(WorkspaceInvite)
+        .where(WorkspaceInvite.workspace_id == workspace_id)
+        .order_by(WorkspaceInvite.created_at.desc())
+    )).scalars().all()
+    return [_invite_response(i) for i in invites]
+
+
+@router.delete("/{workspace_id}/invites/{invite_id}", status_code=204)
+async def revoke_invite(
+    workspace_id: str,
+    invite_id: str,
+    current_user: User = Depends(get_current_user),
+    db: AsyncSession = Depends(get_db),
+):
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.ADMIN)
+    invite = await db.get(WorkspaceInvite, invite_id)
+    if not invite or invite.workspace_id != workspace_id:
+        raise HTTPException(status_code=404, detail="Invite not found")
+    audit_service.record(
+        db, current_user, "invite.revoke", workspace_id=workspace_id,
+        target_type="invite", target_id=invite.id, target_name=invite.email,
+    )
+    await db.delete(invite)
+    await db.commit()
+
 
 @router.delete("/{workspace_id}/applications/{app_id}", status_code=204)
 async def delete_application(
@@ -171,21 +373,20 @@ async def delete_application(
     db: AsyncSession = Depends(get_db),
 ):
     """Permanently delete an application and all its data."""
-    member_result = await db.execute(
-        select(WorkspaceMember).where(
-            WorkspaceMember.workspace_id == workspace_id,
-            WorkspaceMember.user_id == current_user.id,
-        )
-    )
-    if not member_result.scalar_one_or_none():
-        raise HTTPException(status_code=403, detail="Access denied")
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.MEMBER)
 
     app_result = await db.execute(
         select(Application).where(Application.id == app_id, Application.workspace_id == workspace_id)
     )
-    if not app_result.scalar_one_or_none():
+    app = app_result.scalar_one_or_none()
+    if not app:
         raise HTTPException(status_code=404, detail="Application not found")
 
+    audit_service.record_for_app(
+        db, current_user, app, "application.delete",
+        target_type="application", target_id=app.id, target_name=app.name, details={"base_url": app.base_url},
+    )
+
     # 1. Break circular FK: application.knowledge_graph_id → knowledge_graphs
     await db.execute(sql_update(Application).where(Application.id == app_id).values(knowledge_graph_id=None))
 
@@ -254,15 +455,7 @@ async def create_application(
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
 ):
-    # Verify workspace access
-    member_result = await db.execute(
-        select(WorkspaceMember).where(
-            WorkspaceMember.workspace_id == workspace_id,
-            WorkspaceMember.user_id == current_user.id,
-        )
-    )
-    if not member_result.scalar_one_or_none():
-        raise HTTPException(status_code=403, detail="No workspace access")
+    await get_workspace_access(workspace_id, current_user, db, min_role=WorkspaceRole.MEMBER)
 
     # Create application
     app = Application(
@@ -1,15 +1,27 @@
 from __future__ import annotations
+from datetime import datetime, timedelta
+
 from fastapi import Depends, HTTPException, status
 from fastapi.security import HTTPBearer, HTTPAuthorizationCredentials
 from sqlalchemy.ext.asyncio import AsyncSession
 from sqlalchemy import select
 
 from app.db.session import get_db
-from app.db.models import User, Workspace, WorkspaceMember, WorkspaceRole, Application, ExecutionRun, Scenario
-from app.core.security import decode_token
+from app.db.models import (
+    User, Workspace, WorkspaceMember, WorkspaceRole, Application, ExecutionRun, Scenario, ApiToken,
+)
+from app.core.security import decode_token, hash_api_token, is_api_token
 
 bearer_scheme = HTTPBearer(auto_error=False)
 
+# Each role can do everything the roles below it can
+ROLE_RANK = {
+    WorkspaceRole.VIEWER: 0,
+    WorkspaceRole.MEMBER: 1,
+    WorkspaceRole.ADMIN: 2,
+    WorkspaceRole.OWNER: 3,
+}
+
 
 async def get_current_user(
     credentials: HTTPAuthorizationCredentials | None = Depends(bearer_scheme),
@@ -17,6 +29,8 @@ async def get_current_user(
 ) -> User:
     if not credentials:
         raise HTTPException(status_code=status.HTTP_401_UNAUTHORIZED, detail="Not authenticated")
+    if is_api_token(credentials.credentials):
+        return await _user_for_api_token(credentials.credentials, db)
     user_id = decode_token(credentials.credentials)
     if not user_id:
         raise HTTPException(status_code=status.HTTP_401_UNAUTHORIZED, detail="Invalid token")
@@ -27,12 +41,69 @@ async def get_current_user(
     return user
 
 
+async def resolve_user(token: str, db: AsyncSession) -> User | None:
+    """The user behind an access or workspace API token, as `get_current_user` sees it; None if invalid."""
+    try:
+        return await get_current_user(HTTPAuthorizationCredentials(scheme="Bearer", credentials=token), db)
+    except HTTPException:
+        return None
+
+
+# The most an API token may be granted, whatever its creator's role
+API_TOKEN_MAX_ROLE = WorkspaceRole.MEMBER
+
+
+# last_used_at is only a hint in the UI; don't write it on every request
+_API_TOKEN_TOUCH_INTERVAL = timedelta(minutes=5)
+
+
+async def resolve_api_token(token: str, db: AsyncSession) -> ApiToken | None:
+    result = await db.execute(select(ApiToken).where(ApiToken.token_hash == hash_api_token(token)))
+    return result.scalar_one_or_none()
+
+
+async def _user_for_api_token(token: str, db: AsyncSession) -> User:
+    """
+    The token's creator, marked with `api_token_workspace_id` and `api_token_role` so
+    that `get_workspace_access` confines the request to the token's workspace and role.
+    """
+    api_token = await resolve_api_token(token, db)
+    if not api_token:
+        raise HTTPException(status_code=status.HTTP_401_UNAUTHORIZED, detail="Invalid API token")
+    result = await db.execute(select(User).where(User.id == api_token.created_by, User.is_active == True))
+    user = result.scalar_one_or_none()
+    if not user:
+        raise HTTPException(status_code=status.HTTP_401_UNAUTHORIZED, detail="User not found")
+    now = datetime.utcnow()
+    if not api_token.last_used_at or now - api_token.last_used_at > _API_TOKEN_TOUCH_INTERVAL:
+        api_token.last_used_at = now
+    user.api_token_workspace_id = api_token.workspace_id
+    user.api_token_role = api_token.role
+    return user
+
+
+def api_token_workspace(user: User) -> str | None:
+    """Workspace the request's API token is scoped to; None for interactive sessions."""
+    return getattr(user, "api_token_workspace_id", None)
+
+
+def effective_role(member: WorkspaceMember, user: User) -> WorkspaceRole:
+    """The member's role, capped at the API token's role when the request uses one."""
+    token_role = getattr(user, "api_token_role", None)
+    if token_role and ROLE_RANK[token_role] < ROLE_RANK[member.role]:
+        return token_role
+    return member.role
+
+
 async def get_workspace_access(
     workspace_id: str,
     current_user: User = Depends(get_current_user),
     db: AsyncSession = Depends(get_db),
     min_role: WorkspaceRole = WorkspaceRole.VIEWER,
 ) -> WorkspaceMember:
+    scoped_to = api_token_workspace(current_user)
+    if scoped_to and scoped_to != workspace_id:
+        raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail="API token is not valid for this workspace")
     result = await db.execute(
         select(WorkspaceMember).where(
             WorkspaceMember.workspace_id == workspace_id,
@@ -42,13 +113,7 @@ async def get_workspace_access(
     member = result.scalar_one_or_none()
     if not member:
         raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail="No workspace access")
-    role_hierarchy = {
-        WorkspaceRole.VIEWER: 0,
-        WorkspaceRole.MEMBER: 1,
-        WorkspaceRole.ADMIN: 2,
-        WorkspaceRole.OWNER: 3,
-    }
-    if role_hierarchy[member.role] < role_hierarchy[min_role]:
+    if ROLE_RANK[effective_role(member, current_user)] < ROLE_RANK[min_role]:
         raise HTTPException(status_code=status.HTTP_403_FORBIDDEN, detail="Insufficient permissions")
     return member
 
@@ -57,13 +122,14 @@ async def require_app_access(
     application_id: str,
     current_user: User,
     db: AsyncSession,
+    min_role: WorkspaceRole = WorkspaceRole.VIEWER,
 ) -> Application:
-    """Load an Application and verify the current user is a member of its workspace."""
+    """Load an Application and verify the current user has `min_role` in its workspace."""
     app_row = await db.execute(select(Application).where(Application.id == application_id))
     app = app_row.scalar_one_or_none()
     if not app:
         raise HTTPException(status_code=404, detail="Application not found")
-    await get_workspace_access(app.workspace_id, current_user, db)
+    await get_workspace_access(app.workspace_id, current_user, db, min_role=min_role)
     return app
 
 
@@ -71,8 +137,9 @@ async def require_run_access(
     run_id: str,
     current_user: User,
     db: AsyncSession,
+    min_role: WorkspaceRole = WorkspaceRole.VIEWER,
 ) -> ExecutionRun:
-    """Load an ExecutionRun and verify the current user is a member of its workspace."""
+    """Load an ExecutionRun and verify the current user has `min_role` in its workspace."""
     run_row = await db.execute(select(ExecutionRun).where(ExecutionRun.id == run_id))
     run = run_row.scalar_one_or_none()
     if not run:
@@ -80,5 +147,5 @@ async def require_run_access(
     scenario_row = await db.execute(select(Scenario).where(Scenario.id == run.scenario_id))
     scenario = scenario_row.scalar_one_or_none()
     if scenario:
-        await require_app_access(scenario.application_id, current_user, db)
+        await require_app_access(scenario.application_id, current_user, db, min_role=min_role)
     return run
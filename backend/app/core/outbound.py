@@ -0,0 +1,104 @@
+"""
+Outbound HTTP to user-configured URLs (webhooks, generic defect trackers).
+
+Such URLs must not reach the server's own network: loopback, private (RFC 1918 /
+ULA), link-local (incl. the 169.254.169.254 cloud metadata endpoint), shared,
+reserved and unspecified addresses are rejected. `check_outbound_url` is the cheap
+syntax check for request schemas; `assert_public_url` resolves the host when a URL
+is saved; `post_public` resolves it again at send time and connects to the checked
+address, so a DNS record flipped after the check (rebinding) can't redirect the
+request. Redirects are never followed.
+"""
+from __future__ import annotations
+import asyncio
+import ipaddress
+import socket
+from dataclasses import dataclass
+from urllib.parse import urlsplit, urlunsplit
+
+import httpx
+
+_DEFAULT_PORTS = {"http": 80, "https": 443}
+
+
+class UnsafeUrlError(ValueError):
+    """The URL is malformed or points at a non-public address."""
+
+
+@dataclass
+class _PinnedUrl:
+    url: str            # the URL with its host replaced by the checked IP
+    host_header: str    # the original host[:port], sent as Host
+    hostname: str       # the original host name, used for TLS SNI and certificate checks
+
+
+def _is_public(ip: ipaddress.IPv4Address | ipaddress.IPv6Address) -> bool:
+    if isinstance(ip, ipaddress.IPv6Address) and ip.ipv4_mapped:
+        ip = ip.ipv4_mapped
+    return ip.is_global and not ip.is_multicast
+
+
+def check_outbound_url(url: str, label: str = "URL") -> str:
+    """Normalise a user-supplied URL; raise UnsafeUrlError for a bad scheme or a non-public IP literal."""
+    url = url.strip()
+    parts = urlsplit(url)
+    if parts.scheme not in _DEFAULT_PORTS:
+        raise UnsafeUrlError(f"{label} must start with http:// or https://")
+    if not parts.hostname:
+        raise UnsafeUrlError(f"{label} must include a host")
+    try:
+        parts.port
+    except ValueError:
+        raise UnsafeUrlError(f"{label} has an invalid port")
+    try:
+        literal = ipaddress.ip_address(parts.hostname)
+    except ValueError:
+        literal = None
+    if literal is not None and not _is_public(literal):
+        raise UnsafeUrlError(f"{label} must not point at a private or internal address")
+    if parts.hostname.rstrip(".").lower() == "localhost" or parts.hostname.lower().endswith(".localhost"):
+        raise UnsafeUrlError(f"{label} must not point at a private or internal address")
+    return url
+
+
+async def _resolve(url: str, label: str) -> _PinnedUrl:
+    check_outbound_url(url, label)
+    parts = urlsplit(url)
+    hostname = parts.hostname
+    port = parts.port or _DEFAULT_PORTS[parts.scheme]
+    try:
+        infos = await asyncio.get_running_loop().getaddrinfo(hostname, port, type=socket.SOCK_STREAM)
+    except socket.gaierror:
+        raise UnsafeUrlError(f"{label} host '{hostname}' does not resolve")
+    addresses = [ipaddress.ip_address(info[4][0]) for info in infos]
+    # Every record must be public — otherwise the connection could pick an internal one
+    if not addresses or not all(_is_public(ip) for ip in addresses):
+        raise UnsafeUrlError(f"{label} must not point at a private or internal address")
+
+    ip = addresses[0]
+    netloc = f"[{ip}]" if ip.version == 6 else str(ip)
+    if parts.port:
+        netloc += f":{parts.port}"
+    userinfo, _, host_header = parts.netloc.rpartition("@")
+    if userinfo:
+        netloc = f"{userinfo}@{netloc}"
+    return _PinnedUrl(urlunsplit(parts._replace(netloc=netloc)), host_header, hostname)
+
+
+async def assert_public_url(url: str, label: str = "URL") -> str:
+    """`check_outbound_url` plus a DNS lookup: every address the host resolves to must be public."""
+    await _resolve(url, label)
+    return url.strip()
+
+
+async def post_public(url: str, *, content: bytes, headers: dict[str, str], timeout: float,
+                      label: str = "URL") -> httpx.Response:
+    """POST to `url` after re-checking where it resolves, pinned to that address. Redirects are not followed."""
+    pinned = await _resolve(url, label)
+    async with httpx.AsyncClient(timeout=timeout, follow_redirects=False) as client:
+        return await client.post(
+            pinned.url,
+            content=content,
+            headers={**headers, "Host": pinned.host_header},
+            extensions={"sni_hostname": pinned.hostname},
+        )
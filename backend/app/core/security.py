@@ -1,4 +1,7 @@
 from __future__ import annotations
+import hashlib
+import secrets
+import uuid
 from datetime import datetime, timedelta
 from typing import Any, Optional
 
@@ -40,18 +43,76 @@ def verify_password(plain: str, hashed: str) -> bool:
 
 def create_access_token(subject: Optional[Any], expires_delta: Optional[timedelta] = None) -> str:
     expire = datetime.utcnow() + (expires_delta or timedelta(minutes=settings.ACCESS_TOKEN_EXPIRE_MINUTES))
-    payload = {"exp": expire, "sub": str(subject)}
+    payload = {"exp": expire, "sub": str(subject), "type": "access"}
     return jwt.encode(payload, settings.SECRET_KEY, algorithm=settings.ALGORITHM)
 
 
+def create_refresh_token(subject: Any) -> tuple[str, str, datetime]:
+    """Returns (token, jti, expires_at). The jti must be persisted as a RefreshToken row."""
+    jti = uuid.uuid4().hex
+    expire = datetime.utcnow() + timedelta(days=settings.REFRESH_TOKEN_EXPIRE_DAYS)
+    payload = {"exp": expire, "sub": str(subject), "type": "refresh", "jti": jti}
+    return jwt.encode(payload, settings.SECRET_KEY, algorithm=settings.ALGORITHM), jti, expire
+
+
 def decode_token(token: str) -> Optional[str]:
+    """Subject of a valid access token. Tokens minted before the `type` claim count as access tokens."""
     try:
         payload = jwt.decode(token, settings.SECRET_KEY, algorithms=[settings.ALGORITHM])
+        if payload.get("type", "access") != "access":
+            return None
         return payload.get("sub")
     except JWTError:
         return None
 
 
+def decode_refresh_token(token: str) -> Optional[tuple[str, str]]:
+    """(subject, jti) of a well-formed, unexpired refresh token; revocation is checked by the caller."""
+    try:
+        payload = jwt.decode(token, settings.SECRET_KEY, algorithms=[settings.ALGORITHM])
+    except JWTError:
+        return None
+    if payload.get("type") != "refresh" or not payload.get("sub") or not payload.get("jti"):
+        return None
+    return payload["sub"], payload["jti"]
+
+
+def create_invite_token(invite_id: str, email: str) -> str:
+    """Signed token for an invite link; only whoever holds it can accept the invite at sign-up."""
+    expire = datetime.utcnow() + timedelta(days=settings.INVITE_TOKEN_EXPIRE_DAYS)
+    payload = {"exp": expire, "sub": invite_id, "email": email, "type": "invite"}
+    return jwt.encode(payload, settings.SECRET_KEY, algorithm=settings.ALGORITHM)
+
+
+def decode_invite_token(token: str) -> Optional[tuple[str, str]]:
+    """(invite id, invited email) of a well-formed, unexpired invite token."""
+    try:
+        payload = jwt.decode(token, settings.SECRET_KEY, algorithms=[settings.ALGORITHM])
+    except JWTError:
+        return None
+    if payload.get("type") != "invite" or not payload.get("sub") or not payload.get("email"):
+        return None
+    return payload["sub"], payload["email"]
+
+
+# Workspace API tokens are opaque random strings, told apart from JWTs by this prefix
+API_TOKEN_PREFIX = "qapt_"
+
+
+def generate_api_token() -> tuple[str, str, str]:
+    """Returns (token, sha256 hash, display prefix). Only the hash is persisted."""
+    token = API_TOKEN_PREFIX + secrets.token_urlsafe(32)
+    return token, hash_api_token(token), token[:12]
+
+
+def hash_api_token(token: str) -> str:
+    return hashlib.sha256(token.encode()).hexdigest()
+
+
+def is_api_token(token: str) -> bool:
+    return token.startswith(API_TOKEN_PREFIX)
+
+
 def encrypt_credential(value: str) -> str:
     return _get_fernet().encrypt(value.encode()).decode()
 
@@ -120,6 +120,47 @@ class User(Base):
     memberships = relationship("WorkspaceMember", back_populates="user")
 
 
+class RefreshToken(Base):
+    """
+    One issued refresh token, identified by the JWT's `jti`.
+
+    Tokens are single-use: each refresh revokes the presented token and issues a
+    replacement. Presenting an already-revoked token means it leaked, so the whole
+    family for that user is revoked.
+    """
+    __tablename__ = "refresh_tokens"
+
+    id = Column(String, primary_key=True)           # jti claim
+    user_id = Column(String, ForeignKey("users.id", ondelete="CASCADE"), nullable=False, index=True)
+    expires_at = Column(DateTime, nullable=False)
+    revoked_at = Column(DateTime)
+    replaced_by = Column(String)                    # jti of the token issued in exchange
+    created_at = Column(DateTime, default=_now)
+
+
+class ApiToken(Base):
+    """
+    Long-lived, workspace-scoped credential for headless clients (CI, the CLI).
+
+    Only the SHA-256 of the secret is stored; the plaintext is shown once at creation.
+    A request carrying the token acts as `created_by` but may only reach this
+    workspace, with at most `role` (VIEWER or MEMBER) however senior its creator is
+    (both enforced in `get_workspace_access`). It stops working as soon as its
+    creator leaves the workspace.
+    """
+    __tablename__ = "api_tokens"
+
+    id = Column(String, primary_key=True, default=_uuid)
+    workspace_id = Column(String, ForeignKey("workspaces.id", ondelete="CASCADE"), nullable=False, index=True)
+    name = Column(String(255), nullable=False)
+    token_hash = Column(String(64), nullable=False, unique=True)
+    token_prefix = Column(String(16), nullable=False)  # shown in the UI to tell tokens apart
+    role = Column(Enum(WorkspaceRole), nullable=False, default=WorkspaceRole.MEMBER)
+    created_by = Column(String, ForeignKey("users.id", ondelete="CASCADE"), nullable=False)
+    created_at = Column(DateTime, default=_now)
+    last_used_at = Column(DateTime)
+
+
 class Workspace(Base):
     __tablename__ = "workspaces"
 
@@ -149,6 +190,22 @@ class WorkspaceMember(Base):
     user = relationship("User", back_populates="memberships")
 
 
+class WorkspaceInvite(Base):
+    """
+    A pending invitation for an email address without an account yet. It becomes a
+    WorkspaceMember with `role` when that address signs up through the invite link.
+    """
+    __tablename__ = "workspace_invites"
+    __table_args__ = (UniqueConstraint("workspace_id", "email"),)
+
+    id = Column(String, primary_key=True, default=_uuid)
+    workspace_id = Column(String, ForeignKey("workspaces.id", ondelete="CASCADE"), nullable=False, index=True)
+    email = Column(String(255), nullable=False, index=True)  # stored lowercased
+    role = Column(Enum(WorkspaceRole), default=WorkspaceRole.MEMBER)
+    invited_by = Column(String, ForeignKey("users.id"), nullable=True)
+    created_at = Column(DateTime, default=_now)
+
+
 # ─── Application & Configuration ──────────────────────────────────────────────
 
 class Application(Base):
@@ -449,6 +506,11 @@ class Scenario(Base):
     external_id = Column(String(512))  # Jira/TestRail ID
     is_active = Column(Boolean, default=True)
     is_smoke = Column(Boolean, default=False)  # smoke tests always run first as sanity checks
+    # Quarantine: still runs, but its runs are left out of quality score / pass-rate rollups
+    is_quarantined = Column(Boolean, default=False)
+    quarantined_at = Column(DateTime)
+    quarantine_reason = Column(Text)
+    quarantine_pass_streak = Column(Integer, default=0)  # consecutive passes while quarantined
     created_by = Column(String, ForeignKey("users.id"))
     created_at = Column(DateTime, default=_now)
     updated_at = Column(DateTime, default=_now, onupdate=_now)
@@ -654,3 +716,271 @@ class TestDataset(Base):
     updated_at = Column(DateTime, default=_now, onupdate=_now)
 
     application = relationship("Application", backref="test_datasets")
+
+
+class BatchSchedule(Base):
+    """
+    Cron-style recurring batch run of a fixed set of scenarios — or of a saved
+    TestSuite, resolved at each firing — against one environment.
+
+    The scheduler loop (app/jobs/schedule_job.py) claims due rows by advancing
+    `next_run_at`, then launches an ordinary batch whose runs carry `schedule_id`
+    in `browser_metadata` so they show up in batch history like any "Run All".
+    """
+    __tablename__ = "batch_schedules"
+
+    id = Column(String, primary_key=True, default=_uuid)
+    application_id = Column(String, ForeignKey("applications.id", ondelete="CASCADE"), nullable=False, index=True)
+    environment_id = Column(String, ForeignKey("environments.id", ondelete="CASCADE"), nullable=False)
+    name = Column(String(255), nullable=False)
+    cron_expression = Column(String(120), nullable=False)   # 5-field cron, e.g. "0 2 * * *"
+    timezone = Column(String(64), default="UTC")             # IANA zone the cron is evaluated in
+    scenario_ids = Column(JSON, nullable=False, default=list)
+    suite_id = Column(String, ForeignKey("test_suites.id", ondelete="CASCADE"), nullable=True)  # replaces scenario_ids when set
+    execution_mode = Column(String(50), default="functional")
+    is_paused = Column(Boolean, default=False)
+    next_run_at = Column(DateTime, index=True)               # UTC; null while paused
+    last_run_at = Column(DateTime)
+    last_batch_id = Column(String)
+    last_status = Column(String(50))                         # started | skipped | failed
+    last_error = Column(Text)
+    created_by = Column(String, ForeignKey("users.id"), nullable=True)
+    created_at = Column(DateTime, default=_now)
+    updated_at = Column(DateTime, default=_now, onupdate=_now)
+
+    application = relationship("Application", backref="batch_schedules")
+    environment = relationship("Environment")
+    suite = relationship("TestSuite")
+
+
+class TestSuite(Base):
+    """
+    Named, versioned set of scenarios to run together.
+
+    `kind="explicit"` pins `scenario_ids`; `kind="query"` stores a filter in `query`
+    ({priorities, tags, module_ids, smoke_only}) that is resolved against the live
+    scenario table each time the suite runs. Every definition change bumps `version`
+    and snapshots the new definition in TestSuiteVersion, so batch history can say
+    which revision of a suite produced a given batch.
+    """
+    __tablename__ = "test_suites"
+
+    id = Column(String, primary_key=True, default=_uuid)
+    application_id = Column(String, ForeignKey("applications.id", ondelete="CASCADE"), nullable=False, index=True)
+    name = Column(String(255), nullable=False)
+    description = Column(Text)
+    kind = Column(String(20), nullable=False, default="explicit")  # explicit | query
+    scenario_ids = Column(JSON, nullable=False, default=list)
+    query = Column(JSON, nullable=True)
+    version = Column(Integer, nullable=False, default=1)
+    created_by = Column(String, ForeignKey("users.id"), nullable=True)
+    created_at = Column(DateTime, default=_now)
+    updated_at = Column(DateTime, default=_now, onupdate=_now)
+
+    application = relationship("Application", backref="test_suites")
+    versions = relationship("TestSuiteVersion", back_populates="suite", cascade="all, delete-orphan",
+                            order_by="TestSuiteVersion.version.desc()")
+
+
+class TestSuiteVersion(Base):
+    """Immutable snapshot of a suite definition, one row per version."""
+    __tablename__ = "test_suite_versions"
+    __table_args__ = (UniqueConstraint("suite_id", "version"),)
+
+    id = Column(String, primary_key=True, default=_uuid)
+    suite_id = Column(String, ForeignKey("test_suites.id", ondelete="CASCADE"), nullable=False, index=True)
+    version = Column(Integer, nullable=False)
+    kind = Column(String(20), nullable=False)
+    scenario_ids = Column(JSON, nullable=False, default=list)
+    query = Column(JSON, nullable=True)
+    created_by = Column(String, ForeignKey("users.id"), nullable=True)
+    created_at = Column(DateTime, default=_now)
+
+    suite = relationship("TestSuite", back_populates="versions")
+
+
+class Webhook(Base):
+    """
+    Outbound HTTP endpoint notified of run, batch and explore lifecycle events.
+
+    Payloads are signed with `secret` (stored encrypted — it has to be recovered to
+    sign) and queued as WebhookDelivery rows, which the dispatcher in
+    app/jobs/webhook_job.py sends and retries.
+    """
+    __tablename__ = "webhooks"
+
+    id = Column(String, primary_key=True, default=_uuid)
+    workspace_id = Column(String, ForeignKey("workspaces.id", ondelete="CASCADE"), nullable=False, index=True)
+    name = Column(String(255), nullable=False)
+    url = Column(String(2048), nullable=False)
+    encrypted_secret = Column(Text, nullable=False)
+    events = Column(JSON, nullable=False, default=list)      # subset of WEBHOOK_EVENTS
+    failures_only = Column(Boolean, default=False)           # skip passing runs and clean batches
+    is_active = Column(Boolean, default=True)
+    created_by = Column(String, ForeignKey("users.id"), nullable=True)
+    created_at = Column(DateTime, default=_now)
+    updated_at = Column(DateTime, default=_now, onupdate=_now)
+
+    deliveries = relationship("WebhookDelivery", back_populates="webhook", cascade="all, delete-orphan")
+
+
+class WebhookDelivery(Base):
+    """
+    One attempt-tracked send of one event to one webhook. A redelivery is a new row
+    with the same `event_id`, so receivers can deduplicate on it.
+    """
+    __tablename__ = "webhook_deliveries"
+    __table_args__ = (
+        Index("ix_webhook_deliveries_webhook_created", "webhook_id", "created_at"),
+    )
+
+    id = Column(String, primary_key=True, default=_uuid)
+    webhook_id = Column(String, ForeignKey("webhooks.id", ondelete="CASCADE"), nullable=False)
+    event = Column(String(64), nullable=False)
+    event_id = Column(String, nullable=False)
+    payload = Column(JSON, nullable=False)
+    status = Column(String(20), nullable=False, default="pending")  # pending | delivered | failed
+    attempts = Column(Integer, default=0)
+    next_attempt_at = Column(DateTime, index=True)           # UTC; null once delivered or given up
+    response_status = Column(Integer)
+    response_body = Column(Text)                             # truncated
+    error = Column(Text)
+    duration_ms = Column(Integer)
+    redelivery_of = Column(String, nullable=True)            # delivery id this one re-sends
+    created_at = Column(DateTime, default=_now)
+    delivered_at = Column(DateTime)
+
+    webhook = relationship("Webhook", back_populates="deliveries")
+
+
+class DefectTracker(Base):
+    """
+    A workspace's issue tracker. `kind` picks the adapter in app/defects; `config`
+    holds its non-secret settings (e.g. the endpoint URL) and `encrypted_secret`
+    the credential it signs or authenticates with.
+    """
+    __tablename__ = "defect_trackers"
+
+    id = Column(String, primary_key=True, default=_uuid)
+    workspace_id = Column(String, ForeignKey("workspaces.id", ondelete="CASCADE"), nullable=False, unique=True)
+    kind = Column(String(50), nullable=False, default="webhook")
+    name = Column(String(255), nullable=False)
+    config = Column(JSON, nullable=False, default=dict)
+    encrypted_secret = Column(Text)
+    auto_file = Column(Boolean, default=False)               # file on every non-quarantined failure
+    is_active = Column(Boolean, default=True)
+    created_by = Column(String, ForeignKey("users.id"), nullable=True)
+    created_at = Column(DateTime, default=_now)
+    updated_at = Column(DateTime, default=_now, onupdate=_now)
+
+
+class DefectLink(Base):
+    """
+    A defect filed in the tracker for a scenario. While it is open, further failing
+    runs of the scenario are attached to it (DefectOccurrence) instead of filing a
+    duplicate; resolving it lets the next failure file a fresh defect.
+    """
+    __tablename__ = "defect_links"
+
+    id = Column(String, primary_key=True, default=_uuid)
+    scenario_id = Column(String, ForeignKey("scenarios.id", ondelete="CASCADE"), nullable=False, index=True)
+    tracker_id = Column(String, ForeignKey("defect_trackers.id", ondelete="SET NULL"), nullable=True)
+    defect_key = Column(String(255), nullable=False)
+    defect_url = Column(String(2048))
+    title = Column(String(500), nullable=False)
+    status = Column(String(20), nullable=False, default="open")  # open | resolved
+    occurrences = Column(Integer, default=1)
+    first_run_id = Column(String, nullable=False)
+    last_run_id = Column(String, nullable=False)
+    created_by = Column(String, ForeignKey("users.id"), nullable=True)  # null when auto-filed
+    created_at = Column(DateTime, default=_now)
+    updated_at = Column(DateTime, default=_now, onupdate=_now)
+    resolved_at = Column(DateTime)
+
+    occurrence_runs = relationship("DefectOccurrence", back_populates="defect", cascade="all, delete-orphan")
+
+
+class DefectOccurrence(Base):
+    """A failing run recorded against a DefectLink — at most one defect per run."""
+    __tablename__ = "defect_occurrences"
+
+    id = Column(String, primary_key=True, default=_uuid)
+    defect_id = Column(String, ForeignKey("defect_links.id", ondelete="CASCADE"), nullable=False, index=True)
+    run_id = Column(String, ForeignKey("execution_runs.id", ondelete="CASCADE"), nullable=False, unique=True)
+    created_at = Column(DateTime, default=_now)
+
+    defect = relationship("DefectLink", back_populates="occurrence_runs")
+
+
+class AuditEvent(Base):
+    """
+    One destructive or security-sensitive action, recorded in the same transaction as
+    the change. The trail is append-only (the migration installs a trigger rejecting
+    UPDATE and DELETE) and has no foreign keys: actor and target are copied in by id
+    and display name so events outlive the users, applications and workspaces they
+    mention.
+    """
+    __tablename__ = "audit_events"
+    __table_args__ = (
+        Index("ix_audit_events_workspace_created", "workspace_id", "created_at"),
+    )
+
+    id = Column(String, primary_key=True, default=_uuid)
+    workspace_id = Column(String, nullable=False)
+    application_id = Column(String, nullable=True)
+    actor_id = Column(String, nullable=True)                 # null for system actions
+    actor_email = Column(String(255))
+    actor_name = Column(String(255))
+    via_api_token = Column(Boolean, default=False)
+    action = Column(String(64), nullable=False)              # see app/services/audit_service.py
+    target_type = Column(String(50))
+    target_id = Column(String)
+    target_name = Column(String(500))
+    details = Column(JSON, nullable=False, default=dict)
+    created_at = Column(DateTime, default=_now, nullable=False)
+
+
+class DriftPolicy(Base):
+    """
+    Per-application rule that turns selector drift into action. When a module's drift
+    reaches `min_severity` over at least `min_runs` KG-based runs, the drift loop
+    (app/jobs/drift_job.py) re-explores just that module and, with `replan_scenarios`,
+    rebuilds the plans of its KG-backed scenarios from the fresh graph.
+    """
+    __tablename__ = "drift_policies"
+
+    id = Column(String, primary_key=True, default=_uuid)
+    application_id = Column(String, ForeignKey("applications.id", ondelete="CASCADE"), nullable=False, unique=True)
+    is_enabled = Column(Boolean, default=False)
+    min_severity = Column(String(20), default="high")        # high | medium
+    min_runs = Column(Integer, default=5)                    # KG-based runs since the module was last re-explored
+    replan_scenarios = Column(Boolean, default=True)
+    cooldown_hours = Column(Integer, default=24)             # per module, between two triggers
+    updated_by = Column(String, ForeignKey("users.id"), nullable=True)
+    created_at = Column(DateTime, default=_now)
+    updated_at = Column(DateTime, default=_now, onupdate=_now)
+
+
+class DriftPolicyEvent(Base):
+    """
+    One step the drift policy took for a module — the activity feed under Settings.
+    Module id and name are copied in so events outlive a full re-exploration that
+    replaces the module rows.
+    """
+    __tablename__ = "drift_policy_events"
+    __table_args__ = (
+        Index("ix_drift_policy_events_app_created", "application_id", "created_at"),
+    )
+
+    id = Column(String, primary_key=True, default=_uuid)
+    application_id = Column(String, ForeignKey("applications.id", ondelete="CASCADE"), nullable=False)
+    module_id = Column(String)
+    module_name = Column(String(255))
+    action = Column(String(50), nullable=False)              # triggered | reexplored | replanned | failed
+    severity = Column(String(20))
+    fail_rate_pct = Column(Integer)
+    runs_checked = Column(Integer)
+    explore_session_id = Column(String)
+    scenarios_replanned = Column(Integer)
+    detail = Column(Text)
+    created_at = Column(DateTime, default=_now, nullable=False)
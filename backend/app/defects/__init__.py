@@ -0,0 +1,41 @@
+"""
+Defect tracker adapters. Register new trackers in _ADAPTERS; the `kind` stored on
+a DefectTracker row selects the adapter.
+"""
+from __future__ import annotations
+
+from app.core.security import decrypt_credential
+from app.db.models import DefectTracker
+from app.defects.base import FiledDefect, TrackerAdapter, TrackerError
+from app.defects.webhook_tracker import GenericWebhookTracker
+
+_ADAPTERS: dict[str, type[TrackerAdapter]] = {
+    GenericWebhookTracker.kind: GenericWebhookTracker,
+}
+
+
+def adapter_class(kind: str) -> type[TrackerAdapter]:
+    try:
+        return _ADAPTERS[kind]
+    except KeyError:
+        raise ValueError(f"Unknown tracker kind: {kind}") from None
+
+
+def available_trackers() -> list[dict]:
+    return [{"kind": cls.kind, "label": cls.label} for cls in _ADAPTERS.values()]
+
+
+def get_tracker_adapter(tracker: DefectTracker) -> TrackerAdapter:
+    """Instantiate the adapter for a configured tracker; TrackerError if its secret no longer decrypts."""
+    cls = adapter_class(tracker.kind)
+    try:
+        secret = decrypt_credential(tracker.encrypted_secret) if tracker.encrypted_secret else None
+    except Exception as e:
+        raise TrackerError("Tracker secret can no longer be decrypted — re-enter it in Settings") from e
+    return cls(tracker.config or {}, secret)
+
+
+__all__ = [
+    "FiledDefect", "TrackerAdapter", "TrackerError",
+    "adapter_class", "available_trackers", "get_tracker_adapter",
+]
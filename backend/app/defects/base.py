@@ -0,0 +1,51 @@
+"""Abstract base for defect tracker adapters."""
+from __future__ import annotations
+from abc import ABC, abstractmethod
+from dataclasses import dataclass
+from typing import Any
+
+
+class TrackerError(Exception):
+    """The tracker rejected the request or could not be reached."""
+
+
+@dataclass
+class FiledDefect:
+    key: str                 # the tracker's id for the defect, e.g. "QA-142"
+    url: str | None = None   # where a human opens it
+
+
+class TrackerAdapter(ABC):
+    """
+    One issue tracker integration. Adapters are constructed per call from a
+    DefectTracker row's `config` and decrypted secret, and only talk to the
+    tracker — deduplication and bookkeeping live in app/services/defect_service.py.
+
+    `draft` is the dict form of app.schemas.defect.DefectDraft.
+    """
+
+    kind: str = "base"
+    label: str = "Base"
+
+    def __init__(self, config: dict[str, Any], secret: str | None):
+        self.config = config
+        self.secret = secret
+
+    @classmethod
+    def validate_config(cls, config: dict[str, Any]) -> dict[str, Any]:
+        """Normalise user-supplied config; raise ValueError when it's unusable."""
+        return config
+
+    @classmethod
+    async def verify_config(cls, config: dict[str, Any]) -> None:
+        """Checks on validated config that need I/O (e.g. DNS); raise ValueError when it's unusable."""
+
+    @abstractmethod
+    async def create(self, draft: dict) -> FiledDefect:
+        """File a new defect and return its key."""
+        ...
+
+    @abstractmethod
+    async def add_occurrence(self, key: str, draft: dict) -> None:
+        """Record another failing run against an existing defect (e.g. as a comment)."""
+        ...
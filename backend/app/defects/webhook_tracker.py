@@ -0,0 +1,75 @@
+"""
+Generic JSON/webhook tracker — POSTs defect drafts to any HTTP endpoint.
+
+Fits trackers without a native adapter via a small relay (a serverless function,
+Zapier, n8n, ...). Each request is a signed JSON body:
+
+    {"action": "create",     "draft": {...}}              → respond {"key": "QA-1", "url": "..."}
+    {"action": "occurrence", "key": "QA-1", "draft": {...}} → any 2xx
+
+Signing matches outbound webhooks (`X-QAptain-Signature` over "<timestamp>.<body>")
+when a secret is configured.
+"""
+from __future__ import annotations
+import json
+import time
+from typing import Any
+
+import httpx
+
+from config import settings
+from app.core.outbound import UnsafeUrlError, assert_public_url, check_outbound_url, post_public
+from app.defects.base import FiledDefect, TrackerAdapter, TrackerError
+from app.services.webhook_service import SIGNATURE_HEADER, sign_payload
+
+
+class GenericWebhookTracker(TrackerAdapter):
+    kind = "webhook"
+    label = "Generic JSON webhook"
+
+    @classmethod
+    def validate_config(cls, config: dict[str, Any]) -> dict[str, Any]:
+        return {"url": check_outbound_url(str(config.get("url") or ""), "Tracker URL")}
+
+    @classmethod
+    async def verify_config(cls, config: dict[str, Any]) -> None:
+        await assert_public_url(config["url"], "Tracker URL")
+
+    async def _post(self, body: dict) -> httpx.Response:
+        content = json.dumps(body, separators=(",", ":"), default=str).encode()
+        headers = {
+            "Content-Type": "application/json",
+            "User-Agent": f"QAptain-Defects/{settings.APP_VERSION}",
+        }
+        if self.secret:
+            timestamp = str(int(time.time()))
+            headers["X-QAptain-Timestamp"] = timestamp
+            headers[SIGNATURE_HEADER] = sign_payload(self.secret, timestamp, content)
+        try:
+            response = await post_public(
+                self.config["url"], content=content, headers=headers,
+                timeout=settings.WEBHOOK_TIMEOUT_SECONDS, label="Tracker URL",
+            )
+        except UnsafeUrlError as e:
+            raise TrackerError(str(e)) from e
+        except httpx.HTTPError as e:
+            raise TrackerError(f"Tracker unreachable: {type(e).__name__}: {e}"[:300]) from e
+        # The body isn't echoed back: it would turn a misconfigured URL into a way to read other hosts
+        if not 200 <= response.status_code < 300:
+            raise TrackerError(f"Tracker responded HTTP {response.status_code}")
+        return response
+
+    async def create(self, draft: dict) -> FiledDefect:
+        response = await self._post({"action": "create", "draft": draft})
+        try:
+            data = response.json()
+        except ValueError:
+            data = None
+        key = data.get("key") if isinstance(data, dict) else None
+        if not key:
+            raise TrackerError('Tracker response must be JSON with a "key" field')
+        url = data.get("url")
+        return FiledDefect(key=str(key)[:255], url=str(url)[:2048] if url else None)
+
+    async def add_occurrence(self, key: str, draft: dict) -> None:
+        await self._post({"action": "occurrence", "key": key, "draft": draft})
@@ -200,6 +200,35 @@ class BrowserManager:
             log.warning("Screenshot failed", error=str(e))
             return False
 
+    def capture_frame(self, max_width: int, quality: int) -> dict[str, Any] | None:
+        """
+        One JPEG frame of the viewport via CDP, scaled down to `max_width`, for the
+        live browser view. Returns None if the page can't be captured right now.
+        """
+        try:
+            metrics = self.driver.execute_cdp_cmd("Page.getLayoutMetrics", {})
+            viewport = metrics.get("cssVisualViewport") or metrics.get("layoutViewport") or {}
+            width = int(viewport.get("clientWidth") or settings.SELENIUM_WINDOW_WIDTH)
+            height = int(viewport.get("clientHeight") or settings.SELENIUM_WINDOW_HEIGHT)
+            scale = min(1.0, max_width / width)
+            shot = self.driver.execute_cdp_cmd("Page.captureScreenshot", {
+                "format": "jpeg",
+                "quality": quality,
+                "optimizeForSpeed": True,
+                "clip": {
+                    "x": viewport.get("pageX", 0), "y": viewport.get("pageY", 0),
+                    "width": width, "height": height, "scale": scale,
+                },
+            })
+            return {
+                "data": shot["data"],
+                "width": round(width * scale),
+                "height": round(height * scale),
+                "url": self.driver.current_url,
+            }
+        except Exception:
+            return None
+
     def get_current_url(self) -> str:
         return self.driver.current_url
 
@@ -60,6 +60,7 @@ from app.db.models import (
 from app.core.security import decrypt_credential
 from app.intelligence.azure_rate_limiter import get_azure_limiter
 from app.realtime.manager import connection_manager
+from app.realtime.screencast import PlaywrightScreencast
 from config import settings
 
 log = structlog.get_logger()
@@ -550,10 +551,11 @@ class PlanDrivenPlaywrightExecutor:
                 )
                 page = await context.new_page()
 
-                passed, steps_taken = await self._run_plan_steps(
-                    page, run, scenario, plan, env, cred_data, kg_context, kg_elements,
-                    dataset_items=dataset_items,
-                )
+                async with PlaywrightScreencast(page, run_id, self.main_loop):
+                    passed, steps_taken = await self._run_plan_steps(
+                        page, run, scenario, plan, env, cred_data, kg_context, kg_elements,
+                        dataset_items=dataset_items,
+                    )
 
                 # Capture final-state screenshot before closing
                 try:
@@ -678,7 +680,8 @@ class PlanDrivenPlaywrightExecutor:
 
         # ── Pre-login ─────────────────────────────────────────────────────────
         await self._emit("step_started", run.id, {
-            "seq": 1, "action": "login",
+            "seq": 1, "step_num": 1, "action": "login",
+            "description": "Log in",
             "target": cred_data.get("username", ""),
             "phase": "SETUP",
         })
@@ -754,6 +757,7 @@ class PlanDrivenPlaywrightExecutor:
             # steps (AI element resolution, network waits) so the user isn't left wondering.
             await self._emit("step_started", run.id, {
                 "seq": seq,
+                "step_num": seq,
                 "action": action,
                 "target": target[:80] if target else "",
                 "phase": phase,
@@ -847,7 +851,9 @@ class PlanDrivenPlaywrightExecutor:
             await self._record_step(run, step_record)
             await self._emit("step_completed", run.id, {
                 "seq": seq,
+                "step_index": seq - 1,
                 "action": action,
+                "success": step_passed,
                 "status": "passed" if step_passed else "failed",
                 "result": result_text[:200],
             })
@@ -1858,13 +1864,13 @@ class PlanDrivenPlaywrightExecutor:
 
     async def _emit(self, event: str, run_id: str, data: dict) -> None:
         try:
-            payload = {"type": event, "run_id": run_id, **data}
+            payload = {"event": event, "run_id": run_id, **data}
             if self.main_loop:
                 asyncio.run_coroutine_threadsafe(
-                    connection_manager.broadcast(payload), self.main_loop
+                    connection_manager.broadcast_json(payload), self.main_loop
                 )
             else:
-                await connection_manager.broadcast(payload)
+                await connection_manager.broadcast_json(payload)
         except Exception:
             pass
 
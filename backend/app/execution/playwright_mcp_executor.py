@@ -42,6 +42,7 @@ from app.db.models import (
 )
 from app.core.security import decrypt_credential
 from app.realtime.manager import connection_manager
+from app.realtime.screencast import PlaywrightScreencast
 from app.intelligence.azure_rate_limiter import get_azure_limiter
 from config import settings
 
@@ -349,9 +350,10 @@ class PlaywrightMCPExecutor:
                 )
                 page = await context.new_page()
 
-                passed, steps_taken = await self._run_agentic_loop(
-                    page, run, scenario, plan, env, cred_data, kg_context
-                )
+                async with PlaywrightScreencast(page, run_id, self.main_loop):
+                    passed, steps_taken = await self._run_agentic_loop(
+                        page, run, scenario, plan, env, cred_data, kg_context
+                    )
 
                 await browser.close()
 
@@ -445,7 +447,7 @@ class PlaywrightMCPExecutor:
             await self._log_db(run, "INFO" if login_passed else "ERROR", "login",
                                f"[{step_seq}] {login_result}")
             await self._emit("step_completed", run.id, {
-                "seq": step_seq, "tool": "login",
+                "seq": step_seq, "step_index": step_seq - 1, "tool": "login",
                 "status": (StepStatus.PASSED if login_passed else StepStatus.FAILED).value,
                 "result": login_result[:200],
             })
@@ -534,7 +536,7 @@ class PlaywrightMCPExecutor:
                     await self._log_db(run, "INFO", "action",
                                        f"[{step_seq}] navigate: {result_text}")
                     await self._emit("step_completed", run.id, {
-                        "seq": step_seq, "tool": "navigate",
+                        "seq": step_seq, "step_index": step_seq - 1, "tool": "navigate",
                         "status": nav_status.value, "result": result_text[:200],
                     })
                     await self.db.commit()
@@ -680,7 +682,7 @@ class PlaywrightMCPExecutor:
                     {"tool": tool_name, "args": tool_args, "duration_ms": duration_ms},
                 )
                 await self._emit("step_completed", run.id, {
-                    "seq": step_seq, "tool": tool_name,
+                    "seq": step_seq, "step_index": step_seq - 1, "tool": tool_name,
                     "status": status.value, "result": result_text[:200],
                 })
 
@@ -1685,14 +1687,14 @@ You are given a FRESH snapshot with every step — you do NOT need to call brows
         try:
             if self.main_loop:
                 asyncio.run_coroutine_threadsafe(
-                    connection_manager.broadcast(
-                        {"type": event, "run_id": run_id, **data}
+                    connection_manager.broadcast_json(
+                        {"event": event, "run_id": run_id, **data}
                     ),
                     self.main_loop,
                 )
             else:
-                await connection_manager.broadcast(
-                    {"type": event, "run_id": run_id, **data}
+                await connection_manager.broadcast_json(
+                    {"event": event, "run_id": run_id, **data}
                 )
         except Exception:
             pass
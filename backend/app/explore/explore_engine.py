@@ -34,6 +34,7 @@ from app.intelligence.semantic_extractor import SemanticUIExtractor
 from app.intelligence.ai_client import get_ai_client
 from app.core.security import decrypt_credential
 from app.realtime.manager import connection_manager
+from app.realtime.screencast import SeleniumScreencast
 from app.explore.token_manager import TokenBudget, RateLimitManager
 from app.explore.page_analyzer_optimized import analyze_page_compact, FieldValidator, SYSTEM_PROMPT_EXPLORE_COMPACT
 from config import settings
@@ -72,6 +73,7 @@ class ExploreEngine:
         self._session_id: str | None = None
         self._app: Application | None = None
         self._browser: BrowserManager | None = None
+        self._screencast: SeleniumScreencast | None = None
         self._extractor: SemanticUIExtractor | None = None
         self._healer: SelfHealingEngine | None = None
         self._discovered_urls: set[str] = set()
@@ -142,6 +144,8 @@ class ExploreEngine:
                     "check Chrome / ChromeDriver installation and that no zombie Chrome processes are running")
                 return
             await self._log("INFO", "system", "Browser ready")
+            self._screencast = SeleniumScreencast(self._browser, session_id)
+            self._screencast.start()
             self._extractor = SemanticUIExtractor(self._browser.driver)
             self._healer = SelfHealingEngine(self._browser.driver)
             self._field_validator = FieldValidator(self._browser.driver)
@@ -157,8 +161,12 @@ class ExploreEngine:
                 await self.db.commit()
                 return
 
+            module_counts_before: dict | None = None
             if session.mode != ExploreMode.SKIP:
                 if module_ids:
+                    # Refresh only the targeted modules' data — everything else is preserved
+                    module_counts_before = await self._count_module_contents(module_ids, application_id)
+                    await self._cleanup_module_exploration_data(module_ids, application_id)
                     await self._explore_selected_modules(module_ids)
                 else:
                     await self._hierarchical_explore(discover_only=discover_only)
@@ -270,6 +278,12 @@ class ExploreEngine:
                 "urls_visited": len(self._discovered_urls),
                 "scenarios_generated": scenarios_count,
             }
+            if module_counts_before is not None:
+                # Targeted refresh — report what changed in the refreshed modules
+                session.summary["module_counts"] = {
+                    "before": module_counts_before,
+                    "after": await self._count_module_contents(module_ids, application_id),
+                }
             await self.db.commit()
 
             # Log final token usage
@@ -290,12 +304,15 @@ class ExploreEngine:
                 "redirect_to": "scenarios",
                 "tokens_spent": final_budget["spent"],
                 "tokens_limit": final_budget["limit"],
+                **({"module_counts": session.summary["module_counts"]} if module_counts_before is not None else {}),
             })
 
         except Exception as e:
             log.exception("Explore engine crashed", session_id=session_id, error=str(e))
             await self._fail_session(session, f"Exploration error: {str(e)[:300]}")
         finally:
+            if self._screencast:
+                await self._screencast.stop()
             if self._browser:
                 self._browser.quit()
 
@@ -7746,6 +7763,23 @@ class ExploreEngine:
         )
         return result.scalar() or 0
 
+    async def _count_module_contents(self, module_ids: list[str], application_id: str) -> dict:
+        """Pages and workflows under the given modules, including accordion sub-modules."""
+        child_result = await self.db.execute(
+            select(ApplicationModule.id).where(
+                ApplicationModule.parent_id.in_(module_ids),
+                ApplicationModule.application_id == application_id,
+            )
+        )
+        all_ids = list(module_ids) + [row[0] for row in child_result.all()]
+        pages = (await self.db.execute(
+            select(func.count(ApplicationPage.id)).where(ApplicationPage.module_id.in_(all_ids))
+        )).scalar() or 0
+        workflows = (await self.db.execute(
+            select(func.count(ApplicationWorkflow.id)).where(ApplicationWorkflow.module_id.in_(all_ids))
+        )).scalar() or 0
+        return {"pages": pages, "workflows": workflows}
+
     async def _wait_for_decision(self, decision_id: str, timeout: int = 300) -> HumanDecision | None:
         """Poll for human decision resolution. Uses populate_existing to bypass session cache."""
         deadline = time.monotonic() + timeout
@@ -0,0 +1,202 @@
+"""
+Drift Job — acts on selector drift for applications with a DriftPolicy enabled.
+A single asyncio task on the main loop re-computes each policy's drift report. When
+a module is due (app/services/drift_service.py) it queues a module-scoped
+re-exploration, waits for it, then rebuilds the plans of the module's KG-backed
+scenarios from the fresh graph. Every step is recorded as a DriftPolicyEvent and
+broadcast as `drift_policy_event`, which is the Settings activity feed.
+
+One module per application per tick, and never while any exploration of the
+application is active — the explore engine refuses to run two at once.
+"""
+from __future__ import annotations
+import asyncio
+from datetime import datetime
+
+import structlog
+from sqlalchemy import select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from config import settings
+from app.db.models import DriftPolicy, DriftPolicyEvent, ExploreMode, ExploreSession, ExploreStatus, Scenario
+from app.realtime.manager import connection_manager
+from app.services import drift_service
+
+log = structlog.get_logger()
+
+_ACTIVE_STATUSES = (ExploreStatus.PENDING, ExploreStatus.RUNNING, ExploreStatus.WAITING_HUMAN)
+
+# Re-explore → re-plan chains in flight; holds the task references and keeps one per application
+_in_flight: dict[str, asyncio.Task] = {}
+
+
+async def _record(db: AsyncSession, application_id: str, module: dict, action: str, **fields) -> DriftPolicyEvent:
+    event = DriftPolicyEvent(
+        application_id=application_id,
+        module_id=module["module_id"],
+        module_name=module["module_name"],
+        action=action,
+        severity=module.get("severity"),
+        fail_rate_pct=module.get("fail_rate_pct"),
+        runs_checked=module.get("runs_checked"),
+        **fields,
+    )
+    db.add(event)
+    await db.commit()
+    await connection_manager.broadcast_json({
+        "event": "drift_policy_event",
+        "application_id": application_id,
+        "module_id": event.module_id,
+        "module_name": event.module_name,
+        "action": action,
+        "explore_session_id": event.explore_session_id,
+    })
+    log.info("Drift policy", application_id=application_id, module_id=event.module_id, action=action)
+    return event
+
+
+async def _exploration_active(db: AsyncSession, application_id: str) -> bool:
+    row = await db.execute(
+        select(ExploreSession.id)
+        .where(ExploreSession.application_id == application_id, ExploreSession.status.in_(_ACTIVE_STATUSES))
+        .limit(1)
+    )
+    return row.first() is not None
+
+
+async def evaluate_policy(db: AsyncSession, policy: DriftPolicy) -> str | None:
+    """Queue a re-exploration for the most drifted due module; returns its session id, if any."""
+    application_id = policy.application_id
+    if application_id in _in_flight or await _exploration_active(db, application_id):
+        return None
+
+    triggered = await drift_service.last_triggers(db, application_id)
+    report = await drift_service.compute_selector_drift(
+        db, application_id, lookback_runs=max(10, policy.min_runs or 1), runs_since=triggered,
+    )
+    due = drift_service.due_modules(policy, report, triggered, datetime.utcnow())
+    if not due:
+        return None
+
+    module = due[0]
+    session = ExploreSession(
+        application_id=application_id,
+        mode=ExploreMode.SMART,
+        status=ExploreStatus.PENDING,
+        triggered_by=policy.updated_by,
+        discover_only=False,
+        selected_module_ids=[module["module_id"]],
+    )
+    db.add(session)
+    await db.flush()
+    await _record(
+        db, application_id, module, "triggered",
+        explore_session_id=session.id,
+        detail=f"{module['fail_rate_pct']}% of the last {module['runs_checked']} KG-based runs failed on selectors",
+    )
+    _in_flight[application_id] = asyncio.create_task(
+        _reexplore_and_replan(application_id, module, session.id, bool(policy.replan_scenarios))
+    )
+    return session.id
+
+
+async def _reexplore_and_replan(application_id: str, module: dict, session_id: str, replan: bool) -> None:
+    from app.api.v1.explore import _run_explore
+    from app.db.session import AsyncSessionFactory
+
+    try:
+        try:
+            await _run_explore(session_id, application_id, discover_only=False, module_ids=[module["module_id"]])
+        except Exception as e:
+            log.error("Drift re-exploration crashed", session_id=session_id, error=str(e)[:300])
+
+        async with AsyncSessionFactory() as db:
+            session = await db.get(ExploreSession, session_id)
+            if not session or session.status != ExploreStatus.COMPLETED:
+                status = session.status.value.lower() if session and session.status else "lost"
+                reason = (session.error_message if session else None) or f"Re-exploration {status}"
+                await _record(db, application_id, module, "failed", explore_session_id=session_id, detail=reason[:500])
+                return
+
+            counts = (session.summary or {}).get("module_counts") or {}
+            before, after = counts.get("before") or {}, counts.get("after") or {}
+            detail = None
+            if before and after:
+                detail = (
+                    f"Pages {before.get('pages', 0)} → {after.get('pages', 0)}, "
+                    f"workflows {before.get('workflows', 0)} → {after.get('workflows', 0)}"
+                )
+            await _record(db, application_id, module, "reexplored", explore_session_id=session_id, detail=detail)
+
+            if replan:
+                await _replan_module(db, application_id, module, session_id)
+    except Exception as e:
+        log.error("Drift policy follow-up failed", session_id=session_id, error=str(e)[:300])
+    finally:
+        _in_flight.pop(application_id, None)
+
+
+async def _replan_module(db: AsyncSession, application_id: str, module: dict, session_id: str) -> None:
+    """New plan version for every KG-backed scenario of the module, built from the refreshed graph."""
+    from app.intelligence.scenario_planner import ScenarioPlanner
+
+    planner = ScenarioPlanner(db)
+    replanned, failures = 0, []
+    # Plain values up front: a failed plan rolls back and expires every loaded row
+    targets = [
+        (scenario.id, scenario.title, plan.execution_mode or "functional")
+        for scenario, plan in await drift_service.kg_backed_scenarios(db, module["module_id"])
+    ]
+    for scenario_id, title, execution_mode in targets:
+        try:
+            scenario = await db.get(Scenario, scenario_id, populate_existing=True)
+            await planner.generate_plan(scenario, execution_mode)
+            replanned += 1
+        except Exception as e:
+            await db.rollback()
+            failures.append(title)
+            log.warning("Drift re-plan failed", scenario_id=scenario_id, error=str(e)[:200])
+
+    if failures:
+        await _record(
+            db, application_id, module, "failed",
+            explore_session_id=session_id, scenarios_replanned=replanned,
+            detail=f"Could not re-plan {len(failures)} scenario(s): {', '.join(failures)[:400]}",
+        )
+    else:
+        await _record(
+            db, application_id, module, "replanned",
+            explore_session_id=session_id, scenarios_replanned=replanned,
+            detail=None if replanned else "No KG-backed scenarios in this module",
+        )
+
+
+async def evaluate_policies() -> None:
+    from app.db.session import AsyncSessionFactory
+
+    async with AsyncSessionFactory() as db:
+        policy_ids = (await db.execute(
+            select(DriftPolicy.id).where(DriftPolicy.is_enabled == True)
+        )).scalars().all()
+
+        for policy_id in policy_ids:
+            try:
+                policy = await db.get(DriftPolicy, policy_id, populate_existing=True)
+                if policy and policy.is_enabled:
+                    await evaluate_policy(db, policy)
+            except Exception as e:
+                await db.rollback()
+                log.error("Drift policy evaluation failed", policy_id=policy_id, error=str(e)[:300])
+
+
+async def run_drift_policies() -> None:
+    """Poll loop started from the app lifespan; cancelled on shutdown."""
+    log.info("Drift policy loop started", poll_seconds=settings.DRIFT_POLICY_POLL_SECONDS)
+    while True:
+        try:
+            await evaluate_policies()
+        except asyncio.CancelledError:
+            raise
+        except Exception as e:
+            log.error("Drift policy tick failed", error=str(e)[:300])
+        await asyncio.sleep(settings.DRIFT_POLICY_POLL_SECONDS)
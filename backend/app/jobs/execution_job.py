@@ -13,6 +13,7 @@ import structlog
 from sqlalchemy.ext.asyncio import AsyncSession, create_async_engine, async_sessionmaker
 
 from app.db.models import ExecutionRun, ExecutionPlan, ExecutionStatus
+from app.services.quarantine_service import quarantined_scenario_ids, record_run_outcome
 
 log = structlog.get_logger()
 
@@ -70,6 +71,7 @@ async def _run_execution_async(run_id: str) -> None:
                 from app.execution.plan_driven_executor import PlanDrivenPlaywrightExecutor
                 orchestrator = PlanDrivenPlaywrightExecutor(db, main_loop=_main_loop)
             await orchestrator.execute_run(run_id)
+            await record_run_outcome(db, run_id)
     except Exception as e:
         log.exception("Background execution failed", run_id=run_id, error=str(e))
     finally:
@@ -107,6 +109,7 @@ async def _run_batch_async(run_ids: list[str]) -> None:
                 async with SessionFactory() as db:
                     executor = PlaywrightMCPExecutor(db, main_loop=_main_loop)
                     await executor.execute_run(run_id)
+                    await record_run_outcome(db, run_id)
                     log.info("Batch run completed", run_id=run_id)
             except Exception as e:
                 log.exception("Batch run failed", run_id=run_id, error=str(e))
@@ -124,6 +127,7 @@ async def enqueue_execution(
     triggered_by: str,
 ) -> ExecutionRun:
     """Create an ExecutionRun record and submit it to the thread pool."""
+    quarantined = await quarantined_scenario_ids(db, [plan.scenario_id])
     run = ExecutionRun(
         scenario_id=plan.scenario_id,
         plan_id=plan.id,
@@ -131,6 +135,7 @@ async def enqueue_execution(
         credential_id=credential_id,
         status=ExecutionStatus.QUEUED,
         triggered_by=triggered_by,
+        browser_metadata={"quarantined": True} if quarantined else {},
     )
     db.add(run)
     await db.commit()
@@ -150,14 +155,20 @@ async def enqueue_batch_execution(
     credential_id: str | None,
     triggered_by: str,
     batch_id: str | None = None,
+    batch_meta: dict | None = None,
 ) -> list[ExecutionRun]:
     """
     Create N ExecutionRun records and submit a SINGLE batch job.
     All scenarios share one browser session (BeforeAll login).
-    batch_id links runs together for history queries.
+    batch_id links runs together for history queries; batch_meta (e.g. schedule_id)
+    is stored next to it. Runs of quarantined scenarios are flagged so rollups skip them.
     """
+    quarantined = await quarantined_scenario_ids(db, [p.scenario_id for p in plans])
     runs: list[ExecutionRun] = []
     for plan in plans:
+        meta = {"batch_id": batch_id, **(batch_meta or {})} if batch_id else {}
+        if plan.scenario_id in quarantined:
+            meta["quarantined"] = True
         run = ExecutionRun(
             scenario_id=plan.scenario_id,
             plan_id=plan.id,
@@ -165,7 +176,7 @@ async def enqueue_batch_execution(
             credential_id=credential_id,
             status=ExecutionStatus.QUEUED,
             triggered_by=triggered_by,
-            browser_metadata={"batch_id": batch_id} if batch_id else {},
+            browser_metadata=meta,
         )
         db.add(run)
         runs.append(run)
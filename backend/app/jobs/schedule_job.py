@@ -0,0 +1,173 @@
+"""
+Schedule Job — fires recurring batch runs defined by BatchSchedule rows.
+A single asyncio task on the main loop polls for due schedules. Each firing is
+claimed by advancing `next_run_at` with a compare-and-set UPDATE, so several API
+instances can run the loop without double-firing. Missed firings (e.g. the server
+was down overnight) collapse into one run rather than replaying every slot.
+"""
+from __future__ import annotations
+import asyncio
+from datetime import datetime, timezone
+from zoneinfo import ZoneInfo, ZoneInfoNotFoundError
+
+import structlog
+from croniter import croniter
+from sqlalchemy import select, update
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from config import settings
+from app.db.models import BatchSchedule, ExecutionRun, ExecutionStatus, Scenario, TestSuite
+
+log = structlog.get_logger()
+
+_BUSY_STATUSES = (ExecutionStatus.PENDING, ExecutionStatus.QUEUED, ExecutionStatus.RUNNING)
+
+
+def validate_schedule_spec(cron_expression: str, tz_name: str) -> str | None:
+    """Human-readable problem with a cron/timezone pair, or None if it is usable."""
+    if len(cron_expression.split()) != 5:
+        return "Cron expression must have 5 fields: minute hour day-of-month month day-of-week"
+    if not croniter.is_valid(cron_expression):
+        return f"Invalid cron expression: {cron_expression}"
+    try:
+        ZoneInfo(tz_name)
+    except (ZoneInfoNotFoundError, ValueError):
+        return f"Unknown timezone: {tz_name}"
+    return None
+
+
+def next_fire_time(cron_expression: str, tz_name: str, after: datetime) -> datetime:
+    """Next firing strictly after `after` (naive UTC), evaluated in the schedule's timezone."""
+    local = after.replace(tzinfo=timezone.utc).astimezone(ZoneInfo(tz_name))
+    nxt: datetime = croniter(cron_expression, local).get_next(datetime)
+    return nxt.astimezone(timezone.utc).replace(tzinfo=None)
+
+
+async def _previous_batch_busy(db: AsyncSession, batch_id: str | None) -> bool:
+    if not batch_id:
+        return False
+    row = await db.execute(
+        select(ExecutionRun.id)
+        .where(
+            ExecutionRun.browser_metadata["batch_id"].as_string() == batch_id,
+            ExecutionRun.status.in_(_BUSY_STATUSES),
+        )
+        .limit(1)
+    )
+    return row.first() is not None
+
+
+async def fire_schedule(db: AsyncSession, schedule: BatchSchedule) -> BatchSchedule:
+    """
+    Launch one batch for `schedule` and record the outcome on it. Skips (rather than
+    stacks) when the previous batch is still running — an hourly smoke run that
+    overruns shouldn't queue a second copy behind itself.
+    """
+    from app.services.batch_service import BatchLaunchError, launch_batch
+    from app.services.suite_service import resolve_suite
+
+    schedule_id = schedule.id
+    now = datetime.utcnow()
+    status, error, batch_id = "started", None, None
+
+    if await _previous_batch_busy(db, schedule.last_batch_id):
+        status, error = "skipped", "Previous batch still running"
+    else:
+        batch_meta: dict = {"schedule_id": schedule_id}
+        suite = await db.get(TestSuite, schedule.suite_id) if schedule.suite_id else None
+        if suite:
+            # Query suites pick up scenarios added since the schedule was saved
+            scenario_ids = await resolve_suite(db, suite)
+            batch_meta.update(suite_id=suite.id, suite_version=suite.version)
+        else:
+            # Scenarios deleted since the schedule was saved are dropped silently
+            existing = (await db.execute(
+                select(Scenario.id).where(
+                    Scenario.id.in_(schedule.scenario_ids or []),
+                    Scenario.application_id == schedule.application_id,
+                )
+            )).scalars().all()
+            scenario_ids = [sid for sid in (schedule.scenario_ids or []) if sid in set(existing)]
+        if not scenario_ids:
+            status, error = "failed", (
+                "Suite matches no active scenarios" if suite
+                else "None of the scheduled scenarios exist any more"
+            )
+        else:
+            try:
+                result = await launch_batch(
+                    db,
+                    scenario_ids=scenario_ids,
+                    execution_mode=schedule.execution_mode or "functional",
+                    environment_id=schedule.environment_id,
+                    triggered_by=schedule.created_by,
+                    batch_meta=batch_meta,
+                )
+                batch_id = result.get("batch_id")
+                if not batch_id:
+                    status, error = "failed", "No runnable scenarios in batch"
+            except BatchLaunchError as e:
+                await db.rollback()
+                status, error = "failed", str(e)[:500]
+
+    # The rollback above expires the instance (and the claim UPDATE bypassed it) — reload
+    schedule = await db.get(BatchSchedule, schedule_id, populate_existing=True)
+    schedule.last_run_at = now
+    schedule.last_status = status
+    schedule.last_error = error
+    if batch_id:
+        schedule.last_batch_id = batch_id
+    await db.commit()
+    log.info("Schedule fired", schedule_id=schedule_id, status=status, batch_id=batch_id)
+    return schedule
+
+
+async def _claim(db: AsyncSession, schedule: BatchSchedule, now: datetime) -> bool:
+    """Advance next_run_at iff nobody else has; True when this process owns the firing."""
+    result = await db.execute(
+        update(BatchSchedule)
+        .where(BatchSchedule.id == schedule.id, BatchSchedule.next_run_at == schedule.next_run_at)
+        .values(next_run_at=next_fire_time(schedule.cron_expression, schedule.timezone or "UTC", now))
+    )
+    await db.commit()
+    return result.rowcount == 1
+
+
+async def fire_due_schedules() -> None:
+    from app.db.session import AsyncSessionFactory
+
+    now = datetime.utcnow()
+    async with AsyncSessionFactory() as db:
+        due_ids = (await db.execute(
+            select(BatchSchedule.id)
+            .where(
+                BatchSchedule.is_paused == False,
+                BatchSchedule.next_run_at.isnot(None),
+                BatchSchedule.next_run_at <= now,
+            )
+            .order_by(BatchSchedule.next_run_at)
+            .limit(20)
+        )).scalars().all()
+
+        # Load each row fresh: a failed firing rolls back and expires everything in the session
+        for schedule_id in due_ids:
+            try:
+                schedule = await db.get(BatchSchedule, schedule_id, populate_existing=True)
+                if schedule and await _claim(db, schedule, now):
+                    await fire_schedule(db, schedule)
+            except Exception as e:
+                await db.rollback()
+                log.error("Schedule firing failed", schedule_id=schedule_id, error=str(e)[:300])
+
+
+async def run_scheduler() -> None:
+    """Poll loop started from the app lifespan; cancelled on shutdown."""
+    log.info("Scheduler started", poll_seconds=settings.SCHEDULER_POLL_SECONDS)
+    while True:
+        try:
+            await fire_due_schedules()
+        except asyncio.CancelledError:
+            raise
+        except Exception as e:
+            log.error("Scheduler tick failed", error=str(e)[:300])
+        await asyncio.sleep(settings.SCHEDULER_POLL_SECONDS)
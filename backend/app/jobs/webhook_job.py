@@ -0,0 +1,93 @@
+"""
+Webhook Job — sends queued WebhookDelivery rows and retries failed ones.
+A single asyncio task on the main loop wakes every WEBHOOK_POLL_SECONDS, or as
+soon as new deliveries are queued, and sends whatever is due. Each send is
+claimed by pushing `next_attempt_at` out with a compare-and-set UPDATE (the same
+trick as the schedule job), so several API instances never double-send.
+"""
+from __future__ import annotations
+import asyncio
+from datetime import datetime, timedelta
+
+import structlog
+from sqlalchemy import select, update
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from config import settings
+from app.db.models import Webhook, WebhookDelivery
+
+log = structlog.get_logger()
+
+_wake = asyncio.Event()
+
+
+def wake_dispatcher() -> None:
+    """Send newly queued deliveries now instead of at the next poll."""
+    _wake.set()
+
+
+async def _claim(db: AsyncSession, delivery_id: str, due_at: datetime, now: datetime) -> bool:
+    """Lease the delivery past the send timeout; True when this process owns the attempt."""
+    lease = now + timedelta(seconds=settings.WEBHOOK_TIMEOUT_SECONDS + 60)
+    result = await db.execute(
+        update(WebhookDelivery)
+        .where(
+            WebhookDelivery.id == delivery_id,
+            WebhookDelivery.status == "pending",
+            WebhookDelivery.next_attempt_at == due_at,
+        )
+        .values(next_attempt_at=lease)
+    )
+    await db.commit()
+    return result.rowcount == 1
+
+
+async def send_due_deliveries() -> None:
+    from app.db.session import AsyncSessionFactory
+    from app.services.webhook_service import send_delivery
+
+    now = datetime.utcnow()
+    async with AsyncSessionFactory() as db:
+        due = (await db.execute(
+            select(WebhookDelivery.id, WebhookDelivery.next_attempt_at)
+            .join(Webhook, WebhookDelivery.webhook_id == Webhook.id)
+            .where(
+                # Paused webhooks keep their queue; it drains once re-enabled
+                Webhook.is_active == True,
+                WebhookDelivery.status == "pending",
+                WebhookDelivery.next_attempt_at.isnot(None),
+                WebhookDelivery.next_attempt_at <= now,
+            )
+            .order_by(WebhookDelivery.next_attempt_at)
+            .limit(50)
+        )).all()
+
+        for delivery_id, due_at in due:
+            try:
+                if not await _claim(db, delivery_id, due_at, now):
+                    continue
+                delivery = await db.get(WebhookDelivery, delivery_id, populate_existing=True)
+                webhook = await db.get(Webhook, delivery.webhook_id) if delivery else None
+                if not delivery or not webhook:
+                    continue
+                await send_delivery(db, delivery, webhook)
+            except Exception as e:
+                await db.rollback()
+                log.error("Webhook delivery failed to send", delivery_id=delivery_id, error=str(e)[:300])
+
+
+async def run_webhook_dispatcher() -> None:
+    """Poll loop started from the app lifespan; cancelled on shutdown."""
+    log.info("Webhook dispatcher started", poll_seconds=settings.WEBHOOK_POLL_SECONDS)
+    while True:
+        _wake.clear()
+        try:
+            await send_due_deliveries()
+        except asyncio.CancelledError:
+            raise
+        except Exception as e:
+            log.error("Webhook dispatcher tick failed", error=str(e)[:300])
+        try:
+            await asyncio.wait_for(_wake.wait(), timeout=settings.WEBHOOK_POLL_SECONDS)
+        except asyncio.TimeoutError:
+            pass
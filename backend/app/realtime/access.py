@@ -0,0 +1,79 @@
+"""
+Who may see what on `/ws`.
+
+Topics are run ids, explore session ids and `screencast:<run or session id>`. A
+subscribe (and any replay that comes with it) is allowed only when the socket's user
+could read that run or session over REST — the same `require_run_access` /
+`require_app_access` checks, so API tokens stay confined to their workspace.
+
+Broadcasts go to every socket, so each event is also scoped: it is delivered only to
+sockets whose user is a member of the workspace the event's run, session or
+application belongs to.
+"""
+from __future__ import annotations
+
+from fastapi import HTTPException
+from sqlalchemy import select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from app.core.dependencies import api_token_workspace, require_app_access, require_run_access, resolve_user
+from app.db.models import Application, ExecutionRun, ExploreSession, Scenario, User, WorkspaceMember
+from app.db.session import AsyncSessionFactory
+from app.realtime.screencast import SCREENCAST_TOPIC_PREFIX
+
+
+async def authenticate(token: str) -> User | None:
+    """The user behind a `?token=` access or workspace API token; None if it is invalid."""
+    async with AsyncSessionFactory() as db:
+        user = await resolve_user(token, db)
+        await db.commit()
+        return user
+
+
+async def workspace_scope(user: User) -> frozenset[str]:
+    """Workspaces whose broadcasts the user may receive; an API token narrows this to its own."""
+    query = select(WorkspaceMember.workspace_id).where(WorkspaceMember.user_id == user.id)
+    if scoped_to := api_token_workspace(user):
+        query = query.where(WorkspaceMember.workspace_id == scoped_to)
+    async with AsyncSessionFactory() as db:
+        return frozenset((await db.execute(query)).scalars().all())
+
+
+async def authorize_topic(user: User, topic: str) -> None:
+    """Raise HTTPException unless the user can read the run or explore session behind `topic`."""
+    source_id = topic.removeprefix(SCREENCAST_TOPIC_PREFIX)
+    async with AsyncSessionFactory() as db:
+        if await db.get(ExecutionRun, source_id):
+            await require_run_access(source_id, user, db)
+            return
+        session = await db.get(ExploreSession, source_id)
+        if session:
+            await require_app_access(session.application_id, user, db)
+            return
+    raise HTTPException(status_code=404, detail="Unknown topic")
+
+
+async def _workspace_of(db: AsyncSession, source_id: str) -> str | None:
+    row = await db.execute(
+        select(Application.workspace_id)
+        .join(Scenario, Scenario.application_id == Application.id)
+        .join(ExecutionRun, ExecutionRun.scenario_id == Scenario.id)
+        .where(ExecutionRun.id == source_id)
+    )
+    if workspace_id := row.scalar_one_or_none():
+        return workspace_id
+    row = await db.execute(
+        select(Application.workspace_id)
+        .join(ExploreSession, ExploreSession.application_id == Application.id)
+        .where(ExploreSession.id == source_id)
+    )
+    if workspace_id := row.scalar_one_or_none():
+        return workspace_id
+    row = await db.execute(select(Application.workspace_id).where(Application.id == source_id))
+    return row.scalar_one_or_none()
+
+
+async def resolve_workspace(source_id: str) -> str | None:
+    """Workspace of a run, explore session or application id; None if it is none of those."""
+    async with AsyncSessionFactory() as db:
+        return await _workspace_of(db, source_id.removeprefix(SCREENCAST_TOPIC_PREFIX))
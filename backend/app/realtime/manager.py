@@ -4,36 +4,117 @@ Broadcasts real-time events to connected frontend clients.
 """
 from __future__ import annotations
 import json
-from typing import Any
+import uuid
+from collections import deque
+from typing import Any, Awaitable, Callable
 
 import structlog
 from fastapi import WebSocket
 
 log = structlog.get_logger()
 
+# How many recent topic events are kept for replay to reconnecting clients
+REPLAY_BUFFER_SIZE = 2000
+# Run/session/application id -> workspace id lookups kept before the cache is reset
+WORKSPACE_CACHE_SIZE = 10000
+
+# Resolves a run, explore session or application id to its workspace id
+WorkspaceResolver = Callable[[str], Awaitable[str | None]]
+
+
+def _topics_of(data: dict[str, Any]) -> frozenset[str]:
+    """The subscription topics an event belongs to (run, explore session, or batch runs)."""
+    topics: set[str] = set()
+    for key in ("run_id", "session_id", "batch_id", "topic"):
+        if data.get(key):
+            topics.add(str(data[key]))
+    for run_id in data.get("run_ids") or []:
+        topics.add(str(run_id))
+    return frozenset(topics)
+
+
+def _scope_ids(data: dict[str, Any]) -> list[str]:
+    """Ids in an event that tie it to a workspace; batch ids aren't rows, so they don't count."""
+    ids = [str(data[key]) for key in ("run_id", "session_id", "explore_session_id", "application_id", "topic")
+           if data.get(key)]
+    ids.extend(str(run_id) for run_id in data.get("run_ids") or [])
+    return ids
+
 
 class ConnectionManager:
     def __init__(self):
         self._connections: dict[str, WebSocket] = {}
         # Topic subscriptions: client_id -> set of topics
         self._subscriptions: dict[str, set[str]] = {}
+        # Workspaces each client's user belongs to; broadcasts only reach their own
+        self._scopes: dict[str, frozenset[str]] = {}
+        self._resolve_workspace: WorkspaceResolver | None = None
+        self._workspace_cache: dict[str, str] = {}
+        # Every broadcast gets a monotonically increasing `replay_seq` (its own key — `seq`
+        # is the executors' step number). Clients remember the last one they saw per topic
+        # and ask for a replay from there after reconnecting. The epoch changes on restart
+        # so clients know old seqs are meaningless.
+        self.epoch = uuid.uuid4().hex[:12]
+        self._seq = 0
+        self._replay_buffer: deque[tuple[int, frozenset[str], str]] = deque(maxlen=REPLAY_BUFFER_SIZE)
+        # Server-side consumers of the same event stream (e.g. outbound webhooks)
+        self._listeners: list[Callable[[dict[str, Any]], None]] = []
 
-    async def connect(self, websocket: WebSocket, client_id: str):
+    async def connect(self, websocket: WebSocket, client_id: str, scope: frozenset[str] = frozenset()):
         await websocket.accept()
         self._connections[client_id] = websocket
         self._subscriptions[client_id] = set()
+        self._scopes[client_id] = scope
         log.info("WebSocket connected", client_id=client_id)
 
     def disconnect(self, client_id: str):
         self._connections.pop(client_id, None)
         self._subscriptions.pop(client_id, None)
+        self._scopes.pop(client_id, None)
         log.info("WebSocket disconnected", client_id=client_id)
 
+    def set_scope(self, client_id: str, scope: frozenset[str]) -> None:
+        """Replace the workspaces a client receives broadcasts for (e.g. after a membership change)."""
+        if client_id in self._connections:
+            self._scopes[client_id] = scope
+
+    def set_workspace_resolver(self, resolver: WorkspaceResolver) -> None:
+        """Install the id -> workspace lookup used to scope broadcasts. Until then scoped events reach nobody."""
+        self._resolve_workspace = resolver
+
+    async def _event_workspace(self, data: dict[str, Any]) -> tuple[bool, str | None]:
+        """(whether the event belongs to a workspace, which one). Unresolvable scoped events go nowhere."""
+        ids = _scope_ids(data)
+        if not ids:
+            return False, None
+        for source_id in ids:
+            if source_id in self._workspace_cache:
+                return True, self._workspace_cache[source_id]
+        if not self._resolve_workspace:
+            return True, None
+        for source_id in ids:
+            try:
+                workspace_id = await self._resolve_workspace(source_id)
+            except Exception as e:
+                log.warning("Broadcast scope lookup failed", source_id=source_id, error=str(e)[:200])
+                continue
+            if workspace_id:
+                if len(self._workspace_cache) >= WORKSPACE_CACHE_SIZE:
+                    self._workspace_cache.clear()
+                self._workspace_cache[source_id] = workspace_id
+                return True, workspace_id
+        return True, None
+
     def subscribe(self, client_id: str, topic: str):
-        """Subscribe a client to a topic (e.g., run_id or session_id)."""
+        """Subscribe a client to a topic (e.g., run_id or session_id). The caller authorizes the topic."""
         if client_id in self._subscriptions:
             self._subscriptions[client_id].add(topic)
 
+    def unsubscribe(self, client_id: str, topic: str):
+        """Drop a topic subscription once no view on the client needs it any more."""
+        if client_id in self._subscriptions:
+            self._subscriptions[client_id].discard(topic)
+
     async def send_to(self, client_id: str, data: dict[str, Any]):
         """Send message to specific client."""
         ws = self._connections.get(client_id)
@@ -43,13 +124,80 @@ class ConnectionManager:
             except Exception:
                 self.disconnect(client_id)
 
+    def add_listener(self, listener: Callable[[dict[str, Any]], None]) -> None:
+        """Call `listener` with every broadcast event. It runs inline, so it must only schedule work."""
+        self._listeners.append(listener)
+
+    def _notify_listeners(self, data: dict[str, Any]) -> None:
+        for listener in self._listeners:
+            try:
+                listener(data)
+            except Exception as e:
+                log.error("Event listener failed", broadcast_event=data.get("event"), error=str(e)[:200])
+
+    @property
+    def current_seq(self) -> int:
+        return self._seq
+
+    def _stamp(self, data: dict[str, Any]) -> str:
+        """Assign the next seq, serialise, and remember topic events for replay."""
+        self._seq += 1
+        message = json.dumps({**data, "replay_seq": self._seq}, default=str)
+        topics = _topics_of(data)
+        if topics:
+            self._replay_buffer.append((self._seq, topics, message))
+        return message
+
+    async def replay(self, client_id: str, topic: str, since_seq: int, epoch: str | None) -> None:
+        """
+        Re-send buffered events for a topic with seq > since_seq, then a replay_complete
+        marker. `gap` is set when events may have been lost for good — the buffer rolled
+        past since_seq or the server restarted — so the client should refetch over REST.
+        Only topics the client holds an (authorized) subscription to are replayed.
+        """
+        if topic not in self._subscriptions.get(client_id, ()):
+            await self.send_to(client_id, {"event": "error", "topic": topic, "message": "Not subscribed"})
+            return
+        restarted = bool(epoch) and epoch != self.epoch
+        if restarted:
+            since_seq = 0
+        oldest = self._replay_buffer[0][0] if self._replay_buffer else self._seq + 1
+        gap = restarted or since_seq + 1 < oldest
+
+        replayed = 0
+        for seq, topics, message in list(self._replay_buffer):
+            if seq > since_seq and topic in topics:
+                ws = self._connections.get(client_id)
+                if not ws:
+                    return
+                try:
+                    await ws.send_text(message)
+                except Exception:
+                    self.disconnect(client_id)
+                    return
+                replayed += 1
+
+        await self.send_to(client_id, {
+            "event": "replay_complete",
+            "topic": topic,
+            "replayed": replayed,
+            "gap": gap,
+            "replay_seq": self._seq,
+        })
+        if replayed or gap:
+            log.info("WebSocket replay", client_id=client_id, topic=topic, replayed=replayed, gap=gap)
+
     async def broadcast_json(self, data: dict[str, Any]):
-        """Broadcast to all connected clients."""
+        """Broadcast to every connected client whose user can see the event's workspace."""
+        message = self._stamp(data)
+        self._notify_listeners(data)
         if not self._connections:
             return
-        message = json.dumps(data, default=str)
+        scoped, workspace_id = await self._event_workspace(data)
         dead = []
         for client_id, ws in list(self._connections.items()):
+            if scoped and workspace_id not in self._scopes.get(client_id, ()):
+                continue
             try:
                 await ws.send_text(message)
             except Exception:
@@ -59,7 +207,30 @@ class ConnectionManager:
 
     async def broadcast_to_subscribers(self, topic: str, data: dict[str, Any]):
         """Broadcast to clients subscribed to a specific topic."""
-        message = json.dumps(data, default=str)
+        message = self._stamp({"topic": topic, **data})
+        self._notify_listeners(data)
+        dead = []
+        for client_id, topics in list(self._subscriptions.items()):
+            if topic in topics:
+                ws = self._connections.get(client_id)
+                if ws:
+                    try:
+                        await ws.send_text(message)
+                    except Exception:
+                        dead.append(client_id)
+        for client_id in dead:
+            self.disconnect(client_id)
+
+    def has_subscribers(self, topic: str) -> bool:
+        """Whether any client is subscribed to `topic`. Safe to call from worker threads."""
+        return any(topic in topics for topics in list(self._subscriptions.values()))
+
+    async def send_volatile(self, topic: str, data: dict[str, Any]):
+        """
+        Send to a topic's subscribers without a seq: not buffered for replay and not
+        passed to listeners. For high-rate data that is worthless once stale (screencast frames).
+        """
+        message = json.dumps({"topic": topic, **data}, default=str)
         dead = []
         for client_id, topics in list(self._subscriptions.items()):
             if topic in topics:
@@ -0,0 +1,175 @@
+"""
+Live Browser View — low-framerate JPEG frames of what a headless browser is showing.
+
+Frames go to `/ws` subscribers of `screencast:<run or explore session id>` as
+`browser_frame` events. Capture only runs while that topic has a subscriber — the
+viewer subscribes while its pane is open and the tab is visible — so an unwatched
+run or exploration pays nothing. Frames are sent with `send_volatile`: no seq, no
+replay, no webhooks; a stale frame is worthless and they are large.
+
+Playwright pages use a real CDP screencast (Chrome pushes a frame whenever the page
+repaints); Selenium can't receive CDP events, so explore polls `Page.captureScreenshot`.
+Either way at most SCREENCAST_FPS frames per second are sent.
+"""
+from __future__ import annotations
+import asyncio
+import time
+from datetime import datetime
+from typing import TYPE_CHECKING, Any
+
+import structlog
+
+from app.realtime.manager import connection_manager
+from config import settings
+
+if TYPE_CHECKING:
+    from playwright.async_api import CDPSession, Page
+    from app.execution.browser_manager import BrowserManager
+
+log = structlog.get_logger()
+
+# How often an unwatched stream checks for a new viewer
+_IDLE_POLL_SECONDS = 0.5
+# A page that stops repainting sends no screencast frames; resend the last one this
+# often so a viewer who opens the pane on an idle page still sees something
+_KEYFRAME_SECONDS = 3.0
+
+
+SCREENCAST_TOPIC_PREFIX = "screencast:"
+
+
+def screencast_topic(source_id: str) -> str:
+    return f"{SCREENCAST_TOPIC_PREFIX}{source_id}"
+
+
+class _Screencast:
+    """Capture loop shared by both browser drivers; subclasses supply the frames."""
+
+    def __init__(self, source_id: str, main_loop: asyncio.AbstractEventLoop | None = None):
+        self.topic = screencast_topic(source_id)
+        # Executors run in worker threads with their own loop; sockets live on the main one
+        self._main_loop = main_loop
+        self._interval = 1.0 / max(settings.SCREENCAST_FPS, 0.1)
+        self._task: asyncio.Task | None = None
+
+    def start(self) -> None:
+        self._task = asyncio.create_task(self._run())
+
+    async def stop(self) -> None:
+        if self._task:
+            self._task.cancel()
+            try:
+                await self._task
+            except (asyncio.CancelledError, Exception):
+                pass
+            self._task = None
+        try:
+            await self._pause()
+        except Exception:
+            pass
+
+    async def __aenter__(self) -> "_Screencast":
+        self.start()
+        return self
+
+    async def __aexit__(self, *exc: Any) -> None:
+        await self.stop()
+
+    async def _run(self) -> None:
+        while True:
+            if not connection_manager.has_subscribers(self.topic):
+                await self._pause()
+                await asyncio.sleep(_IDLE_POLL_SECONDS)
+                continue
+            try:
+                frame = await self._next_frame()
+            except Exception as e:
+                log.debug("Screencast frame failed", topic=self.topic, error=str(e)[:200])
+                frame = None
+            if frame:
+                self._publish(frame)
+            await asyncio.sleep(self._interval)
+
+    async def _next_frame(self) -> dict[str, Any] | None:
+        raise NotImplementedError
+
+    async def _pause(self) -> None:
+        """Release capture resources while nobody is watching."""
+
+    def _publish(self, frame: dict[str, Any]) -> None:
+        send = connection_manager.send_volatile(self.topic, {
+            "event": "browser_frame",
+            "mime": "image/jpeg",
+            "captured_at": datetime.utcnow().isoformat(),
+            **frame,
+        })
+        if self._main_loop and self._main_loop is not asyncio.get_running_loop():
+            asyncio.run_coroutine_threadsafe(send, self._main_loop)
+        else:
+            asyncio.create_task(send)
+
+
+class PlaywrightScreencast(_Screencast):
+    """CDP `Page.startScreencast` on a Playwright page, started and stopped with the viewers."""
+
+    def __init__(self, page: "Page", source_id: str, main_loop: asyncio.AbstractEventLoop | None = None):
+        super().__init__(source_id, main_loop)
+        self._page = page
+        self._cdp: CDPSession | None = None
+        self._latest: dict[str, Any] | None = None
+        self._last_sent: dict[str, Any] | None = None
+        self._last_sent_at = 0.0
+
+    async def _next_frame(self) -> dict[str, Any] | None:
+        if not self._cdp:
+            self._cdp = await self._page.context.new_cdp_session(self._page)
+            self._cdp.on("Page.screencastFrame", self._on_frame)
+            await self._cdp.send("Page.startScreencast", {
+                "format": "jpeg",
+                "quality": settings.SCREENCAST_JPEG_QUALITY,
+                "maxWidth": settings.SCREENCAST_MAX_WIDTH,
+                "maxHeight": settings.SCREENCAST_MAX_WIDTH,
+            })
+        # Chrome may push frames faster than we send them; only the newest one matters
+        frame, self._latest = self._latest, None
+        now = time.monotonic()
+        if frame is None and self._last_sent and now - self._last_sent_at >= _KEYFRAME_SECONDS:
+            frame = self._last_sent
+        if frame is not None:
+            self._last_sent, self._last_sent_at = frame, now
+        return frame
+
+    def _on_frame(self, params: dict[str, Any]) -> None:
+        metadata = params.get("metadata") or {}
+        self._latest = {
+            "data": params["data"],
+            "width": round(metadata.get("deviceWidth") or 0),
+            "height": round(metadata.get("deviceHeight") or 0),
+            "url": self._page.url,
+        }
+        # Chrome sends the next frame only after this one is acknowledged
+        cdp = self._cdp
+        if cdp:
+            asyncio.create_task(cdp.send("Page.screencastFrameAck", {"sessionId": params["sessionId"]}))
+
+    async def _pause(self) -> None:
+        cdp, self._cdp = self._cdp, None
+        self._latest = self._last_sent = None
+        if cdp:
+            try:
+                await cdp.send("Page.stopScreencast")
+            finally:
+                await cdp.detach()
+
+
+class SeleniumScreencast(_Screencast):
+    """Polls CDP screenshots from a Selenium browser (explore); runs off the event loop."""
+
+    def __init__(self, browser: "BrowserManager", source_id: str, main_loop: asyncio.AbstractEventLoop | None = None):
+        super().__init__(source_id, main_loop)
+        self._browser = browser
+
+    async def _next_frame(self) -> dict[str, Any] | None:
+        return await asyncio.to_thread(
+            self._browser.capture_frame, settings.SCREENCAST_MAX_WIDTH, settings.SCREENCAST_JPEG_QUALITY,
+        )
@@ -1,27 +1,46 @@
 from __future__ import annotations
 import json
-from fastapi import WebSocket, WebSocketDisconnect
+from fastapi import HTTPException, WebSocket, WebSocketDisconnect
 import structlog
 
+from app.realtime.access import authenticate, authorize_topic, workspace_scope
 from app.realtime.manager import connection_manager
 
 log = structlog.get_logger()
 
+# Close code for a missing/expired access token — the client refreshes and reconnects
+WS_CLOSE_UNAUTHORIZED = 4401
+
 
 async def websocket_endpoint(websocket: WebSocket, client_id: str):
     """
     WebSocket handler. Clients can:
     - Connect to receive all broadcasts
     - Send {"subscribe": "topic_id"} to filter events
+    - Add "since_seq" (and the "epoch" from the connected event) to a subscribe to
+      replay events for that topic missed while disconnected
+    - Send {"unsubscribe": "topic_id"} to drop a topic
     - Send {"ping": true} for keepalive
+
+    The handshake must carry the user's access token, or a workspace API token, as `?token=`.
+    Topics are only granted for runs and sessions the user can read; others get an `error` event.
     """
-    await connection_manager.connect(websocket, client_id)
+    user = await authenticate(websocket.query_params.get("token") or "")
+    if not user:
+        # Accept first so the browser sees our close code rather than a bare handshake failure
+        await websocket.accept()
+        await websocket.close(code=WS_CLOSE_UNAUTHORIZED, reason="Not authenticated")
+        return
+
+    await connection_manager.connect(websocket, client_id, await workspace_scope(user))
 
     try:
         await websocket.send_text(json.dumps({
             "event": "connected",
             "client_id": client_id,
             "message": "QAptain real-time connected",
+            "epoch": connection_manager.epoch,
+            "replay_seq": connection_manager.current_seq,
         }))
 
         while True:
@@ -30,12 +49,29 @@ async def websocket_endpoint(websocket: WebSocket, client_id: str):
                 message = json.loads(raw)
 
                 if "subscribe" in message:
-                    topic = message["subscribe"]
+                    topic = str(message["subscribe"])
+                    try:
+                        await authorize_topic(user, topic)
+                    except HTTPException as e:
+                        await websocket.send_text(json.dumps({
+                            "event": "error",
+                            "topic": topic,
+                            "message": e.detail,
+                        }))
+                        continue
+                    # Pick up workspaces joined or left since the socket connected
+                    connection_manager.set_scope(client_id, await workspace_scope(user))
                     connection_manager.subscribe(client_id, topic)
                     await websocket.send_text(json.dumps({
                         "event": "subscribed",
                         "topic": topic,
                     }))
+                    if message.get("since_seq") is not None:
+                        await connection_manager.replay(
+                            client_id, topic, int(message["since_seq"]), message.get("epoch"),
+                        )
+                elif "unsubscribe" in message:
+                    connection_manager.unsubscribe(client_id, message["unsubscribe"])
                 elif message.get("ping"):
                     await websocket.send_text(json.dumps({"event": "pong"}))
 
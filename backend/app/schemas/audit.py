@@ -0,0 +1,43 @@
+from __future__ import annotations
+from datetime import datetime
+from typing import Any
+from pydantic import BaseModel
+
+
+class AuditEventResponse(BaseModel):
+    id: str
+    workspace_id: str
+    application_id: str | None
+    actor_id: str | None
+    actor_email: str | None
+    actor_name: str | None
+    via_api_token: bool | None
+    action: str
+    action_label: str
+    target_type: str | None
+    target_id: str | None
+    target_name: str | None
+    details: dict[str, Any]
+    created_at: datetime
+
+
+class AuditEventPage(BaseModel):
+    items: list[AuditEventResponse]
+    total: int
+
+
+class AuditActor(BaseModel):
+    id: str
+    email: str | None
+    name: str | None
+
+
+class AuditAction(BaseModel):
+    action: str
+    label: str
+
+
+class AuditFacets(BaseModel):
+    """Filter options for the Audit view."""
+    actors: list[AuditActor]
+    actions: list[AuditAction]
@@ -6,6 +6,8 @@ class SignUpRequest(BaseModel):
     name: str = Field(..., min_length=2, max_length=100)
     email: EmailStr
     password: str = Field(..., min_length=8)
+    # From a workspace invite link (`/signup?invite=...`); joins that workspace on sign-up
+    invite_token: str | None = None
 
 
 class LoginRequest(BaseModel):
@@ -13,8 +15,15 @@ class LoginRequest(BaseModel):
     password: str
 
 
+class RefreshRequest(BaseModel):
+    refresh_token: str
+
+
 class TokenResponse(BaseModel):
     access_token: str
+    refresh_token: str
+    # Access token lifetime in seconds, so clients can refresh ahead of expiry
+    expires_in: int
     token_type: str = "bearer"
     user: "UserResponse"
 
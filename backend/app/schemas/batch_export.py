@@ -0,0 +1,93 @@
+"""
+Batch result export — the JSON document behind every export format.
+
+The JSON export is exactly `BatchExport`; the JUnit and HTML exports are rendered
+from the same document. The JSON Schema is served at
+`GET /api/v1/executions/batch-export/schema`. Bump `BATCH_EXPORT_SCHEMA_VERSION`
+on any breaking change (renamed or removed field, changed meaning); adding an
+optional field is not breaking.
+"""
+from __future__ import annotations
+from datetime import datetime
+from typing import Literal
+from pydantic import BaseModel, Field
+
+BATCH_EXPORT_SCHEMA_VERSION = "1.0"
+
+Outcome = Literal["passed", "failed", "incomplete", "skipped"]
+
+
+class ExportStep(BaseModel):
+    sequence: int
+    action_type: str
+    description: str | None = None
+    status: str = Field(..., description="PASSED | FAILED | SKIPPED | HEALED | PENDING | RUNNING")
+    duration_ms: int | None = None
+    healed: bool = False
+    error_type: str | None = None
+    error_message: str | None = None
+    screenshot: str | None = Field(
+        None, description="Artifact path relative to the /artifacts mount, e.g. `screenshots/pd_<run>_001.png`",
+    )
+
+
+class ExportScenario(BaseModel):
+    run_id: str
+    scenario_id: str
+    title: str
+    module_id: str | None = None
+    module_name: str
+    status: str = Field(..., description="Run status: COMPLETED | FAILED | PARTIAL | CANCELLED | RUNNING | QUEUED | PENDING")
+    outcome: Outcome = Field(
+        ..., description="COMPLETED → passed, FAILED → failed, CANCELLED or PARTIAL → incomplete, not finished → skipped",
+    )
+    quarantined: bool = Field(False, description="Quarantined runs are excluded from the summary's passed/failed counts")
+    started_at: datetime | None = None
+    completed_at: datetime | None = None
+    duration_seconds: float | None = None
+    total_steps: int = 0
+    passed_steps: int = 0
+    failed_steps: int = 0
+    healed_steps: int = 0
+    top_error_type: str | None = None
+    error_message: str | None = None
+    steps: list[ExportStep] = []
+
+
+class ExportSummary(BaseModel):
+    total: int
+    passed: int
+    failed: int
+    # Cancelled or partly run — they gate like failures
+    incomplete: int = 0
+    # Not finished yet
+    skipped: int
+    quarantined: int
+    quarantined_passed: int
+    quality_score: int
+    pass_rate_pct: int
+
+
+class ExportRootCause(BaseModel):
+    error_type: str
+    count: int
+    pct: int
+
+
+class BatchExport(BaseModel):
+    schema_version: Literal["1.0"] = BATCH_EXPORT_SCHEMA_VERSION
+    batch_id: str
+    generated_at: datetime
+    application_id: str
+    application_name: str
+    environment_id: str | None = None
+    environment_name: str | None = None
+    schedule_id: str | None = None
+    suite_id: str | None = None
+    suite_version: int | None = None
+    started_at: datetime | None = None
+    completed_at: datetime | None = None
+    duration_seconds: float | None = None
+    summary: ExportSummary
+    root_cause_breakdown: list[ExportRootCause] = []
+    scenarios: list[ExportScenario]
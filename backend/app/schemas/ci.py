@@ -0,0 +1,49 @@
+from __future__ import annotations
+from datetime import datetime
+from typing import Literal
+from pydantic import BaseModel, Field, model_validator
+
+
+class ApiTokenCreate(BaseModel):
+    name: str = Field(..., min_length=1, max_length=255)
+    # Tokens are capped at MEMBER: they can trigger runs but never administer the workspace
+    role: Literal["VIEWER", "MEMBER"] = "MEMBER"
+
+
+class ApiTokenResponse(BaseModel):
+    id: str
+    workspace_id: str
+    name: str
+    token_prefix: str
+    role: str
+    created_by: str
+    created_at: datetime
+    last_used_at: datetime | None = None
+
+    class Config:
+        from_attributes = True
+
+
+class ApiTokenCreated(ApiTokenResponse):
+    # Plaintext secret — returned once, never stored
+    token: str
+
+
+class CiTriggerRequest(BaseModel):
+    """
+    What to run. Environment and suite may be given by id or by name so pipelines
+    can reference them without looking ids up; with neither `suite` nor
+    `scenario_ids`, every active scenario of the application runs.
+    """
+    application_id: str
+    environment: str | None = Field(None, description="Environment id or name; defaults to the default environment")
+    suite: str | None = Field(None, description="Suite id or name")
+    scenario_ids: list[str] = []
+    smoke_only: bool = False
+    execution_mode: Literal["smoke", "functional", "regression"] = "functional"
+
+    @model_validator(mode="after")
+    def _one_selection(self) -> "CiTriggerRequest":
+        if self.suite and self.scenario_ids:
+            raise ValueError("Pass either suite or scenario_ids, not both")
+        return self
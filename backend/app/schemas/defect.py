@@ -0,0 +1,101 @@
+from __future__ import annotations
+from datetime import datetime
+from typing import Any, Literal
+from pydantic import BaseModel, Field
+
+
+class DefectTrackerConfig(BaseModel):
+    kind: str = "webhook"
+    name: str = Field(..., min_length=1, max_length=255)
+    config: dict[str, Any] = Field(default_factory=dict)
+    # None keeps the stored secret, "" clears it
+    secret: str | None = Field(None, max_length=1024)
+    auto_file: bool = False
+    is_active: bool = True
+
+
+class DefectTrackerResponse(BaseModel):
+    id: str
+    workspace_id: str
+    kind: str
+    name: str
+    config: dict[str, Any]
+    has_secret: bool
+    auto_file: bool
+    is_active: bool
+    created_at: datetime
+    updated_at: datetime | None = None
+
+
+class DefectTrackerKind(BaseModel):
+    kind: str
+    label: str
+
+
+class DefectDraftStep(BaseModel):
+    sequence: int
+    action: str
+    description: str
+    status: str
+    failed: bool = False
+
+
+class DefectDraft(BaseModel):
+    """Everything a tracker needs to file a useful defect for one failing run."""
+    title: str
+    description: str
+    severity: str
+    steps_to_reproduce: list[DefectDraftStep]
+    expected: str | None = None
+    actual: str | None = None
+    error_type: str | None = None
+    rca: str | None = None
+    environment: dict[str, Any]
+    run: dict[str, Any]
+    scenario: dict[str, Any]
+    application: dict[str, Any]
+    screenshot_url: str | None = None
+    # Inline copy of the failing step's screenshot, for trackers that can't reach the API
+    screenshot_data_uri: str | None = None
+    labels: list[str] = Field(default_factory=list)
+
+
+class DefectFileRequest(BaseModel):
+    title: str | None = Field(None, min_length=1, max_length=500)
+    description: str | None = Field(None, max_length=20000)
+
+
+class DefectLinkResponse(BaseModel):
+    id: str
+    scenario_id: str
+    tracker_id: str | None = None
+    defect_key: str
+    defect_url: str | None = None
+    title: str
+    status: str
+    occurrences: int
+    first_run_id: str
+    last_run_id: str
+    created_at: datetime
+    updated_at: datetime | None = None
+    resolved_at: datetime | None = None
+
+    class Config:
+        from_attributes = True
+
+
+class DefectLinkUpdate(BaseModel):
+    status: Literal["open", "resolved"]
+
+
+class DefectFileResult(BaseModel):
+    defect: DefectLinkResponse
+    created: bool  # False when the run was attached to the scenario's open defect
+
+
+class RunDefectResponse(BaseModel):
+    """Defect state for the run page: this run's defect, else the scenario's open one."""
+    defect: DefectLinkResponse | None = None
+    scenario_defect: DefectLinkResponse | None = None
+    tracker_configured: bool
+    auto_file: bool = False
@@ -0,0 +1,34 @@
+from __future__ import annotations
+from datetime import datetime
+from typing import Literal
+from pydantic import BaseModel, Field
+
+
+class DriftPolicyConfig(BaseModel):
+    is_enabled: bool = False
+    min_severity: Literal["high", "medium"] = "high"
+    min_runs: int = Field(5, ge=1, le=50)
+    replan_scenarios: bool = True
+    cooldown_hours: int = Field(24, ge=1, le=720)
+
+
+class DriftPolicyResponse(DriftPolicyConfig):
+    application_id: str
+    updated_at: datetime | None = None
+
+
+class DriftPolicyEventResponse(BaseModel):
+    id: str
+    module_id: str | None
+    module_name: str | None
+    action: str
+    severity: str | None
+    fail_rate_pct: int | None
+    runs_checked: int | None
+    explore_session_id: str | None
+    scenarios_replanned: int | None
+    detail: str | None
+    created_at: datetime
+
+    class Config:
+        from_attributes = True
@@ -34,6 +34,7 @@ class ExploreSessionResponse(BaseModel):
     pages_discovered: int
     modules_discovered: int
     workflows_discovered: int
+    selected_module_ids: list[str] | None = None
     summary: dict[str, Any]
     created_at: datetime
 
@@ -85,6 +86,20 @@ class KnowledgeGraphResponse(BaseModel):
         from_attributes = True
 
 
+class KnowledgeGraphVersionResponse(BaseModel):
+    """A KG version without its graph_data, for the version history list."""
+    id: str
+    version: int
+    explore_session_id: str | None = None
+    modules_count: int
+    pages_count: int
+    workflows_count: int
+    created_at: datetime
+
+    class Config:
+        from_attributes = True
+
+
 class ModuleResponse(BaseModel):
     id: str
     name: str
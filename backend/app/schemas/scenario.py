@@ -72,6 +72,7 @@ class ExecutionRunResponse(BaseModel):
     id: str
     scenario_id: str
     plan_id: str
+    environment_id: str | None = None
     status: str
     started_at: datetime | None
     completed_at: datetime | None
@@ -96,11 +97,17 @@ class ExecutionStepResponse(BaseModel):
     healing_attempts: list[dict[str, Any]]
     screenshot_path: str | None
     error_message: str | None
+    plan_step: dict[str, Any] | None = None
 
     class Config:
         from_attributes = True
 
 
+class AcceptHealedLocatorRequest(BaseModel):
+    # Index into the step's healing_attempts; defaults to the last successful attempt
+    attempt_index: int | None = None
+
+
 class ReportResponse(BaseModel):
     id: str
     run_id: str
@@ -0,0 +1,47 @@
+from __future__ import annotations
+from datetime import datetime
+from pydantic import BaseModel, Field
+
+
+class ScheduleCreate(BaseModel):
+    application_id: str
+    environment_id: str
+    name: str = Field(..., min_length=1, max_length=255)
+    cron_expression: str = Field(..., min_length=9, max_length=120)
+    timezone: str = "UTC"
+    scenario_ids: list[str] = Field(default_factory=list, max_length=50)
+    suite_id: str | None = None  # run a saved suite instead of a fixed scenario list
+    execution_mode: str = "functional"
+
+
+class ScheduleUpdate(BaseModel):
+    environment_id: str | None = None
+    name: str | None = Field(None, min_length=1, max_length=255)
+    cron_expression: str | None = Field(None, min_length=9, max_length=120)
+    timezone: str | None = None
+    scenario_ids: list[str] | None = Field(None, max_length=50)
+    suite_id: str | None = None  # "" detaches the suite
+    execution_mode: str | None = None
+    is_paused: bool | None = None
+
+
+class ScheduleResponse(BaseModel):
+    id: str
+    application_id: str
+    environment_id: str
+    name: str
+    cron_expression: str
+    timezone: str
+    scenario_ids: list[str]
+    suite_id: str | None
+    execution_mode: str
+    is_paused: bool
+    next_run_at: datetime | None
+    last_run_at: datetime | None
+    last_batch_id: str | None
+    last_status: str | None
+    last_error: str | None
+    created_at: datetime
+
+    class Config:
+        from_attributes = True
@@ -0,0 +1,64 @@
+from __future__ import annotations
+from datetime import datetime
+from typing import Literal
+from pydantic import BaseModel, Field
+
+from app.db.models import ScenarioPriority
+
+
+class SuiteQuery(BaseModel):
+    priorities: list[ScenarioPriority] = []
+    tags: list[str] = []
+    module_ids: list[str] = []
+    smoke_only: bool = False
+
+
+class SuiteCreate(BaseModel):
+    application_id: str
+    name: str = Field(..., min_length=1, max_length=255)
+    description: str | None = None
+    kind: Literal["explicit", "query"] = "explicit"
+    scenario_ids: list[str] = []
+    query: SuiteQuery | None = None
+
+
+class SuiteUpdate(BaseModel):
+    name: str | None = Field(None, min_length=1, max_length=255)
+    description: str | None = None
+    kind: Literal["explicit", "query"] | None = None
+    scenario_ids: list[str] | None = None
+    query: SuiteQuery | None = None
+
+
+class SuiteRunRequest(BaseModel):
+    environment_id: str
+    execution_mode: str = "functional"
+
+
+class SuiteResponse(BaseModel):
+    id: str
+    application_id: str
+    name: str
+    description: str | None
+    kind: str
+    scenario_ids: list[str]
+    query: SuiteQuery | None
+    version: int
+    scenario_count: int = 0
+    created_at: datetime
+    updated_at: datetime | None
+
+    class Config:
+        from_attributes = True
+
+
+class SuiteVersionResponse(BaseModel):
+    version: int
+    kind: str
+    scenario_ids: list[str]
+    query: SuiteQuery | None
+    created_by: str | None
+    created_at: datetime
+
+    class Config:
+        from_attributes = True
@@ -0,0 +1,84 @@
+from __future__ import annotations
+from datetime import datetime
+from typing import Any, Literal
+from pydantic import BaseModel, Field, field_validator
+
+from app.core.outbound import check_outbound_url
+
+WebhookEvent = Literal[
+    "run_completed", "run_failed", "batch_completed", "batch_failed",
+    "explore_completed", "human_decision_required",
+]
+
+
+def _check_url(url: str) -> str:
+    # The host is resolved and checked again when the webhook is saved and on every send
+    return check_outbound_url(url, "Webhook URL")
+
+
+class WebhookCreate(BaseModel):
+    name: str = Field(..., min_length=1, max_length=255)
+    url: str = Field(..., max_length=2048)
+    events: list[WebhookEvent] = Field(..., min_length=1)
+    failures_only: bool = False
+
+    @field_validator("url")
+    @classmethod
+    def _url(cls, v: str) -> str:
+        return _check_url(v)
+
+
+class WebhookUpdate(BaseModel):
+    name: str | None = Field(None, min_length=1, max_length=255)
+    url: str | None = Field(None, max_length=2048)
+    events: list[WebhookEvent] | None = Field(None, min_length=1)
+    failures_only: bool | None = None
+    is_active: bool | None = None
+
+    @field_validator("url")
+    @classmethod
+    def _url(cls, v: str | None) -> str | None:
+        return _check_url(v) if v is not None else v
+
+
+class WebhookResponse(BaseModel):
+    id: str
+    workspace_id: str
+    name: str
+    url: str
+    events: list[str]
+    failures_only: bool
+    is_active: bool
+    created_at: datetime
+    # Delivery health, filled in by the list endpoint
+    last_delivery_at: datetime | None = None
+    last_delivery_status: str | None = None
+
+    class Config:
+        from_attributes = True
+
+
+class WebhookWithSecret(WebhookResponse):
+    # Signing secret — returned on create and rotate only
+    secret: str
+
+
+class WebhookDeliveryResponse(BaseModel):
+    id: str
+    webhook_id: str
+    event: str
+    event_id: str
+    status: str
+    attempts: int
+    next_attempt_at: datetime | None
+    response_status: int | None
+    response_body: str | None
+    error: str | None
+    duration_ms: int | None
+    redelivery_of: str | None
+    created_at: datetime
+    delivered_at: datetime | None
+    payload: dict[str, Any]
+
+    class Config:
+        from_attributes = True
@@ -22,6 +22,8 @@ class WorkspaceResponse(BaseModel):
     description: str | None
     created_at: datetime
     member_count: int = 0
+    # The current user's role, filled in by the workspace endpoints
+    role: WorkspaceRole | None = None
 
     class Config:
         from_attributes = True
@@ -64,12 +66,19 @@ class ApplicationResponse(BaseModel):
 
 
 class EnvironmentCreate(BaseModel):
-    name: str
+    name: str = Field(..., min_length=1, max_length=255)
     env_type: EnvironmentType = EnvironmentType.DEVELOPMENT
-    base_url: str
+    base_url: str = Field(..., min_length=1, max_length=2048)
     is_default: bool = False
 
 
+class EnvironmentUpdate(BaseModel):
+    name: str | None = Field(None, min_length=1, max_length=255)
+    env_type: EnvironmentType | None = None
+    base_url: str | None = Field(None, min_length=1, max_length=2048)
+    is_default: bool | None = None
+
+
 class EnvironmentResponse(BaseModel):
     id: str
     application_id: str
@@ -83,5 +92,37 @@ class EnvironmentResponse(BaseModel):
 
 
 class MemberInvite(BaseModel):
-    email: str
+    email: str = Field(..., min_length=3, max_length=255)
     role: WorkspaceRole = WorkspaceRole.MEMBER
+
+
+class MemberRoleUpdate(BaseModel):
+    role: WorkspaceRole
+
+
+class MemberResponse(BaseModel):
+    id: str
+    user_id: str
+    email: str
+    name: str
+    role: WorkspaceRole
+    joined_at: datetime | None = None
+    is_self: bool = False
+
+
+class InviteResponse(BaseModel):
+    id: str
+    email: str
+    role: WorkspaceRole
+    created_at: datetime
+    # Sign-up link to share with the invitee; filled in for admins
+    invite_url: str | None = None
+
+    class Config:
+        from_attributes = True
+
+
+class MemberInviteResult(BaseModel):
+    """An existing account is added right away; an unknown email gets a pending invite."""
+    member: MemberResponse | None = None
+    invite: InviteResponse | None = None
@@ -0,0 +1,158 @@
+"""
+Audit Service — the append-only trail of destructive and sensitive actions.
+Routers call `record()` before committing the change it describes, so an event is
+stored exactly when the action is; nothing here ever updates or deletes a row.
+"""
+from __future__ import annotations
+import csv
+import io
+import json
+from datetime import datetime, timezone
+from typing import Any, Iterable
+
+from sqlalchemy import Select, func, select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from app.core.dependencies import api_token_workspace
+from app.db.models import Application, AuditEvent, User
+
+# action → human label; the Audit view groups by the part before the dot
+AUDIT_ACTIONS: dict[str, str] = {
+    "workspace.delete": "Deleted workspace",
+    "application.delete": "Deleted application",
+    "application.credentials_update": "Changed application login",
+    "environment.create": "Added environment",
+    "environment.update": "Changed environment",
+    "environment.delete": "Deleted environment",
+    "role_credential.create": "Added test-role credential",
+    "role_credential.delete": "Removed test-role credential",
+    "role_credential.import": "Imported test-role credentials",
+    "scenario.delete": "Deleted scenario",
+    "scenario.delete_module": "Deleted scenario group",
+    "suite.delete": "Deleted suite",
+    "schedule.delete": "Deleted schedule",
+    "dataset.delete": "Deleted dataset item",
+    "decision.resolve": "Resolved explore decision",
+    "member.add": "Added member",
+    "member.invite": "Invited member",
+    "member.role_change": "Changed member role",
+    "member.remove": "Removed member",
+    "invite.revoke": "Revoked invite",
+    "api_token.create": "Created API token",
+    "api_token.revoke": "Revoked API token",
+    "webhook.create": "Created webhook",
+    "webhook.update": "Changed webhook",
+    "webhook.delete": "Deleted webhook",
+    "webhook.rotate_secret": "Rotated webhook secret",
+    "defect_tracker.update": "Configured defect tracker",
+    "defect_tracker.delete": "Removed defect tracker",
+    "drift_policy.update": "Changed drift policy",
+}
+
+CSV_COLUMNS = [
+    "created_at", "actor_email", "actor_name", "via_api_token", "action", "action_label",
+    "target_type", "target_id", "target_name", "application_id", "details",
+]
+
+
+def record(
+    db: AsyncSession,
+    actor: User | None,
+    action: str,
+    *,
+    workspace_id: str,
+    application_id: str | None = None,
+    target_type: str | None = None,
+    target_id: str | None = None,
+    target_name: str | None = None,
+    details: dict[str, Any] | None = None,
+) -> AuditEvent:
+    """Stage an event in the caller's transaction; it is written by the caller's commit."""
+    event = AuditEvent(
+        workspace_id=workspace_id,
+        application_id=application_id,
+        actor_id=actor.id if actor else None,
+        actor_email=actor.email if actor else None,
+        actor_name=actor.name if actor else None,
+        via_api_token=bool(actor and api_token_workspace(actor)),
+        action=action,
+        target_type=target_type,
+        target_id=target_id,
+        target_name=(target_name or "")[:500] or None,
+        details=details or {},
+    )
+    db.add(event)
+    return event
+
+
+def record_for_app(db: AsyncSession, actor: User | None, app: Application, action: str, **kwargs: Any) -> AuditEvent:
+    return record(db, actor, action, workspace_id=app.workspace_id, application_id=app.id, **kwargs)
+
+
+def filtered_query(
+    workspace_id: str,
+    *,
+    actor_id: str | None = None,
+    action: str | None = None,
+    since: datetime | None = None,
+    until: datetime | None = None,
+) -> Select:
+    """`action` matches exactly ("scenario.delete") or by group ("scenario")."""
+    query = select(AuditEvent).where(AuditEvent.workspace_id == workspace_id)
+    if actor_id:
+        query = query.where(AuditEvent.actor_id == actor_id)
+    if action:
+        query = query.where(
+            AuditEvent.action == action if "." in action else AuditEvent.action.startswith(f"{action}.")
+        )
+    if since:
+        query = query.where(AuditEvent.created_at >= _naive_utc(since))
+    if until:
+        query = query.where(AuditEvent.created_at < _naive_utc(until))
+    return query
+
+
+async def count(db: AsyncSession, query: Select) -> int:
+    return (await db.execute(select(func.count()).select_from(query.order_by(None).subquery()))).scalar_one()
+
+
+async def actors(db: AsyncSession, workspace_id: str) -> list[dict[str, Any]]:
+    """Everyone who appears in the trail, including people no longer in the workspace."""
+    rows = (await db.execute(
+        select(AuditEvent.actor_id, func.max(AuditEvent.actor_email), func.max(AuditEvent.actor_name))
+        .where(AuditEvent.workspace_id == workspace_id, AuditEvent.actor_id.isnot(None))
+        .group_by(AuditEvent.actor_id)
+        .order_by(func.max(AuditEvent.actor_email))
+    )).all()
+    return [{"id": actor_id, "email": email, "name": name} for actor_id, email, name in rows]
+
+
+def _naive_utc(value: datetime) -> datetime:
+    # created_at is stored as naive UTC; the view sends offset-aware bounds
+    return value.astimezone(timezone.utc).replace(tzinfo=None) if value.tzinfo else value
+
+
+def _cell(value: str) -> str:
+    # Keep spreadsheet apps from evaluating user-supplied names as formulas
+    return f"'{value}" if value[:1] in ("=", "+", "-", "@") else value
+
+
+def to_csv(events: Iterable[AuditEvent]) -> str:
+    buf = io.StringIO()
+    writer = csv.writer(buf)
+    writer.writerow(CSV_COLUMNS)
+    for e in events:
+        writer.writerow([
+            e.created_at.isoformat() + "Z" if e.created_at else "",
+            _cell(e.actor_email or ""),
+            _cell(e.actor_name or ""),
+            "yes" if e.via_api_token else "no",
+            e.action,
+            AUDIT_ACTIONS.get(e.action, e.action),
+            e.target_type or "",
+            e.target_id or "",
+            _cell(e.target_name or ""),
+            e.application_id or "",
+            json.dumps(e.details or {}, sort_keys=True, default=str),
+        ])
+    return buf.getvalue()
@@ -0,0 +1,463 @@
+"""
+Batch Report Service — the aggregate report for one batch and its exports.
+
+`summarize_batch` is the QA-lead summary served by `/executions/batch/{id}/summary`.
+`build_export` turns a batch into the documented `BatchExport` JSON, which the
+JUnit and HTML renderers consume so all three formats always agree. Quarantined
+runs are listed everywhere but never count as JUnit failures or toward the score.
+Cancelled and partial runs are `incomplete`, not skipped: a gate must not pass
+a batch whose scenarios never finished.
+"""
+from __future__ import annotations
+import base64
+import html
+import mimetypes
+import os
+import xml.etree.ElementTree as ET
+from datetime import datetime
+
+import structlog
+from sqlalchemy import select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from config import settings
+from app.db.models import (
+    Application, ApplicationModule, Environment, ExecutionRun, ExecutionStatus,
+    ExecutionStep, Scenario,
+)
+from app.schemas.batch_export import BatchExport, ExportScenario, ExportStep
+from app.services.quarantine_service import is_quarantined_run
+
+log = structlog.get_logger()
+
+# (run, scenario title, scenario module_id, application_id)
+BatchRow = tuple[ExecutionRun, str, "str | None", str]
+
+# Runs that stopped before every step ran
+_INCOMPLETE_STATUSES = (ExecutionStatus.CANCELLED, ExecutionStatus.PARTIAL)
+
+# Screenshots above this size are linked by path instead of embedded in HTML
+_MAX_EMBED_BYTES = 2 * 1024 * 1024
+
+
+async def load_batch(db: AsyncSession, batch_id: str) -> list[BatchRow]:
+    """All runs of a batch in launch order; empty when the batch doesn't exist."""
+    result = await db.execute(
+        select(ExecutionRun, Scenario.title, Scenario.module_id, Scenario.application_id)
+        .join(Scenario, ExecutionRun.scenario_id == Scenario.id)
+        .where(ExecutionRun.browser_metadata["batch_id"].as_string() == batch_id)
+        .order_by(ExecutionRun.created_at.asc())
+    )
+    return [(run, title or "", mid, app_id) for run, title, mid, app_id in result.all()]
+
+
+async def _module_names(db: AsyncSession, rows: list[BatchRow]) -> dict[str, str]:
+    module_ids = list({mid for _, _, mid, _ in rows if mid})
+    if not module_ids:
+        return {}
+    result = await db.execute(
+        select(ApplicationModule.id, ApplicationModule.name)
+        .where(ApplicationModule.id.in_(module_ids))
+    )
+    return {mid: name for mid, name in result.all()}
+
+
+async def summarize_batch(db: AsyncSession, batch_id: str, rows: list[BatchRow]) -> dict:
+    """
+    Aggregate run report for a batch — the summary a QA lead would write after
+    executing a full suite: pass/fail counts, root-cause breakdown, module health,
+    and the specific scenarios that need attention.
+    """
+    batch_runs = [(run, title, mid) for run, title, mid, _ in rows]
+
+    # Load all failed steps with error_type for root-cause breakdown
+    run_ids = [r.id for r, _, _ in batch_runs]
+    steps_result = await db.execute(
+        select(ExecutionStep.run_id, ExecutionStep.error_type, ExecutionStep.action_type)
+        .where(
+            ExecutionStep.run_id.in_(run_ids),
+            ExecutionStep.status.in_(["FAILED", "failed"]),
+        )
+    )
+    failed_steps = steps_result.all()
+
+    # Root-cause breakdown
+    error_type_counts: dict[str, int] = {}
+    for _, error_type, _ in failed_steps:
+        key = error_type or "unknown"
+        error_type_counts[key] = error_type_counts.get(key, 0) + 1
+
+    module_names = await _module_names(db, rows)
+
+    # Quarantined runs are reported but kept out of module health and the quality score
+    quarantined_runs = [(run, title, mid) for run, title, mid in batch_runs if is_quarantined_run(run)]
+    scored_runs = [(run, title, mid) for run, title, mid in batch_runs if not is_quarantined_run(run)]
+
+    # Per-module health
+    module_health: dict[str, dict] = {}
+    for run, title, mid in scored_runs:
+        key = mid or "__unlinked__"
+        if key not in module_health:
+            module_health[key] = {
+                "module_id": mid,
+                "module_name": module_names.get(mid, "Unlinked") if mid else "Unlinked",
+                "total": 0, "passed": 0, "failed": 0, "skipped": 0,
+            }
+        module_health[key]["total"] += 1
+        if run.status == ExecutionStatus.COMPLETED:
+            module_health[key]["passed"] += 1
+        elif run.status == ExecutionStatus.FAILED:
+            module_health[key]["failed"] += 1
+        else:
+            module_health[key]["skipped"] += 1
+
+    # Scenarios needing attention — failed ones with their error counts
+    attention_runs = []
+    failed_step_by_run: dict[str, list] = {}
+    for run_id, error_type, action_type in failed_steps:
+        failed_step_by_run.setdefault(run_id, []).append(error_type or "unknown")
+
+    for run, title, mid in batch_runs:
+        if run.status == ExecutionStatus.FAILED:
+            errors = failed_step_by_run.get(run.id, [])
+            top_cause = max(set(errors), key=errors.count) if errors else "unknown"
+            attention_runs.append({
+                "run_id": run.id,
+                "scenario_title": title or "",
+                "module_name": module_names.get(mid, "Unlinked") if mid else "Unlinked",
+                "failed_steps": run.failed_steps or 0,
+                "total_steps": run.total_steps or 0,
+                "top_error_type": top_cause,
+                "error_message": run.error_message or "",
+                "quarantined": is_quarantined_run(run),
+            })
+
+    scored = len(scored_runs)
+    passed = sum(1 for r, _, _ in scored_runs if r.status == ExecutionStatus.COMPLETED)
+    failed = sum(1 for r, _, _ in scored_runs if r.status == ExecutionStatus.FAILED)
+    incomplete = sum(1 for r, _, _ in scored_runs if r.status in _INCOMPLETE_STATUSES)
+    skipped = scored - passed - failed - incomplete
+
+    # Overall quality score: 0-100, over non-quarantined runs only
+    quality_score = round((passed / scored) * 100) if scored else 0
+
+    return {
+        "batch_id": batch_id,
+        "summary": {
+            "total": len(batch_runs),
+            "passed": passed,
+            "failed": failed,
+            "incomplete": incomplete,
+            "skipped": skipped,
+            "quarantined": len(quarantined_runs),
+            "quarantined_passed": sum(1 for r, _, _ in quarantined_runs if r.status == ExecutionStatus.COMPLETED),
+            "quality_score": quality_score,
+            "pass_rate_pct": quality_score,
+        },
+        "root_cause_breakdown": [
+            {"error_type": k, "count": v, "pct": round(v / max(len(failed_steps), 1) * 100)}
+            for k, v in sorted(error_type_counts.items(), key=lambda x: -x[1])
+        ],
+        "module_health": sorted(module_health.values(), key=lambda m: -m["failed"]),
+        "scenarios_needing_attention": sorted(
+            attention_runs, key=lambda r: -r["failed_steps"]
+        ),
+    }
+
+
+# ─── Export ───────────────────────────────────────────────────────────────────
+
+def artifact_relative(path: str | None) -> str | None:
+    """Stored screenshot path → path under the /artifacts mount (mirrors the frontend's artifactUrl)."""
+    if not path:
+        return None
+    normalized = path.replace("\\", "/")
+    idx = normalized.rfind("artifacts/")
+    return normalized[idx + len("artifacts/"):] if idx >= 0 else normalized.lstrip("./")
+
+
+def _seconds(start: datetime | None, end: datetime | None) -> float | None:
+    if not start or not end:
+        return None
+    return round((end - start).total_seconds(), 3)
+
+
+def _outcome(run: ExecutionRun) -> str:
+    if run.status == ExecutionStatus.COMPLETED:
+        return "passed"
+    if run.status == ExecutionStatus.FAILED:
+        return "failed"
+    if run.status in _INCOMPLETE_STATUSES:
+        return "incomplete"
+    return "skipped"
+
+
+async def build_export(db: AsyncSession, batch_id: str, rows: list[BatchRow], summary: dict) -> BatchExport:
+    """The documented JSON export; failure details come from the summary's attention list."""
+    run_ids = [run.id for run, _, _, _ in rows]
+    steps_result = await db.execute(
+        select(ExecutionStep)
+        .where(ExecutionStep.run_id.in_(run_ids))
+        .order_by(ExecutionStep.run_id, ExecutionStep.sequence)
+    )
+    steps_by_run: dict[str, list[ExportStep]] = {}
+    for step in steps_result.scalars().all():
+        status = step.status.value if hasattr(step.status, "value") else str(step.status)
+        steps_by_run.setdefault(step.run_id, []).append(ExportStep(
+            sequence=step.sequence,
+            action_type=step.action_type,
+            description=step.description,
+            status=status,
+            duration_ms=step.duration_ms,
+            healed=status == "HEALED",
+            error_type=step.error_type,
+            error_message=step.error_message,
+            screenshot=artifact_relative(step.error_screenshot_path or step.screenshot_path),
+        ))
+
+    module_names = await _module_names(db, rows)
+    attention = {a["run_id"]: a for a in summary["scenarios_needing_attention"]}
+
+    first_run = rows[0][0]
+    app = await db.get(Application, rows[0][3])
+    env = await db.get(Environment, first_run.environment_id) if first_run.environment_id else None
+    meta = first_run.browser_metadata or {}
+
+    scenarios: list[ExportScenario] = []
+    for run, title, mid, _ in rows:
+        failure = attention.get(run.id)
+        scenarios.append(ExportScenario(
+            run_id=run.id,
+            scenario_id=run.scenario_id,
+            title=title,
+            module_id=mid,
+            module_name=module_names.get(mid, "Unlinked") if mid else "Unlinked",
+            status=run.status.value if hasattr(run.status, "value") else str(run.status),
+            outcome=_outcome(run),
+            quarantined=is_quarantined_run(run),
+            started_at=run.started_at,
+            completed_at=run.completed_at,
+            duration_seconds=_seconds(run.started_at, run.completed_at),
+            total_steps=run.total_steps or 0,
+            passed_steps=run.passed_steps or 0,
+            failed_steps=run.failed_steps or 0,
+            healed_steps=run.healed_steps or 0,
+            top_error_type=failure["top_error_type"] if failure else None,
+            error_message=(failure["error_message"] or None) if failure else run.error_message,
+            steps=steps_by_run.get(run.id, []),
+        ))
+
+    started = [r.started_at for r, _, _, _ in rows if r.started_at]
+    completed = [r.completed_at for r, _, _, _ in rows if r.completed_at]
+    started_at = min(started) if started else first_run.created_at
+    completed_at = max(completed) if completed and len(completed) == len(rows) else None
+
+    return BatchExport(
+        batch_id=batch_id,
+        generated_at=datetime.utcnow(),
+        application_id=rows[0][3],
+        application_name=app.name if app else "",
+        environment_id=first_run.environment_id,
+        environment_name=env.name if env else None,
+        schedule_id=meta.get("schedule_id"),
+        suite_id=meta.get("suite_id"),
+        suite_version=meta.get("suite_version"),
+        started_at=started_at,
+        completed_at=completed_at,
+        duration_seconds=_seconds(started_at, completed_at),
+        summary=summary["summary"],
+        root_cause_breakdown=summary["root_cause_breakdown"],
+        scenarios=scenarios,
+    )
+
+
+def render_junit(doc: BatchExport) -> str:
+    """
+    One <testsuite> per module, one <testcase> per scenario. Failed runs become
+    <failure> and cancelled or partly run ones <error>; quarantined runs and runs
+    that haven't finished become <skipped>, so CI gates on the same numbers as the
+    quality score.
+    """
+    modules: dict[str, list[ExportScenario]] = {}
+    for s in doc.scenarios:
+        modules.setdefault(s.module_name, []).append(s)
+
+    def _failing(s: ExportScenario) -> bool:
+        return s.outcome == "failed" and not s.quarantined
+
+    def _erroring(s: ExportScenario) -> bool:
+        return s.outcome == "incomplete" and not s.quarantined
+
+    def _skipped(s: ExportScenario) -> bool:
+        return s.outcome != "passed" and not _failing(s) and not _erroring(s)
+
+    root = ET.Element("testsuites", {
+        "name": f"{doc.application_name} — batch {doc.batch_id}",
+        "tests": str(len(doc.scenarios)),
+        "failures": str(sum(1 for s in doc.scenarios if _failing(s))),
+        "errors": str(sum(1 for s in doc.scenarios if _erroring(s))),
+        "skipped": str(sum(1 for s in doc.scenarios if _skipped(s))),
+        "time": f"{doc.duration_seconds or 0:.3f}",
+    })
+    for module_name, items in modules.items():
+        suite = ET.SubElement(root, "testsuite", {
+            "name": module_name,
+            "tests": str(len(items)),
+            "failures": str(sum(1 for s in items if _failing(s))),
+            "skipped": str(sum(1 for s in items if _skipped(s))),
+            "errors": str(sum(1 for s in items if _erroring(s))),
+            "time": f"{sum(s.duration_seconds or 0 for s in items):.3f}",
+            "timestamp": (doc.started_at or doc.generated_at).strftime("%Y-%m-%dT%H:%M:%S"),
+        })
+        props = ET.SubElement(suite, "properties")
+        for name, value in (
+            ("batch_id", doc.batch_id),
+            ("environment", doc.environment_name or doc.environment_id),
+            ("suite_id", doc.suite_id),
+            ("suite_version", doc.suite_version),
+        ):
+            if value is not None:
+                ET.SubElement(props, "property", {"name": name, "value": str(value)})
+
+        for s in items:
+            case = ET.SubElement(suite, "testcase", {
+                "name": s.title,
+                "classname": module_name,
+                "time": f"{s.duration_seconds or 0:.3f}",
+            })
+            failed_steps = [st for st in s.steps if st.status == "FAILED"]
+            detail = "\n".join(
+                f"Step {st.sequence} ({st.action_type}): {st.error_type or 'error'}"
+                + (f" — {st.error_message}" if st.error_message else "")
+                for st in failed_steps
+            )
+            if _failing(s):
+                failure = ET.SubElement(case, "failure", {
+                    "message": s.error_message or f"{s.failed_steps}/{s.total_steps} steps failed",
+                    "type": s.top_error_type or "unknown",
+                })
+                failure.text = detail or None
+            elif _erroring(s):
+                error = ET.SubElement(case, "error", {
+                    "message": f"Run {s.status.lower()} after {s.passed_steps + s.failed_steps}/{s.total_steps} steps",
+                    "type": s.status,
+                })
+                error.text = s.error_message or None
+            elif s.quarantined and s.outcome in ("failed", "incomplete"):
+                ET.SubElement(case, "skipped", {
+                    "message": f"Quarantined — {s.outcome} run not counted: {s.error_message or s.top_error_type or s.status.lower()}",
+                })
+            elif s.outcome == "skipped":
+                ET.SubElement(case, "skipped", {"message": f"Run {s.status.lower()}"})
+            if s.quarantined:
+                ET.SubElement(case, "system-out").text = "Scenario was quarantined when this run was enqueued."
+
+    ET.indent(root)
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' + ET.tostring(root, encoding="unicode")
+
+
+def embed_screenshot(relative: str | None) -> str | None:
+    """Data URI for an artifact, or None when it's missing, too large or outside ARTIFACTS_DIR."""
+    if not relative:
+        return None
+    base = os.path.realpath(settings.ARTIFACTS_DIR)
+    path = os.path.realpath(os.path.join(base, relative))
+    if not path.startswith(base + os.sep) or not os.path.isfile(path):
+        return None
+    try:
+        if os.path.getsize(path) > _MAX_EMBED_BYTES:
+            return None
+        with open(path, "rb") as fh:
+            data = base64.b64encode(fh.read()).decode("ascii")
+    except OSError as exc:
+        log.warning("batch_export.screenshot_unreadable", path=path, error=str(exc))
+        return None
+    mime = mimetypes.guess_type(path)[0] or "image/png"
+    return f"data:{mime};base64,{data}"
+
+
+_HTML_STYLE = """
+body{font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;margin:0;background:#fafafa;color:#18181b}
+main{max-width:1080px;margin:0 auto;padding:32px 24px}
+h1{font-size:22px;margin:0 0 4px}
+.muted{color:#71717a;font-size:13px}
+.cards{display:grid;grid-template-columns:repeat(7,1fr);gap:12px;margin:24px 0}
+.card{background:#fff;border:1px solid #e4e4e7;border-radius:10px;padding:12px 14px}
+.card b{display:block;font-size:22px}
+.scenario{background:#fff;border:1px solid #e4e4e7;border-radius:10px;margin-bottom:10px}
+.scenario>summary{cursor:pointer;padding:12px 16px;display:flex;gap:12px;align-items:center;list-style:none}
+.scenario>summary::-webkit-details-marker{display:none}
+.title{flex:1;font-weight:600;font-size:14px}
+.badge{font-size:11px;font-weight:600;padding:2px 8px;border-radius:999px}
+.passed{background:#dcfce7;color:#166534}.failed{background:#fee2e2;color:#991b1b}.skipped{background:#f4f4f5;color:#52525b}
+.incomplete{background:#fef3c7;color:#92400e}
+.quarantined{background:#ffedd5;color:#9a3412}
+.error{margin:0 16px 12px;padding:10px 12px;background:#fef2f2;border-radius:8px;font-size:13px;color:#991b1b;white-space:pre-wrap}
+table{width:100%;border-collapse:collapse;font-size:13px}
+td,th{border-top:1px solid #f4f4f5;padding:8px 16px;text-align:left;vertical-align:top}
+th{color:#71717a;font-weight:500}
+img{max-width:320px;border:1px solid #e4e4e7;border-radius:6px;display:block;margin-top:6px}
+"""
+
+
+def render_html(doc: BatchExport) -> str:
+    """Standalone HTML report — inline CSS and screenshots embedded as data URIs, no external requests."""
+    e = html.escape
+    s = doc.summary
+    cards = [
+        ("Scenarios", s.total), ("Passed", s.passed), ("Failed", s.failed), ("Incomplete", s.incomplete),
+        ("Skipped", s.skipped), ("Quarantined", s.quarantined), ("Quality score", f"{s.quality_score}%"),
+    ]
+    parts = [
+        "<!DOCTYPE html><html lang=\"en\"><head><meta charset=\"utf-8\">",
+        f"<title>{e(doc.application_name)} — batch {e(doc.batch_id)}</title>",
+        f"<style>{_HTML_STYLE}</style></head><body><main>",
+        f"<h1>{e(doc.application_name)} — batch report</h1>",
+        "<div class=\"muted\">",
+        f"Batch {e(doc.batch_id)}",
+        f" · {e(doc.environment_name)}" if doc.environment_name else "",
+        f" · started {e(doc.started_at.strftime('%Y-%m-%d %H:%M UTC'))}" if doc.started_at else "",
+        f" · {doc.duration_seconds:.0f}s" if doc.duration_seconds is not None else "",
+        f" · generated {e(doc.generated_at.strftime('%Y-%m-%d %H:%M UTC'))}</div>",
+        "<div class=\"cards\">",
+        *(f"<div class=\"card\"><span class=\"muted\">{label}</span><b>{value}</b></div>" for label, value in cards),
+        "</div>",
+    ]
+
+    for sc in doc.scenarios:
+        open_attr = " open" if sc.outcome == "failed" and not sc.quarantined else ""
+        parts.append(f"<details class=\"scenario\"{open_attr}><summary>")
+        parts.append(f"<span class=\"badge {sc.outcome}\">{sc.outcome}</span>")
+        if sc.quarantined:
+            parts.append("<span class=\"badge quarantined\">quarantined</span>")
+        parts.append(f"<span class=\"title\">{e(sc.title)}</span>")
+        parts.append(
+            f"<span class=\"muted\">{e(sc.module_name)} · {sc.passed_steps}/{sc.total_steps} steps"
+            f"{f' · {sc.healed_steps} healed' if sc.healed_steps else ''}"
+            f"{f' · {sc.duration_seconds:.0f}s' if sc.duration_seconds is not None else ''}</span>"
+        )
+        parts.append("</summary>")
+        if sc.outcome == "failed" and (sc.error_message or sc.top_error_type):
+            parts.append(f"<div class=\"error\">{e(sc.top_error_type or '')}{': ' if sc.top_error_type and sc.error_message else ''}{e(sc.error_message or '')}</div>")
+        if sc.steps:
+            parts.append("<table><tr><th>#</th><th>Step</th><th>Status</th><th>Duration</th></tr>")
+            for st in sc.steps:
+                shot = embed_screenshot(st.screenshot)
+                error = f"<div class=\"muted\">{e(st.error_type or '')} {e(st.error_message or '')}</div>" if st.error_message else ""
+                if shot:
+                    img = f"<img src=\"{shot}\" alt=\"Step {st.sequence} screenshot\" loading=\"lazy\">"
+                elif st.screenshot:
+                    img = f"<div class=\"muted\">Screenshot: artifacts/{e(st.screenshot)}</div>"
+                else:
+                    img = ""
+                parts.append(
+                    f"<tr><td>{st.sequence}</td>"
+                    f"<td>{e(st.description or st.action_type)}{error}{img}</td>"
+                    f"<td>{e(st.status)}</td>"
+                    f"<td>{f'{st.duration_ms} ms' if st.duration_ms is not None else '—'}</td></tr>"
+                )
+            parts.append("</table>")
+        parts.append("</details>")
+
+    parts.append("</main></body></html>")
+    return "".join(parts)
@@ -0,0 +1,184 @@
+"""
+Batch Service — builds plans for a set of scenarios and enqueues them as one batch.
+Shared by the manual "Run All" endpoint and the schedule runner so both produce
+identical batches (same ordering, same plan fallback, same history grouping).
+"""
+from __future__ import annotations
+import traceback
+import uuid
+from typing import Any
+
+import structlog
+from sqlalchemy import select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from app.db.models import ExecutionPlan, Scenario
+from app.intelligence.scenario_planner import ScenarioPlanner
+from app.jobs.execution_job import enqueue_batch_execution
+
+log = structlog.get_logger()
+
+
+class BatchLaunchError(Exception):
+    """Plans were built but the batch could not be enqueued."""
+
+
+async def launch_batch(
+    db: AsyncSession,
+    *,
+    scenario_ids: list[str],
+    execution_mode: str,
+    environment_id: str,
+    triggered_by: str | None,
+    smoke_only: bool = False,
+    batch_meta: dict[str, Any] | None = None,
+) -> dict:
+    """
+    Start a batch and return `{runs, total, batch_id, batch_mode}` as the run-batch API does.
+    `batch_meta` is stored alongside `batch_id` on every run (e.g. the originating schedule).
+    """
+    cap = 50
+    requested_ids = list(dict.fromkeys(scenario_ids[:cap]))  # dedup, preserve order
+
+    # ── 1. Bulk-fetch all scenarios in ONE query ──────────────────────────────
+    result = await db.execute(
+        select(Scenario).where(Scenario.id.in_(requested_ids))
+    )
+    scenario_lookup: dict[str, Scenario] = {s.id: s for s in result.scalars().all()}
+
+    errors: list[dict] = [
+        {"scenario_id": sid, "error": "Scenario not found"}
+        for sid in requested_ids if sid not in scenario_lookup
+    ]
+
+    # ── 1b. Smoke-only filter ─────────────────────────────────────────────────
+    # When smoke_only=True, skip all scenarios not flagged as smoke tests.
+    # This is the "sanity check before a release" mode — fast, focused pass.
+    if smoke_only:
+        smoke_ids = {sid for sid, s in scenario_lookup.items() if getattr(s, "is_smoke", False)}
+        if not smoke_ids:
+            return {"runs": [], "total": 0, "batch_mode": True,
+                    "message": "No smoke tests found — tag scenarios with is_smoke=true first"}
+        requested_ids = [sid for sid in requested_ids if sid in smoke_ids]
+        scenario_lookup = {sid: s for sid, s in scenario_lookup.items() if sid in smoke_ids}
+
+    # ── Smart test ordering ───────────────────────────────────────────────────
+    # A human QA never runs tests randomly. Order: smoke → create → update → delete
+    # → validation → integration → everything else. Within each tier, CRITICAL first.
+    _PRIORITY_RANK = {"CRITICAL": 0, "HIGH": 1, "MEDIUM": 2, "LOW": 3}
+
+    def _order_key(scenario: Scenario) -> tuple:
+        title_lc = (scenario.title or "").lower()
+        desc_lc  = (scenario.description or "").lower()
+        tags     = [str(t).lower() for t in (scenario.tags or [])]
+        all_text = title_lc + " " + desc_lc + " " + " ".join(tags)
+
+        # Tier 0 — smoke tests (explicitly tagged or login/health-check by title)
+        if getattr(scenario, "is_smoke", False) or "smoke" in all_text or any(
+            k in title_lc for k in ("login", "sign in", "access", "health")
+        ):
+            tier = 0
+        # Tier 1 — create / add (must run before update/delete can work)
+        elif any(k in title_lc for k in ("create", "add", "new", "insert", "register")):
+            tier = 1
+        # Tier 2 — update / edit (depends on create)
+        elif any(k in title_lc for k in ("update", "edit", "modify", "change", "amend")):
+            tier = 2
+        # Tier 3 — delete / remove (depends on create)
+        elif any(k in title_lc for k in ("delete", "remove", "archive", "deactivate")):
+            tier = 3
+        # Tier 4 — validation / edge cases
+        elif any(k in title_lc for k in ("validation", "invalid", "edge", "error", "required", "boundary")):
+            tier = 4
+        # Tier 5 — integration / cross-module / e2e
+        elif any(k in title_lc for k in ("integration", "cross", "end-to-end", "e2e", "flow", "workflow")):
+            tier = 5
+        # Tier 6 — regression / everything else
+        else:
+            tier = 6
+
+        priority_val = _PRIORITY_RANK.get(
+            (scenario.priority.value if scenario.priority else "MEDIUM").upper(), 2
+        )
+        return (tier, priority_val)
+
+    # Re-order the valid requested_ids by smart ordering
+    valid_ordered = sorted(
+        [sid for sid in requested_ids if sid in scenario_lookup],
+        key=lambda sid: _order_key(scenario_lookup[sid]),
+    )
+
+    # ── 2. Build ALL plan objects — KG first, fallback for the rest ───────────
+    planner = ScenarioPlanner(db)
+    plan_entries: list[tuple] = []  # (plan_obj, scenario_title)
+    for sid in valid_ordered:
+        scenario = scenario_lookup[sid]
+
+        # Try KG plan first (no AI, no rate-limit cost) for scenarios with a linked module
+        kg_plan: ExecutionPlan | None = None
+        if scenario.module_id:
+            try:
+                kg_plan = await planner._build_plan_from_kg(scenario, execution_mode)
+            except Exception:
+                kg_plan = None
+
+        if kg_plan:
+            plan_entries.append((kg_plan, scenario.title))
+            continue
+
+        # Fall back to a placeholder plan — batch executor will upgrade it with AI/capability
+        plan_data = planner._fallback_plan(scenario)
+        plan = ExecutionPlan(
+            scenario_id=scenario.id,
+            execution_mode=execution_mode,
+            plan_data=plan_data,
+            ai_reasoning="Fallback — AI reasoning deferred to execution time",
+            semantic_intent={},
+            workflow_stages=[],
+            risk_score=5,
+            estimated_duration_seconds=len(plan_data.get("steps", [])) * 5,
+            created_by_model="fallback",
+        )
+        db.add(plan)
+        plan_entries.append((plan, scenario.title))
+
+    if not plan_entries:
+        return {"runs": errors, "total": 0, "batch_mode": True}
+
+    # ── 3. ONE commit for all plans ───────────────────────────────────────────
+    await db.commit()
+
+    plans = [p for p, _ in plan_entries]
+    plan_title_map: dict[str, str] = {p.id: title for p, title in plan_entries}
+
+    # ── 4. Enqueue batch — creates runs + submits thread job ──────────────────
+    batch_id = str(uuid.uuid4())
+    try:
+        runs = await enqueue_batch_execution(
+            db=db,
+            plans=plans,
+            environment_id=environment_id,
+            credential_id=None,
+            triggered_by=triggered_by,
+            batch_id=batch_id,
+            batch_meta=batch_meta,
+        )
+        run_summaries = [
+            {
+                "scenario_id": run.scenario_id,
+                "run_id": run.id,
+                "title": plan_title_map.get(run.plan_id, ""),
+            }
+            for run in runs
+        ]
+        log.info("Batch enqueued", count=len(runs), batch_id=batch_id)
+        return {
+            "runs": run_summaries + errors,
+            "total": len(run_summaries),
+            "batch_id": batch_id,
+            "batch_mode": True,
+        }
+    except Exception as e:
+        err_detail = f"Batch enqueue failed: {e}\n{traceback.format_exc()[-300:]}"
+        log.error("Batch enqueue error", error=err_detail)
+        raise BatchLaunchError(err_detail) from e
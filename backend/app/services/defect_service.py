@@ -0,0 +1,322 @@
+"""
+Defect Service — drafts defects from failing runs and files them through the
+workspace's tracker adapter (app/defects).
+
+A scenario has at most one open DefectLink. Filing a run whose scenario already has
+one attaches the run to it as an occurrence (and tells the tracker) instead of
+opening a duplicate; once the defect is resolved, the next failure files a new one.
+Each run belongs to at most one defect, so filing the same run twice is a no-op.
+
+`on_broadcast` auto-files failing, non-quarantined runs for trackers with
+`auto_file` enabled.
+"""
+from __future__ import annotations
+import asyncio
+from datetime import datetime
+from typing import Any
+
+import structlog
+from sqlalchemy import select
+from sqlalchemy.exc import IntegrityError
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from config import settings
+from app.db.models import (
+    Application, ApplicationModule, DefectLink, DefectOccurrence, DefectTracker, Environment,
+    ExecutionReport, ExecutionRun, ExecutionStatus, ExecutionStep, Scenario, StepStatus, Workspace,
+)
+from app.defects import TrackerError, get_tracker_adapter
+from app.schemas.defect import DefectDraft, DefectDraftStep
+from app.services.batch_report_service import artifact_relative, embed_screenshot
+from app.services.quarantine_service import is_quarantined_run
+
+log = structlog.get_logger()
+
+_TITLE_MAX = 500
+_MAX_ROOT_CAUSES = 3
+_FILEABLE = (ExecutionStatus.FAILED, ExecutionStatus.PARTIAL)
+
+# Keeps fire-and-forget auto-file tasks alive until they finish
+_pending: set[asyncio.Task] = set()
+
+
+class DefectError(Exception):
+    """The run can't be filed (no tracker configured, or the run didn't fail)."""
+
+
+# ─── Draft ────────────────────────────────────────────────────────────────────
+
+def _status(value: Any) -> str:
+    return value.value if hasattr(value, "value") else str(value or "")
+
+
+def _rca_text(rca: dict | None) -> str | None:
+    if not rca:
+        return None
+    parts: list[str] = []
+    if rca.get("overall_health"):
+        parts.append(str(rca["overall_health"]))
+    causes = [c.get("cause") for c in rca.get("root_causes") or [] if isinstance(c, dict) and c.get("cause")]
+    if causes:
+        parts.append("Likely root causes:\n" + "\n".join(f"- {c}" for c in causes[:_MAX_ROOT_CAUSES]))
+    if rca.get("business_impact"):
+        parts.append(f"Business impact: {rca['business_impact']}")
+    return "\n\n".join(parts) or None
+
+
+def _failing_step(steps: list[ExecutionStep]) -> ExecutionStep | None:
+    return next((s for s in steps if s.status == StepStatus.FAILED), None)
+
+
+def _describe(draft: dict) -> str:
+    """Plain-text body for trackers that only take a description."""
+    lines = [draft["run"]["summary"], ""]
+    lines.append("Steps to reproduce:")
+    for step in draft["steps_to_reproduce"]:
+        mark = "  ← fails here" if step["failed"] else ""
+        lines.append(f"{step['sequence']}. {step['description']}{mark}")
+    if draft.get("actual"):
+        lines += ["", f"Actual: {draft['actual']}"]
+    if draft.get("rca"):
+        lines += ["", draft["rca"]]
+    env = draft["environment"]
+    lines += ["", f"Environment: {env.get('name') or 'unknown'} ({env.get('base_url') or 'n/a'})"]
+    lines.append(f"Run: {draft['run']['url']}")
+    if draft.get("screenshot_url"):
+        lines.append(f"Screenshot: {draft['screenshot_url']}")
+    return "\n".join(lines)
+
+
+async def _context(db: AsyncSession, run: ExecutionRun) -> tuple[Scenario, Application, Workspace]:
+    row = (await db.execute(
+        select(Scenario, Application, Workspace)
+        .join(Application, Scenario.application_id == Application.id)
+        .join(Workspace, Application.workspace_id == Workspace.id)
+        .where(Scenario.id == run.scenario_id)
+    )).first()
+    if not row:
+        raise DefectError("The run's scenario no longer exists")
+    return tuple(row)
+
+
+async def build_draft(db: AsyncSession, run: ExecutionRun, embed: bool = False) -> DefectDraft:
+    """
+    Draft a defect from the run's steps, report and environment. Reproduction steps
+    run up to and including the first failing step; the screenshot is that step's.
+    `embed` adds the screenshot inline, for sending to a tracker.
+    """
+    scenario, app, workspace = await _context(db, run)
+    steps = (await db.execute(
+        select(ExecutionStep).where(ExecutionStep.run_id == run.id).order_by(ExecutionStep.sequence)
+    )).scalars().all()
+    report = (await db.execute(
+        select(ExecutionReport).where(ExecutionReport.run_id == run.id)
+    )).scalar_one_or_none()
+    env = await db.get(Environment, run.environment_id) if run.environment_id else None
+    module = await db.get(ApplicationModule, scenario.module_id) if scenario.module_id else None
+
+    failing = _failing_step(steps)
+    repro = steps[: steps.index(failing) + 1] if failing else steps
+    screenshot = (
+        (failing.error_screenshot_path or failing.screenshot_path) if failing
+        else next((s.screenshot_path for s in reversed(steps) if s.screenshot_path), None)
+    )
+    relative = artifact_relative(screenshot)
+
+    actual = (failing.error_message if failing else None) or run.error_message
+    where = (failing.description or failing.action_type) if failing else None
+    title = f"{scenario.title}: {'fails at ' + where if where else 'run failed'}"[:_TITLE_MAX]
+    severity = _status(scenario.priority) or "MEDIUM"
+    run_url = settings.FRONTEND_URL.rstrip("/") + f"/workspaces/{workspace.id}/executions/{run.id}"
+    meta = run.browser_metadata or {}
+
+    draft = {
+        "title": title,
+        "description": "",
+        "severity": severity,
+        "steps_to_reproduce": [
+            DefectDraftStep(
+                sequence=s.sequence,
+                action=s.action_type,
+                description=s.description or s.action_type,
+                status=_status(s.status),
+                failed=s is failing,
+            ).model_dump()
+            for s in repro
+        ],
+        "expected": f"{failing.description} succeeds" if failing and failing.description else None,
+        "actual": actual,
+        "error_type": failing.error_type if failing else None,
+        "rca": _rca_text(report.rca_analysis if report else None),
+        "environment": {
+            "name": env.name if env else None,
+            "type": _status(env.env_type) if env else None,
+            "base_url": env.base_url if env else None,
+        },
+        "run": {
+            "id": run.id,
+            "url": run_url,
+            "status": _status(run.status),
+            "batch_id": meta.get("batch_id"),
+            "started_at": run.started_at.isoformat() + "Z" if run.started_at else None,
+            "summary": (
+                f"Automated scenario \"{scenario.title}\" failed on "
+                f"{env.name if env else 'an unknown environment'}: "
+                f"{run.passed_steps or 0}/{run.total_steps or 0} steps passed."
+            ),
+            "risk_level": _status(report.risk_level) if report else None,
+            "quality_score": report.quality_score if report else None,
+        },
+        "scenario": {
+            "id": scenario.id,
+            "title": scenario.title,
+            "priority": severity,
+            "module": module.name if module else None,
+            "external_id": scenario.external_id,
+        },
+        "application": {"id": app.id, "name": app.name, "workspace_id": workspace.id},
+        "screenshot_url": (
+            settings.PUBLIC_API_URL.rstrip("/") + "/artifacts/" + relative if relative else None
+        ),
+        "screenshot_data_uri": embed_screenshot(relative) if embed else None,
+        "labels": ["qaptain", f"severity:{severity.lower()}"] + ([f"module:{module.name}"] if module else []),
+    }
+    draft["description"] = _describe(draft)
+    return DefectDraft(**draft)
+
+
+# ─── Filing ───────────────────────────────────────────────────────────────────
+
+async def get_tracker(db: AsyncSession, workspace_id: str) -> DefectTracker | None:
+    return (await db.execute(
+        select(DefectTracker).where(DefectTracker.workspace_id == workspace_id)
+    )).scalar_one_or_none()
+
+
+async def defect_for_run(db: AsyncSession, run_id: str) -> DefectLink | None:
+    return (await db.execute(
+        select(DefectLink)
+        .join(DefectOccurrence, DefectOccurrence.defect_id == DefectLink.id)
+        .where(DefectOccurrence.run_id == run_id)
+    )).scalar_one_or_none()
+
+
+async def open_defect_for_scenario(db: AsyncSession, scenario_id: str) -> DefectLink | None:
+    return (await db.execute(
+        select(DefectLink)
+        .where(DefectLink.scenario_id == scenario_id, DefectLink.status == "open")
+        .order_by(DefectLink.created_at.desc())
+        .limit(1)
+    )).scalar_one_or_none()
+
+
+async def file_defect(
+    db: AsyncSession,
+    run: ExecutionRun,
+    user_id: str | None = None,
+    title: str | None = None,
+    description: str | None = None,
+) -> tuple[DefectLink, bool]:
+    """
+    File the run, or attach it to its scenario's open defect. Returns the defect and
+    whether a new one was created. Raises DefectError / TrackerError.
+    """
+    existing = await defect_for_run(db, run.id)
+    if existing:
+        return existing, False
+    if run.status not in _FILEABLE:
+        raise DefectError("Only failed runs can be filed as defects")
+
+    scenario, _, workspace = await _context(db, run)
+    tracker = await get_tracker(db, workspace.id)
+    if not tracker or not tracker.is_active:
+        raise DefectError("No defect tracker is configured for this workspace")
+    adapter = get_tracker_adapter(tracker)
+
+    draft = (await build_draft(db, run, embed=True)).model_dump()
+    if title:
+        draft["title"] = title.strip()
+    if description:
+        draft["description"] = description
+
+    defect = await open_defect_for_scenario(db, scenario.id)
+    created = defect is None
+    if defect:
+        await adapter.add_occurrence(defect.defect_key, draft)
+        defect.occurrences = (defect.occurrences or 0) + 1
+        defect.last_run_id = run.id
+    else:
+        filed = await adapter.create(draft)
+        defect = DefectLink(
+            scenario_id=scenario.id,
+            tracker_id=tracker.id,
+            defect_key=filed.key,
+            defect_url=filed.url,
+            title=draft["title"][:_TITLE_MAX],
+            status="open",
+            occurrences=1,
+            first_run_id=run.id,
+            last_run_id=run.id,
+            created_by=user_id,
+        )
+        db.add(defect)
+        await db.flush()
+    db.add(DefectOccurrence(defect_id=defect.id, run_id=run.id))
+    try:
+        await db.commit()
+    except IntegrityError:
+        # Filed concurrently (e.g. auto-file raced a click) — keep the first record
+        await db.rollback()
+        existing = await defect_for_run(db, run.id)
+        if existing:
+            return existing, False
+        raise
+    await db.refresh(defect)
+    log.info("Defect filed" if created else "Defect occurrence recorded",
+             run_id=run.id, scenario_id=scenario.id, defect_key=defect.defect_key)
+    return defect, created
+
+
+async def set_defect_status(db: AsyncSession, defect: DefectLink, status: str) -> DefectLink:
+    defect.status = status
+    defect.resolved_at = datetime.utcnow() if status == "resolved" else None
+    await db.commit()
+    await db.refresh(defect)
+    return defect
+
+
+# ─── Auto-filing ──────────────────────────────────────────────────────────────
+
+async def auto_file(run_id: str) -> None:
+    from app.db.session import AsyncSessionFactory
+
+    async with AsyncSessionFactory() as db:
+        run = await db.get(ExecutionRun, run_id)
+        if not run or run.status not in _FILEABLE:
+            return
+        # Quarantined scenarios are known-flaky; filing them would only add noise
+        if is_quarantined_run(run):
+            return
+        _, _, workspace = await _context(db, run)
+        tracker = await get_tracker(db, workspace.id)
+        if not tracker or not tracker.is_active or not tracker.auto_file:
+            return
+        await file_defect(db, run)
+
+
+async def _auto_file_safely(run_id: str) -> None:
+    try:
+        await auto_file(run_id)
+    except (DefectError, TrackerError) as e:
+        log.warning("Defect auto-file skipped", run_id=run_id, error=str(e)[:300])
+    except Exception as e:
+        log.error("Defect auto-file failed", run_id=run_id, error=str(e)[:300])
+
+
+def on_broadcast(event: dict[str, Any]) -> None:
+    """ConnectionManager listener — runs on the main loop, so it only schedules work."""
+    if event.get("event") not in ("run_completed", "run_failed") or not event.get("run_id"):
+        return
+    task = asyncio.get_running_loop().create_task(_auto_file_safely(event["run_id"]))
+    _pending.add(task)
+    task.add_done_callback(_pending.discard)
@@ -0,0 +1,193 @@
+"""
+Drift Service — selector drift per module, and the policy that acts on it.
+
+Drift only looks at runs of KG-recorded plans: when most of a module's recent runs
+fail on selector errors (timeout, not found, stale) its recorded selectors no longer
+match the UI and the module needs re-exploring. The knowledge router serves the
+report as is; the drift loop (app/jobs/drift_job.py) feeds it to `due_modules` with
+each module's last policy trigger, so runs from before a re-exploration are not
+counted against the fresh graph.
+"""
+from __future__ import annotations
+from datetime import datetime, timedelta
+
+from sqlalchemy import func, select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from app.db.models import (
+    ApplicationModule, DriftPolicy, DriftPolicyEvent, ExecutionPlan, ExecutionRun, ExecutionStep, Scenario,
+)
+
+SELECTOR_ERRORS = ("selector_timeout", "element_not_found", "element_stale")
+DRIFT_THRESHOLD = 0.6   # >60% of recent runs failing on a selector = drift
+HIGH_THRESHOLD = 0.8
+
+SEVERITY_RANK = {"medium": 1, "high": 2}
+
+async def compute_selector_drift(
+    db: AsyncSession,
+    application_id: str,
+    lookback_runs: int = 10,
+    runs_since: dict[str, datetime] | None = None,
+) -> dict:
+    """
+    Drift report for an application: drifted modules with their top failing step
+    targets, sorted by fail rate, and the healthy rest. `runs_since` maps module id →
+    cut-off; older runs of that module are ignored.
+    """
+    mods_result = await db.execute(
+        select(ApplicationModule)
+        .where(ApplicationModule.application_id == application_id)
+        .order_by(ApplicationModule.order_index)
+    )
+    modules = list(mods_result.scalars().all())
+    module_ids = [m.id for m in modules]
+    module_map = {m.id: m.name for m in modules}
+
+    if not module_ids:
+        return {"drifted_modules": [], "healthy_modules": [], "total_checked": 0}
+
+    # Load recent runs for scenarios in this application, ordered newest-first
+    runs_result = await db.execute(
+        select(ExecutionRun, Scenario.module_id, ExecutionPlan.created_by_model)
+        .join(Scenario, ExecutionRun.scenario_id == Scenario.id)
+        .join(ExecutionPlan, ExecutionRun.plan_id == ExecutionPlan.id)
+        .where(
+            Scenario.application_id == application_id,
+            Scenario.module_id.in_(module_ids),
+            # Only runs using KG-recorded plans — AI plans may legitimately fail for other reasons
+            ExecutionPlan.created_by_model == "kg_recorded",
+        )
+        .order_by(ExecutionRun.created_at.desc())
+        .limit(lookback_runs * len(module_ids))
+    )
+    runs_rows = runs_result.all()
+
+    if not runs_rows:
+        return {"drifted_modules": [], "healthy_modules": list(module_map.values()), "total_checked": 0}
+
+    # Group runs by module, keeping only the last N per module
+    runs_by_module: dict[str, list] = {}
+    for run, mid, plan_model in runs_rows:
+        if mid not in runs_by_module:
+            runs_by_module[mid] = []
+        since = (runs_since or {}).get(mid)
+        if since and run.created_at and run.created_at <= since:
+            continue
+        if len(runs_by_module[mid]) < lookback_runs:
+            runs_by_module[mid].append(run)
+
+    drifted: list[dict] = []
+    healthy: list[dict] = []
+
+    for mid, mod_runs in runs_by_module.items():
+        if not mod_runs:
+            continue
+        run_ids = [r.id for r in mod_runs]
+
+        # Count selector failures per step target
+        steps_result = await db.execute(
+            select(ExecutionStep.description, ExecutionStep.error_type, func.count(ExecutionStep.id))
+            .where(
+                ExecutionStep.run_id.in_(run_ids),
+                ExecutionStep.error_type.in_(list(SELECTOR_ERRORS)),
+            )
+            .group_by(ExecutionStep.description, ExecutionStep.error_type)
+        )
+        failing_steps = steps_result.all()
+
+        # Total runs for this module in our window
+        total_runs = len(mod_runs)
+        failed_runs = sum(1 for r in mod_runs if r.status and r.status.value == "FAILED")
+        fail_rate = failed_runs / total_runs if total_runs else 0.0
+
+        if failing_steps and fail_rate >= DRIFT_THRESHOLD:
+            # Surface the top failing selectors
+            top_failures = sorted(
+                [
+                    {"target": desc or "", "error_type": etype, "occurrences": cnt}
+                    for desc, etype, cnt in failing_steps
+                ],
+                key=lambda x: -x["occurrences"],
+            )[:5]
+            drifted.append({
+                "module_id": mid,
+                "module_name": module_map.get(mid, mid),
+                "runs_checked": total_runs,
+                "failed_runs": failed_runs,
+                "fail_rate_pct": round(fail_rate * 100),
+                "severity": "high" if fail_rate >= HIGH_THRESHOLD else "medium",
+                "top_failing_selectors": top_failures,
+                "recommendation": (
+                    f"Re-explore the '{module_map.get(mid, mid)}' module — "
+                    f"{round(fail_rate*100)}% of recent KG-based runs are failing on "
+                    f"selector errors, suggesting the UI has changed."
+                ),
+            })
+        else:
+            healthy.append({
+                "module_id": mid,
+                "module_name": module_map.get(mid, mid),
+                "runs_checked": total_runs,
+                "fail_rate_pct": round(fail_rate * 100),
+            })
+
+    # Sort drifted by severity
+    drifted.sort(key=lambda x: -x["fail_rate_pct"])
+
+    return {
+        "drifted_modules": drifted,
+        "healthy_modules": healthy,
+        "total_checked": len(runs_by_module),
+        "drift_detected": len(drifted) > 0,
+    }
+
+
+async def last_triggers(db: AsyncSession, application_id: str) -> dict[str, datetime]:
+    """Module id → when the policy last queued a re-exploration of it."""
+    rows = await db.execute(
+        select(DriftPolicyEvent.module_id, func.max(DriftPolicyEvent.created_at))
+        .where(
+            DriftPolicyEvent.application_id == application_id,
+            DriftPolicyEvent.action == "triggered",
+        )
+        .group_by(DriftPolicyEvent.module_id)
+    )
+    return {mid: at for mid, at in rows.all() if mid}
+
+
+def due_modules(policy: DriftPolicy, report: dict, triggered: dict[str, datetime], now: datetime) -> list[dict]:
+    """Drifted modules that meet the policy's severity and run count and are out of cooldown."""
+    min_rank = SEVERITY_RANK.get(policy.min_severity or "high", 2)
+    cooldown = timedelta(hours=policy.cooldown_hours or 0)
+    due = []
+    for mod in report.get("drifted_modules", []):
+        if SEVERITY_RANK.get(mod["severity"], 0) < min_rank:
+            continue
+        if mod["runs_checked"] < (policy.min_runs or 1):
+            continue
+        last = triggered.get(mod["module_id"])
+        if last and now - last < cooldown:
+            continue
+        due.append(mod)
+    return due
+
+
+async def kg_backed_scenarios(db: AsyncSession, module_id: str) -> list[tuple[Scenario, ExecutionPlan]]:
+    """Active scenarios of a module whose latest plan was recorded from the knowledge graph."""
+    latest = (
+        select(ExecutionPlan.scenario_id, func.max(ExecutionPlan.version).label("version"))
+        .group_by(ExecutionPlan.scenario_id)
+        .subquery()
+    )
+    rows = await db.execute(
+        select(Scenario, ExecutionPlan)
+        .join(ExecutionPlan, ExecutionPlan.scenario_id == Scenario.id)
+        .join(latest, (latest.c.scenario_id == ExecutionPlan.scenario_id) & (latest.c.version == ExecutionPlan.version))
+        .where(
+            Scenario.module_id == module_id,
+            Scenario.is_active == True,
+            ExecutionPlan.created_by_model == "kg_recorded",
+        )
+    )
+    return list(rows.tuples().all())
@@ -0,0 +1,179 @@
+"""
+Knowledge Graph Diff — what changed in the application between two KG versions.
+Pure functions over stored `graph_data` snapshots; nothing here touches the database.
+
+Pages and workflows are re-created on every exploration, so their ids differ between
+versions. Pages are matched on their normalized URL path (title when there is no URL),
+workflows on module + name, modules on id and then on name. Forms are compared by
+name using the flattened `form_fields` each page node carries.
+"""
+from __future__ import annotations
+from collections import defaultdict
+from typing import Any
+from urllib.parse import urlsplit
+
+
+def _norm_url(url: str) -> str:
+    parts = urlsplit(url or "")
+    path = (parts.path or "").rstrip("/").lower() or "/"
+    return f"{path}#{parts.fragment.lower()}" if parts.fragment else path
+
+
+def _stage_label(stage: Any) -> str:
+    if not isinstance(stage, dict):
+        return str(stage)
+    action = str(stage.get("action") or "").strip()
+    target = str(stage.get("target") or "").strip()[:80]
+    if action and target:
+        return f"{action} {target}"
+    return action or str(stage.get("description") or stage.get("name") or "").strip()
+
+
+class _Snapshot:
+    """Index of one graph_data blob: modules, pages and workflows keyed for matching."""
+
+    def __init__(self, graph: dict):
+        nodes = graph.get("nodes") or []
+        by_id = {n.get("id"): n for n in nodes}
+        self.modules: dict[str, dict] = {n["id"]: n for n in nodes if n.get("type") == "module"}
+        parent: dict[str, str] = {}
+        for e in graph.get("edges") or []:
+            if e.get("type") in ("has_page", "has_workflow") and e.get("from") in self.modules:
+                parent[e.get("to")] = e["from"]
+
+        self.pages: dict[tuple[str, str], dict] = {}
+        self.workflows: dict[tuple[str, str], dict] = {}
+        for node_id, module_id in parent.items():
+            n = by_id.get(node_id)
+            if not n:
+                continue
+            if n.get("type") == "page":
+                key = _norm_url(n["url"]) if n.get("url") else f"title:{(n.get('label') or '').lower()}"
+                self.pages.setdefault((module_id, key), n)
+            elif n.get("type") == "workflow":
+                self.workflows.setdefault((module_id, (n.get("label") or "").strip().lower()), n)
+
+    def forms(self, page: dict) -> dict[str, dict[str, dict]]:
+        """{form name: {field label: field}} from the page's flattened form fields."""
+        forms: dict[str, dict[str, dict]] = defaultdict(dict)
+        for f in page.get("form_fields") or []:
+            forms[f.get("form") or "Form"][f.get("field") or "(unlabelled)"] = f
+        return forms
+
+
+def _module_ref(module_id: str, node: dict | None) -> dict:
+    return {"module_id": module_id, "module_name": (node or {}).get("label") or "Unknown module"}
+
+
+def diff_graphs(base: dict, target: dict) -> dict:
+    """
+    Changes from `base` to `target` graph_data. Every entry carries `module_id` and
+    `module_name` so callers can attach the scenarios that live in that module.
+    """
+    old, new = _Snapshot(base or {}), _Snapshot(target or {})
+
+    # Modules keep their ids across explorations; fall back to the name for the rare re-create
+    module_map: dict[str, str] = {mid: mid for mid in old.modules if mid in new.modules}
+    new_by_name = {(n.get("label") or "").lower(): mid for mid, n in new.modules.items() if mid not in module_map.values()}
+    for mid, n in old.modules.items():
+        if mid not in module_map and (n.get("label") or "").lower() in new_by_name:
+            module_map[mid] = new_by_name.pop((n.get("label") or "").lower())
+    matched_new = set(module_map.values())
+
+    modules_added = [
+        {**_module_ref(mid, n), "url_pattern": n.get("url_pattern") or ""}
+        for mid, n in new.modules.items() if mid not in matched_new
+    ]
+    modules_removed = [
+        {**_module_ref(mid, n), "url_pattern": n.get("url_pattern") or ""}
+        for mid, n in old.modules.items() if mid not in module_map
+    ]
+
+    def rekey(items: dict[tuple[str, str], dict]) -> dict[tuple[str, str], tuple[str, dict]]:
+        """Old entries keyed by their module's id in `target`, keeping the original id."""
+        return {(module_map.get(mid, f"removed:{mid}"), key): (mid, n) for (mid, key), n in items.items()}
+
+    def page_entry(mid: str, n: dict, snap: _Snapshot) -> dict:
+        return {
+            **_module_ref(mid, snap.modules.get(mid)),
+            "title": n.get("label") or "",
+            "url": n.get("url") or "",
+            "page_type": n.get("page_type") or "unknown",
+        }
+
+    # ── Pages and their forms ────────────────────────────────────────────────
+    old_pages, new_pages = rekey(old.pages), new.pages
+    pages_added = [page_entry(k[0], n, new) for k, n in new_pages.items() if k not in old_pages]
+    pages_removed = [page_entry(mid, n, old) for k, (mid, n) in old_pages.items() if k not in new_pages]
+
+    forms_changed: list[dict] = []
+    for key, new_page in new_pages.items():
+        if key not in old_pages:
+            continue
+        before, after = old.forms(old_pages[key][1]), new.forms(new_page)
+        for form in sorted(set(before) | set(after)):
+            b, a = before.get(form, {}), after.get(form, {})
+            changed = [
+                {
+                    "field": name,
+                    "before": {"type": b[name].get("type"), "required": bool(b[name].get("required"))},
+                    "after": {"type": a[name].get("type"), "required": bool(a[name].get("required"))},
+                }
+                for name in sorted(set(a) & set(b))
+                if (b[name].get("type"), bool(b[name].get("required"))) != (a[name].get("type"), bool(a[name].get("required")))
+            ]
+            added, removed = sorted(set(a) - set(b)), sorted(set(b) - set(a))
+            if not (added or removed or changed):
+                continue
+            forms_changed.append({
+                **page_entry(key[0], new_page, new),
+                "form": form,
+                "entity": next((f.get("entity") for f in (a or b).values() if f.get("entity")), ""),
+                "change": "added" if not b else "removed" if not a else "modified",
+                "fields_added": added,
+                "fields_removed": removed,
+                "fields_changed": changed,
+            })
+
+    # ── Workflows ────────────────────────────────────────────────────────────
+    old_wfs, new_wfs = rekey(old.workflows), new.workflows
+
+    def wf_entry(mid: str, n: dict, snap: _Snapshot) -> dict:
+        return {
+            **_module_ref(mid, snap.modules.get(mid)),
+            "name": n.get("label") or "",
+            "workflow_type": n.get("workflow_type") or "unknown",
+        }
+
+    workflows_added = [wf_entry(k[0], n, new) for k, n in new_wfs.items() if k not in old_wfs]
+    workflows_removed = [wf_entry(mid, n, old) for k, (mid, n) in old_wfs.items() if k not in new_wfs]
+    workflows_changed = []
+    for key, new_wf in new_wfs.items():
+        if key not in old_wfs:
+            continue
+        before = [_stage_label(s) for s in old_wfs[key][1].get("stages") or []]
+        after = [_stage_label(s) for s in new_wf.get("stages") or []]
+        if before != after:
+            workflows_changed.append({**wf_entry(key[0], new_wf, new), "stages_before": before, "stages_after": after})
+
+    return {
+        "modules_added": modules_added,
+        "modules_removed": modules_removed,
+        "pages_added": pages_added,
+        "pages_removed": pages_removed,
+        "forms_changed": forms_changed,
+        "workflows_added": workflows_added,
+        "workflows_removed": workflows_removed,
+        "workflows_changed": workflows_changed,
+    }
+
+
+def attach_scenarios(diff: dict, scenarios_by_module: dict[str, list[str]]) -> set[str]:
+    """Tag every change with the ids of the scenarios in its module; returns all of them."""
+    affected: set[str] = set()
+    for entries in diff.values():
+        for entry in entries:
+            ids = scenarios_by_module.get(entry["module_id"], [])
+            entry["scenario_ids"] = ids
+            affected.update(ids)
+    return affected
@@ -0,0 +1,67 @@
+"""
+Member Service — workspace membership rules shared by the workspaces and auth routers.
+
+Every workspace keeps at least one OWNER: the last owner can't be demoted, removed
+or leave. Admins manage members up to their own level; only owners touch owners.
+"""
+from __future__ import annotations
+
+from sqlalchemy import func, select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from config import settings
+from app.core.security import create_invite_token, decode_invite_token
+from app.db.models import User, WorkspaceInvite, WorkspaceMember, WorkspaceRole
+
+
+def normalize_email(email: str) -> str:
+    return email.strip().lower()
+
+
+async def member_counts(db: AsyncSession, workspace_ids: list[str]) -> dict[str, int]:
+    if not workspace_ids:
+        return {}
+    rows = (await db.execute(
+        select(WorkspaceMember.workspace_id, func.count(WorkspaceMember.id))
+        .where(WorkspaceMember.workspace_id.in_(workspace_ids))
+        .group_by(WorkspaceMember.workspace_id)
+    )).all()
+    return dict(rows)
+
+
+async def owner_count(db: AsyncSession, workspace_id: str) -> int:
+    return (await db.execute(
+        select(func.count(WorkspaceMember.id)).where(
+            WorkspaceMember.workspace_id == workspace_id,
+            WorkspaceMember.role == WorkspaceRole.OWNER,
+        )
+    )).scalar_one()
+
+
+async def find_user_by_email(db: AsyncSession, email: str) -> User | None:
+    return (await db.execute(
+        select(User).where(func.lower(User.email) == normalize_email(email))
+    )).scalar_one_or_none()
+
+
+def invite_url(invite: WorkspaceInvite) -> str:
+    """Sign-up link for a pending invite. Holding it is what proves the invitee owns the address."""
+    return f"{settings.FRONTEND_URL.rstrip('/')}/signup?invite={create_invite_token(invite.id, invite.email)}"
+
+
+async def find_invite(db: AsyncSession, token: str, email: str) -> WorkspaceInvite | None:
+    """The pending invite an invite link stands for, if it is valid and addressed to `email`."""
+    decoded = decode_invite_token(token)
+    if not decoded:
+        return None
+    invite_id, invited_email = decoded
+    invite = await db.get(WorkspaceInvite, invite_id)
+    if not invite or invite.email != invited_email or invite.email != normalize_email(email):
+        return None
+    return invite
+
+
+async def accept_invite(db: AsyncSession, user: User, invite: WorkspaceInvite) -> None:
+    """Turn an invite found with `find_invite` into a membership. The caller commits."""
+    db.add(WorkspaceMember(workspace_id=invite.workspace_id, user_id=user.id, role=invite.role))
+    await db.delete(invite)
@@ -0,0 +1,66 @@
+"""
+Quarantine Service — keeps known-flaky scenarios from skewing quality numbers.
+A quarantined scenario still runs; each run records `quarantined: true` in its
+`browser_metadata` at enqueue time, and every rollup (batch quality score, batch
+history, trends) leaves those runs out. After QUARANTINE_EXIT_PASSES consecutive
+passes the scenario is released automatically.
+"""
+from __future__ import annotations
+from datetime import datetime
+
+import structlog
+from sqlalchemy import select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from config import settings
+from app.db.models import ExecutionRun, ExecutionStatus, Scenario
+
+log = structlog.get_logger()
+
+
+def is_quarantined_run(run: ExecutionRun) -> bool:
+    return bool((run.browser_metadata or {}).get("quarantined"))
+
+
+async def quarantined_scenario_ids(db: AsyncSession, scenario_ids: list[str]) -> set[str]:
+    if not scenario_ids:
+        return set()
+    result = await db.execute(
+        select(Scenario.id).where(Scenario.id.in_(scenario_ids), Scenario.is_quarantined == True)
+    )
+    return set(result.scalars().all())
+
+
+def quarantine(scenario: Scenario, reason: str | None) -> None:
+    scenario.is_quarantined = True
+    scenario.quarantined_at = datetime.utcnow()
+    scenario.quarantine_reason = reason
+    scenario.quarantine_pass_streak = 0
+
+
+def release(scenario: Scenario) -> None:
+    scenario.is_quarantined = False
+    scenario.quarantined_at = None
+    scenario.quarantine_reason = None
+    scenario.quarantine_pass_streak = 0
+
+
+async def record_run_outcome(db: AsyncSession, run_id: str) -> None:
+    """Advance or reset the pass streak of a quarantined scenario once its run has finished."""
+    run = await db.get(ExecutionRun, run_id, populate_existing=True)
+    if not run or not is_quarantined_run(run):
+        return
+    if run.status not in (ExecutionStatus.COMPLETED, ExecutionStatus.FAILED, ExecutionStatus.PARTIAL):
+        return
+    scenario = await db.get(Scenario, run.scenario_id)
+    if not scenario or not scenario.is_quarantined:
+        return
+
+    if run.status == ExecutionStatus.COMPLETED:
+        scenario.quarantine_pass_streak = (scenario.quarantine_pass_streak or 0) + 1
+        if scenario.quarantine_pass_streak >= settings.QUARANTINE_EXIT_PASSES:
+            release(scenario)
+            log.info("Scenario released from quarantine", scenario_id=scenario.id, run_id=run_id)
+    else:
+        scenario.quarantine_pass_streak = 0
+    await db.commit()
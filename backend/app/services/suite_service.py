@@ -0,0 +1,68 @@
+"""
+Suite Service — turns a TestSuite definition into the scenario ids to run.
+Explicit suites keep their pinned order minus scenarios deleted since; query suites
+are evaluated against the live scenario table, so a new CRITICAL "checkout" scenario
+joins the suite without anyone editing it. The frontend preview (`suiteMatches` in
+lib/api.ts) mirrors `_matches` — keep the two in step.
+"""
+from __future__ import annotations
+from typing import Any
+
+from sqlalchemy import select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from app.db.models import Scenario, ScenarioPriority, TestSuite
+
+
+def normalize_query(raw: dict[str, Any] | None) -> dict[str, Any]:
+    """Canonical query dict: known keys only, deduped, tags lower-cased."""
+    raw = raw or {}
+    priorities = [p for p in dict.fromkeys(str(p).upper() for p in raw.get("priorities") or [])
+                  if p in ScenarioPriority.__members__]
+    tags = list(dict.fromkeys(str(t).strip().lower() for t in raw.get("tags") or [] if str(t).strip()))
+    return {
+        "priorities": priorities,
+        "tags": tags,
+        "module_ids": list(dict.fromkeys(raw.get("module_ids") or [])),
+        "smoke_only": bool(raw.get("smoke_only")),
+    }
+
+
+def _matches(scenario: Scenario, query: dict[str, Any]) -> bool:
+    if query["priorities"] and (scenario.priority.value if scenario.priority else "MEDIUM") not in query["priorities"]:
+        return False
+    if query["module_ids"] and scenario.module_id not in query["module_ids"]:
+        return False
+    if query["smoke_only"] and not scenario.is_smoke:
+        return False
+    scenario_tags = {str(t).lower() for t in scenario.tags or []}
+    return all(tag in scenario_tags for tag in query["tags"])
+
+
+def select_scenarios(
+    scenarios: list[Scenario],
+    kind: str,
+    scenario_ids: list[str] | None,
+    query: dict[str, Any] | None,
+) -> list[str]:
+    """Apply a suite definition to already-loaded active scenarios of its application."""
+    if kind == "explicit":
+        present = {s.id for s in scenarios}
+        return [sid for sid in dict.fromkeys(scenario_ids or []) if sid in present]
+    q = normalize_query(query)
+    return [s.id for s in scenarios if _matches(s, q)]
+
+
+async def load_active_scenarios(db: AsyncSession, application_id: str) -> list[Scenario]:
+    result = await db.execute(
+        select(Scenario)
+        .where(Scenario.application_id == application_id, Scenario.is_active == True)
+        .order_by(Scenario.created_at)
+    )
+    return list(result.scalars().all())
+
+
+async def resolve_suite(db: AsyncSession, suite: TestSuite) -> list[str]:
+    """Ids of the active scenarios the suite selects right now, in run order."""
+    scenarios = await load_active_scenarios(db, suite.application_id)
+    return select_scenarios(scenarios, suite.kind, suite.scenario_ids, suite.query)
@@ -0,0 +1,75 @@
+"""
+Trend Service — pass-rate, flakiness and healing trends over finished runs.
+Pure functions over `RunOutcome` rows so the reports endpoint only has to load
+runs; nothing here touches the database.
+
+Flakiness only compares runs of the *same plan*: a scenario that fails after its
+plan was regenerated changed, it didn't flake. Score = status flips between
+consecutive same-plan runs / comparable pairs, so 0 is stable and 1 alternates
+on every run.
+"""
+from __future__ import annotations
+from collections import defaultdict
+from dataclasses import dataclass
+from datetime import date, datetime
+from typing import Iterable
+
+
+@dataclass(frozen=True)
+class RunOutcome:
+    scenario_id: str
+    plan_id: str
+    passed: bool
+    healed_steps: int
+    at: datetime
+
+
+def pass_rate(outcomes: list[RunOutcome]) -> float | None:
+    if not outcomes:
+        return None
+    return round(sum(o.passed for o in outcomes) / len(outcomes) * 100, 1)
+
+
+def daily_series(outcomes: Iterable[RunOutcome]) -> list[dict]:
+    """[{date, total, passed, pass_rate}] for each day that had runs, oldest first."""
+    days: dict[date, list[RunOutcome]] = defaultdict(list)
+    for o in outcomes:
+        days[o.at.date()].append(o)
+    return [
+        {
+            "date": day.isoformat(),
+            "total": len(items),
+            "passed": sum(o.passed for o in items),
+            "pass_rate": pass_rate(items),
+        }
+        for day, items in sorted(days.items())
+    ]
+
+
+def split_halves(outcomes: list[RunOutcome], since: datetime, until: datetime) -> tuple[list[RunOutcome], list[RunOutcome]]:
+    """(earlier, recent) halves of the time window, for period-over-period deltas."""
+    midpoint = since + (until - since) / 2
+    return [o for o in outcomes if o.at < midpoint], [o for o in outcomes if o.at >= midpoint]
+
+
+def flakiness(outcomes: list[RunOutcome]) -> tuple[float, int, int]:
+    """(score, flips, comparable pairs) for one scenario's runs, oldest first."""
+    by_plan: dict[str, list[bool]] = defaultdict(list)
+    for o in outcomes:
+        by_plan[o.plan_id].append(o.passed)
+    flips = pairs = 0
+    for results in by_plan.values():
+        pairs += max(len(results) - 1, 0)
+        flips += sum(1 for a, b in zip(results, results[1:]) if a != b)
+    return (round(flips / pairs, 3) if pairs else 0.0), flips, pairs
+
+
+def slope(values: list[int]) -> float:
+    """Least-squares slope per run; 0 with fewer than three points."""
+    n = len(values)
+    if n < 3:
+        return 0.0
+    mean_x = (n - 1) / 2
+    mean_y = sum(values) / n
+    denom = sum((x - mean_x) ** 2 for x in range(n))
+    return round(sum((x - mean_x) * (y - mean_y) for x, y in enumerate(values)) / denom, 3)
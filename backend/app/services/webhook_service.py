@@ -0,0 +1,363 @@
+"""
+Webhook Service — turns lifecycle broadcasts into signed outbound HTTP deliveries.
+
+`on_broadcast` is registered as a ConnectionManager listener, so every event that
+reaches the browser tabs is also considered for webhooks. Matching events are
+expanded into a summary payload (run, batch or explore) and queued as one
+WebhookDelivery per subscribed webhook; app/jobs/webhook_job.py sends them.
+
+Receivers verify `X-QAptain-Signature`, an HMAC-SHA256 of "<timestamp>.<body>"
+keyed with the webhook secret, and deduplicate on the payload `id`, which stays
+the same across retries and redeliveries.
+"""
+from __future__ import annotations
+import asyncio
+import hashlib
+import hmac
+import json
+import secrets
+import time
+import uuid
+from datetime import datetime, timedelta
+from typing import Any
+
+import structlog
+from sqlalchemy import select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from config import settings
+from app.core.outbound import post_public
+from app.core.security import decrypt_credential
+from app.db.models import (
+    Application, Environment, ExecutionRun, ExecutionStatus, ExploreSession, ExploreStatus,
+    HumanDecision, Scenario, Webhook, WebhookDelivery, Workspace,
+)
+from app.services.quarantine_service import is_quarantined_run
+
+log = structlog.get_logger()
+
+WEBHOOK_EVENTS = (
+    "run_completed",
+    "run_failed",
+    "batch_completed",
+    "batch_failed",
+    "explore_completed",
+    "human_decision_required",
+)
+PING_EVENT = "ping"
+
+SECRET_PREFIX = "whsec_"
+SIGNATURE_HEADER = "X-QAptain-Signature"
+
+# Wait before attempt 2, 3, ... — the last delay repeats until WEBHOOK_MAX_ATTEMPTS
+_RETRY_DELAYS = (timedelta(seconds=30), timedelta(minutes=2), timedelta(minutes=10),
+                 timedelta(hours=1), timedelta(hours=4))
+_MAX_RESPONSE_BODY = 2000
+_ATTENTION_LIMIT = 10
+
+# Keeps fire-and-forget recording tasks alive until they finish
+_pending: set[asyncio.Task] = set()
+
+
+def generate_webhook_secret() -> str:
+    return SECRET_PREFIX + secrets.token_urlsafe(32)
+
+
+def sign_payload(secret: str, timestamp: str, body: bytes) -> str:
+    digest = hmac.new(secret.encode(), timestamp.encode() + b"." + body, hashlib.sha256).hexdigest()
+    return f"sha256={digest}"
+
+
+def retry_delay(attempts: int) -> timedelta:
+    """Backoff before the next attempt, given how many attempts were already made."""
+    return _RETRY_DELAYS[min(attempts, len(_RETRY_DELAYS)) - 1]
+
+
+def _link(path: str) -> str:
+    return settings.FRONTEND_URL.rstrip("/") + path
+
+
+# ─── Event → payload ──────────────────────────────────────────────────────────
+
+class _Resolved:
+    """What a broadcast event is about: its workspace, application, payload data and severity."""
+
+    def __init__(self, workspace: Workspace, application: Application | None, data: dict, url: str | None,
+                 is_failure: bool):
+        self.workspace = workspace
+        self.application = application
+        self.data = data
+        self.url = url
+        self.is_failure = is_failure
+
+
+async def _run_context(db: AsyncSession, run_id: str) -> tuple[ExecutionRun, Scenario, Application, Workspace] | None:
+    row = (await db.execute(
+        select(ExecutionRun, Scenario, Application, Workspace)
+        .join(Scenario, ExecutionRun.scenario_id == Scenario.id)
+        .join(Application, Scenario.application_id == Application.id)
+        .join(Workspace, Application.workspace_id == Workspace.id)
+        .where(ExecutionRun.id == run_id)
+    )).first()
+    return tuple(row) if row else None
+
+
+async def _environment_name(db: AsyncSession, environment_id: str | None) -> str | None:
+    env = await db.get(Environment, environment_id) if environment_id else None
+    return env.name if env else None
+
+
+async def _resolve_run(db: AsyncSession, event: dict) -> _Resolved | None:
+    ctx = await _run_context(db, event["run_id"])
+    if not ctx:
+        return None
+    run, scenario, app, workspace = ctx
+    meta = run.browser_metadata or {}
+    quarantined = is_quarantined_run(run)
+    data = {
+        "run": {
+            "id": run.id,
+            "scenario_id": scenario.id,
+            "scenario_title": scenario.title,
+            "status": run.status.value if run.status else None,
+            "environment": await _environment_name(db, run.environment_id),
+            "total_steps": run.total_steps or 0,
+            "passed_steps": run.passed_steps or 0,
+            "failed_steps": run.failed_steps or 0,
+            "healed_steps": run.healed_steps or 0,
+            "error_message": run.error_message or event.get("reason") or event.get("error"),
+            "started_at": run.started_at,
+            "completed_at": run.completed_at,
+            "batch_id": meta.get("batch_id"),
+            "quarantined": quarantined,
+        },
+    }
+    is_failure = not quarantined and (
+        event["event"] == "run_failed" or run.status != ExecutionStatus.COMPLETED
+    )
+    return _Resolved(workspace, app, data, _link(f"/workspaces/{workspace.id}/executions/{run.id}"), is_failure)
+
+
+async def _resolve_batch(db: AsyncSession, event: dict) -> _Resolved | None:
+    from app.services.batch_report_service import load_batch, summarize_batch
+
+    run_ids = event.get("run_ids") or []
+    ctx = await _run_context(db, run_ids[0]) if run_ids else None
+    if not ctx:
+        return None
+    run, _, app, workspace = ctx
+    meta = run.browser_metadata or {}
+    batch_id = meta.get("batch_id")
+    if not batch_id:
+        return None
+    report = await summarize_batch(db, batch_id, await load_batch(db, batch_id))
+    data = {
+        "batch": {
+            "id": batch_id,
+            "environment": await _environment_name(db, run.environment_id),
+            "trigger": meta.get("trigger"),
+            "schedule_id": meta.get("schedule_id"),
+            "suite_id": meta.get("suite_id"),
+            "suite_version": meta.get("suite_version"),
+            "reason": event.get("reason"),
+            "duration_seconds": event.get("duration_seconds"),
+            "summary": report["summary"],
+            "scenarios_needing_attention": [
+                item for item in report["scenarios_needing_attention"] if not item.get("quarantined")
+            ][:_ATTENTION_LIMIT],
+        },
+    }
+    is_failure = event["event"] == "batch_failed" or report["summary"]["failed"] > 0
+    return _Resolved(
+        workspace, app, data,
+        _link(f"/workspaces/{workspace.id}/executions/batch?batch_id={batch_id}"), is_failure,
+    )
+
+
+async def _session_context(db: AsyncSession, session_id: str) -> tuple[ExploreSession, Application, Workspace] | None:
+    row = (await db.execute(
+        select(ExploreSession, Application, Workspace)
+        .join(Application, ExploreSession.application_id == Application.id)
+        .join(Workspace, Application.workspace_id == Workspace.id)
+        .where(ExploreSession.id == session_id)
+    )).first()
+    return tuple(row) if row else None
+
+
+async def _resolve_explore(db: AsyncSession, event: dict) -> _Resolved | None:
+    ctx = await _session_context(db, event["session_id"])
+    if not ctx:
+        return None
+    session, app, workspace = ctx
+    url = _link(f"/workspaces/{workspace.id}/explore/{session.id}")
+    if event["event"] == "human_decision_required":
+        decision = await db.get(HumanDecision, event.get("decision_id")) if event.get("decision_id") else None
+        data = {
+            "explore": {"session_id": session.id, "status": session.status.value if session.status else None},
+            "decision": {
+                "id": event.get("decision_id"),
+                "question": event.get("question"),
+                "context": decision.context if decision else None,
+                "options": [o.get("label") for o in event.get("options") or [] if isinstance(o, dict)],
+            },
+        }
+        # A session blocked on a human is always worth a notification
+        return _Resolved(workspace, app, data, url, True)
+
+    data = {
+        "explore": {
+            "session_id": session.id,
+            "status": session.status.value if session.status else None,
+            "modules": event.get("modules", session.modules_discovered),
+            "pages": event.get("pages", session.pages_discovered),
+            "workflows": event.get("workflows", session.workflows_discovered),
+            "scenarios_generated": event.get("scenarios_generated"),
+            "error_message": session.error_message,
+            "started_at": session.started_at,
+            "completed_at": session.completed_at,
+        },
+    }
+    return _Resolved(workspace, app, data, url, session.status == ExploreStatus.FAILED)
+
+
+async def _resolve(db: AsyncSession, event: dict) -> _Resolved | None:
+    name = event.get("event")
+    if name in ("run_completed", "run_failed") and event.get("run_id"):
+        return await _resolve_run(db, event)
+    if name in ("batch_completed", "batch_failed"):
+        return await _resolve_batch(db, event)
+    if name in ("explore_completed", "human_decision_required") and event.get("session_id"):
+        return await _resolve_explore(db, event)
+    return None
+
+
+def build_payload(event: str, workspace: Workspace, application: Application | None, data: dict,
+                  url: str | None) -> dict:
+    return {
+        "id": uuid.uuid4().hex,
+        "event": event,
+        "created_at": datetime.utcnow().isoformat() + "Z",
+        "workspace": {"id": workspace.id, "name": workspace.name},
+        "application": {"id": application.id, "name": application.name} if application else None,
+        "url": url,
+        "data": json.loads(json.dumps(data, default=str)),
+    }
+
+
+# ─── Queueing ─────────────────────────────────────────────────────────────────
+
+def queue_delivery(db: AsyncSession, webhook: Webhook, payload: dict,
+                   redelivery_of: str | None = None) -> WebhookDelivery:
+    delivery = WebhookDelivery(
+        webhook_id=webhook.id,
+        event=payload["event"],
+        event_id=payload["id"],
+        payload=payload,
+        status="pending",
+        attempts=0,
+        next_attempt_at=datetime.utcnow(),
+        redelivery_of=redelivery_of,
+    )
+    db.add(delivery)
+    return delivery
+
+
+async def record_event(event: dict) -> int:
+    """Queue deliveries of one broadcast event to every subscribed webhook. Returns how many."""
+    from app.db.session import AsyncSessionFactory
+    from app.jobs.webhook_job import wake_dispatcher
+
+    async with AsyncSessionFactory() as db:
+        resolved = await _resolve(db, event)
+        if not resolved:
+            return 0
+        webhooks = (await db.execute(
+            select(Webhook).where(Webhook.workspace_id == resolved.workspace.id, Webhook.is_active == True)
+        )).scalars().all()
+        targets = [
+            w for w in webhooks
+            if event["event"] in (w.events or []) and (resolved.is_failure or not w.failures_only)
+        ]
+        if not targets:
+            return 0
+        payload = build_payload(event["event"], resolved.workspace, resolved.application, resolved.data, resolved.url)
+        for webhook in targets:
+            queue_delivery(db, webhook, payload)
+        await db.commit()
+
+    wake_dispatcher()
+    return len(targets)
+
+
+async def _record_safely(event: dict) -> None:
+    try:
+        await record_event(event)
+    except Exception as e:
+        log.error("Webhook event recording failed", webhook_event=event.get("event"), error=str(e)[:300])
+
+
+def on_broadcast(event: dict[str, Any]) -> None:
+    """ConnectionManager listener — runs on the main loop, so it only schedules work."""
+    if event.get("event") not in WEBHOOK_EVENTS:
+        return
+    task = asyncio.get_running_loop().create_task(_record_safely(dict(event)))
+    _pending.add(task)
+    task.add_done_callback(_pending.discard)
+
+
+# ─── Sending ──────────────────────────────────────────────────────────────────
+
+async def send_delivery(db: AsyncSession, delivery: WebhookDelivery, webhook: Webhook) -> WebhookDelivery:
+    """
+    Make one attempt and record its outcome. Any 2xx is success; anything else,
+    including redirects, schedules a retry until WEBHOOK_MAX_ATTEMPTS is reached.
+    The URL is re-resolved and must still be public; only 2xx response bodies are kept.
+    """
+    body = json.dumps(delivery.payload, separators=(",", ":"), default=str).encode()
+    started = time.monotonic()
+    status_code: int | None = None
+    response_body: str | None = None
+    error: str | None = None
+    try:
+        timestamp = str(int(time.time()))
+        headers = {
+            "Content-Type": "application/json",
+            "User-Agent": f"QAptain-Webhooks/{settings.APP_VERSION}",
+            "X-QAptain-Event": delivery.event,
+            "X-QAptain-Delivery": delivery.id,
+            "X-QAptain-Timestamp": timestamp,
+            SIGNATURE_HEADER: sign_payload(decrypt_credential(webhook.encrypted_secret), timestamp, body),
+        }
+        response = await post_public(
+            webhook.url, content=body, headers=headers,
+            timeout=settings.WEBHOOK_TIMEOUT_SECONDS, label="Webhook URL",
+        )
+        status_code = response.status_code
+        if 200 <= status_code < 300:
+            response_body = response.text[:_MAX_RESPONSE_BODY]
+        else:
+            error = f"HTTP {status_code}"
+    except Exception as e:
+        # Network errors, timeouts, and a secret that no longer decrypts all count as a failed attempt
+        error = f"{type(e).__name__}: {e}"[:500]
+
+    now = datetime.utcnow()
+    delivery.attempts = (delivery.attempts or 0) + 1
+    delivery.response_status = status_code
+    delivery.response_body = response_body
+    delivery.error = error
+    delivery.duration_ms = int((time.monotonic() - started) * 1000)
+    if error is None:
+        delivery.status = "delivered"
+        delivery.delivered_at = now
+        delivery.next_attempt_at = None
+    elif delivery.attempts >= settings.WEBHOOK_MAX_ATTEMPTS:
+        delivery.status = "failed"
+        delivery.next_attempt_at = None
+    else:
+        delivery.next_attempt_at = now + retry_delay(delivery.attempts)
+    await db.commit()
+
+    log.info("Webhook delivery attempt", delivery_id=delivery.id, webhook_id=webhook.id,
+             webhook_event=delivery.event, attempt=delivery.attempts, status=delivery.status, error=error)
+    return delivery
@@ -26,6 +26,13 @@ from app.api.v1 import (
     reports,
     health,
     datasets,
+    schedules,
+    suites,
+    api_tokens,
+    ci,
+    webhooks,
+    defects,
+    audit,
 )
 from app.db.session import engine, Base
 from app.db.models import ExecutionRun, ExecutionStatus
@@ -72,9 +79,34 @@ async def lifespan(app: FastAPI):
     # so they can post WebSocket broadcasts back to it.
     from app.jobs.execution_job import set_main_loop
     set_main_loop(asyncio.get_running_loop())
+    # Recurring batch runs (BatchSchedule) — polled on the main loop
+    scheduler_task = None
+    drift_task = None
+    if settings.SCHEDULER_ENABLED:
+        from app.jobs.schedule_job import run_scheduler
+        scheduler_task = asyncio.create_task(run_scheduler())
+        # Drift policies — re-explore and re-plan modules whose KG selectors stopped matching
+        from app.jobs.drift_job import run_drift_policies
+        drift_task = asyncio.create_task(run_drift_policies())
+    # Broadcasts only reach sockets whose user belongs to the event's workspace
+    from app.realtime.access import resolve_workspace
+    connection_manager.set_workspace_resolver(resolve_workspace)
+    # Outbound webhooks — lifecycle broadcasts are queued as deliveries and sent here
+    from app.jobs.webhook_job import run_webhook_dispatcher
+    from app.services.webhook_service import on_broadcast
+    connection_manager.add_listener(on_broadcast)
+    # Failing runs are filed with the workspace's defect tracker when auto-file is on
+    from app.services.defect_service import on_broadcast as file_defects_on_broadcast
+    connection_manager.add_listener(file_defects_on_broadcast)
+    webhook_task = asyncio.create_task(run_webhook_dispatcher())
     log.info("QAptain ready")
     yield
     log.info("QAptain shutting down")
+    if scheduler_task:
+        scheduler_task.cancel()
+    if drift_task:
+        drift_task.cancel()
+    webhook_task.cancel()
 
 
 app = FastAPI(
@@ -106,6 +138,13 @@ app.include_router(explore.router, prefix="/api/v1/explore", tags=["explore"])
 app.include_router(knowledge.router, prefix="/api/v1/knowledge", tags=["knowledge"])
 app.include_router(reports.router, prefix="/api/v1/reports", tags=["reports"])
 app.include_router(datasets.router, prefix="/api/v1/datasets", tags=["datasets"])
+app.include_router(schedules.router, prefix="/api/v1/schedules", tags=["schedules"])
+app.include_router(suites.router, prefix="/api/v1/suites", tags=["suites"])
+app.include_router(api_tokens.router, prefix="/api/v1/workspaces", tags=["api-tokens"])
+app.include_router(ci.router, prefix="/api/v1/ci", tags=["ci"])
+app.include_router(webhooks.router, prefix="/api/v1/workspaces", tags=["webhooks"])
+app.include_router(defects.router, prefix="/api/v1/defects", tags=["defects"])
+app.include_router(audit.router, prefix="/api/v1/audit", tags=["audit"])
 
 # WebSocket endpoint
 from app.realtime.websocket import websocket_endpoint
@@ -115,7 +154,8 @@ from fastapi import WebSocket
 async def websocket_route(websocket: WebSocket, client_id: str):
     await websocket_endpoint(websocket, client_id)
 
-# Static file serving for artifacts
+# Static file serving for artifacts (step screenshots and run videos used by the replay view).
+# Create the directory up-front so a fresh deployment still gets the mount.
 import os
-if os.path.exists(settings.ARTIFACTS_DIR):
-    app.mount("/artifacts", StaticFiles(directory=settings.ARTIFACTS_DIR), name="artifacts")
+os.makedirs(settings.ARTIFACTS_DIR, exist_ok=True)
+app.mount("/artifacts", StaticFiles(directory=settings.ARTIFACTS_DIR), name="artifacts")
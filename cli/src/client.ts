@@ -0,0 +1,51 @@
+import type { BatchExportFormat, CiBatchStatus, CiTriggerInput, CiTriggerResult } from '../../frontend/src/lib/api';
+
+/** A non-2xx response (or a network failure, with `status` 0) from the QAptain API. */
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Minimal REST client for the CI endpoints. Authenticates with a workspace API token
+ * (`qapt_…`) — the same bearer header the web app sends with a session JWT.
+ */
+export class QaptainClient {
+  constructor(private readonly apiUrl: string, private readonly token: string) {}
+
+  trigger(input: CiTriggerInput): Promise<CiTriggerResult> {
+    return this.request('/ci/trigger', { method: 'POST', body: JSON.stringify(input) }).then((r) => r.json());
+  }
+
+  batchStatus(batchId: string): Promise<CiBatchStatus> {
+    return this.request(`/ci/batches/${batchId}`).then((r) => r.json());
+  }
+
+  exportBatch(batchId: string, format: BatchExportFormat): Promise<string> {
+    return this.request(`/executions/batch/${batchId}/export?format=${format}`, {}, 120_000).then((r) => r.text());
+  }
+
+  private async request(path: string, init: RequestInit = {}, timeoutMs = 30_000): Promise<Response> {
+    let res: Response;
+    try {
+      res = await fetch(`${this.apiUrl}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.token}` },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (e) {
+      throw new ApiError(`Could not reach ${this.apiUrl}: ${e instanceof Error ? e.message : String(e)}`, 0);
+    }
+    if (!res.ok) {
+      let detail = res.statusText;
+      try {
+        const body = await res.json();
+        if (typeof body?.detail === 'string') detail = body.detail;
+      } catch {}
+      throw new ApiError(`${init.method ?? 'GET'} ${path} failed (${res.status}): ${detail}`, res.status);
+    }
+    return res;
+  }
+}
@@ -0,0 +1,283 @@
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import type { BatchExportFormat, CiBatchStatus, CiTriggerInput } from '../../frontend/src/lib/api';
+import { ApiError, QaptainClient } from './client';
+import { streamRuns, type StreamEvent } from './stream';
+
+const VERSION = '0.1.0';
+
+/** Exit codes — pipelines branch on these, so never renumber them. */
+const EXIT_PASSED = 0;
+const EXIT_FAILED = 1;
+const EXIT_ERROR = 2;
+
+const FINAL_STATUSES = new Set(['COMPLETED', 'FAILED', 'PARTIAL', 'CANCELLED']);
+const EXECUTION_MODES = ['smoke', 'functional', 'regression'] as const;
+
+const HELP = `qaptain ${VERSION} — run QAptain tests from CI
+
+Usage:
+  qaptain run  --app <id> [options]   Trigger a batch and wait for the verdict
+  qaptain wait <batch-id> [options]   Wait for an already-triggered batch
+
+Connection:
+  --api-url <url>      API base, e.g. https://qa.example.com/api/v1   (env QAPTAIN_API_URL)
+  --ws-url <url>       WebSocket base; derived from --api-url when omitted (env QAPTAIN_WS_URL)
+  --token <token>      Workspace API token                           (env QAPTAIN_TOKEN)
+
+What to run (run only):
+  --app <id>           Application id (required)
+  --env <id|name>      Environment; the application's default when omitted
+  --suite <id|name>    Saved test suite
+  --scenario <id>      Scenario id; repeat for several (not with --suite)
+  --smoke              Only smoke scenarios
+  --mode <mode>        smoke | functional | regression
+
+Gating:
+  --min-score <0-100>  Fail when the batch quality score is below this
+  --allow-failures     Don't fail on failed scenarios (use with --min-score)
+  --allow-incomplete   Don't fail on cancelled or partially run scenarios
+  --timeout <minutes>  Give up waiting after this long (default 60)
+
+Reports (written once the batch finishes):
+  --junit <file>       JUnit XML
+  --html <file>        Standalone HTML report
+  --json <file>        JSON export
+
+Exit codes: 0 passed, 1 failed the gate, 2 usage, API or timeout error.
+`;
+
+class UsageError extends Error {}
+
+function fail(message: string): never {
+  throw new UsageError(message);
+}
+
+function log(message: string) {
+  process.stderr.write(`${message}\n`);
+}
+
+function deriveWsUrl(apiUrl: string): string {
+  const url = new URL(apiUrl);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  url.pathname = url.pathname.replace(/\/api\/v\d+\/?$/, '').replace(/\/$/, '') + '/ws';
+  return url.toString().replace(/\/$/, '');
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'api-url': { type: 'string' },
+      'ws-url': { type: 'string' },
+      token: { type: 'string' },
+      app: { type: 'string' },
+      env: { type: 'string' },
+      suite: { type: 'string' },
+      scenario: { type: 'string', multiple: true },
+      smoke: { type: 'boolean' },
+      mode: { type: 'string' },
+      'min-score': { type: 'string' },
+      'allow-failures': { type: 'boolean' },
+      'allow-incomplete': { type: 'boolean' },
+      timeout: { type: 'string' },
+      junit: { type: 'string' },
+      html: { type: 'string' },
+      json: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      version: { type: 'boolean', short: 'v' },
+    },
+  });
+
+  const [command, ...rest] = positionals;
+  if (values.version) {
+    process.stdout.write(`${VERSION}\n`);
+    return EXIT_PASSED;
+  }
+  if (values.help || !command) {
+    process.stdout.write(HELP);
+    return command || values.help ? EXIT_PASSED : EXIT_ERROR;
+  }
+
+  const apiUrl = (values['api-url'] ?? process.env.QAPTAIN_API_URL)?.replace(/\/$/, '');
+  const token = values.token ?? process.env.QAPTAIN_TOKEN;
+  if (!apiUrl) fail('--api-url (or QAPTAIN_API_URL) is required');
+  if (!token) fail('--token (or QAPTAIN_TOKEN) is required');
+  const wsUrl = (values['ws-url'] ?? process.env.QAPTAIN_WS_URL)?.replace(/\/$/, '') ?? deriveWsUrl(apiUrl);
+
+  const minScore = values['min-score'] !== undefined ? Number(values['min-score']) : undefined;
+  if (minScore !== undefined && !(minScore >= 0 && minScore <= 100)) fail('--min-score must be between 0 and 100');
+  const timeoutMin = values.timeout !== undefined ? Number(values.timeout) : 60;
+  if (!(timeoutMin > 0)) fail('--timeout must be a positive number of minutes');
+
+  const client = new QaptainClient(apiUrl, token);
+  const titles = new Map<string, string>();
+  let batchId: string;
+
+  if (command === 'run') {
+    if (rest.length) fail(`Unexpected argument: ${rest[0]}`);
+    if (!values.app) fail('--app is required');
+    if (values.mode && !(EXECUTION_MODES as readonly string[]).includes(values.mode)) {
+      fail(`--mode must be one of ${EXECUTION_MODES.join(', ')}`);
+    }
+    const input: CiTriggerInput = {
+      application_id: values.app,
+      environment: values.env,
+      suite: values.suite,
+      scenario_ids: values.scenario,
+      smoke_only: values.smoke,
+      execution_mode: values.mode as CiTriggerInput['execution_mode'],
+    };
+    const result = await client.trigger(input);
+    if (!result.batch_id) {
+      log(result.message ?? 'Nothing to run');
+      return EXIT_ERROR;
+    }
+    batchId = result.batch_id;
+    const scope = result.suite ? `suite "${result.suite.name}" v${result.suite.version}` : `${result.total} scenario(s)`;
+    log(`Triggered batch ${batchId}: ${scope} on ${result.environment.name}`);
+    for (const run of result.runs) {
+      if (run.run_id) titles.set(run.run_id, run.title);
+      else log(`  ! ${run.title}: not started — ${run.error ?? 'unknown error'}`);
+    }
+  } else if (command === 'wait') {
+    if (rest.length !== 1) fail('Usage: qaptain wait <batch-id>');
+    batchId = rest[0];
+  } else {
+    fail(`Unknown command "${command}" — see qaptain --help`);
+  }
+
+  const status = await waitForBatch(client, wsUrl, token, batchId, titles, timeoutMin * 60_000);
+  if (!status) {
+    log(`Timed out after ${timeoutMin} min; batch ${batchId} is still running`);
+    return EXIT_ERROR;
+  }
+
+  await writeReports(client, batchId, { junit: values.junit, html: values.html, json: values.json });
+  return verdict(status, minScore, values['allow-failures'] ?? false, values['allow-incomplete'] ?? false);
+}
+
+/**
+ * Streams run progress while polling the batch status, which stays the source of truth:
+ * a run whose final event the stream missed is still reported from the poll. Returns
+ * null on timeout.
+ */
+async function waitForBatch(
+  client: QaptainClient,
+  wsUrl: string,
+  token: string,
+  batchId: string,
+  titles: Map<string, string>,
+  timeoutMs: number,
+): Promise<CiBatchStatus | null> {
+  const reported = new Set<string>();
+  const title = (runId: string) => titles.get(runId) ?? runId.slice(0, 8);
+  const report = (runId: string, line: string) => {
+    if (reported.has(runId)) return;
+    reported.add(runId);
+    log(line);
+  };
+
+  const onEvent = (e: StreamEvent) => {
+    if (!e.run_id) return;
+    switch (e.event) {
+      case 'run_started':
+        log(`  ▶ ${title(e.run_id)}`);
+        break;
+      case 'run_completed': {
+        const ok = e.status === undefined || e.status === 'COMPLETED';
+        const steps = typeof e.total === 'number' ? ` (${e.passed ?? 0}/${e.total} steps)` : '';
+        report(e.run_id, `  ${ok ? '✔' : '✘'} ${title(e.run_id)}${steps}`);
+        break;
+      }
+      case 'run_failed':
+        report(e.run_id, `  ✘ ${title(e.run_id)} — ${e.reason ?? e.error ?? 'failed'}`);
+        break;
+      case 'run_cancelled':
+        report(e.run_id, `  ■ ${title(e.run_id)} cancelled`);
+        break;
+    }
+  };
+
+  let stopStream = titles.size ? streamRuns(wsUrl, token, [...titles.keys()], onEvent, log) : null;
+  const deadline = Date.now() + timeoutMs;
+  let pollMs = 3_000;
+  try {
+    while (true) {
+      let status: CiBatchStatus;
+      try {
+        status = await client.batchStatus(batchId);
+      } catch (e) {
+        // Ride out restarts and network blips; auth and not-found errors are final
+        if (!(e instanceof ApiError) || (e.status !== 0 && e.status < 500) || Date.now() >= deadline) throw e;
+        log(`  … ${e.message}; retrying`);
+        await new Promise((resolve) => setTimeout(resolve, pollMs));
+        continue;
+      }
+      for (const run of status.runs) {
+        titles.set(run.run_id, run.title);
+        if (!FINAL_STATUSES.has(run.status)) continue;
+        const mark = run.status === 'COMPLETED' ? '✔' : run.status === 'CANCELLED' ? '■' : '✘';
+        report(run.run_id, `  ${mark} ${run.title} (${run.passed_steps}/${run.total_steps} steps, ${run.status.toLowerCase()})`);
+      }
+      // `wait` learns the run ids from the first poll
+      stopStream ??= streamRuns(wsUrl, token, status.runs.map((r) => r.run_id), onEvent, log);
+      if (status.finished) return status;
+      if (Date.now() >= deadline) return null;
+      await new Promise((resolve) => setTimeout(resolve, Math.min(pollMs, Math.max(deadline - Date.now(), 0))));
+      pollMs = Math.min(pollMs * 1.5, 15_000);
+    }
+  } finally {
+    stopStream?.();
+  }
+}
+
+async function writeReports(client: QaptainClient, batchId: string, files: Partial<Record<BatchExportFormat, string>>) {
+  for (const [format, file] of Object.entries(files) as Array<[BatchExportFormat, string | undefined]>) {
+    if (!file) continue;
+    await writeFile(file, await client.exportBatch(batchId, format));
+    log(`Wrote ${format} report to ${file}`);
+  }
+}
+
+function verdict(
+  status: CiBatchStatus, minScore: number | undefined, allowFailures: boolean, allowIncomplete: boolean,
+): number {
+  const s = status.summary;
+  // Anything scored that didn't pass or fail — cancelled, partial, or somehow never finished
+  const incomplete = s.incomplete + s.skipped;
+  const quarantined = s.quarantined ? `, ${s.quarantined} quarantined` : '';
+  log('');
+  log(`Batch ${status.batch_id}: ${s.passed} passed, ${s.failed} failed, ${incomplete} incomplete${quarantined}`);
+  log(`Quality score ${s.quality_score} · pass rate ${s.pass_rate_pct}%`);
+  for (const item of status.scenarios_needing_attention.filter((i) => !i.quarantined)) {
+    log(`  ✘ ${item.module_name} › ${item.scenario_title}: ${item.top_error_type} — ${item.error_message}`);
+  }
+
+  const reasons: string[] = [];
+  if (s.failed > 0 && !allowFailures) reasons.push(`${s.failed} scenario(s) failed`);
+  if (incomplete > 0 && !allowIncomplete) reasons.push(`${incomplete} scenario(s) did not run to completion`);
+  if (minScore !== undefined && s.quality_score < minScore) {
+    reasons.push(`quality score ${s.quality_score} is below --min-score ${minScore}`);
+  }
+  if (reasons.length) {
+    log(`FAILED: ${reasons.join('; ')}`);
+    return EXIT_FAILED;
+  }
+  log('PASSED');
+  return EXIT_PASSED;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (e) => {
+    const parseError = (e as NodeJS.ErrnoException)?.code?.startsWith('ERR_PARSE_ARGS');
+    if (e instanceof UsageError || e instanceof ApiError || parseError) {
+      log(`qaptain: ${e.message}`);
+    } else {
+      log(`qaptain: ${e instanceof Error ? e.stack ?? e.message : String(e)}`);
+    }
+    process.exit(EXIT_ERROR);
+  },
+);
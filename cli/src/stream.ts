@@ -0,0 +1,78 @@
+import { randomUUID } from 'node:crypto';
+import WebSocket from 'ws';
+
+const CLOSE_UNAUTHORIZED = 4401;
+const RECONNECT_DELAY_MS = 2_000;
+
+export type StreamEvent = { event: string; run_id?: string; replay_seq?: number } & Record<string, unknown>;
+
+/**
+ * Live progress for a batch over `/ws`. Subscribes to every run of the batch and, after a
+ * dropped connection, resubscribes with `since_seq` so missed events are replayed. The
+ * stream is best-effort — the caller polls `/ci/batches/{id}` for the verdict.
+ */
+export function streamRuns(
+  wsUrl: string,
+  token: string,
+  runIds: string[],
+  onEvent: (event: StreamEvent) => void,
+  onWarning: (message: string) => void,
+): () => void {
+  const clientId = `qaptain-cli-${randomUUID()}`;
+  let ws: WebSocket | null = null;
+  let epoch: string | undefined;
+  let lastSeq: number | undefined;
+  let closed = false;
+  let warned = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const connect = () => {
+    ws = new WebSocket(`${wsUrl}/${clientId}?token=${encodeURIComponent(token)}`);
+
+    ws.on('open', () => { warned = false; });
+
+    ws.on('message', (data) => {
+      let msg: StreamEvent;
+      try {
+        msg = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      if (msg.event === 'connected') {
+        // A new server epoch means its sequence numbers restarted — replay is impossible
+        const resume = epoch !== undefined && msg.epoch === epoch && lastSeq !== undefined;
+        epoch = typeof msg.epoch === 'string' ? msg.epoch : undefined;
+        for (const runId of runIds) {
+          ws?.send(JSON.stringify(resume ? { subscribe: runId, since_seq: lastSeq, epoch } : { subscribe: runId }));
+        }
+        return;
+      }
+      if (typeof msg.replay_seq === 'number') lastSeq = msg.replay_seq;
+      onEvent(msg);
+    });
+
+    ws.on('close', (code) => {
+      if (closed) return;
+      if (code === CLOSE_UNAUTHORIZED) {
+        onWarning('Live stream rejected the token; falling back to polling');
+        return;
+      }
+      timer = setTimeout(connect, RECONNECT_DELAY_MS);
+    });
+
+    // 'close' follows every 'error', so reconnecting happens there; warn once per outage
+    ws.on('error', (err) => {
+      if (warned) return;
+      warned = true;
+      onWarning(`Live stream unavailable (${err.message}); retrying, progress is polled meanwhile`);
+    });
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    clearTimeout(timer);
+    ws?.close();
+  };
+}
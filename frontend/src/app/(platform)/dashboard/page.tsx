@@ -7,9 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { ArrowRight, PlayCircle, Radar, Brain, CheckCircle2, XCircle, Clock, TrendingUp } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { workspaces as workspacesApi, type Workspace } from '@/lib/api';
-
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api/v1';
+import { auth as authApi, workspaces as workspacesApi, type Workspace } from '@/lib/api';
 
 interface Stats {
   workspaces: number;
@@ -35,13 +33,8 @@ export default function DashboardPage() {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const token = localStorage.getItem('qaptain_token');
-    if (!token) return;
-
-    const headers = { Authorization: `Bearer ${token}` };
-
     Promise.all([
-      fetch(`${API_URL}/auth/me`, { headers }).then((r) => r.json()).catch(() => ({})),
+      authApi.me().catch(() => null),
       workspacesApi.list().catch(() => []),
     ]).then(([user, wsData]) => {
       const list: Workspace[] = Array.isArray(wsData) ? wsData : [];
@@ -53,7 +46,7 @@ export default function DashboardPage() {
         workspaces: list.length,
         totalApps,
         runs: 0,
-        userName: user?.full_name ?? user?.email ?? '',
+        userName: user?.name ?? user?.email ?? '',
         avgReadiness,
       });
       setWorkspaceList(list);
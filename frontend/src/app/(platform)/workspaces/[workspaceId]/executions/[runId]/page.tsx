@@ -1,8 +1,9 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { ExecutionDashboard } from '@/components/execution/ExecutionDashboard';
+import { executions as executionsApi, scenarios as scenariosApi, type ExecutionRun } from '@/lib/api';
 
 export default function ExecutionRunPage() {
   const params = useParams();
@@ -10,12 +11,25 @@ export default function ExecutionRunPage() {
   const workspaceId = params.workspaceId as string;
   const runId = params.runId as string;
   const [navigatingBack, setNavigatingBack] = useState(false);
+  // Other finished runs of the same scenario, newest first — candidates for side-by-side comparison
+  const [siblingRuns, setSiblingRuns] = useState<ExecutionRun[]>([]);
+
+  useEffect(() => {
+    executionsApi.get(runId)
+      .then((r) => scenariosApi.listRuns(r.scenario_id))
+      .then((runs) => setSiblingRuns(runs.filter((r) => r.id !== runId && r.status !== 'QUEUED' && r.status !== 'PENDING')))
+      .catch(() => {});
+  }, [runId]);
 
   const handleBack = () => {
     setNavigatingBack(true);
     router.push(`/workspaces/${workspaceId}`);
   };
 
+  const compareWith = (otherId: string) => {
+    if (otherId) router.push(`/workspaces/${workspaceId}/executions/compare?a=${otherId}&b=${runId}`);
+  };
+
   return (
     <div className="min-h-screen bg-zinc-950 p-6">
       <div className="max-w-5xl mx-auto">
@@ -32,8 +46,22 @@ export default function ExecutionRunPage() {
           </button>
           <span className="text-zinc-700">/</span>
           <span className="text-zinc-400 text-sm">Execution</span>
+          {siblingRuns.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => compareWith(e.target.value)}
+              className="ml-auto text-xs bg-zinc-900 border border-zinc-700 text-zinc-300 rounded-lg px-2.5 py-1.5"
+            >
+              <option value="">Compare with…</option>
+              {siblingRuns.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.status} · {r.started_at ? new Date(r.started_at).toLocaleString() : r.id.slice(0, 8)}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
-        <ExecutionDashboard runId={runId} />
+        <ExecutionDashboard workspaceId={workspaceId} runId={runId} />
       </div>
     </div>
   );
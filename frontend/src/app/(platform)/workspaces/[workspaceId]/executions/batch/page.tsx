@@ -69,7 +69,7 @@ export default function BatchExecutionPage() {
             No execution data found.
           </div>
         ) : (
-          <BatchExecutionDashboard items={items} />
+          <BatchExecutionDashboard workspaceId={workspaceId} items={items} batchId={searchParams.get('batch_id') ?? undefined} />
         )}
       </div>
     </div>
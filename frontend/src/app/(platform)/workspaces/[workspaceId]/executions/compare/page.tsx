@@ -0,0 +1,44 @@
+'use client';
+
+import { useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { RunComparison } from '@/components/execution/RunComparison';
+
+export default function RunComparePage() {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const workspaceId = params.workspaceId as string;
+  const runA = searchParams.get('a');
+  const runB = searchParams.get('b');
+  const [navigatingBack, setNavigatingBack] = useState(false);
+
+  return (
+    <div className="min-h-screen bg-zinc-950 p-6">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center gap-3 mb-6">
+          <button
+            onClick={() => { setNavigatingBack(true); router.push(`/workspaces/${workspaceId}`); }}
+            disabled={navigatingBack}
+            className="flex items-center gap-1.5 text-zinc-500 hover:text-zinc-300 text-sm transition-colors disabled:opacity-60"
+          >
+            {navigatingBack
+              ? <div className="w-3 h-3 border border-zinc-400 border-t-transparent rounded-full animate-spin" />
+              : '←'}
+            Workspace
+          </button>
+          <span className="text-zinc-700">/</span>
+          <span className="text-zinc-400 text-sm">Compare Runs</span>
+        </div>
+
+        {runA && runB ? (
+          <RunComparison runIdA={runA} runIdB={runB} />
+        ) : (
+          <div className="text-zinc-500 text-center py-20 text-sm">
+            Pick two runs to compare — the URL needs both <code>?a=</code> and <code>&amp;b=</code> run ids.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,23 +9,62 @@ import {
   applications as appApi,
   scenarios as scenariosApi,
   explore as exploreApi,
-  reports as reportsApi,
-  executions as executionsApi,
   knowledge as knowledgeApi,
   datasets as datasetsApi,
+  suites as suitesApi,
   type Application,
+  type Environment,
+  type EnvironmentType,
   type Module,
   type Scenario,
   type ReportSummary,
   type BatchHistory,
+  type BatchRun,
   type KgCoverageReport,
   type KgModuleCoverage,
   type TestDatasetItem,
   type PlaywrightScript,
+  type TestSuite,
 } from '@/lib/api';
 import { getSocket } from '@/lib/websocket';
-
-type ActiveTab = 'overview' | 'explore' | 'scenarios' | 'dataset' | 'knowledge' | 'reports' | 'settings';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  queryKeys,
+  invalidateRunResults,
+  useScenarios,
+  useReports,
+  useBatchHistory,
+  useEnvironments,
+  useCreateEnvironment,
+  useUpdateEnvironment,
+  useDeleteEnvironment,
+  useCreateScenario,
+  useUpdateScenario,
+  useDeleteScenario,
+  useSetScenarioQuarantine,
+  useDeleteScenariosByModule,
+  useImportScenarioDocument,
+  useSuites,
+  useKnowledgeCoverage,
+} from '@/lib/queries';
+import { EnvironmentBadge, EnvironmentPicker, ENV_TYPE_CONFIG } from '@/components/workspace/EnvironmentPicker';
+import { SchedulePanel } from '@/components/workspace/SchedulePanel';
+import { RunSuiteMenu, SuitesTab } from '@/components/workspace/SuitesTab';
+import { TrendsPanel } from '@/components/workspace/TrendsPanel';
+import { BatchExportMenu } from '@/components/execution/BatchExportMenu';
+import { ApiTokensPanel } from '@/components/workspace/ApiTokensPanel';
+import { WebhooksPanel } from '@/components/workspace/WebhooksPanel';
+import { DefectTrackerPanel } from '@/components/workspace/DefectTrackerPanel';
+import { DriftPolicyPanel } from '@/components/workspace/DriftPolicyPanel';
+import { MembersPanel } from '@/components/workspace/MembersPanel';
+import { AuditTab } from '@/components/workspace/AuditTab';
+import { KnowledgeMap } from '@/components/workspace/KnowledgeMap';
+import { KnowledgeHistory } from '@/components/workspace/KnowledgeHistory';
+import { ModuleRefreshControl } from '@/components/workspace/ModuleRefresh';
+import { isModuleRefreshSession } from '@/hooks/use-module-refresh';
+import { useWorkspacePermissions } from '@/hooks/use-workspace-permissions';
+
+type ActiveTab = 'overview' | 'explore' | 'scenarios' | 'suites' | 'dataset' | 'knowledge' | 'reports' | 'settings' | 'audit';
 
 export default function WorkspacePage() {
   const params = useParams();
@@ -36,15 +75,28 @@ export default function WorkspacePage() {
   const [tab, setTab] = useState<ActiveTab>('overview');
   const [apps, setApps] = useState<Application[]>([]);
   const [selectedApp, setSelectedApp] = useState<Application | null>(null);
-  const [scenarios, setScenarios] = useState<Scenario[]>([]);
-  const [reports, setReports] = useState<ReportSummary[]>([]);
   const [loading, setLoading] = useState(true);
+  const perms = useWorkspacePermissions(workspaceId);
+
+  // Scenarios and reports are cached per app; mutations and run events invalidate them
+  const queryClient = useQueryClient();
+  const { data: scenarios = [] } = useScenarios(selectedApp?.id);
+  const { data: reports = [] } = useReports(selectedApp?.id, 10);
+  const createScenario = useCreateScenario();
+  const updateScenario = useUpdateScenario(selectedApp?.id ?? '');
+  const deleteScenario = useDeleteScenario(selectedApp?.id ?? '');
+  const setScenarioQuarantine = useSetScenarioQuarantine(selectedApp?.id ?? '');
+  const deleteModuleScenarios = useDeleteScenariosByModule(selectedApp?.id ?? '');
+  const importDocument = useImportScenarioDocument(selectedApp?.id ?? '');
+  const { data: suites = [] } = useSuites(selectedApp?.id);
 
   // Scenario creation
   const [newScenarioTitle, setNewScenarioTitle] = useState('');
   const [newScenarioPriority, setNewScenarioPriority] = useState('MEDIUM');
   const [creatingScenario, setCreatingScenario] = useState(false);
   const [selectedScenarioId, setSelectedScenarioId] = useState<string | null>(null);
+  // Scenario to open once the Scenarios tab shows, e.g. from the KG version diff
+  const [focusScenarioId, setFocusScenarioId] = useState<string | null>(null);
   const [generatingPlan, setGeneratingPlan] = useState(false);
   const [executionMode, setExecutionMode] = useState('functional');
 
@@ -53,8 +105,19 @@ export default function WorkspacePage() {
 
   // Batch run
   const [runningModuleId, setRunningModuleId] = useState<string | null>(null);
-  // Pre-loaded environment — avoids an extra API call on every "Run All" click
-  const [cachedEnv, setCachedEnv] = useState<{ id: string } | null>(null);
+  const [runningSuiteId, setRunningSuiteId] = useState<string | null>(null);
+  // Scenario selection handed from ScenariosTab to the Suites form ("Save as suite")
+  const [suiteDraftIds, setSuiteDraftIds] = useState<string[] | null>(null);
+
+  // Target environment for every run action, remembered per app; falls back to the default
+  const { data: environments = [] } = useEnvironments(selectedApp?.id);
+  const [targetEnvByApp, setTargetEnvByApp] = useState<Record<string, string>>({});
+  const targetEnv = environments.find((e) => e.id === targetEnvByApp[selectedApp?.id ?? ''])
+    ?? environments.find((e) => e.is_default)
+    ?? environments[0];
+  const setTargetEnvId = (envId: string) => {
+    if (selectedApp) setTargetEnvByApp((prev) => ({ ...prev, [selectedApp.id]: envId }));
+  };
   // Live run tracking — updated by WebSocket events
   const [activeRunCount, setActiveRunCount] = useState(0);
 
@@ -96,6 +159,8 @@ export default function WorkspacePage() {
 
   const selectedAppRef = useRef(selectedApp);
   selectedAppRef.current = selectedApp;
+  // Re-explorations queued by the drift policy — they finish in the background, like a module refresh
+  const policySessionsRef = useRef(new Set<string>());
 
   const socket = getSocket();
 
@@ -113,25 +178,33 @@ export default function WorkspacePage() {
 
     const offRunCompleted = socket.on('run_completed', () => {
       setActiveRunCount((n) => Math.max(0, n - 1));
-      if (selectedAppRef.current) {
-        loadReports(selectedAppRef.current.id);
-        loadScenarios(selectedAppRef.current.id);
-      }
+      if (selectedAppRef.current) invalidateRunResults(queryClient, selectedAppRef.current.id);
     });
 
     const offRunFailed = socket.on('run_failed', () => {
       setActiveRunCount((n) => Math.max(0, n - 1));
-      if (selectedAppRef.current) loadReports(selectedAppRef.current.id);
+      if (selectedAppRef.current) invalidateRunResults(queryClient, selectedAppRef.current.id);
     });
 
     const offRunCancelled = socket.on('run_cancelled', () => {
       setActiveRunCount((n) => Math.max(0, n - 1));
     });
 
-    // After exploration finishes → jump to Scenarios tab and refresh
-    const offExploreCompleted = socket.on('explore_completed', () => {
-      setTab('scenarios');
-      if (selectedAppRef.current) loadScenarios(selectedAppRef.current.id);
+    // After exploration finishes → jump to Scenarios tab and refresh.
+    // A module refreshed inline reports its result where it was started instead.
+    const offExploreCompleted = socket.on('explore_completed', (data) => {
+      if (!isModuleRefreshSession(data.session_id) && !policySessionsRef.current.has(data.session_id)) setTab('scenarios');
+      if (selectedAppRef.current) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.scenarios.list(selectedAppRef.current.id) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.explore.knowledge(selectedAppRef.current.id) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.knowledge.all });
+      }
+    });
+
+    const offDriftPolicy = socket.on('drift_policy_event', (data) => {
+      if (data.explore_session_id) policySessionsRef.current.add(data.explore_session_id);
+      queryClient.invalidateQueries({ queryKey: queryKeys.knowledge.driftPolicyEvents(data.application_id) });
+      if (data.action === 'replanned') queryClient.invalidateQueries({ queryKey: queryKeys.scenarios.list(data.application_id) });
     });
 
     return () => {
@@ -140,6 +213,7 @@ export default function WorkspacePage() {
       offRunFailed();
       offRunCancelled();
       offExploreCompleted();
+      offDriftPolicy();
     };
   }, []);
 
@@ -157,13 +231,8 @@ export default function WorkspacePage() {
       setSettingsDesc(selectedApp.description || '');
       setSettingsPassword('');
       setSettingsSaved(false);
-      loadEnv(selectedApp.id);
       // Load saved credentials so user doesn't need to re-enter them after restart
-      const apiBase = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api/v1';
-      fetch(`${apiBase}/applications/${selectedApp.id}/settings`, {
-        headers: { Authorization: `Bearer ${localStorage.getItem('qaptain_token')}` },
-      })
-        .then((r) => r.json())
+      appApi.getSettings(selectedApp.id)
         .then((data) => {
           setSettingsUsername(data.username || '');
           setSettingsHasPassword(!!data.has_password);
@@ -187,11 +256,7 @@ export default function WorkspacePage() {
 
       if (target) {
         setSelectedApp(target);
-        await Promise.all([
-          loadScenarios(target.id),
-          loadReports(target.id),
-          loadEnv(target.id),
-        ]);
+        await loadEnv(target.id);
       }
     } catch (e) {
       console.error('Failed to load workspace data', e);
@@ -200,27 +265,12 @@ export default function WorkspacePage() {
     }
   };
 
-  const loadEnv = async (appId: string) => {
-    try {
-      const envs = await appApi.listEnvironments(appId);
-      const env = envs.find((e) => e.is_default) || envs[0];
-      setCachedEnv(env ? { id: env.id } : null);
-    } catch { setCachedEnv(null); }
-  };
-
-  const loadScenarios = async (appId: string) => {
-    try {
-      const s = await scenariosApi.list(appId);
-      setScenarios(s);
-    } catch { setScenarios([]); }
-  };
-
-  const loadReports = async (appId: string) => {
-    try {
-      const r = await reportsApi.listForApplication(appId, 10);
-      setReports(r);
-    } catch { setReports([]); }
-  };
+  // Warm the environments cache so run actions have a target as soon as the app is shown
+  const loadEnv = (appId: string) =>
+    queryClient.prefetchQuery({
+      queryKey: queryKeys.applications.environments(appId),
+      queryFn: ({ signal }) => appApi.listEnvironments(appId, signal),
+    });
 
   const handleAddApplication = async () => {
     if (!addAppName.trim() || !addAppUrl.trim() || !addAppDesc.trim() || !addAppUser.trim() || !addAppPass.trim()) return;
@@ -246,12 +296,11 @@ export default function WorkspacePage() {
     if (!selectedApp || !newScenarioTitle.trim()) return;
     setCreatingScenario(true);
     try {
-      const scenario = await scenariosApi.create({
+      await createScenario.mutateAsync({
         application_id: selectedApp.id,
         title: newScenarioTitle.trim(),
         priority: newScenarioPriority as Scenario['priority'],
       });
-      setScenarios((s) => [scenario, ...s]);
       setNewScenarioTitle('');
     } catch (e) {
       console.error('Failed to create scenario', e);
@@ -265,14 +314,11 @@ export default function WorkspacePage() {
     setGeneratingPlan(true);
     setSelectedScenarioId(scenarioId);
     try {
+      if (!targetEnv) throw new Error('No environment configured');
       const plan = await scenariosApi.generatePlan(scenarioId, executionMode);
-      const envs = await appApi.listEnvironments(selectedApp.id);
-      const env = envs.find((e) => e.is_default) || envs[0];
-      if (!env) throw new Error('No environment configured');
-
       const run = await scenariosApi.triggerExecution(scenarioId, {
         plan_id: plan.id,
-        environment_id: env.id,
+        environment_id: targetEnv.id,
       });
       try {
         sessionStorage.setItem('qaptain_active_run', JSON.stringify({
@@ -291,71 +337,61 @@ export default function WorkspacePage() {
     }
   };
 
-  const handleRunModule = async (scenarioIds: string[], moduleKey: string) => {
-    if (!selectedApp || scenarioIds.length === 0) return;
-    setRunningModuleId(moduleKey);
+  // Navigate to the run (or batch) page of a freshly launched batch; false if nothing started
+  const openLaunchedBatch = (result: { runs: BatchRun[]; batch_id?: string }): boolean => {
+    const validRuns = result.runs.filter((r) => r.run_id);
+    if (validRuns.length === 0) {
+      const firstError = result.runs.find((r) => r.error);
+      toast.error(`All runs failed: ${firstError?.error || 'Unknown error'}`);
+      return false;
+    }
 
-    // Use pre-loaded env — avoids a blocking API call on every Run All click
-    let envId = cachedEnv?.id;
-    if (!envId) {
+    // Navigate immediately — execution already started in the background
+    if (validRuns.length === 1) {
       try {
-        const envs = await appApi.listEnvironments(selectedApp.id);
-        const env = envs.find((e) => e.is_default) || envs[0];
-        if (!env) { toast.error('No environment configured'); setRunningModuleId(null); return; }
-        envId = env.id;
-        setCachedEnv({ id: env.id });
-      } catch (e) {
-        toast.error('Could not load environment');
-        setRunningModuleId(null);
-        return;
+        sessionStorage.setItem('qaptain_active_run', JSON.stringify({
+          runId: validRuns[0].run_id,
+          workspaceId,
+          title: `${validRuns.length} scenario`,
+        }));
+      } catch {}
+      router.push(`/workspaces/${workspaceId}/executions/${validRuns[0].run_id}`);
+    } else {
+      const batchId = result.batch_id;
+      if (batchId) {
+        try {
+          sessionStorage.setItem('qaptain_active_run', JSON.stringify({
+            runId: null,
+            batchId,
+            workspaceId,
+            title: `${validRuns.length} scenarios batch`,
+          }));
+        } catch {}
+        router.push(`/workspaces/${workspaceId}/executions/batch?batch_id=${batchId}`);
+      } else {
+        // Fallback: encode data directly (small batches only)
+        const batchData = (validRuns as Array<{ run_id: string; title: string }>).map((r) => ({
+          run_id: r.run_id,
+          title: r.title,
+        }));
+        router.push(`/workspaces/${workspaceId}/executions/batch?data=${encodeURIComponent(JSON.stringify(batchData))}`);
       }
     }
+    return true;
+  };
+
+  const handleRunModule = async (scenarioIds: string[], moduleKey: string) => {
+    if (!selectedApp || scenarioIds.length === 0) return;
+    if (!targetEnv) { toast.error('No environment configured'); return; }
+    setRunningModuleId(moduleKey);
 
     try {
       const result = await scenariosApi.runBatch({
         scenario_ids: scenarioIds,
         execution_mode: executionMode,
-        environment_id: envId,
+        environment_id: targetEnv.id,
       });
-
-      const validRuns = result.runs.filter((r: { run_id?: string }) => r.run_id);
-      if (validRuns.length === 0) {
-        const firstError = result.runs.find((r: { error?: string }) => r.error);
-        toast.error(`All runs failed: ${firstError?.error || 'Unknown error'}`);
-        return;
-      }
-
-      // Navigate immediately — execution already started in the background
-      if (validRuns.length === 1) {
-        try {
-          sessionStorage.setItem('qaptain_active_run', JSON.stringify({
-            runId: validRuns[0].run_id,
-            workspaceId,
-            title: `${validRuns.length} scenario`,
-          }));
-        } catch {}
-        router.push(`/workspaces/${workspaceId}/executions/${validRuns[0].run_id}`);
-      } else {
-        const batchId = (result as { batch_id?: string }).batch_id;
-        if (batchId) {
-          try {
-            sessionStorage.setItem('qaptain_active_run', JSON.stringify({
-              runId: null,
-              batchId,
-              workspaceId,
-              title: `${validRuns.length} scenarios batch`,
-            }));
-          } catch {}
-          router.push(`/workspaces/${workspaceId}/executions/batch?batch_id=${batchId}`);
-        } else {
-          // Fallback: encode data directly (small batches only)
-          const batchData = (validRuns as Array<{ run_id: string; title: string }>).map((r) => ({
-            run_id: r.run_id,
-            title: r.title,
-          }));
-          router.push(`/workspaces/${workspaceId}/executions/batch?data=${encodeURIComponent(JSON.stringify(batchData))}`);
-        }
-      }
+      openLaunchedBatch(result);
     } catch (e) {
       console.error('Failed to run module', e);
       toast.error(e instanceof Error ? e.message : 'Failed to run module');
@@ -364,19 +400,54 @@ export default function WorkspacePage() {
     }
   };
 
+  const handleRunSuite = async (suite: TestSuite) => {
+    if (!selectedApp) return;
+    if (!targetEnv) { toast.error('No environment configured'); return; }
+    setRunningSuiteId(suite.id);
+
+    try {
+      const result = await suitesApi.run(suite.id, {
+        execution_mode: executionMode,
+        environment_id: targetEnv.id,
+      });
+      openLaunchedBatch(result);
+    } catch (e) {
+      console.error('Failed to run suite', e);
+      toast.error(e instanceof Error ? e.message : 'Failed to run suite');
+    } finally {
+      setRunningSuiteId(null);
+    }
+  };
+
+  const handleSaveAsSuite = (scenarioIds: string[]) => {
+    setSuiteDraftIds(scenarioIds);
+    setTab('suites');
+  };
+
   const handleDeleteScenario = async (id: string) => {
     try {
-      await scenariosApi.delete(id);
-      setScenarios((s) => s.filter((sc) => sc.id !== id));
+      await deleteScenario.mutateAsync(id);
     } catch (e) {
       console.error('Failed to delete scenario', e);
     }
   };
 
+  const handleToggleQuarantine = async (scenario: Scenario) => {
+    try {
+      await setScenarioQuarantine.mutateAsync({
+        scenarioId: scenario.id,
+        quarantined: !scenario.is_quarantined,
+        reason: scenario.is_quarantined ? undefined : 'Quarantined manually',
+      });
+    } catch (e) {
+      console.error('Failed to update quarantine', e);
+      toast.error(e instanceof Error ? e.message : 'Failed to update quarantine');
+    }
+  };
+
   const handleUpdateScenario = async (id: string, data: { title?: string; description?: string; priority?: string; tags?: string[] }) => {
     try {
-      const updated = await scenariosApi.update(id, data);
-      setScenarios((s) => s.map((sc) => sc.id === id ? { ...sc, ...updated } : sc));
+      await updateScenario.mutateAsync({ scenarioId: id, data });
     } catch (e) {
       console.error('Failed to update scenario', e);
     }
@@ -385,12 +456,7 @@ export default function WorkspacePage() {
   const handleDeleteModule = async (moduleId: string | null) => {
     if (!selectedApp) return;
     try {
-      await scenariosApi.deleteByModule(selectedApp.id, moduleId);
-      if (moduleId && moduleId !== '__none__') {
-        setScenarios((s) => s.filter((sc) => sc.module_id !== moduleId));
-      } else {
-        setScenarios((s) => s.filter((sc) => sc.module_id != null));
-      }
+      await deleteModuleScenarios.mutateAsync(moduleId);
     } catch (e) {
       console.error('Failed to delete module scenarios', e);
     }
@@ -401,14 +467,12 @@ export default function WorkspacePage() {
     setDocUploading(true);
     setDocUploadResult(null);
     try {
-      const result = await scenariosApi.importDocument({
-        application_id: selectedApp.id,
+      const result = await importDocument.mutateAsync({
         module_name: docModuleName.trim(),
         module_url: docModuleUrl.trim(),
         file: docFile,
       });
       setDocUploadResult({ imported: result.imported, module: result.module });
-      await loadScenarios(selectedApp.id);
       // Reset form after success
       setDocModuleName('');
       setDocModuleUrl('');
@@ -490,17 +554,10 @@ export default function WorkspacePage() {
     setSavingSettings(true);
     setSettingsSaved(false);
     try {
-      await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api/v1'}/applications/${selectedApp.id}/settings`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(localStorage.getItem('qaptain_token') ? { Authorization: `Bearer ${localStorage.getItem('qaptain_token')}` } : {}),
-        },
-        body: JSON.stringify({
-          description: settingsDesc || undefined,
-          username: settingsUsername || undefined,
-          password: settingsPassword || undefined,
-        }),
+      await appApi.updateSettings(selectedApp.id, {
+        description: settingsDesc || undefined,
+        username: settingsUsername || undefined,
+        password: settingsPassword || undefined,
       });
       setSettingsSaved(true);
       setSettingsPassword('');
@@ -596,7 +653,7 @@ export default function WorkspacePage() {
                   setLoadingAppId(app.id);
                   setSelectedApp(app);
                   try {
-                    await Promise.all([loadScenarios(app.id), loadReports(app.id), loadEnv(app.id)]);
+                    await loadEnv(app.id);
                   } finally {
                     setLoadingAppId(null);
                   }
@@ -616,12 +673,14 @@ export default function WorkspacePage() {
                 <div className="text-xs text-zinc-600 truncate">{app.base_url}</div>
               </button>
             ))}
-            <button
-              onClick={() => setShowAddApp(true)}
-              className="flex items-center gap-1 mt-2 px-3 py-2 text-xs text-zinc-600 hover:text-zinc-400 transition-colors w-full text-left"
-            >
-              + Add Application
-            </button>
+            {perms.canEdit && (
+              <button
+                onClick={() => setShowAddApp(true)}
+                className="flex items-center gap-1 mt-2 px-3 py-2 text-xs text-zinc-600 hover:text-zinc-400 transition-colors w-full text-left"
+              >
+                + Add Application
+              </button>
+            )}
           </div>
 
           {/* Navigation */}
@@ -631,10 +690,12 @@ export default function WorkspacePage() {
                 { id: 'overview', label: 'Overview', icon: '📊' },
                 { id: 'explore', label: 'Explore', icon: '🔍' },
                 { id: 'scenarios', label: 'Scenarios', icon: '📋', badge: scenarios.length || undefined },
+                { id: 'suites', label: 'Suites', icon: '🧪', badge: suites.length || undefined },
                 { id: 'dataset', label: 'Dataset', icon: '🗂️' },
                 { id: 'knowledge', label: 'Knowledge Graph', icon: '🧠' },
                 { id: 'reports', label: 'Reports', icon: '📈' },
                 { id: 'settings', label: 'Settings', icon: '⚙️' },
+                ...(perms.canManage ? [{ id: 'audit', label: 'Audit Log', icon: '📜' }] as const : []),
               ] as const
             ).map((item) => (
               <button
@@ -690,6 +751,12 @@ export default function WorkspacePage() {
                   scenarios={scenarios}
                   reports={reports}
                   onRunScenario={handleGenerateAndRun}
+                  environments={environments}
+                  targetEnvId={targetEnv?.id ?? ''}
+                  setTargetEnvId={setTargetEnvId}
+                  suites={suites}
+                  onRunSuite={handleRunSuite}
+                  runningSuiteId={runningSuiteId}
                   onExploreClick={() => setTab('explore')}
                   onScenariosClick={() => setTab('scenarios')}
                   exploreLoading={startingExplore}
@@ -717,16 +784,26 @@ export default function WorkspacePage() {
                     setPriority={setNewScenarioPriority}
                     executionMode={executionMode}
                     setExecutionMode={setExecutionMode}
+                    environments={environments}
+                    targetEnvId={targetEnv?.id ?? ''}
+                    setTargetEnvId={setTargetEnvId}
                     onCreateScenario={handleCreateScenario}
                     onRunScenario={handleGenerateAndRun}
                     onRunModule={handleRunModule}
+                    suites={suites}
+                    onRunSuite={handleRunSuite}
+                    runningSuiteId={runningSuiteId}
+                    onSaveAsSuite={handleSaveAsSuite}
                     onDeleteScenario={handleDeleteScenario}
+                    onToggleQuarantine={handleToggleQuarantine}
                     onUpdateScenario={handleUpdateScenario}
                     onDeleteModule={handleDeleteModule}
                     onOpenDocUpload={() => { setDocUploadResult(null); setDocUploadOpen(true); }}
                     creating={creatingScenario}
                     runningId={generatingPlan ? selectedScenarioId : null}
                     runningModuleId={runningModuleId}
+                    focusScenarioId={focusScenarioId}
+                    onFocusHandled={() => setFocusScenarioId(null)}
                   />
 
                   {/* Document Upload Modal */}
@@ -878,14 +955,39 @@ export default function WorkspacePage() {
                   )}
                 </>
               )}
+              {tab === 'suites' && (
+                <SuitesTab
+                  workspaceId={workspaceId}
+                  appId={selectedApp.id}
+                  scenarios={scenarios}
+                  environments={environments}
+                  targetEnvId={targetEnv?.id ?? ''}
+                  setTargetEnvId={setTargetEnvId}
+                  executionMode={executionMode}
+                  setExecutionMode={setExecutionMode}
+                  onRunSuite={handleRunSuite}
+                  runningSuiteId={runningSuiteId}
+                  draftScenarioIds={suiteDraftIds}
+                  onDraftConsumed={() => setSuiteDraftIds(null)}
+                />
+              )}
               {tab === 'dataset' && selectedApp && (
                 <DatasetTab app={selectedApp} />
               )}
               {tab === 'knowledge' && selectedApp && (
-                <KnowledgeGraphTab app={selectedApp} onExploreClick={() => setTab('explore')} />
+                <KnowledgeGraphTab
+                  app={selectedApp}
+                  onExploreClick={() => setTab('explore')}
+                  onOpenScenario={(id) => { setFocusScenarioId(id); setTab('scenarios'); }}
+                />
               )}
               {tab === 'reports' && selectedApp && (
-                <ReportsTab reports={reports} workspaceId={workspaceId} appId={selectedApp.id} />
+                <ReportsTab
+                  workspaceId={workspaceId}
+                  appId={selectedApp.id}
+                  environments={environments}
+                  scenarios={scenarios}
+                />
               )}
               {tab === 'settings' && (
                 <SettingsTab
@@ -906,6 +1008,7 @@ export default function WorkspacePage() {
                   deletingWorkspace={deletingWorkspace}
                 />
               )}
+              {tab === 'audit' && perms.canManage && <AuditTab workspaceId={workspaceId} applications={apps} />}
             </>
           )}
         </main>
@@ -970,16 +1073,27 @@ export default function WorkspacePage() {
 
 // ─── Overview Tab ─────────────────────────────────────────────────────────────
 
-function OverviewTab({ app, scenarios, reports, onRunScenario, onExploreClick, onScenariosClick, exploreLoading }: {
+function OverviewTab({
+  app, scenarios, reports, onRunScenario, environments, targetEnvId, setTargetEnvId,
+  suites, onRunSuite, runningSuiteId, onExploreClick, onScenariosClick, exploreLoading,
+}: {
   app: Application;
   scenarios: Scenario[];
   reports: ReportSummary[];
   onRunScenario: (id: string) => void;
+  environments: Environment[];
+  targetEnvId: string;
+  setTargetEnvId: (id: string) => void;
+  suites: TestSuite[];
+  onRunSuite: (suite: TestSuite) => void;
+  runningSuiteId: string | null;
   onExploreClick: () => void;
   onScenariosClick: () => void;
   exploreLoading?: boolean;
 }) {
-  const recentReports = reports.slice(0, 5);
+  const perms = useWorkspacePermissions(app.workspace_id);
+  // Quarantined scenarios still run but don't count toward the pass rate
+  const recentReports = reports.filter((r) => !r.quarantined).slice(0, 5);
   const passRate = recentReports.length > 0
     ? Math.round(recentReports.filter((r) => r.run_status === 'COMPLETED').length / recentReports.length * 100)
     : 0;
@@ -1030,6 +1144,9 @@ function OverviewTab({ app, scenarios, reports, onRunScenario, onExploreClick, o
                         Top: "{m.top_failing_selectors[0].target}" ({m.top_failing_selectors[0].error_type})
                       </span>
                     )}
+                    <div className="ml-auto pl-2 min-w-0 flex justify-end">
+                      <ModuleRefreshControl app={app} moduleId={m.module_id} moduleName={m.module_name} />
+                    </div>
                   </div>
                 ))}
               </div>
@@ -1120,7 +1237,13 @@ function OverviewTab({ app, scenarios, reports, onRunScenario, onExploreClick, o
 
       {scenarios.length > 0 && (
         <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-5 mb-6">
-          <h3 className="font-semibold text-white mb-3">Quick Execute</h3>
+          <div className="flex items-center justify-between gap-3 mb-3">
+            <h3 className="font-semibold text-white">Quick Execute</h3>
+            <div className="flex items-center gap-3">
+              {perms.canRun && <RunSuiteMenu suites={suites} onRun={onRunSuite} runningSuiteId={runningSuiteId} />}
+              <EnvironmentPicker environments={environments} value={targetEnvId} onChange={setTargetEnvId} />
+            </div>
+          </div>
           <div className="space-y-2">
             {scenarios.slice(0, 5).map((s) => (
               <div key={s.id} className="flex items-center justify-between p-3 bg-zinc-800/50 rounded-lg">
@@ -1134,12 +1257,14 @@ function OverviewTab({ app, scenarios, reports, onRunScenario, onExploreClick, o
                   )}
                 </div>
                 <PriorityBadge priority={s.priority} />
-                <button
-                  onClick={() => onRunScenario(s.id)}
-                  className="ml-3 text-xs px-3 py-1 bg-green-600/20 hover:bg-green-600/30 text-green-400 border border-green-600/30 rounded-lg transition-colors"
-                >
-                  Run
-                </button>
+                {perms.canRun && (
+                  <button
+                    onClick={() => onRunScenario(s.id)}
+                    className="ml-3 text-xs px-3 py-1 bg-green-600/20 hover:bg-green-600/30 text-green-400 border border-green-600/30 rounded-lg transition-colors"
+                  >
+                    Run
+                  </button>
+                )}
               </div>
             ))}
           </div>
@@ -1189,6 +1314,7 @@ function ExploreTab({
     { id: 'SMART' as const, icon: '🔍', title: 'Smart Explore', desc: 'Complete application mapping — clicks every module, sub-module, and link. Builds full knowledge graph including forms, workflows, and test scenarios.', time: '15–45 min' },
     { id: 'SKIP' as const, icon: '🎯', title: 'Skip Explore', desc: 'Semantic runtime reasoning — no pre-exploration needed', time: 'Instant' },
   ];
+  const { canRun } = useWorkspacePermissions(app.workspace_id);
 
   return (
     <div>
@@ -1197,6 +1323,11 @@ function ExploreTab({
         QAptain will learn {app.name} semantically — understanding modules, workflows, forms, and dynamic UI behavior.
         After exploration finishes you will be taken directly to the Scenarios page.
       </p>
+      {!canRun && (
+        <p className="text-xs text-zinc-500 bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 mb-6">
+          Viewers can browse what has been explored but can't start discovery or exploration.
+        </p>
+      )}
 
       {discoveryStatus === 'idle' && (
         <div className="space-y-3 mb-6">
@@ -1228,7 +1359,8 @@ function ExploreTab({
           {discoveryStatus === 'idle' && (
             <button
               onClick={onStartDiscovery}
-              className="px-6 py-2.5 bg-blue-600 hover:bg-blue-500 text-white font-medium rounded-lg transition-colors flex items-center gap-2"
+              disabled={!canRun}
+              className="px-6 py-2.5 bg-blue-600 hover:bg-blue-500 text-white font-medium rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2"
             >
               Discover Modules
             </button>
@@ -1247,7 +1379,7 @@ function ExploreTab({
       {exploreMode === 'SKIP' && (
         <button
           onClick={onStart}
-          disabled={loading}
+          disabled={loading || !canRun}
           className="px-6 py-2.5 bg-blue-600 hover:bg-blue-500 text-white font-medium rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2"
         >
           {loading && <div className="animate-spin w-4 h-4 border-2 border-white/30 border-t-white rounded-full" />}
@@ -1516,9 +1648,10 @@ function ScenarioEditModal({ scenario, onClose, onSave }: {
 
 function ScenariosTab({
   app, scenarios, newTitle, setNewTitle, priority, setPriority,
-  executionMode, setExecutionMode, onCreateScenario, onRunScenario,
-  onRunModule, onDeleteScenario, onUpdateScenario, onDeleteModule, onOpenDocUpload,
-  creating, runningId, runningModuleId,
+  executionMode, setExecutionMode, environments, targetEnvId, setTargetEnvId,
+  onCreateScenario, onRunScenario, onRunModule, suites, onRunSuite, runningSuiteId, onSaveAsSuite,
+  onDeleteScenario, onToggleQuarantine, onUpdateScenario, onDeleteModule, onOpenDocUpload,
+  creating, runningId, runningModuleId, focusScenarioId, onFocusHandled,
 }: {
   app: Application;
   scenarios: Scenario[];
@@ -1528,16 +1661,26 @@ function ScenariosTab({
   setPriority: (v: string) => void;
   executionMode: string;
   setExecutionMode: (v: string) => void;
+  environments: Environment[];
+  targetEnvId: string;
+  setTargetEnvId: (id: string) => void;
   onCreateScenario: () => void;
   onRunScenario: (id: string) => void;
   onRunModule: (ids: string[], moduleKey: string) => void;
+  suites: TestSuite[];
+  onRunSuite: (suite: TestSuite) => void;
+  runningSuiteId: string | null;
+  onSaveAsSuite: (ids: string[]) => void;
   onDeleteScenario: (id: string) => void;
+  onToggleQuarantine: (scenario: Scenario) => void;
   onUpdateScenario: (id: string, data: { title?: string; description?: string; priority?: string; tags?: string[] }) => Promise<void>;
   onDeleteModule: (moduleId: string | null) => Promise<void>;
   onOpenDocUpload: () => void;
   creating: boolean;
   runningId: string | null;
   runningModuleId: string | null;
+  focusScenarioId?: string | null;
+  onFocusHandled?: () => void;
 }) {
   const [subTab, setSubTab] = useState<'scenarios' | 'user_stories'>('scenarios');
   const [search, setSearch] = useState('');
@@ -1547,6 +1690,15 @@ function ScenariosTab({
   const [editScenario, setEditScenario] = useState<Scenario | null>(null);
   const [deletingModuleId, setDeletingModuleId] = useState<string | null>(null);
   const confirm = useAppConfirm();
+  const perms = useWorkspacePermissions(app.workspace_id);
+
+  useEffect(() => {
+    if (!focusScenarioId) return;
+    const target = scenarios.find((s) => s.id === focusScenarioId);
+    if (!target) return;
+    setViewScenario(target);
+    onFocusHandled?.();
+  }, [focusScenarioId, scenarios]);
 
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [selectedGroupKey, setSelectedGroupKey] = useState<string | null>(null);
@@ -1629,7 +1781,7 @@ function ScenariosTab({
           scenario={viewScenario}
           onClose={() => setViewScenario(null)}
           onEdit={() => { setEditScenario(viewScenario); setViewScenario(null); }}
-          onRun={() => onRunScenario(viewScenario.id)}
+          {...(perms.canRun ? { onRun: () => onRunScenario(viewScenario.id) } : {})}
         />
       )}
       {/* Edit modal */}
@@ -1693,7 +1845,7 @@ function ScenariosTab({
           placeholder="Search scenarios or modules…"
           className="w-full bg-zinc-900 border border-zinc-800 rounded-xl pl-9 pr-4 py-2.5 text-sm text-zinc-200 placeholder-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
         />
-        {search && filtered.length > 0 && (
+        {perms.canRun && search && filtered.length > 0 && (
           <button
             onClick={() => onRunModule(filtered.map((s) => s.id), '__search__')}
             disabled={!!runningModuleId}
@@ -1729,7 +1881,7 @@ function ScenariosTab({
             ))}
           </div>
         </div>
-        {selectedIds.size > 0 && (
+        {perms.canRun && selectedIds.size > 0 && (
           <button
             onClick={() => {
               onRunModule(Array.from(selectedIds), '__selected__');
@@ -1744,6 +1896,14 @@ function ScenariosTab({
             Run Selected ({selectedIds.size})
           </button>
         )}
+        {selectedIds.size > 0 && (
+          <button
+            onClick={() => onSaveAsSuite(Array.from(selectedIds))}
+            className="text-xs px-3 py-1.5 bg-zinc-900 hover:bg-zinc-800 text-zinc-300 border border-zinc-700 rounded-lg transition-colors"
+          >
+            Save as suite
+          </button>
+        )}
         {/* Smoke filter */}
         <button
           onClick={() => setSmokeFilter((v) => !v)}
@@ -1755,8 +1915,16 @@ function ScenariosTab({
         >
           🔥 Smoke Only
         </button>
+        {/* Target environment — applies to single runs, Run All, Run Selected and suites */}
+        <EnvironmentPicker
+          environments={environments}
+          value={targetEnvId}
+          onChange={setTargetEnvId}
+          className="ml-auto"
+        />
+        {perms.canRun && <RunSuiteMenu suites={suites} onRun={onRunSuite} runningSuiteId={runningSuiteId} />}
         {/* Execution mode */}
-        <div className="flex items-center gap-2 ml-auto">
+        <div className="flex items-center gap-2">
           <span className="text-xs text-zinc-500">Run mode:</span>
           <div className="flex gap-1 bg-zinc-900 border border-zinc-800 rounded-lg p-1">
             {['smoke', 'functional', 'regression'].map((m) => (
@@ -1878,21 +2046,26 @@ function ScenariosTab({
                     )}
                   </div>
 
-                  <div className="flex items-center justify-between mt-auto">
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onRunModule(group.items.map((s) => s.id), group.moduleId || '__ungrouped__');
-                      }}
-                      disabled={!!runningModuleId}
-                      className="flex items-center gap-1.5 text-xs px-3 py-1.5 bg-blue-600/20 hover:bg-blue-600/30 text-blue-300 border border-blue-600/30 rounded-lg transition-colors disabled:opacity-50"
-                    >
-                      {runningModuleId === (group.moduleId || '__ungrouped__') ? (
-                        <div className="animate-spin w-3 h-3 border border-blue-300 border-t-transparent rounded-full" />
-                      ) : '▶'}
-                      {runningModuleId === (group.moduleId || '__ungrouped__') ? ' Starting…' : ' Run All'}
-                    </button>
-                    <span className="text-xs text-zinc-600 group-hover/card:text-zinc-400 transition-colors">
+                  <div className="flex items-center justify-between gap-2 mt-auto">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onRunModule(group.items.map((s) => s.id), group.moduleId || '__ungrouped__');
+                        }}
+                        disabled={!!runningModuleId || !perms.canRun}
+                        className="shrink-0 flex items-center gap-1.5 text-xs px-3 py-1.5 bg-blue-600/20 hover:bg-blue-600/30 text-blue-300 border border-blue-600/30 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        {runningModuleId === (group.moduleId || '__ungrouped__') ? (
+                          <div className="animate-spin w-3 h-3 border border-blue-300 border-t-transparent rounded-full" />
+                        ) : '▶'}
+                        {runningModuleId === (group.moduleId || '__ungrouped__') ? ' Starting…' : ' Run All'}
+                      </button>
+                      {group.moduleId && (
+                        <ModuleRefreshControl app={app} moduleId={group.moduleId} moduleName={group.moduleName || 'this module'} />
+                      )}
+                    </div>
+                    <span className="shrink-0 text-xs text-zinc-600 group-hover/card:text-zinc-400 transition-colors">
                       View scenarios →
                     </span>
                   </div>
@@ -1913,7 +2086,7 @@ function ScenariosTab({
               ← Modules
             </button>
             <div className="flex items-center gap-2">
-              {selectedIds.size > 0 && (
+              {perms.canRun && selectedIds.size > 0 && (
                 <button
                   onClick={() => { onRunModule(Array.from(selectedIds), '__selected__'); setSelectedIds(new Set()); }}
                   disabled={!!runningModuleId}
@@ -1925,6 +2098,7 @@ function ScenariosTab({
                   Run Selected ({selectedIds.size})
                 </button>
               )}
+              {perms.canRun && (
               <button
                 onClick={() => onRunModule(detailItems.map((s) => s.id), detailMeta?.moduleId || '__ungrouped__')}
                 disabled={!!runningModuleId}
@@ -1935,6 +2109,8 @@ function ScenariosTab({
                 ) : '▶'}
                 {runningModuleId === (detailMeta?.moduleId || '__ungrouped__') ? ' Starting…' : ' Run All'}
               </button>
+              )}
+              {perms.canDelete && (
               <button
                 onClick={() => handleDeleteModule(detailMeta?.moduleId ?? null)}
                 disabled={deletingModuleId === (selectedGroupKey)}
@@ -1945,6 +2121,7 @@ function ScenariosTab({
                 ) : '🗑'}
                 Delete All
               </button>
+              )}
             </div>
           </div>
 
@@ -1959,6 +2136,13 @@ function ScenariosTab({
                 <div className="text-xs text-zinc-500 truncate">{detailMeta.moduleUrl}</div>
               )}
             </div>
+            {detailMeta?.moduleId && (
+              <ModuleRefreshControl
+                app={app}
+                moduleId={detailMeta.moduleId}
+                moduleName={detailMeta.moduleName || 'this module'}
+              />
+            )}
             <span className="text-xs bg-blue-600/20 text-blue-300 px-2 py-0.5 rounded-full shrink-0">
               {detailItems.length} scenario{detailItems.length !== 1 ? 's' : ''}
             </span>
@@ -1998,6 +2182,7 @@ function ScenariosTab({
                         <SourceBadge source={s.source} />
                         <KgReadyBadge kgPlanAvailable={s.kg_plan_available} workflowTypes={s.kg_workflow_types} />
                         <LastRunBadge status={s.last_run_status} />
+                        <QuarantineBadge scenario={s} />
                       </div>
                       {s.description && (
                         <div className="text-xs text-zinc-600 truncate mt-0.5">{s.description}</div>
@@ -2018,6 +2203,16 @@ function ScenariosTab({
                     >
                       ✏️
                     </button>
+                    {perms.canRun && (
+                    <button
+                      onClick={() => onToggleQuarantine(s)}
+                      className="text-zinc-600 hover:text-orange-400 transition-colors opacity-0 group-hover:opacity-100 text-sm px-1 shrink-0"
+                      title={s.is_quarantined ? 'Release from quarantine' : 'Quarantine — keep running, stop counting toward pass rates'}
+                    >
+                      {s.is_quarantined ? '🔓' : '🚧'}
+                    </button>
+                    )}
+                    {perms.canRun && (
                     <button
                       onClick={() => onRunScenario(s.id)}
                       disabled={runningId === s.id}
@@ -2028,6 +2223,8 @@ function ScenariosTab({
                       )}
                       {runningId === s.id ? 'Planning…' : 'Run'}
                     </button>
+                    )}
+                    {perms.canDelete && (
                     <button
                       onClick={() => onDeleteScenario(s.id)}
                       className="text-zinc-600 hover:text-red-400 transition-colors opacity-0 group-hover:opacity-100 text-sm px-1 shrink-0"
@@ -2035,6 +2232,7 @@ function ScenariosTab({
                     >
                       ✕
                     </button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -2289,32 +2487,33 @@ function UserStoriesPanel({ app }: { app: Application }) {
 // ─── Reports Tab ──────────────────────────────────────────────────────────────
 
 function ReportsTab({
-  reports,
   workspaceId,
   appId,
+  environments,
+  scenarios,
 }: {
-  reports: ReportSummary[];
   workspaceId: string;
   appId: string;
+  environments: Environment[];
+  scenarios: Scenario[];
 }) {
   const router = useRouter();
-  const [view, setView] = useState<'reports' | 'history'>('reports');
-  const [history, setHistory] = useState<BatchHistory[]>([]);
-  const [historyLoading, setHistoryLoading] = useState(false);
+  const [view, setView] = useState<'reports' | 'history' | 'trends'>('reports');
   const [expandedBatch, setExpandedBatch] = useState<string | null>(null);
-
-  const loadHistory = async () => {
-    setHistoryLoading(true);
-    try {
-      const data = await executionsApi.batchHistory(appId, 30);
-      setHistory(data);
-    } catch { setHistory([]); }
-    finally { setHistoryLoading(false); }
-  };
-
-  useEffect(() => {
-    if (view === 'history') loadHistory();
-  }, [view]);
+  // Empty = all environments; applies to both views
+  const [envFilter, setEnvFilter] = useState('');
+  // Empty = batches from any source; history view only
+  const [suiteFilter, setSuiteFilter] = useState('');
+  const { data: reports = [] } = useReports(appId, 10, envFilter || undefined);
+  const { data: suites = [] } = useSuites(appId);
+  // Fetched once the history view is opened, then served from cache
+  const { data: history = [], isLoading: historyLoading } = useBatchHistory(
+    view === 'history' ? appId : undefined,
+    30,
+    envFilter || undefined,
+    suiteFilter || undefined,
+  );
+  const envById = new Map(environments.map((e) => [e.id, e]));
 
   const openBatchDetail = (batch: BatchHistory) => {
     router.push(
@@ -2322,8 +2521,10 @@ function ReportsTab({
     );
   };
 
+  // Quarantined runs are reported separately and left out of the rate
+  const scoredTotal = (b: BatchHistory) => b.total - (b.quarantined ?? 0);
   const passRate = (b: BatchHistory) =>
-    b.total > 0 ? Math.round((b.passed / b.total) * 100) : 0;
+    scoredTotal(b) > 0 ? Math.round((b.passed / scoredTotal(b)) * 100) : 0;
 
   const exportReportsCSV = () => {
     if (!reports.length) return;
@@ -2358,6 +2559,28 @@ function ReportsTab({
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold text-white">Execution Reports</h1>
         <div className="flex items-center gap-3">
+          {environments.length > 1 && (
+            <EnvironmentPicker
+              environments={environments}
+              value={envFilter}
+              onChange={setEnvFilter}
+              label="Environment:"
+              allowAll
+            />
+          )}
+          {view === 'history' && suites.length > 0 && (
+            <label className="flex items-center gap-2">
+              <span className="text-xs text-zinc-500">Suite:</span>
+              <select
+                value={suiteFilter}
+                onChange={(e) => setSuiteFilter(e.target.value)}
+                className="bg-zinc-900 border border-zinc-800 rounded-lg px-2.5 py-1.5 text-xs text-zinc-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">All batches</option>
+                {suites.map((suite) => <option key={suite.id} value={suite.id}>{suite.name}</option>)}
+              </select>
+            </label>
+          )}
           {view === 'reports' && reports.length > 0 && (
             <button
               onClick={exportReportsCSV}
@@ -2384,6 +2607,14 @@ function ReportsTab({
             >
               Run History
             </button>
+            <button
+              onClick={() => setView('trends')}
+              className={`px-4 py-1.5 text-sm rounded-md transition-colors font-medium ${
+                view === 'trends' ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'
+              }`}
+            >
+              Trends
+            </button>
           </div>
         </div>
       </div>
@@ -2392,7 +2623,9 @@ function ReportsTab({
       {view === 'reports' && (
         reports.length === 0 ? (
           <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-10 text-center text-zinc-500">
-            No reports yet. Run some scenarios to see AI-native reports here.
+            {envFilter
+              ? 'No reports for this environment yet.'
+              : 'No reports yet. Run some scenarios to see AI-native reports here.'}
           </div>
         ) : (
           <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
@@ -2415,13 +2648,23 @@ function ReportsTab({
                       r.run_status === 'FAILED' ? 'bg-red-500' : 'bg-zinc-500'
                     }`} />
                     <div className="flex-1 min-w-0">
-                      <div className="text-sm font-medium text-zinc-300 truncate">{r.scenario_title}</div>
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="text-sm font-medium text-zinc-300 truncate">{r.scenario_title}</span>
+                        {r.quarantined && (
+                          <span className="text-[10px] px-1.5 py-0.5 rounded bg-orange-500/15 text-orange-300 shrink-0" title="Run of a quarantined scenario">
+                            🚧 Quarantined
+                          </span>
+                        )}
+                      </div>
                       <div className="flex items-center gap-3 mt-1 flex-wrap">
                         <span className="text-xs text-zinc-600">
                           {new Date(r.created_at).toLocaleString(undefined, {
                             month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
                           })}
                         </span>
+                        {r.environment_id && envById.has(r.environment_id) && (
+                          <EnvironmentBadge environment={envById.get(r.environment_id)!} />
+                        )}
                         {s.workflow_type && (
                           <span className="text-xs text-zinc-600 bg-zinc-800 px-1.5 py-0.5 rounded">{s.workflow_type}</span>
                         )}
@@ -2465,7 +2708,13 @@ function ReportsTab({
         )
       )}
 
+      {/* ── Trends view ───────────────────────────────────────────── */}
+      {view === 'trends' && <TrendsPanel appId={appId} environmentId={envFilter || undefined} />}
+
       {/* ── Run History view ──────────────────────────────────────── */}
+      {view === 'history' && (
+        <SchedulePanel workspaceId={workspaceId} appId={appId} environments={environments} scenarios={scenarios} />
+      )}
       {view === 'history' && (
         historyLoading ? (
           <div className="flex items-center justify-center py-20">
@@ -2473,7 +2722,11 @@ function ReportsTab({
           </div>
         ) : history.length === 0 ? (
           <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-10 text-center text-zinc-500">
-            No batch execution history yet. Click "Run All" on a module to start.
+            {suiteFilter
+              ? 'This suite has no batch runs yet.'
+              : envFilter
+                ? 'No batch runs against this environment yet.'
+                : 'No batch execution history yet. Click "Run All" on a module to start.'}
           </div>
         ) : (
           <div className="flex flex-col gap-3">
@@ -2494,13 +2747,28 @@ function ReportsTab({
                       batch.passed === 0 ? 'bg-red-500' : 'bg-amber-500'
                     }`} />
                     <div className="flex-1 min-w-0">
-                      <div className="text-sm font-medium text-zinc-200">
+                      <div className="flex items-center gap-2 text-sm font-medium text-zinc-200">
                         {new Date(batch.started_at).toLocaleString(undefined, {
                           month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
                         })}
+                        {envById.has(batch.environment_id) && (
+                          <EnvironmentBadge environment={envById.get(batch.environment_id)!} />
+                        )}
+                        {batch.schedule_id && (
+                          <span className="text-[10px] px-1.5 py-0.5 rounded bg-blue-500/15 text-blue-300 font-medium">
+                            ⏱ {batch.schedule_name ?? 'Scheduled'}
+                          </span>
+                        )}
+                        {batch.suite_id && (
+                          <span className="text-[10px] px-1.5 py-0.5 rounded bg-emerald-500/15 text-emerald-300 font-medium">
+                            🧪 {batch.suite_name ?? 'Deleted suite'}
+                            {batch.suite_version != null && <span className="opacity-60"> · v{batch.suite_version}</span>}
+                          </span>
+                        )}
                       </div>
                       <div className="text-xs text-zinc-500 mt-0.5">
                         {batch.total} scenarios · {batch.passed} passed · {batch.failed} failed
+                        {batch.quarantined > 0 ? ` · ${batch.quarantined} quarantined` : ''}
                         {isRunning ? ` · ${batch.running} running` : ''}
                       </div>
                     </div>
@@ -2509,7 +2777,7 @@ function ReportsTab({
                     <div className="hidden sm:flex items-center gap-2 w-32">
                       <div className="flex-1 h-1.5 bg-zinc-800 rounded-full overflow-hidden flex">
                         <div className="bg-green-500 h-full" style={{ width: `${rate}%` }} />
-                        <div className="bg-red-500 h-full" style={{ width: `${batch.total > 0 ? (batch.failed / batch.total) * 100 : 0}%` }} />
+                        <div className="bg-red-500 h-full" style={{ width: `${scoredTotal(batch) > 0 ? (batch.failed / scoredTotal(batch)) * 100 : 0}%` }} />
                       </div>
                       <span className={`text-xs font-medium tabular-nums w-8 text-right ${
                         rate === 100 ? 'text-green-400' : rate >= 50 ? 'text-amber-400' : 'text-red-400'
@@ -2524,6 +2792,7 @@ function ReportsTab({
                       >
                         {isExpanded ? 'Hide' : 'Details'}
                       </button>
+                      <BatchExportMenu batchId={batch.batch_id} compact />
                       <button
                         onClick={() => openBatchDetail(batch)}
                         className="text-xs bg-blue-600 hover:bg-blue-500 text-white px-3 py-1.5 rounded-lg transition-colors font-medium"
@@ -2553,6 +2822,11 @@ function ReportsTab({
                               'bg-zinc-600'
                             }`} />
                             <span className="flex-1 text-xs text-zinc-300 truncate">{run.title || 'Untitled scenario'}</span>
+                            {run.quarantined && (
+                              <span className="text-[10px] px-1.5 py-0.5 rounded bg-orange-500/15 text-orange-300" title="Not counted toward the batch pass rate">
+                                🚧 Quarantined
+                              </span>
+                            )}
                             {stepRate !== null && (
                               <span className={`text-xs tabular-nums ${
                                 stepRate === 100 ? 'text-green-400' : stepRate >= 50 ? 'text-amber-400' : 'text-red-400'
@@ -2600,11 +2874,18 @@ function SettingsTab({ app, desc, setDesc, username, setUsername, password, setP
   onDeleteWorkspace: () => void;
   deletingWorkspace: boolean;
 }) {
+  const perms = useWorkspacePermissions(app.workspace_id);
+  const readOnly = !perms.canEditCredentials;
+
   return (
     <div className="max-w-2xl space-y-6">
       <div>
         <h2 className="text-xl font-semibold text-white mb-1">Application Settings</h2>
-        <p className="text-sm text-zinc-500">Update description and credentials for {app.name}</p>
+        <p className="text-sm text-zinc-500">
+          {readOnly
+            ? `You have read-only access to ${app.name} as a viewer.`
+            : `Update description and credentials for ${app.name}`}
+        </p>
       </div>
 
       <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-5 space-y-4">
@@ -2615,7 +2896,8 @@ function SettingsTab({ app, desc, setDesc, username, setUsername, password, setP
             value={desc}
             onChange={(e) => setDesc(e.target.value)}
             rows={3}
-            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+            disabled={readOnly}
+            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500 disabled:opacity-60"
             placeholder="What does this application do?"
           />
         </div>
@@ -2638,7 +2920,8 @@ function SettingsTab({ app, desc, setDesc, username, setUsername, password, setP
             type="text"
             value={username}
             onChange={(e) => setUsername(e.target.value)}
-            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+            disabled={readOnly}
+            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500 disabled:opacity-60"
             placeholder="username or email"
           />
         </div>
@@ -2653,32 +2936,55 @@ function SettingsTab({ app, desc, setDesc, username, setUsername, password, setP
             type="password"
             value={password}
             onChange={(e) => setPassword(e.target.value)}
-            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+            disabled={readOnly}
+            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500 disabled:opacity-60"
             placeholder={hasPassword ? 'Enter new password to change' : 'Enter password'}
           />
         </div>
       </div>
 
-      <div className="flex items-center gap-3">
-        <button
-          onClick={onSave}
-          disabled={saving}
-          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
-        >
-          {saving ? 'Saving…' : 'Save Changes'}
-        </button>
-        {saved && <span className="text-sm text-green-400">✓ Saved successfully</span>}
-      </div>
+      {!readOnly && (
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onSave}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving…' : 'Save Changes'}
+          </button>
+          {saved && <span className="text-sm text-green-400">✓ Saved successfully</span>}
+        </div>
+      )}
+
+      {/* Environments */}
+      <EnvironmentsPanel app={app} />
 
       {/* Test Roles */}
       <TestRolesPanel app={app} />
 
+      {/* Automatic re-exploration of drifted modules */}
+      <DriftPolicyPanel app={app} />
+
+      {/* Workspace access */}
+      <MembersPanel workspaceId={app.workspace_id} />
+
+      {/* CI access and integrations — admins only */}
+      {perms.canManage && (
+        <>
+          <ApiTokensPanel app={app} />
+          <WebhooksPanel app={app} />
+          <DefectTrackerPanel app={app} />
+        </>
+      )}
+
       {/* Danger Zone */}
+      {(perms.canDelete || perms.isOwner) && (
       <div className="border border-red-500/30 rounded-xl overflow-hidden">
         <div className="px-5 py-3 bg-red-500/5 border-b border-red-500/20">
           <h3 className="text-sm font-semibold text-red-400">Danger Zone</h3>
         </div>
         <div className="divide-y divide-red-500/10">
+          {perms.canDelete && (
           <div className="p-5 flex items-center justify-between gap-4">
             <div>
               <p className="text-sm font-medium text-white">Delete this application</p>
@@ -2694,6 +3000,8 @@ function SettingsTab({ app, desc, setDesc, username, setUsername, password, setP
               {deletingApp ? 'Deleting…' : 'Delete Application'}
             </button>
           </div>
+          )}
+          {perms.isOwner && (
           <div className="p-5 flex items-center justify-between gap-4">
             <div>
               <p className="text-sm font-medium text-white">Delete this workspace</p>
@@ -2709,8 +3017,184 @@ function SettingsTab({ app, desc, setDesc, username, setUsername, password, setP
               {deletingWorkspace ? 'Deleting…' : 'Delete Workspace'}
             </button>
           </div>
+          )}
+        </div>
+      </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Environments Panel ───────────────────────────────────────────────────────
+
+const ENV_TYPES: EnvironmentType[] = ['development', 'staging', 'production', 'custom'];
+
+function EnvironmentsPanel({ app }: { app: Application }) {
+  const { data: environments = [], isLoading } = useEnvironments(app.id);
+  const createEnv = useCreateEnvironment(app.id);
+  const updateEnv = useUpdateEnvironment(app.id);
+  const deleteEnv = useDeleteEnvironment(app.id);
+  const { canEdit, canDelete } = useWorkspacePermissions(app.workspace_id);
+  const toast = useAppToast();
+  const confirm = useAppConfirm();
+
+  // One form serves both add and edit; `editingId` null means add
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [envType, setEnvType] = useState<EnvironmentType>('staging');
+  const [baseUrl, setBaseUrl] = useState('');
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName(''); setEnvType('staging'); setBaseUrl('');
+  };
+
+  const startEdit = (env: Environment) => {
+    setEditingId(env.id);
+    setName(env.name); setEnvType(env.env_type); setBaseUrl(env.base_url);
+  };
+
+  const handleSubmit = async () => {
+    if (!name.trim() || !baseUrl.trim()) return;
+    const data = { name: name.trim(), env_type: envType, base_url: baseUrl.trim() };
+    try {
+      if (editingId) await updateEnv.mutateAsync({ envId: editingId, data });
+      else await createEnv.mutateAsync(data);
+      resetForm();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to save environment');
+    }
+  };
+
+  const handleMakeDefault = async (env: Environment) => {
+    try {
+      await updateEnv.mutateAsync({ envId: env.id, data: { is_default: true } });
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to update environment');
+    }
+  };
+
+  const handleDelete = async (env: Environment) => {
+    const ok = await confirm({
+      title: `Delete "${env.name}"?`,
+      message: 'Runs can no longer target this environment. Environments with execution history cannot be deleted.',
+      confirmLabel: 'Delete Environment',
+      destructive: true,
+    });
+    if (!ok) return;
+    try {
+      await deleteEnv.mutateAsync(env.id);
+      if (editingId === env.id) resetForm();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to delete environment');
+    }
+  };
+
+  const saving = createEnv.isPending || updateEnv.isPending;
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+      <div className="px-5 py-4 border-b border-zinc-800">
+        <h3 className="text-sm font-semibold text-white">Environments</h3>
+        <p className="text-xs text-zinc-500 mt-0.5">
+          Base URLs runs can target. The default is preselected in every run picker.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="px-5 py-6 text-xs text-zinc-500">Loading environments…</div>
+      ) : (
+        <div className="divide-y divide-zinc-800">
+          {environments.map((env) => (
+            <div key={env.id} className="flex items-center gap-3 px-5 py-3">
+              <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium shrink-0 ${ENV_TYPE_CONFIG[env.env_type]?.className ?? ''}`}>
+                {ENV_TYPE_CONFIG[env.env_type]?.label ?? env.env_type}
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-zinc-200 truncate">{env.name}</span>
+                  {env.is_default && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-blue-500/20 text-blue-300">default</span>
+                  )}
+                </div>
+                <div className="text-xs text-zinc-500 truncate font-mono">{env.base_url}</div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {canEdit && !env.is_default && (
+                  <button
+                    onClick={() => handleMakeDefault(env)}
+                    disabled={updateEnv.isPending}
+                    className="text-xs text-zinc-400 hover:text-zinc-200 px-2 py-1 rounded hover:bg-zinc-800 transition-colors disabled:opacity-50"
+                  >
+                    Make default
+                  </button>
+                )}
+                {canEdit && (
+                  <button
+                    onClick={() => startEdit(env)}
+                    className="text-xs text-zinc-400 hover:text-zinc-200 px-2 py-1 rounded hover:bg-zinc-800 transition-colors"
+                  >
+                    Edit
+                  </button>
+                )}
+                {canDelete && (
+                  <button
+                    onClick={() => handleDelete(env)}
+                    disabled={environments.length <= 1 || deleteEnv.isPending}
+                    title={environments.length <= 1 ? 'An application needs at least one environment' : undefined}
+                    className="text-xs text-red-400/80 hover:text-red-300 px-2 py-1 rounded hover:bg-red-500/10 transition-colors disabled:opacity-40"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add / edit form */}
+      {canEdit && (
+      <div className="px-5 py-4 border-t border-zinc-800 space-y-3">
+        <h4 className="text-xs font-medium text-zinc-400">{editingId ? 'Edit environment' : 'Add environment'}</h4>
+        <div className="grid grid-cols-[1fr_auto] gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Staging"
+            className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+          />
+          <select
+            value={envType}
+            onChange={(e) => setEnvType(e.target.value as EnvironmentType)}
+            className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-300 focus:outline-none"
+          >
+            {ENV_TYPES.map((t) => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </div>
+        <input
+          value={baseUrl}
+          onChange={(e) => setBaseUrl(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+          placeholder="https://staging.example.com"
+          className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500 font-mono"
+        />
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleSubmit}
+            disabled={saving || !name.trim() || !baseUrl.trim()}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving…' : editingId ? 'Save Environment' : 'Add Environment'}
+          </button>
+          {editingId && (
+            <button onClick={resetForm} className="px-3 py-2 text-sm text-zinc-400 hover:text-zinc-200 transition-colors">
+              Cancel
+            </button>
+          )}
         </div>
       </div>
+      )}
     </div>
   );
 }
@@ -2820,6 +3304,7 @@ function TestRolesPanel({ app }: { app: Application }) {
 
   const scanReady = scan?.status === 'completed' && scan.results?.roles && scan.results.roles.length > 0;
   const progress = scan?.results?.progress;
+  const { canEditCredentials } = useWorkspacePermissions(app.workspace_id);
 
   return (
     <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
@@ -2831,6 +3316,7 @@ function TestRolesPanel({ app }: { app: Application }) {
             One test account per role — used for RBAC permission verification.
           </p>
         </div>
+        {canEditCredentials && (
         <div className="flex items-center gap-2">
           {/* Scan permissions button */}
           <button
@@ -2872,6 +3358,7 @@ function TestRolesPanel({ app }: { app: Application }) {
             />
           </label>
         </div>
+        )}
       </div>
 
       {/* Scan progress / status banner */}
@@ -2966,19 +3453,22 @@ function TestRolesPanel({ app }: { app: Application }) {
             <div key={r.id} className="grid grid-cols-[1fr_1fr_auto] gap-4 items-center px-5 py-3 hover:bg-zinc-800/30 transition-colors group">
               <span className="text-sm text-zinc-200 truncate font-medium">{r.role_name}</span>
               <span className="text-sm text-zinc-400 truncate">{r.username}</span>
-              <button
-                onClick={() => handleDelete(r.id)}
-                className="opacity-0 group-hover:opacity-100 text-zinc-600 hover:text-red-400 transition-colors text-xs px-1"
-                title="Remove this role credential"
-              >
-                ✕
-              </button>
+              {canEditCredentials ? (
+                <button
+                  onClick={() => handleDelete(r.id)}
+                  className="opacity-0 group-hover:opacity-100 text-zinc-600 hover:text-red-400 transition-colors text-xs px-1"
+                  title="Remove this role credential"
+                >
+                  ✕
+                </button>
+              ) : <span />}
             </div>
           ))}
         </div>
       )}
 
       {/* Add manually */}
+      {canEditCredentials && (
       <div className="border-t border-zinc-800 p-5">
         <p className="text-xs font-medium text-zinc-500 mb-3 uppercase tracking-wide">Add Manually</p>
         <div className="grid grid-cols-3 gap-2 mb-2">
@@ -3014,6 +3504,7 @@ function TestRolesPanel({ app }: { app: Application }) {
           {adding ? 'Adding…' : '+ Add Role'}
         </button>
       </div>
+      )}
 
       {/* Permission matrix */}
       {scanReady && scan.results.roles && scan.results.modules && (
@@ -3216,6 +3707,23 @@ function LastRunBadge({ status }: { status?: string }) {
   );
 }
 
+function QuarantineBadge({ scenario }: { scenario: Scenario }) {
+  if (!scenario.is_quarantined) return null;
+  const exit = scenario.quarantine_exit_passes ?? 0;
+  const tip = [
+    scenario.quarantine_reason,
+    exit > 0 ? `Released automatically after ${exit} consecutive passes` : null,
+  ].filter(Boolean).join(' · ');
+  return (
+    <span
+      className="text-xs px-1.5 py-0.5 rounded bg-orange-500/15 text-orange-300 border border-orange-500/25 shrink-0"
+      title={tip || undefined}
+    >
+      🚧 Quarantined{exit > 0 ? ` ${scenario.quarantine_pass_streak ?? 0}/${exit}` : ''}
+    </span>
+  );
+}
+
 function KgReadyBadge({ kgPlanAvailable, workflowTypes }: { kgPlanAvailable?: boolean; workflowTypes?: string[] }) {
   if (!kgPlanAvailable) return null;
   return (
@@ -3256,6 +3764,7 @@ function DatasetTab({ app }: { app: Application }) {
   const [uploadFile, setUploadFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const { canEdit, canDelete } = useWorkspacePermissions(app.workspace_id);
   // Inline edit state
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editLabel, setEditLabel] = useState('');
@@ -3418,67 +3927,69 @@ function DatasetTab({ app }: { app: Application }) {
             </div>
 
             {/* Add form */}
-            <div className="mt-4 space-y-3">
-              <div className="grid grid-cols-2 gap-3">
-                <div>
-                  <label className="text-xs text-zinc-500 block mb-1">Label</label>
-                  <input
-                    value={addLabel}
-                    onChange={(e) => setAddLabel(e.target.value)}
-                    placeholder={catMeta.dataType === 'file' ? 'e.g. 10 MB PNG file' : 'Short label'}
-                    className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
-                </div>
-                <div>
-                  <label className="text-xs text-zinc-500 block mb-1">Description (optional)</label>
-                  <input
-                    value={addDesc}
-                    onChange={(e) => setAddDesc(e.target.value)}
-                    placeholder="Why this value is useful"
-                    className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
+            {canEdit && (
+              <div className="mt-4 space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-xs text-zinc-500 block mb-1">Label</label>
+                    <input
+                      value={addLabel}
+                      onChange={(e) => setAddLabel(e.target.value)}
+                      placeholder={catMeta.dataType === 'file' ? 'e.g. 10 MB PNG file' : 'Short label'}
+                      className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-zinc-500 block mb-1">Description (optional)</label>
+                    <input
+                      value={addDesc}
+                      onChange={(e) => setAddDesc(e.target.value)}
+                      placeholder="Why this value is useful"
+                      className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
                 </div>
-              </div>
 
-              {catMeta.dataType === 'file' ? (
-                <div className="flex items-center gap-3">
-                  <label className="flex-1 flex items-center gap-2 cursor-pointer bg-zinc-800 border border-dashed border-zinc-600 rounded-lg px-4 py-3 hover:border-zinc-500 transition-colors">
-                    <span className="text-zinc-400 text-sm">
-                      {uploadFile ? uploadFile.name : 'Click to select a file…'}
-                    </span>
-                    <input type="file" className="hidden" onChange={(e) => setUploadFile(e.target.files?.[0] || null)} />
-                  </label>
-                  {uploadFile && (
-                    <span className="text-xs text-zinc-500 shrink-0">{formatSize(uploadFile.size)}</span>
-                  )}
-                  <button
-                    onClick={handleUpload}
-                    disabled={uploading || !uploadFile}
-                    className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2"
-                  >
-                    {uploading && <span className="animate-spin w-3 h-3 border border-white border-t-transparent rounded-full" />}
-                    {uploading ? 'Uploading…' : 'Upload'}
-                  </button>
-                </div>
-              ) : (
-                <div className="flex items-center gap-3">
-                  <input
-                    value={addValue}
-                    onChange={(e) => setAddValue(e.target.value)}
-                    onKeyDown={(e) => e.key === 'Enter' && handleAddText()}
-                    placeholder={catMeta.hint}
-                    className="flex-1 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
-                  />
-                  <button
-                    onClick={handleAddText}
-                    disabled={adding || !addValue.trim()}
-                    className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
-                  >
-                    {adding ? 'Adding…' : 'Add'}
-                  </button>
-                </div>
-              )}
-            </div>
+                {catMeta.dataType === 'file' ? (
+                  <div className="flex items-center gap-3">
+                    <label className="flex-1 flex items-center gap-2 cursor-pointer bg-zinc-800 border border-dashed border-zinc-600 rounded-lg px-4 py-3 hover:border-zinc-500 transition-colors">
+                      <span className="text-zinc-400 text-sm">
+                        {uploadFile ? uploadFile.name : 'Click to select a file…'}
+                      </span>
+                      <input type="file" className="hidden" onChange={(e) => setUploadFile(e.target.files?.[0] || null)} />
+                    </label>
+                    {uploadFile && (
+                      <span className="text-xs text-zinc-500 shrink-0">{formatSize(uploadFile.size)}</span>
+                    )}
+                    <button
+                      onClick={handleUpload}
+                      disabled={uploading || !uploadFile}
+                      className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2"
+                    >
+                      {uploading && <span className="animate-spin w-3 h-3 border border-white border-t-transparent rounded-full" />}
+                      {uploading ? 'Uploading…' : 'Upload'}
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-3">
+                    <input
+                      value={addValue}
+                      onChange={(e) => setAddValue(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleAddText()}
+                      placeholder={catMeta.hint}
+                      className="flex-1 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                    />
+                    <button
+                      onClick={handleAddText}
+                      disabled={adding || !addValue.trim()}
+                      className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      {adding ? 'Adding…' : 'Add'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Existing items */}
@@ -3564,7 +4075,7 @@ function DatasetTab({ app }: { app: Application }) {
                           )}
                         </div>
                         <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 shrink-0 mt-0.5">
-                          {item.data_type !== 'file' && (
+                          {canEdit && item.data_type !== 'file' && (
                             <button
                               onClick={() => startEdit(item)}
                               className="text-zinc-600 hover:text-zinc-300 transition-colors text-sm px-1"
@@ -3573,16 +4084,18 @@ function DatasetTab({ app }: { app: Application }) {
                               ✎
                             </button>
                           )}
-                          <button
-                            onClick={() => handleDelete(item.id)}
-                            disabled={deletingId === item.id}
-                            className="text-zinc-600 hover:text-red-400 transition-colors text-sm px-1"
-                            title="Delete"
-                          >
-                            {deletingId === item.id ? (
-                              <span className="animate-spin inline-block w-3 h-3 border border-zinc-400 border-t-transparent rounded-full" />
-                            ) : '✕'}
-                          </button>
+                          {canDelete && (
+                            <button
+                              onClick={() => handleDelete(item.id)}
+                              disabled={deletingId === item.id}
+                              className="text-zinc-600 hover:text-red-400 transition-colors text-sm px-1"
+                              title="Delete"
+                            >
+                              {deletingId === item.id ? (
+                                <span className="animate-spin inline-block w-3 h-3 border border-zinc-400 border-t-transparent rounded-full" />
+                              ) : '✕'}
+                            </button>
+                          )}
                         </div>
                       </div>
                     )}
@@ -3599,17 +4112,16 @@ function DatasetTab({ app }: { app: Application }) {
 
 // ─── Knowledge Graph Tab ──────────────────────────────────────────────────────
 
-function KnowledgeGraphTab({ app, onExploreClick }: { app: Application; onExploreClick: () => void }) {
-  const [coverage, setCoverage] = useState<KgCoverageReport | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [selectedModule, setSelectedModule] = useState<KgModuleCoverage | null>(null);
-
-  useEffect(() => {
-    knowledgeApi.getCoverage(app.id)
-      .then(setCoverage)
-      .catch(() => setCoverage(null))
-      .finally(() => setLoading(false));
-  }, [app.id]);
+function KnowledgeGraphTab({ app, onExploreClick, onOpenScenario }: {
+  app: Application;
+  onExploreClick: () => void;
+  onOpenScenario: (scenarioId: string) => void;
+}) {
+  // A query rather than a one-off fetch so module refreshes show up without a reload
+  const { data: coverage = null, isLoading: loading } = useKnowledgeCoverage(app.id);
+  const [selectedModuleId, setSelectedModuleId] = useState<string | null>(null);
+  const [view, setView] = useState<'map' | 'modules' | 'history'>('map');
+  const selectedModule = coverage?.modules.find((m) => m.module_id === selectedModuleId) ?? null;
 
   const statusColor = (status: KgModuleCoverage['status']) =>
     status === 'kg_ready' ? 'border-emerald-500/40 bg-emerald-500/5' :
@@ -3709,117 +4221,142 @@ function KnowledgeGraphTab({ app, onExploreClick }: { app: Application; onExplor
         </div>
       </div>
 
-      {/* Module grid */}
-      <div className="grid grid-cols-2 gap-3 lg:grid-cols-3">
-        {coverage.modules.map((mod) => (
+      <div className="flex items-center gap-1 mb-4 bg-zinc-900 border border-zinc-800 rounded-lg p-1 w-fit">
+        {([['map', '🕸 Map'], ['modules', '▦ Modules'], ['history', '🕘 History']] as const).map(([id, label]) => (
           <button
-            key={mod.module_id}
-            onClick={() => setSelectedModule(selectedModule?.module_id === mod.module_id ? null : mod)}
-            className={`text-left border rounded-xl p-4 transition-all hover:border-opacity-70 ${statusColor(mod.status)} ${
-              selectedModule?.module_id === mod.module_id ? 'ring-2 ring-blue-500/40' : ''
+            key={id}
+            onClick={() => setView(id)}
+            className={`px-3 py-1 text-xs rounded-md transition-colors ${
+              view === id ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'
             }`}
           >
-            <div className="flex items-start justify-between gap-2 mb-2">
-              <span className="text-sm font-medium text-zinc-200 leading-snug">{mod.module_name}</span>
-              {statusBadge(mod.status)}
-            </div>
-            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-zinc-500">
-              {mod.pages_discovered > 0 && <span>📄 {mod.pages_discovered} pages</span>}
-              {mod.kg_workflows_count > 0 && <span>🔄 {mod.kg_workflows_count} workflows</span>}
-              {mod.scenarios_total > 0 && (
-                <span className={mod.scenarios_kg_backed > 0 ? 'text-emerald-500/80' : ''}>
-                  📋 {mod.scenarios_kg_backed}/{mod.scenarios_total} KG
-                </span>
-              )}
-            </div>
-            {mod.kg_workflow_types.length > 0 && (
-              <div className="flex flex-wrap gap-1 mt-2">
-                {[...new Set(mod.kg_workflow_types)].map((wt) => (
-                  <span key={wt} className="text-xs bg-zinc-800 text-zinc-400 px-1.5 py-0.5 rounded">
-                    {wt.replace('crud_', '')}
-                  </span>
-                ))}
-              </div>
-            )}
+            {label}
           </button>
         ))}
       </div>
 
-      {/* Selected module detail panel */}
-      {selectedModule && (
-        <div className="mt-4 bg-zinc-900 border border-zinc-700 rounded-xl p-5">
-          <div className="flex items-center justify-between mb-3">
-            <h3 className="text-sm font-semibold text-white">{selectedModule.module_name}</h3>
-            <button
-              onClick={() => setSelectedModule(null)}
-              className="text-zinc-600 hover:text-zinc-400 text-sm"
-            >✕</button>
-          </div>
-          <div className="grid grid-cols-3 gap-4 text-sm">
-            <div>
-              <div className="text-xs text-zinc-500 mb-1">Status</div>
-              {statusBadge(selectedModule.status)}
-            </div>
-            <div>
-              <div className="text-xs text-zinc-500 mb-1">Pages Discovered</div>
-              <div className="text-zinc-300">{selectedModule.pages_discovered}</div>
-            </div>
-            <div>
-              <div className="text-xs text-zinc-500 mb-1">Last Explored</div>
-              <div className="text-zinc-400 text-xs">
-                {selectedModule.last_explored_at
-                  ? new Date(selectedModule.last_explored_at).toLocaleString()
-                  : '—'}
-              </div>
-            </div>
-            <div>
-              <div className="text-xs text-zinc-500 mb-1">KG Workflows</div>
-              <div className="flex flex-wrap gap-1 mt-1">
-                {selectedModule.kg_workflow_types.length > 0
-                  ? [...new Set(selectedModule.kg_workflow_types)].map((wt) => (
-                      <span key={wt} className="text-xs bg-emerald-500/15 text-emerald-400 px-2 py-0.5 rounded-full border border-emerald-500/25">
+      {view === 'map' && <KnowledgeMap app={app} coverage={coverage} />}
+
+      {view === 'history' && <KnowledgeHistory app={app} onOpenScenario={onOpenScenario} />}
+
+      {view === 'modules' && (
+        <>
+          {/* Module grid */}
+          <div className="grid grid-cols-2 gap-3 lg:grid-cols-3">
+            {coverage.modules.map((mod) => (
+              <button
+                key={mod.module_id}
+                onClick={() => setSelectedModuleId(selectedModuleId === mod.module_id ? null : mod.module_id)}
+                className={`text-left border rounded-xl p-4 transition-all hover:border-opacity-70 ${statusColor(mod.status)} ${
+                  selectedModuleId === mod.module_id ? 'ring-2 ring-blue-500/40' : ''
+                }`}
+              >
+                <div className="flex items-start justify-between gap-2 mb-2">
+                  <span className="text-sm font-medium text-zinc-200 leading-snug">{mod.module_name}</span>
+                  {statusBadge(mod.status)}
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-zinc-500">
+                  {mod.pages_discovered > 0 && <span>📄 {mod.pages_discovered} pages</span>}
+                  {mod.kg_workflows_count > 0 && <span>🔄 {mod.kg_workflows_count} workflows</span>}
+                  {mod.scenarios_total > 0 && (
+                    <span className={mod.scenarios_kg_backed > 0 ? 'text-emerald-500/80' : ''}>
+                      📋 {mod.scenarios_kg_backed}/{mod.scenarios_total} KG
+                    </span>
+                  )}
+                </div>
+                {mod.kg_workflow_types.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {[...new Set(mod.kg_workflow_types)].map((wt) => (
+                      <span key={wt} className="text-xs bg-zinc-800 text-zinc-400 px-1.5 py-0.5 rounded">
                         {wt.replace('crud_', '')}
                       </span>
-                    ))
-                  : <span className="text-zinc-600 text-xs">None recorded yet</span>
-                }
-              </div>
-            </div>
-            <div>
-              <div className="text-xs text-zinc-500 mb-1">Scenarios</div>
-              <div className="text-zinc-300">
-                {selectedModule.scenarios_total} total
-                {selectedModule.scenarios_kg_backed > 0
-                  ? `, ${selectedModule.scenarios_kg_backed} KG-backed`
-                  : ''
-                }
+                    ))}
+                  </div>
+                )}
+              </button>
+            ))}
+          </div>
+
+          {/* Selected module detail panel */}
+          {selectedModule && (
+            <div className="mt-4 bg-zinc-900 border border-zinc-700 rounded-xl p-5">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold text-white">{selectedModule.module_name}</h3>
+                <div className="flex items-center gap-3 min-w-0">
+                  <ModuleRefreshControl app={app} moduleId={selectedModule.module_id} moduleName={selectedModule.module_name} />
+                  <button
+                    onClick={() => setSelectedModuleId(null)}
+                    className="text-zinc-600 hover:text-zinc-400 text-sm"
+                  >✕</button>
+                </div>
               </div>
-            </div>
-            <div>
-              <div className="text-xs text-zinc-500 mb-1">KG Coverage</div>
-              <div className="flex items-center gap-2">
-                <div className="flex-1 bg-zinc-800 rounded-full h-1.5">
-                  <div
-                    className="bg-emerald-500 h-1.5 rounded-full"
-                    style={{ width: `${selectedModule.kg_coverage_pct}%` }}
-                  />
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <div className="text-xs text-zinc-500 mb-1">Status</div>
+                  {statusBadge(selectedModule.status)}
+                </div>
+                <div>
+                  <div className="text-xs text-zinc-500 mb-1">Pages Discovered</div>
+                  <div className="text-zinc-300">{selectedModule.pages_discovered}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-zinc-500 mb-1">Last Explored</div>
+                  <div className="text-zinc-400 text-xs">
+                    {selectedModule.last_explored_at
+                      ? new Date(selectedModule.last_explored_at).toLocaleString()
+                      : '—'}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-zinc-500 mb-1">KG Workflows</div>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {selectedModule.kg_workflow_types.length > 0
+                      ? [...new Set(selectedModule.kg_workflow_types)].map((wt) => (
+                          <span key={wt} className="text-xs bg-emerald-500/15 text-emerald-400 px-2 py-0.5 rounded-full border border-emerald-500/25">
+                            {wt.replace('crud_', '')}
+                          </span>
+                        ))
+                      : <span className="text-zinc-600 text-xs">None recorded yet</span>
+                    }
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-zinc-500 mb-1">Scenarios</div>
+                  <div className="text-zinc-300">
+                    {selectedModule.scenarios_total} total
+                    {selectedModule.scenarios_kg_backed > 0
+                      ? `, ${selectedModule.scenarios_kg_backed} KG-backed`
+                      : ''
+                    }
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-zinc-500 mb-1">KG Coverage</div>
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 bg-zinc-800 rounded-full h-1.5">
+                      <div
+                        className="bg-emerald-500 h-1.5 rounded-full"
+                        style={{ width: `${selectedModule.kg_coverage_pct}%` }}
+                      />
+                    </div>
+                    <span className="text-xs text-zinc-400 shrink-0">{selectedModule.kg_coverage_pct}%</span>
+                  </div>
                 </div>
-                <span className="text-xs text-zinc-400 shrink-0">{selectedModule.kg_coverage_pct}%</span>
               </div>
-            </div>
-          </div>
-          {selectedModule.status === 'not_explored' && (
-            <div className="mt-4 flex items-center gap-3 p-3 bg-zinc-800/60 rounded-lg">
-              <span className="text-zinc-500 text-sm">This module hasn&apos;t been explored yet.</span>
-              <button
-                onClick={onExploreClick}
-                className="shrink-0 text-xs px-3 py-1.5 bg-blue-600/20 hover:bg-blue-600/30 text-blue-300 border border-blue-600/30 rounded-lg transition-colors"
-              >
-                Explore now
-              </button>
+              {selectedModule.status === 'not_explored' && (
+                <div className="mt-4 flex items-center gap-3 p-3 bg-zinc-800/60 rounded-lg">
+                  <span className="text-zinc-500 text-sm">This module hasn&apos;t been explored yet.</span>
+                  <button
+                    onClick={onExploreClick}
+                    className="shrink-0 text-xs px-3 py-1.5 bg-blue-600/20 hover:bg-blue-600/30 text-blue-300 border border-blue-600/30 rounded-lg transition-colors"
+                  >
+                    Explore now
+                  </button>
+                </div>
+              )}
             </div>
           )}
-        </div>
+        </>
       )}
     </div>
   );
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, postToBackend, sessionCookieOptions, verifySessionToken } from '@/lib/session-cookie';
+
+/**
+ * Rotate the session: exchange the cookie's refresh token with the backend, store the
+ * replacement in the cookie and hand only the access token back to the page.
+ */
+export async function POST(req: NextRequest) {
+  const refreshToken = req.cookies.get(SESSION_COOKIE)?.value;
+  if (!refreshToken) {
+    return NextResponse.json({ detail: 'Not authenticated' }, { status: 401 });
+  }
+
+  const upstream = await postToBackend('/auth/refresh', JSON.stringify({ refresh_token: refreshToken }));
+  if (!upstream) {
+    return NextResponse.json({ detail: 'Auth service unreachable' }, { status: 502 });
+  }
+
+  if (upstream.status === 401 || upstream.status === 403) {
+    const res = NextResponse.json({ detail: 'Session expired' }, { status: 401 });
+    res.cookies.delete(SESSION_COOKIE);
+    return res;
+  }
+  if (!upstream.ok) {
+    return NextResponse.json({ detail: 'Token refresh failed' }, { status: upstream.status });
+  }
+
+  const { refresh_token, ...tokens } = await upstream.json();
+  const claims = await verifySessionToken(refresh_token);
+  const res = NextResponse.json(tokens);
+  if (claims) res.cookies.set(SESSION_COOKIE, refresh_token, sessionCookieOptions(claims.exp));
+  return res;
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SERVER_API_URL, SESSION_COOKIE, postToBackend, sessionCookieOptions, verifySessionToken } from '@/lib/session-cookie';
+
+/**
+ * Sign in: forward the credentials to the backend, keep the refresh token in the
+ * httpOnly session cookie and hand only the access token back to the page.
+ */
+export async function POST(req: NextRequest) {
+  const upstream = await postToBackend('/auth/login', await req.text());
+  if (!upstream) {
+    return NextResponse.json({ detail: 'Auth service unreachable' }, { status: 502 });
+  }
+  const data = await upstream.json().catch(() => ({}));
+  if (!upstream.ok) {
+    return NextResponse.json(data, { status: upstream.status });
+  }
+
+  const { refresh_token, ...tokens } = data;
+  const claims = await verifySessionToken(refresh_token);
+  if (!claims) {
+    return NextResponse.json({ detail: 'Sign-in failed' }, { status: 502 });
+  }
+  const res = NextResponse.json(tokens);
+  res.cookies.set(SESSION_COOKIE, refresh_token, sessionCookieOptions(claims.exp));
+  return res;
+}
+
+/** Sign out: revoke the refresh token server-side and drop the cookie. */
+export async function DELETE(req: NextRequest) {
+  const refreshToken = req.cookies.get(SESSION_COOKIE)?.value;
+  if (refreshToken) {
+    await fetch(`${SERVER_API_URL}/auth/logout`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refresh_token: refreshToken }),
+    }).catch(() => {});
+  }
+  const res = new NextResponse(null, { status: 204 });
+  res.cookies.delete(SESSION_COOKIE);
+  return res;
+}
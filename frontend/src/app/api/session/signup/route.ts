@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { postToBackend } from '@/lib/session-cookie';
+
+/**
+ * Create an account. The backend answers with a token pair, but the page sends the
+ * user to sign in afterwards, so neither token is passed on.
+ */
+export async function POST(req: NextRequest) {
+  const upstream = await postToBackend('/auth/signup', await req.text());
+  if (!upstream) {
+    return NextResponse.json({ detail: 'Auth service unreachable' }, { status: 502 });
+  }
+  if (!upstream.ok) {
+    const data = await upstream.json().catch(() => ({}));
+    return NextResponse.json(data, { status: upstream.status });
+  }
+  return new NextResponse(null, { status: 201 });
+}
@@ -8,8 +8,8 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import Link from 'next/link';
 import { Sparkles, ArrowLeft } from 'lucide-react';
-
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api/v1';
+import { signIn } from '@/lib/auth-session';
+import { safeCallbackUrl } from '@/lib/session-cookie';
 
 function LoginForm() {
   const [email, setEmail] = useState('');
@@ -26,18 +26,12 @@ function LoginForm() {
     setIsLoading(true);
 
     try {
-      const res = await fetch(`${API_URL}/auth/login`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, password }),
-      });
+      const failed = await signIn({ email, password });
 
-      if (res.ok) {
-        const data = await res.json();
-        localStorage.setItem('qaptain_token', data.access_token);
-        router.push(searchParams.get('callbackUrl') || '/workspaces');
+      if (!failed) {
+        router.push(safeCallbackUrl(searchParams.get('callbackUrl')));
       } else {
-        const data = await res.json().catch(() => ({}));
+        const data = await failed.json().catch(() => ({}));
         const detail = data.detail;
         setError(Array.isArray(detail)
           ? detail.map((e: { msg: string }) => e.msg).join(', ')
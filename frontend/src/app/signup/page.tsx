@@ -9,8 +9,6 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Sparkles, ArrowLeft } from 'lucide-react';
 import Link from 'next/link';
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api/v1';
-
 export default function SignUpPage() {
   const [firstName, setFirstName] = useState('');
   const [lastName, setLastName] = useState('');
@@ -26,13 +24,15 @@ export default function SignUpPage() {
     setIsLoading(true);
 
     try {
-      const res = await fetch(`${API_URL}/auth/signup`, {
+      const res = await fetch('/api/session/signup', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           email,
           password,
           name: `${firstName} ${lastName}`.trim(),
+          // Workspace invite links are /signup?invite=<token>
+          invite_token: new URLSearchParams(window.location.search).get('invite') || undefined,
         }),
       });
 
@@ -3,7 +3,10 @@
 import { useEffect, useRef, useState } from 'react';
 import { executions as executionsApi, type ExecutionRun } from '@/lib/api';
 import { getSocket } from '@/lib/websocket';
+import { useSocketState } from '@/hooks/use-socket-state';
+import { ConnectionBadge } from '@/components/platform/connection-badge';
 import { ExecutionDashboard } from './ExecutionDashboard';
+import { BatchExportMenu } from './BatchExportMenu';
 
 export interface BatchItem {
   run_id: string;
@@ -11,7 +14,10 @@ export interface BatchItem {
 }
 
 interface BatchExecutionDashboardProps {
+  workspaceId: string;
   items: BatchItem[];
+  /** Enables result export; absent for legacy batches passed inline in the URL. */
+  batchId?: string;
 }
 
 const STATUS_CONFIG: Record<string, { label: string; dot: string; badge: string }> = {
@@ -27,11 +33,12 @@ function isActive(status?: string) {
   return !status || status === 'RUNNING' || status === 'QUEUED' || status === 'PENDING';
 }
 
-export function BatchExecutionDashboard({ items }: BatchExecutionDashboardProps) {
+export function BatchExecutionDashboard({ workspaceId, items, batchId }: BatchExecutionDashboardProps) {
   const [runs, setRuns] = useState<Record<string, ExecutionRun>>({});
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [batchError, setBatchError] = useState<string | null>(null);
   const socket = getSocket();
+  const socketState = useSocketState();
   // Stable ref so the polling closure always sees the latest runs without re-registering
   const runsRef = useRef<Record<string, ExecutionRun>>({});
   runsRef.current = runs;
@@ -51,7 +58,9 @@ export function BatchExecutionDashboard({ items }: BatchExecutionDashboardProps)
     loadAll();
   }, []);
 
-  // Poll active runs every 3s — dep array excludes `runs` to avoid re-registering on each update
+  // Poll active runs every 3s (10s while the socket is healthy) — dep array excludes `runs`
+  // to avoid re-registering on each update
+  const pollRef = useRef<() => Promise<void>>(async () => {});
   useEffect(() => {
     const poll = async () => {
       const activeIds = items.filter(i => isActive(runsRef.current[i.run_id]?.status)).map(i => i.run_id);
@@ -65,17 +74,20 @@ export function BatchExecutionDashboard({ items }: BatchExecutionDashboardProps)
         return updated;
       });
     };
-    const timer = setInterval(poll, 3000);
+    pollRef.current = poll;
+    const timer = setInterval(poll, socketState === 'open' ? 10000 : 3000);
     return () => clearInterval(timer);
-  }, [items]);
+  }, [items, socketState]);
 
   // WebSocket updates
   useEffect(() => {
     socket.connect();
     const runIds = new Set(items.map(i => i.run_id));
+    // Subscribing makes these runs' events replayable after a reconnect
+    const releases = [...runIds].map(id => socket.subscribe(id));
 
     const offStarted = socket.on('run_started', (data) => {
-      const id = data.run_id as string;
+      const id = data.run_id;
       if (!runIds.has(id)) return;
       setRuns(prev => prev[id]
         ? { ...prev, [id]: { ...prev[id], status: 'RUNNING' } }
@@ -83,7 +95,7 @@ export function BatchExecutionDashboard({ items }: BatchExecutionDashboardProps)
     });
 
     const offCompleted = socket.on('run_completed', async (data) => {
-      const id = data.run_id as string;
+      const id = data.run_id;
       if (!runIds.has(id)) return;
       try {
         const r = await executionsApi.get(id);
@@ -92,7 +104,7 @@ export function BatchExecutionDashboard({ items }: BatchExecutionDashboardProps)
     });
 
     const offFailed = socket.on('run_failed', async (data) => {
-      const id = data.run_id as string;
+      const id = data.run_id;
       if (!runIds.has(id)) return;
       try {
         const r = await executionsApi.get(id);
@@ -101,8 +113,8 @@ export function BatchExecutionDashboard({ items }: BatchExecutionDashboardProps)
     });
 
     const offBatchFailed = socket.on('batch_failed', (data) => {
-      const reason = data.reason as string | undefined;
-      setBatchError(reason ?? 'Batch execution failed before any scenarios could run.');
+      if (!data.run_ids.some((id) => runIds.has(id))) return;
+      setBatchError(data.reason ?? 'Batch execution failed before any scenarios could run.');
       // Refresh all run statuses
       items.forEach(async (item) => {
         try {
@@ -112,7 +124,11 @@ export function BatchExecutionDashboard({ items }: BatchExecutionDashboardProps)
       });
     });
 
-    return () => { offStarted(); offCompleted(); offFailed(); offBatchFailed(); };
+    const offReplay = socket.on('replay_complete', (data) => {
+      if (data.gap && runIds.has(data.topic)) pollRef.current().catch(() => {});
+    });
+
+    return () => { offStarted(); offCompleted(); offFailed(); offBatchFailed(); offReplay(); releases.forEach(r => r()); };
   }, [items, socket]);
 
   const totalCount = items.length;
@@ -157,7 +173,11 @@ export function BatchExecutionDashboard({ items }: BatchExecutionDashboardProps)
                 : `Running${runningCount > 0 ? ` (${runningCount} active)` : ''}`}
             </span>
           </div>
-          <span className="text-sm text-zinc-500">{totalCount} scenarios</span>
+          <div className="flex items-center gap-3">
+            {!isAllDone && <ConnectionBadge state={socketState} />}
+            <span className="text-sm text-zinc-500">{totalCount} scenarios</span>
+            {batchId && <BatchExportMenu batchId={batchId} />}
+          </div>
         </div>
 
         <div className="grid grid-cols-4 gap-4 mb-4">
@@ -256,7 +276,7 @@ export function BatchExecutionDashboard({ items }: BatchExecutionDashboardProps)
 
               {isExpanded && (
                 <div className="border-t border-zinc-800 px-5 py-5 bg-zinc-950/60">
-                  <ExecutionDashboard runId={item.run_id} />
+                  <ExecutionDashboard workspaceId={workspaceId} runId={item.run_id} />
                 </div>
               )}
             </div>
@@ -0,0 +1,70 @@
+'use client';
+
+import { useState } from 'react';
+import { executions as executionsApi, type BatchExportFormat } from '@/lib/api';
+import { useAppToast } from '@/components/ui/app-notifications';
+
+const FORMATS: Array<{ format: BatchExportFormat; label: string; ext: string; hint: string }> = [
+  { format: 'junit', label: 'JUnit XML', ext: 'xml', hint: 'One testcase per scenario — for CI dashboards' },
+  { format: 'html', label: 'HTML report', ext: 'html', hint: 'Standalone file with embedded screenshots' },
+  { format: 'json', label: 'JSON', ext: 'json', hint: 'Machine-readable, versioned schema' },
+];
+
+/** Download a batch's results as JUnit XML, a standalone HTML report or JSON. */
+export function BatchExportMenu({ batchId, compact = false }: { batchId: string; compact?: boolean }) {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState<BatchExportFormat | null>(null);
+  const toast = useAppToast();
+
+  const download = async (format: BatchExportFormat, ext: string) => {
+    setExporting(format);
+    try {
+      const blob = await executionsApi.exportBatch(batchId, format);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `qaptain-batch-${batchId.slice(0, 8)}.${ext}`;
+      a.click();
+      URL.revokeObjectURL(url);
+      setOpen(false);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={`flex items-center gap-1.5 text-xs text-zinc-400 hover:text-zinc-200 transition-colors rounded border border-zinc-700 hover:border-zinc-500 ${
+          compact ? 'px-2 py-1' : 'px-3 py-1.5'
+        }`}
+      >
+        {exporting
+          ? <div className="animate-spin w-3 h-3 border border-zinc-400 border-t-transparent rounded-full" />
+          : <span>↓</span>}
+        Export
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-1 w-64 z-20 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl overflow-hidden">
+            {FORMATS.map((f) => (
+              <button
+                key={f.format}
+                onClick={() => download(f.format, f.ext)}
+                disabled={exporting !== null}
+                className="w-full text-left px-3 py-2 hover:bg-zinc-800 transition-colors disabled:opacity-50"
+              >
+                <div className="text-xs text-zinc-200">{f.label}</div>
+                <div className="text-[11px] text-zinc-500">{f.hint}</div>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useState } from 'react';
+import type { DefectDraft, DefectLink } from '@/lib/api';
+import { useDefectDraft, useFileDefect, useRunDefect, useSetDefectStatus } from '@/lib/queries';
+import { useAppToast } from '@/components/ui/app-notifications';
+
+/**
+ * Defect state of a failed run for the run header: the defect it was filed under,
+ * or a "Create defect" button that previews the draft before filing. Repeat failures
+ * of a scenario attach to its open defect instead of filing a duplicate. Viewers
+ * (`canFile` false) see the linked defect but can't file or resolve one.
+ */
+export function DefectAction({ runId, canFile }: { runId: string; canFile: boolean }) {
+  const { data } = useRunDefect(runId);
+  const [open, setOpen] = useState(false);
+
+  if (!data) return null;
+  if (data.defect) return <DefectBadge defect={data.defect} canEdit={canFile} />;
+  if (!data.tracker_configured || !canFile) return null;
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="text-xs px-3 py-1.5 rounded-lg border border-red-500/30 text-red-300 hover:text-red-200 hover:border-red-500/50 transition-colors"
+      >
+        {data.scenario_defect ? `Attach to ${data.scenario_defect.defect_key}` : 'Create Defect'}
+      </button>
+      {open && (
+        <CreateDefectDialog runId={runId} attachTo={data.scenario_defect} onClose={() => setOpen(false)} />
+      )}
+    </>
+  );
+}
+
+function DefectBadge({ defect, canEdit }: { defect: DefectLink; canEdit: boolean }) {
+  const setStatus = useSetDefectStatus();
+  const toast = useAppToast();
+  const resolved = defect.status === 'resolved';
+
+  const toggle = async () => {
+    try {
+      await setStatus.mutateAsync({ defectId: defect.id, status: resolved ? 'open' : 'resolved' });
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to update defect');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span
+        className={`px-2.5 py-1 rounded-lg border ${
+          resolved ? 'border-zinc-700 text-zinc-500' : 'border-red-500/30 bg-red-500/10 text-red-300'
+        }`}
+        title={`${defect.title} — ${defect.occurrences} failing run${defect.occurrences === 1 ? '' : 's'}`}
+      >
+        🐞{' '}
+        {defect.defect_url ? (
+          <a href={defect.defect_url} target="_blank" rel="noreferrer" className="font-medium hover:underline">
+            {defect.defect_key}
+          </a>
+        ) : (
+          <span className="font-medium">{defect.defect_key}</span>
+        )}
+        {defect.occurrences > 1 && <span className="text-zinc-500"> · ×{defect.occurrences}</span>}
+        {resolved && <span> · resolved</span>}
+      </span>
+      {canEdit && (
+        <button
+          onClick={toggle}
+          disabled={setStatus.isPending}
+          className="text-zinc-500 hover:text-zinc-300 transition-colors disabled:opacity-50"
+        >
+          {resolved ? 'Reopen' : 'Mark resolved'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function CreateDefectDialog({
+  runId,
+  attachTo,
+  onClose,
+}: {
+  runId: string;
+  attachTo: DefectLink | null;
+  onClose: () => void;
+}) {
+  const { data: draft, isLoading, isError } = useDefectDraft(runId);
+  const fileDefect = useFileDefect(runId);
+  const toast = useAppToast();
+  // Unset until the user edits, so the draft stays the source of truth
+  const [title, setTitle] = useState<string | null>(null);
+  const [description, setDescription] = useState<string | null>(null);
+
+  const handleFile = async () => {
+    try {
+      const result = await fileDefect.mutateAsync({
+        ...(title !== null ? { title } : {}),
+        ...(description !== null ? { description } : {}),
+      });
+      const key = result.defect.defect_key;
+      toast.success(result.created ? `Filed ${key}` : `Attached to ${key} (${result.defect.occurrences} failing runs)`);
+      onClose();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to file defect');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-zinc-900 border border-zinc-700 rounded-2xl w-full max-w-2xl max-h-[85vh] flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between px-6 py-4 border-b border-zinc-800">
+          <div>
+            <h2 className="text-base font-semibold text-white">{attachTo ? 'Attach to Defect' : 'Create Defect'}</h2>
+            <p className="text-xs text-zinc-500 mt-0.5">
+              {attachTo
+                ? `This scenario already has ${attachTo.defect_key} open — the run will be added to it.`
+                : 'Review the draft; it is sent to the workspace tracker as shown.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors text-xl leading-none px-1">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {isLoading ? (
+            <div className="text-xs text-zinc-500">Building draft…</div>
+          ) : isError || !draft ? (
+            <div className="text-xs text-red-400">Could not build a defect draft for this run.</div>
+          ) : (
+            <>
+              {!attachTo && (
+                <label className="block">
+                  <span className="text-xs text-zinc-400">Title</span>
+                  <input
+                    value={title ?? draft.title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    maxLength={500}
+                    className="mt-1 w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500"
+                  />
+                </label>
+              )}
+              <DraftMeta draft={draft} />
+              <label className="block">
+                <span className="text-xs text-zinc-400">Description</span>
+                <textarea
+                  value={description ?? draft.description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  rows={12}
+                  className="mt-1 w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-xs font-mono text-zinc-200 focus:outline-none focus:border-blue-500"
+                />
+              </label>
+              {draft.screenshot_url && (
+                <div>
+                  <span className="text-xs text-zinc-400">Failing step screenshot</span>
+                  <img
+                    src={draft.screenshot_url}
+                    alt="Failing step screenshot"
+                    className="mt-1 max-h-56 rounded-lg border border-zinc-800 object-contain"
+                  />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-zinc-800">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-zinc-400 hover:text-zinc-200 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleFile}
+            disabled={!draft || fileDefect.isPending || (title !== null && !title.trim())}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {fileDefect.isPending ? 'Filing…' : attachTo ? `Attach to ${attachTo.defect_key}` : 'File Defect'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function DraftMeta({ draft }: { draft: DefectDraft }) {
+  const items: Array<[string, string | null]> = [
+    ['Severity', draft.severity],
+    ['Environment', draft.environment.name],
+    ['Module', draft.scenario.module],
+    ['Error', draft.error_type],
+  ];
+  return (
+    <div className="flex flex-wrap gap-2">
+      {items.filter(([, v]) => v).map(([label, value]) => (
+        <span key={label} className="text-[11px] bg-zinc-800 text-zinc-400 px-2 py-0.5 rounded-full">
+          {label}: <span className="text-zinc-200">{value}</span>
+        </span>
+      ))}
+      <span className="text-[11px] text-zinc-500 px-1 py-0.5">
+        {draft.steps_to_reproduce.length} reproduction step{draft.steps_to_reproduce.length === 1 ? '' : 's'}
+      </span>
+    </div>
+  );
+}
@@ -1,10 +1,19 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-import { executions as executionsApi, type ExecutionRun, type ExecutionReport } from '@/lib/api';
+import { executions as executionsApi, type ExecutionRun, type ExecutionReport, type ExecutionStep } from '@/lib/api';
 import { getSocket } from '@/lib/websocket';
+import { useSocketState } from '@/hooks/use-socket-state';
+import { useWorkspacePermissions } from '@/hooks/use-workspace-permissions';
+import { ConnectionBadge } from '@/components/platform/connection-badge';
+import { LiveBrowserView } from '@/components/platform/live-browser-view';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { StepReplay } from './StepReplay';
+import { HealingInspector } from './HealingInspector';
+import { DefectAction } from './DefectAction';
 
 interface ExecutionDashboardProps {
+  workspaceId: string;
   runId: string;
 }
 
@@ -66,10 +75,14 @@ function tsToTime(iso: string): string {
 
 // ── Main Component ────────────────────────────────────────────────────────────
 
-export function ExecutionDashboard({ runId }: ExecutionDashboardProps) {
+export function ExecutionDashboard({ workspaceId, runId }: ExecutionDashboardProps) {
+  const { canRun, canEdit } = useWorkspacePermissions(workspaceId);
   const [run, setRun] = useState<ExecutionRun | null>(null);
   const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
   const [report, setReport] = useState<ExecutionReport | null>(null);
+  const [steps, setSteps] = useState<ExecutionStep[]>([]);
+  const [view, setView] = useState<'log' | 'replay' | 'healing'>('log');
+  const [showBrowser, setShowBrowser] = useState(true);
   const [showReport, setShowReport] = useState(false);
   const [autoScroll, setAutoScroll] = useState(true);
   const [cancelling, setCancelling] = useState(false);
@@ -80,6 +93,7 @@ export function ExecutionDashboard({ runId }: ExecutionDashboardProps) {
   const feedRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
   const socket = getSocket();
+  const socketState = useSocketState();
 
   // Merge log entries, deduplicating by id (handles WS + poll overlap)
   function mergeLogEntries(prev: TimelineEntry[], newEntries: TimelineEntry[]): TimelineEntry[] {
@@ -95,6 +109,11 @@ export function ExecutionDashboard({ runId }: ExecutionDashboardProps) {
     setTimeline((prev) => [...prev, { ...entry, id }]);
   };
 
+  // Persisted steps (with screenshots) for the replay view
+  const refreshSteps = () => {
+    executionsApi.getSteps(runId).then(setSteps).catch(() => {});
+  };
+
   // ── Initial load ─────────────────────────────────────────────────────────
 
   useEffect(() => {
@@ -123,77 +142,81 @@ export function ExecutionDashboard({ runId }: ExecutionDashboardProps) {
       if (r.status === 'COMPLETED' || r.status === 'FAILED') {
         executionsApi.getReport(runId).then(setReport).catch(() => {});
       }
+      refreshSteps();
     };
     load().catch(console.error);
   }, [runId]);
 
   // ── Poll run + logs (incremental via since_id) while active ──────────────
 
+  // Fetch only what changed since the last log we have — used by the poll and after a lossy reconnect
+  const catchUp = async () => {
+    const [r, freshLogs] = await Promise.all([
+      executionsApi.get(runId),
+      executionsApi.getLogs(runId, lastLogIdRef.current),
+    ]);
+    setRun(r);
+
+    if (freshLogs.length > 0) {
+      const newEntries: TimelineEntry[] = freshLogs.map((l) => ({
+        id: l.id,
+        ts: l.timestamp,
+        kind: 'log' as const,
+        level: (l.level || 'INFO') as TimelineEntry['level'],
+        category: l.category || '',
+        message: l.message || '',
+      }));
+      setTimeline((prev) => mergeLogEntries(prev, newEntries));
+      const newLastId = freshLogs[freshLogs.length - 1].id;
+      setLastLogId(newLastId);
+      lastLogIdRef.current = newLastId;
+    }
+
+    if (r.status === 'COMPLETED' || r.status === 'FAILED') {
+      executionsApi.getReport(runId).then(setReport).catch(() => {});
+    }
+  };
+  const catchUpRef = useRef(catchUp);
+  catchUpRef.current = catchUp;
+
   useEffect(() => {
     if (!run) return;
     if (run.status === 'COMPLETED' || run.status === 'FAILED' || run.status === 'CANCELLED') return;
 
-    const poll = async () => {
-      try {
-        // Fetch only logs newer than what we already have
-        const [r, freshLogs] = await Promise.all([
-          executionsApi.get(runId),
-          executionsApi.getLogs(runId, lastLogIdRef.current),
-        ]);
-        setRun(r);
-
-        if (freshLogs.length > 0) {
-          const newEntries: TimelineEntry[] = freshLogs.map((l) => ({
-            id: l.id,
-            ts: l.timestamp,
-            kind: 'log' as const,
-            level: (l.level || 'INFO') as TimelineEntry['level'],
-            category: l.category || '',
-            message: l.message || '',
-          }));
-          setTimeline((prev) => mergeLogEntries(prev, newEntries));
-          const newLastId = freshLogs[freshLogs.length - 1].id;
-          setLastLogId(newLastId);
-          lastLogIdRef.current = newLastId;
-        }
-
-        if (r.status === 'COMPLETED' || r.status === 'FAILED') {
-          executionsApi.getReport(runId).then(setReport).catch(() => {});
-        }
-      } catch { /* ignore poll errors */ }
-    };
+    const poll = () => catchUpRef.current().catch(() => { /* ignore poll errors */ });
 
-    const t = setInterval(poll, 2500);
+    // The socket carries live updates while healthy; lean on polling only when it isn't
+    const t = setInterval(poll, socketState === 'open' ? 10000 : 2500);
     return () => clearInterval(t);
-  }, [runId, run?.status]);
+  }, [runId, run?.status, socketState]);
 
   // ── WebSocket real-time ──────────────────────────────────────────────────
 
   useEffect(() => {
     socket.connect();
-    socket.subscribe(runId);
+    const release = socket.subscribe(runId);
 
     const offLog = socket.on('run_log', (data) => {
       if (data.run_id !== runId) return;
       // Use server-provided id so polling deduplication works correctly.
       // If id is absent (old server), fall back to a random id.
-      const entryId = data.id ? String(data.id) : `ws-${Date.now()}-${Math.random()}`;
-      const ts = data.timestamp ? String(data.timestamp) : new Date().toISOString();
+      const entryId = data.id ?? `ws-${Date.now()}-${Math.random()}`;
+      const ts = data.timestamp ?? new Date().toISOString();
       setTimeline((prev) => {
         if (prev.some((e) => e.id === entryId)) return prev;  // already have it
         return [...prev, {
           id: entryId,
           ts,
           kind: 'log' as const,
-          level: (data.level || 'INFO') as TimelineEntry['level'],
-          category: String(data.category || ''),
-          message: String(data.message || ''),
+          level: data.level === 'MILESTONE' ? 'INFO' : data.level,
+          category: data.category,
+          message: data.message,
         }];
       });
       // Advance the incremental poll cursor so we don't re-fetch what WS delivered
       if (data.id) {
-        lastLogIdRef.current = String(data.id);
-        setLastLogId(String(data.id));
+        lastLogIdRef.current = data.id;
+        setLastLogId(data.id);
       }
     });
 
@@ -204,26 +227,26 @@ export function ExecutionDashboard({ runId }: ExecutionDashboardProps) {
         kind: 'step_start',
         level: 'RUNNING',
         category: 'step',
-        message: String(data.description || `Step ${data.step_num}`),
-        stepNum: Number(data.step_num),
-        action: String(data.action || ''),
+        message: data.description || `Step ${data.step_num}`,
+        stepNum: data.step_num,
+        action: data.action ?? '',
       });
     });
 
     const offStepDone = socket.on('step_completed', (data) => {
       if (data.run_id !== runId) return;
-      const ok = Boolean(data.success);
       addEntry({
         ts: new Date().toISOString(),
         kind: 'step_done',
-        level: ok ? (data.healing_used ? 'WARNING' : 'SUCCESS') : 'ERROR',
+        level: data.success ? (data.healing_used ? 'WARNING' : 'SUCCESS') : 'ERROR',
         category: 'step',
-        message: String(data.description || `Step ${Number(data.step_index) + 1}`),
-        stepNum: Number(data.step_index) + 1,
-        action: String(data.action || ''),
-        durationMs: data.duration_ms ? Number(data.duration_ms) : undefined,
-        healing: Boolean(data.healing_used),
+        message: data.description || `Step ${data.step_index + 1}`,
+        stepNum: data.step_index + 1,
+        action: data.action ?? '',
+        durationMs: data.duration_ms ?? undefined,
+        healing: data.healing_used,
       });
+      refreshSteps();
     });
 
     const offStarted = socket.on('run_started', (data) => {
@@ -240,10 +263,11 @@ export function ExecutionDashboard({ runId }: ExecutionDashboardProps) {
       const [r, rep] = await Promise.all([executionsApi.get(runId), executionsApi.getReport(runId)]);
       setRun(r);
       setReport(rep);
+      refreshSteps();
       addEntry({
         ts: new Date().toISOString(), kind: 'log', level: 'SUCCESS',
         category: 'system',
-        message: `Execution complete — ${data.passed ?? 0}/${data.total ?? 0} steps passed`,
+        message: `Execution complete — ${data.passed ?? r.passed_steps}/${data.total ?? r.total_steps} steps passed`,
       });
     });
 
@@ -251,6 +275,7 @@ export function ExecutionDashboard({ runId }: ExecutionDashboardProps) {
       if (data.run_id !== runId) return;
       const r = await executionsApi.get(runId);
       setRun(r);
+      refreshSteps();
       addEntry({
         ts: new Date().toISOString(), kind: 'log', level: 'ERROR',
         category: 'system', message: `Execution failed: ${data.reason || 'unknown error'}`,
@@ -267,7 +292,15 @@ export function ExecutionDashboard({ runId }: ExecutionDashboardProps) {
       });
     });
 
-    return () => { offLog(); offStepStarted(); offStepDone(); offStarted(); offComplete(); offFailed(); offCancelled(); };
+    // After a reconnect: replayed events arrive through the handlers above; on a gap,
+    // REST is the source of truth for whatever the replay buffer no longer holds.
+    const offReplay = socket.on('replay_complete', (data) => {
+      if (data.topic !== runId) return;
+      refreshSteps();
+      if (data.gap) catchUpRef.current().catch(() => {});
+    });
+
+    return () => { offLog(); offStepStarted(); offStepDone(); offStarted(); offComplete(); offFailed(); offCancelled(); offReplay(); release(); };
   }, [runId, socket]);
 
   // ── Auto-scroll ──────────────────────────────────────────────────────────
@@ -303,6 +336,7 @@ export function ExecutionDashboard({ runId }: ExecutionDashboardProps) {
     : 0;
 
   const stepsComplete = run.passed_steps + run.failed_steps + run.healed_steps;
+  const healedStepCount = steps.filter((s) => s.healing_triggered).length;
 
   return (
     <div className="flex flex-col gap-4">
@@ -321,8 +355,10 @@ export function ExecutionDashboard({ runId }: ExecutionDashboardProps) {
                 {stepsComplete} / {run.total_steps} steps
               </span>
             )}
+            {isActive && <ConnectionBadge state={socketState} />}
           </div>
           <div className="flex items-center gap-3">
+            {isDone && run.status === 'FAILED' && <DefectAction runId={runId} canFile={canEdit} />}
             {isDone && report && (
               <button
                 onClick={() => setShowReport((v) => !v)}
@@ -335,7 +371,7 @@ export function ExecutionDashboard({ runId }: ExecutionDashboardProps) {
                 {showReport ? 'Hide Report' : 'View Report'}
               </button>
             )}
-            {isActive && (
+            {isActive && canRun && (
               <button
                 disabled={cancelling}
                 onClick={async () => {
@@ -405,10 +441,37 @@ export function ExecutionDashboard({ runId }: ExecutionDashboardProps) {
             : <div className={`w-2 h-2 rounded-full ${run.status === 'COMPLETED' ? 'bg-green-500' : 'bg-red-500'}`} />
           }
           <span className="text-sm font-medium text-zinc-300">
-            {isActive ? 'Live Execution Log' : 'Execution Log'}
+            {view === 'replay' ? 'Step Replay' : view === 'healing' ? 'Self-Healing Inspector' : isActive ? 'Live Execution Log' : 'Execution Log'}
+          </span>
+          <div className="ml-3 flex items-center bg-zinc-800/60 rounded-lg p-0.5 text-xs">
+            {(['log', 'replay', 'healing'] as const).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-2.5 py-1 rounded-md transition-colors ${
+                  view === v ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'
+                }`}
+              >
+                {v === 'log' ? 'Log'
+                  : v === 'replay' ? `Replay${steps.length ? ` (${steps.length})` : ''}`
+                  : <>Healing{healedStepCount > 0 && <span className="ml-1 text-amber-400">({healedStepCount})</span>}</>}
+              </button>
+            ))}
+          </div>
+          <span className="ml-auto text-xs text-zinc-600">
+            {view === 'log' ? `${timeline.length} events` : `${steps.length} steps`}
           </span>
-          <span className="ml-auto text-xs text-zinc-600">{timeline.length} events</span>
-          {!autoScroll && (
+          {view === 'log' && run.status === 'RUNNING' && (
+            <button
+              onClick={() => setShowBrowser((v) => !v)}
+              className={`ml-2 px-2 py-0.5 text-xs rounded-md border transition-colors ${
+                showBrowser ? 'border-zinc-600 text-zinc-200 bg-zinc-800' : 'border-zinc-700 text-zinc-500 hover:text-zinc-300'
+              }`}
+            >
+              🖥 Browser
+            </button>
+          )}
+          {view === 'log' && !autoScroll && (
             <button
               onClick={() => { setAutoScroll(true); bottomRef.current?.scrollIntoView({ behavior: 'smooth' }); }}
               className="text-xs text-blue-400 hover:text-blue-300 ml-2"
@@ -418,37 +481,60 @@ export function ExecutionDashboard({ runId }: ExecutionDashboardProps) {
           )}
         </div>
 
-        <div
-          ref={feedRef}
-          onScroll={handleFeedScroll}
-          className="flex-1 overflow-y-auto p-4 space-y-0.5 font-mono text-xs"
-        >
-          {timeline.length === 0 && (
-            <div className="text-center text-zinc-600 py-12">
-              {run.status === 'QUEUED' ? (
-                <div className="flex flex-col items-center gap-2">
-                  <div className="w-4 h-4 border border-zinc-600 border-t-zinc-400 rounded-full animate-spin" />
-                  <span>Waiting in queue...</span>
+        {view === 'replay' ? (
+          <StepReplay run={run} steps={steps} />
+        ) : view === 'healing' ? (
+          <HealingInspector
+            runId={runId}
+            steps={steps}
+            canAccept={canEdit}
+            onStepUpdated={(updated) => setSteps((prev) => prev.map((s) => (s.id === updated.id ? updated : s)))}
+          />
+        ) : (
+        <ResizablePanelGroup direction="horizontal" autoSaveId="qaptain-run-live-browser" className="flex-1 min-h-0">
+          <ResizablePanel id="log" order={1} defaultSize={55} minSize={30}>
+            <div
+              ref={feedRef}
+              onScroll={handleFeedScroll}
+              className="h-full overflow-y-auto p-4 space-y-0.5 font-mono text-xs"
+            >
+              {timeline.length === 0 && (
+                <div className="text-center text-zinc-600 py-12">
+                  {run.status === 'QUEUED' ? (
+                    <div className="flex flex-col items-center gap-2">
+                      <div className="w-4 h-4 border border-zinc-600 border-t-zinc-400 rounded-full animate-spin" />
+                      <span>Waiting in queue...</span>
+                    </div>
+                  ) : 'No log entries yet.'}
                 </div>
-              ) : 'No log entries yet.'}
-            </div>
-          )}
+              )}
 
-          {timeline.map((entry) => (
-            <TimelineRow key={entry.id} entry={entry} />
-          ))}
+              {timeline.map((entry) => (
+                <TimelineRow key={entry.id} entry={entry} />
+              ))}
+
+              {isActive && (
+                <div className="flex items-center gap-3 pt-1 opacity-40">
+                  <span className="text-zinc-700 w-16 shrink-0" />
+                  <div className="w-1.5 h-1.5 rounded-full bg-blue-500 animate-pulse shrink-0" />
+                  <span className="text-zinc-600">·</span>
+                  <span className="text-zinc-600 italic">executing...</span>
+                </div>
+              )}
 
-          {isActive && (
-            <div className="flex items-center gap-3 pt-1 opacity-40">
-              <span className="text-zinc-700 w-16 shrink-0" />
-              <div className="w-1.5 h-1.5 rounded-full bg-blue-500 animate-pulse shrink-0" />
-              <span className="text-zinc-600">·</span>
-              <span className="text-zinc-600 italic">executing...</span>
+              <div ref={bottomRef} />
             </div>
+          </ResizablePanel>
+          {run.status === 'RUNNING' && showBrowser && (
+            <>
+              <ResizableHandle withHandle className="bg-zinc-800" />
+              <ResizablePanel id="browser" order={2} defaultSize={45} minSize={25}>
+                <LiveBrowserView sourceId={runId} />
+              </ResizablePanel>
+            </>
           )}
-
-          <div ref={bottomRef} />
-        </div>
+        </ResizablePanelGroup>
+        )}
       </div>
 
       {/* ── Report (inline, after completion) ── */}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { executions as executionsApi, type ExecutionStep, type HealingAttempt } from '@/lib/api';
+
+interface HealingInspectorProps {
+  runId: string;
+  steps: ExecutionStep[];
+  /** Saving a locator changes future runs, so viewers only see the attempts. */
+  canAccept: boolean;
+  onStepUpdated: (step: ExecutionStep) => void;
+}
+
+function locatorOf(attempt: HealingAttempt): string {
+  return attempt.selector_value || attempt.selector || '';
+}
+
+// ── Healing Inspector ─────────────────────────────────────────────────────────
+
+export function HealingInspector({ runId, steps, canAccept, onStepUpdated }: HealingInspectorProps) {
+  // Every healed step, plus failed steps — a failed step's attempts show why healing gave up
+  const inspected = steps.filter(
+    (s) => s.healing_triggered || s.healing_attempts.length > 0 || String(s.status).toUpperCase() === 'FAILED',
+  );
+
+  if (inspected.length === 0) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center gap-1 text-xs text-zinc-600 py-12">
+        <span className="text-green-400 text-base">✓</span>
+        No step needed self-healing — this run passed against the recorded locators.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-3">
+      {inspected.map((step) => (
+        <HealingStepCard key={step.id} runId={runId} step={step} canAccept={canAccept} onStepUpdated={onStepUpdated} />
+      ))}
+    </div>
+  );
+}
+
+function HealingStepCard({ runId, step, canAccept, onStepUpdated }: Omit<HealingInspectorProps, 'steps'> & { step: ExecutionStep }) {
+  const [accepting, setAccepting] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const status = String(step.status).toUpperCase();
+  const attempts = step.healing_attempts;
+  const winnerIndex = attempts.reduce((found, a, i) => (a.success ? i : found), -1);
+  const accepted = attempts.some((a) => a.accepted);
+  const target = step.plan_step?.target;
+
+  const accept = async (index: number) => {
+    setAccepting(index);
+    setError(null);
+    try {
+      onStepUpdated(await executionsApi.acceptHealedLocator(runId, step.id, index));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not save locator');
+    } finally {
+      setAccepting(null);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+      <div className="px-4 py-3 flex items-center gap-2 border-b border-zinc-800">
+        <span className="text-zinc-500 font-mono text-xs">#{step.sequence}</span>
+        <span className="font-mono text-[10px] px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-300">{step.action_type}</span>
+        <span className="text-sm text-zinc-300 truncate flex-1">{target || step.description}</span>
+        <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${
+          status === 'FAILED' ? 'bg-red-500/20 text-red-300' : 'bg-amber-500/20 text-amber-300'
+        }`}>
+          {status === 'FAILED' ? 'Healing failed' : 'Self-healed'}
+        </span>
+        {accepted && <span className="text-xs px-2 py-0.5 rounded-full bg-green-500/15 text-green-300">Locator saved</span>}
+      </div>
+
+      {attempts.length === 0 ? (
+        <div className="px-4 py-3 text-xs text-zinc-600">
+          No healing strategies were recorded for this step.
+          {step.error_message && <div className="mt-1 text-red-300/80 font-mono break-words">{step.error_message}</div>}
+        </div>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-zinc-600 text-left">
+              <th className="px-4 py-2 font-medium w-8">#</th>
+              <th className="px-2 py-2 font-medium">Strategy</th>
+              <th className="px-2 py-2 font-medium">Locator tried</th>
+              <th className="px-2 py-2 font-medium w-20">Result</th>
+              <th className="px-4 py-2 font-medium w-32" />
+            </tr>
+          </thead>
+          <tbody>
+            {attempts.map((a, i) => (
+              <tr key={i} className={`border-t border-zinc-800/60 ${i === winnerIndex ? 'bg-green-500/5' : ''}`}>
+                <td className="px-4 py-2 text-zinc-600 tabular-nums">{i + 1}</td>
+                <td className="px-2 py-2 text-zinc-300">{a.strategy}</td>
+                <td className="px-2 py-2 font-mono text-zinc-400 break-all">
+                  {a.selector_type && <span className="text-zinc-600 mr-1">{a.selector_type}</span>}
+                  {locatorOf(a) || '—'}
+                  {a.reason && <div className="text-[10px] text-zinc-600 font-sans mt-0.5">{a.reason}</div>}
+                </td>
+                <td className="px-2 py-2">
+                  {a.success
+                    ? <span className="text-green-400">✓ matched</span>
+                    : <span className="text-zinc-500">✗ no match</span>}
+                  {a.duration_ms !== undefined && <div className="text-[10px] text-zinc-600">{a.duration_ms}ms</div>}
+                </td>
+                <td className="px-4 py-2 text-right">
+                  {a.success && locatorOf(a) && (
+                    a.accepted ? (
+                      <span className="text-green-400">✓ Accepted</span>
+                    ) : canAccept && (
+                      <button
+                        onClick={() => accept(i)}
+                        disabled={accepting !== null}
+                        className="px-2.5 py-1 rounded-lg border border-green-500/30 text-green-300 hover:border-green-500/60 disabled:opacity-50 transition-colors"
+                      >
+                        {accepting === i ? 'Saving…' : 'Accept locator'}
+                      </button>
+                    )
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {error && <div className="px-4 py-2 text-xs text-red-400 border-t border-zinc-800">{error}</div>}
+    </div>
+  );
+}
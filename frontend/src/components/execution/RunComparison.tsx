@@ -0,0 +1,219 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { executions as executionsApi, type ExecutionRun, type ExecutionStep } from '@/lib/api';
+
+interface RunComparisonProps {
+  runIdA: string;
+  runIdB: string;
+}
+
+interface AlignedRow {
+  a?: ExecutionStep;
+  b?: ExecutionStep;
+  diverges: boolean;
+}
+
+const STEP_BADGE: Record<string, string> = {
+  PASSED:  'bg-green-500/20 text-green-300',
+  HEALED:  'bg-amber-500/20 text-amber-300',
+  FAILED:  'bg-red-500/20 text-red-300',
+  SKIPPED: 'bg-zinc-800 text-zinc-500',
+  RUNNING: 'bg-blue-500/20 text-blue-300',
+  PENDING: 'bg-zinc-800 text-zinc-400',
+};
+
+const RUN_BADGE: Record<string, string> = {
+  COMPLETED: 'bg-green-500/20 text-green-300',
+  FAILED:    'bg-red-500/20 text-red-300',
+  RUNNING:   'bg-blue-500/20 text-blue-300',
+  CANCELLED: 'bg-zinc-800 text-zinc-500',
+};
+
+function stepKey(step: ExecutionStep): string {
+  const target = step.plan_step?.target ?? step.description ?? '';
+  return `${step.action_type}|${String(target).trim().toLowerCase()}`;
+}
+
+function normStatus(step?: ExecutionStep): string {
+  return step ? String(step.status).toUpperCase() : '';
+}
+
+/**
+ * Line up two step lists by action (LCS on action + target), falling back to
+ * sequence order for the unmatched stretches in between. Steps only one run
+ * executed show up as one-sided rows.
+ */
+export function alignSteps(a: ExecutionStep[], b: ExecutionStep[]): AlignedRow[] {
+  const sa = [...a].sort((x, y) => x.sequence - y.sequence);
+  const sb = [...b].sort((x, y) => x.sequence - y.sequence);
+  const ka = sa.map(stepKey);
+  const kb = sb.map(stepKey);
+
+  // LCS table, filled from the end so the walk below can go forwards
+  const dp: number[][] = Array.from({ length: sa.length + 1 }, () => new Array(sb.length + 1).fill(0));
+  for (let i = sa.length - 1; i >= 0; i--) {
+    for (let j = sb.length - 1; j >= 0; j--) {
+      dp[i][j] = ka[i] === kb[j] ? dp[i + 1][j + 1] + 1 : Math.max(dp[i + 1][j], dp[i][j + 1]);
+    }
+  }
+
+  const rows: AlignedRow[] = [];
+  const pushRow = (x?: ExecutionStep, y?: ExecutionStep) => {
+    const diverges = !x || !y || stepKey(x) !== stepKey(y) || normStatus(x) !== normStatus(y);
+    rows.push({ a: x, b: y, diverges });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < sa.length || j < sb.length) {
+    if (i < sa.length && j < sb.length && ka[i] === kb[j]) {
+      pushRow(sa[i++], sb[j++]);
+    } else if (i < sa.length && j < sb.length && sa[i].sequence === sb[j].sequence
+               && dp[i + 1][j + 1] === dp[i][j]) {
+      // Same slot, different action — keep them side by side rather than splitting into two rows
+      pushRow(sa[i++], sb[j++]);
+    } else if (j >= sb.length || (i < sa.length && dp[i + 1][j] >= dp[i][j + 1])) {
+      pushRow(sa[i++], undefined);
+    } else {
+      pushRow(undefined, sb[j++]);
+    }
+  }
+  return rows;
+}
+
+// ── Run Comparison ────────────────────────────────────────────────────────────
+
+export function RunComparison({ runIdA, runIdB }: RunComparisonProps) {
+  const [runs, setRuns] = useState<[ExecutionRun, ExecutionRun] | null>(null);
+  const [rows, setRows] = useState<AlignedRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [onlyDiffs, setOnlyDiffs] = useState(false);
+
+  useEffect(() => {
+    setError(null);
+    Promise.all([
+      executionsApi.get(runIdA),
+      executionsApi.get(runIdB),
+      executionsApi.getSteps(runIdA),
+      executionsApi.getSteps(runIdB),
+    ])
+      .then(([ra, rb, stepsA, stepsB]) => {
+        setRuns([ra, rb]);
+        setRows(alignSteps(stepsA, stepsB));
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : 'Could not load runs.'));
+  }, [runIdA, runIdB]);
+
+  if (error) return <div className="text-red-400 text-center py-20 text-sm">{error}</div>;
+  if (!runs) {
+    return <div className="text-zinc-500 text-center py-20 text-sm animate-pulse">Loading runs…</div>;
+  }
+
+  const [runA, runB] = runs;
+  const firstDivergence = rows.findIndex((r) => r.diverges);
+  const visible = rows
+    .map((row, idx) => ({ row, idx }))
+    .filter(({ row }) => !onlyDiffs || row.diverges);
+
+  return (
+    <div className="flex flex-col gap-4">
+      {runA.scenario_id !== runB.scenario_id && (
+        <div className="rounded-xl border border-amber-500/25 bg-amber-500/5 px-4 py-3 text-xs text-amber-300">
+          These runs belong to different scenarios — step alignment may not be meaningful.
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        {[runA, runB].map((r, i) => (
+          <div key={r.id} className="bg-zinc-900 border border-zinc-800 rounded-xl p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <span className="text-xs font-semibold text-zinc-500">Run {i === 0 ? 'A' : 'B'}</span>
+              <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${RUN_BADGE[r.status] || 'bg-zinc-800 text-zinc-400'}`}>
+                {r.status}
+              </span>
+              <span className="ml-auto text-[11px] text-zinc-600 font-mono">{r.id.slice(0, 8)}</span>
+            </div>
+            <div className="flex gap-4 text-xs text-zinc-400">
+              <span>{r.total_steps} steps</span>
+              <span className="text-green-400">{r.passed_steps} passed</span>
+              <span className="text-red-400">{r.failed_steps} failed</span>
+              {r.healed_steps > 0 && <span className="text-amber-400">{r.healed_steps} healed</span>}
+            </div>
+            {r.started_at && (
+              <div className="text-[11px] text-zinc-600 mt-1">{new Date(r.started_at).toLocaleString()}</div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-zinc-900/60 border border-zinc-800 rounded-xl overflow-hidden">
+        <div className="px-4 py-3 border-b border-zinc-800 flex items-center gap-3">
+          <span className="text-sm font-medium text-zinc-300">Step-by-step</span>
+          {firstDivergence >= 0 ? (
+            <button
+              onClick={() => document.getElementById(`cmp-row-${firstDivergence}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })}
+              className="text-xs text-red-300 hover:text-red-200"
+            >
+              First divergence at row {firstDivergence + 1} ↓
+            </button>
+          ) : (
+            <span className="text-xs text-green-400">Runs are step-for-step identical</span>
+          )}
+          <label className="ml-auto flex items-center gap-1.5 text-xs text-zinc-500 cursor-pointer">
+            <input type="checkbox" checked={onlyDiffs} onChange={(e) => setOnlyDiffs(e.target.checked)} />
+            Only differences
+          </label>
+        </div>
+
+        <div className="grid grid-cols-2 divide-x divide-zinc-800 text-[11px] text-zinc-600 border-b border-zinc-800">
+          <div className="px-4 py-1.5">Run A</div>
+          <div className="px-4 py-1.5">Run B</div>
+        </div>
+
+        {visible.map(({ row, idx }) => (
+          <div
+            key={idx}
+            id={`cmp-row-${idx}`}
+            className={`grid grid-cols-2 divide-x divide-zinc-800 border-b border-zinc-800/60 ${
+              idx === firstDivergence ? 'bg-red-500/10 ring-1 ring-inset ring-red-500/40'
+                : row.diverges ? 'bg-amber-500/5' : ''
+            }`}
+          >
+            <StepCell step={row.a} />
+            <StepCell step={row.b} />
+          </div>
+        ))}
+        {visible.length === 0 && (
+          <div className="text-center text-xs text-zinc-600 py-10">No steps to compare.</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function StepCell({ step }: { step?: ExecutionStep }) {
+  if (!step) {
+    return <div className="px-4 py-2.5 text-xs text-zinc-700 italic">— not executed —</div>;
+  }
+  const status = normStatus(step);
+  return (
+    <div className="px-4 py-2.5 text-xs min-w-0">
+      <div className="flex items-center gap-2">
+        <span className="text-zinc-600 font-mono w-8 shrink-0">#{step.sequence}</span>
+        <span className="font-mono text-[10px] px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-300 shrink-0">{step.action_type}</span>
+        <span className={`px-2 py-0.5 rounded-full font-medium shrink-0 ${STEP_BADGE[status] || STEP_BADGE.PENDING}`}>{status}</span>
+        <span className="ml-auto text-zinc-600 tabular-nums shrink-0">
+          {step.duration_ms != null ? `${step.duration_ms}ms` : '—'}
+        </span>
+      </div>
+      <div className="text-zinc-400 mt-1 truncate" title={step.description}>{step.description}</div>
+      {step.healing_triggered && (
+        <div className="text-amber-400 mt-0.5">⚡ self-healed ({step.healing_attempts.length} attempts)</div>
+      )}
+      {step.error_message && (
+        <div className="text-red-300/90 font-mono mt-0.5 break-words line-clamp-3">{step.error_message}</div>
+      )}
+    </div>
+  );
+}
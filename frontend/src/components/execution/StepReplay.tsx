@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { artifactUrl, type ExecutionRun, type ExecutionStep } from '@/lib/api';
+
+interface StepReplayProps {
+  run: ExecutionRun;
+  steps: ExecutionStep[];
+}
+
+const STEP_STATUS: Record<string, { label: string; badge: string; ring: string }> = {
+  PENDING: { label: 'Pending', badge: 'bg-zinc-800 text-zinc-400',       ring: 'border-zinc-700' },
+  RUNNING: { label: 'Running', badge: 'bg-blue-500/20 text-blue-300',    ring: 'border-blue-500/60' },
+  PASSED:  { label: 'Passed',  badge: 'bg-green-500/20 text-green-300',  ring: 'border-green-500/60' },
+  HEALED:  { label: 'Healed',  badge: 'bg-amber-500/20 text-amber-300',  ring: 'border-amber-500/60' },
+  FAILED:  { label: 'Failed',  badge: 'bg-red-500/20 text-red-300',      ring: 'border-red-500/60' },
+  SKIPPED: { label: 'Skipped', badge: 'bg-zinc-800 text-zinc-500',       ring: 'border-zinc-700' },
+};
+
+function stepStatus(step: ExecutionStep) {
+  return STEP_STATUS[String(step.status).toUpperCase()] || STEP_STATUS.PENDING;
+}
+
+// ── Step Replay ───────────────────────────────────────────────────────────────
+
+export function StepReplay({ run, steps }: StepReplayProps) {
+  const [index, setIndex] = useState(0);
+  const [showVideo, setShowVideo] = useState(false);
+  const stripRef = useRef<HTMLDivElement>(null);
+  const videoUrl = artifactUrl(run.video_path);
+
+  // Jump to the first failed step when steps first arrive — that's what testers open replay for
+  const seededRef = useRef(false);
+  useEffect(() => {
+    if (seededRef.current || steps.length === 0) return;
+    seededRef.current = true;
+    const firstFailed = steps.findIndex((s) => String(s.status).toUpperCase() === 'FAILED');
+    if (firstFailed >= 0) setIndex(firstFailed);
+  }, [steps]);
+
+  useEffect(() => {
+    if (index > steps.length - 1) setIndex(Math.max(0, steps.length - 1));
+  }, [steps.length, index]);
+
+  // Keep the active thumbnail in view
+  useEffect(() => {
+    const el = stripRef.current?.querySelector<HTMLElement>(`[data-step-index="${index}"]`);
+    el?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'center' });
+  }, [index]);
+
+  const prev = () => setIndex((i) => Math.max(0, i - 1));
+  const next = () => setIndex((i) => Math.min(steps.length - 1, i + 1));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowLeft') { e.preventDefault(); prev(); }
+    if (e.key === 'ArrowRight') { e.preventDefault(); next(); }
+  };
+
+  if (steps.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-xs text-zinc-600 py-12">
+        No recorded steps yet.
+      </div>
+    );
+  }
+
+  const step = steps[Math.min(index, steps.length - 1)];
+  const cfg = stepStatus(step);
+  const shot = artifactUrl(step.screenshot_path);
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 outline-none" tabIndex={0} onKeyDown={handleKeyDown}>
+
+      {/* ── Viewer ── */}
+      <div className="flex-1 min-h-0 grid grid-cols-[1fr_260px] gap-4 p-4">
+        <div className="relative bg-black/40 border border-zinc-800 rounded-lg overflow-hidden flex items-center justify-center min-h-[240px]">
+          {showVideo && videoUrl ? (
+            <video src={videoUrl} controls className="max-h-full max-w-full" />
+          ) : shot ? (
+            <a href={shot} target="_blank" rel="noreferrer" className="contents">
+              <img src={shot} alt={`Step ${step.sequence} screenshot`} className="max-h-full max-w-full object-contain" />
+            </a>
+          ) : (
+            <span className="text-xs text-zinc-600">No screenshot captured for this step</span>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-3 min-w-0 text-xs">
+          <div className="flex items-center gap-2">
+            <span className="text-zinc-500 font-mono">#{step.sequence}</span>
+            <span className="font-mono text-[10px] px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-300">{step.action_type}</span>
+            <span className={`ml-auto px-2 py-0.5 rounded-full font-medium ${cfg.badge}`}>{cfg.label}</span>
+          </div>
+          {step.description && <p className="text-sm text-zinc-300 leading-relaxed break-words">{step.description}</p>}
+          <div className="flex items-center gap-4 text-zinc-500">
+            <span>{step.duration_ms != null ? `${step.duration_ms}ms` : '—'}</span>
+            {step.healing_triggered && (
+              <span className="text-amber-400">⚡ {step.healing_attempts.length} healing attempt{step.healing_attempts.length === 1 ? '' : 's'}</span>
+            )}
+          </div>
+          {step.error_message && (
+            <div className="bg-red-500/5 border border-red-500/20 rounded-lg px-3 py-2 text-red-300 font-mono text-[11px] break-words max-h-40 overflow-y-auto">
+              {step.error_message}
+            </div>
+          )}
+
+          <div className="mt-auto flex items-center gap-2">
+            <button
+              onClick={prev}
+              disabled={index === 0}
+              className="flex-1 px-3 py-1.5 rounded-lg border border-zinc-700 text-zinc-300 hover:border-zinc-600 disabled:opacity-40 transition-colors"
+            >
+              ← Prev
+            </button>
+            <span className="text-zinc-600 tabular-nums">{index + 1} / {steps.length}</span>
+            <button
+              onClick={next}
+              disabled={index >= steps.length - 1}
+              className="flex-1 px-3 py-1.5 rounded-lg border border-zinc-700 text-zinc-300 hover:border-zinc-600 disabled:opacity-40 transition-colors"
+            >
+              Next →
+            </button>
+          </div>
+          {videoUrl && (
+            <button
+              onClick={() => setShowVideo((v) => !v)}
+              className={`px-3 py-1.5 rounded-lg border transition-colors ${
+                showVideo
+                  ? 'bg-zinc-700 border-zinc-600 text-white'
+                  : 'border-zinc-700 text-zinc-400 hover:text-zinc-200 hover:border-zinc-600'
+              }`}
+            >
+              {showVideo ? 'Show step screenshot' : '▶ Play run recording'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* ── Filmstrip ── */}
+      <div ref={stripRef} className="shrink-0 border-t border-zinc-800 flex gap-2 overflow-x-auto px-4 py-3">
+        {steps.map((s, i) => {
+          const thumb = artifactUrl(s.screenshot_path);
+          const c = stepStatus(s);
+          return (
+            <button
+              key={s.id}
+              data-step-index={i}
+              onClick={() => { setIndex(i); setShowVideo(false); }}
+              title={s.description || s.action_type}
+              className={`shrink-0 w-28 rounded-md border-2 overflow-hidden text-left transition-opacity ${c.ring} ${
+                i === index ? 'opacity-100 ring-2 ring-blue-500/60' : 'opacity-60 hover:opacity-100'
+              }`}
+            >
+              <div className="h-16 bg-zinc-950 flex items-center justify-center">
+                {thumb
+                  ? <img src={thumb} alt="" loading="lazy" className="w-full h-full object-cover" />
+                  : <span className="text-[10px] text-zinc-700">no image</span>}
+              </div>
+              <div className="px-1.5 py-1 bg-zinc-900 text-[10px] text-zinc-400 truncate font-mono">
+                #{s.sequence} {s.action_type}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,10 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import { explore as exploreApi, applications as appApi, ApiError, type ExploreSession, type ExploreLog, type HumanDecision, type Module } from '@/lib/api';
 import { getSocket } from '@/lib/websocket';
+import { useSocketState } from '@/hooks/use-socket-state';
+import { ConnectionBadge } from '@/components/platform/connection-badge';
+import { LiveBrowserView } from '@/components/platform/live-browser-view';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
 import { useAppToast } from '@/components/ui/app-notifications';
 
 interface ExploreSessionViewerProps {
@@ -15,6 +19,7 @@ const LEVEL_STYLES: Record<string, { dot: string; text: string }> = {
   INFO:      { dot: 'bg-blue-500',  text: 'text-zinc-300' },
   SUCCESS:   { dot: 'bg-green-500', text: 'text-green-300' },
   WARNING:   { dot: 'bg-amber-500', text: 'text-amber-300' },
+  ERROR:     { dot: 'bg-red-500',   text: 'text-red-300' },
   MILESTONE: { dot: 'bg-purple-500', text: 'text-purple-300 font-medium' },
 };
 
@@ -39,11 +44,15 @@ export function ExploreSessionViewer({ sessionId, applicationId }: ExploreSessio
   const [lastLogId, setLastLogId] = useState<string | undefined>();
   const logsEndRef = useRef<HTMLDivElement>(null);
   const socket = getSocket();
+  const socketState = useSocketState();
+  // Set by the polling effect below; lets a lossy reconnect trigger an immediate catch-up
+  const catchUpRef = useRef<() => void>(() => {});
 
   // Module selection state (used after discover_only session reaches WAITING_HUMAN)
   const [discoveredModules, setDiscoveredModules] = useState<Module[]>([]);
   const [selectedModuleIds, setSelectedModuleIds] = useState<Set<string>>(new Set());
   const [startingExploration, setStartingExploration] = useState(false);
+  const [showBrowser, setShowBrowser] = useState(true);
 
   // Load initial data
   useEffect(() => {
@@ -64,57 +73,63 @@ export function ExploreSessionViewer({ sessionId, applicationId }: ExploreSessio
   // Real-time updates via WebSocket
   useEffect(() => {
     socket.connect();
-    socket.subscribe(sessionId);
+    const release = socket.subscribe(sessionId);
 
     const offLog = socket.on('explore_log', (data) => {
       if (data.session_id !== sessionId) return;
       // Use server-provided UTC timestamp if available, otherwise fall back to client time.
       // Server sends ISO 8601 with explicit Z suffix so JS parses it as UTC correctly.
-      const ts = data.timestamp ? String(data.timestamp) : new Date().toISOString();
+      const ts = data.timestamp ?? new Date().toISOString();
       const log: ExploreLog = {
-        id: String(data.id || Date.now()),
+        id: data.id ?? String(Date.now()),
         timestamp: ts,
-        level: (data.level || 'INFO') as ExploreLog['level'],
-        category: String(data.category || ''),
-        message: String(data.message || ''),
+        level: data.level,
+        category: data.category,
+        message: data.message,
         metadata: {},
       };
-      setLogs((prev) => [...prev, log]);
+      setLogs((prev) => (prev.some((l) => l.id === log.id) ? prev : [...prev, log]));
     });
 
     const offStatus = socket.on('explore_completed', (data) => {
       if (data.session_id !== sessionId) return;
-      setSession((s) => s ? { ...s, status: 'COMPLETED', modules_discovered: Number(data.modules || 0), pages_discovered: Number(data.pages || 0), workflows_discovered: Number(data.workflows || 0) } : s);
+      setSession((s) => s ? { ...s, status: 'COMPLETED', modules_discovered: data.modules ?? 0, pages_discovered: data.pages ?? 0, workflows_discovered: data.workflows ?? 0 } : s);
     });
 
     const offModules = socket.on('modules_discovered', (data) => {
       if (data.session_id !== sessionId) return;
-      setSession((s) => s ? { ...s, status: 'WAITING_HUMAN', modules_discovered: Number(data.modules_count || 0) } : s);
+      setSession((s) => s ? { ...s, status: 'WAITING_HUMAN', modules_discovered: data.modules_count } : s);
     });
 
     const offStatusChanged = socket.on('explore_status_changed', (data) => {
       if (data.session_id !== sessionId) return;
-      setSession((s) => s ? { ...s, status: data.status as ExploreSession['status'] } : s);
+      setSession((s) => s ? { ...s, status: data.status } : s);
     });
 
     const offDecision = socket.on('human_decision_required', (data) => {
       if (data.session_id !== sessionId) return;
       setPendingDecision({
-        id: String(data.decision_id),
-        question: String(data.question),
-        options: Array.isArray(data.options) ? data.options as HumanDecision['options'] : [],
+        id: data.decision_id,
+        question: data.question,
+        options: data.options,
         is_saved_as_preference: true,
       });
-      setDecisionScreenshot(data.screenshot_url ? String(data.screenshot_url) : null);
+      setDecisionScreenshot(data.screenshot_url ?? null);
       setSession((s) => s ? { ...s, status: 'WAITING_HUMAN' } : s);
     });
 
+    const offReplay = socket.on('replay_complete', (data) => {
+      if (data.topic === sessionId && data.gap) catchUpRef.current();
+    });
+
     return () => {
       offLog();
       offStatus();
       offModules();
       offDecision();
       offStatusChanged();
+      offReplay();
+      release();
     };
   }, [sessionId, socket]);
 
@@ -127,7 +142,8 @@ export function ExploreSessionViewer({ sessionId, applicationId }: ExploreSessio
   }, [session?.status, applicationId, pendingDecision]);
 
   // Polling fallback — recovers any WS events that were missed (e.g. race on page load).
-  // Runs every 4s while session is active; stops once completed/failed/cancelled.
+  // Runs every 4s while session is active (10s while the socket is healthy); stops once
+  // completed/failed/cancelled.
   const lastLogIdRef = useRef<string | undefined>(lastLogId);
   lastLogIdRef.current = lastLogId;
   // Tracks the deadline (ms since epoch) until which RUNNING→WAITING_HUMAN should be
@@ -162,9 +178,13 @@ export function ExploreSessionViewer({ sessionId, applicationId }: ExploreSessio
       } catch { /* ignore poll errors */ }
     };
 
-    const id = setInterval(tick, 4000);
-    return () => clearInterval(id);
-  }, [sessionId, session?.status]);
+    catchUpRef.current = tick;
+    const id = setInterval(tick, socketState === 'open' ? 10000 : 4000);
+    return () => {
+      clearInterval(id);
+      catchUpRef.current = () => {};
+    };
+  }, [sessionId, session?.status, socketState]);
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -276,6 +296,9 @@ export function ExploreSessionViewer({ sessionId, applicationId }: ExploreSessio
                    session?.status === 'WAITING_HUMAN' ? 'bg-amber-500' :
                    'bg-blue-500 animate-pulse';
 
+  // The browser is open while exploring and while a login decision waits on it
+  const browserLive = session?.status === 'RUNNING' || (session?.status === 'WAITING_HUMAN' && !!pendingDecision);
+
   return (
     <div className="flex flex-col h-full gap-4">
       {/* Header */}
@@ -286,6 +309,9 @@ export function ExploreSessionViewer({ sessionId, applicationId }: ExploreSessio
           <span className={`text-sm font-medium ${statusColor}`}>
             {session?.status?.replace('_', ' ') || 'Loading...'}
           </span>
+          {session && ['RUNNING', 'WAITING_HUMAN', 'PENDING'].includes(session.status) && (
+            <ConnectionBadge state={socketState} />
+          )}
         </div>
 
         <div className="flex items-center gap-3">
@@ -432,7 +458,7 @@ export function ExploreSessionViewer({ sessionId, applicationId }: ExploreSessio
                   />
                 </div>
               )}
-              {(pendingDecision.options[0] as { type?: string } | undefined)?.type === 'text_input' ? (
+              {pendingDecision.options[0]?.type === 'text_input' ? (
                 <div className="flex gap-2 mt-3">
                   <input
                     type="text"
@@ -443,7 +469,7 @@ export function ExploreSessionViewer({ sessionId, applicationId }: ExploreSessio
                         handleDecision({ label: textInputValue.trim(), value: textInputValue.trim() });
                       }
                     }}
-                    placeholder={(pendingDecision.options[0] as { placeholder?: string }).placeholder || 'Type your answer...'}
+                    placeholder={pendingDecision.options[0].placeholder || 'Type your answer...'}
                     disabled={!!decidingOption}
                     className="flex-1 px-3 py-2 bg-zinc-800 border border-amber-500/40 text-zinc-100 text-sm rounded-lg placeholder-zinc-500 focus:outline-none focus:border-amber-400 disabled:opacity-50"
                     autoFocus
@@ -491,41 +517,63 @@ export function ExploreSessionViewer({ sessionId, applicationId }: ExploreSessio
         </div>
       )}
 
-      {/* Live Semantic Timeline */}
-      <div className="flex-1 bg-zinc-900/50 border border-zinc-800 rounded-xl overflow-hidden flex flex-col">
+      {/* Live Semantic Timeline, with the live browser beside it while exploring */}
+      <div className="flex-1 min-h-0 bg-zinc-900/50 border border-zinc-800 rounded-xl overflow-hidden flex flex-col">
         <div className="px-4 py-3 border-b border-zinc-800 flex items-center gap-2">
           <div className="w-2 h-2 rounded-full bg-blue-500 animate-pulse" />
           <span className="text-sm font-medium text-zinc-300">Live Exploration Timeline</span>
           <span className="ml-auto text-xs text-zinc-600">{logs.length} events</span>
+          {browserLive && (
+            <button
+              onClick={() => setShowBrowser((v) => !v)}
+              className={`ml-2 px-2 py-0.5 text-xs rounded-md border transition-colors ${
+                showBrowser ? 'border-zinc-600 text-zinc-200 bg-zinc-800' : 'border-zinc-700 text-zinc-500 hover:text-zinc-300'
+              }`}
+            >
+              🖥 Browser
+            </button>
+          )}
         </div>
 
-        <div className="flex-1 overflow-y-auto p-4 space-y-1.5 font-mono text-xs">
-          {logs.length === 0 && (
-            <div className="text-center text-zinc-600 py-8">
-              Exploration initializing...
+        <ResizablePanelGroup direction="horizontal" autoSaveId="qaptain-explore-live-browser" className="flex-1 min-h-0">
+          <ResizablePanel id="timeline" order={1} defaultSize={55} minSize={30}>
+            <div className="h-full overflow-y-auto p-4 space-y-1.5 font-mono text-xs">
+              {logs.length === 0 && (
+                <div className="text-center text-zinc-600 py-8">
+                  Exploration initializing...
+                </div>
+              )}
+
+              {logs.map((log) => {
+                const style = LEVEL_STYLES[log.level] || LEVEL_STYLES.INFO;
+                const icon = CATEGORY_ICONS[log.category || ''] || '•';
+                // DB timestamps have no timezone suffix — treat them as UTC by appending Z.
+                // WebSocket timestamps already include Z from the server.
+                const rawTs = log.timestamp || '';
+                const ts = rawTs && !rawTs.endsWith('Z') && !rawTs.includes('+') ? rawTs + 'Z' : rawTs;
+                const time = ts ? new Date(ts).toLocaleTimeString() : '—';
+
+                return (
+                  <div key={log.id} className="flex items-start gap-3 group">
+                    <span className="text-zinc-600 text-[10px] pt-0.5 w-16 shrink-0">{time}</span>
+                    <div className={`w-1.5 h-1.5 rounded-full mt-1.5 shrink-0 ${style.dot}`} />
+                    <span className="text-zinc-600 shrink-0">{icon}</span>
+                    <span className={style.text}>{log.message}</span>
+                  </div>
+                );
+              })}
+              <div ref={logsEndRef} />
             </div>
+          </ResizablePanel>
+          {browserLive && showBrowser && (
+            <>
+              <ResizableHandle withHandle className="bg-zinc-800" />
+              <ResizablePanel id="browser" order={2} defaultSize={45} minSize={25}>
+                <LiveBrowserView sourceId={sessionId} />
+              </ResizablePanel>
+            </>
           )}
-
-          {logs.map((log) => {
-            const style = LEVEL_STYLES[log.level] || LEVEL_STYLES.INFO;
-            const icon = CATEGORY_ICONS[log.category || ''] || '•';
-            // DB timestamps have no timezone suffix — treat them as UTC by appending Z.
-            // WebSocket timestamps already include Z from the server.
-            const rawTs = log.timestamp || '';
-            const ts = rawTs && !rawTs.endsWith('Z') && !rawTs.includes('+') ? rawTs + 'Z' : rawTs;
-            const time = ts ? new Date(ts).toLocaleTimeString() : '—';
-
-            return (
-              <div key={log.id} className="flex items-start gap-3 group">
-                <span className="text-zinc-600 text-[10px] pt-0.5 w-16 shrink-0">{time}</span>
-                <div className={`w-1.5 h-1.5 rounded-full mt-1.5 shrink-0 ${style.dot}`} />
-                <span className="text-zinc-600 shrink-0">{icon}</span>
-                <span className={style.text}>{log.message}</span>
-              </div>
-            );
-          })}
-          <div ref={logsEndRef} />
-        </div>
+        </ResizablePanelGroup>
       </div>
 
       {/* Knowledge Summary (shown when completed) */}
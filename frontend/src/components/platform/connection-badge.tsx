@@ -0,0 +1,41 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import type { ConnectionState } from '@/lib/websocket';
+
+const STATE_CONFIG: Record<ConnectionState, { label: string; dot: string; text: string; title: string }> = {
+  connecting: {
+    label: 'Connecting',
+    dot: 'bg-zinc-500 animate-pulse',
+    text: 'text-zinc-500',
+    title: 'Connecting to live updates…',
+  },
+  open: {
+    label: 'Live',
+    dot: 'bg-green-400',
+    text: 'text-green-400',
+    title: 'Receiving live updates',
+  },
+  degraded: {
+    label: 'Reconnecting',
+    dot: 'bg-amber-400 animate-pulse',
+    text: 'text-amber-400',
+    title: 'Live updates interrupted — catching up from the server',
+  },
+  offline: {
+    label: 'Offline',
+    dot: 'bg-red-400',
+    text: 'text-red-400',
+    title: 'Live updates unavailable — showing periodically refreshed data',
+  },
+};
+
+export function ConnectionBadge({ state, className }: { state: ConnectionState; className?: string }) {
+  const config = STATE_CONFIG[state];
+  return (
+    <span className={cn('inline-flex items-center gap-1.5 text-xs', config.text, className)} title={config.title}>
+      <span className={cn('w-1.5 h-1.5 rounded-full', config.dot)} />
+      {config.label}
+    </span>
+  );
+}
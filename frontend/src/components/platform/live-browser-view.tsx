@@ -0,0 +1,48 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { useBrowserStream } from '@/hooks/use-browser-stream';
+
+/**
+ * What the headless browser of a run or explore session is showing right now, as a
+ * low-framerate screencast. Mount it only while the run or session is live.
+ */
+export function LiveBrowserView({ sourceId, className }: { sourceId: string; className?: string }) {
+  const { frame, paused } = useBrowserStream(sourceId);
+
+  return (
+    <div className={cn('flex flex-col h-full min-w-0 bg-zinc-950', className)}>
+      <div className="px-3 py-2 border-b border-zinc-800 flex items-center gap-2 shrink-0">
+        <span className={cn('w-1.5 h-1.5 rounded-full shrink-0', paused ? 'bg-zinc-500' : frame ? 'bg-red-500 animate-pulse' : 'bg-zinc-600')} />
+        <span className="text-xs font-medium text-zinc-400 shrink-0">Browser</span>
+        <span className="text-[11px] text-zinc-600 font-mono truncate" title={frame?.url ?? undefined}>
+          {frame?.url ?? ''}
+        </span>
+      </div>
+
+      <div className="relative flex-1 min-h-0 flex items-center justify-center bg-black">
+        {frame ? (
+          <img
+            src={`data:${frame.mime};base64,${frame.data}`}
+            alt="Live browser view"
+            width={frame.width || undefined}
+            height={frame.height || undefined}
+            className={cn('max-w-full max-h-full object-contain', paused && 'opacity-40')}
+          />
+        ) : !paused && (
+          <div className="flex items-center gap-2 text-xs text-zinc-600">
+            <div className="w-3 h-3 border border-zinc-600 border-t-transparent rounded-full animate-spin" />
+            Waiting for the browser…
+          </div>
+        )}
+        {paused && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className="text-xs text-zinc-400 bg-zinc-900/90 border border-zinc-800 rounded-md px-2.5 py-1">
+              Paused while this tab is hidden
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
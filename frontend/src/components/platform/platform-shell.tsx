@@ -18,6 +18,10 @@ import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { AppNotificationsProvider } from '@/components/ui/app-notifications';
 import { getSocket } from '@/lib/websocket';
+import { auth as authApi } from '@/lib/api';
+import { signOut } from '@/lib/auth-session';
+import { useSocketState } from '@/hooks/use-socket-state';
+import { ConnectionBadge } from '@/components/platform/connection-badge';
 
 const mainNav = [
   { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
@@ -25,8 +29,6 @@ const mainNav = [
   { href: '/settings', label: 'Settings', icon: Settings },
 ];
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api/v1';
-
 interface ActiveRun {
   runId: string | null;
   batchId?: string | null;
@@ -44,6 +46,7 @@ export function PlatformShell({ children }: { children: React.ReactNode }) {
   const pathname = usePathname();
   const router = useRouter();
   const [email, setEmail] = useState<string | null>(null);
+  const socketState = useSocketState();
 
   const [activeRun, setActiveRun] = useState<ActiveRun | null>(null);
   const [activeExplore, setActiveExplore] = useState<ActiveExplore | null>(null);
@@ -120,30 +123,16 @@ export function PlatformShell({ children }: { children: React.ReactNode }) {
   }, []);
 
   useEffect(() => {
-    const token = localStorage.getItem('qaptain_token');
-    if (!token) {
-      router.push('/login');
-      return;
-    }
-    fetch(`${API_URL}/auth/me`, {
-      headers: { Authorization: `Bearer ${token}` },
-    })
-      .then((r) => (r.ok ? r.json() : null))
-      .then((user) => {
-        if (!user) {
-          localStorage.removeItem('qaptain_token');
-          router.push('/login');
-        } else {
-          setEmail(user.email);
-        }
-      })
-      .catch(() => {
-        router.push('/login');
-      });
-  }, [router]);
+    // Middleware has already checked the session cookie; a dead session is handled
+    // by the request layer (refresh, else redirect to login)
+    authApi.me()
+      .then((user) => setEmail(user.email))
+      .catch(() => {});
+  }, []);
 
-  const handleSignOut = () => {
-    localStorage.removeItem('qaptain_token');
+  const handleSignOut = async () => {
+    getSocket().disconnect();
+    await signOut();
     router.push('/login');
   };
 
@@ -240,9 +229,10 @@ export function PlatformShell({ children }: { children: React.ReactNode }) {
           </div>
         </ScrollArea>
         <div className="border-t border-slate-800 p-4 bg-slate-950/40">
-          {email && (
-            <div className="mb-3 truncate text-xs text-slate-400 font-medium px-1">{email}</div>
-          )}
+          <div className="mb-3 flex items-center gap-2 px-1">
+            {email && <div className="flex-1 truncate text-xs text-slate-400 font-medium">{email}</div>}
+            <ConnectionBadge state={socketState} className="ml-auto shrink-0" />
+          </div>
           <Button
             variant="outline"
             size="sm"
@@ -5,7 +5,15 @@ import { ThemeProvider } from 'next-themes';
 import { useState } from 'react';
 
 export default function Providers({ children }: { children: React.ReactNode }) {
-  const [queryClient] = useState(() => new QueryClient());
+  const [queryClient] = useState(() => new QueryClient({
+    defaultOptions: {
+      queries: {
+        // request() already retries idempotent GETs with backoff — don't stack retries on top
+        retry: false,
+        staleTime: 30_000,
+      },
+    },
+  }));
 
   return (
     <ThemeProvider
@@ -0,0 +1,167 @@
+'use client';
+
+import { useState } from 'react';
+import type { ApiTokenRole, Application } from '@/lib/api';
+import { useApiTokens, useCreateApiToken, useRevokeApiToken } from '@/lib/queries';
+import { useAppConfirm, useAppToast } from '@/components/ui/app-notifications';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api/v1';
+
+const TOKEN_ROLES: { role: ApiTokenRole; label: string; hint: string }[] = [
+  { role: 'MEMBER', label: 'Member', hint: 'Trigger runs and read results' },
+  { role: 'VIEWER', label: 'Viewer', hint: 'Read results only' },
+];
+
+/**
+ * Workspace API tokens for CI pipelines and the `qaptain` CLI. A new token's secret
+ * is shown once, together with a ready-to-paste pipeline command for this application.
+ */
+export function ApiTokensPanel({ app }: { app: Application }) {
+  const workspaceId = app.workspace_id;
+  const { data: tokens = [], isLoading, isError } = useApiTokens(workspaceId);
+  const createToken = useCreateApiToken(workspaceId);
+  const revokeToken = useRevokeApiToken(workspaceId);
+  const toast = useAppToast();
+  const confirm = useAppConfirm();
+
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<ApiTokenRole>('MEMBER');
+  const [created, setCreated] = useState<{ name: string; token: string } | null>(null);
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    try {
+      const result = await createToken.mutateAsync({ name: name.trim(), role });
+      setCreated({ name: result.name, token: result.token });
+      setName('');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to create token');
+    }
+  };
+
+  const handleRevoke = async (tokenId: string, tokenName: string) => {
+    const ok = await confirm({
+      title: `Revoke "${tokenName}"?`,
+      message: 'Pipelines using this token will fail to authenticate immediately.',
+      confirmLabel: 'Revoke Token',
+      destructive: true,
+    });
+    if (!ok) return;
+    try {
+      await revokeToken.mutateAsync(tokenId);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to revoke token');
+    }
+  };
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text).then(
+      () => toast.success('Copied to clipboard'),
+      () => toast.error('Could not copy — select and copy manually'),
+    );
+  };
+
+  const command = `QAPTAIN_TOKEN=<token> qaptain run --api-url ${API_URL} --app ${app.id} --min-score 80`;
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+      <div className="px-5 py-4 border-b border-zinc-800">
+        <h3 className="text-sm font-semibold text-white">API Tokens</h3>
+        <p className="text-xs text-zinc-500 mt-0.5">
+          Let CI pipelines trigger runs and gate deploys with the <code className="text-zinc-400">qaptain</code> CLI.
+          Tokens act on your behalf, only reach this workspace, and never get more than the member role.
+        </p>
+      </div>
+
+      {created && (
+        <div className="px-5 py-4 bg-emerald-500/5 border-b border-emerald-500/20 space-y-2">
+          <p className="text-xs text-emerald-300">
+            Token <span className="font-medium">{created.name}</span> created — copy it now, it won&apos;t be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate bg-zinc-950 border border-zinc-800 rounded px-2.5 py-1.5 text-xs text-zinc-200">
+              {created.token}
+            </code>
+            <button
+              onClick={() => copy(created.token)}
+              className="shrink-0 text-xs px-2.5 py-1.5 rounded border border-zinc-700 text-zinc-300 hover:text-white hover:border-zinc-500"
+            >
+              Copy
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate bg-zinc-950 border border-zinc-800 rounded px-2.5 py-1.5 text-[11px] text-zinc-400">
+              {command}
+            </code>
+            <button
+              onClick={() => copy(command)}
+              className="shrink-0 text-xs px-2.5 py-1.5 rounded border border-zinc-700 text-zinc-300 hover:text-white hover:border-zinc-500"
+            >
+              Copy
+            </button>
+          </div>
+          <button onClick={() => setCreated(null)} className="text-xs text-zinc-500 hover:text-zinc-300">Done</button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="px-5 py-6 text-xs text-zinc-500">Loading tokens…</div>
+      ) : isError ? (
+        <div className="px-5 py-6 text-xs text-zinc-500">Only workspace admins can manage API tokens.</div>
+      ) : (
+        <>
+          {tokens.length > 0 && (
+            <div className="divide-y divide-zinc-800">
+              {tokens.map((t) => (
+                <div key={t.id} className="flex items-center gap-3 px-5 py-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-zinc-200 truncate">{t.name}</div>
+                    <div className="text-xs text-zinc-500">
+                      <code>{t.token_prefix}…</code>
+                      {' · '}{TOKEN_ROLES.find((r) => r.role === t.role)?.label ?? t.role}
+                      {' · '}created {new Date(t.created_at).toLocaleDateString()}
+                      {' · '}{t.last_used_at ? `last used ${new Date(t.last_used_at).toLocaleString()}` : 'never used'}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(t.id, t.name)}
+                    disabled={revokeToken.isPending}
+                    className="text-xs text-zinc-500 hover:text-red-400 transition-colors disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-2 px-5 py-4 border-t border-zinc-800">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="Token name, e.g. GitHub Actions — deploy gate"
+              className="flex-1 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as ApiTokenRole)}
+              title={TOKEN_ROLES.find((r) => r.role === role)?.hint}
+              className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500"
+            >
+              {TOKEN_ROLES.map((r) => (
+                <option key={r.role} value={r.role}>{r.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleCreate}
+              disabled={!name.trim() || createToken.isPending}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+            >
+              {createToken.isPending ? 'Creating…' : 'Create Token'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+'use client';
+
+import { Fragment, useMemo, useState } from 'react';
+import { audit as auditApi, type Application, type AuditEvent, type AuditFilters } from '@/lib/api';
+import { useAuditEvents, useAuditFacets } from '@/lib/queries';
+import { useAppToast } from '@/components/ui/app-notifications';
+
+const PAGE_SIZE = 50;
+
+const GROUP_LABELS: Record<string, string> = {
+  workspace: 'Workspace',
+  application: 'Application',
+  environment: 'Environments',
+  role_credential: 'Test-role credentials',
+  scenario: 'Scenarios',
+  suite: 'Suites',
+  schedule: 'Schedules',
+  dataset: 'Dataset',
+  decision: 'Explore decisions',
+  member: 'Members',
+  invite: 'Invites',
+  api_token: 'API tokens',
+  webhook: 'Webhooks',
+  defect_tracker: 'Defect tracker',
+  drift_policy: 'Drift policy',
+};
+
+// Backend timestamps are naive UTC
+function parseUtc(value: string): Date {
+  return new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value}Z`);
+}
+
+/** A `yyyy-mm-dd` date input as the UTC instant of that local midnight, optionally shifted by days. */
+function localDayStart(day: string, addDays = 0): string {
+  const d = new Date(`${day}T00:00:00`);
+  d.setDate(d.getDate() + addDays);
+  return d.toISOString();
+}
+
+function isDestructive(action: string) {
+  return /\.(delete|delete_module|remove|revoke)$/.test(action);
+}
+
+/**
+ * The workspace's append-only audit trail: who deleted, changed credentials, managed
+ * access or resolved explore decisions, filterable by actor, action and date, with
+ * the filtered result downloadable as CSV.
+ */
+export function AuditTab({ workspaceId, applications }: { workspaceId: string; applications: Application[] }) {
+  const toast = useAppToast();
+  const [actorId, setActorId] = useState('');
+  const [action, setAction] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const filters: AuditFilters = useMemo(() => ({
+    ...(actorId ? { actor_id: actorId } : {}),
+    ...(action ? { action } : {}),
+    ...(from ? { since: localDayStart(from) } : {}),
+    // The "to" day is inclusive
+    ...(to ? { until: localDayStart(to, 1) } : {}),
+  }), [actorId, action, from, to]);
+
+  const { data: facets } = useAuditFacets(workspaceId);
+  const { data, isLoading, isError, isFetching } = useAuditEvents(workspaceId, filters, { limit: PAGE_SIZE, offset });
+  const events = data?.items ?? [];
+  const total = data?.total ?? 0;
+
+  const appNames = useMemo(() => new Map(applications.map((a) => [a.id, a.name])), [applications]);
+  const actionGroups = useMemo(() => {
+    const groups = new Map<string, Array<{ action: string; label: string }>>();
+    for (const a of facets?.actions ?? []) {
+      const group = a.action.split('.')[0];
+      groups.set(group, [...(groups.get(group) ?? []), a]);
+    }
+    return [...groups.entries()];
+  }, [facets]);
+
+  const setFilter = (apply: () => void) => {
+    apply();
+    setOffset(0);
+    setExpanded(null);
+  };
+  const hasFilters = !!(actorId || action || from || to);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const blob = await auditApi.exportCsv(workspaceId, filters);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `qaptain-audit-${new Date().toISOString().slice(0, 10)}.csv`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const selectClass =
+    'bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white mb-1">Audit Log</h1>
+          <p className="text-zinc-500 text-sm">
+            Append-only record of deletions, credential changes, access management and explore decisions across every
+            application in this workspace. Entries can't be edited or removed.
+          </p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={exporting || total === 0}
+          className="shrink-0 text-xs px-3 py-1.5 rounded-lg border border-zinc-700 text-zinc-300 hover:text-white hover:border-zinc-500 transition-colors disabled:opacity-50"
+        >
+          {exporting ? 'Exporting…' : '⬇ Export CSV'}
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <select value={actorId} onChange={(e) => setFilter(() => setActorId(e.target.value))} className={selectClass}>
+          <option value="">Everyone</option>
+          {(facets?.actors ?? []).map((a) => (
+            <option key={a.id} value={a.id}>{a.name ? `${a.name} (${a.email})` : a.email}</option>
+          ))}
+        </select>
+        <select value={action} onChange={(e) => setFilter(() => setAction(e.target.value))} className={selectClass}>
+          <option value="">All actions</option>
+          {actionGroups.map(([group, actions]) => (
+            <optgroup key={group} label={GROUP_LABELS[group] ?? group}>
+              {actions.length > 1 && <option value={group}>All {(GROUP_LABELS[group] ?? group).toLowerCase()}</option>}
+              {actions.map((a) => (
+                <option key={a.action} value={a.action}>{a.label}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-xs text-zinc-500">
+          From
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFilter(() => setFrom(e.target.value))}
+            className={selectClass}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-zinc-500">
+          To
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setFilter(() => setTo(e.target.value))}
+            className={selectClass}
+          />
+        </label>
+        {hasFilters && (
+          <button
+            onClick={() => setFilter(() => { setActorId(''); setAction(''); setFrom(''); setTo(''); })}
+            className="text-xs text-zinc-500 hover:text-zinc-300 px-2 transition-colors"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+        {isLoading ? (
+          <div className="p-8 text-center text-zinc-600 text-sm animate-pulse">Loading audit log…</div>
+        ) : isError ? (
+          <div className="p-8 text-center text-zinc-500 text-sm">Only workspace admins and owners can view the audit log.</div>
+        ) : events.length === 0 ? (
+          <div className="p-8 text-center text-zinc-600 text-sm">
+            {hasFilters ? 'No events match these filters.' : 'Nothing has been recorded yet.'}
+          </div>
+        ) : (
+          <table className={`w-full text-sm ${isFetching ? 'opacity-60' : ''}`}>
+            <thead>
+              <tr className="text-left text-xs font-medium text-zinc-500 uppercase tracking-wide border-b border-zinc-800">
+                <th className="px-4 py-2.5 font-medium">When</th>
+                <th className="px-4 py-2.5 font-medium">Who</th>
+                <th className="px-4 py-2.5 font-medium">Action</th>
+                <th className="px-4 py-2.5 font-medium">Target</th>
+                <th className="px-4 py-2.5 font-medium">Application</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-800/60">
+              {events.map((e) => (
+                <Fragment key={e.id}>
+                  <tr
+                    onClick={() => setExpanded((v) => (v === e.id ? null : e.id))}
+                    className="cursor-pointer hover:bg-zinc-800/30 transition-colors"
+                  >
+                    <td className="px-4 py-2.5 text-xs text-zinc-400 whitespace-nowrap">
+                      {parseUtc(e.created_at).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2.5">
+                      <div className="text-zinc-200 truncate max-w-[14rem]">{e.actor_name || e.actor_email || 'System'}</div>
+                      {e.actor_name && e.actor_email && (
+                        <div className="text-xs text-zinc-600 truncate max-w-[14rem]">{e.actor_email}</div>
+                      )}
+                      {e.via_api_token && <div className="text-[11px] text-amber-400/80">via API token</div>}
+                    </td>
+                    <td className={`px-4 py-2.5 ${isDestructive(e.action) ? 'text-red-300' : 'text-zinc-200'}`}>
+                      {e.action_label}
+                    </td>
+                    <td className="px-4 py-2.5">
+                      <div className="text-zinc-300 truncate max-w-[18rem]">{e.target_name || '—'}</div>
+                      {e.target_type && <div className="text-xs text-zinc-600">{e.target_type.replace(/_/g, ' ')}</div>}
+                    </td>
+                    <td className="px-4 py-2.5 text-xs text-zinc-500">
+                      {e.application_id ? appNames.get(e.application_id) ?? 'Deleted application' : '—'}
+                    </td>
+                  </tr>
+                  {expanded === e.id && <DetailsRow event={e} />}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-3 text-xs text-zinc-500">
+          <span>
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setOffset((o) => Math.max(0, o - PAGE_SIZE))}
+              disabled={offset === 0}
+              className="px-3 py-1 rounded border border-zinc-800 hover:border-zinc-600 transition-colors disabled:opacity-40"
+            >
+              ← Newer
+            </button>
+            <button
+              onClick={() => setOffset((o) => o + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total}
+              className="px-3 py-1 rounded border border-zinc-800 hover:border-zinc-600 transition-colors disabled:opacity-40"
+            >
+              Older →
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DetailsRow({ event }: { event: AuditEvent }) {
+  const details = Object.entries(event.details ?? {});
+  return (
+    <tr className="bg-zinc-950/60">
+      <td colSpan={5} className="px-4 py-3">
+        <div className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+          <span className="text-zinc-500">Action</span>
+          <code className="text-zinc-300">{event.action}</code>
+          {event.target_id && (
+            <>
+              <span className="text-zinc-500">Target id</span>
+              <code className="text-zinc-300">{event.target_id}</code>
+            </>
+          )}
+          {details.map(([key, value]) => (
+            <Fragment key={key}>
+              <span className="text-zinc-500">{key.replace(/_/g, ' ')}</span>
+              <code className="text-zinc-300 whitespace-pre-wrap break-all">
+                {typeof value === 'string' ? value : JSON.stringify(value)}
+              </code>
+            </Fragment>
+          ))}
+        </div>
+      </td>
+    </tr>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import type { Application, DefectTracker } from '@/lib/api';
+import {
+  useDefectTracker,
+  useDefectTrackerKinds,
+  useDeleteDefectTracker,
+  useSaveDefectTracker,
+} from '@/lib/queries';
+import { useAppConfirm, useAppToast } from '@/components/ui/app-notifications';
+
+/**
+ * The workspace's issue tracker. Failed runs get a "Create Defect" action (and are
+ * filed automatically when auto-file is on); repeat failures of a scenario attach to
+ * its open defect instead of filing duplicates.
+ */
+export function DefectTrackerPanel({ app }: { app: Application }) {
+  const workspaceId = app.workspace_id;
+  const { data: tracker, isLoading, isError } = useDefectTracker(workspaceId);
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+      <div className="px-5 py-4 border-b border-zinc-800">
+        <h3 className="text-sm font-semibold text-white">Defect Tracker</h3>
+        <p className="text-xs text-zinc-500 mt-0.5">
+          File failed runs as defects with reproduction steps, the failing screenshot, root-cause analysis and a link
+          back to the run. The generic webhook tracker POSTs JSON drafts to any endpoint that answers with a defect key.
+        </p>
+      </div>
+      {isLoading ? (
+        <div className="px-5 py-6 text-xs text-zinc-500">Loading tracker…</div>
+      ) : isError ? (
+        <div className="px-5 py-6 text-xs text-zinc-500">Only workspace admins can configure the defect tracker.</div>
+      ) : (
+        // Remount on save so the form picks up the stored values
+        <TrackerForm key={tracker?.updated_at ?? 'new'} workspaceId={workspaceId} tracker={tracker ?? null} />
+      )}
+    </div>
+  );
+}
+
+function TrackerForm({ workspaceId, tracker }: { workspaceId: string; tracker: DefectTracker | null }) {
+  const { data: kinds = [] } = useDefectTrackerKinds();
+  const saveTracker = useSaveDefectTracker(workspaceId);
+  const deleteTracker = useDeleteDefectTracker(workspaceId);
+  const toast = useAppToast();
+  const confirm = useAppConfirm();
+
+  const [kind, setKind] = useState(tracker?.kind ?? 'webhook');
+  const [name, setName] = useState(tracker?.name ?? '');
+  const [url, setUrl] = useState(typeof tracker?.config.url === 'string' ? tracker.config.url : '');
+  // Empty keeps the stored secret
+  const [secret, setSecret] = useState('');
+  const [clearSecret, setClearSecret] = useState(false);
+  const [autoFile, setAutoFile] = useState(tracker?.auto_file ?? false);
+  const [active, setActive] = useState(tracker?.is_active ?? true);
+
+  const handleSave = async () => {
+    if (!name.trim() || !url.trim()) return;
+    try {
+      await saveTracker.mutateAsync({
+        kind,
+        name: name.trim(),
+        config: { url: url.trim() },
+        ...(secret ? { secret } : clearSecret ? { secret: '' } : {}),
+        auto_file: autoFile,
+        is_active: active,
+      });
+      toast.success('Defect tracker saved');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to save tracker');
+    }
+  };
+
+  const handleDelete = async () => {
+    const ok = await confirm({
+      title: 'Remove the defect tracker?',
+      message: 'Already-filed defects stay linked to their runs, but nothing new can be filed until a tracker is configured.',
+      confirmLabel: 'Remove Tracker',
+      destructive: true,
+    });
+    if (!ok) return;
+    try {
+      await deleteTracker.mutateAsync();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to remove tracker');
+    }
+  };
+
+  const inputClass =
+    'bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="px-5 py-4 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <select value={kind} onChange={(e) => setKind(e.target.value)} className={inputClass}>
+          {(kinds.length ? kinds : [{ kind: 'webhook', label: 'Generic JSON webhook' }]).map((k) => (
+            <option key={k.kind} value={k.kind}>{k.label}</option>
+          ))}
+        </select>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name, e.g. Jira relay"
+          className={inputClass}
+        />
+        <input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://relay.example.com/qaptain-defects"
+          className={`${inputClass} md:col-span-2`}
+        />
+        <input
+          type="password"
+          value={secret}
+          onChange={(e) => { setSecret(e.target.value); setClearSecret(false); }}
+          placeholder={tracker?.has_secret ? 'Signing secret (stored — leave blank to keep)' : 'Signing secret (optional)'}
+          autoComplete="new-password"
+          className={`${inputClass} md:col-span-2`}
+        />
+      </div>
+      {tracker?.has_secret && !secret && (
+        <label className="flex items-center gap-2 text-xs text-zinc-400">
+          <input type="checkbox" checked={clearSecret} onChange={(e) => setClearSecret(e.target.checked)} />
+          Stop signing requests (remove the stored secret)
+        </label>
+      )}
+      <label className="flex items-center gap-2 text-xs text-zinc-400">
+        <input type="checkbox" checked={autoFile} onChange={(e) => setAutoFile(e.target.checked)} />
+        File failed runs automatically (quarantined scenarios are skipped)
+      </label>
+      <label className="flex items-center gap-2 text-xs text-zinc-400">
+        <input type="checkbox" checked={active} onChange={(e) => setActive(e.target.checked)} />
+        Enabled
+      </label>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!name.trim() || !url.trim() || saveTracker.isPending}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saveTracker.isPending ? 'Saving…' : tracker ? 'Save Tracker' : 'Connect Tracker'}
+        </button>
+        {tracker && (
+          <button
+            onClick={handleDelete}
+            disabled={deleteTracker.isPending}
+            className="px-3 py-2 text-sm text-zinc-500 hover:text-red-400 transition-colors disabled:opacity-50"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
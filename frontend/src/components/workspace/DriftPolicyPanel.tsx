@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import type { Application, DriftPolicy, DriftPolicyAction } from '@/lib/api';
+import { useDriftPolicy, useDriftPolicyEvents, useSaveDriftPolicy } from '@/lib/queries';
+import { useAppToast } from '@/components/ui/app-notifications';
+import { useWorkspacePermissions } from '@/hooks/use-workspace-permissions';
+
+const ACTION_LABEL: Record<DriftPolicyAction, string> = {
+  triggered: 'Re-exploration queued',
+  reexplored: 'Module re-explored',
+  replanned: 'Scenarios re-planned',
+  failed: 'Failed',
+};
+
+const ACTION_DOT: Record<DriftPolicyAction, string> = {
+  triggered: 'bg-blue-400',
+  reexplored: 'bg-amber-400',
+  replanned: 'bg-emerald-400',
+  failed: 'bg-red-400',
+};
+
+// Backend timestamps are naive UTC
+function parseUtc(value: string): Date {
+  return new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value}Z`);
+}
+
+/**
+ * Automatic response to selector drift: when a module's KG-based runs keep failing on
+ * selectors, re-explore just that module and re-plan its KG-backed scenarios. Every
+ * step the policy takes is listed in the activity feed below the form.
+ */
+export function DriftPolicyPanel({ app }: { app: Application }) {
+  const { data: policy, isLoading } = useDriftPolicy(app.id);
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+      <div className="px-5 py-4 border-b border-zinc-800">
+        <h3 className="text-sm font-semibold text-white">Drift Policy</h3>
+        <p className="text-xs text-zinc-500 mt-0.5">
+          Re-explore a module automatically once its knowledge graph selectors stop matching the UI, then rebuild the
+          plans of its KG-backed scenarios. Drift is measured on runs of KG-recorded plans only.
+        </p>
+      </div>
+      {isLoading || !policy ? (
+        <div className="px-5 py-6 text-xs text-zinc-500">Loading policy…</div>
+      ) : (
+        // Remount on save so the form picks up the stored values
+        <PolicyForm key={policy.updated_at ?? 'new'} app={app} policy={policy} />
+      )}
+      <PolicyActivity app={app} />
+    </div>
+  );
+}
+
+function PolicyForm({ app, policy }: { app: Application; policy: DriftPolicy }) {
+  const perms = useWorkspacePermissions(app.workspace_id);
+  const savePolicy = useSaveDriftPolicy(app.id);
+  const toast = useAppToast();
+
+  const [enabled, setEnabled] = useState(policy.is_enabled);
+  const [severity, setSeverity] = useState(policy.min_severity);
+  const [minRuns, setMinRuns] = useState(String(policy.min_runs));
+  const [replan, setReplan] = useState(policy.replan_scenarios);
+  const [cooldown, setCooldown] = useState(String(policy.cooldown_hours));
+
+  const runs = Number(minRuns);
+  const hours = Number(cooldown);
+  const valid = Number.isInteger(runs) && runs >= 1 && runs <= 50 && Number.isInteger(hours) && hours >= 1 && hours <= 720;
+  const readOnly = !perms.canManage;
+
+  const handleSave = async () => {
+    if (!valid) return;
+    try {
+      await savePolicy.mutateAsync({
+        is_enabled: enabled,
+        min_severity: severity,
+        min_runs: runs,
+        replan_scenarios: replan,
+        cooldown_hours: hours,
+      });
+      toast.success(enabled ? 'Drift policy enabled' : 'Drift policy saved');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to save the drift policy');
+    }
+  };
+
+  const inputClass =
+    'bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 disabled:opacity-60';
+
+  return (
+    <div className="px-5 py-4 space-y-3">
+      <label className="flex items-center gap-2 text-xs text-zinc-400">
+        <input type="checkbox" checked={enabled} disabled={readOnly} onChange={(e) => setEnabled(e.target.checked)} />
+        Re-explore drifted modules automatically
+      </label>
+      <div className={`space-y-3 ${enabled ? '' : 'opacity-50'}`}>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-zinc-300">
+          <span>When a module reaches</span>
+          <select
+            value={severity}
+            disabled={readOnly}
+            onChange={(e) => setSeverity(e.target.value as DriftPolicy['min_severity'])}
+            className={inputClass}
+          >
+            <option value="high">high</option>
+            <option value="medium">medium or high</option>
+          </select>
+          <span>drift after at least</span>
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={minRuns}
+            disabled={readOnly}
+            onChange={(e) => setMinRuns(e.target.value)}
+            className={`${inputClass} w-16`}
+          />
+          <span>KG-based runs, re-explore only that module.</span>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-zinc-400">
+          <input type="checkbox" checked={replan} disabled={readOnly} onChange={(e) => setReplan(e.target.checked)} />
+          Then re-plan the module&apos;s KG-backed scenarios from the refreshed graph
+        </label>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-400">
+          <span>Wait at least</span>
+          <input
+            type="number"
+            min={1}
+            max={720}
+            value={cooldown}
+            disabled={readOnly}
+            onChange={(e) => setCooldown(e.target.value)}
+            className={`${inputClass} w-20`}
+          />
+          <span>hours before re-exploring the same module again.</span>
+        </div>
+        <p className="text-[11px] text-zinc-600">
+          Severity is high at 80% failing runs and medium at 60%. Only runs after the module&apos;s last automatic
+          re-exploration count, and nothing is queued while another exploration of this application is running.
+        </p>
+      </div>
+      {readOnly ? (
+        <p className="text-xs text-zinc-500">Only workspace admins can change the drift policy.</p>
+      ) : (
+        <button
+          onClick={handleSave}
+          disabled={!valid || savePolicy.isPending}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+        >
+          {savePolicy.isPending ? 'Saving…' : 'Save Policy'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function PolicyActivity({ app }: { app: Application }) {
+  const { data: events = [], isLoading } = useDriftPolicyEvents(app.id);
+
+  return (
+    <div className="border-t border-zinc-800">
+      <div className="px-5 py-3 text-xs font-medium text-zinc-500 uppercase tracking-wide">Activity</div>
+      {isLoading ? (
+        <div className="px-5 pb-4 text-xs text-zinc-500">Loading activity…</div>
+      ) : events.length === 0 ? (
+        <div className="px-5 pb-4 text-xs text-zinc-600">The policy hasn&apos;t acted on any module yet.</div>
+      ) : (
+        <ul className="max-h-80 overflow-y-auto divide-y divide-zinc-800/60">
+          {events.map((e) => (
+            <li key={e.id} className="px-5 py-2.5 flex items-start gap-3 text-xs">
+              <span className={`mt-1.5 w-1.5 h-1.5 rounded-full shrink-0 ${ACTION_DOT[e.action] ?? 'bg-zinc-500'}`} />
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5">
+                  <span className="text-zinc-200 font-medium">{ACTION_LABEL[e.action] ?? e.action}</span>
+                  <span className="text-zinc-400">{e.module_name ?? 'Unknown module'}</span>
+                  {e.action === 'triggered' && e.severity && (
+                    <span
+                      className={`px-1.5 py-0.5 rounded border text-[10px] ${
+                        e.severity === 'high'
+                          ? 'bg-red-500/10 text-red-400 border-red-500/20'
+                          : 'bg-orange-500/10 text-orange-400 border-orange-500/20'
+                      }`}
+                    >
+                      {e.severity} · {e.fail_rate_pct}% failing
+                    </span>
+                  )}
+                  {e.action === 'replanned' && e.scenarios_replanned != null && e.scenarios_replanned > 0 && (
+                    <span className="text-emerald-400">{e.scenarios_replanned} scenario{e.scenarios_replanned === 1 ? '' : 's'}</span>
+                  )}
+                </div>
+                {e.detail && <p className="text-zinc-500 mt-0.5 break-words">{e.detail}</p>}
+              </div>
+              <div className="shrink-0 flex flex-col items-end gap-0.5">
+                <span className="text-[11px] text-zinc-600">{parseUtc(e.created_at).toLocaleString()}</span>
+                {e.action === 'triggered' && e.explore_session_id && (
+                  <Link
+                    href={`/workspaces/${app.workspace_id}/explore/${e.explore_session_id}`}
+                    className="text-[11px] text-blue-400 hover:text-blue-300"
+                  >
+                    View session →
+                  </Link>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import type { Environment, EnvironmentType } from '@/lib/api';
+
+export const ENV_TYPE_CONFIG: Record<EnvironmentType, { label: string; className: string }> = {
+  development: { label: 'dev', className: 'bg-zinc-700/60 text-zinc-300' },
+  staging: { label: 'staging', className: 'bg-amber-500/15 text-amber-300' },
+  production: { label: 'prod', className: 'bg-red-500/15 text-red-300' },
+  custom: { label: 'custom', className: 'bg-violet-500/15 text-violet-300' },
+};
+
+export function EnvironmentBadge({ environment, className }: { environment: Environment; className?: string }) {
+  const config = ENV_TYPE_CONFIG[environment.env_type] ?? ENV_TYPE_CONFIG.custom;
+  return (
+    <span
+      title={environment.base_url}
+      className={cn('inline-flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded font-medium', config.className, className)}
+    >
+      {environment.name}
+      <span className="opacity-60">· {config.label}</span>
+    </span>
+  );
+}
+
+/**
+ * Target environment for run actions. With `allowAll` it doubles as a history filter,
+ * where the empty value means every environment.
+ */
+export function EnvironmentPicker({
+  environments,
+  value,
+  onChange,
+  label = 'Target:',
+  allowAll = false,
+  className,
+}: {
+  environments: Environment[];
+  value: string;
+  onChange: (envId: string) => void;
+  label?: string;
+  allowAll?: boolean;
+  className?: string;
+}) {
+  if (environments.length === 0) return null;
+  const selected = environments.find((e) => e.id === value);
+  const isProd = selected?.env_type === 'production';
+
+  return (
+    <label className={cn('flex items-center gap-2', className)}>
+      <span className="text-xs text-zinc-500">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        title={selected?.base_url}
+        className={cn(
+          'bg-zinc-900 border rounded-lg px-2.5 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500',
+          isProd && !allowAll ? 'border-red-500/40 text-red-300' : 'border-zinc-800 text-zinc-300',
+        )}
+      >
+        {allowAll && <option value="">All environments</option>}
+        {environments.map((env) => (
+          <option key={env.id} value={env.id}>
+            {env.name} ({ENV_TYPE_CONFIG[env.env_type]?.label ?? env.env_type}){env.is_default ? ' · default' : ''}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
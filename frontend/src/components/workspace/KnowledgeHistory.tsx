@@ -0,0 +1,330 @@
+'use client';
+
+import { useState } from 'react';
+import type { Application, KgVersion, KgVersionDiff } from '@/lib/api';
+import { useKnowledgeDiff, useKnowledgeVersions } from '@/lib/queries';
+
+type AffectedScenario = KgVersionDiff['affected_scenarios'][number];
+
+const PRIORITY_STYLE: Record<string, string> = {
+  CRITICAL: 'text-red-400',
+  HIGH: 'text-orange-400',
+  MEDIUM: 'text-zinc-400',
+  LOW: 'text-zinc-500',
+};
+
+function Delta({ now, before }: { now: number; before?: number }) {
+  if (before == null || now === before) return null;
+  const up = now > before;
+  return <span className={up ? 'text-emerald-500' : 'text-red-400'}>{up ? '+' : '−'}{Math.abs(now - before)}</span>;
+}
+
+/**
+ * Version history of an application's knowledge graph and a diff between any two
+ * versions, with links to the scenarios in every changed module.
+ */
+export function KnowledgeHistory({ app, onOpenScenario }: { app: Application; onOpenScenario: (scenarioId: string) => void }) {
+  const { data: versions = [], isLoading } = useKnowledgeVersions(app.id);
+  // Unset means "latest" and "the one before it"
+  const [picked, setPicked] = useState<{ base?: number; target?: number }>({});
+
+  const target = picked.target ?? versions[0]?.version;
+  const base = picked.base ?? versions.find((v) => target != null && v.version < target)?.version;
+  const { data: diff, isFetching, error } = useKnowledgeDiff(app.id, base, target);
+
+  if (isLoading) {
+    return <div className="text-sm text-zinc-500 animate-pulse py-12 text-center">Loading versions…</div>;
+  }
+  if (versions.length < 2) {
+    return (
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-12 text-center text-sm text-zinc-500">
+        {versions.length === 0
+          ? 'No knowledge graph versions yet.'
+          : 'Only one version so far. Every exploration adds a version to compare against.'}
+      </div>
+    );
+  }
+
+  const selectVersion = (v: KgVersion) => {
+    const previous = versions.find((o) => o.version < v.version);
+    setPicked({ target: v.version, base: previous?.version ?? v.version });
+  };
+
+  return (
+    <div className="flex gap-4 items-start">
+      {/* Version list */}
+      <div className="w-64 shrink-0 bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+        <div className="px-4 py-2.5 border-b border-zinc-800 text-xs font-medium text-zinc-400">Versions</div>
+        <div className="max-h-[600px] overflow-y-auto">
+          {versions.map((v, i) => {
+            const previous = versions[i + 1];
+            const isTarget = v.version === target;
+            const isBase = v.version === base;
+            return (
+              <button
+                key={v.id}
+                onClick={() => selectVersion(v)}
+                className={`w-full text-left px-4 py-2.5 border-b border-zinc-800/60 last:border-0 transition-colors ${
+                  isTarget ? 'bg-blue-500/10' : isBase ? 'bg-zinc-800/50' : 'hover:bg-zinc-800/30'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-zinc-200">v{v.version}</span>
+                  {isTarget && <span className="text-[10px] text-blue-400">compare</span>}
+                  {isBase && <span className="text-[10px] text-zinc-500">base</span>}
+                </div>
+                <div className="text-[11px] text-zinc-500">{new Date(v.created_at).toLocaleString()}</div>
+                <div className="text-[11px] text-zinc-500 mt-0.5 flex gap-2">
+                  <span>{v.modules_count} mod <Delta now={v.modules_count} before={previous?.modules_count} /></span>
+                  <span>{v.pages_count} pg <Delta now={v.pages_count} before={previous?.pages_count} /></span>
+                  <span>{v.workflows_count} wf <Delta now={v.workflows_count} before={previous?.workflows_count} /></span>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex-1 min-w-0 space-y-4">
+        {/* Version pickers */}
+        <div className="flex items-center gap-2 text-sm text-zinc-400">
+          <span>Compare</span>
+          <VersionSelect versions={versions} value={base} onChange={(v) => setPicked({ base: v, target })} />
+          <span>→</span>
+          <VersionSelect versions={versions} value={target} onChange={(v) => setPicked({ base, target: v })} />
+          {isFetching && <span className="w-3.5 h-3.5 border-2 border-zinc-600 border-t-zinc-300 rounded-full animate-spin" />}
+        </div>
+
+        {base === target ? (
+          <div className="text-sm text-zinc-500">Pick two different versions.</div>
+        ) : error ? (
+          <div className="text-sm text-red-400">{error instanceof Error ? error.message : 'Could not load the diff'}</div>
+        ) : diff ? (
+          <DiffView diff={diff} onOpenScenario={onOpenScenario} />
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function VersionSelect({ versions, value, onChange }: {
+  versions: KgVersion[];
+  value: number | undefined;
+  onChange: (version: number) => void;
+}) {
+  return (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="bg-zinc-900 border border-zinc-700 rounded-lg px-2 py-1 text-sm text-zinc-200"
+    >
+      {versions.map((v) => (
+        <option key={v.id} value={v.version}>v{v.version} · {new Date(v.created_at).toLocaleDateString()}</option>
+      ))}
+    </select>
+  );
+}
+
+// ── Diff ──────────────────────────────────────────────────────────────────────
+
+function DiffView({ diff, onOpenScenario }: { diff: KgVersionDiff; onOpenScenario: (id: string) => void }) {
+  const { changes } = diff;
+  const scenarioById = new Map(diff.affected_scenarios.map((s) => [s.id, s]));
+  const scenarios = (ids: string[]) => (
+    <ScenarioLinks scenarios={ids.map((id) => scenarioById.get(id)!).filter(Boolean)} onOpen={onOpenScenario} />
+  );
+
+  if (diff.total_changes === 0) {
+    return (
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-8 text-center text-sm text-zinc-500">
+        No structural changes between v{diff.base.version} and v{diff.target.version}.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-4">
+        <div className="text-sm text-zinc-200">
+          {diff.total_changes} change{diff.total_changes === 1 ? '' : 's'} from v{diff.base.version} to v{diff.target.version}
+        </div>
+        {diff.affected_scenarios.length > 0 ? (
+          <div className="mt-2">
+            <div className="text-xs text-amber-400 mb-1.5">
+              ⚠ {diff.affected_scenarios.length} scenario{diff.affected_scenarios.length === 1 ? '' : 's'} in changed modules — review their plans before trusting them
+            </div>
+            <ScenarioLinks scenarios={diff.affected_scenarios} onOpen={onOpenScenario} />
+          </div>
+        ) : (
+          <div className="text-xs text-zinc-500 mt-1">No scenarios live in the changed modules.</div>
+        )}
+      </div>
+
+      {(changes.modules_added.length > 0 || changes.modules_removed.length > 0) && (
+        <DiffSection title="Modules" count={changes.modules_added.length + changes.modules_removed.length}>
+          {changes.modules_added.map((m) => (
+            <DiffRow key={`+${m.module_id}`} sign="+" title={m.module_name} subtitle={m.url_pattern}>
+              {scenarios(m.scenario_ids)}
+            </DiffRow>
+          ))}
+          {changes.modules_removed.map((m) => (
+            <DiffRow key={`-${m.module_id}`} sign="−" title={m.module_name} subtitle={m.url_pattern}>
+              {scenarios(m.scenario_ids)}
+            </DiffRow>
+          ))}
+        </DiffSection>
+      )}
+
+      {(changes.pages_added.length > 0 || changes.pages_removed.length > 0) && (
+        <DiffSection title="Pages" count={changes.pages_added.length + changes.pages_removed.length}>
+          {changes.pages_added.map((p) => (
+            <DiffRow key={`+${p.module_id}${p.url}${p.title}`} sign="+" title={p.title || p.url} subtitle={`${p.module_name} · ${p.url}`}>
+              {scenarios(p.scenario_ids)}
+            </DiffRow>
+          ))}
+          {changes.pages_removed.map((p) => (
+            <DiffRow key={`-${p.module_id}${p.url}${p.title}`} sign="−" title={p.title || p.url} subtitle={`${p.module_name} · ${p.url}`}>
+              {scenarios(p.scenario_ids)}
+            </DiffRow>
+          ))}
+        </DiffSection>
+      )}
+
+      {changes.forms_changed.length > 0 && (
+        <DiffSection title="Forms & fields" count={changes.forms_changed.length}>
+          {changes.forms_changed.map((f) => (
+            <DiffRow
+              key={`${f.module_id}${f.url}${f.form}`}
+              sign={f.change === 'added' ? '+' : f.change === 'removed' ? '−' : '~'}
+              title={`${f.form}${f.entity ? ` · ${f.entity}` : ''}`}
+              subtitle={`${f.module_name} · ${f.title || f.url}`}
+            >
+              <div className="flex flex-wrap gap-1 text-[11px]">
+                {f.fields_added.map((name) => (
+                  <span key={`+${name}`} className="px-1.5 py-0.5 rounded bg-emerald-500/10 text-emerald-400">+ {name}</span>
+                ))}
+                {f.fields_removed.map((name) => (
+                  <span key={`-${name}`} className="px-1.5 py-0.5 rounded bg-red-500/10 text-red-400 line-through">{name}</span>
+                ))}
+                {f.fields_changed.map((c) => (
+                  <span key={`~${c.field}`} className="px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-400">
+                    {c.field}: {c.before.type}{c.before.required ? '*' : ''} → {c.after.type}{c.after.required ? '*' : ''}
+                  </span>
+                ))}
+              </div>
+              {scenarios(f.scenario_ids)}
+            </DiffRow>
+          ))}
+        </DiffSection>
+      )}
+
+      {(changes.workflows_added.length + changes.workflows_removed.length + changes.workflows_changed.length) > 0 && (
+        <DiffSection
+          title="Workflows"
+          count={changes.workflows_added.length + changes.workflows_removed.length + changes.workflows_changed.length}
+        >
+          {changes.workflows_changed.map((w) => (
+            <DiffRow key={`~${w.module_id}${w.name}`} sign="~" title={w.name} subtitle={`${w.module_name} · ${w.workflow_type}`}>
+              <StagesDiff before={w.stages_before ?? []} after={w.stages_after ?? []} />
+              {scenarios(w.scenario_ids)}
+            </DiffRow>
+          ))}
+          {changes.workflows_added.map((w) => (
+            <DiffRow key={`+${w.module_id}${w.name}`} sign="+" title={w.name} subtitle={`${w.module_name} · ${w.workflow_type}`}>
+              {scenarios(w.scenario_ids)}
+            </DiffRow>
+          ))}
+          {changes.workflows_removed.map((w) => (
+            <DiffRow key={`-${w.module_id}${w.name}`} sign="−" title={w.name} subtitle={`${w.module_name} · ${w.workflow_type}`}>
+              {scenarios(w.scenario_ids)}
+            </DiffRow>
+          ))}
+        </DiffSection>
+      )}
+    </div>
+  );
+}
+
+function DiffSection({ title, count, children }: { title: string; count: number; children: React.ReactNode }) {
+  const [open, setOpen] = useState(true);
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="w-full flex items-center justify-between px-4 py-2.5 text-sm text-zinc-200 hover:bg-zinc-800/30"
+      >
+        <span>{title} <span className="text-zinc-500">({count})</span></span>
+        <span className="text-zinc-500 text-xs">{open ? '▾' : '▸'}</span>
+      </button>
+      {open && <div className="border-t border-zinc-800 divide-y divide-zinc-800/60">{children}</div>}
+    </div>
+  );
+}
+
+const SIGN_STYLE: Record<string, string> = {
+  '+': 'text-emerald-400 bg-emerald-500/10',
+  '−': 'text-red-400 bg-red-500/10',
+  '~': 'text-amber-400 bg-amber-500/10',
+};
+
+function DiffRow({ sign, title, subtitle, children }: {
+  sign: '+' | '−' | '~';
+  title: string;
+  subtitle?: string;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="flex gap-3 px-4 py-2.5">
+      <span className={`w-5 h-5 shrink-0 rounded text-xs font-mono flex items-center justify-center ${SIGN_STYLE[sign]}`}>{sign}</span>
+      <div className="min-w-0 flex-1 space-y-1.5">
+        <div>
+          <div className="text-sm text-zinc-200 truncate">{title}</div>
+          {subtitle && <div className="text-[11px] text-zinc-500 truncate">{subtitle}</div>}
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+function StagesDiff({ before, after }: { before: string[]; after: string[] }) {
+  const kept = new Set(before.filter((s) => after.includes(s)));
+  return (
+    <div className="grid grid-cols-2 gap-3 text-[11px] font-mono">
+      {[['Before', before], ['After', after]].map(([label, stages]) => (
+        <div key={label as string}>
+          <div className="text-zinc-500 font-sans mb-0.5">{label as string}</div>
+          <ol className="space-y-0.5">
+            {(stages as string[]).map((s, i) => (
+              <li
+                key={i}
+                className={`truncate ${kept.has(s) ? 'text-zinc-500' : label === 'Before' ? 'text-red-400' : 'text-emerald-400'}`}
+                title={s}
+              >
+                {i + 1}. {s || '—'}
+              </li>
+            ))}
+          </ol>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ScenarioLinks({ scenarios, onOpen }: { scenarios: AffectedScenario[]; onOpen: (id: string) => void }) {
+  if (scenarios.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1">
+      {scenarios.map((s) => (
+        <button
+          key={s.id}
+          onClick={() => onOpen(s.id)}
+          className="text-[11px] px-1.5 py-0.5 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300 max-w-[240px] truncate"
+          title={s.title}
+        >
+          <span className={PRIORITY_STYLE[s.priority] ?? 'text-zinc-400'}>●</span> {s.title}
+        </button>
+      ))}
+    </div>
+  );
+}
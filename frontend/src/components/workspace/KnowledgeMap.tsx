@@ -0,0 +1,814 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState, type PointerEvent as ReactPointerEvent, type RefObject } from 'react';
+import type {
+  Application,
+  KgCoverageReport,
+  KgDriftReport,
+  KgGraphData,
+  KgGraphNode,
+  KgModuleCoverage,
+  Module,
+  Page,
+  Scenario,
+  Workflow,
+} from '@/lib/api';
+import {
+  useKnowledgeDrift,
+  useKnowledgeGraph,
+  useKnowledgeModules,
+  useModulePages,
+  useModuleWorkflows,
+  useScenarios,
+} from '@/lib/queries';
+import { ModuleRefreshControl } from '@/components/workspace/ModuleRefresh';
+
+type CoverageStatus = KgModuleCoverage['status'];
+type DriftedModule = KgDriftReport['drifted_modules'][number];
+
+const STATUS_STYLE: Record<CoverageStatus, { fill: string; label: string; badge: string }> = {
+  kg_ready:     { fill: '#10b981', label: 'KG ready',     badge: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30' },
+  explored:     { fill: '#f59e0b', label: 'Explored',     badge: 'bg-amber-500/20 text-amber-400 border-amber-500/30' },
+  not_explored: { fill: '#71717a', label: 'Not explored', badge: 'bg-zinc-800 text-zinc-400 border-zinc-700' },
+};
+const UNKNOWN_FILL = '#52525b';
+const DRIFT_STROKE: Record<DriftedModule['severity'], string> = { high: '#ef4444', medium: '#f97316' };
+
+const MIN_ZOOM = 0.15;
+const MAX_ZOOM = 4;
+// Page and workflow labels only fit once zoomed in this far
+const CHILD_LABEL_ZOOM = 1.6;
+
+// ── Layout ────────────────────────────────────────────────────────────────────
+
+interface MapNode {
+  id: string;
+  kind: KgGraphNode['type'];
+  label: string;
+  x: number;
+  y: number;
+  /** The module a page or workflow belongs to; a module's own id for modules. */
+  moduleId: string | null;
+  data: KgGraphNode;
+}
+
+interface MapEdge {
+  key: string;
+  from: string;
+  to: string;
+  navigation: boolean;
+}
+
+interface MapLayout {
+  nodes: MapNode[];
+  edges: MapEdge[];
+  byId: Map<string, MapNode>;
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+}
+
+function record(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    const u = new URL(url, 'http://x');
+    return `${u.pathname.replace(/\/+$/, '')}${u.hash}`.toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+}
+
+/**
+ * Radial map: the application in the middle, modules on a ring (sub-modules right
+ * after their parent), and each module's pages and workflows fanned out behind it.
+ * Deterministic, so the map doesn't reshuffle between visits.
+ */
+function layoutGraph(graph: KgGraphData, modules: Module[], appName: string): MapLayout {
+  const raw = graph.nodes ?? [];
+  const rawById = new Map(raw.map((n) => [n.id, n]));
+  const root: KgGraphNode = raw.find((n) => n.type === 'application') ?? { id: '__application', type: 'application', label: appName };
+  const moduleNodes = raw.filter((n) => n.type === 'module');
+  const moduleIds = new Set(moduleNodes.map((m) => m.id));
+  const parentOf = new Map(
+    modules.filter((m) => m.parent_id && moduleIds.has(m.parent_id)).map((m) => [m.id, m.parent_id as string]),
+  );
+
+  const subModules = new Map<string, string[]>();
+  parentOf.forEach((parent, child) => subModules.set(parent, [...(subModules.get(parent) ?? []), child]));
+  const ordered: KgGraphNode[] = [];
+  const visited = new Set<string>();
+  const visit = (m: KgGraphNode) => {
+    if (visited.has(m.id)) return;
+    visited.add(m.id);
+    ordered.push(m);
+    (subModules.get(m.id) ?? []).forEach((id) => visit(rawById.get(id)!));
+  };
+  moduleNodes.filter((m) => !parentOf.has(m.id)).forEach(visit);
+  moduleNodes.forEach(visit); // anything left in a parent cycle
+
+  const children = new Map<string, KgGraphNode[]>();
+  for (const e of graph.edges ?? []) {
+    if (e.type !== 'has_page' && e.type !== 'has_workflow') continue;
+    const child = rawById.get(e.to);
+    if (child && moduleIds.has(e.from)) children.set(e.from, [...(children.get(e.from) ?? []), child]);
+  }
+
+  const nodes: MapNode[] = [{ id: root.id, kind: 'application', label: root.label, x: 0, y: 0, moduleId: null, data: root }];
+  const edges: MapEdge[] = [];
+  const place = (n: KgGraphNode, x: number, y: number, moduleId: string) =>
+    nodes.push({ id: n.id, kind: n.type, label: n.label || n.url || n.type, x, y, moduleId, data: n });
+
+  const count = Math.max(ordered.length, 1);
+  const ring = Math.max(220, (count * 90) / (2 * Math.PI));
+  const slot = (2 * Math.PI) / count;
+  ordered.forEach((m, i) => {
+    const angle = i * slot - Math.PI / 2;
+    place(m, ring * Math.cos(angle), ring * Math.sin(angle), m.id);
+    edges.push({ key: `s:${m.id}`, from: parentOf.get(m.id) ?? root.id, to: m.id, navigation: false });
+
+    const kids = children.get(m.id) ?? [];
+    for (let placed = 0, row = 0; placed < kids.length; row++) {
+      const radius = ring + 120 + row * 44;
+      const perRow = Math.min(Math.max(1, Math.floor((slot * 0.8 * radius) / 30)), kids.length - placed);
+      for (let j = 0; j < perRow; j++) {
+        const a = angle + (perRow === 1 ? 0 : (j / (perRow - 1) - 0.5) * slot * 0.8);
+        const kid = kids[placed + j];
+        place(kid, radius * Math.cos(a), radius * Math.sin(a), m.id);
+        edges.push({ key: `s:${kid.id}`, from: m.id, to: kid.id, navigation: false });
+      }
+      placed += perRow;
+    }
+  });
+
+  // Navigation links between pages, from each page's recorded related pages
+  const pages = nodes.filter((n) => n.kind === 'page');
+  const pageByUrl = new Map(pages.filter((p) => p.data.url).map((p) => [normalizeUrl(p.data.url!), p.id]));
+  const pageByTitle = new Map(pages.map((p) => [p.label.toLowerCase(), p.id]));
+  const seen = new Set<string>();
+  for (const page of pages) {
+    for (const ref of page.data.related_pages ?? []) {
+      const r = record(ref);
+      const url = typeof ref === 'string' ? ref : text(r.url) || text(r.href);
+      const title = typeof ref === 'string' ? ref : text(r.title) || text(r.text) || text(r.label);
+      const target = (url && pageByUrl.get(normalizeUrl(url))) || (title && pageByTitle.get(title.toLowerCase()));
+      if (!target || target === page.id) continue;
+      const key = [page.id, target].sort().join('|');
+      if (seen.has(key)) continue;
+      seen.add(key);
+      edges.push({ key: `n:${key}`, from: page.id, to: target, navigation: true });
+    }
+  }
+
+  const xs = nodes.map((n) => n.x);
+  const ys = nodes.map((n) => n.y);
+  return {
+    nodes,
+    edges,
+    byId: new Map(nodes.map((n) => [n.id, n])),
+    bounds: { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) },
+  };
+}
+
+// ── Pan & zoom ────────────────────────────────────────────────────────────────
+
+interface Transform {
+  k: number;
+  x: number;
+  y: number;
+}
+
+function zoomAt(t: Transform, factor: number, px: number, py: number): Transform {
+  const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, t.k * factor));
+  const f = k / t.k;
+  return { k, x: px - (px - t.x) * f, y: py - (py - t.y) * f };
+}
+
+/** Wheel zoom around the cursor and drag-to-pan for an SVG inside `ref`. */
+function usePanZoom(ref: RefObject<HTMLDivElement | null>) {
+  const [transform, setTransform] = useState<Transform>({ k: 1, x: 0, y: 0 });
+  const drag = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    // React's wheel listener is passive, so it can't stop the page from scrolling
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      setTransform((t) => zoomAt(t, Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left, e.clientY - rect.top));
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [ref]);
+
+  const fit = (bounds: MapLayout['bounds']) => {
+    const el = ref.current;
+    if (!el) return;
+    const pad = 60;
+    const w = Math.max(bounds.maxX - bounds.minX, 1);
+    const h = Math.max(bounds.maxY - bounds.minY, 1);
+    const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.min((el.clientWidth - pad * 2) / w, (el.clientHeight - pad * 2) / h, 1.5)));
+    setTransform({
+      k,
+      x: el.clientWidth / 2 - ((bounds.minX + bounds.maxX) / 2) * k,
+      y: el.clientHeight / 2 - ((bounds.minY + bounds.maxY) / 2) * k,
+    });
+  };
+
+  const zoomBy = (factor: number) => {
+    const el = ref.current;
+    if (el) setTransform((t) => zoomAt(t, factor, el.clientWidth / 2, el.clientHeight / 2));
+  };
+
+  const handlers = {
+    onPointerDown: (e: ReactPointerEvent<SVGSVGElement>) => {
+      drag.current = { x: e.clientX, y: e.clientY, moved: false };
+      e.currentTarget.setPointerCapture(e.pointerId);
+    },
+    onPointerMove: (e: ReactPointerEvent<SVGSVGElement>) => {
+      const d = drag.current;
+      if (!d) return;
+      const dx = e.clientX - d.x;
+      const dy = e.clientY - d.y;
+      if (!d.moved && Math.abs(dx) + Math.abs(dy) < 3) return;
+      drag.current = { x: e.clientX, y: e.clientY, moved: true };
+      setTransform((t) => ({ ...t, x: t.x + dx, y: t.y + dy }));
+    },
+  };
+
+  /** Ends a drag; true if the pointer moved, i.e. it was a pan rather than a click. */
+  const endDrag = () => {
+    const moved = drag.current?.moved ?? false;
+    drag.current = null;
+    return moved;
+  };
+
+  return { transform, fit, zoomBy, handlers, endDrag };
+}
+
+// ── Map ───────────────────────────────────────────────────────────────────────
+
+/**
+ * Zoomable node-link map of the latest knowledge graph: modules coloured by KG
+ * coverage and ringed by selector drift, with their pages, workflows and the
+ * navigation links between pages. Clicking a node opens what QAptain knows about it.
+ */
+export function KnowledgeMap({ app, coverage }: { app: Application; coverage: KgCoverageReport | null }) {
+  const { data: kg, isLoading } = useKnowledgeGraph(app.id);
+  const { data: modules = [] } = useKnowledgeModules(app.id);
+  const { data: drift } = useKnowledgeDrift(app.id);
+
+  const [show, setShow] = useState({ pages: true, workflows: true, navigation: true });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [hoverId, setHoverId] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { transform, fit, zoomBy, handlers, endDrag } = usePanZoom(containerRef);
+
+  const layout = useMemo(
+    () => (kg?.graph_data?.nodes?.length ? layoutGraph(kg.graph_data, modules, app.name) : null),
+    [kg, modules, app.name],
+  );
+  const statusOf = useMemo(
+    () => new Map((coverage?.modules ?? []).map((m) => [m.module_id, m])),
+    [coverage],
+  );
+  const driftOf = useMemo(
+    () => new Map((drift?.drifted_modules ?? []).map((d) => [d.module_id, d])),
+    [drift],
+  );
+
+  // Re-fit whenever the graph itself changes, not on every render
+  const fitRef = useRef(fit);
+  fitRef.current = fit;
+  useEffect(() => {
+    if (layout) fitRef.current(layout.bounds);
+  }, [layout]);
+
+  if (isLoading) {
+    return <div className="h-[640px] flex items-center justify-center text-sm text-zinc-500 animate-pulse">Loading map…</div>;
+  }
+  if (!layout) {
+    return (
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-12 text-center text-sm text-zinc-500">
+        No graph snapshot yet. The map appears after the next completed exploration.
+      </div>
+    );
+  }
+
+  const visible = (n: MapNode) =>
+    (n.kind !== 'page' || show.pages) && (n.kind !== 'workflow' || show.workflows);
+  const nodes = layout.nodes.filter(visible);
+  const edges = layout.edges.filter((e) => {
+    if (e.navigation && !show.navigation) return false;
+    const a = layout.byId.get(e.from);
+    const b = layout.byId.get(e.to);
+    return !!a && !!b && visible(a) && visible(b);
+  });
+
+  const focusId = hoverId ?? selectedId;
+  const neighbours = new Set<string>();
+  if (focusId) {
+    neighbours.add(focusId);
+    for (const e of edges) {
+      if (e.from === focusId) neighbours.add(e.to);
+      if (e.to === focusId) neighbours.add(e.from);
+    }
+  }
+  const dimmed = (id: string) => !!focusId && !neighbours.has(id);
+
+  const fillOf = (n: MapNode) => {
+    if (n.kind === 'application') return '#3b82f6';
+    const status = n.moduleId ? statusOf.get(n.moduleId)?.status : undefined;
+    return status ? STATUS_STYLE[status].fill : UNKNOWN_FILL;
+  };
+
+  const selected = selectedId ? layout.byId.get(selectedId) ?? null : null;
+
+  return (
+    <div className="flex gap-4">
+      <div
+        ref={containerRef}
+        className="relative flex-1 min-w-0 h-[640px] bg-zinc-950 border border-zinc-800 rounded-xl overflow-hidden select-none"
+      >
+        <svg
+          className="w-full h-full cursor-grab active:cursor-grabbing touch-none"
+          {...handlers}
+          onPointerUp={() => {
+            if (!endDrag()) setSelectedId(null);
+          }}
+        >
+          <g transform={`translate(${transform.x},${transform.y}) scale(${transform.k})`}>
+            {edges.map((e) => {
+              const a = layout.byId.get(e.from)!;
+              const b = layout.byId.get(e.to)!;
+              const faded = focusId ? !(neighbours.has(e.from) && neighbours.has(e.to)) : false;
+              if (e.navigation) {
+                // Curve navigation links so they read apart from the structural spokes
+                const mx = (a.x + b.x) / 2 - (b.y - a.y) * 0.15;
+                const my = (a.y + b.y) / 2 + (b.x - a.x) * 0.15;
+                return (
+                  <path
+                    key={e.key}
+                    d={`M${a.x},${a.y} Q${mx},${my} ${b.x},${b.y}`}
+                    fill="none"
+                    stroke="#38bdf8"
+                    strokeWidth={1 / transform.k}
+                    strokeDasharray={`${4 / transform.k} ${3 / transform.k}`}
+                    opacity={faded ? 0.08 : 0.55}
+                  />
+                );
+              }
+              return (
+                <line
+                  key={e.key}
+                  x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+                  stroke="#3f3f46"
+                  strokeWidth={1.2 / transform.k}
+                  opacity={faded ? 0.15 : 0.9}
+                />
+              );
+            })}
+
+            {nodes.map((n) => {
+              const isSelected = n.id === selectedId;
+              const driftInfo = n.kind === 'module' ? driftOf.get(n.id) : undefined;
+              const showLabel =
+                n.kind === 'application' || n.kind === 'module' || transform.k >= CHILD_LABEL_ZOOM || n.id === focusId;
+              const r = n.kind === 'application' ? 24 : n.kind === 'module' ? 14 : 6;
+              const label = n.label.length > 30 ? `${n.label.slice(0, 29)}…` : n.label;
+              return (
+                <g
+                  key={n.id}
+                  transform={`translate(${n.x},${n.y})`}
+                  opacity={dimmed(n.id) ? 0.25 : 1}
+                  className="cursor-pointer"
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onPointerUp={(e) => e.stopPropagation()}
+                  onClick={() => setSelectedId(isSelected ? null : n.id)}
+                  onMouseEnter={() => setHoverId(n.id)}
+                  onMouseLeave={() => setHoverId(null)}
+                >
+                  <title>{`${n.label}${n.data.url ? `\n${n.data.url}` : ''}`}</title>
+                  {isSelected && <circle r={r + 6} fill="none" stroke="#e4e4e7" strokeWidth={1.5 / transform.k} />}
+                  {n.kind === 'workflow' ? (
+                    <rect
+                      x={-r} y={-r} width={r * 2} height={r * 2}
+                      transform="rotate(45)"
+                      fill={fillOf(n)}
+                      fillOpacity={0.8}
+                      stroke="#a78bfa"
+                      strokeWidth={1.5 / transform.k}
+                    />
+                  ) : (
+                    <circle
+                      r={r}
+                      fill={fillOf(n)}
+                      fillOpacity={n.kind === 'page' ? 0.8 : 1}
+                      stroke={driftInfo ? DRIFT_STROKE[driftInfo.severity] : '#09090b'}
+                      strokeWidth={driftInfo ? 4 : 2 / transform.k}
+                    />
+                  )}
+                  {showLabel && (
+                    <text
+                      y={r + 14 / Math.max(transform.k, 0.6)}
+                      textAnchor="middle"
+                      fontSize={(n.kind === 'page' || n.kind === 'workflow' ? 10 : 12) / Math.max(transform.k, 0.6)}
+                      fill={n.kind === 'module' || n.kind === 'application' ? '#e4e4e7' : '#a1a1aa'}
+                      className="pointer-events-none"
+                    >
+                      {driftInfo ? `⚠ ${label}` : label}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+
+        {/* Layer toggles */}
+        <div className="absolute top-3 left-3 flex items-center gap-3 bg-zinc-900/90 border border-zinc-800 rounded-lg px-3 py-1.5 text-xs text-zinc-400">
+          {(['pages', 'workflows', 'navigation'] as const).map((layer) => (
+            <label key={layer} className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={show[layer]}
+                onChange={(e) => setShow((s) => ({ ...s, [layer]: e.target.checked }))}
+                className="accent-blue-500"
+              />
+              {layer === 'pages' ? 'Pages' : layer === 'workflows' ? 'Workflows' : 'Navigation'}
+            </label>
+          ))}
+        </div>
+
+        {/* Zoom controls */}
+        <div className="absolute top-3 right-3 flex items-center bg-zinc-900/90 border border-zinc-800 rounded-lg text-sm text-zinc-300">
+          <button onClick={() => zoomBy(1 / 1.3)} className="px-2.5 py-1 hover:text-white" title="Zoom out">−</button>
+          <button onClick={() => zoomBy(1.3)} className="px-2.5 py-1 hover:text-white border-x border-zinc-800" title="Zoom in">+</button>
+          <button onClick={() => fit(layout.bounds)} className="px-2.5 py-1 text-xs hover:text-white" title="Fit to view">Fit</button>
+        </div>
+
+        {/* Legend */}
+        <div className="absolute bottom-3 left-3 flex flex-wrap items-center gap-x-4 gap-y-1 bg-zinc-900/90 border border-zinc-800 rounded-lg px-3 py-2 text-[11px] text-zinc-400">
+          {(Object.keys(STATUS_STYLE) as CoverageStatus[]).map((s) => (
+            <span key={s} className="flex items-center gap-1.5">
+              <span className="w-2.5 h-2.5 rounded-full" style={{ background: STATUS_STYLE[s].fill }} />
+              {STATUS_STYLE[s].label}
+            </span>
+          ))}
+          <span className="flex items-center gap-1.5">
+            <span className="w-2.5 h-2.5 rounded-full border-2" style={{ borderColor: DRIFT_STROKE.high }} />
+            High drift
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-2.5 h-2.5 rounded-full border-2" style={{ borderColor: DRIFT_STROKE.medium }} />
+            Medium drift
+          </span>
+          <span className="text-zinc-600">● module · • page · ◆ workflow · ┈ navigation</span>
+        </div>
+
+        <div className="absolute bottom-3 right-3 text-[11px] text-zinc-600">
+          v{kg?.version} · scroll to zoom, drag to pan
+        </div>
+      </div>
+
+      {selected && selected.kind !== 'application' && (
+        <NodeDetail
+          app={app}
+          node={selected}
+          layout={layout}
+          coverage={selected.moduleId ? statusOf.get(selected.moduleId) : undefined}
+          drift={selected.moduleId ? driftOf.get(selected.moduleId) : undefined}
+          onSelect={setSelectedId}
+          onClose={() => setSelectedId(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+// ── Detail panel ──────────────────────────────────────────────────────────────
+
+interface FormInfo {
+  name: string;
+  entity: string;
+  fields: Array<{ label: string; type: string; required: boolean }>;
+}
+
+interface TableInfo {
+  name: string;
+  entity: string;
+  columns: string[];
+  actions: string[];
+  features: string[];
+}
+
+function labelOf(value: unknown): string {
+  const r = record(value);
+  return typeof value === 'string' ? value : text(r.label) || text(r.name) || text(r.text) || text(r.action);
+}
+
+function formsOf(page: Page | undefined, node: KgGraphNode): FormInfo[] {
+  if (page) {
+    return page.forms.map((f) => {
+      const r = record(f);
+      return {
+        name: text(r.name) || 'Form',
+        entity: text(r.entity),
+        fields: (Array.isArray(r.fields) ? r.fields : []).map((fld) => {
+          const fr = record(fld);
+          return { label: labelOf(fld) || text(fr.selector), type: text(fr.type) || 'text', required: !!fr.required };
+        }),
+      };
+    });
+  }
+  // Older snapshots only carry the flattened field list
+  const byForm = new Map<string, FormInfo>();
+  for (const f of node.form_fields ?? []) {
+    const form = byForm.get(f.form) ?? { name: f.form || 'Form', entity: f.entity, fields: [] };
+    form.fields.push({ label: f.field, type: f.type, required: f.required });
+    byForm.set(f.form, form);
+  }
+  return [...byForm.values()];
+}
+
+function tablesOf(page: Page | undefined, node: KgGraphNode): TableInfo[] {
+  const source = page ? page.tables.map(record) : (node.table_capabilities ?? []).map(record);
+  return source.map((t) => ({
+    name: text(t.name) || 'Table',
+    entity: text(t.entity),
+    columns: (Array.isArray(t.columns) ? t.columns : []).map(labelOf).filter(Boolean),
+    actions: [
+      ...(Array.isArray(t.row_actions) ? t.row_actions : []),
+      ...(Array.isArray(t.bulk_actions) ? t.bulk_actions : []),
+    ].map(labelOf).filter(Boolean),
+    features: [t.has_search && 'search', t.has_filter && 'filter', t.has_pagination && 'pagination']
+      .filter((f): f is string => typeof f === 'string'),
+  }));
+}
+
+function NodeDetail({
+  app,
+  node,
+  layout,
+  coverage,
+  drift,
+  onSelect,
+  onClose,
+}: {
+  app: Application;
+  node: MapNode;
+  layout: MapLayout;
+  coverage?: KgModuleCoverage;
+  drift?: DriftedModule;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}) {
+  const moduleId = node.moduleId ?? undefined;
+  const moduleNode = moduleId ? layout.byId.get(moduleId) : undefined;
+  const { data: pages, isLoading: pagesLoading } = useModulePages(moduleId);
+  const { data: workflows } = useModuleWorkflows(moduleId);
+  const { data: scenarios = [] } = useScenarios(app.id);
+
+  const moduleScenarios = scenarios.filter((s) => s.module_id === moduleId);
+  const page = node.kind === 'page' ? pages?.find((p) => p.id === node.id) : undefined;
+  const workflow = node.kind === 'workflow' ? workflows?.find((w) => w.id === node.id) : undefined;
+
+  // Narrow to the scenarios that exercise this page or workflow when we can tell
+  let touching = moduleScenarios;
+  if (node.kind === 'page' && node.data.url) {
+    const url = normalizeUrl(node.data.url);
+    const onPage = moduleScenarios.filter((s) => s.module_url && normalizeUrl(s.module_url) === url);
+    if (onPage.length) touching = onPage;
+  } else if (node.kind === 'workflow' && node.data.workflow_type) {
+    const ofType = moduleScenarios.filter((s) => s.kg_workflow_types?.includes(node.data.workflow_type!));
+    if (ofType.length) touching = ofType;
+  }
+
+  const kindLabel = node.kind === 'module' ? 'Module' : node.kind === 'page' ? 'Page' : 'Workflow';
+
+  return (
+    <aside className="w-96 shrink-0 h-[640px] overflow-y-auto bg-zinc-900 border border-zinc-800 rounded-xl">
+      <div className="sticky top-0 bg-zinc-900 px-5 py-4 border-b border-zinc-800 flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-[11px] uppercase tracking-wide text-zinc-500">{kindLabel}</div>
+          <h3 className="text-sm font-semibold text-white break-words">{node.label}</h3>
+          {node.kind !== 'module' && moduleNode && (
+            <button onClick={() => onSelect(moduleNode.id)} className="text-xs text-blue-400 hover:text-blue-300">
+              in {moduleNode.label}
+            </button>
+          )}
+          {(node.data.url || node.data.url_pattern) && (
+            <div className="text-[11px] text-zinc-500 font-mono break-all mt-1">{node.data.url || node.data.url_pattern}</div>
+          )}
+        </div>
+        <button onClick={onClose} className="text-zinc-600 hover:text-zinc-400 text-sm">✕</button>
+      </div>
+
+      <div className="p-5 space-y-5 text-sm">
+        {node.kind === 'module' && (
+          <>
+            <ModuleRefreshControl app={app} moduleId={node.id} moduleName={node.label} />
+            <div className="flex flex-wrap items-center gap-2">
+              {coverage && (
+                <span className={`text-xs px-2 py-0.5 rounded-full border ${STATUS_STYLE[coverage.status].badge}`}>
+                  {STATUS_STYLE[coverage.status].label}
+                </span>
+              )}
+              {drift && (
+                <span
+                  className="text-xs px-2 py-0.5 rounded-full border"
+                  style={{ color: DRIFT_STROKE[drift.severity], borderColor: `${DRIFT_STROKE[drift.severity]}55` }}
+                >
+                  ⚠ {drift.severity === 'high' ? 'High' : 'Medium'} drift · {drift.fail_rate_pct}% failing
+                </span>
+              )}
+            </div>
+            {coverage && (
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <Stat label="Pages" value={coverage.pages_discovered} />
+                <Stat label="Workflows" value={coverage.kg_workflows_count} />
+                <Stat label="KG-backed" value={`${coverage.scenarios_kg_backed}/${coverage.scenarios_total}`} />
+              </div>
+            )}
+            {drift && (
+              <Section title="Selector drift">
+                <p className="text-xs text-zinc-400 mb-2">{drift.recommendation}</p>
+                {drift.top_failing_selectors.map((sel) => (
+                  <div key={sel.target} className="flex justify-between gap-2 text-xs py-0.5">
+                    <code className="text-zinc-300 truncate">{sel.target}</code>
+                    <span className="text-zinc-500 shrink-0">{sel.error_type} ×{sel.occurrences}</span>
+                  </div>
+                ))}
+              </Section>
+            )}
+            <Section title={`Pages${pages ? ` (${pages.length})` : ''}`}>
+              {pagesLoading ? (
+                <div className="text-xs text-zinc-600">Loading…</div>
+              ) : !pages?.length ? (
+                <div className="text-xs text-zinc-600">No pages mapped.</div>
+              ) : (
+                pages.map((p) => (
+                  <button
+                    key={p.id}
+                    onClick={() => layout.byId.has(p.id) && onSelect(p.id)}
+                    className="w-full text-left py-1.5 border-b border-zinc-800/60 last:border-0 hover:bg-zinc-800/30"
+                  >
+                    <div className="text-xs text-zinc-200 truncate">{p.title || p.url}</div>
+                    <div className="text-[11px] text-zinc-500">
+                      {p.page_type} · {p.forms.length} forms · {p.tables.length} tables
+                    </div>
+                  </button>
+                ))
+              )}
+            </Section>
+            <Section title={`Workflows${workflows ? ` (${workflows.length})` : ''}`}>
+              {!workflows?.length ? (
+                <div className="text-xs text-zinc-600">No workflows recorded.</div>
+              ) : (
+                workflows.map((w) => (
+                  <button
+                    key={w.id}
+                    onClick={() => layout.byId.has(w.id) && onSelect(w.id)}
+                    className="w-full text-left py-1.5 border-b border-zinc-800/60 last:border-0 hover:bg-zinc-800/30"
+                  >
+                    <div className="text-xs text-zinc-200 truncate">{w.name}</div>
+                    <div className="text-[11px] text-zinc-500">{w.workflow_type} · {w.stages.length} stages</div>
+                  </button>
+                ))
+              )}
+            </Section>
+          </>
+        )}
+
+        {node.kind === 'page' && (
+          <>
+            <div className="text-xs text-zinc-400">{(page?.page_type ?? node.data.page_type) || 'unknown'} page</div>
+            <Section title="Forms">
+              <FormsList forms={formsOf(page, node.data)} />
+            </Section>
+            <Section title="Tables">
+              <TablesList tables={tablesOf(page, node.data)} />
+            </Section>
+          </>
+        )}
+
+        {node.kind === 'workflow' && <WorkflowInfo node={node.data} workflow={workflow} />}
+
+        <Section
+          title={`Scenarios${touching === moduleScenarios && node.kind !== 'module' ? ' in this module' : ''} (${touching.length})`}
+        >
+          {touching.length === 0 ? (
+            <div className="text-xs text-zinc-600">No scenarios cover this yet.</div>
+          ) : (
+            touching.map((s) => <ScenarioRow key={s.id} scenario={s} />)
+          )}
+        </Section>
+      </div>
+    </aside>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-[11px] font-medium uppercase tracking-wide text-zinc-500 mb-1.5">{title}</div>
+      {children}
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: number | string }) {
+  return (
+    <div className="bg-zinc-800/50 rounded-lg py-2">
+      <div className="text-base font-semibold text-white">{value}</div>
+      <div className="text-[11px] text-zinc-500">{label}</div>
+    </div>
+  );
+}
+
+function FormsList({ forms }: { forms: FormInfo[] }) {
+  if (forms.length === 0) return <div className="text-xs text-zinc-600">No forms on this page.</div>;
+  return (
+    <div className="space-y-3">
+      {forms.map((f, i) => (
+        <div key={`${f.name}-${i}`}>
+          <div className="text-xs text-zinc-200">
+            {f.name}
+            {f.entity && <span className="text-zinc-500"> · {f.entity}</span>}
+          </div>
+          <div className="mt-1 flex flex-wrap gap-1">
+            {f.fields.map((fld, j) => (
+              <span key={`${fld.label}-${j}`} className="text-[11px] bg-zinc-800 text-zinc-400 px-1.5 py-0.5 rounded">
+                {fld.label || '(unlabelled)'}
+                <span className="text-zinc-600"> {fld.type}</span>
+                {fld.required && <span className="text-red-400">*</span>}
+              </span>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TablesList({ tables }: { tables: TableInfo[] }) {
+  if (tables.length === 0) return <div className="text-xs text-zinc-600">No tables on this page.</div>;
+  return (
+    <div className="space-y-3">
+      {tables.map((t, i) => (
+        <div key={`${t.name}-${i}`} className="text-xs">
+          <div className="text-zinc-200">
+            {t.name}
+            {t.entity && <span className="text-zinc-500"> · {t.entity}</span>}
+          </div>
+          {t.columns.length > 0 && <div className="text-zinc-500 mt-0.5">Columns: {t.columns.join(', ')}</div>}
+          {t.actions.length > 0 && <div className="text-zinc-500 mt-0.5">Actions: {t.actions.join(', ')}</div>}
+          {t.features.length > 0 && <div className="text-zinc-500 mt-0.5">Supports {t.features.join(', ')}</div>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function WorkflowInfo({ node, workflow }: { node: KgGraphNode; workflow?: Workflow }) {
+  const stages = (workflow?.stages ?? (Array.isArray(node.stages) ? node.stages : [])).map(labelOf);
+  return (
+    <>
+      <div className="text-xs text-zinc-400">
+        {workflow?.workflow_type ?? node.workflow_type}
+        {node.entity && <> · {node.entity}</>}
+      </div>
+      {workflow?.description && <p className="text-xs text-zinc-400">{workflow.description}</p>}
+      <Section title={`Stages (${stages.length})`}>
+        {stages.length === 0 ? (
+          <div className="text-xs text-zinc-600">No stages recorded.</div>
+        ) : (
+          <ol className="list-decimal list-inside space-y-0.5 text-xs text-zinc-300">
+            {stages.map((s, i) => <li key={i}>{s || '—'}</li>)}
+          </ol>
+        )}
+      </Section>
+    </>
+  );
+}
+
+function ScenarioRow({ scenario }: { scenario: Scenario }) {
+  const dot =
+    scenario.last_run_status === 'COMPLETED' ? 'bg-green-500' :
+    scenario.last_run_status === 'FAILED' ? 'bg-red-500' :
+    scenario.last_run_status === 'RUNNING' ? 'bg-blue-500 animate-pulse' :
+    'bg-zinc-600';
+  return (
+    <div className="flex items-center gap-2 py-1 text-xs">
+      <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${dot}`} title={scenario.last_run_status ?? 'Not run yet'} />
+      <span className="text-zinc-300 truncate flex-1">{scenario.title}</span>
+      {scenario.kg_plan_available && <span className="text-[10px] text-emerald-400 shrink-0">KG</span>}
+      <span className="text-[10px] text-zinc-500 shrink-0">{scenario.priority}</span>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { WorkspaceMember, WorkspaceRole } from '@/lib/api';
+import {
+  useInviteMember,
+  useRemoveMember,
+  useRevokeInvite,
+  useUpdateMemberRole,
+  useWorkspaceInvites,
+  useWorkspaceMembers,
+} from '@/lib/queries';
+import { useWorkspacePermissions } from '@/hooks/use-workspace-permissions';
+import { useAppConfirm, useAppToast } from '@/components/ui/app-notifications';
+
+const ROLES: Array<{ role: WorkspaceRole; label: string; hint: string }> = [
+  { role: 'VIEWER', label: 'Viewer', hint: 'Read-only: results, reports and scenarios' },
+  { role: 'MEMBER', label: 'Member', hint: 'Run, edit and delete tests and credentials' },
+  { role: 'ADMIN', label: 'Admin', hint: 'Also manages members, tokens and integrations' },
+  { role: 'OWNER', label: 'Owner', hint: 'Full control, including deleting the workspace' },
+];
+
+const ROLE_STYLE: Record<WorkspaceRole, string> = {
+  OWNER: 'bg-violet-500/10 text-violet-300 border-violet-500/20',
+  ADMIN: 'bg-blue-500/10 text-blue-300 border-blue-500/20',
+  MEMBER: 'bg-zinc-800 text-zinc-300 border-zinc-700',
+  VIEWER: 'bg-zinc-800/50 text-zinc-500 border-zinc-800',
+};
+
+function roleLabel(role: WorkspaceRole) {
+  return ROLES.find((r) => r.role === role)?.label ?? role;
+}
+
+/**
+ * Who can access the workspace. Admins invite by email — existing accounts join right
+ * away, anyone else gets a pending invite whose sign-up link the admin shares — change
+ * roles and remove members; everyone else sees the list and can leave.
+ */
+export function MembersPanel({ workspaceId }: { workspaceId: string }) {
+  const perms = useWorkspacePermissions(workspaceId);
+  const { data: members = [], isLoading } = useWorkspaceMembers(workspaceId);
+  const { data: invites = [] } = useWorkspaceInvites(workspaceId, perms.canManage);
+  const inviteMember = useInviteMember(workspaceId);
+  const revokeInvite = useRevokeInvite(workspaceId);
+  const toast = useAppToast();
+  const confirm = useAppConfirm();
+
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>('MEMBER');
+
+  // Admins can't hand out roles above their own; the server enforces the same rule
+  const assignable = ROLES.filter((r) => perms.isOwner || r.role !== 'OWNER');
+
+  const handleInvite = async () => {
+    if (!email.trim()) return;
+    try {
+      const result = await inviteMember.mutateAsync({ email: email.trim(), role });
+      toast.success(
+        result.member
+          ? `${result.member.email} added as ${roleLabel(result.member.role)}`
+          : `Invite created for ${result.invite?.email ?? email.trim()} — copy its link below and send it to them`,
+      );
+      setEmail('');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to invite member');
+    }
+  };
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text).then(
+      () => toast.success('Invite link copied'),
+      () => toast.error('Could not copy — select and copy manually'),
+    );
+  };
+
+  const handleRevoke = async (inviteId: string, inviteEmail: string) => {
+    const ok = await confirm({
+      title: `Revoke the invite for ${inviteEmail}?`,
+      message: 'Its link stops working; they will not join the workspace when they sign up.',
+      confirmLabel: 'Revoke Invite',
+      destructive: true,
+    });
+    if (!ok) return;
+    try {
+      await revokeInvite.mutateAsync(inviteId);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to revoke invite');
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+      <div className="px-5 py-4 border-b border-zinc-800">
+        <h3 className="text-sm font-semibold text-white">Members</h3>
+        <p className="text-xs text-zinc-500 mt-0.5">
+          Everyone with access to this workspace and its applications. Viewers can browse results; members can run,
+          edit and delete tests; admins also manage members and integrations.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="px-5 py-6 text-xs text-zinc-500">Loading members…</div>
+      ) : (
+        <div className="divide-y divide-zinc-800">
+          {members.map((m) => (
+            <MemberRow key={m.id} workspaceId={workspaceId} member={m} assignable={assignable} />
+          ))}
+        </div>
+      )}
+
+      {perms.canManage && invites.length > 0 && (
+        <div className="border-t border-zinc-800">
+          <div className="px-5 pt-3 text-[11px] font-medium uppercase tracking-wide text-zinc-500">Pending invites</div>
+          <div className="divide-y divide-zinc-800">
+            {invites.map((inv) => (
+              <div key={inv.id} className="px-5 py-3 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm text-zinc-300 truncate">{inv.email}</div>
+                  <div className="text-xs text-zinc-600">Joins as {roleLabel(inv.role)} when they sign up through the invite link</div>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  {inv.invite_url && (
+                    <button
+                      onClick={() => copy(inv.invite_url!)}
+                      className="text-xs text-zinc-400 hover:text-zinc-200 transition-colors"
+                    >
+                      Copy link
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleRevoke(inv.id, inv.email)}
+                    disabled={revokeInvite.isPending}
+                    className="text-xs text-zinc-500 hover:text-red-400 transition-colors disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {perms.canManage && (
+        <div className="px-5 py-4 border-t border-zinc-800 flex flex-col md:flex-row gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleInvite(); }}
+            placeholder="teammate@example.com"
+            className="flex-1 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as WorkspaceRole)}
+            title={ROLES.find((r) => r.role === role)?.hint}
+            className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500"
+          >
+            {assignable.map((r) => (
+              <option key={r.role} value={r.role}>{r.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleInvite}
+            disabled={!email.trim() || inviteMember.isPending}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {inviteMember.isPending ? 'Inviting…' : 'Invite'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MemberRow({
+  workspaceId,
+  member,
+  assignable,
+}: {
+  workspaceId: string;
+  member: WorkspaceMember;
+  assignable: typeof ROLES;
+}) {
+  const perms = useWorkspacePermissions(workspaceId);
+  const updateRole = useUpdateMemberRole(workspaceId);
+  const removeMember = useRemoveMember(workspaceId);
+  const toast = useAppToast();
+  const confirm = useAppConfirm();
+  const router = useRouter();
+
+  // Only owners can change or remove owners
+  const canEdit = perms.canManage && (perms.isOwner || member.role !== 'OWNER');
+
+  const handleRole = async (role: WorkspaceRole) => {
+    try {
+      await updateRole.mutateAsync({ memberId: member.id, role });
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to change role');
+    }
+  };
+
+  const handleRemove = async () => {
+    const ok = await confirm(
+      member.is_self
+        ? {
+            title: 'Leave this workspace?',
+            message: 'You lose access to its applications until someone invites you again.',
+            confirmLabel: 'Leave Workspace',
+            destructive: true,
+          }
+        : {
+            title: `Remove ${member.name || member.email}?`,
+            message: 'They lose access to this workspace and its applications immediately.',
+            confirmLabel: 'Remove Member',
+            destructive: true,
+          },
+    );
+    if (!ok) return;
+    try {
+      await removeMember.mutateAsync(member.id);
+      if (member.is_self) router.push('/workspaces');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to remove member');
+    }
+  };
+
+  return (
+    <div className="px-5 py-3 flex items-center justify-between gap-3">
+      <div className="min-w-0">
+        <div className="text-sm text-zinc-200 truncate">
+          {member.name || member.email}
+          {member.is_self && <span className="text-zinc-500"> (you)</span>}
+        </div>
+        <div className="text-xs text-zinc-500 truncate">{member.email}</div>
+      </div>
+      <div className="flex items-center gap-3 shrink-0">
+        {canEdit ? (
+          <select
+            value={member.role}
+            onChange={(e) => handleRole(e.target.value as WorkspaceRole)}
+            disabled={updateRole.isPending}
+            className="bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-xs text-zinc-100 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+          >
+            {assignable.map((r) => (
+              <option key={r.role} value={r.role}>{r.label}</option>
+            ))}
+          </select>
+        ) : (
+          <span className={`text-[11px] px-2 py-0.5 rounded-full border ${ROLE_STYLE[member.role]}`}>
+            {roleLabel(member.role)}
+          </span>
+        )}
+        {(canEdit || member.is_self) && (
+          <button
+            onClick={handleRemove}
+            disabled={removeMember.isPending}
+            className="text-xs text-zinc-500 hover:text-red-400 transition-colors disabled:opacity-50"
+          >
+            {member.is_self ? 'Leave' : 'Remove'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
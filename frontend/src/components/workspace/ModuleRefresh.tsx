@@ -0,0 +1,97 @@
+'use client';
+
+import type { Application } from '@/lib/api';
+import { useAppConfirm, useAppToast } from '@/components/ui/app-notifications';
+import { useModuleRefresh } from '@/hooks/use-module-refresh';
+import { useWorkspacePermissions } from '@/hooks/use-workspace-permissions';
+
+function CountChange({ label, before, after }: { label: string; before?: number; after?: number }) {
+  if (before == null || after == null) return null;
+  const tone = after > before ? 'text-emerald-400' : after < before ? 'text-amber-400' : 'text-zinc-400';
+  return (
+    <span>
+      {label} <span className="text-zinc-500">{before}</span> → <span className={tone}>{after}</span>
+    </span>
+  );
+}
+
+/**
+ * "Refresh" action for one module: re-explores just that module, streams the explore
+ * log inline while it runs, and shows its page and workflow counts before and after.
+ */
+export function ModuleRefreshControl({ app, moduleId, moduleName }: {
+  app: Application;
+  moduleId: string;
+  moduleName: string;
+}) {
+  const { refresh, starting, start, dismiss } = useModuleRefresh(app.id);
+  const perms = useWorkspacePermissions(app.workspace_id);
+  const confirm = useAppConfirm();
+  const toast = useAppToast();
+
+  const mine = refresh?.moduleId === moduleId ? refresh : null;
+  const busyElsewhere = !mine && refresh?.status === 'running';
+
+  const handleRefresh = async () => {
+    const ok = await confirm({
+      title: `Refresh "${moduleName}"?`,
+      message:
+        'QAptain re-explores only this module and replaces its pages, workflows and AI-generated scenarios. Other modules are left as they are.',
+      confirmLabel: 'Refresh Module',
+    });
+    if (!ok) return;
+    try {
+      await start(moduleId);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to start the refresh');
+    }
+  };
+
+  if (mine?.status === 'running') {
+    return (
+      <div className="flex items-center gap-2 min-w-0 text-xs text-blue-300" onClick={(e) => e.stopPropagation()}>
+        <span className="w-3 h-3 shrink-0 border-2 border-blue-500/40 border-t-blue-300 rounded-full animate-spin" />
+        <span className="shrink-0">Refreshing</span>
+        {mine.message && <span className="text-zinc-500 truncate" title={mine.message}>{mine.message}</span>}
+      </div>
+    );
+  }
+
+  if (mine) {
+    return (
+      <div className="flex items-center gap-3 min-w-0 text-xs" onClick={(e) => e.stopPropagation()}>
+        {mine.status === 'completed' ? (
+          <>
+            <span className="text-emerald-400 shrink-0">✓ Refreshed</span>
+            <CountChange label="Pages" before={mine.before?.pages} after={mine.after?.pages} />
+            <CountChange label="Workflows" before={mine.before?.workflows} after={mine.after?.workflows} />
+          </>
+        ) : (
+          <>
+            <span className="text-red-400 shrink-0">{mine.status === 'cancelled' ? 'Refresh cancelled' : 'Refresh failed'}</span>
+            {mine.message && <span className="text-zinc-500 truncate" title={mine.message}>{mine.message}</span>}
+            {perms.canRun && (
+              <button onClick={handleRefresh} disabled={starting} className="shrink-0 text-blue-400 hover:text-blue-300">
+                Retry
+              </button>
+            )}
+          </>
+        )}
+        <button onClick={dismiss} className="shrink-0 text-zinc-600 hover:text-zinc-400" title="Dismiss">✕</button>
+      </div>
+    );
+  }
+
+  if (!perms.canRun) return null;
+
+  return (
+    <button
+      onClick={(e) => { e.stopPropagation(); handleRefresh(); }}
+      disabled={starting || busyElsewhere}
+      title={busyElsewhere ? 'Another module is being refreshed' : `Re-explore only ${moduleName}`}
+      className="shrink-0 text-xs px-2.5 py-1 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-zinc-300 rounded-lg transition-colors disabled:opacity-40"
+    >
+      {starting ? 'Starting…' : '↻ Refresh'}
+    </button>
+  );
+}
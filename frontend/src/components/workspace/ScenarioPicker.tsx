@@ -0,0 +1,87 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { Scenario } from '@/lib/api';
+
+/**
+ * Checkbox list of scenarios grouped by module, with per-module tri-state toggles.
+ * Modules start collapsed; `value` keeps the caller's order and new picks are appended.
+ */
+export function ScenarioPicker({
+  scenarios,
+  value,
+  onChange,
+}: {
+  scenarios: Scenario[];
+  value: string[];
+  onChange: (ids: string[]) => void;
+}) {
+  const [expandedModule, setExpandedModule] = useState<string | null>(null);
+
+  const modules = useMemo(() => {
+    const groups = new Map<string, Scenario[]>();
+    for (const s of scenarios) {
+      const key = s.module_name || 'Ungrouped';
+      groups.set(key, [...(groups.get(key) ?? []), s]);
+    }
+    return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [scenarios]);
+
+  const selected = new Set(value);
+
+  const toggleScenarios = (ids: string[], on: boolean) => {
+    const next = new Set(value);
+    ids.forEach((id) => (on ? next.add(id) : next.delete(id)));
+    onChange([...next]);
+  };
+
+  return (
+    <div className="border border-zinc-800 rounded-lg max-h-64 overflow-y-auto divide-y divide-zinc-800/60">
+      <div className="flex items-center justify-between px-3 py-2 text-xs text-zinc-500 bg-zinc-900 sticky top-0">
+        <span>{value.length} of {scenarios.length} scenarios selected</span>
+        <button
+          onClick={() => onChange(selected.size === scenarios.length ? [] : scenarios.map((s) => s.id))}
+          className="text-zinc-400 hover:text-zinc-200"
+        >
+          {selected.size === scenarios.length ? 'Clear' : 'Select all'}
+        </button>
+      </div>
+      {modules.map(([moduleName, items]) => {
+        const ids = items.map((s) => s.id);
+        const count = ids.filter((id) => selected.has(id)).length;
+        const expanded = expandedModule === moduleName;
+        return (
+          <div key={moduleName}>
+            <div className="flex items-center gap-2 px-3 py-2">
+              <input
+                type="checkbox"
+                checked={count === ids.length}
+                ref={(el) => { if (el) el.indeterminate = count > 0 && count < ids.length; }}
+                onChange={(e) => toggleScenarios(ids, e.target.checked)}
+                className="accent-blue-500"
+              />
+              <button
+                onClick={() => setExpandedModule(expanded ? null : moduleName)}
+                className="flex-1 flex items-center justify-between text-left text-xs text-zinc-300"
+              >
+                <span className="truncate">{moduleName}</span>
+                <span className="text-zinc-600 shrink-0 ml-2">{count}/{ids.length} {expanded ? '▾' : '▸'}</span>
+              </button>
+            </div>
+            {expanded && items.map((s) => (
+              <label key={s.id} className="flex items-center gap-2 pl-9 pr-3 py-1.5 text-xs text-zinc-400 hover:bg-zinc-800/40 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.has(s.id)}
+                  onChange={(e) => toggleScenarios([s.id], e.target.checked)}
+                  className="accent-blue-500"
+                />
+                <span className="truncate">{s.title}</span>
+              </label>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
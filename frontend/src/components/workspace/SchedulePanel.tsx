@@ -0,0 +1,396 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useAppConfirm, useAppToast } from '@/components/ui/app-notifications';
+import { EnvironmentBadge, EnvironmentPicker } from '@/components/workspace/EnvironmentPicker';
+import { ScenarioPicker } from '@/components/workspace/ScenarioPicker';
+import { useWorkspacePermissions } from '@/hooks/use-workspace-permissions';
+import type { BatchSchedule, BatchScheduleInput, Environment, Scenario } from '@/lib/api';
+import {
+  useCreateSchedule,
+  useDeleteSchedule,
+  useRunScheduleNow,
+  useSchedules,
+  useSuites,
+  useUpdateSchedule,
+} from '@/lib/queries';
+
+const CRON_PRESETS = [
+  { label: 'Hourly', cron: '0 * * * *' },
+  { label: 'Nightly at 02:00', cron: '0 2 * * *' },
+  { label: 'Weekdays at 06:00', cron: '0 6 * * 1-5' },
+  { label: 'Weekly, Monday 03:00', cron: '0 3 * * 1' },
+];
+
+const EXECUTION_MODES = ['smoke', 'functional', 'regression'];
+
+const LAST_STATUS_STYLE: Record<string, string> = {
+  started: 'text-green-400',
+  skipped: 'text-amber-400',
+  failed: 'text-red-400',
+};
+
+function describeCron(cron: string): string {
+  return CRON_PRESETS.find((p) => p.cron === cron)?.label ?? cron;
+}
+
+function browserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+// Backend timestamps are naive UTC
+function parseUtc(value: string): Date {
+  return new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value}Z`);
+}
+
+function formatRelative(value: string | null): string {
+  if (!value) return '—';
+  const diffMin = Math.round((parseUtc(value).getTime() - Date.now()) / 60_000);
+  const abs = Math.abs(diffMin);
+  const span = abs < 60 ? `${abs}m` : abs < 48 * 60 ? `${Math.round(abs / 60)}h` : `${Math.round(abs / 1440)}d`;
+  if (abs < 1) return 'now';
+  return diffMin > 0 ? `in ${span}` : `${span} ago`;
+}
+
+function formatAbsolute(value: string | null): string | undefined {
+  return value ? parseUtc(value).toLocaleString() : undefined;
+}
+
+type FormState = BatchScheduleInput;
+
+function emptyForm(environments: Environment[]): FormState {
+  const env = environments.find((e) => e.is_default) ?? environments[0];
+  return {
+    name: '',
+    cron_expression: CRON_PRESETS[1].cron,
+    timezone: browserTimeZone(),
+    environment_id: env?.id ?? '',
+    scenario_ids: [],
+    suite_id: null,
+    execution_mode: 'regression',
+  };
+}
+
+/**
+ * Recurring batch runs for one application: list with next/last fire times,
+ * pause/resume, run-now, and an add/edit form. A schedule runs either a fixed
+ * scenario list or a saved suite.
+ */
+export function SchedulePanel({
+  workspaceId,
+  appId,
+  environments,
+  scenarios,
+}: {
+  workspaceId: string;
+  appId: string;
+  environments: Environment[];
+  scenarios: Scenario[];
+}) {
+  const { data: schedules = [], isLoading } = useSchedules(appId);
+  const { data: suites = [] } = useSuites(appId);
+  const createSchedule = useCreateSchedule(appId);
+  const updateSchedule = useUpdateSchedule(appId);
+  const runNow = useRunScheduleNow(appId);
+  const deleteSchedule = useDeleteSchedule(appId);
+  const perms = useWorkspacePermissions(workspaceId);
+  const toast = useAppToast();
+  const confirm = useAppConfirm();
+
+  // null = form closed; '' = creating; otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<FormState>(() => emptyForm(environments));
+
+  const envById = useMemo(() => new Map(environments.map((e) => [e.id, e])), [environments]);
+  const suiteById = useMemo(() => new Map(suites.map((s) => [s.id, s])), [suites]);
+
+  const isPreset = CRON_PRESETS.some((p) => p.cron === form.cron_expression);
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) =>
+    setForm((f) => ({ ...f, [key]: value }));
+
+  const openCreate = () => {
+    setForm(emptyForm(environments));
+    setEditingId('');
+  };
+
+  const openEdit = (s: BatchSchedule) => {
+    setForm({
+      name: s.name,
+      cron_expression: s.cron_expression,
+      timezone: s.timezone,
+      environment_id: s.environment_id,
+      scenario_ids: s.scenario_ids,
+      suite_id: s.suite_id ?? null,
+      execution_mode: s.execution_mode,
+    });
+    setEditingId(s.id);
+  };
+
+  const handleSave = async () => {
+    try {
+      // The API treats "" as "detach the suite"; null would mean "leave unchanged"
+      const data = form.suite_id ? { ...form, scenario_ids: [] } : { ...form, suite_id: editingId ? '' : null };
+      if (editingId) await updateSchedule.mutateAsync({ scheduleId: editingId, data });
+      else await createSchedule.mutateAsync(data);
+      setEditingId(null);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to save schedule');
+    }
+  };
+
+  const handleTogglePause = async (s: BatchSchedule) => {
+    try {
+      await updateSchedule.mutateAsync({ scheduleId: s.id, data: { is_paused: !s.is_paused } });
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to update schedule');
+    }
+  };
+
+  const handleRunNow = async (s: BatchSchedule) => {
+    try {
+      const result = await runNow.mutateAsync(s.id);
+      if (result.last_status === 'started') toast.success(`"${s.name}" started`);
+      else toast.error(result.last_error || `"${s.name}" did not start`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to run schedule');
+    }
+  };
+
+  const handleDelete = async (s: BatchSchedule) => {
+    const ok = await confirm({
+      title: `Delete "${s.name}"?`,
+      message: 'Future runs are cancelled. Batches it already ran stay in history.',
+      confirmLabel: 'Delete Schedule',
+      destructive: true,
+    });
+    if (!ok) return;
+    try {
+      await deleteSchedule.mutateAsync(s.id);
+      if (editingId === s.id) setEditingId(null);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to delete schedule');
+    }
+  };
+
+  const saving = createSchedule.isPending || updateSchedule.isPending;
+  const canSave = form.name.trim() && form.cron_expression.trim() && form.environment_id
+    && (form.suite_id || form.scenario_ids.length > 0);
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden mb-4">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+        <div>
+          <h3 className="text-sm font-semibold text-white">Schedules</h3>
+          <p className="text-xs text-zinc-500 mt-0.5">Recurring batch runs. Their batches appear in the history below.</p>
+        </div>
+        {editingId === null && perms.canEdit && (
+          <button
+            onClick={openCreate}
+            disabled={scenarios.length === 0 || environments.length === 0}
+            className="text-xs bg-blue-600 hover:bg-blue-500 text-white px-3 py-1.5 rounded-lg transition-colors font-medium disabled:opacity-50"
+          >
+            + New Schedule
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="px-5 py-6 text-xs text-zinc-500">Loading schedules…</div>
+      ) : schedules.length === 0 && editingId === null ? (
+        <div className="px-5 py-6 text-xs text-zinc-500">
+          No schedules yet — set up a nightly regression or an hourly smoke run.
+        </div>
+      ) : (
+        <div className="divide-y divide-zinc-800">
+          {schedules.map((s) => {
+            const env = envById.get(s.environment_id);
+            const suite = s.suite_id ? suiteById.get(s.suite_id) : undefined;
+            return (
+              <div key={s.id} className={`flex items-center gap-4 px-5 py-3 ${s.is_paused ? 'opacity-60' : ''}`}>
+                <div className={`w-2 h-2 rounded-full shrink-0 ${s.is_paused ? 'bg-zinc-600' : 'bg-green-500'}`} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-sm font-medium text-zinc-200 truncate">{s.name}</span>
+                    {env && <EnvironmentBadge environment={env} />}
+                    <span className="text-[10px] text-zinc-500 bg-zinc-800 px-1.5 py-0.5 rounded">{s.execution_mode}</span>
+                    {s.is_paused && <span className="text-[10px] text-zinc-400 bg-zinc-800 px-1.5 py-0.5 rounded">paused</span>}
+                  </div>
+                  <div className="text-xs text-zinc-500 mt-0.5">
+                    {describeCron(s.cron_expression)} · {s.timezone} · {suite
+                      ? `suite "${suite.name}"`
+                      : `${s.scenario_ids.length} scenario${s.scenario_ids.length !== 1 ? 's' : ''}`}
+                  </div>
+                </div>
+                <div className="hidden md:block text-right text-xs w-28 shrink-0">
+                  <div className="text-zinc-600">Next</div>
+                  <div className="text-zinc-300 tabular-nums" title={formatAbsolute(s.next_run_at)}>
+                    {s.is_paused ? '—' : formatRelative(s.next_run_at)}
+                  </div>
+                </div>
+                <div className="hidden md:block text-right text-xs w-28 shrink-0">
+                  <div className="text-zinc-600">Last</div>
+                  <div
+                    className={`tabular-nums ${s.last_status ? LAST_STATUS_STYLE[s.last_status] ?? 'text-zinc-300' : 'text-zinc-500'}`}
+                    title={[formatAbsolute(s.last_run_at), s.last_error].filter(Boolean).join(' — ') || undefined}
+                  >
+                    {s.last_run_at ? `${formatRelative(s.last_run_at)}${s.last_status && s.last_status !== 'started' ? ` · ${s.last_status}` : ''}` : 'never'}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => handleTogglePause(s)}
+                    disabled={updateSchedule.isPending || !perms.canEdit}
+                    className="text-xs text-zinc-400 hover:text-zinc-200 px-2 py-1 rounded hover:bg-zinc-800 transition-colors disabled:opacity-50"
+                  >
+                    {s.is_paused ? 'Resume' : 'Pause'}
+                  </button>
+                  <button
+                    onClick={() => handleRunNow(s)}
+                    disabled={runNow.isPending || !perms.canRun}
+                    className="text-xs text-zinc-400 hover:text-zinc-200 px-2 py-1 rounded hover:bg-zinc-800 transition-colors disabled:opacity-50"
+                  >
+                    Run now
+                  </button>
+                  {perms.canEdit && (
+                    <button
+                      onClick={() => openEdit(s)}
+                      className="text-xs text-zinc-400 hover:text-zinc-200 px-2 py-1 rounded hover:bg-zinc-800 transition-colors"
+                    >
+                      Edit
+                    </button>
+                  )}
+                  {perms.canDelete && (
+                    <button
+                      onClick={() => handleDelete(s)}
+                      className="text-xs text-red-400/80 hover:text-red-300 px-2 py-1 rounded hover:bg-red-500/10 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Add / edit form */}
+      {editingId !== null && (
+        <div className="px-5 py-4 border-t border-zinc-800 space-y-3">
+          <h4 className="text-xs font-medium text-zinc-400">{editingId ? 'Edit schedule' : 'New schedule'}</h4>
+          <input
+            value={form.name}
+            onChange={(e) => update('name', e.target.value)}
+            placeholder="Nightly regression"
+            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <select
+              value={isPreset ? form.cron_expression : '__custom__'}
+              onChange={(e) => update('cron_expression', e.target.value === '__custom__' ? '' : e.target.value)}
+              className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-300 focus:outline-none"
+            >
+              {CRON_PRESETS.map((p) => <option key={p.cron} value={p.cron}>{p.label}</option>)}
+              <option value="__custom__">Custom cron…</option>
+            </select>
+            <input
+              value={form.cron_expression}
+              onChange={(e) => update('cron_expression', e.target.value)}
+              placeholder="m h dom mon dow"
+              className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500 font-mono"
+            />
+            <input
+              value={form.timezone}
+              onChange={(e) => update('timezone', e.target.value)}
+              placeholder="Europe/Berlin"
+              title="IANA timezone the cron expression is evaluated in"
+              className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+            />
+          </div>
+          <div className="flex items-center gap-4 flex-wrap">
+            <EnvironmentPicker
+              environments={environments}
+              value={form.environment_id}
+              onChange={(id) => update('environment_id', id)}
+            />
+            <label className="flex items-center gap-2">
+              <span className="text-xs text-zinc-500">Run mode:</span>
+              <select
+                value={form.execution_mode}
+                onChange={(e) => update('execution_mode', e.target.value)}
+                className="bg-zinc-900 border border-zinc-800 rounded-lg px-2.5 py-1.5 text-xs text-zinc-300 focus:outline-none"
+              >
+                {EXECUTION_MODES.map((m) => <option key={m} value={m}>{m}</option>)}
+              </select>
+            </label>
+          </div>
+
+          {/* What to run: a saved suite (resolved at each firing) or a fixed scenario list */}
+          {suites.length > 0 && (
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-zinc-500">Runs:</span>
+              <div className="flex gap-1 bg-zinc-900 border border-zinc-800 rounded-lg p-1">
+                {([
+                  { useSuite: false, label: 'Scenarios' },
+                  { useSuite: true, label: 'Suite' },
+                ]).map((opt) => (
+                  <button
+                    key={opt.label}
+                    onClick={() => update('suite_id', opt.useSuite ? suites[0].id : null)}
+                    className={`px-3 py-1 text-xs rounded-md transition-colors ${
+                      !!form.suite_id === opt.useSuite ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'
+                    }`}
+                  >
+                    {opt.label}
+                  </button>
+                ))}
+              </div>
+              {form.suite_id && (
+                <select
+                  value={form.suite_id}
+                  onChange={(e) => update('suite_id', e.target.value)}
+                  className="bg-zinc-900 border border-zinc-800 rounded-lg px-2.5 py-1.5 text-xs text-zinc-300 focus:outline-none"
+                >
+                  {suites.map((suite) => (
+                    <option key={suite.id} value={suite.id}>{suite.name} · v{suite.version}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+          {!form.suite_id && (
+            <ScenarioPicker
+              scenarios={scenarios}
+              value={form.scenario_ids}
+              onChange={(ids) => update('scenario_ids', ids)}
+            />
+          )}
+          {!form.suite_id && form.scenario_ids.length > 50 && (
+            <p className="text-xs text-amber-400">A schedule can run at most 50 scenarios per batch.</p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving || !canSave || (!form.suite_id && form.scenario_ids.length > 50)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving…' : editingId ? 'Save Schedule' : 'Create Schedule'}
+            </button>
+            <button
+              onClick={() => setEditingId(null)}
+              className="px-3 py-2 text-sm text-zinc-400 hover:text-zinc-200 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,573 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAppConfirm, useAppToast } from '@/components/ui/app-notifications';
+import { EnvironmentPicker } from '@/components/workspace/EnvironmentPicker';
+import { ScenarioPicker } from '@/components/workspace/ScenarioPicker';
+import { useWorkspacePermissions } from '@/hooks/use-workspace-permissions';
+import {
+  suiteMatches,
+  type Environment,
+  type Scenario,
+  type TestSuite,
+  type TestSuiteInput,
+  type TestSuiteQuery,
+} from '@/lib/api';
+import {
+  useBatchHistory,
+  useCreateSuite,
+  useDeleteSuite,
+  useSuites,
+  useSuiteVersions,
+  useUpdateSuite,
+} from '@/lib/queries';
+
+const PRIORITIES: Scenario['priority'][] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+const EXECUTION_MODES = ['smoke', 'functional', 'regression'];
+
+const EMPTY_QUERY: TestSuiteQuery = { priorities: [], tags: [], module_ids: [], smoke_only: false };
+
+type FormState = Required<Omit<TestSuiteInput, 'description' | 'query'>> & { description: string; query: TestSuiteQuery };
+
+function emptyForm(scenarioIds: string[] = []): FormState {
+  return { name: '', description: '', kind: 'explicit', scenario_ids: scenarioIds, query: EMPTY_QUERY };
+}
+
+/** Scenario ids a suite definition selects from the loaded scenarios — the live preview. */
+export function resolveSuiteLocally(
+  scenarios: Scenario[],
+  suite: Pick<TestSuiteInput, 'kind' | 'scenario_ids' | 'query'>,
+): string[] {
+  if (suite.kind === 'explicit') {
+    const active = new Set(scenarios.filter((s) => s.is_active).map((s) => s.id));
+    return suite.scenario_ids.filter((id) => active.has(id));
+  }
+  const query = suite.query ?? EMPTY_QUERY;
+  return scenarios.filter((s) => suiteMatches(s, query)).map((s) => s.id);
+}
+
+function describeQuery(query: TestSuiteQuery | null | undefined, moduleNames: Map<string, string>): string {
+  if (!query) return 'all scenarios';
+  const parts = [
+    query.priorities.length ? query.priorities.join(' / ') : null,
+    query.tags.length ? query.tags.map((t) => `#${t}`).join(' ') : null,
+    query.module_ids.length ? query.module_ids.map((id) => moduleNames.get(id) ?? 'unknown module').join(', ') : null,
+    query.smoke_only ? 'smoke only' : null,
+  ].filter(Boolean);
+  return parts.length ? parts.join(' · ') : 'all scenarios';
+}
+
+/** Compact suite launcher for toolbars that already expose target environment and run mode. */
+export function RunSuiteMenu({
+  suites,
+  onRun,
+  runningSuiteId,
+}: {
+  suites: TestSuite[];
+  onRun: (suite: TestSuite) => void;
+  runningSuiteId: string | null;
+}) {
+  const [suiteId, setSuiteId] = useState('');
+  if (suites.length === 0) return null;
+  const suite = suites.find((s) => s.id === suiteId) ?? suites[0];
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <select
+        value={suite.id}
+        onChange={(e) => setSuiteId(e.target.value)}
+        className="bg-zinc-900 border border-zinc-800 rounded-lg px-2.5 py-1.5 text-xs text-zinc-300 focus:outline-none focus:ring-2 focus:ring-blue-500 max-w-[12rem]"
+      >
+        {suites.map((s) => (
+          <option key={s.id} value={s.id}>{s.name} ({s.scenario_count})</option>
+        ))}
+      </select>
+      <button
+        onClick={() => onRun(suite)}
+        disabled={!!runningSuiteId}
+        className="flex items-center gap-1.5 text-xs px-3 py-1.5 bg-emerald-600/20 hover:bg-emerald-600/30 text-emerald-300 border border-emerald-600/30 rounded-lg transition-colors disabled:opacity-50 font-medium"
+      >
+        {runningSuiteId === suite.id
+          ? <div className="animate-spin w-3 h-3 border border-emerald-300 border-t-transparent rounded-full" />
+          : <span>▶</span>}
+        Run suite
+      </button>
+    </div>
+  );
+}
+
+/** Version history and recent batches of one suite. */
+function SuiteDetail({
+  appId,
+  suite,
+  moduleNames,
+}: {
+  appId: string;
+  suite: TestSuite;
+  moduleNames: Map<string, string>;
+}) {
+  const { data: versions = [], isLoading } = useSuiteVersions(suite.id);
+  const { data: batches = [] } = useBatchHistory(appId, 10, undefined, suite.id);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 px-5 py-4 bg-zinc-950/40 border-t border-zinc-800">
+      <div>
+        <h4 className="text-xs font-medium text-zinc-400 mb-2">Versions</h4>
+        {isLoading ? (
+          <div className="text-xs text-zinc-600">Loading…</div>
+        ) : (
+          <div className="space-y-1.5">
+            {versions.map((v) => (
+              <div key={v.version} className="flex items-baseline gap-2 text-xs">
+                <span className={`font-mono ${v.version === suite.version ? 'text-blue-300' : 'text-zinc-500'}`}>v{v.version}</span>
+                <span className="text-zinc-400 truncate flex-1">
+                  {v.kind === 'explicit'
+                    ? `${v.scenario_ids.length} pinned scenario${v.scenario_ids.length !== 1 ? 's' : ''}`
+                    : describeQuery(v.query, moduleNames)}
+                </span>
+                <span className="text-zinc-600 shrink-0">{new Date(v.created_at).toLocaleDateString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      <div>
+        <h4 className="text-xs font-medium text-zinc-400 mb-2">Recent batches</h4>
+        {batches.length === 0 ? (
+          <div className="text-xs text-zinc-600">Not run yet.</div>
+        ) : (
+          <div className="space-y-1.5">
+            {batches.map((b) => {
+              const rate = b.total > 0 ? Math.round((b.passed / b.total) * 100) : 0;
+              return (
+                <div key={b.batch_id} className="flex items-center gap-2 text-xs">
+                  <span className="text-zinc-500 w-28 shrink-0">
+                    {new Date(b.started_at).toLocaleString(undefined, {
+                      month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+                    })}
+                  </span>
+                  {b.suite_version != null && <span className="font-mono text-zinc-600">v{b.suite_version}</span>}
+                  <div className="flex-1 h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                    <div className="bg-green-500 h-full" style={{ width: `${rate}%` }} />
+                  </div>
+                  <span className={`tabular-nums w-9 text-right ${
+                    b.running > 0 ? 'text-blue-400' : rate === 100 ? 'text-green-400' : rate >= 50 ? 'text-amber-400' : 'text-red-400'
+                  }`}>
+                    {b.running > 0 ? '…' : `${rate}%`}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Saved test suites for one application: explicit scenario lists or dynamic queries
+ * (priority, tags, modules, smoke flag). Editing a definition creates a new version;
+ * runs record the suite and version so history and trends can be tracked per suite.
+ */
+export function SuitesTab({
+  workspaceId,
+  appId,
+  scenarios,
+  environments,
+  targetEnvId,
+  setTargetEnvId,
+  executionMode,
+  setExecutionMode,
+  onRunSuite,
+  runningSuiteId,
+  draftScenarioIds,
+  onDraftConsumed,
+}: {
+  workspaceId: string;
+  appId: string;
+  scenarios: Scenario[];
+  environments: Environment[];
+  targetEnvId: string;
+  setTargetEnvId: (id: string) => void;
+  executionMode: string;
+  setExecutionMode: (mode: string) => void;
+  onRunSuite: (suite: TestSuite) => void;
+  runningSuiteId: string | null;
+  /** Scenario selection handed over from the Scenarios tab ("Save as suite"). */
+  draftScenarioIds: string[] | null;
+  onDraftConsumed: () => void;
+}) {
+  const { data: suites = [], isLoading } = useSuites(appId);
+  const createSuite = useCreateSuite(appId);
+  const updateSuite = useUpdateSuite(appId);
+  const deleteSuite = useDeleteSuite(appId);
+  const perms = useWorkspacePermissions(workspaceId);
+  const toast = useAppToast();
+  const confirm = useAppConfirm();
+
+  // null = form closed; '' = creating; otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<FormState>(() => emptyForm());
+  const [tagInput, setTagInput] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!draftScenarioIds) return;
+    setForm(emptyForm(draftScenarioIds));
+    setEditingId('');
+    onDraftConsumed();
+  }, [draftScenarioIds]);
+
+  const modules = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const s of scenarios) if (s.module_id) byId.set(s.module_id, s.module_name || 'Unnamed module');
+    return byId;
+  }, [scenarios]);
+
+  const knownTags = useMemo(
+    () => [...new Set(scenarios.flatMap((s) => (s.tags ?? []).map((t) => t.toLowerCase())))].sort(),
+    [scenarios],
+  );
+
+  const preview = useMemo(() => resolveSuiteLocally(scenarios, form), [scenarios, form]);
+  const scenarioTitles = useMemo(() => new Map(scenarios.map((s) => [s.id, s.title])), [scenarios]);
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) =>
+    setForm((f) => ({ ...f, [key]: value }));
+  const updateQuery = <K extends keyof TestSuiteQuery>(key: K, value: TestSuiteQuery[K]) =>
+    setForm((f) => ({ ...f, query: { ...f.query, [key]: value } }));
+  const toggleIn = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter((x) => x !== item) : [...list, item]);
+
+  const addTag = (raw: string) => {
+    const tags = raw.split(',').map((t) => t.trim().toLowerCase()).filter(Boolean);
+    if (tags.length) updateQuery('tags', [...new Set([...form.query.tags, ...tags])]);
+    setTagInput('');
+  };
+
+  const openCreate = () => {
+    setForm(emptyForm());
+    setEditingId('');
+  };
+
+  const openEdit = (suite: TestSuite) => {
+    setForm({
+      name: suite.name,
+      description: suite.description ?? '',
+      kind: suite.kind,
+      scenario_ids: suite.scenario_ids,
+      query: suite.query ?? EMPTY_QUERY,
+    });
+    setEditingId(suite.id);
+  };
+
+  const handleSave = async () => {
+    const data: TestSuiteInput = {
+      name: form.name,
+      description: form.description,
+      kind: form.kind,
+      scenario_ids: form.kind === 'explicit' ? form.scenario_ids : [],
+      query: form.kind === 'query' ? form.query : null,
+    };
+    try {
+      if (editingId) {
+        const saved = await updateSuite.mutateAsync({ suiteId: editingId, data });
+        toast.success(`Saved "${saved.name}" (v${saved.version})`);
+      } else {
+        await createSuite.mutateAsync(data);
+      }
+      setEditingId(null);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to save suite');
+    }
+  };
+
+  const handleDelete = async (suite: TestSuite) => {
+    const ok = await confirm({
+      title: `Delete "${suite.name}"?`,
+      message: 'The suite and its version history are removed. Batches it already ran stay in history.',
+      confirmLabel: 'Delete Suite',
+      destructive: true,
+    });
+    if (!ok) return;
+    try {
+      await deleteSuite.mutateAsync(suite.id);
+      if (editingId === suite.id) setEditingId(null);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to delete suite');
+    }
+  };
+
+  const saving = createSuite.isPending || updateSuite.isPending;
+  const canSave = form.name.trim() && (form.kind === 'query' || form.scenario_ids.length > 0);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Test Suites</h1>
+          <p className="text-sm text-zinc-500 mt-0.5">
+            Named sets of scenarios — a fixed list, or a query that picks up new scenarios automatically.
+          </p>
+        </div>
+        {editingId === null && perms.canEdit && (
+          <button
+            onClick={openCreate}
+            disabled={scenarios.length === 0}
+            className="text-sm bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-lg transition-colors font-medium disabled:opacity-50"
+          >
+            + New Suite
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-5">
+        <EnvironmentPicker environments={environments} value={targetEnvId} onChange={setTargetEnvId} />
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-zinc-500">Run mode:</span>
+          <div className="flex gap-1 bg-zinc-900 border border-zinc-800 rounded-lg p-1">
+            {EXECUTION_MODES.map((m) => (
+              <button
+                key={m}
+                onClick={() => setExecutionMode(m)}
+                className={`px-3 py-1 text-xs rounded-md transition-colors ${
+                  executionMode === m ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'
+                }`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Add / edit form */}
+      {editingId !== null && (
+        <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-5 mb-6 space-y-3">
+          <h4 className="text-xs font-medium text-zinc-400">{editingId ? 'Edit suite' : 'New suite'}</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <input
+              value={form.name}
+              onChange={(e) => update('name', e.target.value)}
+              placeholder="Checkout critical path"
+              className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+            />
+            <input
+              value={form.description}
+              onChange={(e) => update('description', e.target.value)}
+              placeholder="Description (optional)"
+              className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+            />
+          </div>
+
+          <div className="flex gap-1 bg-zinc-950 border border-zinc-800 rounded-lg p-1 w-fit">
+            {([
+              { kind: 'explicit' as const, label: 'Fixed list' },
+              { kind: 'query' as const, label: 'Dynamic query' },
+            ]).map((opt) => (
+              <button
+                key={opt.kind}
+                onClick={() => update('kind', opt.kind)}
+                className={`px-3 py-1 text-xs rounded-md transition-colors ${
+                  form.kind === opt.kind ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+
+          {form.kind === 'explicit' ? (
+            <ScenarioPicker
+              scenarios={scenarios}
+              value={form.scenario_ids}
+              onChange={(ids) => update('scenario_ids', ids)}
+            />
+          ) : (
+            <div className="space-y-3 border border-zinc-800 rounded-lg p-3">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-xs text-zinc-500 w-16">Priority</span>
+                {PRIORITIES.map((p) => (
+                  <button
+                    key={p}
+                    onClick={() => updateQuery('priorities', toggleIn(form.query.priorities, p))}
+                    className={`px-2.5 py-1 text-[11px] rounded-md border transition-colors ${
+                      form.query.priorities.includes(p)
+                        ? 'bg-blue-600/20 border-blue-600/40 text-blue-300'
+                        : 'bg-zinc-900 border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                    }`}
+                  >
+                    {p}
+                  </button>
+                ))}
+                <label className="flex items-center gap-1.5 text-xs text-zinc-400 ml-3">
+                  <input
+                    type="checkbox"
+                    checked={form.query.smoke_only}
+                    onChange={(e) => updateQuery('smoke_only', e.target.checked)}
+                    className="accent-blue-500"
+                  />
+                  🔥 Smoke only
+                </label>
+              </div>
+              <div className="flex items-start gap-2 flex-wrap">
+                <span className="text-xs text-zinc-500 w-16 pt-1.5">Tags</span>
+                <div className="flex-1 space-y-1.5">
+                  <div className="flex items-center gap-1.5 flex-wrap">
+                    {form.query.tags.map((t) => (
+                      <button
+                        key={t}
+                        onClick={() => updateQuery('tags', form.query.tags.filter((x) => x !== t))}
+                        className="text-[11px] px-2 py-0.5 rounded bg-violet-500/15 text-violet-300 hover:bg-violet-500/25"
+                        title="Remove tag"
+                      >
+                        #{t} ×
+                      </button>
+                    ))}
+                    <input
+                      value={tagInput}
+                      onChange={(e) => setTagInput(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ',') { e.preventDefault(); addTag(tagInput); } }}
+                      onBlur={() => tagInput && addTag(tagInput)}
+                      list="suite-known-tags"
+                      placeholder="checkout"
+                      className="bg-zinc-800 border border-zinc-700 rounded-md px-2 py-1 text-xs text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500 w-32"
+                    />
+                    <datalist id="suite-known-tags">
+                      {knownTags.map((t) => <option key={t} value={t} />)}
+                    </datalist>
+                  </div>
+                  <p className="text-[11px] text-zinc-600">A scenario must carry every tag listed.</p>
+                </div>
+              </div>
+              {modules.size > 0 && (
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-xs text-zinc-500 w-16">Modules</span>
+                  {[...modules.entries()].map(([id, name]) => (
+                    <button
+                      key={id}
+                      onClick={() => updateQuery('module_ids', toggleIn(form.query.module_ids, id))}
+                      className={`px-2.5 py-1 text-[11px] rounded-md border transition-colors ${
+                        form.query.module_ids.includes(id)
+                          ? 'bg-blue-600/20 border-blue-600/40 text-blue-300'
+                          : 'bg-zinc-900 border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                      }`}
+                    >
+                      {name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="text-xs text-zinc-500">
+            Matches <span className="text-zinc-200 font-medium">{preview.length}</span> active scenario{preview.length !== 1 ? 's' : ''}
+            {preview.length > 0 && (
+              <span className="text-zinc-600">
+                {' '}— {preview.slice(0, 3).map((id) => scenarioTitles.get(id)).join(', ')}{preview.length > 3 ? ', …' : ''}
+              </span>
+            )}
+          </div>
+          {preview.length > 50 && (
+            <p className="text-xs text-amber-400">Only the first 50 scenarios run per batch.</p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving || !canSave}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving…' : editingId ? 'Save Suite' : 'Create Suite'}
+            </button>
+            <button
+              onClick={() => setEditingId(null)}
+              className="px-3 py-2 text-sm text-zinc-400 hover:text-zinc-200 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-20">
+          <div className="w-6 h-6 border-2 border-blue-500/40 border-t-blue-500 rounded-full animate-spin" />
+        </div>
+      ) : suites.length === 0 ? (
+        editingId === null && (
+          <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-10 text-center text-zinc-500 text-sm">
+            No suites yet. Save a selection from the Scenarios tab, or create a query suite such as
+            &quot;every CRITICAL scenario tagged checkout&quot;.
+          </div>
+        )
+      ) : (
+        <div className="flex flex-col gap-3">
+          {suites.map((suite) => {
+            const count = resolveSuiteLocally(scenarios, suite).length;
+            const expanded = expandedId === suite.id;
+            return (
+              <div key={suite.id} className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+                <div className="flex items-center gap-4 px-5 py-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium text-zinc-200 truncate">{suite.name}</span>
+                      <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium ${
+                        suite.kind === 'query' ? 'bg-violet-500/15 text-violet-300' : 'bg-zinc-700/60 text-zinc-300'
+                      }`}>
+                        {suite.kind === 'query' ? 'dynamic' : 'fixed'}
+                      </span>
+                      <span className="text-[10px] font-mono text-zinc-500">v{suite.version}</span>
+                    </div>
+                    <div className="text-xs text-zinc-500 mt-0.5 truncate">
+                      {count} scenario{count !== 1 ? 's' : ''}
+                      {suite.kind === 'query' && ` · ${describeQuery(suite.query, modules)}`}
+                      {suite.description && ` · ${suite.description}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : suite.id)}
+                      className="text-xs text-zinc-400 hover:text-zinc-200 px-2 py-1 rounded hover:bg-zinc-800 transition-colors"
+                    >
+                      {expanded ? 'Hide' : 'History'}
+                    </button>
+                    {perms.canEdit && (
+                      <button
+                        onClick={() => openEdit(suite)}
+                        className="text-xs text-zinc-400 hover:text-zinc-200 px-2 py-1 rounded hover:bg-zinc-800 transition-colors"
+                      >
+                        Edit
+                      </button>
+                    )}
+                    {perms.canDelete && (
+                      <button
+                        onClick={() => handleDelete(suite)}
+                        className="text-xs text-red-400/80 hover:text-red-300 px-2 py-1 rounded hover:bg-red-500/10 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onRunSuite(suite)}
+                      disabled={!!runningSuiteId || count === 0 || !perms.canRun}
+                      className="ml-1 flex items-center gap-1.5 text-xs px-3 py-1.5 bg-emerald-600/20 hover:bg-emerald-600/30 text-emerald-300 border border-emerald-600/30 rounded-lg transition-colors disabled:opacity-50 font-medium"
+                    >
+                      {runningSuiteId === suite.id
+                        ? <div className="animate-spin w-3 h-3 border border-emerald-300 border-t-transparent rounded-full" />
+                        : <span>▶</span>}
+                      Run
+                    </button>
+                  </div>
+                </div>
+                {expanded && <SuiteDetail appId={appId} suite={suite} moduleNames={modules} />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { ScenarioTrend, TrendPoint } from '@/lib/api';
+import { useSetScenarioQuarantine, useTrends } from '@/lib/queries';
+import { useAppToast } from '@/components/ui/app-notifications';
+
+const WINDOWS = [7, 30, 90];
+
+// A scenario counts as flaky once a fifth of its same-plan reruns flip outcome
+const FLAKY_THRESHOLD = 0.2;
+const MIN_COMPARABLE_PAIRS = 2;
+
+const chartConfig = {
+  application: { label: 'Application', color: '#3b82f6' },
+  scope: { label: 'Selected', color: '#10b981' },
+} satisfies ChartConfig;
+
+function formatDay(value: string) {
+  return new Date(`${value}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+function Delta({ value }: { value: number | null }) {
+  if (value === null) return <span className="text-zinc-600">—</span>;
+  const cls = value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-zinc-400';
+  return <span className={`tabular-nums ${cls}`}>{value > 0 ? '+' : ''}{value.toFixed(1)} pts</span>;
+}
+
+function OutcomeStrip({ trend }: { trend: ScenarioTrend }) {
+  return (
+    <div className="flex items-center gap-0.5">
+      {trend.runs_detail.map((r, i) => (
+        <span
+          key={i}
+          title={`${new Date(r.at).toLocaleString()} · ${r.passed ? 'passed' : 'failed'} · ${r.healed_steps} healed`}
+          className={`w-1.5 h-3 rounded-sm ${r.passed ? 'bg-green-500/80' : 'bg-red-500/80'}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+function HealedBars({ trend }: { trend: ScenarioTrend }) {
+  const max = Math.max(1, ...trend.runs_detail.map((r) => r.healed_steps));
+  return (
+    <div className="flex items-end gap-0.5 h-4">
+      {trend.runs_detail.map((r, i) => (
+        <span
+          key={i}
+          title={`${r.healed_steps} healed`}
+          className="w-1.5 bg-amber-400/70 rounded-sm"
+          style={{ height: `${Math.max(8, (r.healed_steps / max) * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Pass-rate and stability trends for one application: the pass-rate line (optionally
+ * against one module or scenario), regressing modules, flaky scenarios and scenarios
+ * whose healed-step count is climbing.
+ */
+export function TrendsPanel({ appId, environmentId }: { appId: string; environmentId?: string }) {
+  const [days, setDays] = useState(30);
+  // '' = application only; otherwise `module:<id>` or `scenario:<id>`
+  const [scope, setScope] = useState('');
+  const { data, isLoading } = useTrends(appId, days, environmentId);
+  const setQuarantine = useSetScenarioQuarantine(appId);
+  const toast = useAppToast();
+
+  const toggleQuarantine = (s: ScenarioTrend) => {
+    setQuarantine.mutate(
+      {
+        scenarioId: s.scenario_id,
+        quarantined: !s.is_quarantined,
+        reason: `Flaky: ${s.flips}/${s.comparable_pairs} outcome flips over the last ${days} days`,
+      },
+      {
+        onSuccess: () => toast.success(s.is_quarantined ? `Released "${s.title}"` : `Quarantined "${s.title}"`),
+        onError: (e) => toast.error(e instanceof Error ? e.message : 'Failed to update quarantine'),
+      },
+    );
+  };
+
+  const scopeSeries: TrendPoint[] | null = useMemo(() => {
+    if (!data || !scope) return null;
+    const [kind, id] = scope.split(':');
+    if (kind === 'module') return data.modules.find((m) => (m.module_id ?? '') === id)?.series ?? null;
+    return data.scenarios.find((s) => s.scenario_id === id)?.series ?? null;
+  }, [data, scope]);
+
+  const chartData = useMemo(() => {
+    if (!data) return [];
+    const byDate = new Map<string, { date: string; application?: number; scope?: number }>();
+    for (const p of data.application.series) byDate.set(p.date, { date: p.date, application: p.pass_rate });
+    for (const p of scopeSeries ?? []) byDate.set(p.date, { ...(byDate.get(p.date) ?? { date: p.date }), scope: p.pass_rate });
+    return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+  }, [data, scopeSeries]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="w-6 h-6 border-2 border-blue-500/40 border-t-blue-500 rounded-full animate-spin" />
+      </div>
+    );
+  }
+  if (!data || data.application.runs === 0) {
+    return (
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-10 text-center text-zinc-500">
+        No finished runs in the last {days} days.
+      </div>
+    );
+  }
+
+  const flaky = data.scenarios.filter((s) => s.comparable_pairs >= MIN_COMPARABLE_PAIRS && s.flakiness >= FLAKY_THRESHOLD);
+  const healingUp = data.scenarios
+    .filter((s) => s.healed_slope > 0)
+    .sort((a, b) => b.healed_slope - a.healed_slope);
+  const regressing = data.modules.filter((m) => m.delta !== null && m.delta < 0);
+
+  return (
+    <div className="space-y-4">
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          { label: 'Pass rate', value: data.application.pass_rate !== null ? `${data.application.pass_rate}%` : '—', sub: <Delta value={data.application.delta} /> },
+          { label: 'Finished runs', value: data.application.runs, sub: `last ${days} days` },
+          { label: 'Flaky scenarios', value: flaky.length, sub: `flip rate ≥ ${FLAKY_THRESHOLD * 100}%` },
+          { label: 'Healing trending up', value: healingUp.length, sub: 'more healed steps per run' },
+        ].map((card) => (
+          <div key={card.label} className="bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3">
+            <div className="text-xs text-zinc-500">{card.label}</div>
+            <div className="text-xl font-semibold text-white mt-1">{card.value}</div>
+            <div className="text-[11px] text-zinc-500 mt-0.5">{card.sub}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Pass-rate chart */}
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-5">
+        <div className="flex items-center justify-between gap-3 mb-4 flex-wrap">
+          <h3 className="text-sm font-semibold text-white">Pass rate over time</h3>
+          <div className="flex items-center gap-3">
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value)}
+              className="bg-zinc-900 border border-zinc-800 rounded-lg px-2.5 py-1.5 text-xs text-zinc-300 focus:outline-none max-w-[16rem]"
+            >
+              <option value="">Application only</option>
+              <optgroup label="Compare module">
+                {data.modules.map((m) => (
+                  <option key={m.module_id ?? ''} value={`module:${m.module_id ?? ''}`}>{m.module_name}</option>
+                ))}
+              </optgroup>
+              <optgroup label="Compare scenario">
+                {data.scenarios.map((s) => (
+                  <option key={s.scenario_id} value={`scenario:${s.scenario_id}`}>{s.title}</option>
+                ))}
+              </optgroup>
+            </select>
+            <div className="flex gap-1 bg-zinc-800 rounded-lg p-1">
+              {WINDOWS.map((d) => (
+                <button
+                  key={d}
+                  onClick={() => setDays(d)}
+                  className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+                    days === d ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'
+                  }`}
+                >
+                  {d}d
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+        <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+          <LineChart data={chartData} margin={{ top: 4, right: 8, left: -16, bottom: 4 }}>
+            <CartesianGrid vertical={false} stroke="#27272a" />
+            <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+            <YAxis domain={[0, 100]} unit="%" tickLine={false} axisLine={false} width={48} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(v) => formatDay(String(v))} />} />
+            <Line dataKey="application" type="monotone" stroke="var(--color-application)" strokeWidth={2} dot={false} connectNulls />
+            {scopeSeries && (
+              <Line dataKey="scope" type="monotone" stroke="var(--color-scope)" strokeWidth={2} dot={{ r: 2 }} connectNulls />
+            )}
+          </LineChart>
+        </ChartContainer>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Modules */}
+        <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+          <div className="px-5 py-3 border-b border-zinc-800">
+            <h3 className="text-sm font-semibold text-white">Modules</h3>
+            <p className="text-xs text-zinc-500 mt-0.5">
+              {regressing.length > 0 ? `${regressing.length} regressing — worst first` : 'No module is regressing'}
+            </p>
+          </div>
+          <div className="divide-y divide-zinc-800">
+            {data.modules.map((m) => (
+              <button
+                key={m.module_id ?? ''}
+                onClick={() => setScope(`module:${m.module_id ?? ''}`)}
+                className="w-full flex items-center gap-3 px-5 py-2.5 text-left text-xs hover:bg-zinc-800/40"
+              >
+                <span className="flex-1 text-zinc-300 truncate">{m.module_name}</span>
+                <span className="text-zinc-500 w-14 text-right">{m.runs} runs</span>
+                <span className="text-zinc-200 tabular-nums w-12 text-right">{m.pass_rate ?? '—'}%</span>
+                <span className="w-20 text-right"><Delta value={m.delta} /></span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Flaky scenarios */}
+        <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+          <div className="px-5 py-3 border-b border-zinc-800">
+            <h3 className="text-sm font-semibold text-white">Flaky scenarios</h3>
+            <p className="text-xs text-zinc-500 mt-0.5">
+              Outcome flips between reruns of the same plan version. Quarantine one to keep it running without
+              counting it toward pass rates.
+            </p>
+          </div>
+          {flaky.length === 0 ? (
+            <div className="px-5 py-6 text-xs text-zinc-500">No flaky scenarios in this window.</div>
+          ) : (
+            <div className="divide-y divide-zinc-800">
+              {flaky.map((s) => (
+                <div key={s.scenario_id} className="flex items-center gap-3 px-5 py-2.5 text-xs hover:bg-zinc-800/40">
+                  <button
+                    onClick={() => setScope(`scenario:${s.scenario_id}`)}
+                    className="flex-1 min-w-0 flex items-center gap-3 text-left"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="text-zinc-300 truncate">
+                        {s.is_quarantined && <span className="text-orange-300" title="Quarantined">🚧 </span>}
+                        {s.title}
+                      </div>
+                      <div className="text-zinc-600 truncate">{s.module_name} · {s.flips}/{s.comparable_pairs} flips · {s.pass_rate ?? '—'}% pass</div>
+                    </div>
+                    <OutcomeStrip trend={s} />
+                    <span className="text-amber-300 tabular-nums w-10 text-right">{Math.round(s.flakiness * 100)}%</span>
+                  </button>
+                  <button
+                    onClick={() => toggleQuarantine(s)}
+                    disabled={setQuarantine.isPending}
+                    className={`shrink-0 px-2 py-1 rounded-md border transition-colors disabled:opacity-50 ${
+                      s.is_quarantined
+                        ? 'border-zinc-700 text-zinc-400 hover:text-zinc-200'
+                        : 'border-orange-500/30 bg-orange-500/10 text-orange-300 hover:bg-orange-500/20'
+                    }`}
+                  >
+                    {s.is_quarantined ? 'Release' : 'Quarantine'}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Healing trend */}
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+        <div className="px-5 py-3 border-b border-zinc-800">
+          <h3 className="text-sm font-semibold text-white">Healed steps trending up</h3>
+          <p className="text-xs text-zinc-500 mt-0.5">
+            Locators these scenarios rely on keep drifting — accept healed locators or re-explore the module.
+          </p>
+        </div>
+        {healingUp.length === 0 ? (
+          <div className="px-5 py-6 text-xs text-zinc-500">No scenario needs more healing over time.</div>
+        ) : (
+          <div className="divide-y divide-zinc-800">
+            {healingUp.map((s) => (
+              <div key={s.scenario_id} className="flex items-center gap-3 px-5 py-2.5 text-xs">
+                <div className="flex-1 min-w-0">
+                  <div className="text-zinc-300 truncate">{s.title}</div>
+                  <div className="text-zinc-600 truncate">{s.module_name} · {s.runs} runs</div>
+                </div>
+                <HealedBars trend={s} />
+                <span className="text-zinc-400 w-24 text-right">last run: {s.healed_recent}</span>
+                <span className="text-amber-300 tabular-nums w-20 text-right">+{s.healed_slope.toFixed(2)}/run</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
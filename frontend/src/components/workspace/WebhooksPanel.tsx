@@ -0,0 +1,400 @@
+'use client';
+
+import { useState } from 'react';
+import type { Application, Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent } from '@/lib/api';
+import {
+  useCreateWebhook,
+  useDeleteWebhook,
+  useRedeliverWebhookDelivery,
+  useRotateWebhookSecret,
+  useTestWebhook,
+  useUpdateWebhook,
+  useWebhookDeliveries,
+  useWebhooks,
+} from '@/lib/queries';
+import { useAppConfirm, useAppToast } from '@/components/ui/app-notifications';
+
+const EVENTS: Array<{ event: WebhookEvent; label: string }> = [
+  { event: 'run_completed', label: 'Run completed' },
+  { event: 'run_failed', label: 'Run failed' },
+  { event: 'batch_completed', label: 'Batch completed' },
+  { event: 'batch_failed', label: 'Batch failed' },
+  { event: 'explore_completed', label: 'Explore completed' },
+  { event: 'human_decision_required', label: 'Explore waiting for input' },
+];
+
+const DEFAULT_EVENTS: WebhookEvent[] = ['batch_completed', 'batch_failed', 'human_decision_required'];
+
+const STATUS_STYLE: Record<WebhookDeliveryStatus, string> = {
+  delivered: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20',
+  pending: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+  failed: 'bg-red-500/10 text-red-400 border-red-500/20',
+};
+
+const STATUS_DOT: Record<WebhookDeliveryStatus, string> = {
+  delivered: 'bg-emerald-400',
+  pending: 'bg-amber-400',
+  failed: 'bg-red-400',
+};
+
+// Backend timestamps are naive UTC
+function parseUtc(value: string): Date {
+  return new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value}Z`);
+}
+
+function eventLabel(event: string) {
+  return EVENTS.find((e) => e.event === event)?.label ?? event;
+}
+
+/**
+ * Outbound webhooks for the application's workspace: HMAC-signed JSON on run, batch
+ * and explore lifecycle events, with a per-webhook delivery log and redelivery.
+ */
+export function WebhooksPanel({ app }: { app: Application }) {
+  const workspaceId = app.workspace_id;
+  const { data: hooks = [], isLoading, isError } = useWebhooks(workspaceId);
+  const createWebhook = useCreateWebhook(workspaceId);
+  const toast = useAppToast();
+
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(DEFAULT_EVENTS);
+  const [failuresOnly, setFailuresOnly] = useState(true);
+  const [secret, setSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [openLog, setOpenLog] = useState<string | null>(null);
+
+  const toggleEvent = (event: WebhookEvent) =>
+    setEvents((prev) => (prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]));
+
+  const handleCreate = async () => {
+    if (!name.trim() || !url.trim() || events.length === 0) return;
+    try {
+      const created = await createWebhook.mutateAsync({
+        name: name.trim(),
+        url: url.trim(),
+        events,
+        failures_only: failuresOnly,
+      });
+      setSecret({ name: created.name, secret: created.secret });
+      setAdding(false);
+      setName('');
+      setUrl('');
+      setEvents(DEFAULT_EVENTS);
+      setFailuresOnly(true);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to create webhook');
+    }
+  };
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text).then(
+      () => toast.success('Copied to clipboard'),
+      () => toast.error('Could not copy — select and copy manually'),
+    );
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+      <div className="px-5 py-4 border-b border-zinc-800 flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-semibold text-white">Webhooks</h3>
+          <p className="text-xs text-zinc-500 mt-0.5">
+            Notify chat or ticketing systems when runs, batches or explore sessions finish or need a human.
+            Payloads are signed with HMAC-SHA256 in the <code className="text-zinc-400">X-QAptain-Signature</code> header.
+          </p>
+        </div>
+        {!isError && !adding && (
+          <button
+            onClick={() => setAdding(true)}
+            className="shrink-0 text-xs px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium transition-colors"
+          >
+            + Add Webhook
+          </button>
+        )}
+      </div>
+
+      {secret && (
+        <div className="px-5 py-4 bg-emerald-500/5 border-b border-emerald-500/20 space-y-2">
+          <p className="text-xs text-emerald-300">
+            Signing secret for <span className="font-medium">{secret.name}</span> — copy it now, it won&apos;t be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate bg-zinc-950 border border-zinc-800 rounded px-2.5 py-1.5 text-xs text-zinc-200">
+              {secret.secret}
+            </code>
+            <button
+              onClick={() => copy(secret.secret)}
+              className="shrink-0 text-xs px-2.5 py-1.5 rounded border border-zinc-700 text-zinc-300 hover:text-white hover:border-zinc-500"
+            >
+              Copy
+            </button>
+          </div>
+          <p className="text-[11px] text-zinc-500">
+            Verify by computing HMAC-SHA256 of <code>{'<X-QAptain-Timestamp>.<raw body>'}</code> with this secret
+            and comparing it to the <code>sha256=</code> value.
+          </p>
+          <button onClick={() => setSecret(null)} className="text-xs text-zinc-500 hover:text-zinc-300">Done</button>
+        </div>
+      )}
+
+      {adding && (
+        <div className="px-5 py-4 border-b border-zinc-800 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name, e.g. #qa-alerts Slack"
+              className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+            />
+            <input
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://hooks.example.com/qaptain"
+              className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {EVENTS.map(({ event, label }) => (
+              <label
+                key={event}
+                className={`flex items-center gap-1.5 text-xs px-2.5 py-1 rounded-full border cursor-pointer transition-colors ${
+                  events.includes(event)
+                    ? 'border-blue-500/50 bg-blue-500/10 text-blue-300'
+                    : 'border-zinc-700 text-zinc-400 hover:border-zinc-500'
+                }`}
+              >
+                <input type="checkbox" className="hidden" checked={events.includes(event)} onChange={() => toggleEvent(event)} />
+                {label}
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-xs text-zinc-400">
+            <input type="checkbox" checked={failuresOnly} onChange={(e) => setFailuresOnly(e.target.checked)} />
+            Only failures — skip passing runs, clean batches and successful explores
+          </label>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleCreate}
+              disabled={!name.trim() || !url.trim() || events.length === 0 || createWebhook.isPending}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+            >
+              {createWebhook.isPending ? 'Creating…' : 'Create Webhook'}
+            </button>
+            <button onClick={() => setAdding(false)} className="px-3 py-2 text-sm text-zinc-400 hover:text-zinc-200">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="px-5 py-6 text-xs text-zinc-500">Loading webhooks…</div>
+      ) : isError ? (
+        <div className="px-5 py-6 text-xs text-zinc-500">Only workspace admins can manage webhooks.</div>
+      ) : hooks.length === 0 ? (
+        !adding && <div className="px-5 py-6 text-xs text-zinc-500">No webhooks yet.</div>
+      ) : (
+        <div className="divide-y divide-zinc-800">
+          {hooks.map((hook) => (
+            <WebhookRow
+              key={hook.id}
+              workspaceId={workspaceId}
+              hook={hook}
+              logOpen={openLog === hook.id}
+              onToggleLog={() => setOpenLog((cur) => (cur === hook.id ? null : hook.id))}
+              onSecret={(s) => setSecret({ name: hook.name, secret: s })}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function WebhookRow({
+  workspaceId,
+  hook,
+  logOpen,
+  onToggleLog,
+  onSecret,
+}: {
+  workspaceId: string;
+  hook: Webhook;
+  logOpen: boolean;
+  onToggleLog: () => void;
+  onSecret: (secret: string) => void;
+}) {
+  const updateWebhook = useUpdateWebhook(workspaceId);
+  const deleteWebhook = useDeleteWebhook(workspaceId);
+  const rotateSecret = useRotateWebhookSecret(workspaceId);
+  const testWebhook = useTestWebhook(workspaceId);
+  const toast = useAppToast();
+  const confirm = useAppConfirm();
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : failure);
+    }
+  };
+
+  const handleDelete = async () => {
+    const ok = await confirm({
+      title: `Delete "${hook.name}"?`,
+      message: 'The webhook and its delivery log are removed. Pending retries are dropped.',
+      confirmLabel: 'Delete Webhook',
+      destructive: true,
+    });
+    if (ok) await run(() => deleteWebhook.mutateAsync(hook.id), 'Failed to delete webhook');
+  };
+
+  const handleRotate = async () => {
+    const ok = await confirm({
+      title: `Rotate the secret of "${hook.name}"?`,
+      message: 'Deliveries are signed with the new secret immediately — update the receiver right away.',
+      confirmLabel: 'Rotate Secret',
+      destructive: true,
+    });
+    if (!ok) return;
+    await run(async () => onSecret((await rotateSecret.mutateAsync(hook.id)).secret), 'Failed to rotate secret');
+  };
+
+  const handleTest = () =>
+    run(async () => {
+      await testWebhook.mutateAsync(hook.id);
+      toast.success('Test ping queued');
+      if (!logOpen) onToggleLog();
+    }, 'Failed to send test ping');
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 px-5 py-3">
+        <span
+          className={`w-2 h-2 rounded-full shrink-0 ${hook.last_delivery_status ? STATUS_DOT[hook.last_delivery_status] : 'bg-zinc-600'}`}
+          title={hook.last_delivery_status ? `Last delivery ${hook.last_delivery_status}` : 'No deliveries yet'}
+        />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className={`text-sm truncate ${hook.is_active ? 'text-zinc-200' : 'text-zinc-500'}`}>{hook.name}</span>
+            {!hook.is_active && <span className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-500">Paused</span>}
+            {hook.failures_only && <span className="text-[10px] px-1.5 py-0.5 rounded bg-red-500/10 text-red-400">Failures only</span>}
+          </div>
+          <div className="text-xs text-zinc-500 truncate">
+            {hook.url} · {hook.events.map(eventLabel).join(', ')}
+          </div>
+        </div>
+        <div className="flex items-center gap-3 shrink-0 text-xs">
+          <button onClick={onToggleLog} className="text-zinc-400 hover:text-zinc-200">
+            {logOpen ? 'Hide log' : 'Deliveries'}
+          </button>
+          <button onClick={handleTest} disabled={testWebhook.isPending || !hook.is_active} className="text-zinc-400 hover:text-zinc-200 disabled:opacity-50">
+            Test
+          </button>
+          <button
+            onClick={() => run(() => updateWebhook.mutateAsync({ webhookId: hook.id, data: { is_active: !hook.is_active } }), 'Failed to update webhook')}
+            disabled={updateWebhook.isPending}
+            className="text-zinc-400 hover:text-zinc-200 disabled:opacity-50"
+          >
+            {hook.is_active ? 'Pause' : 'Resume'}
+          </button>
+          <button onClick={handleRotate} disabled={rotateSecret.isPending} className="text-zinc-400 hover:text-zinc-200 disabled:opacity-50">
+            Rotate secret
+          </button>
+          <button onClick={handleDelete} disabled={deleteWebhook.isPending} className="text-zinc-500 hover:text-red-400 disabled:opacity-50">
+            Delete
+          </button>
+        </div>
+      </div>
+      {logOpen && <DeliveryLog workspaceId={workspaceId} hook={hook} />}
+    </div>
+  );
+}
+
+function DeliveryLog({ workspaceId, hook }: { workspaceId: string; hook: Webhook }) {
+  const [status, setStatus] = useState<WebhookDeliveryStatus | undefined>(undefined);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const { data: deliveries = [], isLoading } = useWebhookDeliveries(workspaceId, hook.id, status);
+  const redeliver = useRedeliverWebhookDelivery(workspaceId);
+  const toast = useAppToast();
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    try {
+      await redeliver.mutateAsync({ webhookId: hook.id, deliveryId: delivery.id });
+      toast.success(hook.is_active ? 'Redelivery queued' : 'Redelivery queued — it is sent when the webhook is resumed');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to redeliver');
+    }
+  };
+
+  return (
+    <div className="mx-5 mb-4 rounded-lg border border-zinc-800 bg-zinc-950/50">
+      <div className="flex items-center gap-1 px-3 py-2 border-b border-zinc-800">
+        {([undefined, 'failed', 'pending', 'delivered'] as const).map((s) => (
+          <button
+            key={s ?? 'all'}
+            onClick={() => setStatus(s)}
+            className={`text-[11px] px-2 py-0.5 rounded capitalize ${status === s ? 'bg-zinc-800 text-zinc-200' : 'text-zinc-500 hover:text-zinc-300'}`}
+          >
+            {s ?? 'all'}
+          </button>
+        ))}
+      </div>
+      {isLoading ? (
+        <div className="px-3 py-4 text-xs text-zinc-500">Loading deliveries…</div>
+      ) : deliveries.length === 0 ? (
+        <div className="px-3 py-4 text-xs text-zinc-500">No deliveries{status ? ` with status ${status}` : ''}.</div>
+      ) : (
+        <div className="divide-y divide-zinc-800/70 max-h-96 overflow-y-auto">
+          {deliveries.map((d) => (
+            <div key={d.id}>
+              <button
+                onClick={() => setExpanded((cur) => (cur === d.id ? null : d.id))}
+                className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-zinc-900/60 transition-colors"
+              >
+                <span className={`text-[10px] px-1.5 py-0.5 rounded border capitalize shrink-0 ${STATUS_STYLE[d.status]}`}>{d.status}</span>
+                <span className="text-xs text-zinc-300 w-44 truncate shrink-0">{d.event === 'ping' ? 'Test ping' : eventLabel(d.event)}</span>
+                <span className="text-[11px] text-zinc-500 flex-1 min-w-0 truncate">
+                  {d.response_status ? `HTTP ${d.response_status}` : d.error ?? (d.status === 'pending' ? 'Queued' : '')}
+                  {d.duration_ms !== null && ` · ${d.duration_ms} ms`}
+                  {d.attempts > 1 && ` · ${d.attempts} attempts`}
+                  {d.status === 'pending' && d.attempts > 0 && d.next_attempt_at &&
+                    ` · retry ${parseUtc(d.next_attempt_at).toLocaleTimeString()}`}
+                  {d.redelivery_of && ' · redelivery'}
+                </span>
+                <span className="text-[11px] text-zinc-600 shrink-0">{parseUtc(d.created_at).toLocaleString()}</span>
+              </button>
+              {expanded === d.id && (
+                <div className="px-3 pb-3 space-y-2">
+                  {d.error && <p className="text-[11px] text-red-400 break-all">{d.error}</p>}
+                  <div>
+                    <div className="text-[10px] uppercase tracking-wide text-zinc-600 mb-1">Payload · id {d.event_id}</div>
+                    <pre className="text-[11px] text-zinc-400 bg-zinc-950 border border-zinc-800 rounded p-2 max-h-56 overflow-auto">
+                      {JSON.stringify(d.payload, null, 2)}
+                    </pre>
+                  </div>
+                  {d.response_body && (
+                    <div>
+                      <div className="text-[10px] uppercase tracking-wide text-zinc-600 mb-1">Response</div>
+                      <pre className="text-[11px] text-zinc-400 bg-zinc-950 border border-zinc-800 rounded p-2 max-h-32 overflow-auto whitespace-pre-wrap break-all">
+                        {d.response_body}
+                      </pre>
+                    </div>
+                  )}
+                  <button
+                    onClick={() => handleRedeliver(d)}
+                    disabled={redeliver.isPending}
+                    className="text-xs px-2.5 py-1 rounded border border-zinc-700 text-zinc-300 hover:text-white hover:border-zinc-500 disabled:opacity-50"
+                  >
+                    Redeliver
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import * as React from "react"
+import { getSocket } from "@/lib/websocket"
+import type { WsEventMap } from "@/lib/ws-events"
+
+export type BrowserFrame = WsEventMap["browser_frame"]
+
+function subscribeVisibility(onChange: () => void) {
+  document.addEventListener("visibilitychange", onChange)
+  return () => document.removeEventListener("visibilitychange", onChange)
+}
+
+/** Whether this tab is currently visible. Treated as visible on the server. */
+export function usePageVisible(): boolean {
+  return React.useSyncExternalStore(
+    subscribeVisibility,
+    () => document.visibilityState === "visible",
+    () => true
+  )
+}
+
+/**
+ * Latest live-browser frame of a run or explore session. The screencast topic is only
+ * held while the tab is visible, and the backend only captures while someone holds it,
+ * so a hidden tab stops the stream rather than just ignoring it.
+ */
+export function useBrowserStream(sourceId: string): { frame: BrowserFrame | null; paused: boolean } {
+  const visible = usePageVisible()
+  const [latest, setLatest] = React.useState<{ sourceId: string; frame: BrowserFrame } | null>(null)
+
+  React.useEffect(() => {
+    if (!visible) return
+    const socket = getSocket()
+    const topic = `screencast:${sourceId}`
+    socket.connect()
+    const release = socket.subscribe(topic)
+    const off = socket.on("browser_frame", (frame) => {
+      if (frame.topic === topic) setLatest({ sourceId, frame })
+    })
+    return () => {
+      off()
+      release()
+    }
+  }, [sourceId, visible])
+
+  return { frame: latest?.sourceId === sourceId ? latest.frame : null, paused: !visible }
+}
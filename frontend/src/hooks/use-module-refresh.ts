@@ -0,0 +1,128 @@
+import * as React from "react"
+import { explore } from "@/lib/api"
+import { getSocket } from "@/lib/websocket"
+
+export interface ModuleCounts {
+  pages: number
+  workflows: number
+}
+
+export interface ModuleRefresh {
+  sessionId: string
+  moduleId: string
+  status: "running" | "completed" | "failed" | "cancelled"
+  /** Latest explore log line while running; the failure reason afterwards. */
+  message: string | null
+  before?: ModuleCounts
+  after?: ModuleCounts
+}
+
+// One refresh per application at a time — the backend refuses a second exploration.
+// Module-level so the Overview, Scenarios and Knowledge Graph tabs all show the same one.
+const refreshes = new Map<string, ModuleRefresh>()
+const listeners = new Set<() => void>()
+let socketBound = false
+
+function update(appId: string, next: ModuleRefresh | null) {
+  if (next) refreshes.set(appId, next)
+  else refreshes.delete(appId)
+  listeners.forEach((l) => l())
+}
+
+function patchSession(sessionId: string, patch: Partial<ModuleRefresh>) {
+  for (const [appId, r] of refreshes) {
+    if (r.sessionId === sessionId && r.status === "running") update(appId, { ...r, ...patch })
+  }
+}
+
+function bindSocket() {
+  if (socketBound) return
+  socketBound = true
+  const socket = getSocket()
+  socket.connect()
+  socket.on("explore_log", (d) => patchSession(d.session_id, { message: d.message }))
+  socket.on("explore_completed", (d) =>
+    patchSession(d.session_id, {
+      status: "completed",
+      message: null,
+      before: d.module_counts?.before,
+      after: d.module_counts?.after,
+    })
+  )
+  socket.on("explore_failed", (d) => patchSession(d.session_id, { status: "failed", message: d.reason ?? null }))
+  socket.on("explore_cancelled", (d) => patchSession(d.session_id, { status: "cancelled", message: null }))
+  // Re-explorations queued by the drift policy show up like a refresh started by hand
+  socket.on("drift_policy_event", (d) => {
+    if (d.action !== "triggered" || !d.module_id || !d.explore_session_id) return
+    if (refreshes.get(d.application_id)?.status === "running") return
+    update(d.application_id, {
+      sessionId: d.explore_session_id,
+      moduleId: d.module_id,
+      status: "running",
+      message: "Queued by the drift policy",
+    })
+  })
+}
+
+function subscribe(onChange: () => void) {
+  bindSocket()
+  listeners.add(onChange)
+  return () => {
+    listeners.delete(onChange)
+  }
+}
+
+/** Whether an explore session is an inline module refresh rather than a full exploration. */
+export function isModuleRefreshSession(sessionId: string): boolean {
+  for (const r of refreshes.values()) if (r.sessionId === sessionId) return true
+  return false
+}
+
+/**
+ * Targeted re-exploration of single modules, with live progress from the explore
+ * log stream and the module's page/workflow counts before and after. A refresh that
+ * was already running when the page loaded is picked up from the active session.
+ */
+export function useModuleRefresh(appId: string | undefined) {
+  const refresh = React.useSyncExternalStore(
+    subscribe,
+    () => (appId ? refreshes.get(appId) ?? null : null),
+    () => null
+  )
+  const [starting, setStarting] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!appId || refreshes.has(appId)) return
+    let cancelled = false
+    explore.getActiveSession(appId)
+      .then((active) => {
+        const ids = active?.selected_module_ids ?? []
+        if (cancelled || !active || active.discover_only || ids.length !== 1 || refreshes.has(appId)) return
+        update(appId, { sessionId: active.id, moduleId: ids[0], status: "running", message: null })
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [appId])
+
+  const start = React.useCallback(
+    async (moduleId: string) => {
+      if (!appId) return
+      setStarting(true)
+      try {
+        const session = await explore.refreshModule(appId, moduleId)
+        update(appId, { sessionId: session.id, moduleId, status: "running", message: "Starting…" })
+      } finally {
+        setStarting(false)
+      }
+    },
+    [appId]
+  )
+
+  const dismiss = React.useCallback(() => {
+    if (appId && refreshes.get(appId)?.status !== "running") update(appId, null)
+  }, [appId])
+
+  return { refresh, starting, start, dismiss }
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+import { getSocket, type ConnectionState } from "@/lib/websocket"
+
+/**
+ * Live connection state of the shared QAptain socket.
+ * Renders as "connecting" on the server, where no socket exists.
+ */
+export function useSocketState(): ConnectionState {
+  return React.useSyncExternalStore(
+    (onChange) => getSocket().onStateChange(onChange),
+    () => getSocket().getState(),
+    () => "connecting" as const
+  )
+}
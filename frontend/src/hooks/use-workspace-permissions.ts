@@ -0,0 +1,41 @@
+import type { WorkspaceRole } from "@/lib/api"
+import { useWorkspace } from "@/lib/queries"
+
+const RANK: Record<WorkspaceRole, number> = { VIEWER: 0, MEMBER: 1, ADMIN: 2, OWNER: 3 }
+
+export interface WorkspacePermissions {
+  role: WorkspaceRole | null
+  /** Start runs, batches, explores and scans; cancel runs. */
+  canRun: boolean
+  /** Create applications; create and change suites, schedules, environments and datasets; accept healed locators; file and resolve defects. */
+  canEdit: boolean
+  /** Delete scenarios, suites, schedules, environments, datasets and applications. */
+  canDelete: boolean
+  /** Change application login and test-role credentials. */
+  canEditCredentials: boolean
+  /** Members, API tokens, webhooks and the defect tracker. */
+  canManage: boolean
+  isOwner: boolean
+}
+
+/**
+ * What the current user may do in a workspace, mirroring the backend's role checks
+ * (`get_workspace_access`'s `min_role`). The server stays authoritative — this only
+ * hides actions that would be rejected. Everyday actions stay enabled while the role
+ * loads so they don't flash disabled; admin and owner actions wait for it.
+ */
+export function useWorkspacePermissions(workspaceId: string | undefined): WorkspacePermissions {
+  const { data: workspace } = useWorkspace(workspaceId)
+  const role = workspace?.role ?? null
+  const rank = role ? RANK[role] : -1
+  const member = !workspace || rank >= RANK.MEMBER
+  return {
+    role,
+    canRun: member,
+    canEdit: member,
+    canDelete: member,
+    canEditCredentials: member,
+    canManage: rank >= RANK.ADMIN,
+    isOwner: rank >= RANK.OWNER,
+  }
+}
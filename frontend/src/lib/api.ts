@@ -3,6 +3,8 @@
  * Typed client for the FastAPI backend.
  */
 
+import { expireSession, getAccessToken, getFreshAccessToken, refreshAccessToken } from './auth-session';
+
 const BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api/v1';
 
 class ApiError extends Error {
@@ -15,11 +17,42 @@ class ApiError extends Error {
   }
 }
 
-async function request<T>(
-  path: string,
-  options: RequestInit & { params?: Record<string, string> } = {},
-): Promise<T> {
-  const token = typeof window !== 'undefined' ? localStorage.getItem('qaptain_token') : null;
+export interface RequestOptions extends RequestInit {
+  params?: Record<string, string>;
+  /** Abort after this many ms (default 30s). Surfaces as `ApiError(408)`. */
+  timeoutMs?: number;
+  /** Retries for idempotent GETs on network errors, 408/429 and 5xx (default 2). Ignored for other methods. */
+  retries?: number;
+  /** Resolve with the raw body as a Blob (file downloads) instead of parsed JSON. */
+  responseType?: 'json' | 'blob';
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+// Identical GETs issued while one is already in flight share its promise
+const inflight = new Map<string, Promise<unknown>>();
+
+function isRetryable(e: unknown): boolean {
+  if (e instanceof ApiError) return e.status === 0 || e.status === 408 || e.status === 429 || e.status >= 500;
+  return false;
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(t);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const method = (options.method || 'GET').toUpperCase();
+  // Login/signup/refresh answer 401 for bad credentials, not for an expired session
+  const authed = !path.startsWith('/auth/') || path === '/auth/me';
 
   let url = `${BASE_URL}${path}`;
   if (options.params) {
@@ -27,17 +60,83 @@ async function request<T>(
     url += `?${qs}`;
   }
 
+  if (method !== 'GET') return sendAuthed<T>(url, options, authed);
+
+  // Callers passing their own signal (e.g. react-query) manage their own lifetimes, so
+  // only share in-flight requests between signal-less callers
+  const key = options.signal ? null : `${getAccessToken() ?? ''} ${url}`;
+  if (key && inflight.has(key)) return inflight.get(key) as Promise<T>;
+
+  const attempt = async (): Promise<T> => {
+    const retries = options.retries ?? DEFAULT_GET_RETRIES;
+    for (let i = 0; ; i++) {
+      try {
+        return await sendAuthed<T>(url, options, authed);
+      } catch (e) {
+        if (i >= retries || !isRetryable(e) || options.signal?.aborted) throw e;
+        // Exponential backoff with jitter: ~0.5s, ~1s, ~2s…
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** i * (0.5 + Math.random()), options.signal);
+      }
+    }
+  };
+
+  const promise = attempt();
+  if (key) {
+    inflight.set(key, promise);
+    promise.finally(() => inflight.delete(key)).catch(() => {});
+  }
+  return promise;
+}
+
+/** `send` with the session's access token, refreshing once and retrying on a 401. */
+async function sendAuthed<T>(url: string, options: RequestOptions, authed: boolean): Promise<T> {
+  const token = authed ? await getFreshAccessToken() : getAccessToken();
+  try {
+    return await send<T>(url, options, token);
+  } catch (e) {
+    if (!authed || !(e instanceof ApiError) || e.status !== 401) throw e;
+    const fresh = token ? await refreshAccessToken(token).catch(() => { throw e; }) : null;
+    if (!fresh) {
+      expireSession();
+      throw e;
+    }
+    return send<T>(url, options, fresh);
+  }
+}
+
+async function send<T>(url: string, options: RequestOptions, token: string | null): Promise<T> {
+  const { params: _params, timeoutMs = DEFAULT_TIMEOUT_MS, retries: _retries, responseType = 'json', signal, ...init } = options;
+
   // Never set Content-Type for FormData — the browser must set it with the multipart boundary
-  const isFormData = options.body instanceof FormData;
-
-  const res = await fetch(url, {
-    ...options,
-    headers: {
-      ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
-      ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      ...options.headers,
-    },
-  });
+  const isFormData = init.body instanceof FormData;
+
+  // Merge the caller's signal with our timeout so either one cancels the fetch
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener('abort', onAbort, { once: true });
+  let timedOut = false;
+  const timer = setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs);
+
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      ...init,
+      signal: controller.signal,
+      headers: {
+        ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...init.headers,
+      },
+    });
+  } catch (e) {
+    if (timedOut) throw new ApiError(408, 'Request timed out');
+    if (signal?.aborted) throw e; // caller cancelled — let AbortError propagate untouched
+    throw new ApiError(0, 'Network error — could not reach the server');
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
 
   if (!res.ok) {
     const err = await res.json().catch(() => ({ detail: res.statusText }));
@@ -52,36 +151,40 @@ async function request<T>(
   }
 
   if (res.status === 204) return undefined as T;
+  if (responseType === 'blob') return res.blob() as Promise<T>;
   return res.json();
 }
 
+// Screenshots and videos are served by the backend's /artifacts static mount,
+// which lives at the API origin rather than under /api/v1.
+const ARTIFACTS_URL = `${BASE_URL.replace(/\/api\/v\d+\/?$/, '')}/artifacts`;
+
+/** Resolve a stored artifact path (e.g. `./artifacts/screenshots/x.png`) to a browser URL. */
+export function artifactUrl(path?: string | null): string | null {
+  if (!path) return null;
+  if (/^https?:\/\//.test(path)) return path;
+  const normalized = path.replace(/\\/g, '/');
+  const idx = normalized.lastIndexOf('artifacts/');
+  const relative = idx >= 0 ? normalized.slice(idx + 'artifacts/'.length) : normalized.replace(/^\.?\//, '');
+  return `${ARTIFACTS_URL}/${relative}`;
+}
+
 // ─── Auth ─────────────────────────────────────────────────────────────────────
 
+// Sign-in and sign-up go through the `/api/session` route handlers (lib/auth-session.ts)
 export const auth = {
-  signup: (data: { name: string; email: string; password: string }) =>
-    request<{ access_token: string; user: User }>('/auth/signup', {
-      method: 'POST',
-      body: JSON.stringify(data),
-    }),
-
-  login: (data: { email: string; password: string }) =>
-    request<{ access_token: string; user: User }>('/auth/login', {
-      method: 'POST',
-      body: JSON.stringify(data),
-    }),
-
   me: () => request<User>('/auth/me'),
 };
 
 // ─── Workspaces ───────────────────────────────────────────────────────────────
 
 export const workspaces = {
-  list: () => request<Workspace[]>('/workspaces'),
+  list: (signal?: AbortSignal) => request<Workspace[]>('/workspaces', { signal }),
 
   create: (data: { name: string }) =>
     request<Workspace>('/workspaces', { method: 'POST', body: JSON.stringify(data) }),
 
-  get: (workspaceId: string) => request<Workspace>(`/workspaces/${workspaceId}`),
+  get: (workspaceId: string, signal?: AbortSignal) => request<Workspace>(`/workspaces/${workspaceId}`, { signal }),
 
   update: (workspaceId: string, data: { name?: string; description?: string }) =>
     request<Workspace>(`/workspaces/${workspaceId}`, {
@@ -92,8 +195,8 @@ export const workspaces = {
   delete: (workspaceId: string) =>
     request<void>(`/workspaces/${workspaceId}`, { method: 'DELETE' }),
 
-  listApplications: (workspaceId: string) =>
-    request<Application[]>(`/workspaces/${workspaceId}/applications`),
+  listApplications: (workspaceId: string, signal?: AbortSignal) =>
+    request<Application[]>(`/workspaces/${workspaceId}/applications`, { signal }),
 
   createApplication: (workspaceId: string, data: CreateApplicationPayload) =>
     request<Application>(`/workspaces/${workspaceId}/applications`, {
@@ -103,6 +206,91 @@ export const workspaces = {
 
   deleteApplication: (workspaceId: string, appId: string) =>
     request<void>(`/workspaces/${workspaceId}/applications/${appId}`, { method: 'DELETE' }),
+
+  members: (workspaceId: string, signal?: AbortSignal) =>
+    request<WorkspaceMember[]>(`/workspaces/${workspaceId}/members`, { signal }),
+
+  /** Existing accounts join right away; other addresses get a pending invite, accepted by signing up through its link. */
+  inviteMember: (workspaceId: string, data: { email: string; role: WorkspaceRole }) =>
+    request<MemberInviteResult>(`/workspaces/${workspaceId}/members`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  updateMemberRole: (workspaceId: string, memberId: string, role: WorkspaceRole) =>
+    request<WorkspaceMember>(`/workspaces/${workspaceId}/members/${memberId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    }),
+
+  /** Also how members leave: remove your own membership. */
+  removeMember: (workspaceId: string, memberId: string) =>
+    request<void>(`/workspaces/${workspaceId}/members/${memberId}`, { method: 'DELETE' }),
+
+  invites: (workspaceId: string, signal?: AbortSignal) =>
+    request<WorkspaceInvite[]>(`/workspaces/${workspaceId}/invites`, { signal }),
+
+  revokeInvite: (workspaceId: string, inviteId: string) =>
+    request<void>(`/workspaces/${workspaceId}/invites/${inviteId}`, { method: 'DELETE' }),
+};
+
+// ─── API tokens ───────────────────────────────────────────────────────────────
+
+export const apiTokens = {
+  list: (workspaceId: string, signal?: AbortSignal) =>
+    request<ApiToken[]>(`/workspaces/${workspaceId}/api-tokens`, { signal }),
+
+  /** The plaintext `token` is only ever returned here. */
+  create: (workspaceId: string, data: { name: string; role: ApiTokenRole }) =>
+    request<ApiTokenCreated>(`/workspaces/${workspaceId}/api-tokens`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  revoke: (workspaceId: string, tokenId: string) =>
+    request<void>(`/workspaces/${workspaceId}/api-tokens/${tokenId}`, { method: 'DELETE' }),
+};
+
+// ─── Webhooks ─────────────────────────────────────────────────────────────────
+
+export const webhooks = {
+  list: (workspaceId: string, signal?: AbortSignal) =>
+    request<Webhook[]>(`/workspaces/${workspaceId}/webhooks`, { signal }),
+
+  /** The signing `secret` is only returned here and by `rotateSecret`. */
+  create: (workspaceId: string, data: WebhookInput) =>
+    request<WebhookWithSecret>(`/workspaces/${workspaceId}/webhooks`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  update: (workspaceId: string, webhookId: string, data: Partial<WebhookInput> & { is_active?: boolean }) =>
+    request<Webhook>(`/workspaces/${workspaceId}/webhooks/${webhookId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  delete: (workspaceId: string, webhookId: string) =>
+    request<void>(`/workspaces/${workspaceId}/webhooks/${webhookId}`, { method: 'DELETE' }),
+
+  rotateSecret: (workspaceId: string, webhookId: string) =>
+    request<WebhookWithSecret>(`/workspaces/${workspaceId}/webhooks/${webhookId}/rotate-secret`, { method: 'POST' }),
+
+  /** Queues a signed `ping` delivery. */
+  test: (workspaceId: string, webhookId: string) =>
+    request<WebhookDelivery>(`/workspaces/${workspaceId}/webhooks/${webhookId}/test`, { method: 'POST' }),
+
+  deliveries: (workspaceId: string, webhookId: string, status?: WebhookDeliveryStatus, signal?: AbortSignal) =>
+    request<WebhookDelivery[]>(`/workspaces/${workspaceId}/webhooks/${webhookId}/deliveries`, {
+      params: { limit: '50', ...(status ? { status } : {}) },
+      signal,
+    }),
+
+  redeliver: (workspaceId: string, webhookId: string, deliveryId: string) =>
+    request<WebhookDelivery>(
+      `/workspaces/${workspaceId}/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`,
+      { method: 'POST' },
+    ),
 };
 
 // ─── Applications ─────────────────────────────────────────────────────────────
@@ -146,9 +334,25 @@ export interface RbacScanResult {
 export const applications = {
   get: (id: string) => request<Application>(`/applications/${id}`),
 
-  listEnvironments: (id: string) => request<Environment[]>(`/applications/${id}/environments`),
+  listEnvironments: (id: string, signal?: AbortSignal) =>
+    request<Environment[]>(`/applications/${id}/environments`, { signal }),
+
+  createEnvironment: (appId: string, data: EnvironmentInput) =>
+    request<Environment>(`/applications/${appId}/environments`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  updateEnvironment: (appId: string, envId: string, data: Partial<EnvironmentInput>) =>
+    request<Environment>(`/applications/${appId}/environments/${envId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  deleteEnvironment: (appId: string, envId: string) =>
+    request<void>(`/applications/${appId}/environments/${envId}`, { method: 'DELETE' }),
 
-  listModules: (id: string) => request<Module[]>(`/applications/${id}/modules`),
+  listModules: (id: string, signal?: AbortSignal) => request<Module[]>(`/applications/${id}/modules`, { signal }),
 
   listRoleCredentials: (id: string) =>
     request<RoleCredential[]>(`/applications/${id}/role-credentials`),
@@ -176,6 +380,15 @@ export const applications = {
       method: 'POST',
     }),
 
+  getSettings: (appId: string) =>
+    request<{ description: string; username: string; has_password: boolean }>(`/applications/${appId}/settings`),
+
+  updateSettings: (appId: string, data: { description?: string; username?: string; password?: string }) =>
+    request<{ status: string }>(`/applications/${appId}/settings`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
   getLatestRbacScan: (appId: string) =>
     request<RbacScanResult | null>(`/applications/${appId}/rbac-scan/latest`),
 };
@@ -206,8 +419,25 @@ export const explore = {
       body: JSON.stringify(data),
     }),
 
-  getKnowledge: (applicationId: string) =>
-    request<KnowledgeGraph | null>(`/explore/application/${applicationId}/knowledge`),
+  getKnowledge: (applicationId: string, signal?: AbortSignal) =>
+    request<KnowledgeGraph | null>(`/explore/application/${applicationId}/knowledge`, { signal }),
+
+  listKnowledgeVersions: (applicationId: string, signal?: AbortSignal) =>
+    request<KgVersion[]>(`/explore/application/${applicationId}/knowledge/versions`, { signal }),
+
+  /** Omitted versions default to the latest (`target`) and the one before it (`base`). */
+  diffKnowledgeVersions: (applicationId: string, versions: { base?: number; target?: number }, signal?: AbortSignal) =>
+    request<KgVersionDiff>(`/explore/application/${applicationId}/knowledge/diff`, {
+      params: {
+        ...(versions.base != null ? { base: String(versions.base) } : {}),
+        ...(versions.target != null ? { target: String(versions.target) } : {}),
+      },
+      signal,
+    }),
+
+  /** Re-explores one module in a new scoped session; 409 while another exploration is running. */
+  refreshModule: (applicationId: string, moduleId: string) =>
+    request<ExploreSession>(`/explore/application/${applicationId}/refresh-module/${moduleId}`, { method: 'POST' }),
 
   getActiveSession: (applicationId: string) =>
     request<ExploreSession | null>(`/explore/application/${applicationId}/active`),
@@ -225,8 +455,8 @@ export const explore = {
 // ─── Scenarios ────────────────────────────────────────────────────────────────
 
 export const scenarios = {
-  list: (applicationId: string) =>
-    request<Scenario[]>('/scenarios', { params: { application_id: applicationId } }),
+  list: (applicationId: string, signal?: AbortSignal) =>
+    request<Scenario[]>('/scenarios', { params: { application_id: applicationId }, signal }),
 
   create: (data: CreateScenarioPayload) =>
     request<Scenario>('/scenarios', { method: 'POST', body: JSON.stringify(data) }),
@@ -243,8 +473,8 @@ export const scenarios = {
       body: JSON.stringify(data),
     }),
 
-  listRuns: (scenarioId: string) =>
-    request<ExecutionRun[]>(`/scenarios/${scenarioId}/runs`),
+  listRuns: (scenarioId: string, signal?: AbortSignal) =>
+    request<ExecutionRun[]>(`/scenarios/${scenarioId}/runs`, { signal }),
 
   importExcel: (applicationId: string, file: File) => {
     const form = new FormData();
@@ -289,6 +519,15 @@ export const scenarios = {
   delete: (scenarioId: string) =>
     request<void>(`/scenarios/${scenarioId}`, { method: 'DELETE' }),
 
+  quarantine: (scenarioId: string, reason?: string) =>
+    request<Scenario>(`/scenarios/${scenarioId}/quarantine`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    }),
+
+  release: (scenarioId: string) =>
+    request<Scenario>(`/scenarios/${scenarioId}/quarantine`, { method: 'DELETE' }),
+
   aiCopilot: (data: { description: string; application_id: string; output_type: 'scenarios' | 'user_stories' }) =>
     request<{ output_type: string; items: AICopilotItem[]; application_id: string; context_used: boolean; matched_module: string | null }>(
       '/scenarios/ai-copilot/generate',
@@ -308,9 +547,16 @@ export const scenarios = {
 // ─── Executions ───────────────────────────────────────────────────────────────
 
 export const executions = {
-  get: (runId: string) => request<ExecutionRun>(`/executions/${runId}`),
+  get: (runId: string, signal?: AbortSignal) => request<ExecutionRun>(`/executions/${runId}`, { signal }),
+
+  getSteps: (runId: string, signal?: AbortSignal) =>
+    request<ExecutionStep[]>(`/executions/${runId}/steps`, { signal }),
 
-  getSteps: (runId: string) => request<ExecutionStep[]>(`/executions/${runId}/steps`),
+  acceptHealedLocator: (runId: string, stepId: string, attemptIndex?: number) =>
+    request<ExecutionStep>(`/executions/${runId}/steps/${stepId}/accept-healing`, {
+      method: 'POST',
+      body: JSON.stringify({ attempt_index: attemptIndex ?? null }),
+    }),
 
   getLogs: (runId: string, sinceId?: string) =>
     request<ExecutionLog[]>(`/executions/${runId}/logs`, {
@@ -323,9 +569,21 @@ export const executions = {
   cancel: (runId: string) =>
     request<{ status: string }>(`/executions/${runId}/cancel`, { method: 'POST' }),
 
-  batchHistory: (applicationId: string, limit = 30) =>
+  batchHistory: (
+    applicationId: string,
+    limit = 30,
+    environmentId?: string,
+    signal?: AbortSignal,
+    suiteId?: string,
+  ) =>
     request<BatchHistory[]>(`/executions/batch-history`, {
-      params: { application_id: applicationId, limit: String(limit) },
+      params: {
+        application_id: applicationId,
+        limit: String(limit),
+        ...(environmentId ? { environment_id: environmentId } : {}),
+        ...(suiteId ? { suite_id: suiteId } : {}),
+      },
+      signal,
     }),
 
   getBatch: (batchId: string) =>
@@ -333,36 +591,226 @@ export const executions = {
       `/executions/batch/${batchId}`,
     ),
 
-  getBatchSummary: (batchId: string) =>
-    request<BatchRunSummary>(`/executions/batch/${batchId}/summary`),
+  getBatchSummary: (batchId: string, signal?: AbortSignal) =>
+    request<BatchRunSummary>(`/executions/batch/${batchId}/summary`, { signal }),
+
+  /** JUnit XML, standalone HTML (screenshots embedded) or `BatchExport` JSON, as a file. */
+  exportBatch: (batchId: string, format: BatchExportFormat) =>
+    request<Blob>(`/executions/batch/${batchId}/export`, {
+      params: { format },
+      responseType: 'blob',
+      // The HTML report inlines every screenshot of the batch
+      timeoutMs: 120_000,
+    }),
+};
+
+// ─── Schedules ────────────────────────────────────────────────────────────────
+
+export const schedules = {
+  list: (applicationId: string, signal?: AbortSignal) =>
+    request<BatchSchedule[]>('/schedules', { params: { application_id: applicationId }, signal }),
+
+  create: (data: BatchScheduleInput & { application_id: string }) =>
+    request<BatchSchedule>('/schedules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  update: (scheduleId: string, data: Partial<BatchScheduleInput> & { is_paused?: boolean }) =>
+    request<BatchSchedule>(`/schedules/${scheduleId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  runNow: (scheduleId: string) =>
+    request<BatchSchedule>(`/schedules/${scheduleId}/run`, { method: 'POST' }),
+
+  delete: (scheduleId: string) =>
+    request<void>(`/schedules/${scheduleId}`, { method: 'DELETE' }),
+};
+
+// ─── Suites ───────────────────────────────────────────────────────────────────
+
+export const suites = {
+  list: (applicationId: string, signal?: AbortSignal) =>
+    request<TestSuite[]>('/suites', { params: { application_id: applicationId }, signal }),
+
+  get: (suiteId: string, signal?: AbortSignal) => request<TestSuite>(`/suites/${suiteId}`, { signal }),
+
+  create: (data: TestSuiteInput & { application_id: string }) =>
+    request<TestSuite>('/suites', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  update: (suiteId: string, data: Partial<TestSuiteInput>) =>
+    request<TestSuite>(`/suites/${suiteId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  versions: (suiteId: string, signal?: AbortSignal) =>
+    request<TestSuiteVersion[]>(`/suites/${suiteId}/versions`, { signal }),
+
+  /** Scenario ids the suite resolves to right now (query suites are evaluated server-side). */
+  resolve: (suiteId: string, signal?: AbortSignal) =>
+    request<string[]>(`/suites/${suiteId}/scenarios`, { signal }),
+
+  run: (suiteId: string, data: { environment_id: string; execution_mode: string }) =>
+    request<{ runs: BatchRun[]; total: number; batch_id?: string }>(`/suites/${suiteId}/run`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  delete: (suiteId: string) =>
+    request<void>(`/suites/${suiteId}`, { method: 'DELETE' }),
+};
+
+/**
+ * Client-side preview of a query suite. Mirrors `_matches` in
+ * backend/app/services/suite_service.py — the server stays authoritative at run time.
+ */
+export function suiteMatches(scenario: Scenario, query: TestSuiteQuery): boolean {
+  if (!scenario.is_active) return false;
+  if (query.priorities.length && !query.priorities.includes(scenario.priority ?? 'MEDIUM')) return false;
+  if (query.module_ids.length && !query.module_ids.includes(scenario.module_id ?? '')) return false;
+  if (query.smoke_only && !scenario.is_smoke) return false;
+  const tags = new Set((scenario.tags ?? []).map((t) => t.toLowerCase()));
+  return query.tags.every((t) => tags.has(t.toLowerCase()));
+}
+
+// ─── CI ───────────────────────────────────────────────────────────────────────
+
+/** Headless trigger/poll pair used by pipelines and the `qaptain` CLI (cli/). */
+export const ci = {
+  trigger: (data: CiTriggerInput) =>
+    request<CiTriggerResult>('/ci/trigger', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  batchStatus: (batchId: string, signal?: AbortSignal) =>
+    request<CiBatchStatus>(`/ci/batches/${batchId}`, { signal }),
+};
+
+// ─── Defects ──────────────────────────────────────────────────────────────────
+
+/** Filing failed runs with the workspace's issue tracker; see backend/app/defects. */
+export const defects = {
+  trackerKinds: (signal?: AbortSignal) => request<DefectTrackerKind[]>('/defects/trackers/kinds', { signal }),
+
+  /** `null` when the workspace has no tracker configured. */
+  getTracker: (workspaceId: string, signal?: AbortSignal) =>
+    request<DefectTracker | null>(`/defects/trackers/${workspaceId}`, { signal }),
+
+  saveTracker: (workspaceId: string, data: DefectTrackerInput) =>
+    request<DefectTracker>(`/defects/trackers/${workspaceId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+
+  deleteTracker: (workspaceId: string) =>
+    request<void>(`/defects/trackers/${workspaceId}`, { method: 'DELETE' }),
+
+  forRun: (runId: string, signal?: AbortSignal) => request<RunDefect>(`/defects/runs/${runId}`, { signal }),
+
+  draft: (runId: string, signal?: AbortSignal) => request<DefectDraft>(`/defects/runs/${runId}/draft`, { signal }),
+
+  /** Files the run, or attaches it to the scenario's open defect (`created: false`). */
+  file: (runId: string, data: { title?: string; description?: string }) =>
+    request<DefectFileResult>(`/defects/runs/${runId}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  forScenario: (scenarioId: string, signal?: AbortSignal) =>
+    request<DefectLink[]>(`/defects/scenarios/${scenarioId}`, { signal }),
+
+  setStatus: (defectId: string, status: DefectStatus) =>
+    request<DefectLink>(`/defects/${defectId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status }),
+    }),
+};
+
+// ─── Audit ────────────────────────────────────────────────────────────────────
+
+/** Query params shared by the audit list and its CSV export. */
+function auditParams(filters: AuditFilters): Record<string, string> {
+  return {
+    ...(filters.actor_id ? { actor_id: filters.actor_id } : {}),
+    ...(filters.action ? { action: filters.action } : {}),
+    ...(filters.since ? { since: filters.since } : {}),
+    ...(filters.until ? { until: filters.until } : {}),
+  };
+}
+
+/** The workspace's append-only audit trail (admins and owners). */
+export const audit = {
+  list: (workspaceId: string, filters: AuditFilters, page: { limit: number; offset: number }, signal?: AbortSignal) =>
+    request<AuditEventPage>(`/audit/${workspaceId}`, {
+      params: { ...auditParams(filters), limit: String(page.limit), offset: String(page.offset) },
+      signal,
+    }),
+
+  facets: (workspaceId: string, signal?: AbortSignal) =>
+    request<AuditFacets>(`/audit/${workspaceId}/facets`, { signal }),
+
+  exportCsv: (workspaceId: string, filters: AuditFilters) =>
+    request<Blob>(`/audit/${workspaceId}/export`, {
+      params: auditParams(filters),
+      responseType: 'blob',
+      timeoutMs: 120_000,
+    }),
 };
 
 // ─── Reports ──────────────────────────────────────────────────────────────────
 
 export const reports = {
-  listForApplication: (applicationId: string, limit = 20) =>
+  listForApplication: (applicationId: string, limit = 20, environmentId?: string, signal?: AbortSignal) =>
     request<ReportSummary[]>(`/reports/applications/${applicationId}`, {
-      params: { limit: String(limit) },
+      params: { limit: String(limit), ...(environmentId ? { environment_id: environmentId } : {}) },
+      signal,
     }),
 
   get: (reportId: string) => request<ExecutionReport>(`/reports/${reportId}`),
+
+  trends: (applicationId: string, days = 30, environmentId?: string, signal?: AbortSignal) =>
+    request<TrendsReport>(`/reports/applications/${applicationId}/trends`, {
+      params: { days: String(days), ...(environmentId ? { environment_id: environmentId } : {}) },
+      signal,
+    }),
 };
 
 // ─── Knowledge ────────────────────────────────────────────────────────────────
 
 export const knowledge = {
-  getModules: (applicationId: string) =>
-    request<Module[]>(`/knowledge/applications/${applicationId}/modules`),
+  getModules: (applicationId: string, signal?: AbortSignal) =>
+    request<Module[]>(`/knowledge/applications/${applicationId}/modules`, { signal }),
+
+  getPages: (moduleId: string, signal?: AbortSignal) =>
+    request<Page[]>(`/knowledge/modules/${moduleId}/pages`, { signal }),
 
-  getPages: (moduleId: string) => request<Page[]>(`/knowledge/modules/${moduleId}/pages`),
+  getWorkflows: (moduleId: string, signal?: AbortSignal) =>
+    request<Workflow[]>(`/knowledge/modules/${moduleId}/workflows`, { signal }),
 
-  getWorkflows: (moduleId: string) => request<Workflow[]>(`/knowledge/modules/${moduleId}/workflows`),
+  getCoverage: (applicationId: string, signal?: AbortSignal) =>
+    request<KgCoverageReport>(`/knowledge/applications/${applicationId}/coverage`, { signal }),
 
-  getCoverage: (applicationId: string) =>
-    request<KgCoverageReport>(`/knowledge/applications/${applicationId}/coverage`),
+  getDrift: (applicationId: string, signal?: AbortSignal) =>
+    request<KgDriftReport>(`/knowledge/applications/${applicationId}/drift`, { signal }),
+
+  getDriftPolicy: (applicationId: string, signal?: AbortSignal) =>
+    request<DriftPolicy>(`/knowledge/applications/${applicationId}/drift-policy`, { signal }),
+
+  saveDriftPolicy: (applicationId: string, data: DriftPolicyInput) =>
+    request<DriftPolicy>(`/knowledge/applications/${applicationId}/drift-policy`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
 
-  getDrift: (applicationId: string) =>
-    request<KgDriftReport>(`/knowledge/applications/${applicationId}/drift`),
+  listDriftPolicyEvents: (applicationId: string, signal?: AbortSignal) =>
+    request<DriftPolicyEvent[]>(`/knowledge/applications/${applicationId}/drift-policy/events`, { signal }),
 };
 
 // ─── Types ────────────────────────────────────────────────────────────────────
@@ -381,10 +829,38 @@ export interface Workspace {
   description?: string;
   created_at: string;
   member_count: number;
+  /** The current user's role in this workspace. */
+  role?: WorkspaceRole | null;
   application_count?: number;
   readiness?: number;
 }
 
+export type WorkspaceRole = 'OWNER' | 'ADMIN' | 'MEMBER' | 'VIEWER';
+
+export interface WorkspaceMember {
+  id: string;
+  user_id: string;
+  email: string;
+  name: string;
+  role: WorkspaceRole;
+  joined_at: string | null;
+  is_self: boolean;
+}
+
+export interface WorkspaceInvite {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  created_at: string;
+  /** Sign-up link that accepts the invite; only the holder can join with it. */
+  invite_url: string | null;
+}
+
+export interface MemberInviteResult {
+  member: WorkspaceMember | null;
+  invite: WorkspaceInvite | null;
+}
+
 export interface Application {
   id: string;
   workspace_id: string;
@@ -398,15 +874,24 @@ export interface Application {
   modules_count: number;
 }
 
+export type EnvironmentType = 'development' | 'staging' | 'production' | 'custom';
+
 export interface Environment {
   id: string;
   application_id: string;
   name: string;
-  env_type: string;
+  env_type: EnvironmentType;
   base_url: string;
   is_default: boolean;
 }
 
+export interface EnvironmentInput {
+  name: string;
+  env_type: EnvironmentType;
+  base_url: string;
+  is_default?: boolean;
+}
+
 export interface Module {
   id: string;
   name: string;
@@ -426,6 +911,7 @@ export interface Page {
   semantic_map: Record<string, unknown>;
   forms: unknown[];
   tables: unknown[];
+  dynamic_behaviors?: unknown[];
 }
 
 export interface Workflow {
@@ -434,6 +920,8 @@ export interface Workflow {
   description?: string;
   workflow_type: string;
   stages: unknown[];
+  entry_point?: Record<string, unknown>;
+  success_indicators?: unknown[];
 }
 
 export type ExploreMode = 'FULL' | 'SMART' | 'SKIP';
@@ -449,6 +937,8 @@ export interface ExploreSession {
   pages_discovered: number;
   modules_discovered: number;
   workflows_discovered: number;
+  /** Set for sessions scoped to chosen modules, e.g. a single-module refresh. */
+  selected_module_ids?: string[] | null;
   summary: Record<string, unknown>;
   created_at: string;
 }
@@ -456,7 +946,7 @@ export interface ExploreSession {
 export interface ExploreLog {
   id: string;
   timestamp: string;
-  level: 'INFO' | 'SUCCESS' | 'WARNING' | 'MILESTONE';
+  level: 'INFO' | 'SUCCESS' | 'WARNING' | 'ERROR' | 'MILESTONE';
   category?: string;
   message: string;
   metadata: Record<string, unknown>;
@@ -466,7 +956,7 @@ export interface HumanDecision {
   id: string;
   question: string;
   context?: string;
-  options: Array<{ label: string; value: string; description?: string }>;
+  options: Array<{ label: string; value: string; description?: string; type?: string; placeholder?: string }>;
   selected_option?: Record<string, unknown>;
   resolved_at?: string;
   is_saved_as_preference: boolean;
@@ -479,10 +969,112 @@ export interface KnowledgeGraph {
   modules_count: number;
   pages_count: number;
   workflows_count: number;
-  graph_data: Record<string, unknown>;
+  graph_data: KgGraphData;
+  created_at: string;
+}
+
+/** The serialized graph an exploration stores; see `_build_graph_data` in the explore engine. */
+export interface KgGraphData {
+  nodes?: KgGraphNode[];
+  edges?: KgGraphEdge[];
+  summary?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface KgGraphNode {
+  id: string;
+  type: 'application' | 'module' | 'page' | 'workflow';
+  label: string;
+  url?: string;
+  url_pattern?: string;
+  description?: string;
+  page_type?: string;
+  forms_count?: number;
+  tables_count?: number;
+  related_pages?: unknown[];
+  breadcrumbs?: unknown[];
+  form_fields?: Array<{ form: string; entity: string; field: string; type: string; required: boolean; validation: string }>;
+  table_capabilities?: Array<{
+    name: string; entity: string; row_actions: string[]; bulk_actions: string[];
+    has_search: boolean; has_filter: boolean; has_pagination: boolean; pagination_type: string;
+  }>;
+  workflow_type?: string;
+  entity?: string;
+  stages_count?: number;
+  [key: string]: unknown;
+}
+
+export interface KgGraphEdge {
+  from: string;
+  to: string;
+  type: 'has_module' | 'has_page' | 'has_workflow' | string;
+}
+
+/** A KG version without its graph, for the version history. */
+export interface KgVersion {
+  id: string;
+  version: number;
+  explore_session_id?: string | null;
+  modules_count: number;
+  pages_count: number;
+  workflows_count: number;
   created_at: string;
 }
 
+interface KgChangeBase {
+  module_id: string;
+  module_name: string;
+  /** Active scenarios in the changed module — their plans may need a second look. */
+  scenario_ids: string[];
+}
+
+export interface KgModuleChange extends KgChangeBase {
+  url_pattern: string;
+}
+
+export interface KgPageChange extends KgChangeBase {
+  title: string;
+  url: string;
+  page_type: string;
+}
+
+export interface KgFormChange extends KgPageChange {
+  form: string;
+  entity: string;
+  change: 'added' | 'removed' | 'modified';
+  fields_added: string[];
+  fields_removed: string[];
+  fields_changed: Array<{
+    field: string;
+    before: { type?: string; required: boolean };
+    after: { type?: string; required: boolean };
+  }>;
+}
+
+export interface KgWorkflowChange extends KgChangeBase {
+  name: string;
+  workflow_type: string;
+  stages_before?: string[];
+  stages_after?: string[];
+}
+
+export interface KgVersionDiff {
+  base: KgVersion;
+  target: KgVersion;
+  changes: {
+    modules_added: KgModuleChange[];
+    modules_removed: KgModuleChange[];
+    pages_added: KgPageChange[];
+    pages_removed: KgPageChange[];
+    forms_changed: KgFormChange[];
+    workflows_added: KgWorkflowChange[];
+    workflows_removed: KgWorkflowChange[];
+    workflows_changed: KgWorkflowChange[];
+  };
+  total_changes: number;
+  affected_scenarios: Array<Pick<Scenario, 'id' | 'title' | 'priority' | 'module_id'>>;
+}
+
 export interface Scenario {
   id: string;
   application_id: string;
@@ -501,6 +1093,13 @@ export interface Scenario {
   kg_workflow_types?: string[];
   last_run_status?: 'COMPLETED' | 'FAILED' | 'CANCELLED' | 'RUNNING' | string;
   last_run_at?: string;
+  /** Quarantined scenarios still run, but their results don't count toward pass rates. */
+  is_quarantined?: boolean;
+  quarantined_at?: string | null;
+  quarantine_reason?: string | null;
+  /** Consecutive passes since quarantine; released automatically at `quarantine_exit_passes`. */
+  quarantine_pass_streak?: number;
+  quarantine_exit_passes?: number;
 }
 
 export interface KgModuleCoverage {
@@ -545,11 +1144,47 @@ export interface KgDriftReport {
   drift_detected: boolean;
 }
 
+export interface DriftPolicyInput {
+  is_enabled: boolean;
+  /** Lowest drift severity that triggers a re-exploration. */
+  min_severity: 'high' | 'medium';
+  /** KG-based runs needed since the module was last re-explored by the policy. */
+  min_runs: number;
+  replan_scenarios: boolean;
+  cooldown_hours: number;
+}
+
+export interface DriftPolicy extends DriftPolicyInput {
+  application_id: string;
+  /** Null until an admin saves the policy. */
+  updated_at: string | null;
+}
+
+export type DriftPolicyAction = 'triggered' | 'reexplored' | 'replanned' | 'failed';
+
+export interface DriftPolicyEvent {
+  id: string;
+  module_id: string | null;
+  module_name: string | null;
+  action: DriftPolicyAction;
+  severity: 'high' | 'medium' | null;
+  fail_rate_pct: number | null;
+  runs_checked: number | null;
+  explore_session_id: string | null;
+  scenarios_replanned: number | null;
+  detail: string | null;
+  created_at: string;
+}
+
 export interface BatchRunSummary {
   batch_id: string;
   summary: {
     total: number; passed: number; failed: number; skipped: number;
+    /** Cancelled or partial runs — CI gates treat them like failures. */
+    incomplete: number;
     quality_score: number; pass_rate_pct: number;
+    /** Runs of quarantined scenarios — excluded from passed/failed and the scores. */
+    quarantined: number; quarantined_passed: number;
   };
   root_cause_breakdown: Array<{ error_type: string; count: number; pct: number }>;
   module_health: Array<{
@@ -560,6 +1195,7 @@ export interface BatchRunSummary {
     run_id: string; scenario_title: string; module_name: string;
     failed_steps: number; total_steps: number;
     top_error_type: string; error_message: string;
+    quarantined?: boolean;
   }>;
 }
 
@@ -596,6 +1232,7 @@ export interface ExecutionRun {
   id: string;
   scenario_id: string;
   plan_id: string;
+  environment_id?: string;
   status: 'PENDING' | 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED' | 'PARTIAL';
   started_at?: string;
   completed_at?: string;
@@ -614,9 +1251,23 @@ export interface ExecutionStep {
   status: 'PENDING' | 'RUNNING' | 'PASSED' | 'FAILED' | 'SKIPPED' | 'HEALED';
   duration_ms?: number;
   healing_triggered: boolean;
-  healing_attempts: unknown[];
+  healing_attempts: HealingAttempt[];
   screenshot_path?: string;
   error_message?: string;
+  plan_step?: { action?: string; target?: string; value?: string; result?: string; phase?: string; [key: string]: unknown } | null;
+}
+
+export interface HealingAttempt {
+  strategy: string;
+  selector_type?: string;
+  selector_value?: string;
+  /** Older executors record the locator as `selector` */
+  selector?: string;
+  success: boolean;
+  reason?: string;
+  duration_ms?: number;
+  /** Set once the locator has been written back to selector memory */
+  accepted?: boolean;
 }
 
 export interface ExecutionLog {
@@ -666,6 +1317,337 @@ export interface ReportSummary {
   };
   created_at: string;
   run_status?: string;
+  environment_id?: string;
+  quarantined?: boolean;
+}
+
+export interface TrendPoint {
+  date: string;
+  total: number;
+  passed: number;
+  pass_rate: number;
+}
+
+export interface ModuleTrend {
+  module_id: string | null;
+  module_name: string;
+  runs: number;
+  pass_rate: number | null;
+  /** Pass-rate change (points) from the first to the second half of the window. */
+  delta: number | null;
+  series: TrendPoint[];
+}
+
+export interface ScenarioTrend {
+  scenario_id: string;
+  title: string;
+  module_id: string | null;
+  module_name: string;
+  runs: number;
+  passed: number;
+  pass_rate: number | null;
+  delta: number | null;
+  /** Pass/fail flips between consecutive runs of the same plan ÷ comparable pairs (0–1). */
+  flakiness: number;
+  flips: number;
+  comparable_pairs: number;
+  plan_versions: number;
+  /** Least-squares change in healed steps per run; positive means locators are drifting. */
+  healed_slope: number;
+  healed_recent: number;
+  is_quarantined: boolean;
+  series: TrendPoint[];
+  runs_detail: Array<{ at: string; passed: boolean; healed_steps: number; plan_id: string }>;
+}
+
+export interface TrendsReport {
+  days: number;
+  since: string;
+  until: string;
+  application: { runs: number; pass_rate: number | null; delta: number | null; series: TrendPoint[] };
+  /** Most-regressing modules first. */
+  modules: ModuleTrend[];
+  /** Flakiest scenarios first. */
+  scenarios: ScenarioTrend[];
+}
+
+export interface ApiToken {
+  id: string;
+  workspace_id: string;
+  name: string;
+  /** First characters of the secret, to tell tokens apart. */
+  token_prefix: string;
+  /** Caps what the token can do, whatever its creator's role. */
+  role: ApiTokenRole;
+  created_by: string;
+  created_at: string;
+  last_used_at?: string | null;
+}
+
+export type ApiTokenRole = Extract<WorkspaceRole, 'VIEWER' | 'MEMBER'>;
+
+export interface ApiTokenCreated extends ApiToken {
+  token: string;
+}
+
+export type WebhookEvent =
+  | 'run_completed'
+  | 'run_failed'
+  | 'batch_completed'
+  | 'batch_failed'
+  | 'explore_completed'
+  | 'human_decision_required';
+
+export interface WebhookInput {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  /** Skip passing runs, clean batches and successful explores. */
+  failures_only: boolean;
+}
+
+export interface Webhook extends WebhookInput {
+  id: string;
+  workspace_id: string;
+  is_active: boolean;
+  created_at: string;
+  last_delivery_at: string | null;
+  last_delivery_status: WebhookDeliveryStatus | null;
+}
+
+export interface WebhookWithSecret extends Webhook {
+  secret: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event: WebhookEvent | 'ping';
+  /** Stable across retries and redeliveries — receivers deduplicate on it. */
+  event_id: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  redelivery_of: string | null;
+  created_at: string;
+  delivered_at: string | null;
+  payload: Record<string, unknown>;
+}
+
+export interface DefectTrackerKind {
+  kind: string;
+  label: string;
+}
+
+export interface DefectTrackerInput {
+  kind: string;
+  name: string;
+  /** Adapter settings; the generic webhook tracker takes `{ url }`. */
+  config: Record<string, unknown>;
+  /** Omit to keep the stored secret, `''` to clear it. */
+  secret?: string;
+  /** File every failing, non-quarantined run automatically. */
+  auto_file: boolean;
+  is_active: boolean;
+}
+
+export interface DefectTracker extends Omit<DefectTrackerInput, 'secret'> {
+  id: string;
+  workspace_id: string;
+  has_secret: boolean;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export type DefectStatus = 'open' | 'resolved';
+
+export interface DefectLink {
+  id: string;
+  scenario_id: string;
+  tracker_id: string | null;
+  defect_key: string;
+  defect_url: string | null;
+  title: string;
+  status: DefectStatus;
+  /** Failing runs attached to this defect, including the first. */
+  occurrences: number;
+  first_run_id: string;
+  last_run_id: string;
+  created_at: string;
+  updated_at: string | null;
+  resolved_at: string | null;
+}
+
+export interface RunDefect {
+  /** The defect this run was filed under. */
+  defect: DefectLink | null;
+  /** When the run isn't filed yet: the scenario's open defect it would attach to. */
+  scenario_defect: DefectLink | null;
+  tracker_configured: boolean;
+  auto_file: boolean;
+}
+
+export interface DefectDraftStep {
+  sequence: number;
+  action: string;
+  description: string;
+  status: string;
+  failed: boolean;
+}
+
+export interface DefectDraft {
+  title: string;
+  description: string;
+  severity: string;
+  steps_to_reproduce: DefectDraftStep[];
+  expected: string | null;
+  actual: string | null;
+  error_type: string | null;
+  rca: string | null;
+  environment: { name: string | null; type: string | null; base_url: string | null };
+  run: { id: string; url: string; status: string; summary: string; batch_id: string | null };
+  scenario: { id: string; title: string; priority: string; module: string | null; external_id: string | null };
+  screenshot_url: string | null;
+  labels: string[];
+}
+
+export interface DefectFileResult {
+  defect: DefectLink;
+  /** False when the run was attached to an already-open defect. */
+  created: boolean;
+}
+
+export interface AuditEvent {
+  id: string;
+  workspace_id: string;
+  application_id: string | null;
+  /** Null for system actions. */
+  actor_id: string | null;
+  actor_email: string | null;
+  actor_name: string | null;
+  via_api_token: boolean | null;
+  action: string;
+  action_label: string;
+  target_type: string | null;
+  target_id: string | null;
+  target_name: string | null;
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface AuditEventPage {
+  items: AuditEvent[];
+  total: number;
+}
+
+export interface AuditFacets {
+  actors: Array<{ id: string; email: string | null; name: string | null }>;
+  actions: Array<{ action: string; label: string }>;
+}
+
+export interface AuditFilters {
+  actor_id?: string;
+  /** Exact action (`scenario.delete`) or a group (`scenario`). */
+  action?: string;
+  /** ISO datetimes, UTC; `until` is exclusive. */
+  since?: string;
+  until?: string;
+}
+
+export interface CiTriggerInput {
+  application_id: string;
+  /** Environment id or name; the application's default environment when omitted. */
+  environment?: string;
+  /** Suite id or name. Without `suite` or `scenario_ids`, every active scenario runs. */
+  suite?: string;
+  scenario_ids?: string[];
+  smoke_only?: boolean;
+  execution_mode?: 'smoke' | 'functional' | 'regression';
+}
+
+export interface CiTriggerResult {
+  batch_id?: string;
+  runs: BatchRun[];
+  total: number;
+  message?: string;
+  environment: { id: string; name: string };
+  suite: { id: string; name: string; version: number } | null;
+}
+
+export interface CiBatchStatus {
+  batch_id: string;
+  /** True once every run reached COMPLETED, FAILED, PARTIAL or CANCELLED. */
+  finished: boolean;
+  runs: Array<Pick<ExecutionRun, 'scenario_id' | 'status' | 'total_steps' | 'passed_steps' | 'failed_steps' | 'healed_steps'> & {
+    run_id: string;
+    title: string;
+    quarantined: boolean;
+  }>;
+  summary: BatchRunSummary['summary'];
+  scenarios_needing_attention: BatchRunSummary['scenarios_needing_attention'];
+}
+
+export type BatchExportFormat = 'junit' | 'html' | 'json';
+
+/**
+ * The batch JSON export (`GET /executions/batch/{id}/export?format=json`). The full JSON
+ * Schema is served at `/executions/batch-export/schema`; `schema_version` only changes on
+ * breaking changes.
+ */
+export interface BatchExport {
+  schema_version: '1.0';
+  batch_id: string;
+  generated_at: string;
+  application_id: string;
+  application_name: string;
+  environment_id: string | null;
+  environment_name: string | null;
+  schedule_id: string | null;
+  suite_id: string | null;
+  suite_version: number | null;
+  started_at: string | null;
+  /** Null while any run is still unfinished. */
+  completed_at: string | null;
+  duration_seconds: number | null;
+  summary: BatchRunSummary['summary'];
+  root_cause_breakdown: BatchRunSummary['root_cause_breakdown'];
+  scenarios: Array<{
+    run_id: string;
+    scenario_id: string;
+    title: string;
+    module_id: string | null;
+    module_name: string;
+    status: ExecutionRun['status'];
+    outcome: 'passed' | 'failed' | 'incomplete' | 'skipped';
+    quarantined: boolean;
+    started_at: string | null;
+    completed_at: string | null;
+    duration_seconds: number | null;
+    total_steps: number;
+    passed_steps: number;
+    failed_steps: number;
+    healed_steps: number;
+    top_error_type: string | null;
+    error_message: string | null;
+    steps: Array<{
+      sequence: number;
+      action_type: string;
+      description: string | null;
+      status: ExecutionStep['status'];
+      duration_ms: number | null;
+      healed: boolean;
+      error_type: string | null;
+      error_message: string | null;
+      /** Path under the /artifacts mount — resolve with `artifactUrl`. */
+      screenshot: string | null;
+    }>;
+  }>;
 }
 
 export interface BatchHistoryRun {
@@ -676,19 +1658,86 @@ export interface BatchHistoryRun {
   failed_steps: number;
   total_steps: number;
   completed_at?: string;
+  quarantined?: boolean;
 }
 
 export interface BatchHistory {
   batch_id: string;
   started_at: string;
   environment_id: string;
+  schedule_id?: string | null;
+  schedule_name?: string | null;
+  suite_id?: string | null;
+  suite_name?: string | null;
+  suite_version?: number | null;
   total: number;
   passed: number;
   failed: number;
+  /** Runs of quarantined scenarios; not included in passed/failed. */
+  quarantined: number;
   running: number;
   runs: BatchHistoryRun[];
 }
 
+export interface BatchScheduleInput {
+  name: string;
+  cron_expression: string;
+  timezone: string;
+  environment_id: string;
+  scenario_ids: string[];
+  /** When set the schedule runs this suite and `scenario_ids` is empty. */
+  suite_id?: string | null;
+  execution_mode: string;
+}
+
+export interface BatchSchedule extends BatchScheduleInput {
+  id: string;
+  application_id: string;
+  is_paused: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_batch_id: string | null;
+  last_status: 'started' | 'skipped' | 'failed' | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+export interface TestSuiteQuery {
+  priorities: Scenario['priority'][];
+  tags: string[];
+  module_ids: string[];
+  smoke_only: boolean;
+}
+
+export type TestSuiteKind = 'explicit' | 'query';
+
+export interface TestSuiteInput {
+  name: string;
+  description?: string | null;
+  kind: TestSuiteKind;
+  scenario_ids: string[];
+  query?: TestSuiteQuery | null;
+}
+
+export interface TestSuite extends TestSuiteInput {
+  id: string;
+  application_id: string;
+  version: number;
+  /** Active scenarios the suite resolves to at response time. */
+  scenario_count: number;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface TestSuiteVersion {
+  version: number;
+  kind: TestSuiteKind;
+  scenario_ids: string[];
+  query: TestSuiteQuery | null;
+  created_by: string | null;
+  created_at: string;
+}
+
 export interface CreateApplicationPayload {
   workspace_id: string;
   name: string;
@@ -736,8 +1785,8 @@ export interface TestDatasetItem {
 // ─── Datasets ─────────────────────────────────────────────────────────────────
 
 export const datasets = {
-  list: (applicationId: string) =>
-    request<TestDatasetItem[]>(`/datasets/${applicationId}`),
+  list: (applicationId: string, signal?: AbortSignal) =>
+    request<TestDatasetItem[]>(`/datasets/${applicationId}`, { signal }),
 
   create: (applicationId: string, data: {
     category: string;
@@ -778,10 +1827,17 @@ export { ApiError };
 export const api = {
   auth,
   workspaces,
+  apiTokens,
+  webhooks,
+  defects,
+  audit,
   applications,
   explore,
   scenarios,
   executions,
+  schedules,
+  suites,
+  ci,
   reports,
   knowledge,
   datasets,
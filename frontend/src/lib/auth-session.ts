@@ -0,0 +1,135 @@
+/**
+ * QAptain Auth Session
+ * Owns the client half of the session. The refresh token is kept in an httpOnly
+ * cookie (see lib/session-cookie.ts) that only the `/api/session` route handlers
+ * touch — sign-in goes through them too — so the page holds just the short-lived
+ * access token. Access tokens are
+ * refreshed shortly before expiry, or on a 401, through a single in-flight refresh
+ * shared by every caller (and serialised across tabs, since refresh tokens are
+ * single-use). When the refresh token itself is rejected the session is over and
+ * the user is sent to `/login?callbackUrl=…`.
+ */
+
+const ACCESS_KEY = 'qaptain_token';
+// Pre-cookie sessions kept the refresh token here; cleared on sight
+const LEGACY_REFRESH_KEY = 'qaptain_refresh_token';
+const REFRESH_LOCK = 'qaptain-auth-refresh';
+// Refresh this long before the access token's `exp` so in-flight requests don't race it
+const EXPIRY_SKEW_MS = 60_000;
+
+export interface SessionTokens {
+  access_token: string;
+}
+
+export function getAccessToken(): string | null {
+  return typeof window !== 'undefined' ? localStorage.getItem(ACCESS_KEY) : null;
+}
+
+/**
+ * Sign in through the route handler, which sets the session cookie and returns only
+ * the access token. Resolves to the failed response so the page can show its detail.
+ */
+export async function signIn(credentials: { email: string; password: string }): Promise<Response | null> {
+  const res = await fetch('/api/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(credentials),
+  });
+  if (!res.ok) return res;
+  const tokens: SessionTokens = await res.json();
+  localStorage.setItem(ACCESS_KEY, tokens.access_token);
+  localStorage.removeItem(LEGACY_REFRESH_KEY);
+  return null;
+}
+
+/** Drop the page's copy of the session. The cookie is cleared by the server. */
+export function clearSession(): void {
+  localStorage.removeItem(ACCESS_KEY);
+  localStorage.removeItem(LEGACY_REFRESH_KEY);
+}
+
+/** `exp` of a JWT in ms, or null if it can't be read. The signature is the server's business. */
+function tokenExpiry(token: string): number | null {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+function isExpiringSoon(token: string): boolean {
+  const exp = tokenExpiry(token);
+  return exp !== null && exp - Date.now() < EXPIRY_SKEW_MS;
+}
+
+let inflightRefresh: Promise<string | null> | null = null;
+
+/**
+ * Exchange the cookie's refresh token for a new pair. Concurrent callers share one request.
+ * Resolves to the new access token, or null when the session can't be renewed.
+ * Rejects only on network failure — the session may still be fine.
+ */
+export function refreshAccessToken(staleToken: string | null = getAccessToken()): Promise<string | null> {
+  if (!inflightRefresh) {
+    const run = () => rotate(staleToken);
+    const locked: Promise<string | null> = typeof navigator !== 'undefined' && navigator.locks
+      ? navigator.locks.request(REFRESH_LOCK, run).then((token) => token)
+      : run();
+    inflightRefresh = locked.finally(() => { inflightRefresh = null; });
+  }
+  return inflightRefresh;
+}
+
+async function rotate(staleToken: string | null): Promise<string | null> {
+  // Another tab may have rotated while we waited for the lock — reuse its result
+  const current = getAccessToken();
+  if (current && current !== staleToken && !isExpiringSoon(current)) return current;
+
+  // The route handler rotates the cookie and returns only the access token
+  const res = await fetch('/api/session/refresh', { method: 'POST' });
+  if (res.status === 401 || res.status === 403) return null;
+  if (!res.ok) throw new Error(`Token refresh failed (${res.status})`);
+
+  const tokens: SessionTokens = await res.json();
+  localStorage.setItem(ACCESS_KEY, tokens.access_token);
+  return tokens.access_token;
+}
+
+/**
+ * The current access token, refreshed first if it is about to expire. A tab with no
+ * token yet (new tab, cleared storage) bootstraps one from the session cookie.
+ */
+export async function getFreshAccessToken(): Promise<string | null> {
+  const token = getAccessToken();
+  if (!token) return refreshAccessToken(null).catch(() => null);
+  if (!isExpiringSoon(token)) return token;
+  try {
+    return (await refreshAccessToken(token)) ?? token;
+  } catch {
+    return token; // offline — let the request itself fail
+  }
+}
+
+let redirecting = false;
+
+/**
+ * Hard expiry: drop the session and send the user to sign in, returning here afterwards.
+ * The cookie goes too, or middleware would bounce the login page straight back.
+ */
+export function expireSession(): void {
+  clearSession();
+  if (typeof window === 'undefined' || redirecting) return;
+  const { pathname, search } = window.location;
+  if (pathname.startsWith('/login') || pathname.startsWith('/signup')) return;
+  redirecting = true;
+  fetch('/api/session', { method: 'DELETE' })
+    .catch(() => {})
+    .finally(() => window.location.assign(`/login?callbackUrl=${encodeURIComponent(pathname + search)}`));
+}
+
+/** Revoke the refresh token server-side, clear the cookie and the local session. */
+export async function signOut(): Promise<void> {
+  clearSession();
+  await fetch('/api/session', { method: 'DELETE' }).catch(() => {});
+}
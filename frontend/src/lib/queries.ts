@@ -0,0 +1,875 @@
+'use client';
+
+/**
+ * QAptain Query Hooks
+ * react-query bindings for the API client: one query hook per read, one mutation
+ * hook per write. Cache keys live in `queryKeys` so invalidation and the hooks can
+ * never drift apart — mutations invalidate exactly the lists they change.
+ */
+
+import { keepPreviousData, useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  apiTokens,
+  applications,
+  audit,
+  datasets,
+  defects,
+  executions,
+  explore,
+  knowledge,
+  reports,
+  scenarios,
+  schedules,
+  suites,
+  webhooks,
+  workspaces,
+  type ApiTokenRole,
+  type AuditFilters,
+  type BatchScheduleInput,
+  type CreateApplicationPayload,
+  type CreateScenarioPayload,
+  type DefectStatus,
+  type DefectTrackerInput,
+  type DriftPolicyInput,
+  type EnvironmentInput,
+  type ExecutionStep,
+  type Scenario,
+  type TestDatasetItem,
+  type TestSuiteInput,
+  type WebhookDeliveryStatus,
+  type WebhookInput,
+  type WorkspaceRole,
+} from './api';
+
+// ─── Keys ─────────────────────────────────────────────────────────────────────
+
+// Hierarchical: invalidating a prefix (e.g. `queryKeys.scenarios.all`) covers every key below it
+export const queryKeys = {
+  workspaces: {
+    all: ['workspaces'] as const,
+    detail: (workspaceId: string) => ['workspaces', workspaceId] as const,
+    applications: (workspaceId: string) => ['workspaces', workspaceId, 'applications'] as const,
+    members: (workspaceId: string) => ['workspaces', workspaceId, 'members'] as const,
+    invites: (workspaceId: string) => ['workspaces', workspaceId, 'invites'] as const,
+    apiTokens: (workspaceId: string) => ['workspaces', workspaceId, 'api-tokens'] as const,
+    webhooks: (workspaceId: string) => ['workspaces', workspaceId, 'webhooks'] as const,
+    webhookDeliveries: (workspaceId: string, webhookId: string) =>
+      ['workspaces', workspaceId, 'webhooks', webhookId, 'deliveries'] as const,
+  },
+  applications: {
+    environments: (appId: string) => ['applications', appId, 'environments'] as const,
+    modules: (appId: string) => ['applications', appId, 'modules'] as const,
+  },
+  explore: {
+    knowledge: (appId: string) => ['explore', appId, 'knowledge'] as const,
+    knowledgeVersions: (appId: string) => ['explore', appId, 'knowledge', 'versions'] as const,
+    knowledgeDiff: (appId: string, base?: number, target?: number) =>
+      ['explore', appId, 'knowledge', 'diff', base ?? null, target ?? null] as const,
+  },
+  scenarios: {
+    all: ['scenarios'] as const,
+    list: (appId: string) => ['scenarios', appId] as const,
+    runs: (scenarioId: string) => ['scenarios', 'runs', scenarioId] as const,
+  },
+  executions: {
+    all: ['executions'] as const,
+    run: (runId: string) => ['executions', runId] as const,
+    steps: (runId: string) => ['executions', runId, 'steps'] as const,
+    batchHistory: (appId: string, environmentId?: string, suiteId?: string) =>
+      [
+        'executions', 'batch-history', appId,
+        ...(environmentId ? [environmentId] : []),
+        ...(suiteId ? ['suite', suiteId] : []),
+      ] as const,
+    batchSummary: (batchId: string) => ['executions', 'batch', batchId, 'summary'] as const,
+  },
+  defects: {
+    all: ['defects'] as const,
+    tracker: (workspaceId: string) => ['defects', 'tracker', workspaceId] as const,
+    trackerKinds: ['defects', 'tracker-kinds'] as const,
+    run: (runId: string) => ['defects', 'run', runId] as const,
+    draft: (runId: string) => ['defects', 'run', runId, 'draft'] as const,
+  },
+  audit: {
+    list: (workspaceId: string, filters: AuditFilters, offset: number) =>
+      ['audit', workspaceId, 'list', filters, offset] as const,
+    facets: (workspaceId: string) => ['audit', workspaceId, 'facets'] as const,
+  },
+  schedules: {
+    list: (appId: string) => ['schedules', appId] as const,
+  },
+  suites: {
+    list: (appId: string) => ['suites', appId] as const,
+    versions: (suiteId: string) => ['suites', 'versions', suiteId] as const,
+  },
+  reports: {
+    all: ['reports'] as const,
+    list: (appId: string, limit: number, environmentId?: string) =>
+      ['reports', appId, limit, ...(environmentId ? [environmentId] : [])] as const,
+    trends: (appId: string, days: number, environmentId?: string) =>
+      ['reports', appId, 'trends', days, ...(environmentId ? [environmentId] : [])] as const,
+  },
+  knowledge: {
+    all: ['knowledge'] as const,
+    modules: (appId: string) => ['knowledge', appId, 'modules'] as const,
+    coverage: (appId: string) => ['knowledge', appId, 'coverage'] as const,
+    drift: (appId: string) => ['knowledge', appId, 'drift'] as const,
+    driftPolicy: (appId: string) => ['knowledge', appId, 'drift-policy'] as const,
+    driftPolicyEvents: (appId: string) => ['knowledge', appId, 'drift-policy', 'events'] as const,
+    pages: (moduleId: string) => ['knowledge', 'module', moduleId, 'pages'] as const,
+    workflows: (moduleId: string) => ['knowledge', 'module', moduleId, 'workflows'] as const,
+  },
+  datasets: {
+    list: (appId: string) => ['datasets', appId] as const,
+  },
+};
+
+/** Everything a finished (or newly started) run can change: reports, history, last-run badges. */
+export function invalidateRunResults(qc: QueryClient, appId?: string) {
+  qc.invalidateQueries({ queryKey: appId ? queryKeys.scenarios.list(appId) : queryKeys.scenarios.all });
+  qc.invalidateQueries({ queryKey: appId ? ['reports', appId] : queryKeys.reports.all });
+  qc.invalidateQueries({ queryKey: appId ? queryKeys.executions.batchHistory(appId) : queryKeys.executions.all });
+}
+
+// ─── Workspaces ───────────────────────────────────────────────────────────────
+
+export function useWorkspaces() {
+  return useQuery({
+    queryKey: queryKeys.workspaces.all,
+    queryFn: ({ signal }) => workspaces.list(signal),
+  });
+}
+
+export function useWorkspace(workspaceId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.workspaces.detail(workspaceId ?? ''),
+    queryFn: ({ signal }) => workspaces.get(workspaceId!, signal),
+    enabled: !!workspaceId,
+  });
+}
+
+export function useWorkspaceMembers(workspaceId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.workspaces.members(workspaceId ?? ''),
+    queryFn: ({ signal }) => workspaces.members(workspaceId!, signal),
+    enabled: !!workspaceId,
+  });
+}
+
+export function useWorkspaceInvites(workspaceId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.workspaces.invites(workspaceId ?? ''),
+    queryFn: ({ signal }) => workspaces.invites(workspaceId!, signal),
+    enabled: !!workspaceId && enabled,
+  });
+}
+
+/** Member changes also move `member_count` and possibly the current user's own role. */
+function invalidateMembers(qc: QueryClient, workspaceId: string) {
+  qc.invalidateQueries({ queryKey: queryKeys.workspaces.members(workspaceId) });
+  qc.invalidateQueries({ queryKey: queryKeys.workspaces.invites(workspaceId) });
+  qc.invalidateQueries({ queryKey: queryKeys.workspaces.detail(workspaceId), exact: true });
+  qc.invalidateQueries({ queryKey: queryKeys.workspaces.all, exact: true });
+}
+
+export function useInviteMember(workspaceId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: { email: string; role: WorkspaceRole }) => workspaces.inviteMember(workspaceId, data),
+    onSuccess: () => invalidateMembers(qc, workspaceId),
+  });
+}
+
+export function useUpdateMemberRole(workspaceId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ memberId, role }: { memberId: string; role: WorkspaceRole }) =>
+      workspaces.updateMemberRole(workspaceId, memberId, role),
+    onSuccess: () => invalidateMembers(qc, workspaceId),
+  });
+}
+
+export function useRemoveMember(workspaceId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (memberId: string) => workspaces.removeMember(workspaceId, memberId),
+    onSuccess: () => invalidateMembers(qc, workspaceId),
+  });
+}
+
+export function useRevokeInvite(workspaceId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (inviteId: string) => workspaces.revokeInvite(workspaceId, inviteId),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.workspaces.invites(workspaceId) }),
+  });
+}
+
+export function useApplications(workspaceId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.workspaces.applications(workspaceId ?? ''),
+    queryFn: ({ signal }) => workspaces.listApplications(workspaceId!, signal),
+    enabled: !!workspaceId,
+  });
+}
+
+export function useCreateWorkspace() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: { name: string }) => workspaces.create(data),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.workspaces.all }),
+  });
+}
+
+export function useDeleteWorkspace() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (workspaceId: string) => workspaces.delete(workspaceId),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.workspaces.all }),
+  });
+}
+
+export function useCreateApplication(workspaceId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CreateApplicationPayload) => workspaces.createApplication(workspaceId, data),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.workspaces.applications(workspaceId) }),
+  });
+}
+
+export function useDeleteApplication(workspaceId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (appId: string) => workspaces.deleteApplication(workspaceId, appId),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.workspaces.applications(workspaceId) }),
+  });
+}
+
+export function useApiTokens(workspaceId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.workspaces.apiTokens(workspaceId ?? ''),
+    queryFn: ({ signal }) => apiTokens.list(workspaceId!, signal),
+    enabled: !!workspaceId,
+  });
+}
+
+export function useCreateApiToken(workspaceId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: { name: string; role: ApiTokenRole }) => apiTokens.create(workspaceId, data),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.workspaces.apiTokens(workspaceId) }),
+  });
+}
+
+export function useRevokeApiToken(workspaceId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (tokenId: string) => apiTokens.revoke(workspaceId, tokenId),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.workspaces.apiTokens(workspaceId) }),
+  });
+}
+
+export function useWebhooks(workspaceId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.workspaces.webhooks(workspaceId ?? ''),
+    queryFn: ({ signal }) => webhooks.list(workspaceId!, signal),
+    enabled: !!workspaceId,
+  });
+}
+
+export function useCreateWebhook(workspaceId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: WebhookInput) => webhooks.create(workspaceId, data),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.workspaces.webhooks(workspaceId) }),
+  });
+}
+
+export function useUpdateWebhook(workspaceId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ webhookId, data }: { webhookId: string; data: Partial<WebhookInput> & { is_active?: boolean } }) =>
+      webhooks.update(workspaceId, webhookId, data),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.workspaces.webhooks(workspaceId) }),
+  });
+}
+
+export function useDeleteWebhook(workspaceId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (webhookId: string) => webhooks.delete(workspaceId, webhookId),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.workspaces.webhooks(workspaceId) }),
+  });
+}
+
+export function useRotateWebhookSecret(workspaceId: string) {
+  return useMutation({
+    mutationFn: (webhookId: string) => webhooks.rotateSecret(workspaceId, webhookId),
+  });
+}
+
+/** Polls while any delivery is still pending so retries show up without a refresh. */
+export function useWebhookDeliveries(workspaceId: string, webhookId: string | undefined, status?: WebhookDeliveryStatus) {
+  return useQuery({
+    queryKey: [...queryKeys.workspaces.webhookDeliveries(workspaceId, webhookId ?? ''), status ?? 'all'],
+    queryFn: ({ signal }) => webhooks.deliveries(workspaceId, webhookId!, status, signal),
+    enabled: !!webhookId,
+    refetchInterval: (query) => (query.state.data?.some((d) => d.status === 'pending') ? 5_000 : false),
+  });
+}
+
+export function useTestWebhook(workspaceId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (webhookId: string) => webhooks.test(workspaceId, webhookId),
+    onSuccess: (_delivery, webhookId) =>
+      qc.invalidateQueries({ queryKey: queryKeys.workspaces.webhookDeliveries(workspaceId, webhookId) }),
+  });
+}
+
+export function useRedeliverWebhookDelivery(workspaceId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ webhookId, deliveryId }: { webhookId: string; deliveryId: string }) =>
+      webhooks.redeliver(workspaceId, webhookId, deliveryId),
+    onSuccess: (_delivery, { webhookId }) =>
+      qc.invalidateQueries({ queryKey: queryKeys.workspaces.webhookDeliveries(workspaceId, webhookId) }),
+  });
+}
+
+// ─── Applications ─────────────────────────────────────────────────────────────
+
+export function useEnvironments(appId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.applications.environments(appId ?? ''),
+    queryFn: ({ signal }) => applications.listEnvironments(appId!, signal),
+    enabled: !!appId,
+  });
+}
+
+export function useCreateEnvironment(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: EnvironmentInput) => applications.createEnvironment(appId, data),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.applications.environments(appId) }),
+  });
+}
+
+export function useUpdateEnvironment(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ envId, data }: { envId: string; data: Partial<EnvironmentInput> }) =>
+      applications.updateEnvironment(appId, envId, data),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.applications.environments(appId) }),
+  });
+}
+
+export function useDeleteEnvironment(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (envId: string) => applications.deleteEnvironment(appId, envId),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.applications.environments(appId) }),
+  });
+}
+
+export function useModules(appId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.applications.modules(appId ?? ''),
+    queryFn: ({ signal }) => applications.listModules(appId!, signal),
+    enabled: !!appId,
+  });
+}
+
+// ─── Explore ──────────────────────────────────────────────────────────────────
+
+export function useKnowledgeGraph(appId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.explore.knowledge(appId ?? ''),
+    queryFn: ({ signal }) => explore.getKnowledge(appId!, signal),
+    enabled: !!appId,
+  });
+}
+
+export function useKnowledgeVersions(appId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.explore.knowledgeVersions(appId ?? ''),
+    queryFn: ({ signal }) => explore.listKnowledgeVersions(appId!, signal),
+    enabled: !!appId,
+  });
+}
+
+/** Changes between two KG versions; disabled until both are picked. */
+export function useKnowledgeDiff(appId: string | undefined, base: number | undefined, target: number | undefined) {
+  return useQuery({
+    queryKey: queryKeys.explore.knowledgeDiff(appId ?? '', base, target),
+    queryFn: ({ signal }) => explore.diffKnowledgeVersions(appId!, { base, target }, signal),
+    enabled: !!appId && base != null && target != null && base !== target,
+    placeholderData: keepPreviousData,
+  });
+}
+
+// ─── Scenarios ────────────────────────────────────────────────────────────────
+
+export function useScenarios(appId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.scenarios.list(appId ?? ''),
+    queryFn: ({ signal }) => scenarios.list(appId!, signal),
+    enabled: !!appId,
+  });
+}
+
+export function useScenarioRuns(scenarioId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.scenarios.runs(scenarioId ?? ''),
+    queryFn: ({ signal }) => scenarios.listRuns(scenarioId!, signal),
+    enabled: !!scenarioId,
+  });
+}
+
+export function useCreateScenario() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CreateScenarioPayload) => scenarios.create(data),
+    onSuccess: (scenario) => qc.invalidateQueries({ queryKey: queryKeys.scenarios.list(scenario.application_id) }),
+  });
+}
+
+export function useUpdateScenario(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ scenarioId, data }: {
+      scenarioId: string;
+      data: { title?: string; description?: string; priority?: string; tags?: string[] };
+    }) => scenarios.update(scenarioId, data),
+    // Show the edit immediately; the invalidation below reconciles with the server
+    onSuccess: (updated) => {
+      qc.setQueryData<Scenario[]>(queryKeys.scenarios.list(appId), (prev) =>
+        prev?.map((s) => (s.id === updated.id ? { ...s, ...updated } : s)));
+      qc.invalidateQueries({ queryKey: queryKeys.scenarios.list(appId) });
+    },
+  });
+}
+
+export function useDeleteScenario(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (scenarioId: string) => scenarios.delete(scenarioId),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.scenarios.list(appId) }),
+  });
+}
+
+/** Quarantine (`quarantined: true`) or release a scenario; the flag also shows in trends. */
+export function useSetScenarioQuarantine(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ scenarioId, quarantined, reason }: { scenarioId: string; quarantined: boolean; reason?: string }) =>
+      quarantined ? scenarios.quarantine(scenarioId, reason) : scenarios.release(scenarioId),
+    onSuccess: (updated) => {
+      qc.setQueryData<Scenario[]>(queryKeys.scenarios.list(appId), (prev) =>
+        prev?.map((s) => (s.id === updated.id ? { ...s, ...updated } : s)));
+      qc.invalidateQueries({ queryKey: queryKeys.scenarios.list(appId) });
+      qc.invalidateQueries({ queryKey: ['reports', appId] });
+    },
+  });
+}
+
+export function useDeleteScenariosByModule(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (moduleId: string | null) => scenarios.deleteByModule(appId, moduleId),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.scenarios.list(appId) }),
+  });
+}
+
+export function useImportScenarioDocument(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: { module_name: string; module_url: string; file: File }) =>
+      scenarios.importDocument({ application_id: appId, ...data }),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.scenarios.list(appId) });
+      qc.invalidateQueries({ queryKey: queryKeys.applications.modules(appId) });
+    },
+  });
+}
+
+export function useTriggerExecution(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ scenarioId, data }: {
+      scenarioId: string;
+      data: { plan_id: string; environment_id: string; credential_id?: string };
+    }) => scenarios.triggerExecution(scenarioId, data),
+    onSuccess: (_run, { scenarioId }) => {
+      qc.invalidateQueries({ queryKey: queryKeys.scenarios.runs(scenarioId) });
+      invalidateRunResults(qc, appId);
+    },
+  });
+}
+
+export function useRunBatch(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: { scenario_ids: string[]; execution_mode: string; environment_id: string; smoke_only?: boolean }) =>
+      scenarios.runBatch(data),
+    onSuccess: () => invalidateRunResults(qc, appId),
+  });
+}
+
+// ─── Executions ───────────────────────────────────────────────────────────────
+
+export function useExecutionRun(runId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.executions.run(runId ?? ''),
+    queryFn: ({ signal }) => executions.get(runId!, signal),
+    enabled: !!runId,
+  });
+}
+
+export function useExecutionSteps(runId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.executions.steps(runId ?? ''),
+    queryFn: ({ signal }) => executions.getSteps(runId!, signal),
+    enabled: !!runId,
+  });
+}
+
+export function useBatchHistory(appId: string | undefined, limit = 30, environmentId?: string, suiteId?: string) {
+  return useQuery({
+    queryKey: queryKeys.executions.batchHistory(appId ?? '', environmentId, suiteId),
+    queryFn: ({ signal }) => executions.batchHistory(appId!, limit, environmentId, signal, suiteId),
+    enabled: !!appId,
+  });
+}
+
+export function useBatchSummary(batchId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.executions.batchSummary(batchId ?? ''),
+    queryFn: ({ signal }) => executions.getBatchSummary(batchId!, signal),
+    enabled: !!batchId,
+  });
+}
+
+export function useCancelRun() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (runId: string) => executions.cancel(runId),
+    onSuccess: (_res, runId) => qc.invalidateQueries({ queryKey: queryKeys.executions.run(runId) }),
+  });
+}
+
+export function useAcceptHealedLocator(runId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ stepId, attemptIndex }: { stepId: string; attemptIndex?: number }) =>
+      executions.acceptHealedLocator(runId, stepId, attemptIndex),
+    onSuccess: (step) => {
+      qc.setQueryData<ExecutionStep[]>(queryKeys.executions.steps(runId), (prev) =>
+        prev?.map((s) => (s.id === step.id ? step : s)));
+    },
+  });
+}
+
+// ─── Defects ──────────────────────────────────────────────────────────────────
+
+export function useDefectTracker(workspaceId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.defects.tracker(workspaceId ?? ''),
+    queryFn: ({ signal }) => defects.getTracker(workspaceId!, signal),
+    enabled: !!workspaceId,
+  });
+}
+
+export function useDefectTrackerKinds() {
+  return useQuery({
+    queryKey: queryKeys.defects.trackerKinds,
+    queryFn: ({ signal }) => defects.trackerKinds(signal),
+    staleTime: Infinity,
+  });
+}
+
+export function useSaveDefectTracker(workspaceId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: DefectTrackerInput) => defects.saveTracker(workspaceId, data),
+    // Run pages show whether a tracker is configured
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.defects.all }),
+  });
+}
+
+export function useDeleteDefectTracker(workspaceId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: () => defects.deleteTracker(workspaceId),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.defects.all }),
+  });
+}
+
+export function useRunDefect(runId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.defects.run(runId ?? ''),
+    queryFn: ({ signal }) => defects.forRun(runId!, signal),
+    enabled: !!runId,
+  });
+}
+
+export function useDefectDraft(runId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.defects.draft(runId ?? ''),
+    queryFn: ({ signal }) => defects.draft(runId!, signal),
+    enabled: !!runId,
+  });
+}
+
+export function useFileDefect(runId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: { title?: string; description?: string }) => defects.file(runId, data),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.defects.run(runId) }),
+  });
+}
+
+export function useSetDefectStatus() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ defectId, status }: { defectId: string; status: DefectStatus }) =>
+      defects.setStatus(defectId, status),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.defects.all }),
+  });
+}
+
+// ─── Audit ────────────────────────────────────────────────────────────────────
+
+export function useAuditEvents(workspaceId: string, filters: AuditFilters, page: { limit: number; offset: number }) {
+  return useQuery({
+    queryKey: queryKeys.audit.list(workspaceId, filters, page.offset),
+    queryFn: ({ signal }) => audit.list(workspaceId, filters, page, signal),
+    // Keep the current page on screen while the next page or filter loads
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useAuditFacets(workspaceId: string) {
+  return useQuery({
+    queryKey: queryKeys.audit.facets(workspaceId),
+    queryFn: ({ signal }) => audit.facets(workspaceId, signal),
+  });
+}
+
+// ─── Schedules ────────────────────────────────────────────────────────────────
+
+export function useSchedules(appId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.schedules.list(appId ?? ''),
+    queryFn: ({ signal }) => schedules.list(appId!, signal),
+    enabled: !!appId,
+  });
+}
+
+export function useCreateSchedule(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: BatchScheduleInput) => schedules.create({ ...data, application_id: appId }),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.schedules.list(appId) }),
+  });
+}
+
+export function useUpdateSchedule(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ scheduleId, data }: {
+      scheduleId: string;
+      data: Partial<BatchScheduleInput> & { is_paused?: boolean };
+    }) => schedules.update(scheduleId, data),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.schedules.list(appId) }),
+  });
+}
+
+/** Fires immediately, so the new batch shows up in history too. */
+export function useRunScheduleNow(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (scheduleId: string) => schedules.runNow(scheduleId),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.schedules.list(appId) });
+      invalidateRunResults(qc, appId);
+    },
+  });
+}
+
+export function useDeleteSchedule(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (scheduleId: string) => schedules.delete(scheduleId),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.schedules.list(appId) }),
+  });
+}
+
+// ─── Suites ───────────────────────────────────────────────────────────────────
+
+export function useSuites(appId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.suites.list(appId ?? ''),
+    queryFn: ({ signal }) => suites.list(appId!, signal),
+    enabled: !!appId,
+  });
+}
+
+export function useSuiteVersions(suiteId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.suites.versions(suiteId ?? ''),
+    queryFn: ({ signal }) => suites.versions(suiteId!, signal),
+    enabled: !!suiteId,
+  });
+}
+
+export function useCreateSuite(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: TestSuiteInput) => suites.create({ ...data, application_id: appId }),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.suites.list(appId) }),
+  });
+}
+
+export function useUpdateSuite(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ suiteId, data }: { suiteId: string; data: Partial<TestSuiteInput> }) =>
+      suites.update(suiteId, data),
+    onSuccess: (suite) => {
+      qc.invalidateQueries({ queryKey: queryKeys.suites.list(appId) });
+      qc.invalidateQueries({ queryKey: queryKeys.suites.versions(suite.id) });
+    },
+  });
+}
+
+export function useDeleteSuite(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (suiteId: string) => suites.delete(suiteId),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.suites.list(appId) }),
+  });
+}
+
+// ─── Reports ──────────────────────────────────────────────────────────────────
+
+export function useReports(appId: string | undefined, limit = 20, environmentId?: string) {
+  return useQuery({
+    queryKey: queryKeys.reports.list(appId ?? '', limit, environmentId),
+    queryFn: ({ signal }) => reports.listForApplication(appId!, limit, environmentId, signal),
+    enabled: !!appId,
+  });
+}
+
+export function useTrends(appId: string | undefined, days = 30, environmentId?: string) {
+  return useQuery({
+    queryKey: queryKeys.reports.trends(appId ?? '', days, environmentId),
+    queryFn: ({ signal }) => reports.trends(appId!, days, environmentId, signal),
+    enabled: !!appId,
+  });
+}
+
+// ─── Knowledge ────────────────────────────────────────────────────────────────
+
+export function useKnowledgeModules(appId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.knowledge.modules(appId ?? ''),
+    queryFn: ({ signal }) => knowledge.getModules(appId!, signal),
+    enabled: !!appId,
+  });
+}
+
+export function useKnowledgeCoverage(appId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.knowledge.coverage(appId ?? ''),
+    queryFn: ({ signal }) => knowledge.getCoverage(appId!, signal),
+    enabled: !!appId,
+  });
+}
+
+export function useKnowledgeDrift(appId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.knowledge.drift(appId ?? ''),
+    queryFn: ({ signal }) => knowledge.getDrift(appId!, signal),
+    enabled: !!appId,
+  });
+}
+
+export function useDriftPolicy(appId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.knowledge.driftPolicy(appId ?? ''),
+    queryFn: ({ signal }) => knowledge.getDriftPolicy(appId!, signal),
+    enabled: !!appId,
+  });
+}
+
+export function useSaveDriftPolicy(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: DriftPolicyInput) => knowledge.saveDriftPolicy(appId, data),
+    onSuccess: (policy) => qc.setQueryData(queryKeys.knowledge.driftPolicy(appId), policy),
+  });
+}
+
+export function useDriftPolicyEvents(appId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.knowledge.driftPolicyEvents(appId ?? ''),
+    queryFn: ({ signal }) => knowledge.listDriftPolicyEvents(appId!, signal),
+    enabled: !!appId,
+  });
+}
+
+export function useModulePages(moduleId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.knowledge.pages(moduleId ?? ''),
+    queryFn: ({ signal }) => knowledge.getPages(moduleId!, signal),
+    enabled: !!moduleId,
+  });
+}
+
+export function useModuleWorkflows(moduleId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.knowledge.workflows(moduleId ?? ''),
+    queryFn: ({ signal }) => knowledge.getWorkflows(moduleId!, signal),
+    enabled: !!moduleId,
+  });
+}
+
+// ─── Datasets ─────────────────────────────────────────────────────────────────
+
+export function useDatasets(appId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.datasets.list(appId ?? ''),
+    queryFn: ({ signal }) => datasets.list(appId!, signal),
+    enabled: !!appId,
+  });
+}
+
+export function useCreateDatasetItem(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (data: Parameters<typeof datasets.create>[1]) => datasets.create(appId, data),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.datasets.list(appId) }),
+  });
+}
+
+export function useUpdateDatasetItem(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ itemId, data }: { itemId: string; data: { label?: string; text_value?: string; description?: string } }) =>
+      datasets.update(appId, itemId, data),
+    onSuccess: (item) => {
+      qc.setQueryData<TestDatasetItem[]>(queryKeys.datasets.list(appId), (prev) =>
+        prev?.map((i) => (i.id === item.id ? item : i)));
+      qc.invalidateQueries({ queryKey: queryKeys.datasets.list(appId) });
+    },
+  });
+}
+
+export function useDeleteDatasetItem(appId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (itemId: string) => datasets.delete(appId, itemId),
+    onSuccess: () => qc.invalidateQueries({ queryKey: queryKeys.datasets.list(appId) }),
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * QAptain Session Cookie
+ * The refresh token lives in an httpOnly cookie on the frontend origin, out of reach
+ * of page scripts. Sign-in, sign-up and refresh all go through the `/api/session`
+ * route handlers, which call the backend themselves and strip the refresh token from
+ * what they return, so it never reaches the page. Middleware reads the cookie to gate
+ * `(platform)` routes before anything renders. Runs on both the edge and Node
+ * runtimes, so only Web APIs are used here.
+ */
+
+export const SESSION_COOKIE = 'qaptain_session';
+
+// Server-side calls may use an internal address; fall back to the public one
+export const SERVER_API_URL = process.env.API_URL || process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api/v1';
+
+// Same value as the backend's SECRET_KEY. Required: without it no cookie can be
+// verified, so every session is treated as signed out rather than trusted unsigned.
+const JWT_SECRET = process.env.JWT_SECRET;
+
+let warnedMissingSecret = false;
+
+/** POST a JSON body to a backend auth endpoint; null when the backend can't be reached. */
+export async function postToBackend(path: string, body: string): Promise<Response | null> {
+  try {
+    return await fetch(`${SERVER_API_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    });
+  } catch {
+    return null;
+  }
+}
+
+interface SessionClaims {
+  sub: string;
+  exp: number;
+  type: string;
+}
+
+function base64UrlDecode(segment: string): Uint8Array<ArrayBuffer> {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function hasValidSignature(token: string, secret: string): Promise<boolean> {
+  const [header, payload, signature] = token.split('.');
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify'],
+  );
+  return crypto.subtle.verify('HMAC', key, base64UrlDecode(signature), new TextEncoder().encode(`${header}.${payload}`));
+}
+
+/** Claims of a live refresh token; null if it is malformed, forged or expired, or JWT_SECRET is unset. */
+export async function verifySessionToken(token: string | undefined): Promise<SessionClaims | null> {
+  if (!token || token.split('.').length !== 3) return null;
+  try {
+    const header = JSON.parse(new TextDecoder().decode(base64UrlDecode(token.split('.')[0])));
+    const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(token.split('.')[1])));
+    if (header.alg !== 'HS256' || claims.type !== 'refresh' || typeof claims.exp !== 'number') return null;
+    if (claims.exp * 1000 <= Date.now()) return null;
+    if (!JWT_SECRET) {
+      if (!warnedMissingSecret) console.error('[QAptain] JWT_SECRET is not set — nobody can sign in until it matches the backend SECRET_KEY');
+      warnedMissingSecret = true;
+      return null;
+    }
+    if (!(await hasValidSignature(token, JWT_SECRET))) return null;
+    return claims as SessionClaims;
+  } catch {
+    return null;
+  }
+}
+
+export function sessionCookieOptions(expiresAt: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    expires: new Date(expiresAt * 1000),
+  };
+}
+
+/** Only same-origin paths are honoured as post-login destinations. */
+export function safeCallbackUrl(value: string | null | undefined, fallback = '/workspaces'): string {
+  return value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\') ? value : fallback;
+}
@@ -1,53 +1,318 @@
 /**
  * QAptain WebSocket Client
  * Real-time event stream from backend.
+ *
+ * One socket per browser: open tabs elect a leader through the Web Locks API, and only
+ * the leader connects. It relays every event to the other tabs over a BroadcastChannel
+ * and holds the union of their topic subscriptions, reference-counted per tab. When the
+ * leader tab closes, the next tab in line takes over and replays what it missed.
+ * Browsers without BroadcastChannel / Web Locks fall back to one socket per tab.
  */
 
+import { expireSession, getFreshAccessToken, refreshAccessToken } from './auth-session';
+import { eventTopics, parseWsEvent, type WsEvent, type WsEventMap, type WsEventName } from './ws-events';
+
 const WS_URL = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:8000/ws';
 
-type EventHandler = (data: Record<string, unknown>) => void;
+/** `'*'` receives every validated event as the `WsEvent` union. */
+type HandlerKey = WsEventName | '*';
+type HandlerPayload<E extends HandlerKey> = E extends WsEventName ? WsEventMap[E] : WsEvent;
+type EventHandler<E extends HandlerKey = HandlerKey> = (data: HandlerPayload<E>) => void;
+
+/**
+ * - connecting: first connection attempt in progress
+ * - open:       connected and caught up
+ * - degraded:   dropped and retrying, or reconnected but some events could not be replayed
+ * - offline:    repeated reconnect failures, or the browser reports no network
+ */
+export type ConnectionState = 'connecting' | 'open' | 'degraded' | 'offline';
+
+/** Messages exchanged between tabs on the shared channel. */
+type TabMessage =
+  | { type: 'leader'; tabId: string }
+  | { type: 'hello'; tabId: string; topics: { topic: string; since?: number }[] }
+  | { type: 'subscribe'; tabId: string; topic: string }
+  | { type: 'unsubscribe'; tabId: string; topic: string }
+  | { type: 'bye'; tabId: string }
+  | { type: 'event'; raw: Record<string, unknown> }
+  | { type: 'state'; state: ConnectionState };
+
+const CHANNEL_NAME = 'qaptain-ws';
+const LEADER_LOCK = 'qaptain-ws-leader';
+
+// Server close code for a missing/expired access token (see app/realtime/websocket.py)
+const CLOSE_UNAUTHORIZED = 4401;
+// Reconnect attempts after which a dropped socket counts as offline rather than degraded
+const OFFLINE_AFTER_ATTEMPTS = 3;
+// How long to stay degraded after an unrecoverable replay gap — long enough for one poll cycle
+const GAP_DEGRADED_MS = 10000;
+// Bounded memory of seen seqs, to drop live/replay duplicates
+const SEEN_SEQ_LIMIT = 5000;
 
 class QAptainWebSocket {
   private ws: WebSocket | null = null;
   private clientId: string;
-  private handlers: Map<string, Set<EventHandler>> = new Map();
+  private tabId: string;
+  // Each set holds handlers for its own key; `emit` narrows them back when dispatching
+  private handlers: Map<HandlerKey, Set<EventHandler<never>>> = new Map();
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private reconnectDelay = 2000;
   private maxReconnectDelay = 30000;
-  private subscriptions: Set<string> = new Set();
+
+  // Cross-tab coordination. `topicHolders` maps topic → tabs that need it; the leader
+  // tracks every tab, a follower only itself. `localRefs` counts this tab's views per topic.
+  private channel: BroadcastChannel | null = null;
+  private isLeader = false;
+  private started = false;
+  private topicHolders: Map<string, Set<string>> = new Map();
+  private localRefs: Map<string, number> = new Map();
+
+  // Replay bookkeeping: last seq seen per held topic, within the server's epoch.
+  // Kept in every tab so a follower that takes over can resume where the old leader stopped.
+  private epoch: string | null = null;
+  private serverSeq = 0;
+  private lastSeq: Map<string, number> = new Map();
+  private seenSeqs: Set<number> = new Set();
+
+  private state: ConnectionState = 'connecting';
+  private stateListeners: Set<(state: ConnectionState) => void> = new Set();
+  private hasConnected = false;
+  private failedAttempts = 0;
+  private gapTimer: ReturnType<typeof setTimeout> | null = null;
+  private closedByClient = false;
+  private opening = false;
+  private networkListenersAttached = false;
 
   constructor() {
     this.clientId = `client_${Math.random().toString(36).slice(2, 10)}`;
+    this.tabId = `tab_${Math.random().toString(36).slice(2, 10)}`;
   }
 
   connect(): void {
-    if (this.ws?.readyState === WebSocket.OPEN) return;
+    this.closedByClient = false;
+    if (!this.started) {
+      this.started = true;
+      this.joinTabs();
+      return;
+    }
+    if (this.isLeader) this.openSocket();
+  }
+
+  disconnect(): void {
+    this.closedByClient = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.ws?.close();
+    this.ws = null;
+  }
+
+  /**
+   * Subscribe this view to a topic. Returns a release function — the topic stays
+   * subscribed on the server while any view in any tab still holds it.
+   */
+  subscribe(topic: string): () => void {
+    const refs = this.localRefs.get(topic) ?? 0;
+    this.localRefs.set(topic, refs + 1);
+    if (refs === 0) {
+      this.addHolder(this.tabId, topic);
+      if (!this.isLeader) this.post({ type: 'subscribe', tabId: this.tabId, topic });
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const remaining = (this.localRefs.get(topic) ?? 1) - 1;
+      if (remaining > 0) {
+        this.localRefs.set(topic, remaining);
+        return;
+      }
+      this.localRefs.delete(topic);
+      this.removeHolder(this.tabId, topic);
+      if (!this.isLeader) this.post({ type: 'unsubscribe', tabId: this.tabId, topic });
+    };
+  }
+
+  on<E extends HandlerKey>(event: E, handler: EventHandler<E>): () => void {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Set());
+    }
+    this.handlers.get(event)!.add(handler);
+    return () => this.off(event, handler);
+  }
+
+  off<E extends HandlerKey>(event: E, handler: EventHandler<E>): void {
+    this.handlers.get(event)?.delete(handler);
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  onStateChange(listener: (state: ConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => { this.stateListeners.delete(listener); };
+  }
+
+  // ── Tab coordination ──────────────────────────────────────────────────────
+
+  private joinTabs(): void {
+    const canShare = typeof BroadcastChannel !== 'undefined'
+      && typeof navigator !== 'undefined' && !!navigator.locks;
+    if (!canShare) {
+      this.becomeLeader();
+      return;
+    }
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (e: MessageEvent<TabMessage>) => this.onTabMessage(e.data);
+    window.addEventListener('pagehide', () => {
+      if (!this.isLeader) this.post({ type: 'bye', tabId: this.tabId });
+    });
+
+    // Held for the life of the tab; queued tabs get it in order as leaders close
+    navigator.locks.request(LEADER_LOCK, () => {
+      this.becomeLeader();
+      return new Promise<void>(() => {});
+    }).catch(() => this.becomeLeader());
+
+    // Announce ourselves to an existing leader, which replies with the connection state
+    this.sayHello();
+  }
+
+  private becomeLeader(): void {
+    if (this.isLeader) return;
+    this.isLeader = true;
+    this.post({ type: 'leader', tabId: this.tabId });
+    this.openSocket();
+  }
+
+  private sayHello(): void {
+    const topics = [...this.localRefs.keys()].map((topic) => ({ topic, since: this.lastSeq.get(topic) }));
+    this.post({ type: 'hello', tabId: this.tabId, topics });
+  }
+
+  private onTabMessage(msg: TabMessage): void {
+    switch (msg.type) {
+      case 'leader':
+        // New leader (first one, or a takeover) — re-register our topics with it
+        if (!this.isLeader) this.sayHello();
+        break;
+      case 'event':
+        if (!this.isLeader) this.dispatch(msg.raw);
+        break;
+      case 'state':
+        if (!this.isLeader) this.setState(msg.state, true);
+        break;
+      case 'hello':
+        if (!this.isLeader) break;
+        msg.topics.forEach(({ topic, since }) => this.addHolder(msg.tabId, topic, since));
+        this.post({ type: 'state', state: this.state });
+        break;
+      case 'subscribe':
+        if (this.isLeader) this.addHolder(msg.tabId, msg.topic);
+        break;
+      case 'unsubscribe':
+        if (this.isLeader) this.removeHolder(msg.tabId, msg.topic);
+        break;
+      case 'bye':
+        if (this.isLeader) [...this.topicHolders.keys()].forEach((topic) => this.removeHolder(msg.tabId, topic));
+        break;
+    }
+  }
+
+  private post(msg: TabMessage): void {
+    this.channel?.postMessage(msg);
+  }
+
+  /**
+   * Record that a tab holds a topic. The first holder subscribes the socket; `since`
+   * (from a tab that was listening under a previous leader) replays what it missed.
+   */
+  private addHolder(tabId: string, topic: string, since?: number): void {
+    let holders = this.topicHolders.get(topic);
+    const first = !holders;
+    if (!holders) {
+      holders = new Set();
+      this.topicHolders.set(topic, holders);
+    }
+    holders.add(tabId);
+
+    // Events from here on are what we'd need replayed after a drop
+    if (since !== undefined) {
+      this.lastSeq.set(topic, Math.min(this.lastSeq.get(topic) ?? since, since));
+    } else if (!this.lastSeq.has(topic)) {
+      this.lastSeq.set(topic, this.serverSeq);
+    }
+
+    if (!first || !this.isLeader) return;
+    if (since !== undefined && this.hasConnected && since < this.serverSeq) {
+      this.send({ subscribe: topic, since_seq: since, epoch: this.epoch });
+    } else {
+      this.send({ subscribe: topic });
+    }
+  }
+
+  private removeHolder(tabId: string, topic: string): void {
+    const holders = this.topicHolders.get(topic);
+    if (!holders?.delete(tabId) || holders.size > 0) return;
+    this.topicHolders.delete(topic);
+    this.lastSeq.delete(topic);
+    if (this.isLeader) this.send({ unsubscribe: topic });
+  }
+
+  // ── Socket (leader only) ──────────────────────────────────────────────────
 
-    this.ws = new WebSocket(`${WS_URL}/${this.clientId}`);
+  private async openSocket(): Promise<void> {
+    if (this.closedByClient || this.opening) return;
+    if (this.ws?.readyState === WebSocket.OPEN || this.ws?.readyState === WebSocket.CONNECTING) return;
+    this.attachNetworkListeners();
+    if (!this.hasConnected) this.setState('connecting');
+
+    // The handshake authenticates with the same access token as the REST client
+    this.opening = true;
+    const token = await getFreshAccessToken().finally(() => { this.opening = false; });
+    if (!token) {
+      expireSession();
+      return;
+    }
+    if (this.closedByClient) return;
+
+    this.ws = new WebSocket(`${WS_URL}/${this.clientId}?token=${encodeURIComponent(token)}`);
 
     this.ws.onopen = () => {
       console.log('[QAptain WS] Connected');
       this.reconnectDelay = 2000;
-      // Re-subscribe to all topics after reconnect
-      for (const topic of this.subscriptions) {
-        this.send({ subscribe: topic });
-      }
+      this.failedAttempts = 0;
+      // Topics are re-subscribed once the server's `connected` event tells us its epoch
     };
 
     this.ws.onmessage = (event) => {
+      let raw: unknown;
       try {
-        const data = JSON.parse(event.data);
-        const eventType = data.event as string;
-        if (eventType) {
-          this.emit(eventType, data);
-          this.emit('*', data); // Wildcard handler
-        }
+        raw = JSON.parse(event.data);
       } catch {
-        // ignore parse errors
+        return; // ignore non-JSON frames
+      }
+      if (!raw || typeof raw !== 'object') return;
+      if (this.dispatch(raw as Record<string, unknown>)) {
+        this.post({ type: 'event', raw: raw as Record<string, unknown> });
       }
     };
 
-    this.ws.onclose = () => {
+    this.ws.onclose = (event) => {
+      if (this.closedByClient) return;
+      if (event.code === CLOSE_UNAUTHORIZED) {
+        // Token expired between refreshes — renew it and reconnect straight away
+        refreshAccessToken(token)
+          .then((fresh) => (fresh ? this.openSocket() : expireSession()))
+          .catch(() => this.scheduleReconnect());
+        return;
+      }
+      this.failedAttempts += 1;
+      this.setState(
+        this.failedAttempts >= OFFLINE_AFTER_ATTEMPTS || this.browserOffline() ? 'offline'
+          : this.hasConnected ? 'degraded' : 'connecting',
+      );
       console.log('[QAptain WS] Disconnected — reconnecting in', this.reconnectDelay, 'ms');
       this.scheduleReconnect();
     };
@@ -57,31 +322,122 @@ class QAptainWebSocket {
     };
   }
 
-  disconnect(): void {
-    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
-    this.ws?.close();
-    this.ws = null;
+  /** Validate an inbound message and hand it to this tab's handlers. Returns false if invalid. */
+  private dispatch(raw: Record<string, unknown>): boolean {
+    const parsed = parseWsEvent(raw);
+    if (!parsed.ok) {
+      // Surface backend/frontend payload drift instead of handing handlers malformed data
+      console.warn(`[QAptain WS] Dropped "${parsed.event || '?'}" event: ${parsed.error}`, raw);
+      return false;
+    }
+    if (this.track(parsed.event)) {
+      this.emit(parsed.event.event, parsed.event);
+      this.emit('*', parsed.event); // Wildcard handler
+    }
+    return true;
   }
 
-  subscribe(topic: string): void {
-    this.subscriptions.add(topic);
-    this.send({ subscribe: topic });
+  /**
+   * Update replay bookkeeping for an inbound event. Returns false for duplicates
+   * (an event delivered both live and by a replay).
+   */
+  private track(event: WsEvent): boolean {
+    if (event.event === 'connected') {
+      this.handleConnected(event.epoch ?? null, event.replay_seq ?? 0);
+      return true;
+    }
+    if (event.event === 'error') {
+      console.warn(`[QAptain WS] Server refused ${event.topic ? `topic "${event.topic}"` : 'request'}: ${event.message}`);
+      return true;
+    }
+    if (event.event === 'replay_complete') {
+      if (this.topicHolders.has(event.topic)) {
+        this.lastSeq.set(event.topic, Math.max(this.lastSeq.get(event.topic) ?? 0, event.replay_seq));
+      }
+      if (event.gap) this.markGap();
+      return true;
+    }
+
+    const seq = event.replay_seq;
+    if (seq === undefined) return true;
+    if (this.seenSeqs.has(seq)) return false;
+    this.seenSeqs.add(seq);
+    if (this.seenSeqs.size > SEEN_SEQ_LIMIT) {
+      const oldest = this.seenSeqs.values().next().value;
+      if (oldest !== undefined) this.seenSeqs.delete(oldest);
+    }
+    this.serverSeq = Math.max(this.serverSeq, seq);
+    for (const topic of eventTopics(event)) {
+      if (this.topicHolders.has(topic)) {
+        this.lastSeq.set(topic, Math.max(this.lastSeq.get(topic) ?? 0, seq));
+      }
+    }
+    return true;
   }
 
-  on(event: string, handler: EventHandler): () => void {
-    if (!this.handlers.has(event)) {
-      this.handlers.set(event, new Set());
+  // Runs in every tab; only the leader has a socket, so `send` is a no-op elsewhere
+  private handleConnected(epoch: string | null, seq: number): void {
+    const isReconnect = this.hasConnected;
+    const restarted = isReconnect && epoch !== this.epoch;
+    if (restarted) {
+      // Old seqs mean nothing to a restarted server — the replay request carries the
+      // stale epoch so the server replays from scratch and reports a gap.
+      this.seenSeqs.clear();
+    }
+    const previousEpoch = this.epoch;
+    this.epoch = epoch;
+    this.serverSeq = restarted ? seq : Math.max(this.serverSeq, seq);
+    this.hasConnected = true;
+    this.setState('open');
+
+    for (const topic of this.topicHolders.keys()) {
+      if (isReconnect) {
+        this.send({ subscribe: topic, since_seq: this.lastSeq.get(topic) ?? 0, epoch: previousEpoch });
+        if (restarted) this.lastSeq.set(topic, 0);
+      } else {
+        if (!this.lastSeq.has(topic) || this.lastSeq.get(topic) === 0) this.lastSeq.set(topic, seq);
+        this.send({ subscribe: topic });
+      }
     }
-    this.handlers.get(event)!.add(handler);
-    return () => this.off(event, handler);
   }
 
-  off(event: string, handler: EventHandler): void {
-    this.handlers.get(event)?.delete(handler);
+  private markGap(): void {
+    this.setState('degraded');
+    if (this.gapTimer) clearTimeout(this.gapTimer);
+    this.gapTimer = setTimeout(() => {
+      if (this.ws?.readyState === WebSocket.OPEN) this.setState('open');
+    }, GAP_DEGRADED_MS);
+  }
+
+  /** Followers mirror the leader's state; only `fromLeader` updates apply to them. */
+  private setState(next: ConnectionState, fromLeader = false): void {
+    if (!this.isLeader && !fromLeader) return;
+    if (this.state === next) return;
+    this.state = next;
+    if (this.isLeader) this.post({ type: 'state', state: next });
+    this.stateListeners.forEach((l) => l(next));
   }
 
-  private emit(event: string, data: Record<string, unknown>): void {
-    this.handlers.get(event)?.forEach((h) => h(data));
+  private browserOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+  }
+
+  private attachNetworkListeners(): void {
+    if (this.networkListenersAttached || typeof window === 'undefined') return;
+    this.networkListenersAttached = true;
+    window.addEventListener('offline', () => this.setState('offline'));
+    window.addEventListener('online', () => {
+      // Don't wait out the backoff once the network is back
+      if (this.closedByClient || this.ws?.readyState === WebSocket.OPEN) return;
+      if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+      this.reconnectDelay = 2000;
+      this.openSocket();
+    });
+  }
+
+  // `data` was validated against `event`'s schema, so it is the payload every handler under that key expects
+  private emit<E extends HandlerKey>(event: E, data: HandlerPayload<E>): void {
+    this.handlers.get(event)?.forEach((h) => (h as EventHandler<E>)(data));
   }
 
   private send(data: Record<string, unknown>): void {
@@ -91,9 +447,10 @@ class QAptainWebSocket {
   }
 
   private scheduleReconnect(): void {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
     this.reconnectTimer = setTimeout(() => {
       this.reconnectDelay = Math.min(this.reconnectDelay * 1.5, this.maxReconnectDelay);
-      this.connect();
+      this.openSocket();
     }, this.reconnectDelay);
   }
 }
@@ -109,3 +466,4 @@ export function getSocket(): QAptainWebSocket {
 }
 
 export { QAptainWebSocket };
+export type { WsEvent, WsEventMap, WsEventName } from './ws-events';
@@ -0,0 +1,244 @@
+/**
+ * QAptain WebSocket Event Protocol
+ * One schema per backend event. The schemas are the single source of truth for
+ * payload shapes: `QAptainWebSocket.on()` infers handler types from them, and every
+ * inbound message is validated against them before it reaches a handler.
+ */
+
+import { z } from 'zod';
+
+// Every schema is `.passthrough()` so new backend fields don't break validation —
+// only missing or mistyped fields that the frontend relies on do.
+
+const logLevel = z.enum(['INFO', 'SUCCESS', 'WARNING', 'ERROR', 'MILESTONE']);
+
+const runEvent = z.object({ run_id: z.string() }).passthrough();
+const sessionEvent = z.object({ session_id: z.string() }).passthrough();
+const batchEvent = z.object({ run_ids: z.array(z.string()) }).passthrough();
+
+// Free-text prompts arrive as a single `{ type: 'text_input', label, placeholder }` option with no value
+const decisionOption = z.object({
+  label: z.string(),
+  value: z.string().optional(),
+  description: z.string().optional(),
+  type: z.string().optional(),
+  placeholder: z.string().optional(),
+}).passthrough().transform((o) => ({ ...o, value: o.value ?? o.label }));
+
+export const wsEventSchemas = {
+  // ── Connection ──────────────────────────────────────────────────────────────
+  connected: z.object({
+    client_id: z.string(),
+    message: z.string().optional(),
+    epoch: z.string().optional(),
+    replay_seq: z.number().optional(),
+  }).passthrough(),
+  subscribed: z.object({ topic: z.string() }).passthrough(),
+  // Sent after a reconnect replay; `gap` means some events were lost and REST is the source of truth
+  replay_complete: z.object({
+    topic: z.string(),
+    replayed: z.number(),
+    gap: z.boolean(),
+    replay_seq: z.number(),
+  }).passthrough(),
+  pong: z.object({}).passthrough(),
+  // A subscribe the server refused — the run or session is unknown or in another workspace
+  error: z.object({
+    topic: z.string().optional(),
+    message: z.string(),
+  }).passthrough(),
+
+  // ── Execution runs ──────────────────────────────────────────────────────────
+  run_started: runEvent.extend({
+    scenario_id: z.string().optional(),
+    plan_id: z.string().optional(),
+    environment: z.string().optional(),
+    batch_index: z.number().optional(),
+    batch_total: z.number().optional(),
+  }),
+  run_log: runEvent.extend({
+    id: z.string().optional(),
+    timestamp: z.string().optional(),
+    level: logLevel.catch('INFO'),
+    category: z.string().nullish().transform((v) => v ?? ''),
+    message: z.string(),
+  }),
+  // Plan-driven executors send their step `seq`; the step runner sends `step_num`.
+  step_started: runEvent.extend({
+    step_num: z.number().optional(),
+    seq: z.number().optional(),
+    total: z.number().optional(),
+    action: z.string().nullish(),
+    description: z.string().nullish(),
+    target: z.string().nullish(),
+    phase: z.string().nullish(),
+  }).transform((d) => ({ ...d, step_num: d.step_num ?? d.seq ?? 0 })),
+  // Plan-driven executors report a `status` string instead of the `success` flag.
+  step_completed: runEvent.extend({
+    step_index: z.number().optional(),
+    seq: z.number().optional(),
+    action: z.string().nullish(),
+    description: z.string().nullish(),
+    phase: z.string().nullish(),
+    success: z.boolean().optional(),
+    status: z.string().optional(),
+    healing_used: z.boolean().optional(),
+    duration_ms: z.number().nullish(),
+    result: z.string().optional(),
+  }).transform((d) => ({
+    ...d,
+    step_index: d.step_index ?? (d.seq !== undefined ? d.seq - 1 : 0),
+    success: d.success ?? ['passed', 'healed'].includes(String(d.status).toLowerCase()),
+    healing_used: d.healing_used ?? String(d.status).toLowerCase() === 'healed',
+  })),
+  run_completed: runEvent.extend({
+    status: z.string().optional(),
+    passed: z.number().optional(),
+    failed: z.number().optional(),
+    total: z.number().optional(),
+    steps: z.number().optional(),
+    workflow: z.string().nullish(),
+    workflow_type: z.string().nullish(),
+    batch_index: z.number().optional(),
+    batch_total: z.number().optional(),
+  }),
+  // Older executors send `error`; normalise to `reason`.
+  run_failed: runEvent.extend({
+    reason: z.string().optional(),
+    error: z.string().optional(),
+  }).transform((d) => ({ ...d, reason: d.reason ?? d.error })),
+  run_cancelled: runEvent.extend({ reason: z.string().optional() }),
+
+  // ── Plan runner diagnostics (informational, forwarded as-is) ────────────────
+  plan_started: runEvent,
+  plan_aborted: runEvent.extend({ at_step: z.number().optional(), reason: z.string().optional() }),
+  phase_started: runEvent.extend({ phase: z.string(), step_index: z.number().optional() }),
+  step_blocked: runEvent,
+  ui_transition: runEvent,
+  checkpoint_validated: runEvent,
+  low_confidence_warning: runEvent,
+  workflow_state_summary: runEvent,
+  execution_metrics: runEvent,
+  test_data_summary: runEvent,
+
+  // ── Batches ─────────────────────────────────────────────────────────────────
+  batch_started: batchEvent.extend({ count: z.number().optional(), environment: z.string().optional() }),
+  batch_completed: batchEvent.extend({
+    total: z.number().optional(),
+    completed: z.number().optional(),
+    failed: z.number().optional(),
+    duration_seconds: z.number().optional(),
+  }),
+  batch_failed: batchEvent.extend({
+    reason: z.string().optional(),
+    total: z.number().optional(),
+    failed: z.number().optional(),
+  }),
+
+  // ── Explore sessions ────────────────────────────────────────────────────────
+  explore_started: sessionEvent,
+  explore_log: sessionEvent.extend({
+    id: z.string().optional(),
+    timestamp: z.string().optional(),
+    level: logLevel.catch('INFO'),
+    category: z.string().nullish().transform((v) => v ?? ''),
+    message: z.string(),
+  }),
+  explore_status_changed: sessionEvent.extend({
+    status: z.enum(['PENDING', 'RUNNING', 'PAUSED', 'WAITING_HUMAN', 'COMPLETED', 'FAILED', 'CANCELLED']),
+  }),
+  modules_discovered: sessionEvent.extend({
+    application_id: z.string().optional(),
+    modules_count: z.number(),
+  }),
+  human_decision_required: sessionEvent.extend({
+    decision_id: z.string(),
+    question: z.string(),
+    options: z.array(decisionOption),
+    screenshot_url: z.string().optional(),
+  }),
+  explore_completed: sessionEvent.extend({
+    modules: z.number().optional(),
+    pages: z.number().optional(),
+    workflows: z.number().optional(),
+    scenarios_generated: z.number().optional(),
+    redirect_to: z.string().optional(),
+    // Only for module-scoped sessions: the refreshed modules' contents before and after
+    module_counts: z.object({
+      before: z.object({ pages: z.number(), workflows: z.number() }),
+      after: z.object({ pages: z.number(), workflows: z.number() }),
+    }).optional(),
+  }),
+  explore_failed: sessionEvent.extend({ reason: z.string().optional() }),
+  explore_cancelled: sessionEvent,
+
+  // ── Drift policy ────────────────────────────────────────────────────────────
+  // One step of the policy for a module; `triggered` carries the re-exploration it queued
+  drift_policy_event: z.object({
+    application_id: z.string(),
+    module_id: z.string().nullish(),
+    module_name: z.string().nullish(),
+    action: z.string(),
+    explore_session_id: z.string().nullish(),
+  }).passthrough(),
+
+  // ── Live browser view ───────────────────────────────────────────────────────
+  // Sent only to `screencast:<run or session id>` subscribers, without a seq — never replayed
+  browser_frame: z.object({
+    topic: z.string(),
+    data: z.string(),
+    mime: z.string().catch('image/jpeg'),
+    width: z.number(),
+    height: z.number(),
+    url: z.string().nullish(),
+    captured_at: z.string().optional(),
+  }).passthrough(),
+};
+
+export type WsEventName = keyof typeof wsEventSchemas;
+
+/**
+ * Event name → validated payload type, e.g. `WsEventMap['run_log']['level']`.
+ * Broadcasts carry the server-assigned `replay_seq` used for reconnect replay.
+ */
+export type WsEventMap = {
+  [K in WsEventName]: z.output<(typeof wsEventSchemas)[K]> & { event: K; replay_seq?: number };
+};
+
+/** Any validated event — narrow it by switching on `event`. */
+export type WsEvent = WsEventMap[WsEventName];
+
+export function isWsEventName(name: string): name is WsEventName {
+  return Object.prototype.hasOwnProperty.call(wsEventSchemas, name);
+}
+
+export type ParseResult =
+  | { ok: true; event: WsEvent }
+  | { ok: false; event: string; error: string };
+
+/** Validate a decoded message against its event schema. */
+export function parseWsEvent(raw: Record<string, unknown>): ParseResult {
+  const name = typeof raw.event === 'string' ? raw.event : '';
+  if (!isWsEventName(name)) {
+    return { ok: false, event: name, error: name ? 'unknown event' : 'missing "event" field' };
+  }
+  const result = wsEventSchemas[name].safeParse(raw);
+  if (!result.success) {
+    const error = result.error.issues
+      .map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`)
+      .join('; ');
+    return { ok: false, event: name, error };
+  }
+  return { ok: true, event: { ...result.data, event: name } as WsEvent };
+}
+
+/** The subscription topics an event belongs to — mirrors `_topics_of` in the backend manager. */
+export function eventTopics(event: WsEvent): string[] {
+  const e = event as Record<string, unknown>;
+  const topics: string[] = [];
+  for (const key of ['run_id', 'session_id', 'batch_id', 'topic']) {
+    if (typeof e[key] === 'string' && e[key]) topics.push(e[key] as string);
+  }
+  if (Array.isArray(e.run_ids)) topics.push(...(e.run_ids as string[]));
+  return topics;
+}
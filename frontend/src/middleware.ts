@@ -1,5 +1,31 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, safeCallbackUrl, verifySessionToken } from '@/lib/session-cookie';
+
+// Pages for signed-out visitors only; everything else in the matcher is a (platform) route
+const AUTH_PAGES = ['/login', '/signup'];
+
+export async function middleware(req: NextRequest) {
+  const { pathname, search } = req.nextUrl;
+  const session = await verifySessionToken(req.cookies.get(SESSION_COOKIE)?.value);
+
+  if (AUTH_PAGES.includes(pathname)) {
+    if (!session) return NextResponse.next();
+    const target = safeCallbackUrl(req.nextUrl.searchParams.get('callbackUrl'));
+    return NextResponse.redirect(new URL(target, req.url));
+  }
+
+  if (!session) {
+    const login = new URL('/login', req.url);
+    login.searchParams.set('callbackUrl', pathname + search);
+    const res = NextResponse.redirect(login);
+    // A cookie that failed validation is dead weight — don't keep sending it
+    if (req.cookies.has(SESSION_COOKIE)) res.cookies.delete(SESSION_COOKIE);
+    return res;
+  }
 
-export function middleware() {
   return NextResponse.next();
 }
+
+export const config = {
+  matcher: ['/dashboard/:path*', '/workspaces/:path*', '/settings/:path*', '/login', '/signup'],
+};